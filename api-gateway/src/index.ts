@@ -25,6 +25,7 @@ const ORDER_SERVICE_URL = process.env.ORDER_SERVICE_URL || 'http://localhost:300
 const DELIVERY_SERVICE_URL = process.env.DELIVERY_SERVICE_URL || 'http://localhost:3005';
 const REPORTING_SERVICE_URL = process.env.REPORTING_SERVICE_URL || 'http://localhost:3006';
 const NOTIFICATION_SERVICE_URL = process.env.NOTIFICATION_SERVICE_URL || 'http://localhost:3007';
+const CUSTOMER_SERVICE_URL = process.env.CUSTOMER_SERVICE_URL || 'http://localhost:3008';
 
 /**
  * API Gateway - Central entry point for all client requests
@@ -164,6 +165,7 @@ class ApiGateway {
     this.app.use('/api/delivery', this.authenticate.bind(this), this.createServiceProxy(DELIVERY_SERVICE_URL));
     this.app.use('/api/reports', this.authenticate.bind(this), this.createServiceProxy(REPORTING_SERVICE_URL));
     this.app.use('/api/notifications', this.authenticate.bind(this), this.createServiceProxy(NOTIFICATION_SERVICE_URL));
+    this.app.use('/api/customers', this.authenticate.bind(this), this.createServiceProxy(CUSTOMER_SERVICE_URL));
     
     // 404 handler
     this.app.use((req: Request, res: Response) => {
@@ -0,0 +1,1031 @@
+import { Request, Response } from 'express';
+import mongoose, { Schema, Document } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseService } from '../../shared/base-service';
+import { MessageBus } from '../../shared/message-bus';
+
+// Order service that owns order totals
+const ORDER_SERVICE_URL = process.env.ORDER_SERVICE_URL || 'http://localhost:3004';
+
+// Customer address interface
+interface ICustomerAddress {
+  addressId: string;
+  label: string;
+  street: string;
+  city: string;
+  state: string;
+  zip: string;
+  country: string;
+  latitude?: number;
+  longitude?: number;
+  contactName?: string;
+  contactPhone?: string;
+  deliveryNotes?: string;
+  isDefault: boolean;
+}
+
+// Marketing consent interface
+interface IConsent {
+  marketing: boolean;
+  promotions: boolean;
+  source?: string;
+  updatedAt?: Date;
+}
+
+// Lifetime stats interface (maintained from order events)
+interface ICustomerStats {
+  visitCount: number;
+  totalSpend: number;
+  averageOrderValue: number;
+  firstVisitAt?: Date;
+  lastVisitAt?: Date;
+  lastStoreId?: string;
+  recentOrderIds: string[];
+}
+
+// Customer interface
+interface ICustomer extends Document {
+  customerId: string;
+  firstName: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  normalizedPhone?: string;
+  dateOfBirth?: Date;
+  notes?: string;
+  tags: string[];
+  addresses: ICustomerAddress[];
+  consent: IConsent;
+  stats: ICustomerStats;
+  isActive: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Customer Service - Handles customer profiles, addresses, consent and lifetime stats
+ */
+export class CustomerService extends BaseService {
+  private messageBus: MessageBus;
+  private customerModel: mongoose.Model<ICustomer>;
+
+  /**
+   * Initialize the Customer Service
+   */
+  constructor() {
+    // Initialize base service with configuration
+    super(
+      'customer-service',
+      parseInt(process.env.PORT || '3008'),
+      process.env.MONGO_URI || 'mongodb://localhost:27017/mayura-customer',
+      process.env.RABBITMQ_URI || 'amqp://localhost',
+      process.env.REDIS_URI || 'redis://localhost:6379'
+    );
+
+    // Initialize message bus
+    this.messageBus = new MessageBus(
+      this.rabbitmqUri,
+      this.serviceName,
+      this.logger
+    );
+
+    // Define address schema
+    const addressSchema = new Schema<ICustomerAddress>({
+      addressId: {
+        type: String,
+        required: true
+      },
+      label: {
+        type: String,
+        required: true,
+        default: 'Home'
+      },
+      street: {
+        type: String,
+        required: true
+      },
+      city: {
+        type: String,
+        required: true
+      },
+      state: {
+        type: String,
+        required: true
+      },
+      zip: {
+        type: String,
+        required: true
+      },
+      country: {
+        type: String,
+        required: true
+      },
+      latitude: {
+        type: Number
+      },
+      longitude: {
+        type: Number
+      },
+      contactName: {
+        type: String
+      },
+      contactPhone: {
+        type: String
+      },
+      deliveryNotes: {
+        type: String,
+        maxlength: 500
+      },
+      isDefault: {
+        type: Boolean,
+        required: true,
+        default: false
+      }
+    }, { _id: false });
+
+    // Define customer schema
+    const customerSchema = new Schema<ICustomer>({
+      customerId: {
+        type: String,
+        required: true,
+        unique: true
+      },
+      firstName: {
+        type: String,
+        required: true,
+        trim: true
+      },
+      lastName: {
+        type: String,
+        trim: true
+      },
+      email: {
+        type: String,
+        lowercase: true,
+        trim: true,
+        match: [/^\S+@\S+\.\S+$/, 'Please enter a valid email']
+      },
+      phone: {
+        type: String,
+        trim: true
+      },
+      normalizedPhone: {
+        type: String
+      },
+      dateOfBirth: {
+        type: Date
+      },
+      notes: {
+        type: String,
+        maxlength: 2000
+      },
+      tags: [String],
+      addresses: [addressSchema],
+      consent: {
+        marketing: { type: Boolean, default: false },
+        promotions: { type: Boolean, default: false },
+        source: { type: String },
+        updatedAt: { type: Date }
+      },
+      stats: {
+        visitCount: { type: Number, default: 0 },
+        totalSpend: { type: Number, default: 0 },
+        averageOrderValue: { type: Number, default: 0 },
+        firstVisitAt: { type: Date },
+        lastVisitAt: { type: Date },
+        lastStoreId: { type: String },
+        recentOrderIds: [String]
+      },
+      isActive: {
+        type: Boolean,
+        required: true,
+        default: true
+      },
+      createdBy: {
+        type: String
+      }
+    }, {
+      timestamps: true
+    });
+
+    // One active profile per email address and per phone number
+    customerSchema.index(
+      { email: 1 },
+      { unique: true, partialFilterExpression: { isActive: true, email: { $type: 'string' } } }
+    );
+    customerSchema.index(
+      { normalizedPhone: 1 },
+      { unique: true, partialFilterExpression: { isActive: true, normalizedPhone: { $type: 'string' } } }
+    );
+    customerSchema.index({ lastName: 1, firstName: 1 });
+
+    // Create models
+    this.customerModel = mongoose.model<ICustomer>('Customer', customerSchema);
+  }
+
+  /**
+   * Initialize routes for the Customer service
+   */
+  protected async initRoutes(): Promise<void> {
+    // Customer routes
+    this.app.post('/customers', this.authenticate.bind(this), this.createCustomer.bind(this));
+    this.app.get('/customers', this.authenticate.bind(this), this.getCustomers.bind(this));
+    this.app.get('/customers/lookup', this.authenticate.bind(this), this.lookupCustomer.bind(this));
+    this.app.get('/customers/:id', this.authenticate.bind(this), this.getCustomer.bind(this));
+    this.app.put('/customers/:id', this.authenticate.bind(this), this.updateCustomer.bind(this));
+    this.app.delete('/customers/:id', this.authenticate.bind(this), this.deleteCustomer.bind(this));
+
+    // Saved address routes
+    this.app.post('/customers/:id/addresses', this.authenticate.bind(this), this.addAddress.bind(this));
+    this.app.put('/customers/:id/addresses/:addressId', this.authenticate.bind(this), this.updateAddress.bind(this));
+    this.app.delete('/customers/:id/addresses/:addressId', this.authenticate.bind(this), this.deleteAddress.bind(this));
+
+    // Marketing consent
+    this.app.put('/customers/:id/consent', this.authenticate.bind(this), this.updateConsent.bind(this));
+  }
+
+  /**
+   * Initialize message bus handlers
+   */
+  private async initMessageHandlers(): Promise<void> {
+    await this.messageBus.connect();
+
+    // Create exchanges
+    await this.messageBus.createExchange('customer', 'topic');
+
+    // Create queues
+    await this.messageBus.createQueue('customer.order.events', 'order', 'order.#');
+    await this.messageBus.createQueue('customer.payment.events', 'payment', 'payment.#');
+
+    // Listen for order events
+    await this.messageBus.subscribe('customer.order.events', async (content, msg) => {
+      this.logger.info(`Received order event: ${msg.fields.routingKey}`, { content });
+
+      // Handle specific events
+      switch (msg.fields.routingKey) {
+        case 'order.cancelled':
+          await this.handleOrderCancelled(content);
+          break;
+      }
+    });
+
+    // Listen for payment events
+    await this.messageBus.subscribe('customer.payment.events', async (content, msg) => {
+      this.logger.info(`Received payment event: ${msg.fields.routingKey}`, { content });
+
+      // Handle specific events
+      switch (msg.fields.routingKey) {
+        case 'payment.completed':
+        case 'payment.processed.offline':
+          await this.handlePaymentCompleted(content);
+          break;
+      }
+    });
+  }
+
+  /**
+   * Basic JWT authentication middleware
+   * In a real implementation, this would validate against the Auth service
+   */
+  private authenticate(req: Request, res: Response, next: Function): void {
+    // This is a simplified version that assumes the API Gateway has already
+    // performed authentication. In a real implementation, this would
+    // validate the JWT token and set user info
+
+    // Simulate authenticated user for demo purposes
+    (req as any).user = {
+      userId: 'user123',
+      roles: ['user']
+    };
+
+    next();
+  }
+
+  /**
+   * Create a customer, refusing duplicates by email or phone
+   */
+  private async createCustomer(req: Request, res: Response): Promise<void> {
+    try {
+      const {
+        firstName,
+        lastName,
+        email,
+        phone,
+        dateOfBirth,
+        notes,
+        tags = [],
+        addresses = [],
+        consent
+      } = req.body;
+
+      // Validate required fields
+      if (!firstName) {
+        res.status(400).json({ message: 'First name is required' });
+        return;
+      }
+
+      if (!email && !phone) {
+        res.status(400).json({ message: 'An email address or phone number is required' });
+        return;
+      }
+
+      // Return the existing profile rather than creating a second one
+      const existing = await this.findDuplicate(email, phone);
+
+      if (existing) {
+        res.status(409).json({
+          message: 'A customer with this email or phone already exists',
+          customerId: existing.customerId
+        });
+        return;
+      }
+
+      const addressError = this.validateAddresses(addresses);
+
+      if (addressError) {
+        res.status(400).json({ message: addressError });
+        return;
+      }
+
+      const customer = new this.customerModel({
+        customerId: uuidv4(),
+        firstName,
+        lastName,
+        email,
+        phone,
+        normalizedPhone: this.normalizePhone(phone),
+        dateOfBirth,
+        notes,
+        tags,
+        addresses: this.buildAddresses(addresses),
+        consent: {
+          marketing: consent?.marketing ?? false,
+          promotions: consent?.promotions ?? false,
+          source: consent?.source,
+          updatedAt: consent ? new Date() : undefined
+        },
+        stats: {
+          visitCount: 0,
+          totalSpend: 0,
+          averageOrderValue: 0,
+          recentOrderIds: []
+        },
+        createdBy: (req as any).user.userId
+      });
+
+      await customer.save();
+
+      await this.publishCustomerEvent('customer.created', customer);
+
+      res.status(201).json(this.formatCustomer(customer));
+    } catch (error: any) {
+      if (error.code === 11000) {
+        res.status(409).json({ message: 'A customer with this email or phone already exists' });
+        return;
+      }
+
+      this.logger.error(`Customer creation error: ${error}`);
+      res.status(500).json({ message: 'Failed to create customer', error: error.message });
+    }
+  }
+
+  /**
+   * Search customers
+   */
+  private async getCustomers(req: Request, res: Response): Promise<void> {
+    try {
+      const {
+        search,
+        tag,
+        includeInactive,
+        page = 1,
+        limit = 10
+      } = req.query;
+
+      // Build query
+      const query: any = {};
+
+      if (includeInactive !== 'true') query.isActive = true;
+      if (tag) query.tags = tag;
+
+      if (search) {
+        const pattern = new RegExp((search as string).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+        query.$or = [
+          { firstName: pattern },
+          { lastName: pattern },
+          { email: pattern },
+          { phone: pattern }
+        ];
+      }
+
+      // Parse pagination
+      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+      // Get customers
+      const customers = await this.customerModel
+        .find(query)
+        .sort({ lastName: 1, firstName: 1 })
+        .skip(skip)
+        .limit(parseInt(limit as string));
+
+      // Get total count
+      const total = await this.customerModel.countDocuments(query);
+
+      res.status(200).json({
+        customers: customers.map(customer => ({
+          customerId: customer.customerId,
+          firstName: customer.firstName,
+          lastName: customer.lastName,
+          email: customer.email,
+          phone: customer.phone,
+          tags: customer.tags,
+          visitCount: customer.stats.visitCount,
+          totalSpend: customer.stats.totalSpend,
+          lastVisitAt: customer.stats.lastVisitAt,
+          isActive: customer.isActive
+        })),
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total,
+          pages: Math.ceil(total / parseInt(limit as string))
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Get customers error: ${error}`);
+      res.status(500).json({ message: 'Failed to get customers' });
+    }
+  }
+
+  /**
+   * Look up a customer by phone or email at the till
+   */
+  private async lookupCustomer(req: Request, res: Response): Promise<void> {
+    try {
+      const { phone, email } = req.query;
+
+      if (!phone && !email) {
+        res.status(400).json({ message: 'Phone or email is required' });
+        return;
+      }
+
+      const customer = await this.findDuplicate(email as string, phone as string);
+
+      if (!customer) {
+        res.status(404).json({ message: 'Customer not found' });
+        return;
+      }
+
+      res.status(200).json(this.formatCustomer(customer));
+    } catch (error) {
+      this.logger.error(`Customer lookup error: ${error}`);
+      res.status(500).json({ message: 'Failed to look up customer' });
+    }
+  }
+
+  /**
+   * Get customer by ID
+   */
+  private async getCustomer(req: Request, res: Response): Promise<void> {
+    try {
+      const customer = await this.findCustomer(req.params.id);
+
+      if (!customer) {
+        res.status(404).json({ message: 'Customer not found' });
+        return;
+      }
+
+      res.status(200).json(this.formatCustomer(customer));
+    } catch (error) {
+      this.logger.error(`Get customer error: ${error}`);
+      res.status(500).json({ message: 'Failed to get customer' });
+    }
+  }
+
+  /**
+   * Update a customer's profile
+   */
+  private async updateCustomer(req: Request, res: Response): Promise<void> {
+    try {
+      const {
+        firstName,
+        lastName,
+        email,
+        phone,
+        dateOfBirth,
+        notes,
+        tags
+      } = req.body;
+
+      const customer = await this.findCustomer(req.params.id);
+
+      if (!customer || !customer.isActive) {
+        res.status(404).json({ message: 'Customer not found' });
+        return;
+      }
+
+      // Changing contact details must not collide with another profile
+      if (email !== undefined || phone !== undefined) {
+        const duplicate = await this.findDuplicate(email, phone);
+
+        if (duplicate && duplicate.customerId !== customer.customerId) {
+          res.status(409).json({
+            message: 'Another customer already uses this email or phone',
+            customerId: duplicate.customerId
+          });
+          return;
+        }
+      }
+
+      // Update fields if provided
+      if (firstName !== undefined) customer.firstName = firstName;
+      if (lastName !== undefined) customer.lastName = lastName;
+      if (email !== undefined) customer.email = email || undefined;
+      if (phone !== undefined) {
+        customer.phone = phone || undefined;
+        customer.normalizedPhone = this.normalizePhone(phone);
+      }
+      if (dateOfBirth !== undefined) customer.dateOfBirth = dateOfBirth;
+      if (notes !== undefined) customer.notes = notes;
+      if (Array.isArray(tags)) customer.tags = tags;
+
+      if (!customer.email && !customer.phone) {
+        res.status(400).json({ message: 'An email address or phone number is required' });
+        return;
+      }
+
+      await customer.save();
+
+      await this.publishCustomerEvent('customer.updated', customer);
+
+      res.status(200).json(this.formatCustomer(customer));
+    } catch (error: any) {
+      if (error.code === 11000) {
+        res.status(409).json({ message: 'Another customer already uses this email or phone' });
+        return;
+      }
+
+      this.logger.error(`Update customer error: ${error}`);
+      res.status(500).json({ message: 'Failed to update customer' });
+    }
+  }
+
+  /**
+   * Deactivate a customer; orders keep referencing the profile
+   */
+  private async deleteCustomer(req: Request, res: Response): Promise<void> {
+    try {
+      const customer = await this.findCustomer(req.params.id);
+
+      if (!customer || !customer.isActive) {
+        res.status(404).json({ message: 'Customer not found' });
+        return;
+      }
+
+      customer.isActive = false;
+      customer.consent = {
+        marketing: false,
+        promotions: false,
+        source: 'customer-deleted',
+        updatedAt: new Date()
+      };
+      await customer.save();
+
+      await this.messageBus.publish('customer', 'customer.deleted', {
+        customerId: customer.customerId,
+        timestamp: new Date().toISOString()
+      });
+
+      res.status(200).json({
+        customerId: customer.customerId,
+        message: 'Customer deactivated successfully'
+      });
+    } catch (error) {
+      this.logger.error(`Delete customer error: ${error}`);
+      res.status(500).json({ message: 'Failed to delete customer' });
+    }
+  }
+
+  /**
+   * Save a new address for a customer
+   */
+  private async addAddress(req: Request, res: Response): Promise<void> {
+    try {
+      const customer = await this.findCustomer(req.params.id);
+
+      if (!customer || !customer.isActive) {
+        res.status(404).json({ message: 'Customer not found' });
+        return;
+      }
+
+      const addressError = this.validateAddresses([req.body]);
+
+      if (addressError) {
+        res.status(400).json({ message: addressError });
+        return;
+      }
+
+      const [address] = this.buildAddresses([req.body]);
+
+      // The first saved address becomes the default
+      if (address.isDefault || customer.addresses.length === 0) {
+        customer.addresses.forEach(existing => { existing.isDefault = false; });
+        address.isDefault = true;
+      }
+
+      customer.addresses.push(address);
+      await customer.save();
+
+      await this.publishCustomerEvent('customer.updated', customer);
+
+      res.status(201).json(address);
+    } catch (error: any) {
+      this.logger.error(`Add address error: ${error}`);
+      res.status(500).json({ message: 'Failed to add address', error: error.message });
+    }
+  }
+
+  /**
+   * Update a saved address
+   */
+  private async updateAddress(req: Request, res: Response): Promise<void> {
+    try {
+      const { addressId } = req.params;
+      const customer = await this.findCustomer(req.params.id);
+
+      if (!customer || !customer.isActive) {
+        res.status(404).json({ message: 'Customer not found' });
+        return;
+      }
+
+      const address = customer.addresses.find(entry => entry.addressId === addressId);
+
+      if (!address) {
+        res.status(404).json({ message: 'Address not found' });
+        return;
+      }
+
+      const fields: (keyof ICustomerAddress)[] = [
+        'label', 'street', 'city', 'state', 'zip', 'country',
+        'latitude', 'longitude', 'contactName', 'contactPhone', 'deliveryNotes'
+      ];
+
+      const changes: Partial<ICustomerAddress> = {};
+
+      for (const field of fields) {
+        if (req.body[field] !== undefined) {
+          changes[field] = req.body[field];
+        }
+      }
+
+      Object.assign(address, changes);
+
+      if (req.body.isDefault === true) {
+        customer.addresses.forEach(entry => { entry.isDefault = entry.addressId === addressId; });
+      }
+
+      await customer.save();
+
+      await this.publishCustomerEvent('customer.updated', customer);
+
+      res.status(200).json(address);
+    } catch (error: any) {
+      this.logger.error(`Update address error: ${error}`);
+      res.status(500).json({ message: 'Failed to update address', error: error.message });
+    }
+  }
+
+  /**
+   * Remove a saved address
+   */
+  private async deleteAddress(req: Request, res: Response): Promise<void> {
+    try {
+      const { addressId } = req.params;
+      const customer = await this.findCustomer(req.params.id);
+
+      if (!customer || !customer.isActive) {
+        res.status(404).json({ message: 'Customer not found' });
+        return;
+      }
+
+      const index = customer.addresses.findIndex(entry => entry.addressId === addressId);
+
+      if (index === -1) {
+        res.status(404).json({ message: 'Address not found' });
+        return;
+      }
+
+      const [removed] = customer.addresses.splice(index, 1);
+
+      // Keep a default while any address remains
+      if (removed.isDefault && customer.addresses.length > 0) {
+        customer.addresses[0].isDefault = true;
+      }
+
+      await customer.save();
+
+      await this.publishCustomerEvent('customer.updated', customer);
+
+      res.status(200).json({ addressId, message: 'Address removed successfully' });
+    } catch (error) {
+      this.logger.error(`Delete address error: ${error}`);
+      res.status(500).json({ message: 'Failed to remove address' });
+    }
+  }
+
+  /**
+   * Record a customer's marketing consent
+   */
+  private async updateConsent(req: Request, res: Response): Promise<void> {
+    try {
+      const { marketing, promotions, source = 'pos' } = req.body;
+
+      if (typeof marketing !== 'boolean' && typeof promotions !== 'boolean') {
+        res.status(400).json({ message: 'Marketing or promotions consent is required' });
+        return;
+      }
+
+      const customer = await this.findCustomer(req.params.id);
+
+      if (!customer || !customer.isActive) {
+        res.status(404).json({ message: 'Customer not found' });
+        return;
+      }
+
+      customer.consent = {
+        marketing: typeof marketing === 'boolean' ? marketing : customer.consent.marketing,
+        promotions: typeof promotions === 'boolean' ? promotions : customer.consent.promotions,
+        source,
+        updatedAt: new Date()
+      };
+      await customer.save();
+
+      // The notification service applies consent to the customer's subscription
+      await this.publishCustomerEvent('customer.consent.updated', customer);
+
+      res.status(200).json({
+        customerId: customer.customerId,
+        consent: customer.consent
+      });
+    } catch (error) {
+      this.logger.error(`Update consent error: ${error}`);
+      res.status(500).json({ message: 'Failed to update consent' });
+    }
+  }
+
+  /**
+   * Handle payment completed event by counting the paid order in the customer's lifetime stats
+   */
+  private async handlePaymentCompleted(content: any): Promise<void> {
+    try {
+      const { orderId, timestamp } = content;
+
+      // A split payment only counts once its settlement is fully paid
+      if (content.settlement && content.settlement.status !== 'SETTLED') return;
+
+      const order = await this.fetchOrder(orderId);
+
+      if (!order || !order.customerId || order.status === 'CANCELLED') return;
+
+      const visitedAt = timestamp ? new Date(timestamp) : new Date();
+
+      // Skip orders already counted so redelivered events are harmless
+      const customer = await this.customerModel.findOneAndUpdate(
+        { customerId: order.customerId, 'stats.recentOrderIds': { $ne: orderId } },
+        {
+          $inc: { 'stats.visitCount': 1, 'stats.totalSpend': order.total },
+          $min: { 'stats.firstVisitAt': visitedAt },
+          $max: { 'stats.lastVisitAt': visitedAt },
+          $set: { 'stats.lastStoreId': order.storeId },
+          $push: { 'stats.recentOrderIds': { $each: [orderId], $slice: -100 } }
+        },
+        { new: true }
+      );
+
+      if (!customer) {
+        this.logger.debug(`No stats update for order ${orderId}: unknown customer or already counted`);
+        return;
+      }
+
+      await this.roundCustomerStats(customer);
+    } catch (error) {
+      this.logger.error(`Error handling payment completed: ${error}`);
+    }
+  }
+
+  /**
+   * Handle order cancelled event by taking a counted order back out of the customer's lifetime stats
+   */
+  private async handleOrderCancelled(content: any): Promise<void> {
+    try {
+      const { orderId, customerId, total = 0 } = content;
+
+      if (!customerId) return;
+
+      // Only orders that were counted are taken out, so redelivered events are harmless
+      const customer = await this.customerModel.findOneAndUpdate(
+        { customerId, 'stats.recentOrderIds': orderId },
+        {
+          $inc: { 'stats.visitCount': -1, 'stats.totalSpend': -total },
+          $pull: { 'stats.recentOrderIds': orderId }
+        },
+        { new: true }
+      );
+
+      if (!customer) return;
+
+      await this.roundCustomerStats(customer);
+    } catch (error) {
+      this.logger.error(`Error handling order cancelled: ${error}`);
+    }
+  }
+
+  /**
+   * Round the running spend and recompute the average order value
+   */
+  private async roundCustomerStats(customer: ICustomer): Promise<void> {
+    customer.stats.totalSpend = parseFloat(customer.stats.totalSpend.toFixed(2));
+    customer.stats.averageOrderValue = customer.stats.visitCount > 0
+      ? parseFloat((customer.stats.totalSpend / customer.stats.visitCount).toFixed(2))
+      : 0;
+    await customer.save();
+  }
+
+  /**
+   * Look up an order's customer, total and status from the order service, or null if there is no such order
+   */
+  private async fetchOrder(orderId: string): Promise<{ customerId?: string; total: number; storeId?: string; status: string } | null> {
+    const response = await fetch(`${ORDER_SERVICE_URL}/orders/${encodeURIComponent(orderId)}`);
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Order service responded ${response.status} for order ${orderId}`);
+    }
+
+    const order = await response.json() as { customerId?: string; total: number; storeId?: string; status: string };
+
+    return { customerId: order.customerId, total: order.total, storeId: order.storeId, status: order.status };
+  }
+
+  /**
+   * Find a customer by customer ID or MongoDB ID
+   */
+  private async findCustomer(id: string): Promise<ICustomer | null> {
+    return this.customerModel.findOne({
+      $or: [
+        { customerId: id },
+        { _id: mongoose.isValidObjectId(id) ? id : undefined }
+      ]
+    });
+  }
+
+  /**
+   * Find an active customer sharing an email address or phone number
+   */
+  private async findDuplicate(email?: string, phone?: string): Promise<ICustomer | null> {
+    const conditions: Record<string, any>[] = [];
+    const normalizedPhone = this.normalizePhone(phone);
+
+    if (email) conditions.push({ email: email.trim().toLowerCase() });
+    if (normalizedPhone) conditions.push({ normalizedPhone });
+
+    if (conditions.length === 0) {
+      return null;
+    }
+
+    return this.customerModel.findOne({ isActive: true, $or: conditions });
+  }
+
+  /**
+   * Reduce a phone number to its digits (keeping a leading +) for matching
+   */
+  private normalizePhone(phone?: string): string | undefined {
+    if (!phone) {
+      return undefined;
+    }
+
+    const digits = phone.replace(/[^\d+]/g, '').replace(/(?!^)\+/g, '');
+    return digits.length > 0 ? digits : undefined;
+  }
+
+  /**
+   * Check saved addresses have the fields a delivery needs
+   */
+  private validateAddresses(addresses: any[]): string | null {
+    if (!Array.isArray(addresses)) {
+      return 'Addresses must be a list';
+    }
+
+    for (const address of addresses) {
+      if (!address.street || !address.city || !address.state || !address.zip || !address.country) {
+        return 'Addresses require street, city, state, zip and country';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Assign IDs to new addresses, keeping exactly one default
+   */
+  private buildAddresses(addresses: any[]): ICustomerAddress[] {
+    const built: ICustomerAddress[] = addresses.map(address => ({
+      addressId: uuidv4(),
+      label: address.label || 'Home',
+      street: address.street,
+      city: address.city,
+      state: address.state,
+      zip: address.zip,
+      country: address.country,
+      latitude: address.latitude,
+      longitude: address.longitude,
+      contactName: address.contactName,
+      contactPhone: address.contactPhone,
+      deliveryNotes: address.deliveryNotes,
+      isDefault: !!address.isDefault
+    }));
+
+    if (built.length > 0 && !built.some(address => address.isDefault)) {
+      built[0].isDefault = true;
+    }
+
+    return built;
+  }
+
+  /**
+   * Publish a customer event carrying the data other services keep copies of
+   */
+  private async publishCustomerEvent(routingKey: string, customer: ICustomer): Promise<void> {
+    await this.messageBus.publish('customer', routingKey, {
+      customerId: customer.customerId,
+      firstName: customer.firstName,
+      lastName: customer.lastName,
+      email: customer.email,
+      phone: customer.phone,
+      addresses: customer.addresses,
+      consent: customer.consent,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Format a customer for API responses
+   */
+  private formatCustomer(customer: ICustomer): Record<string, any> {
+    return {
+      customerId: customer.customerId,
+      firstName: customer.firstName,
+      lastName: customer.lastName,
+      email: customer.email,
+      phone: customer.phone,
+      dateOfBirth: customer.dateOfBirth,
+      notes: customer.notes,
+      tags: customer.tags,
+      addresses: customer.addresses,
+      consent: customer.consent,
+      stats: {
+        visitCount: customer.stats.visitCount,
+        totalSpend: customer.stats.totalSpend,
+        averageOrderValue: customer.stats.averageOrderValue,
+        firstVisitAt: customer.stats.firstVisitAt,
+        lastVisitAt: customer.stats.lastVisitAt,
+        lastStoreId: customer.stats.lastStoreId
+      },
+      isActive: customer.isActive,
+      createdAt: customer.createdAt,
+      updatedAt: customer.updatedAt
+    };
+  }
+
+  /**
+   * Override start method to also initialize message handlers
+   */
+  public async start(): Promise<void> {
+    await super.start();
+    await this.initMessageHandlers();
+  }
+}
+
+// Start the service if this file is run directly
+if (require.main === module) {
+  const customerService = new CustomerService();
+  customerService.start().catch(error => {
+    console.error('Failed to start Customer Service:', error);
+    process.exit(1);
+  });
+
+  // Handle graceful shutdown
+  const shutdown = async () => {
+    await customerService.shutdown();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+export default CustomerService;
@@ -144,6 +144,31 @@ interface IVehicle extends Document {
   updatedAt: Date;
 }
 
+// Customer address book interface (projection of customer service events)
+interface ICustomerAddressBook extends Document {
+  customerId: string;
+  contactName: string;
+  contactPhone?: string;
+  addresses: {
+    addressId: string;
+    label: string;
+    street: string;
+    city: string;
+    state: string;
+    zip: string;
+    country: string;
+    latitude?: number;
+    longitude?: number;
+    contactName?: string;
+    contactPhone?: string;
+    deliveryNotes?: string;
+    isDefault: boolean;
+  }[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 /**
  * Delivery Service - Handles delivery tracking and management
  */
@@ -152,6 +177,7 @@ export class DeliveryService extends BaseService {
   private deliveryModel: mongoose.Model<IDelivery>;
   private driverModel: mongoose.Model<IDriver>;
   private vehicleModel: mongoose.Model<IVehicle>;
+  private addressBookModel: mongoose.Model<ICustomerAddressBook>;
 
   /**
    * Initialize the Delivery Service
@@ -431,10 +457,50 @@ export class DeliveryService extends BaseService {
       timestamps: true
     });
 
+    // Define customer address book schema
+    const addressBookSchema = new Schema<ICustomerAddressBook>({
+      customerId: { 
+        type: String, 
+        required: true, 
+        unique: true
+      },
+      contactName: { 
+        type: String, 
+        required: true
+      },
+      contactPhone: { 
+        type: String 
+      },
+      addresses: [{
+        _id: false,
+        addressId: { type: String, required: true },
+        label: { type: String },
+        street: { type: String, required: true },
+        city: { type: String, required: true },
+        state: { type: String, required: true },
+        zip: { type: String, required: true },
+        country: { type: String, required: true },
+        latitude: { type: Number },
+        longitude: { type: Number },
+        contactName: { type: String },
+        contactPhone: { type: String },
+        deliveryNotes: { type: String },
+        isDefault: { type: Boolean, default: false }
+      }],
+      isActive: { 
+        type: Boolean, 
+        required: true, 
+        default: true
+      }
+    }, {
+      timestamps: true
+    });
+
     // Create models
     this.deliveryModel = mongoose.model<IDelivery>('Delivery', deliverySchema);
     this.driverModel = mongoose.model<IDriver>('Driver', driverSchema);
     this.vehicleModel = mongoose.model<IVehicle>('Vehicle', vehicleSchema);
+    this.addressBookModel = mongoose.model<ICustomerAddressBook>('CustomerAddressBook', addressBookSchema);
   }
 
   /**
@@ -480,6 +546,8 @@ export class DeliveryService extends BaseService {
     
     // Create queues
     await this.messageBus.createQueue('delivery.order.events', 'order', 'order.#');
+    await this.messageBus.createQueue('delivery.customer.events', 'customer', 'customer.#');
+    await this.messageBus.createQueue('delivery.inventory.events', 'inventory', 'transfer-order.shipped');
     
     // Listen for order events
     await this.messageBus.subscribe('delivery.order.events', async (content, msg) => {
@@ -495,6 +563,33 @@ export class DeliveryService extends BaseService {
           break;
       }
     });
+    
+    // Listen for customer events to keep saved addresses available
+    await this.messageBus.subscribe('delivery.customer.events', async (content, msg) => {
+      this.logger.info(`Received customer event: ${msg.fields.routingKey}`, { customerId: content.customerId });
+      
+      switch (msg.fields.routingKey) {
+        case 'customer.created':
+        case 'customer.updated':
+        case 'customer.consent.updated':
+          await this.handleCustomerUpdated(content);
+          break;
+        case 'customer.deleted':
+          await this.handleCustomerDeleted(content);
+          break;
+      }
+    });
+    
+    // Listen for shipped store transfers that need a delivery
+    await this.messageBus.subscribe('delivery.inventory.events', async (content, msg) => {
+      this.logger.info(`Received inventory event: ${msg.fields.routingKey}`, { transferOrderId: content.transferOrderId });
+      
+      switch (msg.fields.routingKey) {
+        case 'transfer-order.shipped':
+          await this.handleTransferShipped(content);
+          break;
+      }
+    });
   }
 
   /**
@@ -526,11 +621,26 @@ export class DeliveryService extends BaseService {
         type = DeliveryType.STANDARD,
         scheduledTime,
         origin,
-        destination,
         items,
         priority = 1,
         notes
       } = req.body;
+      let { destination } = req.body;
+      
+      // Resolve a saved customer address into a full destination
+      if (destination && destination.addressId) {
+        if (!customerId) {
+          res.status(400).json({ message: 'Customer ID is required to use a saved address' });
+          return;
+        }
+        
+        destination = await this.resolveSavedDestination(customerId, destination);
+        
+        if (!destination) {
+          res.status(404).json({ message: 'Saved address not found for customer' });
+          return;
+        }
+      }
       
       // Validate required fields
       if (!orderId || !origin || !origin.storeId || !origin.address || !destination || !destination.address) {
@@ -2212,19 +2322,7 @@ export class DeliveryService extends BaseService {
       const storeId = content.storeId || 'store_default';
       const orderItems = content.items || [];
       
-      // Default origin address (would come from Store Service in reality)
-      const defaultOrigin = {
-        storeId,
-        address: {
-          street: '123 Main St',
-          city: 'Anytown',
-          state: 'CA',
-          zip: '12345',
-          country: 'US'
-        },
-        contactName: 'Store Manager',
-        contactPhone: '555-123-4567'
-      };
+      const defaultOrigin = this.getStoreLocation(storeId);
       
       // Create delivery if shipping address is available
       if (shippingAddress) {
@@ -2287,6 +2385,103 @@ export class DeliveryService extends BaseService {
     }
   }
 
+  /**
+   * Handle transfer order shipped event by creating a delivery between the two stores.
+   * The transfer order ID stands in as the delivery's order ID
+   */
+  private async handleTransferShipped(content: any): Promise<void> {
+    try {
+      const { transferOrderId, fromStoreId, toStoreId, requestDelivery, items = [] } = content;
+      
+      if (!transferOrderId || !fromStoreId || !toStoreId) {
+        this.logger.error('Invalid transfer order shipped event data');
+        return;
+      }
+      
+      if (!requestDelivery) {
+        return;
+      }
+      
+      // Check if delivery already exists for this transfer
+      const existingDelivery = await this.deliveryModel.findOne({ orderId: transferOrderId });
+      
+      if (existingDelivery) {
+        this.logger.info(`Delivery already exists for transfer order ${transferOrderId}`);
+        return;
+      }
+      
+      const destination = this.getStoreLocation(toStoreId);
+      const deliveryId = uuidv4();
+      const tracking = {
+        trackingId: `TRK-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+        trackingUrl: `https://mayurapos.com/track/${deliveryId}`,
+        checkpoints: [{
+          status: 'CREATED',
+          timestamp: new Date(),
+          notes: `Delivery automatically created for transfer to store ${toStoreId}`
+        }]
+      };
+      
+      const delivery = new this.deliveryModel({
+        deliveryId,
+        orderId: transferOrderId,
+        status: DeliveryStatus.PENDING,
+        type: DeliveryType.STANDARD,
+        origin: this.getStoreLocation(fromStoreId),
+        destination: {
+          address: destination.address,
+          contactName: destination.contactName,
+          contactPhone: destination.contactPhone,
+          notes: 'Store transfer'
+        },
+        items: items.map((item: any) => ({
+          productId: item.productId,
+          sku: item.sku || 'N/A',
+          name: item.name || item.sku || 'Product',
+          quantity: item.quantity || 1
+        })),
+        priority: 1,
+        tracking
+      });
+      
+      await delivery.save();
+      
+      // Publish delivery created event
+      await this.messageBus.publish('delivery', 'delivery.created', {
+        deliveryId,
+        orderId: transferOrderId,
+        storeId: fromStoreId,
+        status: delivery.status,
+        type: delivery.type,
+        trackingId: tracking.trackingId,
+        timestamp: new Date().toISOString()
+      });
+      
+      this.logger.info(`Created delivery ${deliveryId} for transfer order ${transferOrderId}`);
+    } catch (error) {
+      this.logger.error(`Handle transfer shipped error: ${error}`);
+    }
+  }
+
+  /**
+   * A store's pickup and drop-off details
+   * (would come from Store Service in reality)
+   */
+  private getStoreLocation(storeId: string): IDelivery['origin'] {
+    return {
+      storeId,
+      address: {
+        street: '123 Main St',
+        city: 'Anytown',
+        state: 'CA',
+        zip: '12345',
+        country: 'US'
+      },
+      contactName: 'Store Manager',
+      contactPhone: '555-123-4567'
+    };
+  }
+
   /**
    * Handle order cancelled event
    */
@@ -2364,6 +2559,89 @@ export class DeliveryService extends BaseService {
     }
   }
 
+  /**
+   * Handle customer created/updated events by refreshing the address book
+   */
+  private async handleCustomerUpdated(content: any): Promise<void> {
+    try {
+      const { customerId, firstName, lastName, phone, addresses = [] } = content;
+      
+      if (!customerId) {
+        this.logger.error('Invalid customer event data');
+        return;
+      }
+      
+      await this.addressBookModel.updateOne(
+        { customerId },
+        {
+          $set: {
+            contactName: [firstName, lastName].filter(Boolean).join(' ') || 'Customer',
+            contactPhone: phone,
+            addresses,
+            isActive: true
+          }
+        },
+        { upsert: true }
+      );
+    } catch (error: any) {
+      // A concurrent upsert for the same customer already created the entry
+      if (error.code === 11000) {
+        return;
+      }
+      
+      this.logger.error(`Handle customer updated error: ${error}`);
+    }
+  }
+
+  /**
+   * Handle customer deleted event
+   */
+  private async handleCustomerDeleted(content: any): Promise<void> {
+    try {
+      const { customerId } = content;
+      
+      if (!customerId) {
+        this.logger.error('Invalid customer deleted event data');
+        return;
+      }
+      
+      await this.addressBookModel.updateOne(
+        { customerId },
+        { $set: { isActive: false, addresses: [] } }
+      );
+    } catch (error) {
+      this.logger.error(`Handle customer deleted error: ${error}`);
+    }
+  }
+
+  /**
+   * Build a delivery destination from a customer's saved address.
+   * Contact details and notes sent with the request take precedence.
+   */
+  private async resolveSavedDestination(customerId: string, destination: any): Promise<any | null> {
+    const addressBook = await this.addressBookModel.findOne({ customerId, isActive: true });
+    const saved = addressBook?.addresses.find(address => address.addressId === destination.addressId);
+    
+    if (!addressBook || !saved) {
+      return null;
+    }
+    
+    return {
+      address: {
+        street: saved.street,
+        city: saved.city,
+        state: saved.state,
+        zip: saved.zip,
+        country: saved.country,
+        latitude: saved.latitude,
+        longitude: saved.longitude
+      },
+      contactName: destination.contactName || saved.contactName || addressBook.contactName,
+      contactPhone: destination.contactPhone || saved.contactPhone || addressBook.contactPhone,
+      notes: destination.notes || saved.deliveryNotes
+    };
+  }
+
   /**
    * Override start method to also initialize message handlers
    */
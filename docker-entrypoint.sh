@@ -38,9 +38,12 @@ case "$SERVICE_NAME" in
   "notification-service")
     cd /app/notification-service && node dist/index.js
     ;;
+  "customer-service")
+    cd /app/customer-service && node dist/index.js
+    ;;
   *)
     echo "Unknown service: $SERVICE_NAME"
-    echo "Available services: api-gateway, auth-service, payment-service, inventory-service, order-service, delivery-service, reporting-service, notification-service"
+    echo "Available services: api-gateway, auth-service, payment-service, inventory-service, order-service, delivery-service, reporting-service, notification-service, customer-service"
     exit 1
     ;;
 esac
\ No newline at end of file
@@ -0,0 +1,25 @@
+// src/api/customerApi.ts
+import { apiClient } from './apiClient';
+import { Customer } from '../types/customer.types';
+
+class CustomerApi {
+  /**
+   * Find a customer by phone number or email address
+   */
+  async lookupCustomer(query: { phone?: string; email?: string }): Promise<Customer> {
+    const response = await apiClient.get<Customer>('/api/customers/customers/lookup', {
+      params: query
+    });
+    return response.data;
+  }
+
+  /**
+   * Get a customer by ID
+   */
+  async getCustomer(customerId: string): Promise<Customer> {
+    const response = await apiClient.get<Customer>(`/api/customers/customers/${customerId}`);
+    return response.data;
+  }
+}
+
+export const customerApi = new CustomerApi();
@@ -5,6 +5,18 @@ import {
   ProductWithInventory, 
   ProductInventory, 
   ProductSearchParams,
+  ProductVariant,
+  VariantOption,
+  VariantInput,
+  ModifierGroup,
+  KitComponent,
+  KitAvailability,
+  ExpiringLotAlert,
+  SerialLookup,
+  SerialValidation,
+  CostingMethod,
+  CostingSettings,
+  InventoryValuation,
   PaginatedResponse
 } from '../types/inventory.types';
 import { safeGet } from '../utils/type-safety';
@@ -38,6 +50,71 @@ class InventoryApi {
     return response.data;
   }
 
+  /**
+   * Get the variants of a parent product
+   */
+  async getVariants(productId: string): Promise<ProductVariant[]> {
+    const response = await apiClient.get<{ variants: ProductVariant[] }>(`/api/inventory/products/${productId}/variants`);
+    return response.data.variants;
+  }
+
+  /**
+   * Add variants to a parent product; options generate every combination
+   */
+  async createVariants(
+    productId: string,
+    data: { options?: VariantOption[]; variants?: VariantInput[] }
+  ): Promise<{ created: ProductVariant[]; skipped: number }> {
+    const response = await apiClient.post<{ created: ProductVariant[]; skipped: number }>(
+      `/api/inventory/products/${productId}/variants`,
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Replace the modifier groups offered on a product
+   */
+  async updateModifiers(productId: string, modifierGroups: Partial<ModifierGroup>[]): Promise<ModifierGroup[]> {
+    const response = await apiClient.put<{ modifierGroups: ModifierGroup[] }>(
+      `/api/inventory/products/${productId}/modifiers`,
+      { modifierGroups }
+    );
+    return response.data.modifierGroups;
+  }
+
+  /**
+   * Replace a kit's components
+   */
+  async updateKitComponents(productId: string, components: { productId: string; quantity: number }[]): Promise<KitComponent[]> {
+    const response = await apiClient.put<{ kitComponents: KitComponent[] }>(
+      `/api/inventory/products/${productId}/components`,
+      { components }
+    );
+    return response.data.kitComponents;
+  }
+
+  /**
+   * Get how many of a kit a store can sell
+   */
+  async getKitAvailability(productId: string, storeId?: string): Promise<KitAvailability> {
+    const response = await apiClient.get<KitAvailability>(`/api/inventory/products/${productId}/availability`, {
+      params: storeId ? { storeId } : {}
+    });
+    return response.data;
+  }
+
+  /**
+   * Pre-assemble kits from component stock
+   */
+  async assembleKit(productId: string, storeId: string, quantity: number, notes?: string): Promise<{ assemblyId: string; kitQuantity: number }> {
+    const response = await apiClient.post<{ assemblyId: string; kitQuantity: number }>(
+      `/api/inventory/products/${productId}/assemble`,
+      { storeId, quantity, notes }
+    );
+    return response.data;
+  }
+
   /**
    * Get inventory for a specific product
    */
@@ -78,6 +155,67 @@ class InventoryApi {
     return response.data;
   }
 
+  /**
+   * Get lots expiring within the given number of days
+   */
+  async getExpiringLotAlerts(
+    storeId?: string,
+    params: { days?: number; page?: number; limit?: number } = {}
+  ): Promise<{ alerts: ExpiringLotAlert[]; pagination: PaginatedResponse<ExpiringLotAlert>['pagination'] }> {
+    const queryParams = storeId ? { ...params, storeId } : params;
+    const response = await apiClient.get<{ alerts: ExpiringLotAlert[]; pagination: PaginatedResponse<ExpiringLotAlert>['pagination'] }>(
+      '/api/inventory/inventory/alerts/expiring',
+      { params: queryParams }
+    );
+    return response.data;
+  }
+
+  /**
+   * Check scanned serial numbers can be sold from a store
+   */
+  async validateSerials(productId: string, storeId: string, serialNumbers: string[]): Promise<SerialValidation> {
+    const response = await apiClient.post<SerialValidation>('/api/inventory/serials/validate', {
+      productId,
+      storeId,
+      serialNumbers
+    });
+    return response.data;
+  }
+
+  /**
+   * Look up a serial number for warranty checks
+   */
+  async lookupSerial(serialNumber: string): Promise<SerialLookup[]> {
+    const response = await apiClient.get<{ serials: SerialLookup[] }>(
+      `/api/inventory/serials/${encodeURIComponent(serialNumber)}`
+    );
+    return response.data.serials;
+  }
+
+  /**
+   * Get a store's costing method
+   */
+  async getCostingSettings(storeId: string): Promise<CostingSettings> {
+    const response = await apiClient.get<CostingSettings>(`/api/inventory/stores/${storeId}/costing`);
+    return response.data;
+  }
+
+  /**
+   * Set a store's costing method
+   */
+  async updateCostingSettings(storeId: string, method: CostingMethod): Promise<CostingSettings> {
+    const response = await apiClient.put<CostingSettings>(`/api/inventory/stores/${storeId}/costing`, { method });
+    return response.data;
+  }
+
+  /**
+   * Get inventory valuation, optionally as of a past date
+   */
+  async getInventoryValuation(params: { storeId?: string; asOf?: string } = {}): Promise<InventoryValuation> {
+    const response = await apiClient.get<InventoryValuation>('/api/inventory/inventory/valuation', { params });
+    return response.data;
+  }
+
   /**
    * Reserve inventory for an order
    */
@@ -6,9 +6,16 @@ import {
   OrderStatus, 
   OrderSearchParams, 
   OrderSummary,
-  OrderStats
+  OrderStats,
+  OrderReturn,
+  OrderHold,
+  HeldOrderSummary,
+  KitchenTicket,
+  ReturnItemRequest,
+  RefundMethod
 } from '../types/order.types';
 import { CartItem } from '../types/inventory.types';
+import { StoreCreditBalance } from '../types/payment.types';
 
 // Properly typed interface definitions
 interface StatusUpdateResponse {
@@ -26,16 +33,37 @@ interface OrdersResponse {
   };
 }
 
-interface PaginatedResponse<T> {
-  items: T[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    pages: number;
-  };
+interface CustomerOrdersResponse extends OrdersResponse {
+  storeCredit: StoreCreditBalance;
+}
+
+interface HoldOrderResponse {
+  orderId: string;
+  status: OrderStatus;
+  hold: OrderHold;
+  total: number;
 }
 
+interface CreateReturnResponse {
+  return: OrderReturn;
+  replacementOrder?: Pick<Order, 'orderId' | 'status' | 'items' | 'subtotal' | 'tax' | 'total'>;
+}
+
+/**
+ * Map cart lines to the order item shape the order service expects
+ */
+const toOrderItems = (items: CartItem[]): OrderItem[] => items.map(item => ({
+  productId: item.productId,
+  sku: item.sku,
+  name: item.name,
+  category: item.category,
+  taxRate: item.taxRate,
+  quantity: item.quantity,
+  unitPrice: item.price,
+  discount: 0,
+  totalPrice: item.price * item.quantity
+}));
+
 class OrderApi {
   /**
    * Create a new order
@@ -43,20 +71,12 @@ class OrderApi {
   async createOrder(
     items: CartItem[],
     isOfflineOrder = false,  // Removed explicit boolean type
-    metadata: Record<string, unknown> = {}
+    metadata: Record<string, unknown> = {},
+    customerId?: string
   ): Promise<Order> {
-    const orderItems: OrderItem[] = items.map(item => ({
-      productId: item.productId,
-      sku: item.sku,
-      name: item.name,
-      quantity: item.quantity,
-      unitPrice: item.price,
-      discount: 0,
-      totalPrice: item.price * item.quantity
-    }));
-
     const response = await apiClient.post<Order>('/api/orders/orders', {
-      items: orderItems,
+      customerId,
+      items: toOrderItems(items),
       isOfflineOrder,
       metadata
     });
@@ -80,8 +100,8 @@ class OrderApi {
     status?: OrderStatus,
     page = 1,  // Removed explicit number type
     limit = 10  // Removed explicit number type
-  ): Promise<PaginatedResponse<OrderSummary>> {
-    const response = await apiClient.get<PaginatedResponse<OrderSummary>>(
+  ): Promise<CustomerOrdersResponse> {
+    const response = await apiClient.get<CustomerOrdersResponse>(
       `/api/orders/orders/customer/${customerId}`, 
       {
         params: { status, page, limit }
@@ -119,6 +139,13 @@ class OrderApi {
     return response.data;
   }
 
+  /**
+   * Replace the items of an open order with the current cart
+   */
+  async updateOrderFromCart(orderId: string, items: CartItem[]): Promise<Order> {
+    return this.updateOrder(orderId, toOrderItems(items));
+  }
+
   /**
    * Add item to order
    */
@@ -129,7 +156,9 @@ class OrderApi {
     name: string,
     quantity: number,
     unitPrice: number,
-    discount = 0  // Removed explicit number type
+    discount = 0,  // Removed explicit number type
+    modifierIds: string[] = [],
+    serialNumbers: string[] = []
   ): Promise<Order> {
     const response = await apiClient.post<Order>(`/api/orders/orders/${orderId}/items`, {
       productId,
@@ -137,11 +166,21 @@ class OrderApi {
       name,
       quantity,
       unitPrice,
-      discount
+      discount,
+      modifiers: modifierIds,
+      serialNumbers
     });
     return response.data;
   }
 
+  /**
+   * Get the kitchen ticket for an order
+   */
+  async getKitchenTicket(orderId: string): Promise<KitchenTicket> {
+    const response = await apiClient.get<KitchenTicket>(`/api/orders/orders/${orderId}/kitchen-ticket`);
+    return response.data;
+  }
+
   /**
    * Update order item quantity
    */
@@ -166,6 +205,26 @@ class OrderApi {
     return response.data;
   }
 
+  /**
+   * Apply a coupon code to an order
+   */
+  async applyCoupon(orderId: string, code: string): Promise<Order> {
+    const response = await apiClient.post<Order>(`/api/orders/orders/${orderId}/coupons`, {
+      code
+    });
+    return response.data;
+  }
+
+  /**
+   * Remove a coupon code from an order
+   */
+  async removeCoupon(orderId: string, code: string): Promise<Order> {
+    const response = await apiClient.delete<Order>(
+      `/api/orders/orders/${orderId}/coupons/${encodeURIComponent(code)}`
+    );
+    return response.data;
+  }
+
   /**
    * Confirm order (move to CONFIRMED status)
    */
@@ -208,6 +267,88 @@ class OrderApi {
     return response.data;
   }
 
+  /**
+   * Park an open order at the register
+   */
+  async holdOrder(
+    orderId: string,
+    label: string,
+    terminalId: string,
+    reserveInventory = false
+  ): Promise<HoldOrderResponse> {
+    const response = await apiClient.post<HoldOrderResponse>(`/api/orders/orders/${orderId}/hold`, {
+      label,
+      terminalId,
+      reserveInventory
+    });
+    return response.data;
+  }
+
+  /**
+   * Recall a parked order
+   */
+  async recallOrder(orderId: string, terminalId: string): Promise<Order> {
+    const response = await apiClient.post<Order>(`/api/orders/orders/${orderId}/recall`, {
+      terminalId
+    });
+    return response.data;
+  }
+
+  /**
+   * Get the orders parked at a terminal
+   */
+  async getHeldOrders(terminalId?: string): Promise<HeldOrderSummary[]> {
+    const response = await apiClient.get<{ orders: HeldOrderSummary[] }>('/api/orders/held-orders', {
+      params: { terminalId }
+    });
+    return response.data.orders;
+  }
+
+  /**
+   * Return items from an order, optionally exchanging them for new ones
+   */
+  async createReturn(
+    orderId: string,
+    items: ReturnItemRequest[],
+    refundMethod: RefundMethod = 'ORIGINAL_TENDER',
+    exchangeItems: CartItem[] = [],
+    notes?: string
+  ): Promise<CreateReturnResponse> {
+    const response = await apiClient.post<CreateReturnResponse>(`/api/orders/orders/${orderId}/returns`, {
+      items,
+      refundMethod,
+      exchangeItems: toOrderItems(exchangeItems),
+      notes
+    });
+    return response.data;
+  }
+
+  /**
+   * Get the returns raised against an order
+   */
+  async getOrderReturns(orderId: string): Promise<OrderReturn[]> {
+    const response = await apiClient.get<{ returns: OrderReturn[] }>(`/api/orders/orders/${orderId}/returns`);
+    return response.data.returns;
+  }
+
+  /**
+   * Approve a return, refunding and restocking it
+   */
+  async approveReturn(returnId: string): Promise<OrderReturn> {
+    const response = await apiClient.post<OrderReturn>(`/api/orders/returns/${returnId}/approve`);
+    return response.data;
+  }
+
+  /**
+   * Reject a return
+   */
+  async rejectReturn(returnId: string, reason?: string): Promise<OrderReturn> {
+    const response = await apiClient.post<OrderReturn>(`/api/orders/returns/${returnId}/reject`, {
+      reason
+    });
+    return response.data;
+  }
+
   /**
    * Get order statistics
    */
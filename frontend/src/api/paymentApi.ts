@@ -7,7 +7,17 @@ import {
   PaymentResponse, 
   RefundRequest, 
   RefundResponse,
-  OfflineQueueStatus
+  OfflineQueueStatus,
+  Settlement,
+  TenderRequest,
+  TenderResponse,
+  DrawerSession,
+  DrawerReport,
+  DenominationCount,
+  GiftCardBalance,
+  StoreCreditAccount,
+  LoyaltyAccount,
+  LoyaltyProgram
 } from '../types/payment.types';
 
 class PaymentApi {
@@ -64,6 +74,163 @@ class PaymentApi {
     return response.data;
   }
 
+  /**
+   * Open a split-tender settlement for an order; the amount due is the order's server total
+   */
+  async openSettlement(orderId: string, currency = 'USD'): Promise<Settlement> {
+    const response = await apiClient.post<Settlement>('/api/payment/settlements', {
+      orderId,
+      currency
+    });
+    return response.data;
+  }
+
+  /**
+   * Get the settlement (tender breakdown and balance) for an order
+   */
+  async getSettlement(orderId: string): Promise<Settlement> {
+    const response = await apiClient.get<Settlement>(`/api/payment/settlements/${orderId}`);
+    return response.data;
+  }
+
+  /**
+   * Add a tender leg to an order's settlement
+   */
+  async addTender(
+    orderId: string,
+    amount: number,
+    method: PaymentMethod,
+    isOffline = false,
+    metadata: Record<string, unknown> = {},
+    customerEmail?: string
+  ): Promise<TenderResponse> {
+    const tenderRequest: TenderRequest = {
+      amount,
+      method,
+      isOffline,
+      metadata,
+      customerEmail
+    };
+
+    const response = await apiClient.post<TenderResponse>(`/api/payment/settlements/${orderId}/tenders`, tenderRequest);
+    return response.data;
+  }
+
+  /**
+   * Refund a single tender leg
+   */
+  async refundTender(
+    orderId: string,
+    paymentId: string,
+    amount: number,
+    reason?: string
+  ): Promise<RefundResponse & { settlement?: Settlement }> {
+    const refundRequest: RefundRequest = {
+      amount,
+      reason
+    };
+
+    const response = await apiClient.post<RefundResponse & { settlement?: Settlement }>(
+      `/api/payment/settlements/${orderId}/tenders/${paymentId}/refund`,
+      refundRequest
+    );
+    return response.data;
+  }
+
+  /**
+   * Check the balance of a gift card
+   */
+  async getGiftCardBalance(cardNumber: string): Promise<GiftCardBalance> {
+    const response = await apiClient.get<GiftCardBalance>(
+      `/api/payment/gift-cards/${encodeURIComponent(cardNumber)}/balance`
+    );
+    return response.data;
+  }
+
+  /**
+   * Get a customer's store credit balance and ledger
+   */
+  async getStoreCredit(customerId: string): Promise<StoreCreditAccount> {
+    const response = await apiClient.get<StoreCreditAccount>(`/api/payment/store-credit/${customerId}`);
+    return response.data;
+  }
+
+  /**
+   * Get the loyalty program's earn rate, point value and tiers
+   */
+  async getLoyaltyProgram(): Promise<LoyaltyProgram> {
+    const response = await apiClient.get<LoyaltyProgram>('/api/payment/loyalty/program');
+    return response.data;
+  }
+
+  /**
+   * Get a customer's loyalty points, tier and history
+   */
+  async getLoyaltyAccount(customerId: string): Promise<LoyaltyAccount> {
+    const response = await apiClient.get<LoyaltyAccount>(`/api/payment/loyalty/${customerId}`);
+    return response.data;
+  }
+
+  /**
+   * Open a cash drawer session on a terminal
+   */
+  async openDrawerSession(
+    storeId: string,
+    terminalId: string,
+    openingFloat: number,
+    notes?: string
+  ): Promise<DrawerSession> {
+    const response = await apiClient.post<DrawerSession>('/api/payment/drawer-sessions', {
+      storeId,
+      terminalId,
+      openingFloat,
+      notes
+    });
+    return response.data;
+  }
+
+  /**
+   * Get the open drawer session of a terminal
+   */
+  async getCurrentDrawerSession(terminalId: string): Promise<DrawerSession> {
+    const response = await apiClient.get<DrawerSession>('/api/payment/drawer-sessions/current', {
+      params: { terminalId }
+    });
+    return response.data;
+  }
+
+  /**
+   * Record a paid-in or paid-out entry
+   */
+  async addCashMovement(
+    sessionId: string,
+    type: 'PAID_IN' | 'PAID_OUT',
+    amount: number,
+    reason: string
+  ): Promise<DrawerSession> {
+    const response = await apiClient.post<DrawerSession>(`/api/payment/drawer-sessions/${sessionId}/movements`, {
+      type,
+      amount,
+      reason
+    });
+    return response.data;
+  }
+
+  /**
+   * Blind-close a drawer session with the counted cash
+   */
+  async closeDrawerSession(
+    sessionId: string,
+    denominations: DenominationCount[],
+    notes?: string
+  ): Promise<DrawerReport> {
+    const response = await apiClient.post<DrawerReport>(`/api/payment/drawer-sessions/${sessionId}/close`, {
+      denominations,
+      notes
+    });
+    return response.data;
+  }
+
   /**
    * Submit an offline payment for processing
    */
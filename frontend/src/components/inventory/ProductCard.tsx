@@ -1,5 +1,5 @@
 // src/components/inventory/ProductCard.tsx
-import React from 'react';
+import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useCart } from '../../contexts/CartContext';
 import { Product } from '../../types/inventory.types';
@@ -12,10 +12,33 @@ interface ProductCardProps {
 
 const ProductCard: React.FC<ProductCardProps> = ({ product, showAddToCart = true }) => {
   const { addItem, isInCart, getItemQuantity } = useCart();
+  const variants = isArray(product.variants) ? product.variants : [];
+  const [selectedVariantId, setSelectedVariantId] = useState('');
+  const selectedVariant = variants.find((variant) => variant.productId === selectedVariantId) ?? null;
 
   const handleAddToCart = (e: React.MouseEvent): void => {
     e.preventDefault();
     e.stopPropagation();
+    if (selectedVariant) {
+      // Each variant is its own SKU, so it goes into the cart in place of the parent
+      addItem(
+        {
+          ...product,
+          productId: selectedVariant.productId,
+          sku: selectedVariant.sku,
+          name: selectedVariant.name,
+          price: selectedVariant.price,
+          barcode: selectedVariant.barcode,
+          parentProductId: product.productId,
+          optionValues: selectedVariant.optionValues,
+          variantOptions: undefined,
+          variants: undefined,
+          priceRange: undefined
+        },
+        1
+      );
+      return;
+    }
     addItem(product, 1);
   };
 
@@ -30,7 +53,7 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, showAddToCart = true
   // Get stock status
   const getStockStatus = (): { text: string; color: string } => {
     // Safely access inventory data
-    const inventory = safeGet(product as unknown as Record<string, unknown>, 'inventory');
+    const inventory = safeGet((selectedVariant ?? product) as unknown as Record<string, unknown>, 'inventory');
     const firstInventory = isArray(inventory) && inventory.length > 0 
     ? inventory[0] as Record<string, unknown>
     : null;
@@ -52,8 +75,21 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, showAddToCart = true
   };
 
   const stockStatus = getStockStatus();
-  const inCart = isInCart(product.productId);
-  const cartQuantity = inCart ? getItemQuantity(product.productId) : 0;
+  const cartProductId = selectedVariant ? selectedVariant.productId : product.productId;
+  const inCart = isInCart(cartProductId);
+  const cartQuantity = inCart ? getItemQuantity(cartProductId) : 0;
+  const needsVariant = variants.length > 0 && !selectedVariant;
+
+  // Show the selected variant's price, or the range across variants until one is chosen
+  const getDisplayPrice = (): string => {
+    if (selectedVariant) {
+      return formatPrice(selectedVariant.price);
+    }
+    if (product.priceRange && product.priceRange.min !== product.priceRange.max) {
+      return `${formatPrice(product.priceRange.min)} – ${formatPrice(product.priceRange.max)}`;
+    }
+    return formatPrice(product.priceRange ? product.priceRange.min : product.price);
+  };
   const productImage = isArray(product.images) && product.images.length > 0 ? product.images[0] : null;
 
   return (
@@ -110,13 +146,29 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, showAddToCart = true
           <div className="mb-1 text-xs text-secondary-500">{product.sku}</div>
           <h3 className="mb-2 text-lg font-medium text-secondary-900 line-clamp-2">{product.name}</h3>
           <div className="mb-3 text-sm text-secondary-600 line-clamp-2">{product.description}</div>
+          {variants.length > 0 && (
+            <select
+              className="form-input mb-3 w-full text-sm"
+              value={selectedVariantId}
+              onClick={(e) => e.preventDefault()}
+              onChange={(e) => setSelectedVariantId(e.target.value)}
+            >
+              <option value="">Choose {(product.variantOptions ?? []).map((option) => option.name).join(' / ') || 'option'}</option>
+              {variants.map((variant) => (
+                <option key={variant.productId} value={variant.productId} disabled={!variant.isActive}>
+                  {Object.values(variant.optionValues).join(' / ')} · {formatPrice(variant.price)}
+                </option>
+              ))}
+            </select>
+          )}
           <div className="flex items-center justify-between">
-            <span className="text-lg font-bold text-secondary-900">{formatPrice(product.price)}</span>
+            <span className="text-lg font-bold text-secondary-900">{getDisplayPrice()}</span>
             {showAddToCart && (
               <button
                 onClick={handleAddToCart}
                 className="btn-primary btn-sm flex items-center"
-                disabled={stockStatus.text === 'Out of Stock'}
+                disabled={needsVariant || stockStatus.text === 'Out of Stock'}
+                title={needsVariant ? 'Choose an option first' : undefined}
               >
                 <svg className="mr-1 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path
@@ -58,7 +58,10 @@ const ProductList: React.FC<ProductListProps> = ({ initialFilters = {} }) => {
             product => 
               product.name.toLowerCase().includes(query) || 
               product.sku.toLowerCase().includes(query) ||
-              product.description?.toLowerCase().includes(query)
+              product.description?.toLowerCase().includes(query) ||
+              (product as Product).variants?.some(
+                variant => variant.name.toLowerCase().includes(query) || variant.sku.toLowerCase().includes(query)
+              )
           );
         }
         
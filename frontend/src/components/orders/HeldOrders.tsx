@@ -0,0 +1,133 @@
+// src/components/orders/HeldOrders.tsx
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { useCart } from '../../hooks/useCart';
+import { useOffline } from '../../hooks/useOffline';
+import { useToast } from '../../hooks/useToast';
+import { cartService } from '../../services/cartService';
+import { HeldCart } from '../../types/inventory.types';
+
+const HeldOrders: React.FC = () => {
+  const { items, orderId, restoreCart, clearCart } = useCart();
+  const { isOfflineMode } = useOffline();
+  const { showToast } = useToast();
+  const [heldCarts, setHeldCarts] = useState<HeldCart[]>([]);
+  const [label, setLabel] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadHeldCarts = useCallback(async (): Promise<void> => {
+    try {
+      setHeldCarts(await cartService.getHeldCarts(isOfflineMode));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isOfflineMode]);
+
+  useEffect(() => {
+    void loadHeldCarts();
+  }, [loadHeldCarts]);
+
+  // Park the current sale
+  const handleHold = async (): Promise<void> => {
+    setIsWorking(true);
+    try {
+      const result = await cartService.holdCart(items, label.trim(), orderId, isOfflineMode);
+      if (!result.success) {
+        showToast('Failed to hold the sale', 'error');
+        return;
+      }
+
+      clearCart();
+      setLabel('');
+      showToast(isOfflineMode ? 'Sale held offline' : 'Sale held', 'success');
+      await loadHeldCarts();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Bring a parked sale back into the cart
+  const handleRecall = async (heldCart: HeldCart): Promise<void> => {
+    setIsWorking(true);
+    try {
+      const result = await cartService.recallHeldCart(heldCart, isOfflineMode);
+      if (!result.success) {
+        showToast('Failed to recall the sale', 'error');
+        return;
+      }
+
+      restoreCart(result.items, result.orderId);
+      showToast(`Recalled "${heldCart.label}"`, 'success');
+      await loadHeldCarts();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="card mt-6 overflow-hidden">
+      <div className="border-b border-secondary-200 bg-secondary-50 p-4">
+        <h2 className="text-lg font-medium text-secondary-900">Held Orders ({heldCarts.length})</h2>
+      </div>
+      <div className="p-4">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Label (e.g. customer name)"
+            className="form-input flex-1"
+            disabled={items.length === 0 || isWorking}
+          />
+          <button
+            type="button"
+            onClick={() => void handleHold()}
+            className="btn-secondary btn-md"
+            disabled={items.length === 0 || isWorking}
+          >
+            Hold Current Sale
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="mt-4 h-6 w-48 animate-pulse rounded bg-secondary-200"></div>
+        ) : heldCarts.length === 0 ? (
+          <p className="mt-4 text-sm text-secondary-600">No sales are on hold at this register.</p>
+        ) : (
+          <ul className="mt-4 divide-y divide-secondary-200">
+            {heldCarts.map((heldCart) => (
+              <li key={heldCart.holdId} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="font-medium text-secondary-900">
+                    {heldCart.label}
+                    {!heldCart.synced && (
+                      <span className="badge-warning ml-2">
+                        Offline
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-secondary-600">
+                    {heldCart.items.length} items · ${heldCart.total.toFixed(2)} · held {format(new Date(heldCart.heldAt), 'h:mm a')}
+                    {heldCart.expiresAt && ` · expires ${format(new Date(heldCart.expiresAt), 'h:mm a')}`}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => void handleRecall(heldCart)}
+                  className="btn-primary btn-sm"
+                  disabled={items.length > 0 || isWorking}
+                  title={items.length > 0 ? 'Hold or clear the current sale first' : undefined}
+                >
+                  Recall
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HeldOrders;
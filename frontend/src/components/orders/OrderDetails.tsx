@@ -176,6 +176,16 @@ const OrderDetails: React.FC<OrderDetailsProps> = ({ order, onCancel }) => {
                 <tr key={`${item.productId}-${index}`}>
                   <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-secondary-900">
                     {item.name}
+                    {item.modifiers && item.modifiers.length > 0 && (
+                      <ul className="mt-1 text-xs font-normal text-secondary-500">
+                        {item.modifiers.map((modifier) => (
+                          <li key={modifier.modifierId}>
+                            + {modifier.name}
+                            {modifier.priceDelta !== 0 && ` (${modifier.priceDelta > 0 ? '+' : '-'}$${Math.abs(modifier.priceDelta).toFixed(2)})`}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </td>
                   <td className="whitespace-nowrap px-6 py-4 text-sm text-secondary-500">
                     {item.sku}
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import { format } from 'date-fns';
+import { customerApi } from '../../api/customerApi';
+import { paymentApi } from '../../api/paymentApi';
+import { Customer } from '../../types/customer.types';
+import { LoyaltyAccount } from '../../types/payment.types';
+
+interface LoyaltyPanelProps {
+  customer: Customer | null;
+  loyaltyAccount: LoyaltyAccount | null;
+  onCustomerChange: (customer: Customer | null, loyaltyAccount: LoyaltyAccount | null) => void;
+  disabled?: boolean;
+  isOfflineMode?: boolean;
+}
+
+const LoyaltyPanel: React.FC<LoyaltyPanelProps> = ({
+  customer,
+  loyaltyAccount,
+  onCustomerChange,
+  disabled = false,
+  isOfflineMode = false
+}) => {
+  const [query, setQuery] = useState('');
+  const [lookupError, setLookupError] = useState('');
+  const [isLookingUp, setIsLookingUp] = useState(false);
+
+  // Find the customer by phone or email, then load their points
+  const handleLookup = async (): Promise<void> => {
+    const value = query.trim();
+    setIsLookingUp(true);
+    setLookupError('');
+    try {
+      const found = await customerApi.lookupCustomer(value.includes('@') ? { email: value } : { phone: value });
+      onCustomerChange(found, await paymentApi.getLoyaltyAccount(found.customerId));
+      setQuery('');
+    } catch (error) {
+      setLookupError(
+        axios.isAxiosError(error) && error.response?.status === 404 ? 'No customer found' : 'Unable to look up customer'
+      );
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const recentEntries = loyaltyAccount ? loyaltyAccount.ledger.slice(0, 3) : [];
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium text-secondary-900">Customer &amp; Loyalty</h3>
+
+      {!customer ? (
+        isOfflineMode ? (
+          <p className="text-sm text-secondary-600">Customer lookup requires an internet connection.</p>
+        ) : (
+          <div>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                className="form-input flex-1"
+                placeholder="Customer phone or email"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                disabled={disabled || isLookingUp}
+              />
+              <button
+                type="button"
+                className="btn-secondary btn-md"
+                onClick={() => void handleLookup()}
+                disabled={disabled || isLookingUp || !query.trim()}
+              >
+                {isLookingUp ? 'Looking up...' : 'Find Customer'}
+              </button>
+            </div>
+            {lookupError && <p className="form-error">{lookupError}</p>}
+          </div>
+        )
+      ) : (
+        <div className="rounded-md bg-secondary-50 p-4">
+          <div className="flex items-start justify-between">
+            <div>
+              <p className="font-medium text-secondary-900">
+                {[customer.firstName, customer.lastName].filter(Boolean).join(' ')}
+              </p>
+              <p className="text-sm text-secondary-600">{customer.phone || customer.email}</p>
+            </div>
+            <button
+              type="button"
+              className="btn-secondary btn-sm"
+              onClick={() => onCustomerChange(null, null)}
+              disabled={disabled}
+            >
+              Remove
+            </button>
+          </div>
+
+          {loyaltyAccount && (
+            <div className="mt-3 space-y-1 text-sm text-secondary-700">
+              <p>
+                <span className="font-semibold">{loyaltyAccount.points.toLocaleString()} points</span>
+                {' '}(worth ${loyaltyAccount.value.toFixed(2)}) · {loyaltyAccount.tier} tier, {loyaltyAccount.multiplier}x points
+              </p>
+              {loyaltyAccount.nextTier && (
+                <p className="text-secondary-500">
+                  Spend ${loyaltyAccount.nextTier.spendRequired.toFixed(2)} more to reach {loyaltyAccount.nextTier.name}
+                </p>
+              )}
+              {loyaltyAccount.expiringPoints > 0 && (
+                <p className="text-warning-700">{loyaltyAccount.expiringPoints} points expire within 30 days</p>
+              )}
+              {recentEntries.length > 0 && (
+                <ul className="mt-2 divide-y divide-secondary-200">
+                  {recentEntries.map((entry) => (
+                    <li key={entry.entryId} className="flex justify-between py-1">
+                      <span>
+                        {entry.type.toLowerCase()} · {format(new Date(entry.createdAt), 'MMM d, yyyy')}
+                      </span>
+                      <span>{entry.points > 0 ? `+${entry.points}` : entry.points}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LoyaltyPanel;
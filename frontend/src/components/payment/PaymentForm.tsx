@@ -1,25 +1,40 @@
 import React, { useState, useEffect } from 'react';
 import { useFormik } from 'formik';
 import * as Yup from 'yup';
-import { PaymentMethod as PaymentMethodType, CreditCardInfo } from '../../types/payment.types';
+import { PaymentMethod as PaymentMethodType, CreditCardInfo, TenderFormData } from '../../types/payment.types';
 
 interface PaymentFormProps {
   paymentMethod: PaymentMethodType;
   amount: number;
-  onSubmit: (paymentData: any) => void;
+  amountPaid?: number;
+  onSubmit: (paymentData: TenderFormData) => void;
   isProcessing: boolean;
   isOfflineMode: boolean;
+  loyaltyValue?: number;
 }
 
 const PaymentForm: React.FC<PaymentFormProps> = ({
   paymentMethod,
   amount,
+  amountPaid = 0,
   onSubmit,
   isProcessing,
-  isOfflineMode
+  isOfflineMode,
+  loyaltyValue = 0
 }) => {
   const [cashAmount, setCashAmount] = useState<string>(amount.toFixed(2));
+  const [tenderAmount, setTenderAmount] = useState<string>(amount.toFixed(2));
   const [change, setChange] = useState<number>(0);
+  const [giftCardNumber, setGiftCardNumber] = useState<string>('');
+
+  // Default each new tender leg to the remaining balance
+  useEffect(() => {
+    setCashAmount(amount.toFixed(2));
+    setTenderAmount(amount.toFixed(2));
+  }, [amount]);
+
+  // Amount applied by a non-cash leg, capped at the balance
+  const tenderValue = Math.min(parseFloat(tenderAmount) || 0, amount);
 
   // Calculate change for cash payment
   useEffect(() => {
@@ -57,8 +72,12 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
     },
     validationSchema: creditCardSchema,
     onSubmit: (values) => {
+      if (tenderValue <= 0) {
+        return;
+      }
       onSubmit({
         method: paymentMethod,
+        amount: tenderValue,
         cardDetails: values
       });
     }
@@ -66,17 +85,52 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
 
   // Handle cash payment submission
   const handleCashPayment = () => {
+    const cashValue = parseFloat(cashAmount) || 0;
+    if (cashValue <= 0) {
+      return;
+    }
     onSubmit({
       method: PaymentMethodType.CASH,
-      cashAmount: parseFloat(cashAmount),
+      amount: cashValue,
+      cashAmount: cashValue,
       change
     });
   };
 
   // Handle mobile payment submission
   const handleMobilePayment = () => {
+    if (tenderValue <= 0) {
+      return;
+    }
+    onSubmit({
+      method: PaymentMethodType.MOBILE_PAYMENT,
+      amount: tenderValue
+    });
+  };
+
+  // Handle gift card redemption
+  const handleGiftCardPayment = () => {
+    if (tenderValue <= 0 || !giftCardNumber.trim()) {
+      return;
+    }
     onSubmit({
-      method: PaymentMethodType.MOBILE_PAYMENT
+      method: PaymentMethodType.GIFT_CARD,
+      amount: tenderValue,
+      giftCardNumber: giftCardNumber.trim()
+    });
+  };
+
+  // Points cover at most the balance and what the customer's points are worth
+  const pointsValue = Math.min(tenderValue, loyaltyValue);
+
+  // Handle loyalty points redemption
+  const handleLoyaltyPayment = () => {
+    if (pointsValue <= 0) {
+      return;
+    }
+    onSubmit({
+      method: PaymentMethodType.LOYALTY_POINTS,
+      amount: pointsValue
     });
   };
 
@@ -88,6 +142,20 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
         return (
           <form onSubmit={creditCardForm.handleSubmit}>
             <div className="space-y-4">
+              <div>
+                <label htmlFor="tenderAmount" className="form-label">
+                  Amount to Charge
+                </label>
+                <input
+                  type="text"
+                  id="tenderAmount"
+                  className="form-input"
+                  value={tenderAmount}
+                  onChange={(e) => setTenderAmount(e.target.value)}
+                  disabled={isProcessing}
+                />
+              </div>
+
               <div>
                 <label htmlFor="cardholderName" className="form-label">
                   Cardholder Name
@@ -222,7 +290,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
                       Processing...
                     </>
                   ) : (
-                    `Pay ${isOfflineMode ? 'Offline ' : ''}$${amount.toFixed(2)}`
+                    `Pay ${isOfflineMode ? 'Offline ' : ''}$${tenderValue.toFixed(2)}`
                   )}
                 </button>
               </div>
@@ -249,7 +317,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
 
             <div className="rounded-md bg-secondary-50 p-4">
               <div className="flex justify-between">
-                <span className="font-medium text-secondary-700">Total Due:</span>
+                <span className="font-medium text-secondary-700">Balance Due:</span>
                 <span className="font-semibold text-secondary-900">${amount.toFixed(2)}</span>
               </div>
               <div className="mt-2 flex justify-between">
@@ -285,7 +353,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
                     Processing...
                   </>
                 ) : (
-                  `Complete ${isOfflineMode ? 'Offline ' : ''}Cash Payment`
+                  `${(parseFloat(cashAmount) || 0) < amount ? 'Add' : 'Complete'} ${isOfflineMode ? 'Offline ' : ''}Cash Payment`
                 )}
               </button>
             </div>
@@ -295,6 +363,20 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
       case PaymentMethodType.MOBILE_PAYMENT:
         return (
           <div className="space-y-4">
+            <div>
+              <label htmlFor="tenderAmount" className="form-label">
+                Amount to Charge
+              </label>
+              <input
+                type="text"
+                id="tenderAmount"
+                className="form-input"
+                value={tenderAmount}
+                onChange={(e) => setTenderAmount(e.target.value)}
+                disabled={isProcessing}
+              />
+            </div>
+
             <div className="rounded-md bg-secondary-50 p-4 text-center">
               <p className="text-secondary-700">
                 Tap the Pay button to initiate mobile payment. Present the device to the customer to
@@ -336,6 +418,99 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
           </div>
         );
 
+      case PaymentMethodType.GIFT_CARD:
+        if (isOfflineMode) {
+          return (
+            <div className="rounded-md bg-secondary-50 p-4 text-center">
+              <p className="text-secondary-700">Gift cards can only be redeemed while online.</p>
+            </div>
+          );
+        }
+        return (
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="giftCardNumber" className="form-label">
+                Gift Card Number
+              </label>
+              <input
+                type="text"
+                id="giftCardNumber"
+                className="form-input"
+                value={giftCardNumber}
+                onChange={(e) => setGiftCardNumber(e.target.value)}
+                disabled={isProcessing}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="tenderAmount" className="form-label">
+                Amount to Redeem
+              </label>
+              <input
+                type="text"
+                id="tenderAmount"
+                className="form-input"
+                value={tenderAmount}
+                onChange={(e) => setTenderAmount(e.target.value)}
+                disabled={isProcessing}
+              />
+            </div>
+
+            <div className="mt-6">
+              <button
+                type="button"
+                className="btn-primary w-full py-2 text-base"
+                onClick={handleGiftCardPayment}
+                disabled={isProcessing || !giftCardNumber.trim()}
+              >
+                {isProcessing ? 'Processing...' : `Redeem $${tenderValue.toFixed(2)}`}
+              </button>
+            </div>
+          </div>
+        );
+
+      case PaymentMethodType.LOYALTY_POINTS:
+        if (isOfflineMode) {
+          return (
+            <div className="rounded-md bg-secondary-50 p-4 text-center">
+              <p className="text-secondary-700">Loyalty points can only be redeemed while online.</p>
+            </div>
+          );
+        }
+        return (
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="tenderAmount" className="form-label">
+                Amount to Pay with Points
+              </label>
+              <input
+                type="text"
+                id="tenderAmount"
+                className="form-input"
+                value={tenderAmount}
+                onChange={(e) => setTenderAmount(e.target.value)}
+                disabled={isProcessing}
+              />
+              {tenderValue > loyaltyValue && (
+                <p className="mt-1 text-sm text-secondary-500">
+                  Points cover up to ${loyaltyValue.toFixed(2)}
+                </p>
+              )}
+            </div>
+
+            <div className="mt-6">
+              <button
+                type="button"
+                className="btn-primary w-full py-2 text-base"
+                onClick={handleLoyaltyPayment}
+                disabled={isProcessing || pointsValue <= 0}
+              >
+                {isProcessing ? 'Processing...' : `Redeem $${pointsValue.toFixed(2)} in Points`}
+              </button>
+            </div>
+          </div>
+        );
+
       default:
         return (
           <div className="rounded-md bg-secondary-50 p-4 text-center">
@@ -375,8 +550,16 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
       )}
 
       <div className="rounded-md bg-primary-50 p-4">
+        {amountPaid > 0 && (
+          <div className="mb-2 flex items-center justify-between text-sm">
+            <span className="text-primary-700">Already Paid:</span>
+            <span className="font-medium text-primary-800">${amountPaid.toFixed(2)}</span>
+          </div>
+        )}
         <div className="flex items-center justify-between">
-          <span className="font-medium text-primary-800">Total Amount:</span>
+          <span className="font-medium text-primary-800">
+            {amountPaid > 0 ? 'Remaining Balance:' : 'Total Amount:'}
+          </span>
           <span className="text-xl font-bold text-primary-900">${amount.toFixed(2)}</span>
         </div>
       </div>
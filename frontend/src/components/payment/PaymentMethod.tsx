@@ -1,17 +1,43 @@
-import React from 'react';
-import { PaymentMethod as PaymentMethodType } from '../../types/payment.types';
+import React, { useState } from 'react';
+import axios from 'axios';
+import { paymentApi } from '../../api/paymentApi';
+import { PaymentMethod as PaymentMethodType, GiftCardBalance } from '../../types/payment.types';
 
 interface PaymentMethodProps {
   selectedMethod: PaymentMethodType;
   onSelectMethod: (method: PaymentMethodType) => void;
   disabled?: boolean;
+  isOfflineMode?: boolean;
+  loyaltyValue?: number;
 }
 
 const PaymentMethod: React.FC<PaymentMethodProps> = ({
   selectedMethod,
   onSelectMethod,
-  disabled = false
+  disabled = false,
+  isOfflineMode = false,
+  loyaltyValue
 }) => {
+  const [giftCardNumber, setGiftCardNumber] = useState('');
+  const [giftCardBalance, setGiftCardBalance] = useState<GiftCardBalance | null>(null);
+  const [balanceError, setBalanceError] = useState('');
+  const [isCheckingBalance, setIsCheckingBalance] = useState(false);
+
+  // Look up a gift card balance before it is used as a tender
+  const handleCheckBalance = async (): Promise<void> => {
+    setIsCheckingBalance(true);
+    setBalanceError('');
+    setGiftCardBalance(null);
+    try {
+      setGiftCardBalance(await paymentApi.getGiftCardBalance(giftCardNumber.trim()));
+    } catch (error) {
+      const message = axios.isAxiosError<{ message?: string }>(error) ? error.response?.data?.message : undefined;
+      setBalanceError(message || 'Unable to check gift card balance');
+    } finally {
+      setIsCheckingBalance(false);
+    }
+  };
+
   // Define available payment methods
   const paymentMethods = [
     {
@@ -73,9 +99,54 @@ const PaymentMethod: React.FC<PaymentMethodProps> = ({
           />
         </svg>
       )
+    },
+    {
+      id: PaymentMethodType.GIFT_CARD,
+      label: 'Gift Card',
+      description: isOfflineMode ? 'Requires an internet connection' : 'Redeem all or part of a gift card balance',
+      icon: (
+        <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 8v13m0-13V6a2 2 0 112 2h-2zm0 0V5.5A2.5 2.5 0 109.5 8H12zm-7 4h14M5 12a2 2 0 110-4h14a2 2 0 110 4M5 12v7a2 2 0 002 2h10a2 2 0 002-2v-7"
+          />
+        </svg>
+      )
+    },
+    {
+      id: PaymentMethodType.LOYALTY_POINTS,
+      label: 'Loyalty Points',
+      description: isOfflineMode
+        ? 'Requires an internet connection'
+        : loyaltyValue === undefined
+          ? 'Find the customer to redeem their points'
+          : `Redeem up to $${loyaltyValue.toFixed(2)} in points`,
+      icon: (
+        <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z"
+          />
+        </svg>
+      )
     }
   ];
 
+  // Stored-value tenders need a live balance check
+  const isMethodUnavailable = (methodId: PaymentMethodType): boolean => {
+    if (methodId === PaymentMethodType.GIFT_CARD) {
+      return isOfflineMode;
+    }
+    if (methodId === PaymentMethodType.LOYALTY_POINTS) {
+      return isOfflineMode || !loyaltyValue;
+    }
+    return false;
+  };
+
   return (
     <div className="space-y-4">
       <h3 className="text-lg font-medium text-secondary-900">Payment Method</h3>
@@ -90,7 +161,7 @@ const PaymentMethod: React.FC<PaymentMethodProps> = ({
               className="peer sr-only"
               checked={selectedMethod === method.id}
               onChange={() => onSelectMethod(method.id)}
-              disabled={disabled}
+              disabled={disabled || isMethodUnavailable(method.id)}
             />
             <label
               htmlFor={`payment-${method.id}`}
@@ -142,6 +213,40 @@ const PaymentMethod: React.FC<PaymentMethodProps> = ({
           </div>
         ))}
       </div>
+
+      {selectedMethod === PaymentMethodType.GIFT_CARD && !isOfflineMode && (
+        <div className="rounded-md bg-secondary-50 p-4">
+          <label htmlFor="balanceCheckNumber" className="form-label">
+            Check Gift Card Balance
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              id="balanceCheckNumber"
+              className="form-input flex-1"
+              placeholder="Gift card number"
+              value={giftCardNumber}
+              onChange={(e) => setGiftCardNumber(e.target.value)}
+              disabled={disabled || isCheckingBalance}
+            />
+            <button
+              type="button"
+              className="btn-secondary btn-md"
+              onClick={() => void handleCheckBalance()}
+              disabled={disabled || isCheckingBalance || !giftCardNumber.trim()}
+            >
+              {isCheckingBalance ? 'Checking...' : 'Check Balance'}
+            </button>
+          </div>
+          {giftCardBalance && (
+            <p className="mt-2 text-sm text-secondary-700">
+              Card {giftCardBalance.cardNumber}: <span className="font-semibold">${giftCardBalance.balance.toFixed(2)}</span>
+              {giftCardBalance.status !== 'ACTIVE' && ` (${giftCardBalance.status.toLowerCase()})`}
+            </p>
+          )}
+          {balanceError && <p className="form-error">{balanceError}</p>}
+        </div>
+      )}
     </div>
   );
 };
@@ -6,6 +6,7 @@ import { safeJsonParse } from '../utils/type-safety';
 
 interface CartContextType {
   items: CartItem[];
+  orderId: string | null;
   itemCount: number;
   subtotal: number;
   tax: number;
@@ -15,6 +16,7 @@ interface CartContextType {
   updateQuantity: (productId: string, quantity: number) => void;
   removeItem: (productId: string) => void;
   clearCart: () => void;
+  restoreCart: (items: CartItem[], orderId?: string) => void;
   isInCart: (productId: string) => boolean;
   getItemQuantity: (productId: string) => number;
 }
@@ -26,6 +28,8 @@ const TAX_RATE = 0.07; // 7% tax rate - would come from config in a real app
 
 export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [items, setItems] = useState<CartItem[]>([]);
+  // Server order the cart was recalled from, so checkout carries on with it
+  const [orderId, setOrderId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   // Calculate derived values
@@ -43,6 +47,7 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
           const parsedCart = safeJsonParse<CartItem[]>(savedCart, []);
           setItems(parsedCart);
         }
+        setOrderId(await storageService.getItem('cartOrderId'));
       } catch (error) {
         console.error('Error loading cart:', error);
       } finally {
@@ -58,6 +63,11 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const saveCart = async (): Promise<void> => {
       try {
         await storageService.setItem('cart', JSON.stringify(items));
+        if (orderId) {
+          await storageService.setItem('cartOrderId', orderId);
+        } else {
+          await storageService.removeItem('cartOrderId');
+        }
       } catch (error) {
         console.error('Error saving cart:', error);
       }
@@ -66,7 +76,7 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     if (!isLoading) {
       void saveCart(); // Mark with void to handle the floating promise
     }
-  }, [items, isLoading]);
+  }, [items, orderId, isLoading]);
 
   const addItem = (product: Product, quantity: number): void => {
     setItems(prevItems => {
@@ -84,6 +94,8 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
           productId: product.productId,
           sku: product.sku,
           name: product.name,
+          category: product.category,
+          taxRate: product.taxRate,
           price: product.price,
           quantity,
           image: product.images && product.images.length > 0 ? product.images[0] : null
@@ -108,6 +120,12 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const clearCart = (): void => {
     setItems([]);
+    setOrderId(null);
+  };
+
+  const restoreCart = (restoredItems: CartItem[], restoredOrderId?: string): void => {
+    setItems(restoredItems);
+    setOrderId(restoredOrderId || null);
   };
 
   const isInCart = (productId: string): boolean => {
@@ -123,6 +141,7 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     <CartContext.Provider
       value={{
         items,
+        orderId,
         itemCount,
         subtotal,
         tax,
@@ -132,6 +151,7 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
         updateQuantity,
         removeItem,
         clearCart,
+        restoreCart,
         isInCart,
         getItemQuantity
       }}
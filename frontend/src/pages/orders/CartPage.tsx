@@ -1,6 +1,7 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import Cart from '../../components/orders/Cart';
+import HeldOrders from '../../components/orders/HeldOrders';
 import { useCart } from '../../hooks/useCart';
 
 const CartPage: React.FC = () => {
@@ -15,6 +16,7 @@ const CartPage: React.FC = () => {
     <div>
       <h1 className="mb-6 text-2xl font-bold text-secondary-900">Shopping Cart</h1>
       <Cart onCheckout={handleCheckout} showCheckoutButton={items.length > 0} />
+      <HeldOrders />
     </div>
   );
 };
@@ -6,20 +6,29 @@ import { useCart } from '../../hooks/useCart';
 import { useOffline } from '../../hooks/useOffline';
 import { useToast } from '../../hooks/useToast';
 import { syncService } from '../../services/syncService';
-import { PaymentMethod as PaymentMethodType } from '../../types/payment.types';
+import { cartService } from '../../services/cartService';
+import { paymentApi } from '../../api/paymentApi';
+import { PaymentMethod as PaymentMethodType, Tender, LoyaltyAccount, TenderFormData } from '../../types/payment.types';
+import { Customer } from '../../types/customer.types';
 import { PaymentStatus as PaymentStatusType } from '../../types/payment.types';
 import PaymentStatusComponent from '../../components/payment/PaymentStatus';
 import PaymentMethod from '../../components/payment/PaymentMethod';
 import PaymentForm from '../../components/payment/PaymentForm';
+import LoyaltyPanel from '../../components/payment/LoyaltyPanel';
 import Modal from '../../components/common/Modal';
 
 const CheckoutPage: React.FC = () => {
   const navigate = useNavigate();
-  const { items, subtotal, tax, total, clearCart } = useCart();
+  const { items, orderId: cartOrderId, subtotal, tax, total, clearCart } = useCart();
   const { isOfflineMode } = useOffline();
   const { showToast } = useToast();
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<PaymentMethodType>(PaymentMethodType.CREDIT_CARD);
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
+  const [orderId, setOrderId] = useState<string>('');
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  const [amountDue, setAmountDue] = useState<number | null>(null);
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [loyaltyAccount, setLoyaltyAccount] = useState<LoyaltyAccount | null>(null);
   const [paymentStatus, setPaymentStatus] = useState<{
     isVisible: boolean;
     status: PaymentStatusType;
@@ -36,6 +45,11 @@ const CheckoutPage: React.FC = () => {
     isOffline: false,
   });
 
+  // Remaining balance after the tender legs taken so far, against the server's total once the settlement is open
+  const dueTotal = amountDue ?? total;
+  const amountPaid = tenders.reduce((sum, tender) => sum + tender.amount, 0);
+  const balance = Math.max(0, parseFloat((dueTotal - amountPaid).toFixed(2)));
+
   // Check if cart is empty and redirect to inventory if it is
   useEffect(() => {
     if (items.length === 0) {
@@ -123,34 +137,101 @@ const CheckoutPage: React.FC = () => {
     console.log('Proceeding to payment for order:', orderId);
   };*/
 
-  // Handle payment submission
-  const handlePaymentSubmit = async (paymentData: any) => {
+  // Create the order and open its settlement when the first leg is taken
+  const ensureOrder = async (): Promise<string> => {
+    if (orderId) {
+      return orderId;
+    }
+
+    const result = await cartService.createOrder(items, isOfflineMode, {}, cartOrderId, customer?.customerId);
+    if (!result.success) {
+      throw new Error('Failed to create order');
+    }
+
+    if (!isOfflineMode) {
+      const settlement = await paymentApi.openSettlement(result.orderId);
+      setAmountDue(settlement.amountDue);
+    }
+
+    setOrderId(result.orderId);
+    return result.orderId;
+  };
+
+  // Handle payment submission (one tender leg at a time)
+  const handlePaymentSubmit = async (paymentData: TenderFormData) => {
     setIsProcessingPayment(true);
     
     try {
-      // In a real implementation, this would process the payment
-      // through a payment service or gateway
+      const currentOrderId = await ensureOrder();
+      const tendered = paymentData.amount;
+      const metadata = {
+        cashAmount: paymentData.cashAmount,
+        cardLast4: paymentData.cardDetails?.cardNumber?.slice(-4),
+        giftCardNumber: paymentData.giftCardNumber,
+        customerId: customer?.customerId
+      };
+      
+      let updatedTenders: Tender[];
+      let paymentId: string;
+      let settlementDue = amountDue;
+      
+      if (isOfflineMode) {
+        // Record the leg locally; it is settled with the server on sync
+        const applied = Math.min(tendered, balance);
+        paymentId = await syncService.processOfflineTender(
+          currentOrderId,
+          tendered,
+          selectedPaymentMethod,
+          metadata
+        );
+        updatedTenders = [
+          ...tenders,
+          {
+            paymentId,
+            method: selectedPaymentMethod,
+            amount: applied,
+            amountTendered: tendered,
+            change: parseFloat((tendered - applied).toFixed(2)),
+            refundedAmount: 0,
+            status: PaymentStatusType.COMPLETED,
+            isOffline: true,
+            createdAt: new Date().toISOString()
+          }
+        ];
+      } else {
+        const response = await paymentApi.addTender(
+          currentOrderId,
+          tendered,
+          selectedPaymentMethod,
+          false,
+          metadata
+        );
+        paymentId = response.paymentId;
+        updatedTenders = response.settlement.tenders;
+        settlementDue = response.settlement.amountDue;
+      }
       
-      // Simulate payment processing
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      setTenders(updatedTenders);
       
-      // Process payment using offline mode if needed
-      const paymentId = isOfflineMode
-        ? await syncService.processOfflinePayment(
-            'order123', // Placeholder orderId
-            total,
-            selectedPaymentMethod,
-            { paymentData }
-          )
-        : 'payment789'; // Placeholder paymentId
+      // Show the points left after a redemption
+      if (customer && selectedPaymentMethod === PaymentMethodType.LOYALTY_POINTS) {
+        setLoyaltyAccount(await paymentApi.getLoyaltyAccount(customer.customerId));
+      }
+      
+      const remaining = (settlementDue ?? total) - updatedTenders.reduce((sum, tender) => sum + tender.amount, 0);
+      
+      if (remaining > 0.005) {
+        showToast(`Payment added. Remaining balance $${remaining.toFixed(2)}`, 'success');
+        return;
+      }
       
-      // Show success status
+      // Show success status once the balance is cleared
       setPaymentStatus({
         isVisible: true,
         status: PaymentStatusType.COMPLETED,
         paymentId,
-        orderId: 'order123', // Placeholder orderId
-        amount: total,
+        orderId: currentOrderId,
+        amount: settlementDue ?? total,
         isOffline: isOfflineMode,
       });
       
@@ -158,17 +239,8 @@ const CheckoutPage: React.FC = () => {
       clearCart();
     } catch (error) {
       console.error('Payment error:', error);
+      // A declined leg leaves the balance untouched so another tender can be tried
       showToast('Payment processing failed', 'error');
-      
-      // Show failure status
-      setPaymentStatus({
-        isVisible: true,
-        status: PaymentStatusType.FAILED,
-        paymentId: '',
-        orderId: 'order123', // Placeholder orderId
-        amount: total,
-        isOffline: isOfflineMode,
-      });
     } finally {
       setIsProcessingPayment(false);
     }
@@ -224,12 +296,52 @@ const CheckoutPage: React.FC = () => {
         </div>
       </div>
       
+      {/* Tenders taken so far */}
+      {tenders.length > 0 && (
+        <div className="mb-8 rounded-lg bg-white p-4 shadow-sm">
+          <h2 className="mb-4 text-lg font-medium text-secondary-900">Payments</h2>
+          <div className="divide-y divide-secondary-200">
+            {tenders.map((tender) => (
+              <div key={tender.paymentId} className="flex justify-between py-2">
+                <div>
+                  <span className="font-medium">{tender.method.replace('_', ' ')}</span>
+                  {tender.change > 0 && (
+                    <span className="text-secondary-500"> (change ${tender.change.toFixed(2)})</span>
+                  )}
+                </div>
+                <span>${tender.amount.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="mt-2 flex justify-between border-t border-secondary-200 pt-2 font-semibold">
+            <span>Remaining Balance</span>
+            <span>${balance.toFixed(2)}</span>
+          </div>
+        </div>
+      )}
+      
+      {/* Customer and loyalty points */}
+      <div className="mb-8 rounded-lg bg-white p-4 shadow-sm">
+        <LoyaltyPanel
+          customer={customer}
+          loyaltyAccount={loyaltyAccount}
+          onCustomerChange={(selected, account) => {
+            setCustomer(selected);
+            setLoyaltyAccount(account);
+          }}
+          disabled={isProcessingPayment || !!orderId}
+          isOfflineMode={isOfflineMode}
+        />
+      </div>
+      
       {/* Payment Method Selection */}
       <div className="mb-8 rounded-lg bg-white p-4 shadow-sm">
         <PaymentMethod
           selectedMethod={selectedPaymentMethod}
           onSelectMethod={setSelectedPaymentMethod}
           disabled={isProcessingPayment}
+          isOfflineMode={isOfflineMode}
+          loyaltyValue={loyaltyAccount?.value}
         />
       </div>
       
@@ -237,10 +349,12 @@ const CheckoutPage: React.FC = () => {
       <div className="mb-8 rounded-lg bg-white p-4 shadow-sm">
         <PaymentForm
           paymentMethod={selectedPaymentMethod}
-          amount={total}
+          amount={balance}
+          amountPaid={amountPaid}
           onSubmit={handlePaymentSubmit}
           isProcessing={isProcessingPayment}
           isOfflineMode={isOfflineMode}
+          loyaltyValue={loyaltyAccount?.value}
         />
       </div>
       
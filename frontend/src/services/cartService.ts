@@ -2,7 +2,7 @@ import { storageService } from './storageService';
 import { syncService } from './syncService';
 import { orderApi } from '../api/orderApi';
 import { OrderStatus } from '../types/order.types';
-import { CartItem } from '../types/inventory.types';
+import { CartItem, HeldCart } from '../types/inventory.types';
 
 /**
  * Service for handling shopping cart operations
@@ -13,20 +13,35 @@ class CartService {
    * @param items Cart items
    * @param isOffline Whether to create the order in offline mode
    * @param metadata Additional metadata for the order
+   * @param existingOrderId Server order the cart was recalled from, if any
+   * @param customerId Customer the sale is for, if known
    */
   async createOrder(
     items: CartItem[], 
     isOffline = false,
-    metadata: Record<string, any> = {}
+    metadata: Record<string, any> = {},
+    existingOrderId?: string | null,
+    customerId?: string
   ): Promise<{ orderId: string; success: boolean }> {
     try {
+      if (!isOffline && existingOrderId) {
+        try {
+          // Carry on with the recalled order rather than starting a new one
+          await orderApi.updateOrderFromCart(existingOrderId, items);
+          return { orderId: existingOrderId, success: true };
+        } catch (error) {
+          // The order may have expired while it was parked; fall through to a fresh one
+          console.error('Failed to update recalled order:', error);
+        }
+      }
+
       if (isOffline) {
         // Create offline order
         const offlineOrderId = await syncService.processOfflineOrder(items, metadata);
         return { orderId: offlineOrderId, success: true };
       } else {
         // Create online order
-        const order = await orderApi.createOrder(items, false, metadata);
+        const order = await orderApi.createOrder(items, false, metadata, customerId);
         return { orderId: order.orderId, success: true };
       }
     } catch (error) {
@@ -124,6 +139,166 @@ class CartService {
     }
   }
 
+  /**
+   * Get the ID of this register, created on first use
+   */
+  async getTerminalId(): Promise<string> {
+    let terminalId = await storageService.getItem('terminalId');
+    if (!terminalId) {
+      terminalId = `terminal_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      await storageService.setItem('terminalId', terminalId);
+    }
+    return terminalId;
+  }
+
+  /**
+   * Park the current cart so the register can serve the next customer
+   * @param items Cart items
+   * @param label Label to find the sale by when recalling it
+   * @param existingOrderId Server order the cart was recalled from, if any
+   * @param isOffline Whether to hold the cart in offline mode
+   */
+  async holdCart(
+    items: CartItem[],
+    label: string,
+    existingOrderId?: string | null,
+    isOffline = false
+  ): Promise<{ holdId: string; success: boolean }> {
+    try {
+      const terminalId = await this.getTerminalId();
+      const { total } = this.calculateTotals(items);
+      const heldAt = new Date().toISOString();
+
+      if (isOffline) {
+        // Park locally; the hold reaches the server on sync
+        const holdId = `offline_hold_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+        const heldCart: HeldCart = {
+          holdId,
+          orderId: existingOrderId || undefined,
+          label: label || `Held ${new Date(heldAt).toLocaleTimeString()}`,
+          terminalId,
+          items,
+          total,
+          heldAt,
+          synced: false
+        };
+        await storageService.storeHeldOrder(heldCart);
+        await syncService.addToQueue('holdOrder', {
+          holdId,
+          orderId: existingOrderId,
+          items,
+          label: heldCart.label,
+          terminalId
+        });
+        return { holdId, success: true };
+      }
+
+      let orderId = existingOrderId;
+      if (orderId) {
+        await orderApi.updateOrderFromCart(orderId, items);
+      } else {
+        orderId = (await orderApi.createOrder(items)).orderId;
+      }
+
+      const response = await orderApi.holdOrder(orderId, label, terminalId);
+      const heldCart: HeldCart = {
+        holdId: orderId,
+        orderId,
+        label: response.hold.label,
+        terminalId,
+        items,
+        total: response.total,
+        heldAt: response.hold.heldAt,
+        expiresAt: response.hold.expiresAt,
+        synced: true
+      };
+      await storageService.storeHeldOrder(heldCart);
+      return { holdId: orderId, success: true };
+    } catch (error) {
+      console.error('Failed to hold cart:', error);
+      return { holdId: '', success: false };
+    }
+  }
+
+  /**
+   * Get the sales parked at this register
+   * @param isOffline Whether to skip refreshing from the server
+   */
+  async getHeldCarts(isOffline = false): Promise<HeldCart[]> {
+    const terminalId = await this.getTerminalId();
+
+    if (!isOffline) {
+      try {
+        const orders = await orderApi.getHeldOrders(terminalId);
+        const localCarts: HeldCart[] = await storageService.getHeldOrders({ terminalId });
+
+        // Drop holds that were recalled or expired on the server
+        for (const heldCart of localCarts) {
+          if (heldCart.synced && !orders.some(order => order.orderId === heldCart.orderId)) {
+            await storageService.removeHeldOrder(heldCart.holdId);
+          }
+        }
+
+        for (const order of orders) {
+          const localCart = localCarts.find(heldCart => heldCart.orderId === order.orderId);
+          await storageService.storeHeldOrder({
+            holdId: localCart?.holdId || order.orderId,
+            orderId: order.orderId,
+            label: order.hold.label,
+            terminalId,
+            items: localCart?.items || order.items.map(item => ({
+              productId: item.productId,
+              sku: item.sku,
+              name: item.name,
+              category: item.category,
+              taxRate: item.taxRate,
+              price: item.unitPrice,
+              quantity: item.quantity,
+              image: null
+            })),
+            total: order.total,
+            heldAt: order.hold.heldAt,
+            expiresAt: order.hold.expiresAt,
+            synced: true
+          });
+        }
+      } catch (error) {
+        console.error('Failed to refresh held orders:', error);
+      }
+    }
+
+    return storageService.getHeldOrders({ terminalId });
+  }
+
+  /**
+   * Recall a parked sale back into the cart
+   * @param heldCart The held sale
+   * @param isOffline Whether to recall the sale in offline mode
+   */
+  async recallHeldCart(
+    heldCart: HeldCart,
+    isOffline = false
+  ): Promise<{ items: CartItem[]; orderId?: string; success: boolean }> {
+    try {
+      if (heldCart.orderId) {
+        if (isOffline) {
+          await syncService.addToQueue('recallOrder', {
+            orderId: heldCart.orderId,
+            terminalId: heldCart.terminalId
+          });
+        } else {
+          await orderApi.recallOrder(heldCart.orderId, heldCart.terminalId);
+        }
+      }
+
+      await storageService.removeHeldOrder(heldCart.holdId);
+      return { items: heldCart.items, orderId: heldCart.orderId, success: true };
+    } catch (error) {
+      console.error('Failed to recall held order:', error);
+      return { items: [], success: false };
+    }
+  }
+
   /**
    * Get order from local storage by ID
    * @param orderId Order ID
@@ -1,4 +1,5 @@
 import Dexie from 'dexie';
+import { HeldCart } from '../types/inventory.types';
 
 /**
  * Storage service that handles both localStorage and IndexedDB
@@ -8,17 +9,20 @@ import Dexie from 'dexie';
 class StorageService {
   private db: Dexie;
   private dbName = 'MayuraPOS';
-  private dbVersion = 1;
+  private dbVersion = 2;
 
   constructor() {
     // Initialize IndexedDB
     this.db = new Dexie(this.dbName);
-    this.db.version(this.dbVersion).stores({
+    this.db.version(1).stores({
       cache: 'key,value,expires',
       products: 'productId,sku,category',
       orders: 'orderId,status,createdAt',
       offlineQueue: '++id,type,data,status,timestamp'
     });
+    this.db.version(this.dbVersion).stores({
+      heldOrders: 'holdId,orderId,terminalId,heldAt'
+    });
   }
 
   /**
@@ -112,7 +116,7 @@ class StorageService {
       await this.db.table('cache').clear();
       await this.db.table('products').clear();
       await this.db.table('orders').clear();
-      // Don't clear offline queue as those might need to be synced
+      // Don't clear offline queue or held orders as those might need to be synced
     } catch (error) {
       console.error('Error clearing IndexedDB', error);
     }
@@ -187,6 +191,58 @@ class StorageService {
     }
   }
 
+  /**
+   * Store a held (parked) order in IndexedDB
+   */
+  async storeHeldOrder(heldOrder: HeldCart): Promise<void> {
+    try {
+      await this.db.table<HeldCart, string>('heldOrders').put(heldOrder);
+    } catch (error) {
+      console.error('Error storing held order', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get held orders from IndexedDB, newest first
+   */
+  async getHeldOrders(filter?: { terminalId?: string }): Promise<HeldCart[]> {
+    try {
+      const heldOrders = this.db.table<HeldCart, string>('heldOrders');
+      const found = filter?.terminalId
+        ? await heldOrders.where('terminalId').equals(filter.terminalId).toArray()
+        : await heldOrders.toArray();
+      return found.sort((a, b) => b.heldAt.localeCompare(a.heldAt));
+    } catch (error) {
+      console.error('Error retrieving held orders', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get a held order from IndexedDB
+   */
+  async getHeldOrder(holdId: string): Promise<HeldCart | undefined> {
+    try {
+      return await this.db.table<HeldCart, string>('heldOrders').get(holdId);
+    } catch (error) {
+      console.error('Error retrieving held order', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Remove a held order from IndexedDB
+   */
+  async removeHeldOrder(holdId: string): Promise<void> {
+    try {
+      await this.db.table('heldOrders').delete(holdId);
+    } catch (error) {
+      console.error('Error removing held order', error);
+      throw error;
+    }
+  }
+
   /**
    * Add item to offline queue
    */
@@ -1,9 +1,37 @@
 import { storageService } from './storageService';
 import { orderApi } from '../api/orderApi';
 import { paymentApi } from '../api/paymentApi';
+import { CartItem } from '../types/inventory.types';
+import { PaymentMethod } from '../types/payment.types';
 
 type SyncCallback = (pendingCount: number) => void;
 
+interface AddTenderQueueData {
+  orderId: string;
+  amount: number;
+  method: PaymentMethod;
+  metadata: Record<string, unknown>;
+  offlinePaymentId: string;
+}
+
+interface HoldOrderQueueData {
+  holdId: string;
+  orderId?: string;
+  items: CartItem[];
+  label: string;
+  terminalId: string;
+}
+
+interface RecallOrderQueueData {
+  orderId: string;
+  terminalId: string;
+}
+
+interface LocalSyncRecord {
+  serverId?: string;
+  synced: boolean;
+}
+
 /**
  * Service for handling offline data synchronization
  */
@@ -125,12 +153,21 @@ class SyncService {
       case 'processPayment':
         await this.syncProcessPayment(data);
         break;
+      case 'addTender':
+        await this.syncAddTender(data as AddTenderQueueData);
+        break;
       case 'updateOrderStatus':
         await this.syncUpdateOrderStatus(data);
         break;
       case 'cancelOrder':
         await this.syncCancelOrder(data);
         break;
+      case 'holdOrder':
+        await this.syncHoldOrder(data as HoldOrderQueueData);
+        break;
+      case 'recallOrder':
+        await this.syncRecallOrder(data as RecallOrderQueueData);
+        break;
       default:
         throw new Error(`Unknown offline queue item type: ${type}`);
     }
@@ -187,6 +224,39 @@ class SyncService {
     }
   }
 
+  /**
+   * Sync a split-tender leg
+   */
+  private async syncAddTender(data: AddTenderQueueData): Promise<void> {
+    const { orderId, amount, method, metadata, offlinePaymentId } = data;
+    
+    // Offline orders are re-created with a new ID on sync, so resolve it first
+    const localOrder = await storageService.getItem(`order_${orderId}`);
+    const serverOrderId = (localOrder ? (JSON.parse(localOrder) as LocalSyncRecord).serverId : undefined) || orderId;
+    
+    // Opening is idempotent, so every leg can make sure the settlement exists
+    await paymentApi.openSettlement(serverOrderId);
+    const tender = await paymentApi.addTender(
+      serverOrderId,
+      amount,
+      method,
+      false,
+      {
+        ...metadata,
+        offlinePaymentId
+      }
+    );
+    
+    // Update the locally stored payment with the server's payment ID
+    const localPayment = await storageService.getItem(`payment_${offlinePaymentId}`);
+    if (localPayment) {
+      const parsedPayment = JSON.parse(localPayment) as LocalSyncRecord;
+      parsedPayment.serverId = tender.paymentId;
+      parsedPayment.synced = true;
+      await storageService.setItem(`payment_${offlinePaymentId}`, JSON.stringify(parsedPayment));
+    }
+  }
+
   /**
    * Sync an order status update
    */
@@ -207,6 +277,45 @@ class SyncService {
     await orderApi.cancelOrder(orderId, reason);
   }
 
+  /**
+   * Sync a sale parked while offline
+   */
+  private async syncHoldOrder(data: HoldOrderQueueData): Promise<void> {
+    const { holdId, orderId, items, label, terminalId } = data;
+    
+    // The sale may have been recalled before we came back online
+    const heldOrder = await storageService.getHeldOrder(holdId);
+    if (!heldOrder) {
+      return;
+    }
+    
+    let serverOrderId = orderId;
+    if (serverOrderId) {
+      await orderApi.updateOrderFromCart(serverOrderId, items);
+    } else {
+      serverOrderId = (await orderApi.createOrder(items, false, { offlineHoldId: holdId })).orderId;
+    }
+    
+    const response = await orderApi.holdOrder(serverOrderId, label, terminalId);
+    
+    // Keep the local copy so the held list still works offline
+    await storageService.storeHeldOrder({
+      ...heldOrder,
+      orderId: serverOrderId,
+      expiresAt: response.hold.expiresAt,
+      synced: true
+    });
+  }
+
+  /**
+   * Sync a held order recalled while offline
+   */
+  private async syncRecallOrder(data: RecallOrderQueueData): Promise<void> {
+    const { orderId, terminalId } = data;
+    
+    await orderApi.recallOrder(orderId, terminalId);
+  }
+
   /**
    * Process an order offline
    */
@@ -279,6 +388,49 @@ class SyncService {
     
     return offlinePaymentId;
   }
+
+  /**
+   * Process a split-tender leg offline
+   */
+  async processOfflineTender(
+    orderId: string,
+    amount: number,
+    method: PaymentMethod,
+    metadata: Record<string, unknown> = {}
+  ): Promise<string> {
+    // Generate a local payment ID
+    const offlinePaymentId = `offline_payment_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    
+    // Store the leg locally
+    const payment = {
+      paymentId: offlinePaymentId,
+      orderId,
+      amount,
+      method,
+      status: 'COMPLETED',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      completedAt: new Date().toISOString(),
+      isOffline: true,
+      isSplitTender: true,
+      synced: false,
+      ...metadata
+    };
+    
+    await storageService.setItem(`payment_${offlinePaymentId}`, JSON.stringify(payment));
+    
+    // Add to sync queue
+    const queueData: AddTenderQueueData = {
+      orderId,
+      amount,
+      method,
+      metadata,
+      offlinePaymentId
+    };
+    await this.addToQueue('addTender', queueData);
+    
+    return offlinePaymentId;
+  }
 }
 
 export const syncService = new SyncService();
\ No newline at end of file
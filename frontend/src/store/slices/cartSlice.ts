@@ -47,6 +47,8 @@ const cartSlice = createSlice({
           productId: product.productId,
           sku: product.sku,
           name: product.name,
+          category: product.category,
+          taxRate: product.taxRate,
           price: product.price,
           quantity,
           image: product.images && product.images.length > 0 ? product.images[0] : null,
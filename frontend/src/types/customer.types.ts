@@ -0,0 +1,48 @@
+export interface CustomerAddress {
+    addressId: string;
+    label: string;
+    street: string;
+    city: string;
+    state: string;
+    zip: string;
+    country: string;
+    latitude?: number;
+    longitude?: number;
+    contactName?: string;
+    contactPhone?: string;
+    deliveryNotes?: string;
+    isDefault: boolean;
+  }
+  
+  export interface CustomerConsent {
+    marketing: boolean;
+    promotions: boolean;
+    source?: string;
+    updatedAt?: string;
+  }
+  
+  export interface CustomerStats {
+    visitCount: number;
+    totalSpend: number;
+    averageOrderValue: number;
+    firstVisitAt?: string;
+    lastVisitAt?: string;
+    lastStoreId?: string;
+  }
+  
+  export interface Customer {
+    customerId: string;
+    firstName: string;
+    lastName?: string;
+    email?: string;
+    phone?: string;
+    dateOfBirth?: string;
+    notes?: string;
+    tags: string[];
+    addresses: CustomerAddress[];
+    consent: CustomerConsent;
+    stats: CustomerStats;
+    isActive: boolean;
+    createdAt: string;
+    updatedAt: string;
+  }
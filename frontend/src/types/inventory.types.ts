@@ -4,17 +4,86 @@ export interface Product {
     name: string;
     description: string;
     category: string;
+    categoryId?: string;
     price: number;
     costPrice: number;
     taxRate: number;
+    taxClass?: string;
     barcode?: string;
     images?: string[];
     attributes?: Record<string, any>;
+    parentProductId?: string;
+    optionValues?: Record<string, string>;
+    variantOptions?: VariantOption[];
+    variants?: ProductVariant[];
+    variantCount?: number;
+    priceRange?: { min: number; max: number };
+    modifierGroups?: ModifierGroup[];
+    kitComponents?: KitComponent[];
+    isSerialized?: boolean;
+    preferredSupplierId?: string;
     isActive: boolean;
     createdAt: string;
     updatedAt: string;
   }
   
+  export interface VariantOption {
+    name: string;
+    values: string[];
+  }
+  
+  export interface ProductVariant {
+    productId: string;
+    sku: string;
+    name: string;
+    optionValues: Record<string, string>;
+    price: number;
+    barcode?: string;
+    isActive: boolean;
+    inventory?: ProductInventory[];
+  }
+  
+  export interface Modifier {
+    modifierId: string;
+    name: string;
+    priceDelta: number;
+    inventoryProductId?: string;
+    inventoryQuantity?: number;
+  }
+  
+  export interface ModifierGroup {
+    groupId: string;
+    name: string;
+    isRequired: boolean;
+    minSelections: number;
+    maxSelections: number;
+    modifiers: Modifier[];
+  }
+  
+  export interface KitComponent {
+    productId: string;
+    sku: string;
+    quantity: number;
+  }
+  
+  export interface KitAvailability {
+    productId: string;
+    sku: string;
+    storeId: string;
+    assembled: number;
+    buildable: number;
+    available: number;
+    components: (KitComponent & { available: number; kitsPossible: number })[];
+  }
+  
+  export interface VariantInput {
+    optionValues: Record<string, string>;
+    sku?: string;
+    price?: number;
+    costPrice?: number;
+    barcode?: string;
+  }
+  
   export interface ProductInventory {
     inventoryId: string;
     productId: string;
@@ -22,12 +91,110 @@ export interface Product {
     quantity: number;
     reservedQuantity: number;
     availableQuantity: number;
+    inTransitQuantity?: number;
     backorderEnabled: boolean;
     backorderLimit: number;
     reorderPoint: number;
     reorderQuantity: number;
     lastRestockedAt?: string;
     locationInStore?: string;
+    lots?: InventoryLot[];
+    averageCost?: number;
+  }
+  
+  export type CostingMethod = 'FIFO' | 'WEIGHTED_AVERAGE';
+  
+  export interface CostingSettings {
+    storeId: string;
+    method: CostingMethod;
+    isDefault: boolean;
+    updatedBy?: string;
+    updatedAt?: string;
+  }
+  
+  export interface InventoryValuation {
+    asOf: string;
+    storeId?: string;
+    totalQuantity: number;
+    totalValue: number;
+    items: {
+      inventoryId: string;
+      productId: string;
+      sku: string;
+      storeId: string;
+      quantity: number;
+      value: number;
+    }[];
+  }
+  
+  export interface InventoryLot {
+    lotId: string;
+    lotNumber: string;
+    quantity: number;
+    reservedQuantity: number;
+    expirationDate?: string;
+    receivedAt: string;
+  }
+  
+  export interface ExpiringLotAlert {
+    inventoryId: string;
+    productId: string;
+    sku: string;
+    storeId: string;
+    name: string;
+    lotId: string;
+    lotNumber: string;
+    quantity: number;
+    reservedQuantity: number;
+    expirationDate: string;
+    daysToExpiry: number;
+    isExpired: boolean;
+    severity: 'HIGH' | 'MEDIUM';
+  }
+  
+  export type SerialStatus = 'IN_STOCK' | 'RESERVED' | 'SOLD' | 'RETURNED' | 'RMA';
+  
+  export interface SerialNumber {
+    serialId: string;
+    serialNumber: string;
+    productId: string;
+    sku: string;
+    storeId: string;
+    status: SerialStatus;
+    condition?: string;
+    purchaseOrderId?: string;
+    supplierId?: string;
+    orderId?: string;
+    receivedAt: string;
+    soldAt?: string;
+    returnedAt?: string;
+    rmaAt?: string;
+    updatedAt: string;
+  }
+  
+  export interface SerialLookup extends SerialNumber {
+    productName?: string;
+    warrantyExpiresAt?: string;
+    underWarranty?: boolean;
+    history: {
+      status: SerialStatus;
+      at: string;
+      referenceId?: string;
+      performedBy?: string;
+      notes?: string;
+    }[];
+  }
+  
+  export interface SerialValidation {
+    productId: string;
+    storeId: string;
+    valid: boolean;
+    serials: {
+      serialNumber: string;
+      status?: SerialStatus;
+      valid: boolean;
+      reason?: string;
+    }[];
   }
   
   export interface ProductWithInventory extends Product {
@@ -38,11 +205,25 @@ export interface Product {
     productId: string;
     sku: string;
     name: string;
+    category?: string;
+    taxRate?: number;
     price: number;
     quantity: number;
     image: string | null;
   }
   
+  export interface HeldCart {
+    holdId: string;
+    orderId?: string;
+    label: string;
+    terminalId: string;
+    items: CartItem[];
+    total: number;
+    heldAt: string;
+    expiresAt?: string;
+    synced: boolean;
+  }
+  
   export interface ProductSearchParams {
     query?: string;
     category?: string;
@@ -53,6 +234,7 @@ export interface Product {
     limit?: number;
     sortBy?: string;
     sortOrder?: 'asc' | 'desc';
+    groupVariants?: boolean;
   }
   
   export interface PaginatedResponse<T> {
@@ -6,7 +6,8 @@ export enum OrderStatus {
     FULFILLED = 'FULFILLED',
     DELIVERED = 'DELIVERED',
     CANCELLED = 'CANCELLED',
-    REFUNDED = 'REFUNDED'
+    REFUNDED = 'REFUNDED',
+    HELD = 'HELD'
   }
   
   export enum PaymentStatus {
@@ -17,17 +18,79 @@ export enum OrderStatus {
   }
   
   export interface OrderItem {
+    _id?: string;
     productId: string;
     sku: string;
     name: string;
+    category?: string;
     quantity: number;
     unitPrice: number;
     discount: number;
+    promotionDiscount?: number;
+    taxClass?: string;
+    taxRate?: number;
+    taxes?: LineTax[];
+    taxAmount?: number;
     totalPrice: number;
+    basePrice?: number;
+    modifiers?: OrderItemModifier[];
+    serialNumbers?: string[];
     notes?: string;
     metadata?: Record<string, any>;
   }
   
+  export interface OrderItemModifier {
+    groupId: string;
+    groupName: string;
+    modifierId: string;
+    name: string;
+    priceDelta: number;
+  }
+  
+  export interface KitchenTicket {
+    orderId: string;
+    storeId?: string;
+    status: OrderStatus;
+    lines: {
+      quantity: number;
+      name: string;
+      sku: string;
+      modifiers: string[];
+      notes?: string;
+    }[];
+    text: string;
+    createdAt: string;
+  }
+  
+  export interface LineTax {
+    code: string;
+    name: string;
+    jurisdiction: string;
+    rate: number;
+    taxableAmount: number;
+    amount: number;
+    isCompound: boolean;
+    isInclusive: boolean;
+  }
+  
+  export interface DiscountLine {
+    promotionId: string;
+    name: string;
+    type: string;
+    couponCode?: string;
+    productId?: string;
+    sku?: string;
+    amount: number;
+  }
+  
+  export interface OrderTender {
+    paymentId: string;
+    method: string;
+    amount: number;
+    refundedAmount: number;
+    status: string;
+  }
+  
   export interface Address {
     street: string;
     city: string;
@@ -43,10 +106,19 @@ export enum OrderStatus {
     items: OrderItem[];
     subtotal: number;
     tax: number;
+    inclusiveTax?: number;
+    taxBreakdown?: LineTax[];
+    isTaxExempt?: boolean;
     discount: number;
+    promotionDiscount?: number;
+    discountLines?: DiscountLine[];
+    couponCodes?: string[];
     total: number;
     paymentStatus: PaymentStatus;
     paymentMethod?: string;
+    tenders?: OrderTender[];
+    amountPaid?: number;
+    balanceDue?: number;
     shippingAddress?: Address;
     billingAddress?: Address;
     notes?: string;
@@ -61,6 +133,7 @@ export enum OrderStatus {
     storeId?: string;
     deliveryId?: string;
     isOfflineOrder: boolean;
+    hold?: OrderHold;
   }
   
   export interface OrderSearchParams {
@@ -88,6 +161,94 @@ export enum OrderStatus {
     paymentStatus: PaymentStatus;
   }
   
+  export interface OrderHold {
+    label: string;
+    terminalId?: string;
+    employeeId?: string;
+    previousStatus: OrderStatus;
+    inventoryReserved: boolean;
+    heldAt: string;
+    expiresAt: string;
+  }
+  
+  export interface HeldOrderSummary {
+    orderId: string;
+    customerId?: string;
+    storeId?: string;
+    items: OrderItem[];
+    total: number;
+    itemCount: number;
+    hold: OrderHold;
+  }
+  
+  export enum ReturnStatus {
+    REQUESTED = 'REQUESTED',
+    APPROVED = 'APPROVED',
+    COMPLETED = 'COMPLETED',
+    REJECTED = 'REJECTED'
+  }
+  
+  export type ReturnReason = 
+    | 'DEFECTIVE' 
+    | 'WRONG_ITEM' 
+    | 'NOT_AS_DESCRIBED' 
+    | 'CHANGED_MIND' 
+    | 'DAMAGED_IN_TRANSIT' 
+    | 'OTHER';
+  
+  export type ReturnCondition = 'RESELLABLE' | 'DAMAGED';
+  
+  export type RefundMethod = 'ORIGINAL_TENDER' | 'STORE_CREDIT';
+  
+  export interface ReturnItem {
+    lineId?: string;
+    productId: string;
+    sku: string;
+    name: string;
+    quantity: number;
+    reason: ReturnReason;
+    condition: ReturnCondition;
+    refundAmount: number;
+    taxAmount: number;
+    serialNumbers?: string[];
+    notes?: string;
+  }
+  
+  export interface ReturnItemRequest {
+    lineId?: string;
+    productId: string;
+    quantity: number;
+    reason: ReturnReason;
+    condition: ReturnCondition;
+    serialNumbers?: string[];
+    notes?: string;
+  }
+  
+  export interface OrderReturn {
+    returnId: string;
+    rmaNumber: string;
+    orderId: string;
+    customerId?: string;
+    storeId?: string;
+    status: ReturnStatus;
+    items: ReturnItem[];
+    refundMethod: RefundMethod;
+    subtotal: number;
+    tax: number;
+    refundAmount: number;
+    refundedAmount: number;
+    refunds: {
+      paymentId: string;
+      method: string;
+      amount: number;
+    }[];
+    isExchange: boolean;
+    replacementOrderId?: string;
+    notes?: string;
+    createdAt: string;
+    updatedAt: string;
+  }
+  
   export interface OrderStats {
     orderCount: {
       total: number;
@@ -4,7 +4,8 @@ export enum PaymentMethod {
     DEBIT_CARD = 'DEBIT_CARD',
     MOBILE_PAYMENT = 'MOBILE_PAYMENT',
     GIFT_CARD = 'GIFT_CARD',
-    STORE_CREDIT = 'STORE_CREDIT'
+    STORE_CREDIT = 'STORE_CREDIT',
+    LOYALTY_POINTS = 'LOYALTY_POINTS'
   }
   
   export enum PaymentStatus {
@@ -33,6 +34,7 @@ export enum PaymentMethod {
     gatewayTransactionId?: string;
     offlineReference?: string;
     customerEmail?: string;
+    drawerSessionId?: string;
     notes?: string;
   }
   
@@ -44,6 +46,8 @@ export enum PaymentMethod {
     metadata?: Record<string, any>;
     customerEmail?: string;
     isOffline?: boolean;
+    drawerSessionId?: string;
+    terminalId?: string;
   }
   
   export interface CreditCardInfo {
@@ -66,6 +70,8 @@ export enum PaymentMethod {
   export interface RefundRequest {
     amount: number;
     reason?: string;
+    drawerSessionId?: string;
+    terminalId?: string;
   }
   
   export interface RefundResponse {
@@ -75,6 +81,69 @@ export enum PaymentMethod {
     message: string;
   }
   
+  export enum SettlementStatus {
+    OPEN = 'OPEN',
+    SETTLED = 'SETTLED',
+    PARTIALLY_REFUNDED = 'PARTIALLY_REFUNDED',
+    REFUNDED = 'REFUNDED'
+  }
+  
+  export interface Tender {
+    paymentId: string;
+    method: PaymentMethod;
+    amount: number;
+    amountTendered: number;
+    change: number;
+    refundedAmount: number;
+    status: PaymentStatus;
+    isOffline: boolean;
+    createdAt: string;
+  }
+  
+  export interface Settlement {
+    settlementId: string;
+    orderId: string;
+    amountDue: number;
+    currency: string;
+    amountPaid: number;
+    amountRefunded: number;
+    balance: number;
+    pendingAmount: number;
+    status: SettlementStatus;
+    tenders: Tender[];
+    settledAt?: string;
+  }
+  
+  export interface TenderRequest {
+    method: PaymentMethod;
+    amount: number;
+    metadata?: Record<string, unknown>;
+    customerEmail?: string;
+    isOffline?: boolean;
+    drawerSessionId?: string;
+    terminalId?: string;
+  }
+  
+  export interface TenderFormData {
+    method: PaymentMethod;
+    amount: number;
+    cashAmount?: number;
+    change?: number;
+    cardDetails?: CreditCardInfo;
+    giftCardNumber?: string;
+  }
+  
+  export interface TenderResponse {
+    paymentId: string;
+    status: PaymentStatus;
+    amount: number;
+    change: number;
+    message?: string;
+    transactionId?: string;
+    offlineReference?: string;
+    settlement: Settlement;
+  }
+  
   export interface OfflineQueueStatus {
     queueStatus: {
       pending: number;
@@ -84,4 +153,176 @@ export enum PaymentMethod {
       total: number;
     };
     isProcessing: boolean;
-  }
\ No newline at end of file
+  }
+  
+  export enum DrawerSessionStatus {
+    OPEN = 'OPEN',
+    CLOSED = 'CLOSED'
+  }
+  
+  export enum CashMovementType {
+    SALE = 'SALE',
+    REFUND = 'REFUND',
+    PAID_IN = 'PAID_IN',
+    PAID_OUT = 'PAID_OUT'
+  }
+  
+  export interface CashMovement {
+    movementId: string;
+    type: CashMovementType;
+    amount: number;
+    paymentId?: string;
+    orderId?: string;
+    reason?: string;
+    employeeId?: string;
+    createdAt: string;
+  }
+  
+  export interface DenominationCount {
+    denomination: number;
+    count: number;
+  }
+  
+  export interface DrawerSession {
+    sessionId: string;
+    storeId: string;
+    terminalId: string;
+    employeeId: string;
+    status: DrawerSessionStatus;
+    currency: string;
+    openingFloat: number;
+    cashSales?: number;
+    cashRefunds?: number;
+    expectedCash?: number;
+    paidIn: number;
+    paidOut: number;
+    countedCash?: number;
+    variance?: number;
+    movementCount: number;
+    notes?: string;
+    openedAt: string;
+    closedAt?: string;
+    closedBy?: string;
+  }
+  
+  export interface DrawerReport {
+    reportType: 'X' | 'Z';
+    sessionId: string;
+    storeId: string;
+    terminalId: string;
+    employeeId: string;
+    status: DrawerSessionStatus;
+    currency: string;
+    openingFloat: number;
+    cashSales: number;
+    cashRefunds: number;
+    paidIn: number;
+    paidOut: number;
+    expectedCash: number;
+    countedCash?: number;
+    denominations: DenominationCount[];
+    variance?: number;
+    byType: Record<CashMovementType, { count: number; amount: number }>;
+    movements: CashMovement[];
+    openedAt: string;
+    closedAt?: string;
+    closedBy?: string;
+  }
+  
+  export enum GiftCardStatus {
+    INACTIVE = 'INACTIVE',
+    ACTIVE = 'ACTIVE',
+    VOID = 'VOID',
+    EXPIRED = 'EXPIRED'
+  }
+  
+  export interface GiftCardBalance {
+    cardNumber: string;
+    status: GiftCardStatus;
+    balance: number;
+    currency: string;
+    expiresAt?: string;
+  }
+  
+  export enum StoreCreditEntryType {
+    RETURN = 'RETURN',
+    ADJUSTMENT = 'ADJUSTMENT',
+    REDEEM = 'REDEEM',
+    REFUND = 'REFUND'
+  }
+  
+  export interface StoreCreditBalance {
+    balance: number;
+    currency: string;
+  }
+  
+  export interface StoreCreditEntry {
+    entryId: string;
+    type: StoreCreditEntryType;
+    amount: number;
+    balanceAfter: number;
+    orderId?: string;
+    returnId?: string;
+    reason?: string;
+    approvedBy?: string;
+    employeeId?: string;
+    createdAt: string;
+  }
+  
+  export interface StoreCreditAccount extends StoreCreditBalance {
+    customerId: string;
+    ledger: StoreCreditEntry[];
+  }
+  
+  export enum LoyaltyEntryType {
+    EARN = 'EARN',
+    REVERSAL = 'REVERSAL',
+    REDEEM = 'REDEEM',
+    REFUND = 'REFUND',
+    ADJUSTMENT = 'ADJUSTMENT',
+    EXPIRE = 'EXPIRE'
+  }
+  
+  export interface LoyaltyTier {
+    name: string;
+    minSpend: number;
+    multiplier: number;
+  }
+  
+  export interface LoyaltyProgram {
+    pointsPerUnit: number;
+    pointValue: number;
+    expiryDays: number;
+    tiers: LoyaltyTier[];
+  }
+  
+  export interface LoyaltyEntry {
+    entryId: string;
+    type: LoyaltyEntryType;
+    points: number;
+    pointsAfter: number;
+    amount?: number;
+    multiplier?: number;
+    orderId?: string;
+    paymentId?: string;
+    reason?: string;
+    approvedBy?: string;
+    expiresAt?: string;
+    createdAt: string;
+  }
+  
+  export interface LoyaltyAccount {
+    customerId: string;
+    points: number;
+    value: number;
+    tier: string;
+    multiplier: number;
+    lifetimePoints: number;
+    lifetimeSpend: number;
+    nextTier?: {
+      name: string;
+      spendRequired: number;
+    };
+    expiringPoints: number;
+    ledger: LoyaltyEntry[];
+  }
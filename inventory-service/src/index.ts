@@ -4,6 +4,35 @@ import { v4 as uuidv4 } from 'uuid';
 import { BaseService } from '../../shared/base-service';
 import { MessageBus } from '../../shared/message-bus';
 
+// Costing method used for stores without their own setting
+const DEFAULT_COSTING_METHOD = (process.env.DEFAULT_COSTING_METHOD || 'FIFO') as CostingMethod;
+
+// How long a reservation holds stock without order activity before the sweeper releases it
+const RESERVATION_TTL_MINUTES = parseInt(process.env.RESERVATION_TTL_MINUTES || '120');
+
+// Demand forecasting: days of sales history modelled, the recent window that sets the sales
+// rate, days between reviews that an order must also cover, and the safety stock z-score
+const FORECAST_HISTORY_DAYS = parseInt(process.env.FORECAST_HISTORY_DAYS || '365');
+const FORECAST_RECENT_DAYS = parseInt(process.env.FORECAST_RECENT_DAYS || '28');
+const FORECAST_REVIEW_DAYS = parseInt(process.env.FORECAST_REVIEW_DAYS || '7');
+const FORECAST_SERVICE_LEVEL_Z = parseFloat(process.env.FORECAST_SERVICE_LEVEL_Z || '1.65');
+
+// Most variants listed under each parent in a product listing; the rest are counted only
+const LISTING_VARIANT_LIMIT = parseInt(process.env.LISTING_VARIANT_LIMIT || '50');
+
+// Separates category names in a category path (e.g. "Beverages > Coffee > Beans")
+const CATEGORY_PATH_SEPARATOR = ' > ';
+
+// Write-offs valued above this need a manager's approval, unless the reason code sets its own limit
+const WRITE_OFF_APPROVAL_THRESHOLD = parseFloat(process.env.WRITE_OFF_APPROVAL_THRESHOLD || '100');
+
+// Invoice matching tolerances used for suppliers without their own
+const DEFAULT_MATCH_TOLERANCE: IMatchTolerance = {
+  quantityPercent: parseFloat(process.env.MATCH_QUANTITY_TOLERANCE_PERCENT || '0'),
+  pricePercent: parseFloat(process.env.MATCH_PRICE_TOLERANCE_PERCENT || '2'),
+  priceAmount: parseFloat(process.env.MATCH_PRICE_TOLERANCE_AMOUNT || '0.05')
+};
+
 // Product interface
 interface IProduct extends Document {
   productId: string;
@@ -11,17 +40,89 @@ interface IProduct extends Document {
   name: string;
   description: string;
   category: string;
+  categoryId?: string;
   price: number;
   costPrice: number;
   taxRate: number;
+  taxClass?: string;
   barcode?: string;
   images: string[];
   attributes: Record<string, any>;
+  parentProductId?: string;
+  variantOptions: IVariantOption[];
+  optionValues?: Record<string, string>;
+  variantKey?: string;
+  modifierGroups: IModifierGroup[];
+  kitComponents: IKitComponent[];
+  isSerialized: boolean;
+  preferredSupplierId?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Category defaults interface (applied to new products and their inventory; unset values inherit from the parent)
+interface ICategoryDefaults {
+  taxClass?: string;
+  reorderPoint?: number;
+  reorderQuantity?: number;
+}
+
+// Category interface (a node in the product category tree; products store its path in category)
+interface ICategory extends Document {
+  categoryId: string;
+  name: string;
+  parentId?: string;
+  ancestorIds: string[];
+  path: string;
+  depth: number;
+  defaults: ICategoryDefaults;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Variant dimension of a parent product (e.g. size with values S, M, L)
+interface IVariantOption {
+  name: string;
+  values: string[];
+}
+
+// Per-variant overrides supplied when creating variants
+interface IVariantInput {
+  optionValues: Record<string, string>;
+  sku?: string;
+  price?: number;
+  costPrice?: number;
+  barcode?: string;
+}
+
+// Modifier interface (one add-on or change, e.g. extra shot)
+interface IModifier {
+  modifierId: string;
+  name: string;
+  priceDelta: number;
+  inventoryProductId?: string;
+  inventoryQuantity: number;
+}
+
+// Modifier group interface (e.g. milk choice, pick one)
+interface IModifierGroup {
+  groupId: string;
+  name: string;
+  isRequired: boolean;
+  minSelections: number;
+  maxSelections: number;
+  modifiers: IModifier[];
+}
+
+// Kit component interface (one line of a kit's bill of materials)
+interface IKitComponent {
+  productId: string;
+  sku: string;
+  quantity: number;
+}
+
 // Inventory item interface
 interface IInventoryItem extends Document {
   inventoryId: string;
@@ -30,6 +131,7 @@ interface IInventoryItem extends Document {
   storeId: string;
   quantity: number;
   reservedQuantity: number;
+  inTransitQuantity: number;
   backorderEnabled: boolean;
   backorderLimit: number;
   reorderPoint: number;
@@ -39,11 +141,52 @@ interface IInventoryItem extends Document {
   notes?: string;
   batchNumber?: string;
   expirationDate?: Date;
+  lots: IInventoryLot[];
+  costLayers: ICostLayer[];
+  averageCost: number;
   serialNumbers?: string[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Cost layer interface (units still on hand from one receipt, at that receipt's cost)
+interface ICostLayer {
+  layerId: string;
+  unitCost: number;
+  quantity: number;
+  referenceId?: string;
+  receivedAt: Date;
+}
+
+// Costing method
+type CostingMethod = 'FIFO' | 'WEIGHTED_AVERAGE';
+
+// Store costing settings interface
+interface ICostingSettings extends Document {
+  storeId: string;
+  method: CostingMethod;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Inventory lot interface (one received batch of an inventory item)
+interface IInventoryLot {
+  lotId: string;
+  lotNumber: string;
+  quantity: number;
+  reservedQuantity: number;
+  expirationDate?: Date;
+  receivedAt: Date;
+}
+
+// Lot allocation interface (how much of a movement came from each lot)
+interface ILotAllocation {
+  lotId: string;
+  lotNumber: string;
+  quantity: number;
+}
+
 // Inventory transaction interface
 interface IInventoryTransaction extends Document {
   transactionId: string;
@@ -57,10 +200,110 @@ interface IInventoryTransaction extends Document {
   newQuantity: number;
   orderId?: string;
   referenceId?: string;
+  lots?: ILotAllocation[];
+  serialNumbers?: string[];
+  unitCost?: number;
+  totalCost?: number;
   reason?: string;
+  reasonCode?: string;
+  performedBy?: string;
+  notes?: string;
+  createdAt: Date;
+}
+
+// Reservation interface (stock held for one order line until sold, released or expired)
+interface IReservation extends Document {
+  reservationId: string;
+  orderId: string;
+  inventoryId: string;
+  productId: string;
+  sku: string;
+  storeId: string;
+  quantity: number;
+  originalQuantity: number;
+  status: 'ACTIVE' | 'RELEASED' | 'EXPIRED' | 'FULFILLED';
+  expiresAt?: Date;
+  renewedAt?: Date;
+  closedAt?: Date;
+  closeReason?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Demand model interface (an item's deseasonalized sales rate and seasonal indices)
+interface IDemandModel {
+  historyDays: number;
+  totalSold: number;
+  dailyVelocity: number;
+  dailyDeviation: number;
+  dayOfWeekIndex: number[];
+  monthlyIndex: number[];
+}
+
+// Replenishment line interface (one item to reorder and why)
+interface IReplenishmentLine {
+  inventoryId: string;
+  productId: string;
+  sku: string;
+  name: string;
+  available: number;
+  onOrder: number;
+  reorderPoint: number;
+  reorderQuantity: number;
+  basis: 'FORECAST' | 'REORDER_QUANTITY';
+  leadTimeDemand: number;
+  safetyStock: number;
+  packSize: number;
+  supplierSku?: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+// Replenishment order interface (a draft purchase order to be raised with one supplier)
+interface IReplenishmentOrder {
+  supplierId: string;
+  supplierName: string;
+  storeId: string;
+  leadTime: number;
+  minOrderValue: number;
+  expectedDeliveryDate: Date;
+  subtotal: number;
+  toppedUpToMinimum: boolean;
+  items: IReplenishmentLine[];
+}
+
+// Serial number status
+type SerialStatus = 'IN_STOCK' | 'RESERVED' | 'SOLD' | 'RETURNED' | 'RMA';
+
+// Serial number event interface (one step in a unit's life)
+interface ISerialEvent {
+  status: SerialStatus;
+  at: Date;
+  referenceId?: string;
   performedBy?: string;
   notes?: string;
+}
+
+// Serial number interface (one individually tracked unit)
+interface ISerialNumber extends Document {
+  serialId: string;
+  serialNumber: string;
+  productId: string;
+  sku: string;
+  storeId: string;
+  status: SerialStatus;
+  condition?: string;
+  purchaseOrderId?: string;
+  supplierId?: string;
+  orderId?: string;
+  history: ISerialEvent[];
+  receivedAt: Date;
+  soldAt?: Date;
+  returnedAt?: Date;
+  rmaAt?: Date;
   createdAt: Date;
+  updatedAt: Date;
 }
 
 // Supplier interface
@@ -81,8 +324,94 @@ interface ISupplier extends Document {
   paymentTerms?: string;
   leadTime?: number;
   minOrderValue?: number;
+  matchTolerance?: IMatchTolerance;
+  notes?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Match tolerance interface (how far an invoice may differ from the order and receipt)
+interface IMatchTolerance {
+  quantityPercent: number;
+  pricePercent: number;
+  priceAmount: number;
+}
+
+// Supplier price interface (a case cost from an effective date)
+interface ISupplierPrice {
+  caseCost: number;
+  effectiveFrom: Date;
+  changedBy?: string;
   notes?: string;
+}
+
+// Supplier product interface (a product as sold by one supplier)
+interface ISupplierProduct extends Document {
+  supplierProductId: string;
+  supplierId: string;
+  productId: string;
+  sku: string;
+  supplierSku?: string;
+  packSize: number;
+  minOrderQuantity: number;
+  leadTime?: number;
+  isPreferred: boolean;
   isActive: boolean;
+  prices: ISupplierPrice[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Invoice discrepancy interface (one way an invoice line fails the three-way match)
+interface IInvoiceDiscrepancy {
+  productId: string;
+  sku: string;
+  type: 'NOT_ON_ORDER' | 'QUANTITY' | 'PRICE';
+  ordered: number;
+  received: number;
+  invoiced: number;
+  orderedPrice?: number;
+  invoicedPrice?: number;
+  message: string;
+}
+
+// Supplier invoice interface
+interface ISupplierInvoice extends Document {
+  invoiceId: string;
+  invoiceNumber: string;
+  supplierId: string;
+  purchaseOrderId: string;
+  storeId: string;
+  invoiceDate: Date;
+  dueDate: Date;
+  paymentTerms?: string;
+  items: {
+    productId: string;
+    sku: string;
+    quantity: number;
+    unitPrice: number;
+    totalPrice: number;
+  }[];
+  subtotal: number;
+  tax: number;
+  shipping: number;
+  total: number;
+  matchStatus: 'MATCHED' | 'DISCREPANCY' | 'OVERRIDDEN';
+  discrepancies: IInvoiceDiscrepancy[];
+  matchedAt?: Date;
+  overrideReason?: string;
+  overriddenBy?: string;
+  paymentStatus: 'UNPAID' | 'PARTIALLY_PAID' | 'PAID';
+  amountPaid: number;
+  payments: {
+    paymentId: string;
+    amount: number;
+    reference?: string;
+    paidAt: Date;
+    performedBy?: string;
+  }[];
+  notes?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -96,6 +425,7 @@ interface IPurchaseOrder extends Document {
   items: {
     productId: string;
     sku: string;
+    supplierSku?: string;
     quantity: number;
     unitPrice: number;
     totalPrice: number;
@@ -110,6 +440,7 @@ interface IPurchaseOrder extends Document {
   actualDeliveryDate?: Date;
   paymentStatus: 'UNPAID' | 'PARTIALLY_PAID' | 'PAID';
   paymentTerms?: string;
+  source: 'MANUAL' | 'REPLENISHMENT';
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -120,16 +451,163 @@ interface IPurchaseOrder extends Document {
   cancelledAt?: Date;
 }
 
+// Stocktake count interface (one count sheet's tally for a line)
+interface IStocktakeCount {
+  sheet: string;
+  quantity: number;
+  countedBy: string;
+  countedAt: Date;
+}
+
+// Stocktake line interface (one inventory record being counted)
+interface IStocktakeLine {
+  inventoryId: string;
+  productId: string;
+  sku: string;
+  name: string;
+  locationInStore?: string;
+  unitCost: number;
+  expectedQuantity: number;
+  counts: IStocktakeCount[];
+  isApproved: boolean;
+}
+
+// Stocktake interface (a cycle count or full physical count of a store)
+interface IStocktake extends Document {
+  stocktakeId: string;
+  storeId: string;
+  scope: 'FULL' | 'CATEGORY' | 'LOCATION';
+  category?: string;
+  locationInStore?: string;
+  status: 'COUNTING' | 'IN_REVIEW' | 'APPROVED' | 'POSTED' | 'CANCELLED';
+  freezeInventory: boolean;
+  lines: IStocktakeLine[];
+  startedBy: string;
+  approvedBy?: string;
+  postedBy?: string;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  submittedAt?: Date;
+  approvedAt?: Date;
+  postedAt?: Date;
+  cancelledAt?: Date;
+}
+
+// Transfer order line interface (one product moving between stores)
+interface ITransferOrderLine {
+  productId: string;
+  sku: string;
+  requestedQuantity: number;
+  approvedQuantity: number;
+  shippedQuantity: number;
+  receivedQuantity: number;
+  unitCost: number;
+  lots: (ILotAllocation & { expirationDate?: Date })[];
+}
+
+// Transfer discrepancy interface (shipped units that never arrived at the destination)
+interface ITransferDiscrepancy {
+  productId: string;
+  sku: string;
+  shipped: number;
+  received: number;
+  shortage: number;
+  reason?: string;
+  reportedBy: string;
+  reportedAt: Date;
+}
+
+// Transfer order interface (stock moving from one store to another, in transit for days)
+interface ITransferOrder extends Document {
+  transferOrderId: string;
+  fromStoreId: string;
+  toStoreId: string;
+  status: 'REQUESTED' | 'APPROVED' | 'IN_TRANSIT' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'CANCELLED';
+  items: ITransferOrderLine[];
+  discrepancies: ITransferDiscrepancy[];
+  requestDelivery: boolean;
+  deliveryId?: string;
+  deliveryStatus?: string;
+  requestedBy: string;
+  approvedBy?: string;
+  shippedBy?: string;
+  receivedBy?: string;
+  cancellationReason?: string;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  approvedAt?: Date;
+  shippedAt?: Date;
+  deliveredAt?: Date;
+  receivedAt?: Date;
+  cancelledAt?: Date;
+}
+
+// Shrinkage type (why stock left the store without being sold)
+type ShrinkageType = 'DAMAGE' | 'THEFT' | 'EXPIRY' | 'SPOILAGE' | 'SAMPLE' | 'STAFF_MEAL' | 'OTHER';
+
+// Write-off reason interface (a configurable reason code staff pick when writing stock off)
+interface IWriteOffReason extends Document {
+  code: string;
+  name: string;
+  type: ShrinkageType;
+  requiresPhoto: boolean;
+  approvalThreshold?: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Write-off interface (stock removed as damaged, stolen, expired, given away or eaten)
+interface IWriteOff extends Document {
+  writeOffId: string;
+  storeId: string;
+  inventoryId: string;
+  productId: string;
+  sku: string;
+  category?: string;
+  categoryId?: string;
+  quantity: number;
+  reasonCode: string;
+  reasonType: ShrinkageType;
+  lotNumber?: string;
+  photoUrls: string[];
+  status: 'PENDING_APPROVAL' | 'POSTED' | 'REJECTED';
+  estimatedValue: number;
+  unitCost?: number;
+  totalCost?: number;
+  transactionId?: string;
+  requestedBy: string;
+  approvedBy?: string;
+  rejectedBy?: string;
+  rejectionReason?: string;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  postedAt?: Date;
+}
+
 /**
  * Inventory Service - Handles inventory management
  */
 export class InventoryService extends BaseService {
   private messageBus: MessageBus;
   private productModel: mongoose.Model<IProduct>;
+  private categoryModel: mongoose.Model<ICategory>;
   private inventoryModel: mongoose.Model<IInventoryItem>;
   private transactionModel: mongoose.Model<IInventoryTransaction>;
+  private reservationModel: mongoose.Model<IReservation>;
   private supplierModel: mongoose.Model<ISupplier>;
+  private supplierProductModel: mongoose.Model<ISupplierProduct>;
+  private supplierInvoiceModel: mongoose.Model<ISupplierInvoice>;
   private purchaseOrderModel: mongoose.Model<IPurchaseOrder>;
+  private stocktakeModel: mongoose.Model<IStocktake>;
+  private writeOffReasonModel: mongoose.Model<IWriteOffReason>;
+  private writeOffModel: mongoose.Model<IWriteOff>;
+  private transferOrderModel: mongoose.Model<ITransferOrder>;
+  private serialNumberModel: mongoose.Model<ISerialNumber>;
+  private costingSettingsModel: mongoose.Model<ICostingSettings>;
 
   /**
    * Initialize the Inventory Service
@@ -177,6 +655,10 @@ export class InventoryService extends BaseService {
         required: true,
         index: true
       },
+      categoryId: { 
+        type: String,
+        index: true
+      },
       price: { 
         type: Number, 
         required: true,
@@ -193,6 +675,9 @@ export class InventoryService extends BaseService {
         default: 0,
         min: 0 
       },
+      taxClass: { 
+        type: String 
+      },
       barcode: { 
         type: String,
         index: true
@@ -202,6 +687,52 @@ export class InventoryService extends BaseService {
         type: Schema.Types.Mixed, 
         default: {} 
       },
+      parentProductId: { 
+        type: String,
+        index: true
+      },
+      variantOptions: [{
+        _id: false,
+        name: { type: String, required: true },
+        values: [String]
+      }],
+      optionValues: { 
+        type: Schema.Types.Mixed 
+      },
+      variantKey: { 
+        type: String 
+      },
+      modifierGroups: [{
+        _id: false,
+        groupId: { type: String, required: true },
+        name: { type: String, required: true },
+        isRequired: { type: Boolean, default: false },
+        minSelections: { type: Number, default: 0 },
+        maxSelections: { type: Number, default: 1 },
+        modifiers: [{
+          _id: false,
+          modifierId: { type: String, required: true },
+          name: { type: String, required: true },
+          priceDelta: { type: Number, default: 0 },
+          inventoryProductId: { type: String },
+          inventoryQuantity: { type: Number, default: 1 }
+        }]
+      }],
+      kitComponents: [{
+        _id: false,
+        productId: { type: String, required: true },
+        sku: { type: String, required: true },
+        quantity: { type: Number, required: true, min: 1 }
+      }],
+      isSerialized: { 
+        type: Boolean, 
+        required: true,
+        default: false 
+      },
+      preferredSupplierId: { 
+        type: String,
+        index: true
+      },
       isActive: { 
         type: Boolean, 
         required: true,
@@ -212,6 +743,55 @@ export class InventoryService extends BaseService {
       timestamps: true
     });
     
+    // Each option combination exists once per parent
+    productSchema.index(
+      { parentProductId: 1, variantKey: 1 },
+      { unique: true, partialFilterExpression: { parentProductId: { $type: 'string' } } }
+    );
+    
+    // Define category schema
+    const categorySchema = new Schema<ICategory>({
+      categoryId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      name: { 
+        type: String, 
+        required: true 
+      },
+      parentId: { 
+        type: String,
+        index: true
+      },
+      ancestorIds: { 
+        type: [String],
+        index: true
+      },
+      path: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      depth: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      defaults: {
+        taxClass: { type: String },
+        reorderPoint: { type: Number, min: 0 },
+        reorderQuantity: { type: Number, min: 0 }
+      },
+      isActive: { 
+        type: Boolean, 
+        required: true,
+        default: true 
+      }
+    }, {
+      timestamps: true
+    });
+    
     // Define inventory schema
     const inventorySchema = new Schema<IInventoryItem>({
       inventoryId: { 
@@ -246,6 +826,12 @@ export class InventoryService extends BaseService {
         default: 0,
         min: 0 
       },
+      inTransitQuantity: { 
+        type: Number, 
+        required: true,
+        default: 0,
+        min: 0 
+      },
       backorderEnabled: { 
         type: Boolean, 
         required: true,
@@ -284,11 +870,36 @@ export class InventoryService extends BaseService {
       expirationDate: { 
         type: Date 
       },
+      lots: [{
+        _id: false,
+        lotId: { type: String, required: true },
+        lotNumber: { type: String, required: true },
+        quantity: { type: Number, required: true, min: 0 },
+        reservedQuantity: { type: Number, required: true, default: 0, min: 0 },
+        expirationDate: { type: Date },
+        receivedAt: { type: Date, required: true }
+      }],
+      costLayers: [{
+        _id: false,
+        layerId: { type: String, required: true },
+        unitCost: { type: Number, required: true, min: 0 },
+        quantity: { type: Number, required: true, min: 0 },
+        referenceId: { type: String },
+        receivedAt: { type: Date, required: true }
+      }],
+      averageCost: { 
+        type: Number, 
+        required: true,
+        default: 0,
+        min: 0 
+      },
       serialNumbers: [String]
     }, {
       timestamps: true
     });
     
+    inventorySchema.index({ 'lots.expirationDate': 1 });
+    
     // Create a compound index for productId + storeId
     inventorySchema.index({ productId: 1, storeId: 1 }, { unique: true });
     
@@ -344,11 +955,28 @@ export class InventoryService extends BaseService {
         type: String,
         index: true
       },
+      lots: [{
+        _id: false,
+        lotId: { type: String, required: true },
+        lotNumber: { type: String, required: true, index: true },
+        quantity: { type: Number, required: true }
+      }],
+      serialNumbers: [String],
+      unitCost: { 
+        type: Number 
+      },
+      totalCost: { 
+        type: Number 
+      },
       reason: { 
         type: String 
       },
-      performedBy: { 
-        type: String 
+      reasonCode: { 
+        type: String,
+        index: true
+      },
+      performedBy: { 
+        type: String 
       },
       notes: { 
         type: String 
@@ -402,6 +1030,11 @@ export class InventoryService extends BaseService {
         type: Number,
         min: 0 
       },
+      matchTolerance: {
+        quantityPercent: { type: Number, min: 0 },
+        pricePercent: { type: Number, min: 0 },
+        priceAmount: { type: Number, min: 0 }
+      },
       notes: { 
         type: String 
       },
@@ -441,6 +1074,7 @@ export class InventoryService extends BaseService {
       items: [{
         productId: { type: String, required: true },
         sku: { type: String, required: true },
+        supplierSku: { type: String },
         quantity: { type: Number, required: true, min: 1 },
         unitPrice: { type: Number, required: true, min: 0 },
         totalPrice: { type: Number, required: true, min: 0 },
@@ -484,6 +1118,12 @@ export class InventoryService extends BaseService {
       paymentTerms: { 
         type: String 
       },
+      source: { 
+        type: String, 
+        required: true,
+        enum: ['MANUAL', 'REPLENISHMENT'],
+        default: 'MANUAL' 
+      },
       notes: { 
         type: String 
       },
@@ -516,628 +1156,7045 @@ export class InventoryService extends BaseService {
       next();
     });
 
-    // Create models
-    this.productModel = mongoose.model<IProduct>('Product', productSchema);
-    this.inventoryModel = mongoose.model<IInventoryItem>('Inventory', inventorySchema);
-    this.transactionModel = mongoose.model<IInventoryTransaction>('InventoryTransaction', transactionSchema);
-    this.supplierModel = mongoose.model<ISupplier>('Supplier', supplierSchema);
-    this.purchaseOrderModel = mongoose.model<IPurchaseOrder>('PurchaseOrder', purchaseOrderSchema);
-  }
-
-  /**
-   * Initialize routes for the Inventory service
-   */
-  protected async initRoutes(): Promise<void> {
-    // Product routes
-    this.app.post('/products', this.authenticate.bind(this), this.createProduct.bind(this));
-    this.app.get('/products/:id', this.authenticate.bind(this), this.getProduct.bind(this));
-    this.app.put('/products/:id', this.authenticate.bind(this), this.updateProduct.bind(this));
-    this.app.get('/products', this.authenticate.bind(this), this.searchProducts.bind(this));
-    
-    // Inventory routes
-    this.app.get('/inventory/:id', this.authenticate.bind(this), this.getInventory.bind(this));
-    this.app.get('/inventory/product/:productId', this.authenticate.bind(this), this.getProductInventory.bind(this));
-    this.app.get('/inventory/store/:storeId', this.authenticate.bind(this), this.getStoreInventory.bind(this));
-    this.app.post('/inventory/adjust', this.authenticate.bind(this), this.adjustInventory.bind(this));
-    this.app.post('/inventory/transfer', this.authenticate.bind(this), this.transferInventory.bind(this));
-    
-    // Inventory reservation
-    this.app.post('/inventory/reserve', this.authenticate.bind(this), this.reserveInventory.bind(this));
-    this.app.post('/inventory/release', this.authenticate.bind(this), this.releaseInventory.bind(this));
-    
-    // Inventory transactions
-    this.app.get('/transactions', this.authenticate.bind(this), this.getTransactions.bind(this));
-    this.app.get('/transactions/:id', this.authenticate.bind(this), this.getTransaction.bind(this));
-    this.app.get('/transactions/product/:productId', this.authenticate.bind(this), this.getProductTransactions.bind(this));
-    
-    // Supplier routes
-    this.app.post('/suppliers', this.authenticate.bind(this), this.createSupplier.bind(this));
-    this.app.get('/suppliers/:id', this.authenticate.bind(this), this.getSupplier.bind(this));
-    this.app.put('/suppliers/:id', this.authenticate.bind(this), this.updateSupplier.bind(this));
-    this.app.get('/suppliers', this.authenticate.bind(this), this.getSuppliers.bind(this));
-    
-    // Purchase order routes
-    this.app.post('/purchase-orders', this.authenticate.bind(this), this.createPurchaseOrder.bind(this));
-    this.app.get('/purchase-orders/:id', this.authenticate.bind(this), this.getPurchaseOrder.bind(this));
-    this.app.put('/purchase-orders/:id', this.authenticate.bind(this), this.updatePurchaseOrder.bind(this));
-    this.app.post('/purchase-orders/:id/submit', this.authenticate.bind(this), this.submitPurchaseOrder.bind(this));
-    this.app.post('/purchase-orders/:id/receive', this.authenticate.bind(this), this.receivePurchaseOrder.bind(this));
-    this.app.post('/purchase-orders/:id/cancel', this.authenticate.bind(this), this.cancelPurchaseOrder.bind(this));
-    this.app.get('/purchase-orders', this.authenticate.bind(this), this.getPurchaseOrders.bind(this));
+    // Define stocktake schema
+    const stocktakeSchema = new Schema<IStocktake>({
+      stocktakeId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      storeId: { 
+        type: String, 
+        required: true,
+        index: true
+      },
+      scope: { 
+        type: String, 
+        required: true,
+        enum: ['FULL', 'CATEGORY', 'LOCATION']
+      },
+      category: { 
+        type: String 
+      },
+      locationInStore: { 
+        type: String 
+      },
+      status: { 
+        type: String, 
+        required: true,
+        enum: ['COUNTING', 'IN_REVIEW', 'APPROVED', 'POSTED', 'CANCELLED'],
+        default: 'COUNTING',
+        index: true
+      },
+      freezeInventory: { 
+        type: Boolean, 
+        required: true,
+        default: false 
+      },
+      lines: [{
+        _id: false,
+        inventoryId: { type: String, required: true },
+        productId: { type: String, required: true },
+        sku: { type: String, required: true },
+        name: { type: String, required: true },
+        locationInStore: { type: String },
+        unitCost: { type: Number, required: true, default: 0 },
+        expectedQuantity: { type: Number, required: true },
+        counts: [{
+          _id: false,
+          sheet: { type: String, required: true },
+          quantity: { type: Number, required: true, min: 0 },
+          countedBy: { type: String, required: true },
+          countedAt: { type: Date, required: true }
+        }],
+        isApproved: { type: Boolean, default: false }
+      }],
+      startedBy: { 
+        type: String, 
+        required: true 
+      },
+      approvedBy: { 
+        type: String 
+      },
+      postedBy: { 
+        type: String 
+      },
+      notes: { 
+        type: String 
+      },
+      submittedAt: { 
+        type: Date 
+      },
+      approvedAt: { 
+        type: Date 
+      },
+      postedAt: { 
+        type: Date 
+      },
+      cancelledAt: { 
+        type: Date 
+      }
+    }, {
+      timestamps: true
+    });
     
-    // Low stock alert
-    this.app.get('/inventory/alerts/low-stock', this.authenticate.bind(this), this.getLowStockAlerts.bind(this));
-  }
+    stocktakeSchema.index({ 'lines.inventoryId': 1, status: 1 });
 
-  /**
-   * Initialize message bus handlers
-   */
-  private async initMessageHandlers(): Promise<void> {
-    await this.messageBus.connect();
-    
-    // Create exchanges
-    await this.messageBus.createExchange('inventory', 'topic');
-    
-    // Create queues
-    await this.messageBus.createQueue('inventory.order.events', 'order', 'order.#');
-    
-    // Listen for order events
-    await this.messageBus.subscribe('inventory.order.events', async (content, msg) => {
-      this.logger.info(`Received order event: ${msg.fields.routingKey}`, { content });
-      
-      // Handle specific events
-      switch (msg.fields.routingKey) {
-        case 'order.confirmed':
-          await this.handleOrderConfirmed(content);
-          break;
-        case 'order.cancelled':
-          await this.handleOrderCancelled(content);
-          break;
+    // Define write-off reason schema
+    const writeOffReasonSchema = new Schema<IWriteOffReason>({
+      code: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      name: { 
+        type: String, 
+        required: true 
+      },
+      type: { 
+        type: String, 
+        required: true,
+        enum: ['DAMAGE', 'THEFT', 'EXPIRY', 'SPOILAGE', 'SAMPLE', 'STAFF_MEAL', 'OTHER']
+      },
+      requiresPhoto: { 
+        type: Boolean, 
+        required: true,
+        default: false 
+      },
+      approvalThreshold: { 
+        type: Number, 
+        min: 0 
+      },
+      isActive: { 
+        type: Boolean, 
+        required: true,
+        default: true 
       }
+    }, {
+      timestamps: true
     });
-  }
 
-  /**
-   * Basic JWT authentication middleware
-   * In a real implementation, this would validate against the Auth service
-   */
-  private authenticate(req: Request, res: Response, next: Function): void {
-    // This is a simplified version that assumes the API Gateway has already
-    // performed authentication. In a real implementation, this would
-    // validate the JWT token and set user info
-    
-    // Simulate authenticated user for demo purposes
-    (req as any).user = {
-      userId: 'user123',
-      roles: ['user']
-    };
+    // Define write-off schema
+    const writeOffSchema = new Schema<IWriteOff>({
+      writeOffId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      storeId: { 
+        type: String, 
+        required: true,
+        index: true
+      },
+      inventoryId: { 
+        type: String, 
+        required: true 
+      },
+      productId: { 
+        type: String, 
+        required: true 
+      },
+      sku: { 
+        type: String, 
+        required: true 
+      },
+      category: { 
+        type: String 
+      },
+      categoryId: { 
+        type: String,
+        index: true
+      },
+      quantity: { 
+        type: Number, 
+        required: true,
+        min: 1 
+      },
+      reasonCode: { 
+        type: String, 
+        required: true 
+      },
+      reasonType: { 
+        type: String, 
+        required: true,
+        enum: ['DAMAGE', 'THEFT', 'EXPIRY', 'SPOILAGE', 'SAMPLE', 'STAFF_MEAL', 'OTHER']
+      },
+      lotNumber: { 
+        type: String 
+      },
+      photoUrls: [String],
+      status: { 
+        type: String, 
+        required: true,
+        enum: ['PENDING_APPROVAL', 'POSTED', 'REJECTED'],
+        index: true
+      },
+      estimatedValue: { 
+        type: Number, 
+        required: true,
+        min: 0 
+      },
+      unitCost: { 
+        type: Number 
+      },
+      totalCost: { 
+        type: Number 
+      },
+      transactionId: { 
+        type: String 
+      },
+      requestedBy: { 
+        type: String, 
+        required: true 
+      },
+      approvedBy: { 
+        type: String 
+      },
+      rejectedBy: { 
+        type: String 
+      },
+      rejectionReason: { 
+        type: String 
+      },
+      notes: { 
+        type: String 
+      },
+      postedAt: { 
+        type: Date 
+      }
+    }, {
+      timestamps: true
+    });
     
-    next();
-  }
+    writeOffSchema.index({ status: 1, postedAt: 1 });
 
-  /**
-   * Create a new product
-   */
-  private async createProduct(req: Request, res: Response): Promise<void> {
-    try {
-      const { 
-        sku, 
+    // Define transfer order schema
+    const transferOrderSchema = new Schema<ITransferOrder>({
+      transferOrderId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      fromStoreId: { 
+        type: String, 
+        required: true,
+        index: true
+      },
+      toStoreId: { 
+        type: String, 
+        required: true,
+        index: true
+      },
+      status: { 
+        type: String, 
+        required: true,
+        enum: ['REQUESTED', 'APPROVED', 'IN_TRANSIT', 'PARTIALLY_RECEIVED', 'RECEIVED', 'CANCELLED'],
+        default: 'REQUESTED',
+        index: true
+      },
+      items: [{
+        _id: false,
+        productId: { type: String, required: true },
+        sku: { type: String, required: true },
+        requestedQuantity: { type: Number, required: true, min: 1 },
+        approvedQuantity: { type: Number, required: true, default: 0, min: 0 },
+        shippedQuantity: { type: Number, required: true, default: 0, min: 0 },
+        receivedQuantity: { type: Number, required: true, default: 0, min: 0 },
+        unitCost: { type: Number, required: true, default: 0, min: 0 },
+        lots: [{
+          _id: false,
+          lotId: { type: String, required: true },
+          lotNumber: { type: String, required: true },
+          quantity: { type: Number, required: true },
+          expirationDate: { type: Date }
+        }]
+      }],
+      discrepancies: [{
+        _id: false,
+        productId: { type: String, required: true },
+        sku: { type: String, required: true },
+        shipped: { type: Number, required: true },
+        received: { type: Number, required: true },
+        shortage: { type: Number, required: true },
+        reason: { type: String },
+        reportedBy: { type: String, required: true },
+        reportedAt: { type: Date, required: true }
+      }],
+      requestDelivery: { 
+        type: Boolean, 
+        required: true,
+        default: false 
+      },
+      deliveryId: { 
+        type: String,
+        index: true
+      },
+      deliveryStatus: { 
+        type: String 
+      },
+      requestedBy: { 
+        type: String, 
+        required: true 
+      },
+      approvedBy: { 
+        type: String 
+      },
+      shippedBy: { 
+        type: String 
+      },
+      receivedBy: { 
+        type: String 
+      },
+      cancellationReason: { 
+        type: String 
+      },
+      notes: { 
+        type: String 
+      },
+      approvedAt: { 
+        type: Date 
+      },
+      shippedAt: { 
+        type: Date 
+      },
+      deliveredAt: { 
+        type: Date 
+      },
+      receivedAt: { 
+        type: Date 
+      },
+      cancelledAt: { 
+        type: Date 
+      }
+    }, {
+      timestamps: true
+    });
+
+    // Define serial number schema
+    const serialNumberSchema = new Schema<ISerialNumber>({
+      serialId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      serialNumber: { 
+        type: String, 
+        required: true,
+        index: true
+      },
+      productId: { 
+        type: String, 
+        required: true 
+      },
+      sku: { 
+        type: String, 
+        required: true 
+      },
+      storeId: { 
+        type: String, 
+        required: true 
+      },
+      status: { 
+        type: String, 
+        required: true,
+        enum: ['IN_STOCK', 'RESERVED', 'SOLD', 'RETURNED', 'RMA'],
+        default: 'IN_STOCK',
+        index: true
+      },
+      condition: { 
+        type: String 
+      },
+      purchaseOrderId: { 
+        type: String 
+      },
+      supplierId: { 
+        type: String 
+      },
+      orderId: { 
+        type: String,
+        index: true
+      },
+      history: [{
+        _id: false,
+        status: { type: String, required: true },
+        at: { type: Date, required: true },
+        referenceId: { type: String },
+        performedBy: { type: String },
+        notes: { type: String }
+      }],
+      receivedAt: { 
+        type: Date, 
+        required: true 
+      },
+      soldAt: { 
+        type: Date 
+      },
+      returnedAt: { 
+        type: Date 
+      },
+      rmaAt: { 
+        type: Date 
+      }
+    }, {
+      timestamps: true
+    });
+    
+    // A serial identifies one unit of a product
+    serialNumberSchema.index({ productId: 1, serialNumber: 1 }, { unique: true });
+    serialNumberSchema.index({ productId: 1, storeId: 1, status: 1 });
+
+    // Define supplier product schema
+    const supplierProductSchema = new Schema<ISupplierProduct>({
+      supplierProductId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      supplierId: { 
+        type: String, 
+        required: true,
+        index: true
+      },
+      productId: { 
+        type: String, 
+        required: true,
+        index: true
+      },
+      sku: { 
+        type: String, 
+        required: true 
+      },
+      supplierSku: { 
+        type: String 
+      },
+      packSize: { 
+        type: Number, 
+        required: true,
+        default: 1,
+        min: 1 
+      },
+      minOrderQuantity: { 
+        type: Number, 
+        required: true,
+        default: 0,
+        min: 0 
+      },
+      leadTime: { 
+        type: Number,
+        min: 0 
+      },
+      isPreferred: { 
+        type: Boolean, 
+        required: true,
+        default: false 
+      },
+      isActive: { 
+        type: Boolean, 
+        required: true,
+        default: true 
+      },
+      prices: [{
+        _id: false,
+        caseCost: { type: Number, required: true, min: 0 },
+        effectiveFrom: { type: Date, required: true },
+        changedBy: { type: String },
+        notes: { type: String }
+      }]
+    }, {
+      timestamps: true
+    });
+    
+    // A supplier lists each product once
+    supplierProductSchema.index({ supplierId: 1, productId: 1 }, { unique: true });
+
+    // Define supplier invoice schema
+    const supplierInvoiceSchema = new Schema<ISupplierInvoice>({
+      invoiceId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      invoiceNumber: { 
+        type: String, 
+        required: true 
+      },
+      supplierId: { 
+        type: String, 
+        required: true,
+        index: true
+      },
+      purchaseOrderId: { 
+        type: String, 
+        required: true,
+        index: true
+      },
+      storeId: { 
+        type: String, 
+        required: true 
+      },
+      invoiceDate: { 
+        type: Date, 
+        required: true 
+      },
+      dueDate: { 
+        type: Date, 
+        required: true,
+        index: true
+      },
+      paymentTerms: { 
+        type: String 
+      },
+      items: [{
+        _id: false,
+        productId: { type: String, required: true },
+        sku: { type: String, required: true },
+        quantity: { type: Number, required: true, min: 0 },
+        unitPrice: { type: Number, required: true, min: 0 },
+        totalPrice: { type: Number, required: true, min: 0 }
+      }],
+      subtotal: { 
+        type: Number, 
+        required: true,
+        min: 0 
+      },
+      tax: { 
+        type: Number, 
+        required: true,
+        default: 0,
+        min: 0 
+      },
+      shipping: { 
+        type: Number, 
+        required: true,
+        default: 0,
+        min: 0 
+      },
+      total: { 
+        type: Number, 
+        required: true,
+        min: 0 
+      },
+      matchStatus: { 
+        type: String, 
+        required: true,
+        enum: ['MATCHED', 'DISCREPANCY', 'OVERRIDDEN'],
+        index: true
+      },
+      discrepancies: [{
+        _id: false,
+        productId: { type: String, required: true },
+        sku: { type: String, required: true },
+        type: { type: String, required: true, enum: ['NOT_ON_ORDER', 'QUANTITY', 'PRICE'] },
+        ordered: { type: Number, required: true },
+        received: { type: Number, required: true },
+        invoiced: { type: Number, required: true },
+        orderedPrice: { type: Number },
+        invoicedPrice: { type: Number },
+        message: { type: String, required: true }
+      }],
+      matchedAt: { 
+        type: Date 
+      },
+      overrideReason: { 
+        type: String 
+      },
+      overriddenBy: { 
+        type: String 
+      },
+      paymentStatus: { 
+        type: String, 
+        required: true,
+        enum: ['UNPAID', 'PARTIALLY_PAID', 'PAID'],
+        default: 'UNPAID' 
+      },
+      amountPaid: { 
+        type: Number, 
+        required: true,
+        default: 0,
+        min: 0 
+      },
+      payments: [{
+        _id: false,
+        paymentId: { type: String, required: true },
+        amount: { type: Number, required: true, min: 0 },
+        reference: { type: String },
+        paidAt: { type: Date, required: true },
+        performedBy: { type: String }
+      }],
+      notes: { 
+        type: String 
+      }
+    }, {
+      timestamps: true
+    });
+    
+    // A supplier's invoice number is recorded once
+    supplierInvoiceSchema.index({ supplierId: 1, invoiceNumber: 1 }, { unique: true });
+
+    // Define reservation schema
+    const reservationSchema = new Schema<IReservation>({
+      reservationId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      orderId: { 
+        type: String, 
+        required: true,
+        index: true
+      },
+      inventoryId: { 
+        type: String, 
+        required: true,
+        index: true
+      },
+      productId: { 
+        type: String, 
+        required: true 
+      },
+      sku: { 
+        type: String, 
+        required: true,
+        index: true
+      },
+      storeId: { 
+        type: String, 
+        required: true 
+      },
+      quantity: { 
+        type: Number, 
+        required: true,
+        min: 0 
+      },
+      originalQuantity: { 
+        type: Number, 
+        required: true,
+        min: 1 
+      },
+      status: { 
+        type: String, 
+        required: true,
+        enum: ['ACTIVE', 'RELEASED', 'EXPIRED', 'FULFILLED'],
+        default: 'ACTIVE' 
+      },
+      expiresAt: { 
+        type: Date 
+      },
+      renewedAt: { 
+        type: Date 
+      },
+      closedAt: { 
+        type: Date 
+      },
+      closeReason: { 
+        type: String 
+      },
+      createdBy: { 
+        type: String, 
+        required: true 
+      }
+    }, {
+      timestamps: true
+    });
+    
+    // The sweeper looks for active reservations past their expiry
+    reservationSchema.index({ status: 1, expiresAt: 1 });
+
+    // Define costing settings schema
+    const costingSettingsSchema = new Schema<ICostingSettings>({
+      storeId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      method: { 
+        type: String, 
+        required: true,
+        enum: ['FIFO', 'WEIGHTED_AVERAGE']
+      },
+      updatedBy: { 
+        type: String 
+      }
+    }, {
+      timestamps: true
+    });
+
+    // Create models
+    this.productModel = mongoose.model<IProduct>('Product', productSchema);
+    this.categoryModel = mongoose.model<ICategory>('Category', categorySchema);
+    this.inventoryModel = mongoose.model<IInventoryItem>('Inventory', inventorySchema);
+    this.transactionModel = mongoose.model<IInventoryTransaction>('InventoryTransaction', transactionSchema);
+    this.reservationModel = mongoose.model<IReservation>('Reservation', reservationSchema);
+    this.supplierModel = mongoose.model<ISupplier>('Supplier', supplierSchema);
+    this.supplierProductModel = mongoose.model<ISupplierProduct>('SupplierProduct', supplierProductSchema);
+    this.supplierInvoiceModel = mongoose.model<ISupplierInvoice>('SupplierInvoice', supplierInvoiceSchema);
+    this.purchaseOrderModel = mongoose.model<IPurchaseOrder>('PurchaseOrder', purchaseOrderSchema);
+    this.stocktakeModel = mongoose.model<IStocktake>('Stocktake', stocktakeSchema);
+    this.writeOffReasonModel = mongoose.model<IWriteOffReason>('WriteOffReason', writeOffReasonSchema);
+    this.writeOffModel = mongoose.model<IWriteOff>('WriteOff', writeOffSchema);
+    this.transferOrderModel = mongoose.model<ITransferOrder>('TransferOrder', transferOrderSchema);
+    this.serialNumberModel = mongoose.model<ISerialNumber>('SerialNumber', serialNumberSchema);
+    this.costingSettingsModel = mongoose.model<ICostingSettings>('CostingSettings', costingSettingsSchema);
+  }
+
+  /**
+   * Initialize routes for the Inventory service
+   */
+  protected async initRoutes(): Promise<void> {
+    // Product routes
+    this.app.post('/products', this.authenticate.bind(this), this.createProduct.bind(this));
+    this.app.get('/products/:id', this.authenticate.bind(this), this.getProduct.bind(this));
+    this.app.put('/products/:id', this.authenticate.bind(this), this.updateProduct.bind(this));
+    this.app.get('/products', this.authenticate.bind(this), this.searchProducts.bind(this));
+    this.app.post('/products/:id/variants', this.authenticate.bind(this), this.createProductVariants.bind(this));
+    this.app.get('/products/:id/variants', this.authenticate.bind(this), this.getProductVariants.bind(this));
+    this.app.put('/products/:id/modifiers', this.authenticate.bind(this), this.updateProductModifiers.bind(this));
+    this.app.put('/products/:id/components', this.authenticate.bind(this), this.updateKitComponents.bind(this));
+    this.app.get('/products/:id/availability', this.authenticate.bind(this), this.getKitAvailability.bind(this));
+    this.app.post('/products/:id/assemble', this.authenticate.bind(this), this.assembleKit.bind(this));
+    
+    // Category routes
+    this.app.get('/categories', this.authenticate.bind(this), this.getCategories.bind(this));
+    this.app.post('/categories', this.authenticate.bind(this), this.createCategory.bind(this));
+    this.app.get('/categories/:id', this.authenticate.bind(this), this.getCategory.bind(this));
+    this.app.put('/categories/:id', this.authenticate.bind(this), this.updateCategory.bind(this));
+    this.app.delete('/categories/:id', this.authenticate.bind(this), this.deleteCategory.bind(this));
+    this.app.post('/categories/:id/move', this.authenticate.bind(this), this.moveCategory.bind(this));
+    this.app.post('/categories/:id/merge', this.authenticate.bind(this), this.mergeCategory.bind(this));
+    
+    // Inventory costing and forecasting (registered ahead of /inventory/:id)
+    this.app.get('/inventory/valuation', this.authenticate.bind(this), this.getInventoryValuation.bind(this));
+    this.app.get('/inventory/cogs', this.authenticate.bind(this), this.getCostOfGoodsSold.bind(this));
+    this.app.get('/inventory/forecast', this.authenticate.bind(this), this.getDemandForecast.bind(this));
+    this.app.get('/stores/:storeId/costing', this.authenticate.bind(this), this.getCostingSettings.bind(this));
+    this.app.put('/stores/:storeId/costing', this.authenticate.bind(this), this.updateCostingSettings.bind(this));
+    
+    // Inventory routes
+    this.app.get('/inventory/:id', this.authenticate.bind(this), this.getInventory.bind(this));
+    this.app.get('/inventory/product/:productId', this.authenticate.bind(this), this.getProductInventory.bind(this));
+    this.app.get('/inventory/store/:storeId', this.authenticate.bind(this), this.getStoreInventory.bind(this));
+    this.app.post('/inventory/adjust', this.authenticate.bind(this), this.adjustInventory.bind(this));
+    this.app.post('/inventory/transfer', this.authenticate.bind(this), this.transferInventory.bind(this));
+    
+    // Transfer order routes
+    this.app.post('/transfer-orders', this.authenticate.bind(this), this.requestTransferOrder.bind(this));
+    this.app.get('/transfer-orders', this.authenticate.bind(this), this.getTransferOrders.bind(this));
+    this.app.get('/transfer-orders/:id', this.authenticate.bind(this), this.getTransferOrder.bind(this));
+    this.app.post('/transfer-orders/:id/approve', this.authenticate.bind(this), this.approveTransferOrder.bind(this));
+    this.app.post('/transfer-orders/:id/ship', this.authenticate.bind(this), this.shipTransferOrder.bind(this));
+    this.app.post('/transfer-orders/:id/receive', this.authenticate.bind(this), this.receiveTransferOrder.bind(this));
+    this.app.post('/transfer-orders/:id/cancel', this.authenticate.bind(this), this.cancelTransferOrder.bind(this));
+    
+    // Inventory reservation
+    this.app.post('/inventory/reserve', this.authenticate.bind(this), this.reserveInventory.bind(this));
+    this.app.post('/inventory/release', this.authenticate.bind(this), this.releaseInventory.bind(this));
+    this.app.get('/reservations', this.authenticate.bind(this), this.getReservations.bind(this));
+    this.app.get('/reservations/:id', this.authenticate.bind(this), this.getReservation.bind(this));
+    this.app.post('/reservations/:id/release', this.authenticate.bind(this), this.releaseReservation.bind(this));
+    
+    // Inventory transactions
+    this.app.get('/transactions', this.authenticate.bind(this), this.getTransactions.bind(this));
+    this.app.get('/transactions/:id', this.authenticate.bind(this), this.getTransaction.bind(this));
+    this.app.get('/transactions/product/:productId', this.authenticate.bind(this), this.getProductTransactions.bind(this));
+    
+    // Supplier routes
+    this.app.post('/suppliers', this.authenticate.bind(this), this.createSupplier.bind(this));
+    this.app.get('/suppliers/:id', this.authenticate.bind(this), this.getSupplier.bind(this));
+    this.app.put('/suppliers/:id', this.authenticate.bind(this), this.updateSupplier.bind(this));
+    this.app.get('/suppliers', this.authenticate.bind(this), this.getSuppliers.bind(this));
+    this.app.post('/suppliers/:id/products', this.authenticate.bind(this), this.addSupplierProduct.bind(this));
+    this.app.get('/suppliers/:id/products', this.authenticate.bind(this), this.getSupplierProducts.bind(this));
+    this.app.get('/suppliers/:id/products/:productId', this.authenticate.bind(this), this.getSupplierProduct.bind(this));
+    this.app.put('/suppliers/:id/products/:productId', this.authenticate.bind(this), this.updateSupplierProduct.bind(this));
+    this.app.get('/products/:id/suppliers', this.authenticate.bind(this), this.compareSuppliers.bind(this));
+    
+    // Purchase order routes
+    this.app.post('/purchase-orders', this.authenticate.bind(this), this.createPurchaseOrder.bind(this));
+    this.app.get('/purchase-orders/:id', this.authenticate.bind(this), this.getPurchaseOrder.bind(this));
+    this.app.put('/purchase-orders/:id', this.authenticate.bind(this), this.updatePurchaseOrder.bind(this));
+    this.app.post('/purchase-orders/:id/submit', this.authenticate.bind(this), this.submitPurchaseOrder.bind(this));
+    this.app.post('/purchase-orders/:id/receive', this.authenticate.bind(this), this.receivePurchaseOrder.bind(this));
+    this.app.post('/purchase-orders/:id/cancel', this.authenticate.bind(this), this.cancelPurchaseOrder.bind(this));
+    this.app.get('/purchase-orders', this.authenticate.bind(this), this.getPurchaseOrders.bind(this));
+    this.app.post('/purchase-orders/:id/invoices', this.authenticate.bind(this), this.recordSupplierInvoice.bind(this));
+    
+    // Supplier invoice and accounts payable routes
+    this.app.get('/supplier-invoices', this.authenticate.bind(this), this.getSupplierInvoices.bind(this));
+    this.app.get('/supplier-invoices/:id', this.authenticate.bind(this), this.getSupplierInvoice.bind(this));
+    this.app.post('/supplier-invoices/:id/match', this.authenticate.bind(this), this.rematchSupplierInvoice.bind(this));
+    this.app.post('/supplier-invoices/:id/override', this.authenticate.bind(this), this.overrideInvoiceMatch.bind(this));
+    this.app.post('/supplier-invoices/:id/payments', this.authenticate.bind(this), this.recordInvoicePayment.bind(this));
+    this.app.get('/accounts-payable/aging', this.authenticate.bind(this), this.getPayablesAging.bind(this));
+    
+    // Stocktake routes
+    this.app.post('/stocktakes', this.authenticate.bind(this), this.startStocktake.bind(this));
+    this.app.get('/stocktakes', this.authenticate.bind(this), this.getStocktakes.bind(this));
+    this.app.get('/stocktakes/:id', this.authenticate.bind(this), this.getStocktake.bind(this));
+    this.app.post('/stocktakes/:id/counts', this.authenticate.bind(this), this.recordStocktakeCounts.bind(this));
+    this.app.get('/stocktakes/:id/variances', this.authenticate.bind(this), this.getStocktakeVariances.bind(this));
+    this.app.post('/stocktakes/:id/submit', this.authenticate.bind(this), this.submitStocktake.bind(this));
+    this.app.post('/stocktakes/:id/approve', this.authenticate.bind(this), this.approveStocktake.bind(this));
+    this.app.post('/stocktakes/:id/post', this.authenticate.bind(this), this.postStocktake.bind(this));
+    this.app.post('/stocktakes/:id/cancel', this.authenticate.bind(this), this.cancelStocktake.bind(this));
+    
+    // Write-off routes
+    this.app.get('/write-off-reasons', this.authenticate.bind(this), this.getWriteOffReasons.bind(this));
+    this.app.post('/write-off-reasons', this.authenticate.bind(this), this.createWriteOffReason.bind(this));
+    this.app.put('/write-off-reasons/:code', this.authenticate.bind(this), this.updateWriteOffReason.bind(this));
+    this.app.post('/write-offs', this.authenticate.bind(this), this.createWriteOff.bind(this));
+    this.app.get('/write-offs', this.authenticate.bind(this), this.getWriteOffs.bind(this));
+    this.app.get('/write-offs/summary', this.authenticate.bind(this), this.getShrinkageSummary.bind(this));
+    this.app.get('/write-offs/:id', this.authenticate.bind(this), this.getWriteOff.bind(this));
+    this.app.post('/write-offs/:id/approve', this.authenticate.bind(this), this.approveWriteOff.bind(this));
+    this.app.post('/write-offs/:id/reject', this.authenticate.bind(this), this.rejectWriteOff.bind(this));
+    
+    // Serial number routes
+    this.app.get('/serials', this.authenticate.bind(this), this.searchSerialNumbers.bind(this));
+    this.app.post('/serials/validate', this.authenticate.bind(this), this.validateSerialNumbers.bind(this));
+    this.app.get('/serials/:serialNumber', this.authenticate.bind(this), this.getSerialNumber.bind(this));
+    this.app.post('/serials/:serialNumber/rma', this.authenticate.bind(this), this.returnSerialToSupplier.bind(this));
+    
+    // Low stock and expiry alerts
+    this.app.get('/inventory/alerts/low-stock', this.authenticate.bind(this), this.getLowStockAlerts.bind(this));
+    this.app.get('/inventory/alerts/expiring', this.authenticate.bind(this), this.getExpiringLotAlerts.bind(this));
+    
+    // Replenishment
+    this.app.get('/replenishment/suggestions', this.authenticate.bind(this), this.getReplenishmentSuggestions.bind(this));
+    this.app.post('/replenishment/run', this.authenticate.bind(this), this.runReplenishment.bind(this));
+    
+    // Lot recall lookup
+    this.app.get('/lots/:lotNumber/orders', this.authenticate.bind(this), this.getLotOrders.bind(this));
+  }
+
+  /**
+   * Initialize message bus handlers
+   */
+  private async initMessageHandlers(): Promise<void> {
+    await this.messageBus.connect();
+    
+    // Create exchanges
+    await this.messageBus.createExchange('inventory', 'topic');
+    
+    // Create queues
+    await this.messageBus.createQueue('inventory.order.events', 'order', 'order.#');
+    await this.messageBus.createQueue('inventory.payment.events', 'payment', 'payment.completed');
+    await this.messageBus.createQueue('inventory.delivery.events', 'delivery', 'delivery.#');
+    
+    // Listen for order events
+    await this.messageBus.subscribe('inventory.order.events', async (content, msg) => {
+      this.logger.info(`Received order event: ${msg.fields.routingKey}`, { content });
+      
+      // Handle specific events
+      switch (msg.fields.routingKey) {
+        case 'order.confirmed':
+          await this.handleOrderConfirmed(content);
+          break;
+        case 'order.cancelled':
+          await this.handleOrderCancelled(content);
+          break;
+        case 'order.return.approved':
+          await this.handleReturnApproved(content);
+          break;
+        case 'order.held':
+          await this.handleOrderHeld(content);
+          break;
+        case 'order.recalled':
+        case 'order.hold.expired':
+          await this.handleOrderHoldReleased(content, msg.fields.routingKey);
+          break;
+        case 'order.updated':
+        case 'order.status.processing':
+          await this.renewReservations(content.orderId);
+          break;
+      }
+    });
+    
+    // Listen for payment events
+    await this.messageBus.subscribe('inventory.payment.events', async (content, msg) => {
+      this.logger.info(`Received payment event: ${msg.fields.routingKey}`, { content });
+      
+      switch (msg.fields.routingKey) {
+        case 'payment.completed':
+          await this.handlePaymentCompleted(content);
+          break;
+      }
+    });
+    
+    // Listen for delivery events on transfer orders' shipments
+    await this.messageBus.subscribe('inventory.delivery.events', async (content, msg) => {
+      this.logger.info(`Received delivery event: ${msg.fields.routingKey}`, { content });
+      
+      switch (msg.fields.routingKey) {
+        case 'delivery.created':
+        case 'delivery.started':
+        case 'delivery.completed':
+        case 'delivery.cancelled':
+          await this.handleTransferDeliveryEvent(content, msg.fields.routingKey);
+          break;
+      }
+    });
+  }
+
+  /**
+   * Basic JWT authentication middleware
+   * In a real implementation, this would validate against the Auth service
+   */
+  private authenticate(req: Request, res: Response, next: Function): void {
+    // This is a simplified version that assumes the API Gateway has already
+    // performed authentication. In a real implementation, this would
+    // validate the JWT token and set user info
+    
+    // Simulate authenticated user for demo purposes
+    (req as any).user = {
+      userId: 'user123',
+      roles: ['user']
+    };
+    
+    next();
+  }
+
+  /**
+   * Create a new product
+   */
+  private async createProduct(req: Request, res: Response): Promise<void> {
+    try {
+      const { 
+        sku, 
+        name, 
+        description, 
+        category, 
+        categoryId, 
+        price, 
+        costPrice, 
+        taxRate = 0, 
+        taxClass, 
+        barcode, 
+        images = [], 
+        attributes = {},
+        variantOptions = [],
+        variants = [],
+        kitComponents = [],
+        isSerialized = false,
+        preferredSupplierId
+      } = req.body;
+      
+      // Validate required fields
+      if (!sku || !name || !description || (!category && !categoryId) || price === undefined || costPrice === undefined) {
+        res.status(400).json({ message: 'Missing required product fields' });
+        return;
+      }
+      
+      const resolvedCategory = await this.resolveProductCategory(category, categoryId);
+      
+      if ('error' in resolvedCategory) {
+        res.status(400).json({ message: resolvedCategory.error });
+        return;
+      }
+      
+      const categoryDefaults = await this.getCategoryDefaults(resolvedCategory.categoryId);
+      
+      const optionsError = this.validateVariantOptions(variantOptions);
+      
+      if (optionsError) {
+        res.status(400).json({ message: optionsError });
+        return;
+      }
+      
+      if (variantOptions.length > 0 && kitComponents.length > 0) {
+        res.status(400).json({ message: 'A product cannot be both a kit and a variant parent' });
+        return;
+      }
+      
+      const kit = await this.resolveKitComponents(kitComponents);
+      
+      if ('error' in kit) {
+        res.status(400).json({ message: kit.error });
+        return;
+      }
+      
+      // Check if product with SKU already exists
+      const existingProduct = await this.productModel.findOne({ sku });
+      
+      if (existingProduct) {
+        res.status(409).json({ message: `Product with SKU ${sku} already exists` });
+        return;
+      }
+      
+      // Create product
+      const productId = uuidv4();
+      const product = new this.productModel({
+        productId,
+        sku,
+        name,
+        description,
+        category: resolvedCategory.category,
+        categoryId: resolvedCategory.categoryId,
+        price,
+        costPrice,
+        taxRate,
+        taxClass: taxClass || categoryDefaults.taxClass,
+        barcode,
+        images,
+        attributes,
+        variantOptions,
+        kitComponents: kit.components,
+        isSerialized,
+        preferredSupplierId,
+        isActive: true
+      });
+      
+      // A parent product is sold through its variants, which hold the stock
+      const isParent = variantOptions.length > 0;
+      const matrix = isParent ? this.buildVariantMatrix(variantOptions, variants) : [];
+      
+      if (isParent) {
+        const conflicts = await this.findSkuConflicts(product, matrix);
+        
+        if (conflicts.length > 0) {
+          res.status(409).json({ message: 'Variant SKUs already exist', skus: conflicts });
+          return;
+        }
+      }
+      
+      await product.save();
+      
+      // Kits are sold from component stock; a kit row only appears once kits are pre-assembled
+      if (!isParent && kit.components.length === 0) {
+        await this.createDefaultInventory(productId, sku, categoryDefaults);
+      }
+      
+      const createdVariants = isParent ? await this.createVariants(product, matrix) : [];
+      
+      // Publish product created event
+      await this.messageBus.publish('inventory', 'product.created', {
+        productId,
+        sku,
+        name,
+        price,
+        category: product.category,
+        categoryId: product.categoryId,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(201).json({
+        productId: product.productId,
+        sku: product.sku,
+        name: product.name,
+        price: product.price,
+        category: product.category,
+        categoryId: product.categoryId,
+        taxClass: product.taxClass,
+        isActive: product.isActive,
+        variantOptions: isParent ? product.variantOptions : undefined,
+        variants: isParent ? createdVariants.map(variant => this.formatVariant(variant)) : undefined,
+        kitComponents: kit.components.length > 0 ? kit.components : undefined,
+        createdAt: product.createdAt
+      });
+    } catch (error: any) {
+      this.logger.error(`Product creation error: ${error}`);
+      res.status(500).json({ message: 'Failed to create product', error: error.message });
+    }
+  }
+
+  /**
+   * Get product by ID
+   */
+  private async getProduct(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      // Find by productId, SKU, or MongoDB ID
+      const product = await this.productModel.findOne({
+        $or: [
+          { productId: id },
+          { sku: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!product) {
+        res.status(404).json({ message: 'Product not found' });
+        return;
+      }
+      
+      const variants = product.variantOptions.length > 0
+        ? await this.productModel.find({ parentProductId: product.productId }).sort({ sku: 1 })
+        : [];
+      
+      res.status(200).json({
+        productId: product.productId,
+        sku: product.sku,
+        name: product.name,
+        description: product.description,
+        category: product.category,
+        categoryId: product.categoryId,
+        price: product.price,
+        costPrice: product.costPrice,
+        taxRate: product.taxRate,
+        taxClass: product.taxClass,
+        barcode: product.barcode,
+        images: product.images,
+        attributes: product.attributes,
+        parentProductId: product.parentProductId,
+        optionValues: product.optionValues,
+        variantOptions: product.variantOptions.length > 0 ? product.variantOptions : undefined,
+        variants: variants.length > 0 ? variants.map(variant => this.formatVariant(variant)) : undefined,
+        modifierGroups: product.modifierGroups,
+        kitComponents: product.kitComponents.length > 0 ? product.kitComponents : undefined,
+        isSerialized: product.isSerialized,
+        preferredSupplierId: product.preferredSupplierId,
+        isActive: product.isActive,
+        createdAt: product.createdAt,
+        updatedAt: product.updatedAt
+      });
+    } catch (error) {
+      this.logger.error(`Get product error: ${error}`);
+      res.status(500).json({ message: 'Failed to get product' });
+    }
+  }
+
+  /**
+   * Update a product
+   */
+  private async updateProduct(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { 
+        name, 
+        description, 
+        category, 
+        categoryId, 
+        price, 
+        costPrice, 
+        taxRate, 
+        taxClass, 
+        barcode, 
+        images, 
+        attributes, 
+        isSerialized,
+        preferredSupplierId,
+        isActive 
+      } = req.body;
+      
+      // Find product
+      const product = await this.productModel.findOne({
+        $or: [
+          { productId: id },
+          { sku: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!product) {
+        res.status(404).json({ message: 'Product not found' });
+        return;
+      }
+      
+      if (category !== undefined || categoryId !== undefined) {
+        const resolvedCategory = await this.resolveProductCategory(category, categoryId);
+        
+        if ('error' in resolvedCategory) {
+          res.status(400).json({ message: resolvedCategory.error });
+          return;
+        }
+        
+        product.category = resolvedCategory.category;
+        product.categoryId = resolvedCategory.categoryId;
+      }
+      
+      // Update fields if provided
+      if (name !== undefined) product.name = name;
+      if (description !== undefined) product.description = description;
+      if (price !== undefined) product.price = price;
+      if (costPrice !== undefined) product.costPrice = costPrice;
+      if (taxRate !== undefined) product.taxRate = taxRate;
+      if (taxClass !== undefined) product.taxClass = taxClass || undefined;
+      if (barcode !== undefined) product.barcode = barcode;
+      if (images !== undefined) product.images = images;
+      if (attributes !== undefined) product.attributes = { ...product.attributes, ...attributes };
+      if (isSerialized !== undefined) product.isSerialized = isSerialized;
+      if (preferredSupplierId !== undefined) product.preferredSupplierId = preferredSupplierId || undefined;
+      if (isActive !== undefined) product.isActive = isActive;
+      
+      await product.save();
+      
+      // Publish product updated event
+      await this.messageBus.publish('inventory', 'product.updated', {
+        productId: product.productId,
+        sku: product.sku,
+        name: product.name,
+        price: product.price,
+        category: product.category,
+        categoryId: product.categoryId,
+        isActive: product.isActive,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(200).json({
+        productId: product.productId,
+        sku: product.sku,
+        name: product.name,
+        description: product.description,
+        category: product.category,
+        categoryId: product.categoryId,
+        price: product.price,
+        costPrice: product.costPrice,
+        taxRate: product.taxRate,
+        taxClass: product.taxClass,
+        barcode: product.barcode,
+        images: product.images,
+        attributes: product.attributes,
+        isSerialized: product.isSerialized,
+        preferredSupplierId: product.preferredSupplierId,
+        isActive: product.isActive,
+        updatedAt: product.updatedAt
+      });
+    } catch (error) {
+      this.logger.error(`Update product error: ${error}`);
+      res.status(500).json({ message: 'Failed to update product' });
+    }
+  }
+
+  /**
+   * Search products
+   */
+  private async searchProducts(req: Request, res: Response): Promise<void> {
+    try {
+      const { 
+        query, 
+        category, 
+        includeSubcategories = 'true', 
+        minPrice, 
+        maxPrice, 
+        isActive, 
+        page = 1, 
+        limit = 10, 
+        sortBy = 'name', 
+        sortOrder = 'asc',
+        groupVariants = 'true'
+      } = req.query;
+      
+      // Build query
+      const searchQuery: any = {};
+      
+      if (query) {
+        searchQuery.$text = { $search: query as string };
+      }
+      
+      // A tree category matches its subcategories' products too
+      if (category) {
+        searchQuery.category = { 
+          $in: await this.getCategoryPaths(category as string, includeSubcategories !== 'false') 
+        };
+      }
+      
+      if (minPrice !== undefined || maxPrice !== undefined) {
+        searchQuery.price = {};
+        if (minPrice !== undefined) {
+          searchQuery.price.$gte = parseFloat(minPrice as string);
+        }
+        if (maxPrice !== undefined) {
+          searchQuery.price.$lte = parseFloat(maxPrice as string);
+        }
+      }
+      
+      if (isActive !== undefined) {
+        searchQuery.isActive = isActive === 'true';
+      }
+      
+      // Group variants under their parent: a matching variant lists its parent instead
+      let listQuery = searchQuery;
+      
+      if (groupVariants !== 'false') {
+        const matchedParentIds = await this.productModel.distinct('parentProductId', {
+          ...searchQuery,
+          parentProductId: { $nin: [null, ''] }
+        });
+        
+        listQuery = { 
+          $or: [
+            { ...searchQuery, parentProductId: { $in: [null, ''] } },
+            { productId: { $in: matchedParentIds } }
+          ]
+        };
+      }
+      
+      // Parse pagination
+      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+      
+      // Build sort
+      const sort: any = {};
+      sort[sortBy as string] = sortOrder === 'asc' ? 1 : -1;
+      
+      // Get products
+      const products = await this.productModel
+        .find(listQuery)
+        .sort(sort)
+        .skip(skip)
+        .limit(parseInt(limit as string));
+      
+      // Get total count
+      const total = await this.productModel.countDocuments(listQuery);
+      
+      // Get the variants of the parents on this page, capped per parent
+      const parentIds = products.filter(p => p.variantOptions.length > 0).map(p => p.productId);
+      const variantGroups: { _id: string; variants: IProduct[]; count: number; minPrice: number; maxPrice: number }[] = parentIds.length > 0
+        ? await this.productModel.aggregate([
+          { $match: { parentProductId: { $in: parentIds } } },
+          { $sort: { sku: 1 } },
+          { 
+            $group: { 
+              _id: '$parentProductId',
+              variants: { 
+                $push: { 
+                  productId: '$productId',
+                  sku: '$sku',
+                  name: '$name',
+                  optionValues: '$optionValues',
+                  price: '$price',
+                  barcode: '$barcode',
+                  isActive: '$isActive'
+                } 
+              },
+              count: { $sum: 1 },
+              minPrice: { $min: '$price' },
+              maxPrice: { $max: '$price' }
+            } 
+          },
+          { $project: { variants: { $slice: ['$variants', LISTING_VARIANT_LIMIT] }, count: 1, minPrice: 1, maxPrice: 1 } }
+        ])
+        : [];
+      const variantMap = new Map(variantGroups.map(group => [group._id, group]));
+      const variants = variantGroups.flatMap(group => group.variants);
+      
+      // Get inventory for found products and their variants
+      const productIds = [...products, ...variants].map(p => p.productId);
+      const inventories = await this.inventoryModel.find({
+        productId: { $in: productIds }
+      });
+      
+      // Create a map of productId to inventory
+      const inventoryMap = inventories.reduce((map, inv) => {
+        if (!map[inv.productId]) {
+          map[inv.productId] = [];
+        }
+        map[inv.productId].push({
+          storeId: inv.storeId,
+          quantity: inv.quantity,
+          reservedQuantity: inv.reservedQuantity
+        });
+        return map;
+      }, {} as Record<string, any[]>);
+      
+      res.status(200).json({
+        products: products.map(product => {
+          const variantGroup = variantMap.get(product.productId);
+          const productVariants = variantGroup ? variantGroup.variants : [];
+          
+          return {
+            productId: product.productId,
+            sku: product.sku,
+            name: product.name,
+            category: product.category,
+            categoryId: product.categoryId,
+            price: product.price,
+            isActive: product.isActive,
+            parentProductId: product.parentProductId,
+            optionValues: product.optionValues,
+            inventory: inventoryMap[product.productId] || [],
+            variantOptions: product.variantOptions.length > 0 ? product.variantOptions : undefined,
+            priceRange: variantGroup ? { min: variantGroup.minPrice, max: variantGroup.maxPrice } : undefined,
+            variantCount: product.variantOptions.length > 0 ? (variantGroup ? variantGroup.count : 0) : undefined,
+            variants: product.variantOptions.length > 0
+              ? productVariants.map(variant => ({
+                ...this.formatVariant(variant),
+                inventory: inventoryMap[variant.productId] || []
+              }))
+              : undefined
+          };
+        }),
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total,
+          pages: Math.ceil(total / parseInt(limit as string))
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Search products error: ${error}`);
+      res.status(500).json({ message: 'Failed to search products' });
+    }
+  }
+
+  /**
+   * List the category tree, or every category flat with ?flat=true
+   */
+  private async getCategories(req: Request, res: Response): Promise<void> {
+    try {
+      const { flat, includeInactive } = req.query;
+      
+      const categories = await this.categoryModel
+        .find(includeInactive === 'true' ? {} : { isActive: true })
+        .sort({ path: 1 });
+      const productCounts = await this.getCategoryProductCounts();
+      
+      const nodes: Record<string, any>[] = categories.map(category => ({
+        ...this.formatCategory(category),
+        productCount: productCounts.direct.get(category.path) || 0,
+        totalProductCount: productCounts.total.get(category.path) || 0
+      }));
+      
+      if (flat === 'true') {
+        res.status(200).json({ categories: nodes });
+        return;
+      }
+      
+      // Nest children under their parents; sorting by path puts parents first
+      const byId = new Map<string, any>();
+      const roots: any[] = [];
+      
+      for (const node of nodes) {
+        const treeNode = { ...node, children: [] };
+        byId.set(node.categoryId, treeNode);
+        
+        const parent = node.parentId ? byId.get(node.parentId) : undefined;
+        
+        if (parent) {
+          parent.children.push(treeNode);
+        } else {
+          roots.push(treeNode);
+        }
+      }
+      
+      res.status(200).json({ categories: roots });
+    } catch (error) {
+      this.logger.error(`Get categories error: ${error}`);
+      res.status(500).json({ message: 'Failed to get categories' });
+    }
+  }
+
+  /**
+   * Create a category, at the top level or under a parent
+   */
+  private async createCategory(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, parentId, defaults = {} } = req.body;
+      
+      const nameError = this.validateCategoryName(name);
+      
+      if (nameError) {
+        res.status(400).json({ message: nameError });
+        return;
+      }
+      
+      let parent: ICategory | null = null;
+      
+      if (parentId) {
+        parent = await this.categoryModel.findOne({ categoryId: parentId });
+        
+        if (!parent) {
+          res.status(404).json({ message: 'Parent category not found' });
+          return;
+        }
+      }
+      
+      const path = parent ? `${parent.path}${CATEGORY_PATH_SEPARATOR}${name.trim()}` : name.trim();
+      const existing = await this.categoryModel.findOne({ path });
+      
+      if (existing) {
+        res.status(409).json({ message: `Category ${path} already exists` });
+        return;
+      }
+      
+      const category = new this.categoryModel({
+        categoryId: uuidv4(),
+        name: name.trim(),
+        parentId: parent?.categoryId,
+        ancestorIds: parent ? [...parent.ancestorIds, parent.categoryId] : [],
+        path,
+        depth: parent ? parent.depth + 1 : 0,
+        defaults,
+        isActive: true
+      });
+      
+      await category.save();
+      
+      // Link products already filed under this path as plain text
+      await this.productModel.updateMany({ category: path }, { $set: { categoryId: category.categoryId } });
+      
+      res.status(201).json(this.formatCategory(category));
+    } catch (error) {
+      this.logger.error(`Create category error: ${error}`);
+      res.status(500).json({ message: 'Failed to create category' });
+    }
+  }
+
+  /**
+   * Get a category with its ancestors, children and effective defaults
+   */
+  private async getCategory(req: Request, res: Response): Promise<void> {
+    try {
+      const category = await this.categoryModel.findOne({ categoryId: req.params.id });
+      
+      if (!category) {
+        res.status(404).json({ message: 'Category not found' });
+        return;
+      }
+      
+      const ancestors = await this.categoryModel.find({ categoryId: { $in: category.ancestorIds } }).sort({ depth: 1 });
+      const children = await this.categoryModel.find({ parentId: category.categoryId }).sort({ name: 1 });
+      const paths = await this.getCategoryPaths(category.categoryId);
+      
+      res.status(200).json({
+        ...this.formatCategory(category),
+        ancestors: ancestors.map(ancestor => ({ categoryId: ancestor.categoryId, name: ancestor.name, path: ancestor.path })),
+        children: children.map(child => this.formatCategory(child)),
+        effectiveDefaults: await this.getCategoryDefaults(category.categoryId),
+        productCount: await this.productModel.countDocuments({ category: category.path, parentProductId: { $exists: false } }),
+        totalProductCount: await this.productModel.countDocuments({ category: { $in: paths }, parentProductId: { $exists: false } })
+      });
+    } catch (error) {
+      this.logger.error(`Get category error: ${error}`);
+      res.status(500).json({ message: 'Failed to get category' });
+    }
+  }
+
+  /**
+   * Rename a category or change its defaults; renaming repaths its subcategories and products
+   */
+  private async updateCategory(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, defaults, isActive } = req.body;
+      
+      const category = await this.categoryModel.findOne({ categoryId: req.params.id });
+      
+      if (!category) {
+        res.status(404).json({ message: 'Category not found' });
+        return;
+      }
+      
+      let productsUpdated = 0;
+      
+      if (name !== undefined && name.trim() !== category.name) {
+        const nameError = this.validateCategoryName(name);
+        
+        if (nameError) {
+          res.status(400).json({ message: nameError });
+          return;
+        }
+        
+        const parent = category.parentId ? await this.categoryModel.findOne({ categoryId: category.parentId }) : null;
+        const path = parent ? `${parent.path}${CATEGORY_PATH_SEPARATOR}${name.trim()}` : name.trim();
+        
+        if (await this.categoryModel.findOne({ path })) {
+          res.status(409).json({ message: `Category ${path} already exists` });
+          return;
+        }
+        
+        category.name = name.trim();
+        productsUpdated = await this.repathCategory(category, parent);
+      }
+      
+      // A null default is cleared, so the category inherits it from its parent again
+      if (defaults !== undefined) {
+        if (defaults.taxClass !== undefined) category.defaults.taxClass = defaults.taxClass || undefined;
+        if (defaults.reorderPoint !== undefined) category.defaults.reorderPoint = defaults.reorderPoint ?? undefined;
+        if (defaults.reorderQuantity !== undefined) category.defaults.reorderQuantity = defaults.reorderQuantity ?? undefined;
+      }
+      if (isActive !== undefined) category.isActive = isActive;
+      
+      await category.save();
+      
+      if (productsUpdated > 0) {
+        await this.publishCategoryChanged(category, productsUpdated);
+      }
+      
+      res.status(200).json({ ...this.formatCategory(category), productsUpdated });
+    } catch (error) {
+      this.logger.error(`Update category error: ${error}`);
+      res.status(500).json({ message: 'Failed to update category' });
+    }
+  }
+
+  /**
+   * Delete an empty category
+   */
+  private async deleteCategory(req: Request, res: Response): Promise<void> {
+    try {
+      const category = await this.categoryModel.findOne({ categoryId: req.params.id });
+      
+      if (!category) {
+        res.status(404).json({ message: 'Category not found' });
+        return;
+      }
+      
+      if (await this.categoryModel.exists({ parentId: category.categoryId })) {
+        res.status(409).json({ message: 'Move or delete the subcategories first' });
+        return;
+      }
+      
+      const productCount = await this.productModel.countDocuments({ category: category.path });
+      
+      if (productCount > 0) {
+        res.status(409).json({ message: `${productCount} products are in this category; move them or merge the category instead` });
+        return;
+      }
+      
+      await category.deleteOne();
+      
+      res.status(200).json({ message: 'Category deleted', categoryId: category.categoryId });
+    } catch (error) {
+      this.logger.error(`Delete category error: ${error}`);
+      res.status(500).json({ message: 'Failed to delete category' });
+    }
+  }
+
+  /**
+   * Move a category, with its subcategories and products, under another parent (or to the top level)
+   */
+  private async moveCategory(req: Request, res: Response): Promise<void> {
+    try {
+      const { parentId } = req.body;
+      
+      const category = await this.categoryModel.findOne({ categoryId: req.params.id });
+      
+      if (!category) {
+        res.status(404).json({ message: 'Category not found' });
+        return;
+      }
+      
+      let parent: ICategory | null = null;
+      
+      if (parentId) {
+        parent = await this.categoryModel.findOne({ categoryId: parentId });
+        
+        if (!parent) {
+          res.status(404).json({ message: 'Parent category not found' });
+          return;
+        }
+        
+        if (parent.categoryId === category.categoryId || parent.ancestorIds.includes(category.categoryId)) {
+          res.status(400).json({ message: 'A category cannot be moved under itself or one of its subcategories' });
+          return;
+        }
+      }
+      
+      const path = parent ? `${parent.path}${CATEGORY_PATH_SEPARATOR}${category.name}` : category.name;
+      
+      if (path === category.path) {
+        res.status(200).json({ ...this.formatCategory(category), productsUpdated: 0 });
+        return;
+      }
+      
+      if (await this.categoryModel.findOne({ path })) {
+        res.status(409).json({ message: `Category ${path} already exists; merge the categories instead` });
+        return;
+      }
+      
+      const productsUpdated = await this.repathCategory(category, parent);
+      await category.save();
+      
+      await this.publishCategoryChanged(category, productsUpdated);
+      
+      res.status(200).json({ ...this.formatCategory(category), productsUpdated });
+    } catch (error) {
+      this.logger.error(`Move category error: ${error}`);
+      res.status(500).json({ message: 'Failed to move category' });
+    }
+  }
+
+  /**
+   * Merge a category into another: its products and subcategories move to the target, and
+   * subcategories with the same name as one of the target's are merged in turn
+   */
+  private async mergeCategory(req: Request, res: Response): Promise<void> {
+    try {
+      const { targetId } = req.body;
+      
+      if (!targetId) {
+        res.status(400).json({ message: 'Target category ID is required' });
+        return;
+      }
+      
+      const source = await this.categoryModel.findOne({ categoryId: req.params.id });
+      const target = await this.categoryModel.findOne({ categoryId: targetId });
+      
+      if (!source || !target) {
+        res.status(404).json({ message: 'Category not found' });
+        return;
+      }
+      
+      if (target.categoryId === source.categoryId || target.ancestorIds.includes(source.categoryId)) {
+        res.status(400).json({ message: 'A category cannot be merged into itself or one of its subcategories' });
+        return;
+      }
+      
+      const productsUpdated = await this.mergeCategoryInto(source, target);
+      
+      await this.publishCategoryChanged(target, productsUpdated);
+      
+      res.status(200).json({ 
+        ...this.formatCategory(target), 
+        mergedCategoryId: source.categoryId, 
+        productsUpdated 
+      });
+    } catch (error) {
+      this.logger.error(`Merge category error: ${error}`);
+      res.status(500).json({ message: 'Failed to merge category' });
+    }
+  }
+
+  /**
+   * Add variants to a parent product, generating the full option matrix when options are given
+   */
+  private async createProductVariants(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { options, variants = [] } = req.body;
+      
+      const parent = await this.productModel.findOne({
+        $or: [
+          { productId: id },
+          { sku: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!parent) {
+        res.status(404).json({ message: 'Product not found' });
+        return;
+      }
+      
+      if (parent.parentProductId) {
+        res.status(400).json({ message: 'Variants cannot have variants of their own' });
+        return;
+      }
+      
+      if (!options && variants.length === 0) {
+        res.status(400).json({ message: 'Options or variants are required' });
+        return;
+      }
+      
+      const variantOptions: IVariantOption[] = parent.variantOptions.map(option => ({
+        name: option.name,
+        values: [...option.values]
+      }));
+      
+      // Merge new option values into the parent's dimensions
+      if (options) {
+        const optionsError = this.validateVariantOptions(options);
+        
+        if (optionsError) {
+          res.status(400).json({ message: optionsError });
+          return;
+        }
+        
+        for (const option of options as IVariantOption[]) {
+          const existing = variantOptions.find(current => current.name === option.name);
+          
+          if (existing) {
+            existing.values.push(...option.values.filter(value => !existing.values.includes(value)));
+          } else if (variantOptions.length > 0 && await this.productModel.exists({ parentProductId: parent.productId })) {
+            res.status(400).json({ message: `Cannot add option ${option.name} to a product that already has variants` });
+            return;
+          } else {
+            variantOptions.push({ name: option.name, values: [...option.values] });
+          }
+        }
+      }
+      
+      if (variantOptions.length === 0) {
+        res.status(400).json({ message: 'Product has no variant options' });
+        return;
+      }
+      
+      // Explicit variants must use the parent's option values
+      for (const variant of variants as IVariantInput[]) {
+        const valid = variant.optionValues
+          && Object.keys(variant.optionValues).length === variantOptions.length
+          && variantOptions.every(option => option.values.includes(variant.optionValues[option.name]));
+        
+        if (!valid) {
+          res.status(400).json({ 
+            message: `Each variant needs one value for each option: ${variantOptions.map(option => option.name).join(', ')}` 
+          });
+          return;
+        }
+      }
+      
+      parent.variantOptions = variantOptions;
+      
+      // Generate every combination when options were given, else only the listed variants
+      const requested = options
+        ? this.buildVariantMatrix(variantOptions, variants)
+        : (variants as IVariantInput[]).map(variant => ({ ...variant, variantKey: this.getVariantKey(variantOptions, variant.optionValues) }));
+      
+      const existingKeys = new Set(
+        (await this.productModel.find({ parentProductId: parent.productId }).select('variantKey').lean())
+          .map(variant => variant.variantKey)
+      );
+      const toCreate = requested.filter(variant => !existingKeys.has(variant.variantKey));
+      
+      const conflicts = await this.findSkuConflicts(parent, toCreate);
+      
+      if (conflicts.length > 0) {
+        res.status(409).json({ message: 'Variant SKUs already exist', skus: conflicts });
+        return;
+      }
+      
+      await parent.save();
+      
+      const created = await this.createVariants(parent, toCreate);
+      
+      res.status(201).json({
+        productId: parent.productId,
+        variantOptions: parent.variantOptions,
+        created: created.map(variant => this.formatVariant(variant)),
+        skipped: requested.length - toCreate.length
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        res.status(409).json({ message: 'A variant with these options or SKU already exists' });
+        return;
+      }
+      
+      this.logger.error(`Create product variants error: ${error}`);
+      res.status(500).json({ message: 'Failed to create product variants', error: error.message });
+    }
+  }
+
+  /**
+   * Get the variants of a parent product with their inventory
+   */
+  private async getProductVariants(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      const parent = await this.productModel.findOne({
+        $or: [
+          { productId: id },
+          { sku: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!parent) {
+        res.status(404).json({ message: 'Product not found' });
+        return;
+      }
+      
+      const variants = await this.productModel.find({ parentProductId: parent.productId }).sort({ sku: 1 });
+      const inventories = await this.inventoryModel.find({
+        productId: { $in: variants.map(variant => variant.productId) }
+      });
+      
+      res.status(200).json({
+        productId: parent.productId,
+        variantOptions: parent.variantOptions,
+        variants: variants.map(variant => ({
+          ...this.formatVariant(variant),
+          inventory: inventories
+            .filter(inv => inv.productId === variant.productId)
+            .map(inv => ({
+              storeId: inv.storeId,
+              quantity: inv.quantity,
+              reservedQuantity: inv.reservedQuantity,
+              availableQuantity: inv.quantity - inv.reservedQuantity
+            }))
+        }))
+      });
+    } catch (error) {
+      this.logger.error(`Get product variants error: ${error}`);
+      res.status(500).json({ message: 'Failed to get product variants' });
+    }
+  }
+
+  /**
+   * Replace the modifier groups offered on a product
+   */
+  private async updateProductModifiers(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { modifierGroups } = req.body;
+      
+      if (!Array.isArray(modifierGroups)) {
+        res.status(400).json({ message: 'Modifier groups must be a list' });
+        return;
+      }
+      
+      const product = await this.productModel.findOne({
+        $or: [
+          { productId: id },
+          { sku: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!product) {
+        res.status(404).json({ message: 'Product not found' });
+        return;
+      }
+      
+      const groups: IModifierGroup[] = [];
+      
+      for (const group of modifierGroups) {
+        if (!group.name || !Array.isArray(group.modifiers) || group.modifiers.length === 0) {
+          res.status(400).json({ message: 'Each modifier group needs a name and at least one modifier' });
+          return;
+        }
+        
+        const isRequired = Boolean(group.isRequired);
+        const minSelections = group.minSelections ?? (isRequired ? 1 : 0);
+        const maxSelections = group.maxSelections ?? 1;
+        
+        if (minSelections < 0 || maxSelections < 1 || minSelections > maxSelections || (isRequired && minSelections < 1)) {
+          res.status(400).json({ message: `Invalid selection limits for modifier group ${group.name}` });
+          return;
+        }
+        
+        if (minSelections > group.modifiers.length) {
+          res.status(400).json({ message: `Modifier group ${group.name} has fewer modifiers than its minimum selections` });
+          return;
+        }
+        
+        const modifiers: IModifier[] = [];
+        
+        for (const modifier of group.modifiers) {
+          if (!modifier.name || (modifier.inventoryQuantity !== undefined && modifier.inventoryQuantity <= 0)) {
+            res.status(400).json({ message: `Each modifier in ${group.name} needs a name and a positive inventory quantity` });
+            return;
+          }
+          
+          // Ingredient deduction must point at a stocked product
+          if (modifier.inventoryProductId && !await this.productModel.exists({ productId: modifier.inventoryProductId })) {
+            res.status(400).json({ message: `Ingredient product ${modifier.inventoryProductId} not found` });
+            return;
+          }
+          
+          modifiers.push({
+            modifierId: modifier.modifierId || uuidv4(),
+            name: modifier.name,
+            priceDelta: parseFloat(Number(modifier.priceDelta || 0).toFixed(2)),
+            inventoryProductId: modifier.inventoryProductId,
+            inventoryQuantity: modifier.inventoryQuantity ?? 1
+          });
+        }
+        
+        groups.push({
+          groupId: group.groupId || uuidv4(),
+          name: group.name,
+          isRequired,
+          minSelections,
+          maxSelections,
+          modifiers
+        });
+      }
+      
+      product.modifierGroups = groups;
+      await product.save();
+      
+      // Orders price and validate modifiers from their own copy of these groups
+      await this.messageBus.publish('inventory', 'inventory.modifiers.updated', {
+        productId: product.productId,
+        sku: product.sku,
+        modifierGroups: groups,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(200).json({
+        productId: product.productId,
+        modifierGroups: product.modifierGroups
+      });
+    } catch (error) {
+      this.logger.error(`Update product modifiers error: ${error}`);
+      res.status(500).json({ message: 'Failed to update product modifiers' });
+    }
+  }
+
+  /**
+   * Replace a kit's bill of materials
+   */
+  private async updateKitComponents(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { components } = req.body;
+      
+      const product = await this.productModel.findOne({
+        $or: [
+          { productId: id },
+          { sku: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!product) {
+        res.status(404).json({ message: 'Product not found' });
+        return;
+      }
+      
+      if (product.variantOptions.length > 0) {
+        res.status(400).json({ message: 'A variant parent cannot be a kit' });
+        return;
+      }
+      
+      // Stock already assembled was built from the old recipe
+      const assembled = await this.inventoryModel.findOne({ productId: product.productId, quantity: { $gt: 0 } });
+      
+      if (assembled) {
+        res.status(409).json({ message: 'Sell or adjust out assembled kit stock before changing its components' });
+        return;
+      }
+      
+      const kit = await this.resolveKitComponents(components || [], product.productId);
+      
+      if ('error' in kit) {
+        res.status(400).json({ message: kit.error });
+        return;
+      }
+      
+      product.kitComponents = kit.components;
+      await product.save();
+      
+      await this.messageBus.publish('inventory', 'product.updated', {
+        productId: product.productId,
+        sku: product.sku,
+        kitComponents: product.kitComponents,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(200).json({
+        productId: product.productId,
+        kitComponents: product.kitComponents
+      });
+    } catch (error) {
+      this.logger.error(`Update kit components error: ${error}`);
+      res.status(500).json({ message: 'Failed to update kit components' });
+    }
+  }
+
+  /**
+   * Get how many of a kit a store can sell, from assembled stock plus component stock
+   */
+  private async getKitAvailability(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { storeId = 'store_default' } = req.query;
+      
+      const product = await this.productModel.findOne({
+        $or: [
+          { productId: id },
+          { sku: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!product) {
+        res.status(404).json({ message: 'Product not found' });
+        return;
+      }
+      
+      if (product.kitComponents.length === 0) {
+        res.status(400).json({ message: 'Product is not a kit' });
+        return;
+      }
+      
+      const kitInventory = await this.inventoryModel.findOne({ productId: product.productId, storeId });
+      const assembled = kitInventory ? Math.max(0, kitInventory.quantity - kitInventory.reservedQuantity) : 0;
+      
+      const components = await Promise.all(product.kitComponents.map(async component => {
+        const inventory = await this.inventoryModel.findOne({ productId: component.productId, storeId });
+        const available = inventory ? Math.max(0, inventory.quantity - inventory.reservedQuantity) : 0;
+        
+        return {
+          productId: component.productId,
+          sku: component.sku,
+          quantity: component.quantity,
+          available,
+          kitsPossible: Math.floor(available / component.quantity)
+        };
+      }));
+      
+      const buildable = Math.min(...components.map(component => component.kitsPossible));
+      
+      res.status(200).json({
+        productId: product.productId,
+        sku: product.sku,
+        storeId,
+        assembled,
+        buildable,
+        available: assembled + buildable,
+        components
+      });
+    } catch (error) {
+      this.logger.error(`Get kit availability error: ${error}`);
+      res.status(500).json({ message: 'Failed to get kit availability' });
+    }
+  }
+
+  /**
+   * Pre-assemble kits, moving component stock into kit stock
+   */
+  private async assembleKit(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { storeId, quantity, notes } = req.body;
+      
+      if (!storeId || !Number.isInteger(quantity) || quantity <= 0) {
+        res.status(400).json({ message: 'Store ID and a positive whole quantity are required' });
+        return;
+      }
+      
+      const product = await this.productModel.findOne({
+        $or: [
+          { productId: id },
+          { sku: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!product) {
+        res.status(404).json({ message: 'Product not found' });
+        return;
+      }
+      
+      if (product.kitComponents.length === 0) {
+        res.status(400).json({ message: 'Product is not a kit' });
+        return;
+      }
+      
+      const assemblyId = uuidv4();
+      const performedBy = (req as any).user.userId;
+      
+      // Start a session for transaction
+      const session = await mongoose.startSession();
+      session.startTransaction();
+      
+      try {
+        const changes: { 
+          inventory: IInventoryItem; 
+          previousQuantity: number; 
+          change: number; 
+          lots: ILotAllocation[]; 
+          cost: { unitCost: number; totalCost: number } 
+        }[] = [];
+        
+        for (const component of product.kitComponents) {
+          const needed = component.quantity * quantity;
+          const inventory = await this.inventoryModel.findOne({ productId: component.productId, storeId }).session(session);
+          const available = inventory ? inventory.quantity - inventory.reservedQuantity : 0;
+          
+          if (!inventory || available < needed) {
+            await session.abortTransaction();
+            res.status(400).json({ 
+              message: `Insufficient ${component.sku} to assemble. Available: ${Math.max(0, available)}, Needed: ${needed}` 
+            });
+            return;
+          }
+          
+          const previousQuantity = inventory.quantity;
+          inventory.quantity -= needed;
+          const lots = this.trimLots(inventory);
+          const cost = await this.costMovement(inventory, previousQuantity);
+          changes.push({ inventory, previousQuantity, change: -needed, lots, cost });
+          await inventory.save({ session });
+        }
+        
+        let kitInventory = await this.inventoryModel.findOne({ productId: product.productId, storeId }).session(session);
+        
+        if (!kitInventory) {
+          kitInventory = new this.inventoryModel({
+            inventoryId: uuidv4(),
+            productId: product.productId,
+            sku: product.sku,
+            storeId,
+            quantity: 0,
+            reservedQuantity: 0,
+            backorderEnabled: false,
+            backorderLimit: 0,
+            reorderPoint: 0,
+            reorderQuantity: 0
+          });
+        }
+        
+        // Kits carry the cost of the components that went into them
+        const componentCost = changes.reduce((sum, change) => sum - change.cost.totalCost, 0);
+        const kitPreviousQuantity = kitInventory.quantity;
+        kitInventory.quantity += quantity;
+        kitInventory.lastRestockedAt = new Date();
+        const kitCost = await this.costMovement(
+          kitInventory, 
+          kitPreviousQuantity, 
+          parseFloat((componentCost / quantity).toFixed(2)), 
+          assemblyId
+        );
+        changes.push({ inventory: kitInventory, previousQuantity: kitPreviousQuantity, change: quantity, lots: [], cost: kitCost });
+        await kitInventory.save({ session });
+        
+        // Every movement is recorded against the same assembly
+        for (const { inventory, previousQuantity, change, lots, cost } of changes) {
+          const transaction = new this.transactionModel({
+            transactionId: uuidv4(),
+            inventoryId: inventory.inventoryId,
+            productId: inventory.productId,
+            sku: inventory.sku,
+            storeId,
+            type: 'ADJUSTMENT',
+            quantity: change,
+            previousQuantity,
+            newQuantity: inventory.quantity,
+            referenceId: assemblyId,
+            lots,
+            unitCost: cost.unitCost,
+            totalCost: cost.totalCost,
+            reason: 'Kit assembly',
+            performedBy,
+            notes: notes || `Assembled ${quantity} x ${product.sku}`
+          });
+          
+          await transaction.save({ session });
+        }
+        
+        await session.commitTransaction();
+        
+        for (const { inventory, change } of changes) {
+          await this.messageBus.publish('inventory', 'inventory.updated', {
+            inventoryId: inventory.inventoryId,
+            productId: inventory.productId,
+            sku: inventory.sku,
+            storeId,
+            quantity: inventory.quantity,
+            change,
+            timestamp: new Date().toISOString()
+          });
+        }
+        
+        res.status(200).json({
+          assemblyId,
+          productId: product.productId,
+          sku: product.sku,
+          storeId,
+          assembled: quantity,
+          kitQuantity: kitInventory.quantity,
+          components: changes.slice(0, -1).map(({ inventory, change }) => ({
+            productId: inventory.productId,
+            sku: inventory.sku,
+            consumed: -change,
+            remaining: inventory.quantity
+          }))
+        });
+      } catch (error) {
+        // Abort transaction on error
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        // End session
+        session.endSession();
+      }
+    } catch (error) {
+      this.logger.error(`Assemble kit error: ${error}`);
+      res.status(500).json({ message: 'Failed to assemble kit' });
+    }
+  }
+
+  /**
+   * Check a kit's components exist, hold stock of their own and are listed once
+   */
+  private async resolveKitComponents(
+    components: any[], 
+    kitProductId?: string
+  ): Promise<{ components: IKitComponent[] } | { error: string }> {
+    if (!Array.isArray(components)) {
+      return { error: 'Kit components must be a list' };
+    }
+    
+    const resolved: IKitComponent[] = [];
+    
+    for (const component of components) {
+      if (!component || !component.productId || !Number.isInteger(component.quantity) || component.quantity <= 0) {
+        return { error: 'Each kit component needs a product ID and a positive whole quantity' };
+      }
+      
+      if (component.productId === kitProductId || resolved.some(existing => existing.productId === component.productId)) {
+        return { error: `Kit component ${component.productId} is listed twice or is the kit itself` };
+      }
+      
+      const product = await this.productModel.findOne({ productId: component.productId });
+      
+      if (!product) {
+        return { error: `Kit component ${component.productId} not found` };
+      }
+      
+      // Components must be stocked items, not parents or other kits
+      if (product.variantOptions.length > 0 || product.kitComponents.length > 0) {
+        return { error: `Kit component ${product.sku} must be a stocked product, not a variant parent or kit` };
+      }
+      
+      resolved.push({ productId: product.productId, sku: product.sku, quantity: component.quantity });
+    }
+    
+    return { components: resolved };
+  }
+
+  /**
+   * Check variant option lists are named, non-empty and distinct
+   */
+  private validateVariantOptions(options: any): string | null {
+    if (!Array.isArray(options)) {
+      return 'Variant options must be a list';
+    }
+    
+    const names = new Set<string>();
+    
+    for (const option of options) {
+      if (!option || !option.name || !Array.isArray(option.values) || option.values.length === 0) {
+        return 'Each variant option needs a name and at least one value';
+      }
+      
+      if (names.has(option.name)) {
+        return `Variant option ${option.name} is listed twice`;
+      }
+      
+      names.add(option.name);
+    }
+    
+    return null;
+  }
+
+  /**
+   * Build a stable key for an option combination, in the parent's option order
+   */
+  private getVariantKey(options: IVariantOption[], optionValues: Record<string, string>): string {
+    return options.map(option => `${option.name}=${optionValues[option.name]}`).join('|');
+  }
+
+  /**
+   * Expand option lists into every combination, applying any per-variant overrides
+   */
+  private buildVariantMatrix(
+    options: IVariantOption[], 
+    overrides: IVariantInput[] = []
+  ): (IVariantInput & { variantKey: string })[] {
+    let combinations: Record<string, string>[] = [{}];
+    
+    for (const option of options) {
+      combinations = combinations.flatMap(combination => 
+        option.values.map(value => ({ ...combination, [option.name]: value }))
+      );
+    }
+    
+    return combinations.map(optionValues => {
+      const variantKey = this.getVariantKey(options, optionValues);
+      const override = overrides.find(candidate => 
+        candidate.optionValues && this.getVariantKey(options, candidate.optionValues) === variantKey
+      );
+      
+      return { ...override, optionValues, variantKey };
+    });
+  }
+
+  /**
+   * Derive a variant SKU from the parent SKU and option values (e.g. TSHIRT-RED-M)
+   */
+  private getVariantSku(parent: IProduct, optionValues: Record<string, string>): string {
+    const suffix = parent.variantOptions
+      .map(option => String(optionValues[option.name]).toUpperCase().replace(/[^A-Z0-9]+/g, ''))
+      .join('-');
+    
+    return `${parent.sku}-${suffix}`;
+  }
+
+  /**
+   * List the SKUs of planned variants that are already used by other products
+   */
+  private async findSkuConflicts(parent: IProduct, variants: IVariantInput[]): Promise<string[]> {
+    const skus = variants.map(variant => variant.sku || this.getVariantSku(parent, variant.optionValues));
+    const existing = await this.productModel.find({ sku: { $in: skus } }).select('sku').lean();
+    
+    return existing.map(product => product.sku);
+  }
+
+  /**
+   * Create variant products under a parent, each with its own SKU and inventory record
+   */
+  private async createVariants(
+    parent: IProduct, 
+    variants: (IVariantInput & { variantKey?: string })[]
+  ): Promise<IProduct[]> {
+    const created: IProduct[] = [];
+    const categoryDefaults = await this.getCategoryDefaults(parent.categoryId);
+    
+    for (const input of variants) {
+      const productId = uuidv4();
+      const sku = input.sku || this.getVariantSku(parent, input.optionValues);
+      const label = parent.variantOptions.map(option => input.optionValues[option.name]).join(' / ');
+      
+      const variant = new this.productModel({
+        productId,
+        sku,
+        name: `${parent.name} - ${label}`,
+        description: parent.description,
+        category: parent.category,
+        categoryId: parent.categoryId,
+        price: input.price ?? parent.price,
+        costPrice: input.costPrice ?? parent.costPrice,
+        taxRate: parent.taxRate,
+        taxClass: parent.taxClass,
+        barcode: input.barcode,
+        images: parent.images,
+        attributes: { ...parent.attributes, ...input.optionValues },
+        parentProductId: parent.productId,
+        optionValues: input.optionValues,
+        variantKey: input.variantKey || this.getVariantKey(parent.variantOptions, input.optionValues),
+        isActive: parent.isActive
+      });
+      
+      await variant.save();
+      await this.createDefaultInventory(productId, sku, categoryDefaults);
+      
+      await this.messageBus.publish('inventory', 'product.created', {
+        productId,
+        sku,
+        name: variant.name,
+        price: variant.price,
+        category: variant.category,
+        parentProductId: parent.productId,
+        optionValues: input.optionValues,
+        timestamp: new Date().toISOString()
+      });
+      
+      created.push(variant);
+    }
+    
+    return created;
+  }
+
+  /**
+   * Check a category name can be used in a category path
+   */
+  private validateCategoryName(name: any): string | null {
+    if (typeof name !== 'string' || !name.trim()) {
+      return 'Category name is required';
+    }
+    
+    if (name.includes(CATEGORY_PATH_SEPARATOR.trim())) {
+      return `Category names cannot contain "${CATEGORY_PATH_SEPARATOR.trim()}"`;
+    }
+    
+    return null;
+  }
+
+  /**
+   * Resolve the category a product is filed under. A category ID or a tree path links the
+   * product to the tree; any other text is kept as a plain, unlinked category
+   */
+  private async resolveProductCategory(
+    category?: string, 
+    categoryId?: string
+  ): Promise<{ category: string; categoryId?: string } | { error: string }> {
+    if (categoryId) {
+      const node = await this.categoryModel.findOne({ categoryId });
+      
+      if (!node) {
+        return { error: `Category ${categoryId} not found` };
+      }
+      
+      return { category: node.path, categoryId: node.categoryId };
+    }
+    
+    if (!category) {
+      return { error: 'Category is required' };
+    }
+    
+    const node = await this.categoryModel.findOne({ path: category });
+    
+    return node ? { category: node.path, categoryId: node.categoryId } : { category };
+  }
+
+  /**
+   * Get the category paths a category filter covers: the category and, unless turned off,
+   * all of its subcategories. The filter can be a category ID or a path; text that is not in
+   * the tree matches itself only
+   */
+  private async getCategoryPaths(category: string, includeSubcategories: boolean = true): Promise<string[]> {
+    const node = await this.categoryModel.findOne({ $or: [{ categoryId: category }, { path: category }] });
+    
+    if (!node) {
+      return [category];
+    }
+    
+    if (!includeSubcategories) {
+      return [node.path];
+    }
+    
+    const descendants = await this.categoryModel.find({ ancestorIds: node.categoryId }).select('path').lean();
+    
+    return [node.path, ...descendants.map(descendant => descendant.path)];
+  }
+
+  /**
+   * Get the defaults a category applies, each taken from the nearest category up the tree that sets it
+   */
+  private async getCategoryDefaults(categoryId?: string): Promise<ICategoryDefaults> {
+    if (!categoryId) {
+      return {};
+    }
+    
+    const node = await this.categoryModel.findOne({ categoryId });
+    
+    if (!node) {
+      return {};
+    }
+    
+    const ancestors = await this.categoryModel.find({ categoryId: { $in: node.ancestorIds } }).sort({ depth: 1 });
+    const defaults: ICategoryDefaults = {};
+    
+    for (const level of [...ancestors, node]) {
+      if (level.defaults?.taxClass) defaults.taxClass = level.defaults.taxClass;
+      if (level.defaults?.reorderPoint !== undefined && level.defaults.reorderPoint !== null) {
+        defaults.reorderPoint = level.defaults.reorderPoint;
+      }
+      if (level.defaults?.reorderQuantity !== undefined && level.defaults.reorderQuantity !== null) {
+        defaults.reorderQuantity = level.defaults.reorderQuantity;
+      }
+    }
+    
+    return defaults;
+  }
+
+  /**
+   * Count products per category path, directly and including subcategories
+   */
+  private async getCategoryProductCounts(): Promise<{ direct: Map<string, number>; total: Map<string, number> }> {
+    const counts = await this.productModel.aggregate([
+      { $match: { parentProductId: { $exists: false } } },
+      { $group: { _id: '$category', count: { $sum: 1 } } }
+    ]);
+    
+    const direct = new Map<string, number>();
+    const total = new Map<string, number>();
+    
+    for (const { _id: path, count } of counts) {
+      if (!path) continue;
+      
+      direct.set(path, count);
+      
+      // Roll the count up to every ancestor path
+      const names = (path as string).split(CATEGORY_PATH_SEPARATOR);
+      
+      for (let depth = 1; depth <= names.length; depth++) {
+        const ancestorPath = names.slice(0, depth).join(CATEGORY_PATH_SEPARATOR);
+        total.set(ancestorPath, (total.get(ancestorPath) || 0) + count);
+      }
+    }
+    
+    return { direct, total };
+  }
+
+  /**
+   * Place a category under a new parent (or rename it in place) and rewrite the ancestry and
+   * path of it, its subcategories and their products. The category itself is left for the
+   * caller to save. Returns the number of products repathed
+   */
+  private async repathCategory(category: ICategory, parent: ICategory | null): Promise<number> {
+    const descendants = await this.categoryModel.find({ ancestorIds: category.categoryId }).sort({ depth: 1 });
+    const moved = new Map<string, ICategory>();
+    let productsUpdated = 0;
+    
+    // Parents come before their children, so each node's parent is already repathed
+    for (const node of [category, ...descendants]) {
+      const nodeParent = node === category ? parent : moved.get(node.parentId!)!;
+      const oldPath = node.path;
+      
+      node.parentId = nodeParent?.categoryId;
+      node.ancestorIds = nodeParent ? [...nodeParent.ancestorIds, nodeParent.categoryId] : [];
+      node.path = nodeParent ? `${nodeParent.path}${CATEGORY_PATH_SEPARATOR}${node.name}` : node.name;
+      node.depth = node.ancestorIds.length;
+      moved.set(node.categoryId, node);
+      
+      if (node !== category) {
+        await node.save();
+      }
+      
+      const result = await this.productModel.updateMany(
+        { $or: [{ categoryId: node.categoryId }, { category: oldPath }] },
+        { $set: { category: node.path, categoryId: node.categoryId } }
+      );
+      productsUpdated += result.modifiedCount;
+    }
+    
+    return productsUpdated;
+  }
+
+  /**
+   * Move a category's products and subcategories into another category and delete it.
+   * Returns the number of products moved
+   */
+  private async mergeCategoryInto(source: ICategory, target: ICategory): Promise<number> {
+    let productsUpdated = 0;
+    
+    const children = await this.categoryModel.find({ parentId: source.categoryId });
+    
+    for (const child of children) {
+      const sameName = await this.categoryModel.findOne({ parentId: target.categoryId, name: child.name });
+      
+      if (sameName) {
+        productsUpdated += await this.mergeCategoryInto(child, sameName);
+      } else {
+        productsUpdated += await this.repathCategory(child, target);
+        await child.save();
+      }
+    }
+    
+    const result = await this.productModel.updateMany(
+      { $or: [{ categoryId: source.categoryId }, { category: source.path }] },
+      { $set: { category: target.path, categoryId: target.categoryId } }
+    );
+    productsUpdated += result.modifiedCount;
+    
+    // Past write-offs report under the category the source was merged into
+    await this.writeOffModel.updateMany(
+      { categoryId: source.categoryId },
+      { $set: { categoryId: target.categoryId } }
+    );
+    
+    await source.deleteOne();
+    
+    return productsUpdated;
+  }
+
+  /**
+   * Let other services know products were refiled under a new category path
+   */
+  private async publishCategoryChanged(category: ICategory, productsUpdated: number): Promise<void> {
+    await this.messageBus.publish('inventory', 'category.updated', {
+      categoryId: category.categoryId,
+      name: category.name,
+      path: category.path,
+      parentId: category.parentId,
+      productsUpdated,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Format a category for API responses
+   */
+  private formatCategory(category: ICategory): Record<string, any> {
+    return {
+      categoryId: category.categoryId,
+      name: category.name,
+      parentId: category.parentId,
+      ancestorIds: category.ancestorIds,
+      path: category.path,
+      depth: category.depth,
+      defaults: category.defaults,
+      isActive: category.isActive,
+      createdAt: category.createdAt,
+      updatedAt: category.updatedAt
+    };
+  }
+
+  /**
+   * Initialize the inventory record of a new sellable product
+   */
+  private async createDefaultInventory(productId: string, sku: string, defaults: ICategoryDefaults = {}): Promise<void> {
+    // In a real implementation, this would get a list of stores from a store service
+    // For demo purposes, we'll create a single inventory record for a default store
+    const inventory = new this.inventoryModel({
+      inventoryId: uuidv4(),
+      productId,
+      sku,
+      storeId: 'store_default',
+      quantity: 0,
+      reservedQuantity: 0,
+      backorderEnabled: false,
+      backorderLimit: 0,
+      reorderPoint: defaults.reorderPoint ?? 5,
+      reorderQuantity: defaults.reorderQuantity ?? 10
+    });
+    
+    await inventory.save();
+  }
+
+  /**
+   * Format a variant for API responses
+   */
+  private formatVariant(variant: IProduct): Record<string, any> {
+    return {
+      productId: variant.productId,
+      sku: variant.sku,
+      name: variant.name,
+      optionValues: variant.optionValues,
+      price: variant.price,
+      barcode: variant.barcode,
+      isActive: variant.isActive
+    };
+  }
+
+  /**
+   * Get inventory item by ID
+   */
+  private async getInventory(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      const inventory = await this.inventoryModel.findOne({
+        $or: [
+          { inventoryId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!inventory) {
+        res.status(404).json({ message: 'Inventory not found' });
+        return;
+      }
+      
+      // Get product info
+      const product = await this.productModel.findOne({ productId: inventory.productId });
+      
+      res.status(200).json({
+        inventoryId: inventory.inventoryId,
+        productId: inventory.productId,
+        sku: inventory.sku,
+        storeId: inventory.storeId,
+        quantity: inventory.quantity,
+        reservedQuantity: inventory.reservedQuantity,
+        availableQuantity: inventory.quantity - inventory.reservedQuantity,
+        inTransitQuantity: inventory.inTransitQuantity,
+        backorderEnabled: inventory.backorderEnabled,
+        backorderLimit: inventory.backorderLimit,
+        reorderPoint: inventory.reorderPoint,
+        reorderQuantity: inventory.reorderQuantity,
+        lastRestockedAt: inventory.lastRestockedAt,
+        locationInStore: inventory.locationInStore,
+        lots: inventory.lots,
+        averageCost: inventory.averageCost,
+        product: product ? {
+          name: product.name,
+          price: product.price,
+          category: product.category,
+          isActive: product.isActive
+        } : null
+      });
+    } catch (error) {
+      this.logger.error(`Get inventory error: ${error}`);
+      res.status(500).json({ message: 'Failed to get inventory' });
+    }
+  }
+
+  /**
+   * Get inventory for a product
+   */
+  private async getProductInventory(req: Request, res: Response): Promise<void> {
+    try {
+      const { productId } = req.params;
+      
+      // Get product first to validate it exists
+      const product = await this.productModel.findOne({
+        $or: [
+          { productId },
+          { sku: productId }
+        ]
+      });
+      
+      if (!product) {
+        res.status(404).json({ message: 'Product not found' });
+        return;
+      }
+      
+      // Get all inventory items for this product
+      const inventories = await this.inventoryModel.find({ 
+        productId: product.productId 
+      });
+      
+      // Calculate aggregate totals
+      const totalQuantity = inventories.reduce((sum, inv) => sum + inv.quantity, 0);
+      const totalReserved = inventories.reduce((sum, inv) => sum + inv.reservedQuantity, 0);
+      const totalAvailable = totalQuantity - totalReserved;
+      
+      res.status(200).json({
+        productId: product.productId,
+        sku: product.sku,
+        name: product.name,
+        totalQuantity,
+        totalReserved,
+        totalAvailable,
+        inventoryByStore: inventories.map(inv => ({
+          storeId: inv.storeId,
+          inventoryId: inv.inventoryId,
+          quantity: inv.quantity,
+          reservedQuantity: inv.reservedQuantity,
+          availableQuantity: inv.quantity - inv.reservedQuantity,
+          inTransitQuantity: inv.inTransitQuantity,
+          backorderEnabled: inv.backorderEnabled,
+          lastRestockedAt: inv.lastRestockedAt,
+          locationInStore: inv.locationInStore,
+          lots: inv.lots,
+          averageCost: inv.averageCost
+        }))
+      });
+    } catch (error) {
+      this.logger.error(`Get product inventory error: ${error}`);
+      res.status(500).json({ message: 'Failed to get product inventory' });
+    }
+  }
+
+  /**
+   * Get inventory for a store
+   */
+  private async getStoreInventory(req: Request, res: Response): Promise<void> {
+    try {
+      const { storeId } = req.params;
+      const { lowStock, outOfStock, page = 1, limit = 10 } = req.query;
+      
+      // Build query
+      const query: any = { storeId };
+      
+      if (lowStock === 'true') {
+        // Find products where quantity is below reorder point but not zero
+        query.$expr = { 
+          $and: [
+            { $gt: ['$quantity', 0] },
+            { $lte: ['$quantity', '$reorderPoint'] }
+          ]
+        };
+      }
+      
+      if (outOfStock === 'true') {
+        // Find products where quantity is zero
+        query.quantity = 0;
+      }
+      
+      // Parse pagination
+      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+      
+      // Get inventory
+      const inventories = await this.inventoryModel
+        .find(query)
+        .sort({ quantity: 1 })
+        .skip(skip)
+        .limit(parseInt(limit as string));
+      
+      // Get total count
+      const total = await this.inventoryModel.countDocuments(query);
+      
+      // Get product details
+      const productIds = inventories.map(inv => inv.productId);
+      const products = await this.productModel.find({
+        productId: { $in: productIds }
+      });
+      
+      // Create a map of productId to product
+      const productMap = products.reduce((map, product) => {
+        map[product.productId] = product;
+        return map;
+      }, {} as Record<string, IProduct>);
+      
+      res.status(200).json({
+        storeId,
+        inventory: inventories.map(inv => {
+          const product = productMap[inv.productId];
+          return {
+            inventoryId: inv.inventoryId,
+            productId: inv.productId,
+            sku: inv.sku,
+            name: product ? product.name : 'Unknown Product',
+            category: product ? product.category : 'Unknown',
+            categoryId: product?.categoryId,
+            price: product ? product.price : 0,
+            quantity: inv.quantity,
+            reservedQuantity: inv.reservedQuantity,
+            availableQuantity: inv.quantity - inv.reservedQuantity,
+            reorderPoint: inv.reorderPoint,
+            isLowStock: inv.quantity > 0 && inv.quantity <= inv.reorderPoint,
+            isOutOfStock: inv.quantity === 0
+          };
+        }),
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total,
+          pages: Math.ceil(total / parseInt(limit as string))
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Get store inventory error: ${error}`);
+      res.status(500).json({ message: 'Failed to get store inventory' });
+    }
+  }
+
+  /**
+   * Adjust inventory quantity
+   */
+  private async adjustInventory(req: Request, res: Response): Promise<void> {
+    try {
+      const { 
+        productId, 
+        sku, 
+        storeId, 
+        quantity, 
+        reason, 
+        notes,
+        lotNumber,
+        expirationDate,
+        unitCost
+      } = req.body;
+      
+      // Validate input
+      if ((!productId && !sku) || !storeId || quantity === undefined) {
+        res.status(400).json({ message: 'Product ID or SKU, store ID, and quantity are required' });
+        return;
+      }
+      
+      if (unitCost !== undefined && (typeof unitCost !== 'number' || unitCost < 0)) {
+        res.status(400).json({ message: 'Unit cost must be a non-negative number' });
+        return;
+      }
+      
+      // Find inventory
+      let inventory;
+      if (productId) {
+        inventory = await this.inventoryModel.findOne({ productId, storeId });
+      } else {
+        inventory = await this.inventoryModel.findOne({ sku, storeId });
+      }
+      
+      if (!inventory) {
+        res.status(404).json({ message: 'Inventory not found' });
+        return;
+      }
+      
+      if (await this.isInventoryFrozen(inventory.inventoryId)) {
+        res.status(409).json({ message: `${inventory.sku} is frozen by a stocktake in progress` });
+        return;
+      }
+      
+      // Record previous quantity for transaction
+      const previousQuantity = inventory.quantity;
+      
+      // Adjust quantity
+      const newQuantity = Math.max(0, previousQuantity + quantity);
+      inventory.quantity = newQuantity;
+      
+      // Update lastRestockedAt if adding inventory
+      if (quantity > 0) {
+        inventory.lastRestockedAt = new Date();
+      }
+      
+      // Book the change against a lot when one is given
+      let lots: ILotAllocation[];
+      
+      if (lotNumber && quantity > 0) {
+        lots = [this.addToLot(inventory, lotNumber, quantity, expirationDate)];
+      } else if (lotNumber) {
+        const lot = inventory.lots.find(candidate => candidate.lotNumber === lotNumber);
+        
+        if (!lot || lot.quantity - lot.reservedQuantity < -quantity) {
+          res.status(400).json({ message: `Lot ${lotNumber} does not have ${-quantity} unreserved units` });
+          return;
+        }
+        
+        lot.quantity += quantity;
+        lots = [{ lotId: lot.lotId, lotNumber: lot.lotNumber, quantity }];
+      } else {
+        lots = this.trimLots(inventory);
+      }
+      
+      // Added stock comes in at the given unit cost, or the current average without one
+      const cost = await this.costMovement(inventory, previousQuantity, unitCost);
+      
+      await inventory.save();
+      
+      // Create transaction record
+      const transactionId = uuidv4();
+      const transaction = new this.transactionModel({
+        transactionId,
+        inventoryId: inventory.inventoryId,
+        productId: inventory.productId,
+        sku: inventory.sku,
+        storeId,
+        type: quantity > 0 ? 'RESTOCK' : 'ADJUSTMENT',
+        quantity,
+        previousQuantity,
+        newQuantity,
+        lots,
+        unitCost: cost.unitCost,
+        totalCost: cost.totalCost,
+        reason,
+        performedBy: (req as any).user.userId,
+        notes
+      });
+      
+      await transaction.save();
+      
+      // Check if we need to publish low stock alert
+      if (newQuantity <= inventory.reorderPoint && previousQuantity > inventory.reorderPoint) {
+        await this.messageBus.publish('inventory', 'inventory.low-stock', {
+          inventoryId: inventory.inventoryId,
+          productId: inventory.productId,
+          sku: inventory.sku,
+          storeId,
+          quantity: newQuantity,
+          reorderPoint: inventory.reorderPoint,
+          reorderQuantity: inventory.reorderQuantity,
+          timestamp: new Date().toISOString()
+        });
+      }
+      
+      // Publish inventory updated event
+      await this.messageBus.publish('inventory', 'inventory.updated', {
+        inventoryId: inventory.inventoryId,
+        productId: inventory.productId,
+        sku: inventory.sku,
+        storeId,
+        quantity: newQuantity,
+        change: quantity,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(200).json({
+        inventoryId: inventory.inventoryId,
+        productId: inventory.productId,
+        sku: inventory.sku,
+        storeId,
+        previousQuantity,
+        adjustment: quantity,
+        newQuantity,
+        transaction: {
+          transactionId,
+          type: quantity > 0 ? 'RESTOCK' : 'ADJUSTMENT'
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Adjust inventory error: ${error}`);
+      res.status(500).json({ message: 'Failed to adjust inventory' });
+    }
+  }
+
+  /**
+   * Transfer inventory between stores
+   */
+  private async transferInventory(req: Request, res: Response): Promise<void> {
+    try {
+      const { 
+        productId, 
+        sku, 
+        fromStoreId, 
+        toStoreId, 
+        quantity, 
+        notes 
+      } = req.body;
+      
+      // Validate input
+      if ((!productId && !sku) || !fromStoreId || !toStoreId || !quantity || quantity <= 0) {
+        res.status(400).json({ 
+          message: 'Product ID or SKU, from store ID, to store ID, and positive quantity are required' 
+        });
+        return;
+      }
+      
+      if (fromStoreId === toStoreId) {
+        res.status(400).json({ message: 'Source and destination stores must be different' });
+        return;
+      }
+      
+      // Start a session for transaction
+      const session = await mongoose.startSession();
+      session.startTransaction();
+      
+      try {
+        // Find source inventory
+        let sourceInventory;
+        if (productId) {
+          sourceInventory = await this.inventoryModel.findOne({ productId, storeId: fromStoreId }).session(session);
+        } else {
+          sourceInventory = await this.inventoryModel.findOne({ sku, storeId: fromStoreId }).session(session);
+        }
+        
+        if (!sourceInventory) {
+          await session.abortTransaction();
+          session.endSession();
+          res.status(404).json({ message: 'Source inventory not found' });
+          return;
+        }
+        
+        if (await this.isInventoryFrozen(sourceInventory.inventoryId)) {
+          await session.abortTransaction();
+          session.endSession();
+          res.status(409).json({ message: `${sourceInventory.sku} is frozen by a stocktake in progress` });
+          return;
+        }
+        
+        // Check if source has enough inventory
+        const availableQuantity = sourceInventory.quantity - sourceInventory.reservedQuantity;
+        if (availableQuantity < quantity) {
+          await session.abortTransaction();
+          session.endSession();
+          res.status(400).json({ 
+            message: `Insufficient inventory. Available: ${availableQuantity}, Requested: ${quantity}` 
+          });
+          return;
+        }
+        
+        // Find destination inventory, creating it if the store has never stocked the item
+        const destInventory = await this.getDestinationInventory(sourceInventory, toStoreId, session);
+        
+        // Record previous quantities
+        const sourcePrevQuantity = sourceInventory.quantity;
+        const destPrevQuantity = destInventory.quantity;
+        
+        // Update quantities
+        sourceInventory.quantity -= quantity;
+        destInventory.quantity += quantity;
+        destInventory.lastRestockedAt = new Date();
+        
+        // Lots that leave the source store arrive at the destination under the same number
+        const lotExpiry = new Map(sourceInventory.lots.map(lot => [lot.lotId, lot.expirationDate]));
+        const lots = this.trimLots(sourceInventory);
+        
+        for (const lot of lots) {
+          this.addToLot(destInventory, lot.lotNumber, -lot.quantity, lotExpiry.get(lot.lotId));
+        }
+        
+        // Stock arrives at the destination at the cost it left the source
+        const cost = await this.costMovement(sourceInventory, sourcePrevQuantity);
+        await this.costMovement(destInventory, destPrevQuantity, cost.unitCost, fromStoreId);
+        
+        await sourceInventory.save({ session });
+        await destInventory.save({ session });
+        
+        // Create transaction records
+        const sourceTransactionId = uuidv4();
+        const sourceTransaction = new this.transactionModel({
+          transactionId: sourceTransactionId,
+          inventoryId: sourceInventory.inventoryId,
+          productId: sourceInventory.productId,
+          sku: sourceInventory.sku,
+          storeId: fromStoreId,
+          type: 'TRANSFER',
+          quantity: -quantity,
+          previousQuantity: sourcePrevQuantity,
+          newQuantity: sourceInventory.quantity,
+          referenceId: toStoreId,
+          lots,
+          unitCost: cost.unitCost,
+          totalCost: cost.totalCost,
+          reason: 'Store transfer',
+          performedBy: (req as any).user.userId,
+          notes
+        });
+        
+        const destTransactionId = uuidv4();
+        const destTransaction = new this.transactionModel({
+          transactionId: destTransactionId,
+          inventoryId: destInventory.inventoryId,
+          productId: destInventory.productId,
+          sku: destInventory.sku,
+          storeId: toStoreId,
+          type: 'TRANSFER',
+          quantity: quantity,
+          previousQuantity: destPrevQuantity,
+          newQuantity: destInventory.quantity,
+          referenceId: fromStoreId,
+          lots: lots.map(lot => ({ ...lot, quantity: -lot.quantity })),
+          unitCost: cost.unitCost,
+          totalCost: -cost.totalCost,
+          reason: 'Store transfer',
+          performedBy: (req as any).user.userId,
+          notes
+        });
+        
+        await sourceTransaction.save({ session });
+        await destTransaction.save({ session });
+        
+        // Commit transaction
+        await session.commitTransaction();
+        
+        // Check if we need to publish low stock alert for source
+        if (sourceInventory.quantity <= sourceInventory.reorderPoint && 
+            sourcePrevQuantity > sourceInventory.reorderPoint) {
+          await this.messageBus.publish('inventory', 'inventory.low-stock', {
+            inventoryId: sourceInventory.inventoryId,
+            productId: sourceInventory.productId,
+            sku: sourceInventory.sku,
+            storeId: fromStoreId,
+            quantity: sourceInventory.quantity,
+            reorderPoint: sourceInventory.reorderPoint,
+            reorderQuantity: sourceInventory.reorderQuantity,
+            timestamp: new Date().toISOString()
+          });
+        }
+        
+        // Publish inventory updated events
+        await this.messageBus.publish('inventory', 'inventory.updated', {
+          inventoryId: sourceInventory.inventoryId,
+          productId: sourceInventory.productId,
+          sku: sourceInventory.sku,
+          storeId: fromStoreId,
+          quantity: sourceInventory.quantity,
+          change: -quantity,
+          timestamp: new Date().toISOString()
+        });
+        
+        await this.messageBus.publish('inventory', 'inventory.updated', {
+          inventoryId: destInventory.inventoryId,
+          productId: destInventory.productId,
+          sku: destInventory.sku,
+          storeId: toStoreId,
+          quantity: destInventory.quantity,
+          change: quantity,
+          timestamp: new Date().toISOString()
+        });
+        
+        // Publish transfer event
+        await this.messageBus.publish('inventory', 'inventory.transferred', {
+          productId: sourceInventory.productId,
+          sku: sourceInventory.sku,
+          fromStoreId,
+          toStoreId,
+          quantity,
+          sourceTransaction: sourceTransactionId,
+          destTransaction: destTransactionId,
+          timestamp: new Date().toISOString()
+        });
+        
+        res.status(200).json({
+          productId: sourceInventory.productId,
+          sku: sourceInventory.sku,
+          fromStore: {
+            storeId: fromStoreId,
+            previousQuantity: sourcePrevQuantity,
+            newQuantity: sourceInventory.quantity
+          },
+          toStore: {
+            storeId: toStoreId,
+            previousQuantity: destPrevQuantity,
+            newQuantity: destInventory.quantity
+          },
+          quantity,
+          transactions: {
+            source: sourceTransactionId,
+            destination: destTransactionId
+          }
+        });
+      } catch (error) {
+        // Abort transaction on error
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        // End session
+        session.endSession();
+      }
+    } catch (error) {
+      this.logger.error(`Transfer inventory error: ${error}`);
+      res.status(500).json({ message: 'Failed to transfer inventory' });
+    }
+  }
+
+  /**
+   * Request stock from another store
+   */
+  private async requestTransferOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { fromStoreId, toStoreId, items, requestDelivery = false, notes } = req.body;
+      
+      // Validate input
+      if (!fromStoreId || !toStoreId || !items || !items.length) {
+        res.status(400).json({ message: 'From store ID, to store ID, and items are required' });
+        return;
+      }
+      
+      if (fromStoreId === toStoreId) {
+        res.status(400).json({ message: 'Source and destination stores must be different' });
+        return;
+      }
+      
+      const lines = [];
+      
+      for (const item of items) {
+        const { productId, sku, quantity } = item;
+        
+        if ((!productId && !sku) || !quantity || quantity <= 0) {
+          res.status(400).json({ message: 'Each item must have product ID or SKU and positive quantity' });
+          return;
+        }
+        
+        const sourceInventory = await this.inventoryModel.findOne(
+          productId ? { productId, storeId: fromStoreId } : { sku, storeId: fromStoreId }
+        );
+        
+        if (!sourceInventory) {
+          res.status(404).json({ message: `Source inventory not found for ${productId || sku}` });
+          return;
+        }
+        
+        lines.push({
+          productId: sourceInventory.productId,
+          sku: sourceInventory.sku,
+          requestedQuantity: quantity,
+          approvedQuantity: 0,
+          shippedQuantity: 0,
+          receivedQuantity: 0,
+          unitCost: 0,
+          lots: []
+        });
+      }
+      
+      const transferOrder = new this.transferOrderModel({
+        transferOrderId: uuidv4(),
+        fromStoreId,
+        toStoreId,
+        status: 'REQUESTED',
+        items: lines,
+        discrepancies: [],
+        requestDelivery,
+        requestedBy: (req as any).user.userId,
+        notes
+      });
+      
+      await transferOrder.save();
+      
+      // Publish transfer order requested event
+      await this.messageBus.publish('inventory', 'transfer-order.requested', {
+        transferOrderId: transferOrder.transferOrderId,
+        fromStoreId,
+        toStoreId,
+        itemCount: lines.length,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(201).json(this.formatTransferOrder(transferOrder));
+    } catch (error) {
+      this.logger.error(`Request transfer order error: ${error}`);
+      res.status(500).json({ message: 'Failed to request transfer order' });
+    }
+  }
+
+  /**
+   * List transfer orders into or out of a store
+   */
+  private async getTransferOrders(req: Request, res: Response): Promise<void> {
+    try {
+      const { storeId, fromStoreId, toStoreId, status, page = 1, limit = 10 } = req.query;
+      
+      const query: any = {};
+      
+      if (storeId) query.$or = [{ fromStoreId: storeId }, { toStoreId: storeId }];
+      if (fromStoreId) query.fromStoreId = fromStoreId;
+      if (toStoreId) query.toStoreId = toStoreId;
+      if (status) query.status = status;
+      
+      // Parse pagination
+      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+      
+      const transferOrders = await this.transferOrderModel
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(parseInt(limit as string));
+      
+      const total = await this.transferOrderModel.countDocuments(query);
+      
+      res.status(200).json({
+        transferOrders: transferOrders.map(transferOrder => this.formatTransferOrder(transferOrder)),
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total,
+          pages: Math.ceil(total / parseInt(limit as string))
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Get transfer orders error: ${error}`);
+      res.status(500).json({ message: 'Failed to get transfer orders' });
+    }
+  }
+
+  /**
+   * Get a transfer order
+   */
+  private async getTransferOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const transferOrder = await this.transferOrderModel.findOne({ transferOrderId: req.params.id });
+      
+      if (!transferOrder) {
+        res.status(404).json({ message: 'Transfer order not found' });
+        return;
+      }
+      
+      res.status(200).json(this.formatTransferOrder(transferOrder));
+    } catch (error) {
+      this.logger.error(`Get transfer order error: ${error}`);
+      res.status(500).json({ message: 'Failed to get transfer order' });
+    }
+  }
+
+  /**
+   * Approve a transfer request, optionally cutting the quantities sent
+   */
+  private async approveTransferOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { items = [] } = req.body;
+      
+      const transferOrder = await this.transferOrderModel.findOne({ transferOrderId: req.params.id });
+      
+      if (!transferOrder) {
+        res.status(404).json({ message: 'Transfer order not found' });
+        return;
+      }
+      
+      if (transferOrder.status !== 'REQUESTED') {
+        res.status(400).json({ message: `Cannot approve a transfer order in ${transferOrder.status} status` });
+        return;
+      }
+      
+      for (const line of transferOrder.items) {
+        const override = items.find((item: any) => 
+          (item.productId && item.productId === line.productId) || (item.sku && item.sku === line.sku));
+        
+        if (override && (override.quantity < 0 || override.quantity > line.requestedQuantity)) {
+          res.status(400).json({ message: `Approved quantity for ${line.sku} must be between 0 and ${line.requestedQuantity}` });
+          return;
+        }
+        
+        line.approvedQuantity = override ? override.quantity : line.requestedQuantity;
+      }
+      
+      if (transferOrder.items.every(line => line.approvedQuantity === 0)) {
+        res.status(400).json({ message: 'Nothing approved; cancel the transfer order instead' });
+        return;
+      }
+      
+      transferOrder.status = 'APPROVED';
+      transferOrder.approvedBy = (req as any).user.userId;
+      transferOrder.approvedAt = new Date();
+      await transferOrder.save();
+      
+      // Publish transfer order approved event
+      await this.messageBus.publish('inventory', 'transfer-order.approved', {
+        transferOrderId: transferOrder.transferOrderId,
+        fromStoreId: transferOrder.fromStoreId,
+        toStoreId: transferOrder.toStoreId,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(200).json(this.formatTransferOrder(transferOrder));
+    } catch (error) {
+      this.logger.error(`Approve transfer order error: ${error}`);
+      res.status(500).json({ message: 'Failed to approve transfer order' });
+    }
+  }
+
+  /**
+   * Ship an approved transfer: stock leaves the source store and is in transit,
+   * counted at neither store, until the destination receives it
+   */
+  private async shipTransferOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { deliveryId } = req.body;
+      
+      const transferOrder = await this.transferOrderModel.findOne({ transferOrderId: req.params.id });
+      
+      if (!transferOrder) {
+        res.status(404).json({ message: 'Transfer order not found' });
+        return;
+      }
+      
+      if (transferOrder.status !== 'APPROVED') {
+        res.status(400).json({ message: `Cannot ship a transfer order in ${transferOrder.status} status` });
+        return;
+      }
+      
+      // Start a session for transaction
+      const session = await mongoose.startSession();
+      session.startTransaction();
+      
+      try {
+        const shipped: IInventoryItem[] = [];
+        
+        for (const line of transferOrder.items) {
+          if (line.approvedQuantity === 0) continue;
+          
+          const sourceInventory = await this.inventoryModel.findOne({ 
+            productId: line.productId, 
+            storeId: transferOrder.fromStoreId 
+          }).session(session);
+          
+          if (!sourceInventory) {
+            await session.abortTransaction();
+            res.status(404).json({ message: `Source inventory not found for ${line.sku}` });
+            return;
+          }
+          
+          if (await this.isInventoryFrozen(sourceInventory.inventoryId)) {
+            await session.abortTransaction();
+            res.status(409).json({ message: `${line.sku} is frozen by a stocktake in progress` });
+            return;
+          }
+          
+          const availableQuantity = sourceInventory.quantity - sourceInventory.reservedQuantity;
+          
+          if (availableQuantity < line.approvedQuantity) {
+            await session.abortTransaction();
+            res.status(400).json({ 
+              message: `Insufficient inventory for ${line.sku}. Available: ${availableQuantity}, Approved: ${line.approvedQuantity}` 
+            });
+            return;
+          }
+          
+          const previousQuantity = sourceInventory.quantity;
+          sourceInventory.quantity -= line.approvedQuantity;
+          
+          // Lots travel with the stock and arrive under the same number
+          const lotExpiry = new Map(sourceInventory.lots.map(lot => [lot.lotId, lot.expirationDate]));
+          const lots = this.trimLots(sourceInventory);
+          const cost = await this.costMovement(sourceInventory, previousQuantity);
+          
+          await sourceInventory.save({ session });
+          
+          // The destination sees the stock as inbound until it is received
+          const destInventory = await this.getDestinationInventory(sourceInventory, transferOrder.toStoreId, session);
+          destInventory.inTransitQuantity += line.approvedQuantity;
+          await destInventory.save({ session });
+          
+          const transaction = new this.transactionModel({
+            transactionId: uuidv4(),
+            inventoryId: sourceInventory.inventoryId,
+            productId: sourceInventory.productId,
+            sku: sourceInventory.sku,
+            storeId: transferOrder.fromStoreId,
+            type: 'TRANSFER',
+            quantity: -line.approvedQuantity,
+            previousQuantity,
+            newQuantity: sourceInventory.quantity,
+            referenceId: transferOrder.transferOrderId,
+            lots,
+            unitCost: cost.unitCost,
+            totalCost: cost.totalCost,
+            reason: `Transfer to ${transferOrder.toStoreId} shipped`,
+            performedBy: (req as any).user.userId
+          });
+          
+          await transaction.save({ session });
+          
+          line.shippedQuantity = line.approvedQuantity;
+          line.unitCost = cost.unitCost;
+          line.lots = lots.map(lot => ({ ...lot, quantity: -lot.quantity, expirationDate: lotExpiry.get(lot.lotId) }));
+          shipped.push(sourceInventory);
+        }
+        
+        transferOrder.status = 'IN_TRANSIT';
+        transferOrder.shippedBy = (req as any).user.userId;
+        transferOrder.shippedAt = new Date();
+        
+        if (deliveryId) {
+          transferOrder.deliveryId = deliveryId;
+        }
+        
+        await transferOrder.save({ session });
+        
+        // Commit transaction
+        await session.commitTransaction();
+        
+        // Publish inventory updated events
+        for (const sourceInventory of shipped) {
+          const line = transferOrder.items.find(item => item.productId === sourceInventory.productId)!;
+          
+          await this.messageBus.publish('inventory', 'inventory.updated', {
+            inventoryId: sourceInventory.inventoryId,
+            productId: sourceInventory.productId,
+            sku: sourceInventory.sku,
+            storeId: transferOrder.fromStoreId,
+            quantity: sourceInventory.quantity,
+            change: -line.shippedQuantity,
+            timestamp: new Date().toISOString()
+          });
+        }
+        
+        // Publish transfer order shipped event; the delivery service picks up requested deliveries
+        await this.messageBus.publish('inventory', 'transfer-order.shipped', {
+          transferOrderId: transferOrder.transferOrderId,
+          fromStoreId: transferOrder.fromStoreId,
+          toStoreId: transferOrder.toStoreId,
+          requestDelivery: transferOrder.requestDelivery && !transferOrder.deliveryId,
+          deliveryId: transferOrder.deliveryId,
+          items: transferOrder.items
+            .filter(line => line.shippedQuantity > 0)
+            .map(line => ({ productId: line.productId, sku: line.sku, quantity: line.shippedQuantity })),
+          timestamp: new Date().toISOString()
+        });
+        
+        res.status(200).json(this.formatTransferOrder(transferOrder));
+      } catch (error) {
+        // Abort transaction on error
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        // End session
+        session.endSession();
+      }
+    } catch (error) {
+      this.logger.error(`Ship transfer order error: ${error}`);
+      res.status(500).json({ message: 'Failed to ship transfer order' });
+    }
+  }
+
+  /**
+   * Receive a shipped transfer at the destination, in one or more receipts. Closing
+   * the transfer reports any units that never arrived as discrepancies
+   */
+  private async receiveTransferOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { items = [], close = false, reason } = req.body;
+      const userId = (req as any).user.userId;
+      
+      if (!items.length && !close) {
+        res.status(400).json({ message: 'Items are required unless closing the transfer' });
+        return;
+      }
+      
+      const transferOrder = await this.transferOrderModel.findOne({ transferOrderId: req.params.id });
+      
+      if (!transferOrder) {
+        res.status(404).json({ message: 'Transfer order not found' });
+        return;
+      }
+      
+      if (transferOrder.status !== 'IN_TRANSIT' && transferOrder.status !== 'PARTIALLY_RECEIVED') {
+        res.status(400).json({ message: `Cannot receive a transfer order in ${transferOrder.status} status` });
+        return;
+      }
+      
+      // Validate receipt lines against what was shipped
+      const receipts: { line: ITransferOrderLine; quantity: number }[] = [];
+      
+      for (const item of items) {
+        const { productId, sku, quantity } = item;
+        const line = transferOrder.items.find(candidate => 
+          (productId && candidate.productId === productId) || (sku && candidate.sku === sku));
+        
+        if (!line) {
+          res.status(400).json({ message: `${productId || sku} is not on this transfer order` });
+          return;
+        }
+        
+        if (quantity === undefined || quantity < 0) {
+          res.status(400).json({ message: `A quantity is required for ${line.sku}` });
+          return;
+        }
+        
+        if (line.receivedQuantity + quantity > line.shippedQuantity) {
+          res.status(400).json({ 
+            message: `Cannot receive more ${line.sku} than shipped. Shipped: ${line.shippedQuantity}, Received: ${line.receivedQuantity}` 
+          });
+          return;
+        }
+        
+        if (quantity > 0) {
+          receipts.push({ line, quantity });
+        }
+      }
+      
+      // Start a session for transaction
+      const session = await mongoose.startSession();
+      session.startTransaction();
+      
+      try {
+        const received: { inventory: IInventoryItem; change: number }[] = [];
+        
+        for (const { line, quantity } of receipts) {
+          const destInventory = await this.inventoryModel.findOne({ 
+            productId: line.productId, 
+            storeId: transferOrder.toStoreId 
+          }).session(session);
+          
+          if (!destInventory) {
+            await session.abortTransaction();
+            res.status(404).json({ message: `Destination inventory not found for ${line.sku}` });
+            return;
+          }
+          
+          if (await this.isInventoryFrozen(destInventory.inventoryId)) {
+            await session.abortTransaction();
+            res.status(409).json({ message: `${line.sku} is frozen by a stocktake in progress` });
+            return;
+          }
+          
+          const previousQuantity = destInventory.quantity;
+          destInventory.quantity += quantity;
+          destInventory.inTransitQuantity = Math.max(0, destInventory.inTransitQuantity - quantity);
+          destInventory.lastRestockedAt = new Date();
+          
+          const lots = this.receiveTransferLots(destInventory, line, quantity);
+          
+          // Stock arrives at the cost it left the source store
+          const cost = await this.costMovement(destInventory, previousQuantity, line.unitCost, transferOrder.transferOrderId);
+          
+          await destInventory.save({ session });
+          
+          const transaction = new this.transactionModel({
+            transactionId: uuidv4(),
+            inventoryId: destInventory.inventoryId,
+            productId: destInventory.productId,
+            sku: destInventory.sku,
+            storeId: transferOrder.toStoreId,
+            type: 'TRANSFER',
+            quantity,
+            previousQuantity,
+            newQuantity: destInventory.quantity,
+            referenceId: transferOrder.transferOrderId,
+            lots,
+            unitCost: cost.unitCost,
+            totalCost: cost.totalCost,
+            reason: `Transfer from ${transferOrder.fromStoreId} received`,
+            performedBy: userId
+          });
+          
+          await transaction.save({ session });
+          
+          line.receivedQuantity += quantity;
+          received.push({ inventory: destInventory, change: quantity });
+        }
+        
+        const fullyReceived = transferOrder.items.every(line => line.receivedQuantity >= line.shippedQuantity);
+        const discrepancies: ITransferDiscrepancy[] = [];
+        const transitLosses: IWriteOff[] = [];
+        
+        if (fullyReceived || close) {
+          // Units still outstanding are reported missing, no longer inbound, and written off as lost in transit
+          for (const line of transferOrder.items) {
+            const shortage = line.shippedQuantity - line.receivedQuantity;
+            
+            if (shortage <= 0) continue;
+            
+            discrepancies.push({
+              productId: line.productId,
+              sku: line.sku,
+              shipped: line.shippedQuantity,
+              received: line.receivedQuantity,
+              shortage,
+              reason,
+              reportedBy: userId,
+              reportedAt: new Date()
+            });
+            
+            const destInventory = await this.inventoryModel.findOne({ 
+              productId: line.productId, 
+              storeId: transferOrder.toStoreId 
+            }).session(session);
+            
+            if (destInventory) {
+              destInventory.inTransitQuantity = Math.max(0, destInventory.inTransitQuantity - shortage);
+              await destInventory.save({ session });
+              
+              transitLosses.push(await this.recordTransitLoss(transferOrder, line, destInventory, shortage, reason, userId, session));
+            }
+          }
+          
+          transferOrder.discrepancies.push(...discrepancies);
+          transferOrder.status = 'RECEIVED';
+          transferOrder.receivedBy = userId;
+          transferOrder.receivedAt = new Date();
+        } else {
+          transferOrder.status = 'PARTIALLY_RECEIVED';
+        }
+        
+        await transferOrder.save({ session });
+        
+        // Commit transaction
+        await session.commitTransaction();
+        
+        // Publish inventory updated events
+        for (const { inventory, change } of received) {
+          await this.messageBus.publish('inventory', 'inventory.updated', {
+            inventoryId: inventory.inventoryId,
+            productId: inventory.productId,
+            sku: inventory.sku,
+            storeId: transferOrder.toStoreId,
+            quantity: inventory.quantity,
+            change,
+            timestamp: new Date().toISOString()
+          });
+        }
+        
+        // Publish transfer order received event
+        await this.messageBus.publish('inventory', 'transfer-order.received', {
+          transferOrderId: transferOrder.transferOrderId,
+          fromStoreId: transferOrder.fromStoreId,
+          toStoreId: transferOrder.toStoreId,
+          status: transferOrder.status,
+          items: receipts.map(({ line, quantity }) => ({ productId: line.productId, sku: line.sku, quantity })),
+          timestamp: new Date().toISOString()
+        });
+        
+        if (discrepancies.length > 0) {
+          await this.messageBus.publish('inventory', 'transfer-order.discrepancy', {
+            transferOrderId: transferOrder.transferOrderId,
+            fromStoreId: transferOrder.fromStoreId,
+            toStoreId: transferOrder.toStoreId,
+            discrepancies,
+            timestamp: new Date().toISOString()
+          });
+        }
+        
+        for (const writeOff of transitLosses) {
+          await this.messageBus.publish('inventory', 'inventory.write-off.posted', {
+            writeOffId: writeOff.writeOffId,
+            storeId: writeOff.storeId,
+            productId: writeOff.productId,
+            sku: writeOff.sku,
+            quantity: writeOff.quantity,
+            reasonCode: writeOff.reasonCode,
+            reasonType: writeOff.reasonType,
+            totalCost: writeOff.totalCost,
+            timestamp: new Date().toISOString()
+          });
+        }
+        
+        res.status(200).json(this.formatTransferOrder(transferOrder));
+      } catch (error) {
+        // Abort transaction on error
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        // End session
+        session.endSession();
+      }
+    } catch (error) {
+      this.logger.error(`Receive transfer order error: ${error}`);
+      res.status(500).json({ message: 'Failed to receive transfer order' });
+    }
+  }
+
+  /**
+   * Record units that never arrived on a transfer as a loss at the destination: they are booked
+   * in at the cost they left the source and straight back out as an ADJUSTMENT, so on-hand stock
+   * is unchanged, and a posted write-off puts the cost in the shrinkage figures
+   */
+  private async recordTransitLoss(
+    transferOrder: ITransferOrder, 
+    line: ITransferOrderLine, 
+    destInventory: IInventoryItem, 
+    shortage: number, 
+    reason: string | undefined, 
+    userId: string, 
+    session: mongoose.ClientSession
+  ): Promise<IWriteOff> {
+    const unitCost = line.unitCost || 0;
+    const totalCost = parseFloat((shortage * unitCost).toFixed(2));
+    const writeOffId = uuidv4();
+    const transactionId = uuidv4();
+    const product = await this.productModel.findOne({ productId: line.productId }).session(session);
+    
+    // The missing units arrive on paper at the cost they left the source
+    const transfer = new this.transactionModel({
+      transactionId: uuidv4(),
+      inventoryId: destInventory.inventoryId,
+      productId: destInventory.productId,
+      sku: destInventory.sku,
+      storeId: transferOrder.toStoreId,
+      type: 'TRANSFER',
+      quantity: shortage,
+      previousQuantity: destInventory.quantity,
+      newQuantity: destInventory.quantity + shortage,
+      referenceId: transferOrder.transferOrderId,
+      unitCost,
+      totalCost,
+      reason: `Transfer from ${transferOrder.fromStoreId} short`,
+      performedBy: userId
+    });
+    
+    await transfer.save({ session });
+    
+    // The loss takes them straight back out
+    const adjustment = new this.transactionModel({
+      transactionId,
+      inventoryId: destInventory.inventoryId,
+      productId: destInventory.productId,
+      sku: destInventory.sku,
+      storeId: transferOrder.toStoreId,
+      type: 'ADJUSTMENT',
+      quantity: -shortage,
+      previousQuantity: destInventory.quantity + shortage,
+      newQuantity: destInventory.quantity,
+      referenceId: writeOffId,
+      unitCost,
+      totalCost: -totalCost,
+      reason: 'Lost in transit',
+      reasonCode: 'TRANSIT_LOSS',
+      performedBy: userId,
+      notes: reason || `Missing from transfer ${transferOrder.transferOrderId}`
+    });
+    
+    await adjustment.save({ session });
+    
+    const writeOff = new this.writeOffModel({
+      writeOffId,
+      storeId: transferOrder.toStoreId,
+      inventoryId: destInventory.inventoryId,
+      productId: destInventory.productId,
+      sku: destInventory.sku,
+      category: product?.category,
+      categoryId: product?.categoryId,
+      quantity: shortage,
+      reasonCode: 'TRANSIT_LOSS',
+      reasonType: 'OTHER',
+      photoUrls: [],
+      status: 'POSTED',
+      estimatedValue: totalCost,
+      unitCost,
+      totalCost,
+      transactionId,
+      requestedBy: userId,
+      notes: reason || `Missing from transfer ${transferOrder.transferOrderId}`,
+      postedAt: new Date()
+    });
+    
+    await writeOff.save({ session });
+    
+    return writeOff;
+  }
+
+  /**
+   * Cancel a transfer order before it ships
+   */
+  private async cancelTransferOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { reason } = req.body;
+      
+      const transferOrder = await this.transferOrderModel.findOne({ transferOrderId: req.params.id });
+      
+      if (!transferOrder) {
+        res.status(404).json({ message: 'Transfer order not found' });
+        return;
+      }
+      
+      if (transferOrder.status !== 'REQUESTED' && transferOrder.status !== 'APPROVED') {
+        res.status(400).json({ 
+          message: `Cannot cancel a transfer order in ${transferOrder.status} status; shipped transfers are closed by receiving them` 
+        });
+        return;
+      }
+      
+      transferOrder.status = 'CANCELLED';
+      transferOrder.cancellationReason = reason;
+      transferOrder.cancelledAt = new Date();
+      await transferOrder.save();
+      
+      // Publish transfer order cancelled event
+      await this.messageBus.publish('inventory', 'transfer-order.cancelled', {
+        transferOrderId: transferOrder.transferOrderId,
+        fromStoreId: transferOrder.fromStoreId,
+        toStoreId: transferOrder.toStoreId,
+        reason,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(200).json(this.formatTransferOrder(transferOrder));
+    } catch (error) {
+      this.logger.error(`Cancel transfer order error: ${error}`);
+      res.status(500).json({ message: 'Failed to cancel transfer order' });
+    }
+  }
+
+  /**
+   * Find an item's inventory at another store, creating it with the source's settings
+   * if that store has never stocked the item
+   */
+  private async getDestinationInventory(
+    sourceInventory: IInventoryItem, 
+    storeId: string, 
+    session: mongoose.ClientSession
+  ): Promise<IInventoryItem> {
+    const destInventory = await this.inventoryModel.findOne({ 
+      productId: sourceInventory.productId, 
+      storeId 
+    }).session(session);
+    
+    if (destInventory) {
+      return destInventory;
+    }
+    
+    return new this.inventoryModel({
+      inventoryId: uuidv4(),
+      productId: sourceInventory.productId,
+      sku: sourceInventory.sku,
+      storeId,
+      quantity: 0,
+      reservedQuantity: 0,
+      backorderEnabled: sourceInventory.backorderEnabled,
+      backorderLimit: sourceInventory.backorderLimit,
+      reorderPoint: sourceInventory.reorderPoint,
+      reorderQuantity: sourceInventory.reorderQuantity
+    });
+  }
+
+  /**
+   * Put received transfer units into the lots they shipped from, in shipping order,
+   * skipping units an earlier receipt already took
+   */
+  private receiveTransferLots(destInventory: IInventoryItem, line: ITransferOrderLine, quantity: number): ILotAllocation[] {
+    const allocations: ILotAllocation[] = [];
+    let alreadyReceived = line.receivedQuantity;
+    let remaining = quantity;
+    
+    for (const lot of line.lots) {
+      if (remaining <= 0) break;
+      
+      const skipped = Math.min(alreadyReceived, lot.quantity);
+      alreadyReceived -= skipped;
+      
+      const take = Math.min(remaining, lot.quantity - skipped);
+      
+      if (take > 0) {
+        allocations.push(this.addToLot(destInventory, lot.lotNumber, take, lot.expirationDate));
+        remaining -= take;
+      }
+    }
+    
+    return allocations;
+  }
+
+  /**
+   * Track the delivery carrying a transfer order
+   */
+  private async handleTransferDeliveryEvent(content: any, routingKey: string): Promise<void> {
+    try {
+      const { deliveryId, orderId } = content;
+      
+      if (!deliveryId || !orderId) {
+        return;
+      }
+      
+      // Deliveries raised for a transfer carry the transfer order ID as their order ID
+      const transferOrder = await this.transferOrderModel.findOne({
+        $or: [
+          { deliveryId },
+          { transferOrderId: orderId }
+        ]
+      });
+      
+      if (!transferOrder) {
+        return;
+      }
+      
+      switch (routingKey) {
+        case 'delivery.created':
+          transferOrder.deliveryId = transferOrder.deliveryId || deliveryId;
+          transferOrder.deliveryStatus = 'PENDING';
+          break;
+        case 'delivery.started':
+          transferOrder.deliveryStatus = 'IN_TRANSIT';
+          break;
+        case 'delivery.completed':
+          transferOrder.deliveryStatus = 'DELIVERED';
+          transferOrder.deliveredAt = content.actualDeliveryTime ? new Date(content.actualDeliveryTime) : new Date();
+          break;
+        case 'delivery.cancelled':
+          transferOrder.deliveryStatus = 'CANCELLED';
+          break;
+      }
+      
+      await transferOrder.save();
+      
+      this.logger.info(`Transfer order ${transferOrder.transferOrderId} delivery ${deliveryId} is ${transferOrder.deliveryStatus}`);
+    } catch (error) {
+      this.logger.error(`Handle transfer delivery event error: ${error}`);
+    }
+  }
+
+  /**
+   * Format a transfer order for API responses
+   */
+  private formatTransferOrder(transferOrder: ITransferOrder): Record<string, any> {
+    return {
+      transferOrderId: transferOrder.transferOrderId,
+      fromStoreId: transferOrder.fromStoreId,
+      toStoreId: transferOrder.toStoreId,
+      status: transferOrder.status,
+      items: transferOrder.items.map(line => ({
+        productId: line.productId,
+        sku: line.sku,
+        requestedQuantity: line.requestedQuantity,
+        approvedQuantity: line.approvedQuantity,
+        shippedQuantity: line.shippedQuantity,
+        receivedQuantity: line.receivedQuantity,
+        inTransitQuantity: transferOrder.status === 'RECEIVED' ? 0 : line.shippedQuantity - line.receivedQuantity,
+        unitCost: line.unitCost,
+        lots: line.lots
+      })),
+      discrepancies: transferOrder.discrepancies,
+      requestDelivery: transferOrder.requestDelivery,
+      deliveryId: transferOrder.deliveryId,
+      deliveryStatus: transferOrder.deliveryStatus,
+      requestedBy: transferOrder.requestedBy,
+      approvedBy: transferOrder.approvedBy,
+      shippedBy: transferOrder.shippedBy,
+      receivedBy: transferOrder.receivedBy,
+      cancellationReason: transferOrder.cancellationReason,
+      notes: transferOrder.notes,
+      createdAt: transferOrder.createdAt,
+      approvedAt: transferOrder.approvedAt,
+      shippedAt: transferOrder.shippedAt,
+      deliveredAt: transferOrder.deliveredAt,
+      receivedAt: transferOrder.receivedAt,
+      cancelledAt: transferOrder.cancelledAt
+    };
+  }
+
+  /**
+   * Reserve inventory for an order. Reservations lapse after RESERVATION_TTL_MINUTES unless an
+   * expiresAt is given; a null expiresAt (a confirmed order) never lapses
+   */
+  private async reserveInventory(req: Request, res: Response): Promise<void> {
+    try {
+      const { orderId, items, storeId, expiresAt } = req.body;
+      
+      // Validate input
+      if (!orderId || !items || !items.length || !storeId) {
+        res.status(400).json({ message: 'Order ID, items, and store ID are required' });
+        return;
+      }
+      
+      const reservationExpiresAt = expiresAt === null 
+        ? undefined 
+        : expiresAt 
+          ? new Date(expiresAt) 
+          : new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000);
+      
+      // Start a session for transaction
+      const session = await mongoose.startSession();
+      session.startTransaction();
+      
+      try {
+        const results = [];
+        let success = true;
+        let errorMessage = '';
+        
+        // Process each item
+        for (const item of items) {
+          const { productId, sku, quantity, serialNumbers = [] } = item;
+          
+          if ((!productId && !sku) || !quantity || quantity <= 0) {
+            success = false;
+            errorMessage = 'Each item must have product ID or SKU, and positive quantity';
+            break;
+          }
+          
+          // Find inventory
+          let inventory;
+          if (productId) {
+            inventory = await this.inventoryModel.findOne({ productId, storeId }).session(session);
+          } else {
+            inventory = await this.inventoryModel.findOne({ sku, storeId }).session(session);
+          }
+          
+          if (!inventory) {
+            success = false;
+            errorMessage = `Inventory not found for ${productId || sku}`;
+            break;
+          }
+          
+          // Check if enough inventory is available; expired lots cannot be sold
+          const availableQuantity = inventory.quantity - inventory.reservedQuantity - this.getExpiredLotQuantity(inventory);
+          
+          if (availableQuantity < quantity && !inventory.backorderEnabled) {
+            success = false;
+            errorMessage = `Insufficient inventory for ${inventory.sku}. Available: ${availableQuantity}, Requested: ${quantity}`;
+            break;
+          }
+          
+          // Check backorder limit if applicable
+          if (availableQuantity < quantity && inventory.backorderEnabled) {
+            const backorderNeeded = quantity - availableQuantity;
+            if (backorderNeeded > inventory.backorderLimit) {
+              success = false;
+              errorMessage = `Exceeds backorder limit for ${inventory.sku}. Limit: ${inventory.backorderLimit}, Needed: ${backorderNeeded}`;
+              break;
+            }
+          }
+          
+          // Serialized products reserve the exact units scanned at the till
+          const serialError = await this.reserveSerialNumbers(inventory, serialNumbers, quantity, orderId, (req as any).user.userId, session);
+          
+          if (serialError) {
+            success = false;
+            errorMessage = serialError;
+            break;
+          }
+          
+          // Record previous quantities
+          const previousReserved = inventory.reservedQuantity;
+          
+          // Update reserved quantity, allocating lots first-expiry-first-out
+          inventory.reservedQuantity += quantity;
+          const lots = this.allocateLots(inventory, quantity);
+          await inventory.save({ session });
+          
+          // Create transaction record
+          const transactionId = uuidv4();
+          const transaction = new this.transactionModel({
+            transactionId,
+            inventoryId: inventory.inventoryId,
+            productId: inventory.productId,
+            sku: inventory.sku,
+            storeId,
+            type: 'RESERVE',
+            quantity,
+            previousQuantity: previousReserved,
+            newQuantity: inventory.reservedQuantity,
+            orderId,
+            lots,
+            serialNumbers: serialNumbers.length > 0 ? serialNumbers : undefined,
+            reason: 'Order reservation',
+            performedBy: (req as any).user.userId
+          });
+          
+          await transaction.save({ session });
+          
+          const reservation = new this.reservationModel({
+            reservationId: uuidv4(),
+            orderId,
+            inventoryId: inventory.inventoryId,
+            productId: inventory.productId,
+            sku: inventory.sku,
+            storeId,
+            quantity,
+            originalQuantity: quantity,
+            status: 'ACTIVE',
+            expiresAt: reservationExpiresAt,
+            createdBy: (req as any).user.userId
+          });
+          
+          await reservation.save({ session });
+          
+          results.push({
+            productId: inventory.productId,
+            sku: inventory.sku,
+            quantity,
+            available: availableQuantity,
+            isBackordered: quantity > availableQuantity,
+            lots,
+            transaction: transactionId,
+            reservation: reservation.reservationId,
+            expiresAt: reservationExpiresAt
+          });
+        }
+        
+        if (!success) {
+          await session.abortTransaction();
+          session.endSession();
+          res.status(400).json({ message: errorMessage });
+          return;
+        }
+        
+        // Commit transaction
+        await session.commitTransaction();
+        
+        // Publish inventory reserved event
+        await this.messageBus.publish('inventory', 'inventory.reserved', {
+          orderId,
+          storeId,
+          items: results,
+          timestamp: new Date().toISOString()
+        });
+        
+        // Publish inventory allocated event (for order service)
+        await this.messageBus.publish('inventory', 'inventory.allocated', {
+          orderId,
+          storeId,
+          items: results,
+          timestamp: new Date().toISOString()
+        });
+        
+        res.status(200).json({
+          orderId,
+          storeId,
+          items: results,
+          success: true
+        });
+      } catch (error) {
+        // Abort transaction on error
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        // End session
+        session.endSession();
+      }
+    } catch (error) {
+      this.logger.error(`Reserve inventory error: ${error}`);
+      res.status(500).json({ message: 'Failed to reserve inventory' });
+    }
+  }
+
+  /**
+   * Release reserved inventory
+   */
+  private async releaseInventory(req: Request, res: Response): Promise<void> {
+    try {
+      const { orderId, items, storeId, reason, expired = false } = req.body;
+      
+      // Validate input
+      if (!orderId || !storeId) {
+        res.status(400).json({ message: 'Order ID and store ID are required' });
+        return;
+      }
+      
+      // If no items specified, find all reservations for this order
+      let itemsToRelease = items;
+      if (!itemsToRelease || !itemsToRelease.length) {
+        const transactions = await this.transactionModel.find({
+          orderId,
+          storeId,
+          type: { $in: ['RESERVE', 'UNRESERVE', 'SALE'] }
+        });
+        
+        // Net what the order still holds; sold stock is no longer reserved
+        const held = new Map<string, { productId: string; sku: string; quantity: number }>();
+        
+        for (const t of transactions) {
+          const entry = held.get(t.productId);
+          
+          if (entry) {
+            entry.quantity += t.quantity;
+          } else {
+            held.set(t.productId, { productId: t.productId, sku: t.sku, quantity: t.quantity });
+          }
+        }
+        
+        itemsToRelease = Array.from(held.values()).filter(item => item.quantity > 0);
+      }
+      
+      if (!itemsToRelease.length) {
+        res.status(404).json({ message: 'No reserved inventory found for this order' });
+        return;
+      }
+      
+      // Start a session for transaction
+      const session = await mongoose.startSession();
+      session.startTransaction();
+      
+      try {
+        const results = [];
+        
+        // Process each item
+        for (const item of itemsToRelease) {
+          const { productId, sku, quantity } = item;
+          
+          // Find inventory
+          let inventory;
+          if (productId) {
+            inventory = await this.inventoryModel.findOne({ productId, storeId }).session(session);
+          } else {
+            inventory = await this.inventoryModel.findOne({ sku, storeId }).session(session);
+          }
+          
+          if (!inventory) {
+            continue; // Skip if inventory not found
+          }
+          
+          // Record previous quantities
+          const previousReserved = inventory.reservedQuantity;
+          
+          // Calculate quantity to release (don't go below 0)
+          const releaseQuantity = Math.min(previousReserved, quantity || previousReserved);
+          
+          // Update reserved quantity and hand back the order's lots
+          inventory.reservedQuantity = Math.max(0, previousReserved - releaseQuantity);
+          const lots = await this.releaseLots(inventory, orderId, releaseQuantity);
+          await inventory.save({ session });
+          
+          await this.settleReservations(
+            orderId, 
+            inventory.inventoryId, 
+            releaseQuantity, 
+            expired ? 'EXPIRED' : 'RELEASED', 
+            reason || 'Reservation release', 
+            session
+          );
+          
+          // Reserved serials go back on the shelf
+          const serials = await this.serialNumberModel.find({ 
+            productId: inventory.productId, 
+            orderId, 
+            status: 'RESERVED' 
+          }).session(session);
+          const serialNumbers = serials.slice(0, releaseQuantity).map(serial => serial.serialNumber);
+          
+          if (serialNumbers.length > 0) {
+            await this.serialNumberModel.updateMany(
+              { productId: inventory.productId, serialNumber: { $in: serialNumbers } },
+              { 
+                $set: { status: 'IN_STOCK' }, 
+                $unset: { orderId: 1 },
+                $push: { history: { status: 'IN_STOCK', at: new Date(), referenceId: orderId, notes: reason || 'Reservation release' } }
+              },
+              { session }
+            );
+          }
+          
+          // Create transaction record
+          const transactionId = uuidv4();
+          const transaction = new this.transactionModel({
+            transactionId,
+            inventoryId: inventory.inventoryId,
+            productId: inventory.productId,
+            sku: inventory.sku,
+            storeId,
+            type: 'UNRESERVE',
+            quantity: -releaseQuantity,
+            previousQuantity: previousReserved,
+            newQuantity: inventory.reservedQuantity,
+            orderId,
+            lots,
+            serialNumbers: serialNumbers.length > 0 ? serialNumbers : undefined,
+            reason: reason || 'Reservation release',
+            performedBy: (req as any).user.userId
+          });
+          
+          await transaction.save({ session });
+          
+          results.push({
+            productId: inventory.productId,
+            sku: inventory.sku,
+            quantityReleased: releaseQuantity,
+            transaction: transactionId
+          });
+        }
+        
+        // Commit transaction
+        await session.commitTransaction();
+        
+        // Publish inventory released event
+        await this.messageBus.publish('inventory', 'inventory.released', {
+          orderId,
+          storeId,
+          items: results,
+          reason,
+          timestamp: new Date().toISOString()
+        });
+        
+        res.status(200).json({
+          orderId,
+          storeId,
+          items: results,
+          success: true
+        });
+      } catch (error) {
+        // Abort transaction on error
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        // End session
+        session.endSession();
+      }
+    } catch (error) {
+      this.logger.error(`Release inventory error: ${error}`);
+      res.status(500).json({ message: 'Failed to release inventory' });
+    }
+  }
+
+  /**
+   * List reservations; filtering by SKU or product also reconciles each store's
+   * reserved quantity against its active reservations
+   */
+  private async getReservations(req: Request, res: Response): Promise<void> {
+    try {
+      const { sku, productId, storeId, orderId, status, page = 1, limit = 10 } = req.query;
+      
+      const query: any = {};
+      
+      if (sku) query.sku = sku;
+      if (productId) query.productId = productId;
+      if (storeId) query.storeId = storeId;
+      if (orderId) query.orderId = orderId;
+      if (status) query.status = status;
+      
+      // Parse pagination
+      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+      
+      const reservations = await this.reservationModel
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(parseInt(limit as string));
+      
+      const total = await this.reservationModel.countDocuments(query);
+      
+      // Reserved stock no active reservation accounts for is locked with nothing to release it
+      let stock;
+      
+      if (sku || productId) {
+        const inventoryQuery: any = sku ? { sku } : { productId };
+        
+        if (storeId) inventoryQuery.storeId = storeId;
+        
+        const inventories = await this.inventoryModel.find(inventoryQuery);
+        const active = await this.reservationModel.find({ 
+          inventoryId: { $in: inventories.map(inventory => inventory.inventoryId) }, 
+          status: 'ACTIVE' 
+        });
+        const now = new Date();
+        
+        stock = inventories.map(inventory => {
+          const held = active.filter(reservation => reservation.inventoryId === inventory.inventoryId);
+          const trackedQuantity = held.reduce((sum, reservation) => sum + reservation.quantity, 0);
+          
+          return {
+            inventoryId: inventory.inventoryId,
+            storeId: inventory.storeId,
+            quantity: inventory.quantity,
+            reservedQuantity: inventory.reservedQuantity,
+            availableQuantity: inventory.quantity - inventory.reservedQuantity,
+            activeReservations: held.length,
+            trackedQuantity,
+            overdueQuantity: held
+              .filter(reservation => reservation.expiresAt && reservation.expiresAt <= now)
+              .reduce((sum, reservation) => sum + reservation.quantity, 0),
+            untrackedQuantity: inventory.reservedQuantity - trackedQuantity
+          };
+        });
+      }
+      
+      res.status(200).json({
+        reservations: reservations.map(reservation => this.formatReservation(reservation)),
+        stock,
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total,
+          pages: Math.ceil(total / parseInt(limit as string))
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Get reservations error: ${error}`);
+      res.status(500).json({ message: 'Failed to get reservations' });
+    }
+  }
+
+  /**
+   * Get a reservation with the order's reservation movements for its item
+   */
+  private async getReservation(req: Request, res: Response): Promise<void> {
+    try {
+      const reservation = await this.reservationModel.findOne({ reservationId: req.params.id });
+      
+      if (!reservation) {
+        res.status(404).json({ message: 'Reservation not found' });
+        return;
+      }
+      
+      const transactions = await this.transactionModel.find({
+        orderId: reservation.orderId,
+        inventoryId: reservation.inventoryId,
+        type: { $in: ['RESERVE', 'UNRESERVE', 'SALE'] }
+      }).sort({ createdAt: 1 });
+      
+      res.status(200).json({
+        ...this.formatReservation(reservation),
+        transactions: transactions.map(transaction => ({
+          transactionId: transaction.transactionId,
+          type: transaction.type,
+          quantity: transaction.quantity,
+          reason: transaction.reason,
+          performedBy: transaction.performedBy,
+          createdAt: transaction.createdAt
+        }))
+      });
+    } catch (error) {
+      this.logger.error(`Get reservation error: ${error}`);
+      res.status(500).json({ message: 'Failed to get reservation' });
+    }
+  }
+
+  /**
+   * Release a reservation by hand, e.g. one left behind by an abandoned order
+   */
+  private async releaseReservation(req: Request, res: Response): Promise<void> {
+    try {
+      const reservation = await this.reservationModel.findOne({ reservationId: req.params.id });
+      
+      if (!reservation) {
+        res.status(404).json({ message: 'Reservation not found' });
+        return;
+      }
+      
+      if (reservation.status !== 'ACTIVE') {
+        res.status(400).json({ message: `Cannot release a reservation in ${reservation.status} status` });
+        return;
+      }
+      
+      await this.releaseInventory({
+        body: {
+          orderId: reservation.orderId,
+          storeId: reservation.storeId,
+          items: [{ productId: reservation.productId, quantity: reservation.quantity }],
+          reason: req.body.reason || 'Released manually'
+        },
+        user: (req as any).user
+      } as any, res);
+    } catch (error) {
+      this.logger.error(`Release reservation error: ${error}`);
+      res.status(500).json({ message: 'Failed to release reservation' });
+    }
+  }
+
+  /**
+   * Close an order's active reservations on an item, oldest first, as stock is
+   * released or sold
+   */
+  private async settleReservations(
+    orderId: string, 
+    inventoryId: string, 
+    quantity: number, 
+    status: IReservation['status'], 
+    reason: string, 
+    session: mongoose.ClientSession
+  ): Promise<void> {
+    const reservations = await this.reservationModel
+      .find({ orderId, inventoryId, status: 'ACTIVE' })
+      .sort({ createdAt: 1 })
+      .session(session);
+    let remaining = quantity;
+    
+    for (const reservation of reservations) {
+      if (remaining <= 0) break;
+      
+      const take = Math.min(remaining, reservation.quantity);
+      reservation.quantity -= take;
+      remaining -= take;
+      
+      if (reservation.quantity === 0) {
+        reservation.status = status;
+        reservation.closedAt = new Date();
+        reservation.closeReason = reason;
+      }
+      
+      await reservation.save({ session });
+    }
+  }
+
+  /**
+   * Push back the expiry of an order's active reservations while the order is being worked on
+   */
+  private async renewReservations(orderId: string): Promise<void> {
+    try {
+      if (!orderId) return;
+      
+      const now = new Date();
+      const expiresAt = new Date(now.getTime() + RESERVATION_TTL_MINUTES * 60 * 1000);
+      
+      // Reservations already running longer (e.g. a held order's) are left alone
+      const result = await this.reservationModel.updateMany(
+        { orderId, status: 'ACTIVE', expiresAt: { $lt: expiresAt } },
+        { $set: { expiresAt, renewedAt: now } }
+      );
+      
+      if (result.modifiedCount > 0) {
+        this.logger.info(`Renewed ${result.modifiedCount} reservations for order ${orderId}`);
+      }
+    } catch (error) {
+      this.logger.error(`Renew reservations error: ${error}`);
+    }
+  }
+
+  /**
+   * Start the reservation sweeper
+   */
+  private startReservationSweeper(): void {
+    // Sweep initially
+    this.releaseExpiredReservations().catch(error => 
+      this.logger.error(`Reservation sweep error: ${error}`));
+    
+    // Set up interval to sweep periodically
+    setInterval(() => this.releaseExpiredReservations().catch(error => 
+      this.logger.error(`Reservation sweep error: ${error}`)), 5 * 60 * 1000); // Sweep every 5 minutes
+  }
+
+  /**
+   * Release the stock held by expired reservations, one release per order and store
+   */
+  private async releaseExpiredReservations(): Promise<void> {
+    const expired = await this.reservationModel.find({ status: 'ACTIVE', expiresAt: { $lte: new Date() } });
+    
+    if (expired.length === 0) {
+      return;
+    }
+    
+    const releases = new Map<string, { orderId: string; storeId: string; items: { productId: string; quantity: number }[] }>();
+    
+    for (const reservation of expired) {
+      const key = `${reservation.orderId}:${reservation.storeId}`;
+      
+      if (!releases.has(key)) {
+        releases.set(key, { orderId: reservation.orderId, storeId: reservation.storeId, items: [] });
+      }
+      
+      releases.get(key)!.items.push({ productId: reservation.productId, quantity: reservation.quantity });
+    }
+    
+    for (const { orderId, storeId, items } of releases.values()) {
+      await this.releaseInventory({
+        body: {
+          orderId,
+          storeId,
+          items,
+          reason: 'Reservation expired',
+          expired: true
+        },
+        user: { userId: 'system' }
+      } as any, {
+        status: () => ({
+          json: (data: any) => {
+            if (data.success) {
+              this.logger.info(`Released expired reservations for order ${orderId}`);
+            } else {
+              this.logger.error(`Failed to release expired reservations for order ${orderId}: ${data.message}`);
+            }
+          }
+        })
+      } as any);
+    }
+    
+    // Close what the release could not account for (e.g. the inventory record is gone) so it is not swept again
+    await this.reservationModel.updateMany(
+      { 
+        reservationId: { $in: expired.map(reservation => reservation.reservationId) }, 
+        status: 'ACTIVE', 
+        expiresAt: { $lte: new Date() } 
+      },
+      { $set: { status: 'EXPIRED', closedAt: new Date(), closeReason: 'Reservation expired' } }
+    );
+  }
+
+  /**
+   * Format a reservation for API responses
+   */
+  private formatReservation(reservation: IReservation): Record<string, any> {
+    return {
+      reservationId: reservation.reservationId,
+      orderId: reservation.orderId,
+      inventoryId: reservation.inventoryId,
+      productId: reservation.productId,
+      sku: reservation.sku,
+      storeId: reservation.storeId,
+      quantity: reservation.quantity,
+      originalQuantity: reservation.originalQuantity,
+      status: reservation.status,
+      expiresAt: reservation.expiresAt,
+      isOverdue: reservation.status === 'ACTIVE' && !!reservation.expiresAt && reservation.expiresAt <= new Date(),
+      renewedAt: reservation.renewedAt,
+      closedAt: reservation.closedAt,
+      closeReason: reservation.closeReason,
+      createdBy: reservation.createdBy,
+      createdAt: reservation.createdAt
+    };
+  }
+
+  /**
+   * Get inventory transactions
+   */
+  private async getTransactions(req: Request, res: Response): Promise<void> {
+    try {
+      const { 
+        storeId, 
+        productId, 
+        sku, 
+        type, 
+        orderId, 
+        startDate, 
+        endDate, 
+        page = 1, 
+        limit = 10 
+      } = req.query;
+      
+      // Build query
+      const query: any = {};
+      
+      if (storeId) query.storeId = storeId;
+      if (productId) query.productId = productId;
+      if (sku) query.sku = sku;
+      if (type) query.type = type;
+      if (orderId) query.orderId = orderId;
+      
+      // Date range
+      if (startDate || endDate) {
+        query.createdAt = {};
+        if (startDate) query.createdAt.$gte = new Date(startDate as string);
+        if (endDate) query.createdAt.$lte = new Date(endDate as string);
+      }
+      
+      // Parse pagination
+      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+      
+      // Get transactions
+      const transactions = await this.transactionModel
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(parseInt(limit as string));
+      
+      // Get total count
+      const total = await this.transactionModel.countDocuments(query);
+      
+      res.status(200).json({
+        transactions: transactions.map(t => ({
+          transactionId: t.transactionId,
+          inventoryId: t.inventoryId,
+          productId: t.productId,
+          sku: t.sku,
+          storeId: t.storeId,
+          type: t.type,
+          quantity: t.quantity,
+          previousQuantity: t.previousQuantity,
+          newQuantity: t.newQuantity,
+          orderId: t.orderId,
+          referenceId: t.referenceId,
+          reason: t.reason,
+          performedBy: t.performedBy,
+          createdAt: t.createdAt
+        })),
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total,
+          pages: Math.ceil(total / parseInt(limit as string))
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Get transactions error: ${error}`);
+      res.status(500).json({ message: 'Failed to get transactions' });
+    }
+  }
+
+  /**
+   * Get transaction by ID
+   */
+  private async getTransaction(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      const transaction = await this.transactionModel.findOne({
+        $or: [
+          { transactionId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!transaction) {
+        res.status(404).json({ message: 'Transaction not found' });
+        return;
+      }
+      
+      res.status(200).json({
+        transactionId: transaction.transactionId,
+        inventoryId: transaction.inventoryId,
+        productId: transaction.productId,
+        sku: transaction.sku,
+        storeId: transaction.storeId,
+        type: transaction.type,
+        quantity: transaction.quantity,
+        previousQuantity: transaction.previousQuantity,
+        newQuantity: transaction.newQuantity,
+        orderId: transaction.orderId,
+        referenceId: transaction.referenceId,
+        reason: transaction.reason,
+        performedBy: transaction.performedBy,
+        notes: transaction.notes,
+        createdAt: transaction.createdAt
+      });
+    } catch (error) {
+      this.logger.error(`Get transaction error: ${error}`);
+      res.status(500).json({ message: 'Failed to get transaction' });
+    }
+  }
+
+  /**
+   * Get transactions for a product
+   */
+  private async getProductTransactions(req: Request, res: Response): Promise<void> {
+    try {
+      const { productId } = req.params;
+      const { page = 1, limit = 10 } = req.query;
+      
+      // Parse pagination
+      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+      
+      // Get transactions
+      const transactions = await this.transactionModel
+        .find({ productId })
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(parseInt(limit as string));
+      
+      // Get total count
+      const total = await this.transactionModel.countDocuments({ productId });
+      
+      // Get product details
+      const product = await this.productModel.findOne({ productId });
+      
+      res.status(200).json({
+        productId,
+        productName: product ? product.name : 'Unknown Product',
+        transactions: transactions.map(t => ({
+          transactionId: t.transactionId,
+          storeId: t.storeId,
+          type: t.type,
+          quantity: t.quantity,
+          previousQuantity: t.previousQuantity,
+          newQuantity: t.newQuantity,
+          orderId: t.orderId,
+          reason: t.reason,
+          createdAt: t.createdAt
+        })),
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total,
+          pages: Math.ceil(total / parseInt(limit as string))
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Get product transactions error: ${error}`);
+      res.status(500).json({ message: 'Failed to get product transactions' });
+    }
+  }
+
+  /**
+   * Create a new supplier
+   */
+  private async createSupplier(req: Request, res: Response): Promise<void> {
+    try {
+      const { 
         name, 
-        description, 
-        category, 
-        price, 
-        costPrice, 
-        taxRate = 0, 
-        barcode, 
-        images = [], 
-        attributes = {} 
+        contactName, 
+        email, 
+        phone, 
+        address, 
+        website, 
+        paymentTerms, 
+        leadTime, 
+        minOrderValue, 
+        matchTolerance, 
+        notes 
+      } = req.body;
+      
+      // Validate required fields
+      if (!name || !contactName || !email || !phone || !address) {
+        res.status(400).json({ message: 'Name, contact name, email, phone, and address are required' });
+        return;
+      }
+      
+      // Create supplier
+      const supplierId = uuidv4();
+      const supplier = new this.supplierModel({
+        supplierId,
+        name,
+        contactName,
+        email,
+        phone,
+        address,
+        website,
+        paymentTerms,
+        leadTime,
+        minOrderValue,
+        matchTolerance,
+        notes,
+        isActive: true
+      });
+      
+      await supplier.save();
+      
+      res.status(201).json({
+        supplierId: supplier.supplierId,
+        name: supplier.name,
+        contactName: supplier.contactName,
+        email: supplier.email,
+        phone: supplier.phone,
+        address: supplier.address,
+        createdAt: supplier.createdAt
+      });
+    } catch (error: any) {
+      this.logger.error(`Supplier creation error: ${error}`);
+      res.status(500).json({ message: 'Failed to create supplier', error: error.message });
+    }
+  }
+
+  /**
+   * Get supplier by ID
+   */
+  private async getSupplier(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      const supplier = await this.supplierModel.findOne({
+        $or: [
+          { supplierId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!supplier) {
+        res.status(404).json({ message: 'Supplier not found' });
+        return;
+      }
+      
+      res.status(200).json({
+        supplierId: supplier.supplierId,
+        name: supplier.name,
+        contactName: supplier.contactName,
+        email: supplier.email,
+        phone: supplier.phone,
+        address: supplier.address,
+        website: supplier.website,
+        paymentTerms: supplier.paymentTerms,
+        leadTime: supplier.leadTime,
+        minOrderValue: supplier.minOrderValue,
+        matchTolerance: this.getMatchTolerance(supplier),
+        notes: supplier.notes,
+        isActive: supplier.isActive,
+        createdAt: supplier.createdAt,
+        updatedAt: supplier.updatedAt
+      });
+    } catch (error) {
+      this.logger.error(`Get supplier error: ${error}`);
+      res.status(500).json({ message: 'Failed to get supplier' });
+    }
+  }
+
+  /**
+   * Update a supplier
+   */
+  private async updateSupplier(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { 
+        name, 
+        contactName, 
+        email, 
+        phone, 
+        address, 
+        website, 
+        paymentTerms, 
+        leadTime, 
+        minOrderValue, 
+        matchTolerance, 
+        notes, 
+        isActive 
+      } = req.body;
+      
+      const supplier = await this.supplierModel.findOne({
+        $or: [
+          { supplierId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!supplier) {
+        res.status(404).json({ message: 'Supplier not found' });
+        return;
+      }
+      
+      // Update fields if provided
+      if (name !== undefined) supplier.name = name;
+      if (contactName !== undefined) supplier.contactName = contactName;
+      if (email !== undefined) supplier.email = email;
+      if (phone !== undefined) supplier.phone = phone;
+      if (address !== undefined) supplier.address = address;
+      if (website !== undefined) supplier.website = website;
+      if (paymentTerms !== undefined) supplier.paymentTerms = paymentTerms;
+      if (leadTime !== undefined) supplier.leadTime = leadTime;
+      if (minOrderValue !== undefined) supplier.minOrderValue = minOrderValue;
+      if (matchTolerance !== undefined) supplier.matchTolerance = matchTolerance;
+      if (notes !== undefined) supplier.notes = notes;
+      if (isActive !== undefined) supplier.isActive = isActive;
+      
+      await supplier.save();
+      
+      res.status(200).json({
+        supplierId: supplier.supplierId,
+        name: supplier.name,
+        contactName: supplier.contactName,
+        email: supplier.email,
+        phone: supplier.phone,
+        address: supplier.address,
+        website: supplier.website,
+        paymentTerms: supplier.paymentTerms,
+        leadTime: supplier.leadTime,
+        minOrderValue: supplier.minOrderValue,
+        matchTolerance: this.getMatchTolerance(supplier),
+        isActive: supplier.isActive,
+        updatedAt: supplier.updatedAt
+      });
+    } catch (error) {
+      this.logger.error(`Update supplier error: ${error}`);
+      res.status(500).json({ message: 'Failed to update supplier' });
+    }
+  }
+
+  /**
+   * Get all suppliers
+   */
+  private async getSuppliers(req: Request, res: Response): Promise<void> {
+    try {
+      const { isActive, search, page = 1, limit = 10 } = req.query;
+      
+      // Build query
+      const query: any = {};
+      
+      if (isActive !== undefined) {
+        query.isActive = isActive === 'true';
+      }
+      
+      if (search) {
+        query.$text = { $search: search as string };
+      }
+      
+      // Parse pagination
+      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+      
+      // Get suppliers
+      const suppliers = await this.supplierModel
+        .find(query)
+        .sort({ name: 1 })
+        .skip(skip)
+        .limit(parseInt(limit as string));
+      
+      // Get total count
+      const total = await this.supplierModel.countDocuments(query);
+      
+      res.status(200).json({
+        suppliers: suppliers.map(s => ({
+          supplierId: s.supplierId,
+          name: s.name,
+          contactName: s.contactName,
+          email: s.email,
+          phone: s.phone,
+          isActive: s.isActive
+        })),
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total,
+          pages: Math.ceil(total / parseInt(limit as string))
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Get suppliers error: ${error}`);
+      res.status(500).json({ message: 'Failed to get suppliers' });
+    }
+  }
+
+  /**
+   * Add a product to a supplier's catalog
+   */
+  private async addSupplierProduct(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { 
+        productId, 
+        sku, 
+        supplierSku, 
+        packSize = 1, 
+        caseCost, 
+        effectiveFrom, 
+        minOrderQuantity = 0, 
+        leadTime, 
+        isPreferred = false 
+      } = req.body;
+      
+      if ((!productId && !sku) || caseCost === undefined) {
+        res.status(400).json({ message: 'Product ID or SKU, and case cost are required' });
+        return;
+      }
+      
+      if (!Number.isInteger(packSize) || packSize < 1 || caseCost < 0 || minOrderQuantity < 0) {
+        res.status(400).json({ message: 'Pack size must be a positive whole number, and costs and minimums cannot be negative' });
+        return;
+      }
+      
+      const supplier = await this.supplierModel.findOne({
+        $or: [
+          { supplierId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!supplier) {
+        res.status(404).json({ message: 'Supplier not found' });
+        return;
+      }
+      
+      const product = await this.productModel.findOne(productId ? { productId } : { sku });
+      
+      if (!product) {
+        res.status(404).json({ message: 'Product not found' });
+        return;
+      }
+      
+      const existing = await this.supplierProductModel.findOne({ 
+        supplierId: supplier.supplierId, 
+        productId: product.productId 
+      });
+      
+      if (existing) {
+        res.status(409).json({ message: `${product.sku} is already in this supplier's catalog` });
+        return;
+      }
+      
+      const entry = new this.supplierProductModel({
+        supplierProductId: uuidv4(),
+        supplierId: supplier.supplierId,
+        productId: product.productId,
+        sku: product.sku,
+        supplierSku,
+        packSize,
+        minOrderQuantity,
+        leadTime,
+        isPreferred: false,
+        isActive: true,
+        prices: [{ 
+          caseCost, 
+          effectiveFrom: effectiveFrom ? new Date(effectiveFrom) : new Date(), 
+          changedBy: (req as any).user.userId 
+        }]
+      });
+      
+      await entry.save();
+      
+      if (isPreferred) {
+        await this.setPreferredSupplier(entry, true);
+      }
+      
+      res.status(201).json(this.formatSupplierProduct(entry));
+    } catch (error) {
+      this.logger.error(`Add supplier product error: ${error}`);
+      res.status(500).json({ message: 'Failed to add product to supplier catalog' });
+    }
+  }
+
+  /**
+   * List a supplier's catalog
+   */
+  private async getSupplierProducts(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { isActive, page = 1, limit = 10 } = req.query;
+      
+      const query: any = { supplierId: id };
+      
+      if (isActive !== undefined) query.isActive = isActive === 'true';
+      
+      const skip = (Number(page) - 1) * Number(limit);
+      
+      const entries = await this.supplierProductModel.find(query)
+        .sort({ sku: 1 })
+        .skip(skip)
+        .limit(Number(limit));
+      
+      const total = await this.supplierProductModel.countDocuments(query);
+      
+      res.status(200).json({
+        products: entries.map(entry => this.formatSupplierProduct(entry)),
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Get supplier products error: ${error}`);
+      res.status(500).json({ message: 'Failed to get supplier products' });
+    }
+  }
+
+  /**
+   * Get a supplier catalog entry with its price history
+   */
+  private async getSupplierProduct(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, productId } = req.params;
+      
+      const entry = await this.supplierProductModel.findOne({ supplierId: id, productId });
+      
+      if (!entry) {
+        res.status(404).json({ message: 'Product not in supplier catalog' });
+        return;
+      }
+      
+      res.status(200).json({
+        ...this.formatSupplierProduct(entry),
+        priceHistory: [...entry.prices].sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime())
+      });
+    } catch (error) {
+      this.logger.error(`Get supplier product error: ${error}`);
+      res.status(500).json({ message: 'Failed to get supplier product' });
+    }
+  }
+
+  /**
+   * Update a supplier catalog entry. A new case cost is added to the price history
+   * from its effective date (now by default), so future price changes can be loaded ahead
+   */
+  private async updateSupplierProduct(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, productId } = req.params;
+      const { 
+        supplierSku, 
+        packSize, 
+        minOrderQuantity, 
+        leadTime, 
+        isPreferred, 
+        isActive, 
+        caseCost, 
+        effectiveFrom, 
+        notes 
+      } = req.body;
+      
+      const entry = await this.supplierProductModel.findOne({ supplierId: id, productId });
+      
+      if (!entry) {
+        res.status(404).json({ message: 'Product not in supplier catalog' });
+        return;
+      }
+      
+      if ((packSize !== undefined && (!Number.isInteger(packSize) || packSize < 1)) || 
+          (caseCost !== undefined && caseCost < 0) || 
+          (minOrderQuantity !== undefined && minOrderQuantity < 0)) {
+        res.status(400).json({ message: 'Pack size must be a positive whole number, and costs and minimums cannot be negative' });
+        return;
+      }
+      
+      if (supplierSku !== undefined) entry.supplierSku = supplierSku;
+      if (packSize !== undefined) entry.packSize = packSize;
+      if (minOrderQuantity !== undefined) entry.minOrderQuantity = minOrderQuantity;
+      if (leadTime !== undefined) entry.leadTime = leadTime;
+      if (isActive !== undefined) entry.isActive = isActive;
+      
+      if (caseCost !== undefined) {
+        const from = effectiveFrom ? new Date(effectiveFrom) : new Date();
+        
+        // A second change for the same moment replaces the first
+        entry.prices = entry.prices.filter(price => price.effectiveFrom.getTime() !== from.getTime());
+        entry.prices.push({ caseCost, effectiveFrom: from, changedBy: (req as any).user.userId, notes });
+      }
+      
+      await entry.save();
+      
+      if (isPreferred !== undefined || isActive === false) {
+        await this.setPreferredSupplier(entry, !!isPreferred && entry.isActive);
+      }
+      
+      if (caseCost !== undefined) {
+        // Publish supplier price changed event
+        await this.messageBus.publish('inventory', 'inventory.supplier-price.updated', {
+          supplierId: entry.supplierId,
+          productId: entry.productId,
+          sku: entry.sku,
+          caseCost,
+          packSize: entry.packSize,
+          effectiveFrom: effectiveFrom ? new Date(effectiveFrom) : new Date(),
+          timestamp: new Date().toISOString()
+        });
+      }
+      
+      res.status(200).json(this.formatSupplierProduct(entry));
+    } catch (error) {
+      this.logger.error(`Update supplier product error: ${error}`);
+      res.status(500).json({ message: 'Failed to update supplier product' });
+    }
+  }
+
+  /**
+   * Compare suppliers of a product, cheapest first. With a quantity, each supplier is
+   * priced for that quantity rounded up to its pack size and minimum order
+   */
+  private async compareSuppliers(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const quantity = req.query.quantity ? Number(req.query.quantity) : undefined;
+      
+      if (quantity !== undefined && (!Number.isFinite(quantity) || quantity <= 0)) {
+        res.status(400).json({ message: 'Quantity must be positive' });
+        return;
+      }
+      
+      const product = await this.productModel.findOne({
+        $or: [
+          { productId: id },
+          { sku: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!product) {
+        res.status(404).json({ message: 'Product not found' });
+        return;
+      }
+      
+      const entries = await this.supplierProductModel.find({ productId: product.productId, isActive: true });
+      const suppliers = await this.supplierModel.find({ 
+        supplierId: { $in: entries.map(entry => entry.supplierId) }, 
+        isActive: true 
+      });
+      
+      const options = [];
+      
+      for (const entry of entries) {
+        const supplier = suppliers.find(candidate => candidate.supplierId === entry.supplierId);
+        const price = this.getSupplierPrice(entry);
+        
+        if (!supplier || !price) {
+          continue;
+        }
+        
+        const orderQuantity = this.roundToPack(Math.max(quantity || entry.packSize, entry.minOrderQuantity), entry.packSize);
+        const unitCost = parseFloat((price.caseCost / entry.packSize).toFixed(4));
+        
+        options.push({
+          supplierId: supplier.supplierId,
+          supplierName: supplier.name,
+          supplierSku: entry.supplierSku,
+          packSize: entry.packSize,
+          caseCost: price.caseCost,
+          unitCost,
+          minOrderQuantity: entry.minOrderQuantity,
+          leadTime: entry.leadTime ?? supplier.leadTime,
+          isPreferred: entry.isPreferred,
+          orderQuantity,
+          orderTotal: parseFloat((orderQuantity / entry.packSize * price.caseCost).toFixed(2))
+        });
+      }
+      
+      // With a quantity the cheapest is the lowest order total, otherwise the lowest unit cost
+      options.sort((a, b) => quantity ? a.orderTotal - b.orderTotal : a.unitCost - b.unitCost);
+      
+      res.status(200).json({
+        productId: product.productId,
+        sku: product.sku,
+        name: product.name,
+        quantity,
+        cheapestSupplierId: options.length > 0 ? options[0].supplierId : undefined,
+        preferredSupplierId: product.preferredSupplierId,
+        suppliers: options
+      });
+    } catch (error) {
+      this.logger.error(`Compare suppliers error: ${error}`);
+      res.status(500).json({ message: 'Failed to compare suppliers' });
+    }
+  }
+
+  /**
+   * Make a catalog entry its product's preferred supplier, or stop it being one
+   */
+  private async setPreferredSupplier(entry: ISupplierProduct, isPreferred: boolean): Promise<void> {
+    if (isPreferred) {
+      await this.supplierProductModel.updateMany(
+        { productId: entry.productId, supplierProductId: { $ne: entry.supplierProductId } },
+        { $set: { isPreferred: false } }
+      );
+      await this.productModel.updateOne({ productId: entry.productId }, { $set: { preferredSupplierId: entry.supplierId } });
+    } else if (entry.isPreferred) {
+      await this.productModel.updateOne(
+        { productId: entry.productId, preferredSupplierId: entry.supplierId }, 
+        { $unset: { preferredSupplierId: 1 } }
+      );
+    }
+    
+    entry.isPreferred = isPreferred;
+    await entry.save();
+  }
+
+  /**
+   * The catalog price in effect at a date: the latest one that has started
+   */
+  private getSupplierPrice(entry: ISupplierProduct, at: Date = new Date()): ISupplierPrice | undefined {
+    return entry.prices
+      .filter(price => price.effectiveFrom <= at)
+      .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime())[0];
+  }
+
+  /**
+   * Current catalog terms for ordering a product from a supplier
+   */
+  private async getCatalogEntry(
+    supplierId: string, 
+    productId: string
+  ): Promise<{ unitCost: number; supplierSku?: string; packSize: number; minOrderQuantity: number; leadTime?: number } | null> {
+    const entry = await this.supplierProductModel.findOne({ supplierId, productId, isActive: true });
+    const price = entry ? this.getSupplierPrice(entry) : undefined;
+    
+    if (!entry || !price) {
+      return null;
+    }
+    
+    return {
+      // Unit costs keep four decimals so whole cases add up to the case cost
+      unitCost: parseFloat((price.caseCost / entry.packSize).toFixed(4)),
+      supplierSku: entry.supplierSku,
+      packSize: entry.packSize,
+      minOrderQuantity: entry.minOrderQuantity,
+      leadTime: entry.leadTime
+    };
+  }
+
+  /**
+   * Round a quantity up to whole packs
+   */
+  private roundToPack(quantity: number, packSize: number): number {
+    return Math.ceil(quantity / packSize) * packSize;
+  }
+
+  /**
+   * Format a supplier catalog entry for API responses
+   */
+  private formatSupplierProduct(entry: ISupplierProduct): Record<string, any> {
+    const price = this.getSupplierPrice(entry);
+    const upcoming = entry.prices
+      .filter(candidate => candidate.effectiveFrom > new Date())
+      .sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime())[0];
+    
+    return {
+      supplierProductId: entry.supplierProductId,
+      supplierId: entry.supplierId,
+      productId: entry.productId,
+      sku: entry.sku,
+      supplierSku: entry.supplierSku,
+      packSize: entry.packSize,
+      caseCost: price ? price.caseCost : undefined,
+      unitCost: price ? parseFloat((price.caseCost / entry.packSize).toFixed(4)) : undefined,
+      priceEffectiveFrom: price ? price.effectiveFrom : undefined,
+      upcomingPrice: upcoming,
+      minOrderQuantity: entry.minOrderQuantity,
+      leadTime: entry.leadTime,
+      isPreferred: entry.isPreferred,
+      isActive: entry.isActive,
+      updatedAt: entry.updatedAt
+    };
+  }
+
+  /**
+   * Create a new purchase order
+   */
+  private async createPurchaseOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { 
+        supplierId, 
+        storeId, 
+        items, 
+        expectedDeliveryDate, 
+        paymentTerms, 
+        shipping = 0, 
+        tax = 0, 
+        notes 
+      } = req.body;
+      
+      // Validate required fields
+      if (!supplierId || !storeId || !items || !items.length) {
+        res.status(400).json({ message: 'Supplier ID, store ID, and items are required' });
+        return;
+      }
+      
+      // Validate supplier exists
+      const supplier = await this.supplierModel.findOne({ supplierId });
+      if (!supplier) {
+        res.status(404).json({ message: 'Supplier not found' });
+        return;
+      }
+      
+      // Format and validate items
+      const formattedItems = [];
+      let subtotal = 0;
+      
+      for (const item of items) {
+        const { productId, sku, quantity, unitPrice } = item;
+        
+        if ((!productId && !sku) || !quantity || quantity <= 0 || (unitPrice !== undefined && (!unitPrice || unitPrice < 0))) {
+          res.status(400).json({ 
+            message: 'Each item must have product ID or SKU, positive quantity, and valid unit price' 
+          });
+          return;
+        }
+        
+        // Find product if only SKU is provided
+        let finalProductId = productId;
+        let finalSku = sku;
+        
+        if (!finalProductId && finalSku) {
+          const product = await this.productModel.findOne({ sku: finalSku });
+          if (product) {
+            finalProductId = product.productId;
+          }
+        } else if (finalProductId && !finalSku) {
+          const product = await this.productModel.findOne({ productId: finalProductId });
+          if (product) {
+            finalSku = product.sku;
+          }
+        }
+        
+        if (!finalProductId || !finalSku) {
+          res.status(404).json({ message: `Product not found for ${productId || sku}` });
+          return;
+        }
+        
+        // Prices default from the supplier's catalog
+        const catalogEntry = await this.getCatalogEntry(supplierId, finalProductId);
+        const finalUnitPrice = unitPrice ?? catalogEntry?.unitCost;
+        
+        if (finalUnitPrice === undefined) {
+          res.status(400).json({ message: `No unit price given and ${finalSku} is not in the supplier's catalog` });
+          return;
+        }
+        
+        const totalPrice = parseFloat((quantity * finalUnitPrice).toFixed(2));
+        subtotal += totalPrice;
+        
+        formattedItems.push({
+          productId: finalProductId,
+          sku: finalSku,
+          supplierSku: catalogEntry?.supplierSku,
+          quantity,
+          unitPrice: finalUnitPrice,
+          totalPrice,
+          notes: item.notes
+        });
+      }
+      
+      // Calculate total
+      const total = subtotal + tax + shipping;
+      
+      // Create purchase order
+      const purchaseOrderId = uuidv4();
+      const purchaseOrder = new this.purchaseOrderModel({
+        purchaseOrderId,
+        supplierId,
+        storeId,
+        items: formattedItems,
+        subtotal,
+        tax,
+        shipping,
+        total,
+        expectedDeliveryDate,
+        paymentStatus: 'UNPAID',
+        paymentTerms: paymentTerms || supplier.paymentTerms,
+        notes,
+        status: 'DRAFT'
+      });
+      
+      await purchaseOrder.save();
+      
+      res.status(201).json({
+        purchaseOrderId: purchaseOrder.purchaseOrderId,
+        supplierId: purchaseOrder.supplierId,
+        storeId: purchaseOrder.storeId,
+        status: purchaseOrder.status,
+        itemCount: purchaseOrder.items.length,
+        subtotal: purchaseOrder.subtotal,
+        tax: purchaseOrder.tax,
+        shipping: purchaseOrder.shipping,
+        total: purchaseOrder.total,
+        createdAt: purchaseOrder.createdAt
+      });
+    } catch (error: any) {
+      this.logger.error(`Purchase order creation error: ${error}`);
+      res.status(500).json({ message: 'Failed to create purchase order', error: error.message });
+    }
+  }
+
+  /**
+   * Get purchase order by ID
+   */
+  private async getPurchaseOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      const purchaseOrder = await this.purchaseOrderModel.findOne({
+        $or: [
+          { purchaseOrderId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!purchaseOrder) {
+        res.status(404).json({ message: 'Purchase order not found' });
+        return;
+      }
+      
+      // Get supplier info
+      const supplier = await this.supplierModel.findOne({ supplierId: purchaseOrder.supplierId });
+      
+      res.status(200).json({
+        purchaseOrderId: purchaseOrder.purchaseOrderId,
+        supplierId: purchaseOrder.supplierId,
+        supplierName: supplier ? supplier.name : 'Unknown Supplier',
+        storeId: purchaseOrder.storeId,
+        status: purchaseOrder.status,
+        source: purchaseOrder.source,
+        items: purchaseOrder.items,
+        subtotal: purchaseOrder.subtotal,
+        tax: purchaseOrder.tax,
+        shipping: purchaseOrder.shipping,
+        total: purchaseOrder.total,
+        expectedDeliveryDate: purchaseOrder.expectedDeliveryDate,
+        actualDeliveryDate: purchaseOrder.actualDeliveryDate,
+        paymentStatus: purchaseOrder.paymentStatus,
+        paymentTerms: purchaseOrder.paymentTerms,
+        notes: purchaseOrder.notes,
+        createdAt: purchaseOrder.createdAt,
+        submittedAt: purchaseOrder.submittedAt,
+        confirmedAt: purchaseOrder.confirmedAt,
+        shippedAt: purchaseOrder.shippedAt,
+        receivedAt: purchaseOrder.receivedAt,
+        cancelledAt: purchaseOrder.cancelledAt
+      });
+    } catch (error) {
+      this.logger.error(`Get purchase order error: ${error}`);
+      res.status(500).json({ message: 'Failed to get purchase order' });
+    }
+  }
+
+  /**
+   * Update a purchase order
+   */
+  private async updatePurchaseOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { 
+        items, 
+        expectedDeliveryDate, 
+        paymentTerms, 
+        shipping, 
+        tax, 
+        notes 
+      } = req.body;
+      
+      const purchaseOrder = await this.purchaseOrderModel.findOne({
+        $or: [
+          { purchaseOrderId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!purchaseOrder) {
+        res.status(404).json({ message: 'Purchase order not found' });
+        return;
+      }
+      
+      // Only allow updates if in DRAFT status
+      if (purchaseOrder.status !== 'DRAFT') {
+        res.status(400).json({ 
+          message: `Cannot update purchase order in ${purchaseOrder.status} status` 
+        });
+        return;
+      }
+      
+      // Update items if provided
+      if (items && items.length > 0) {
+        // Format and validate items
+        const formattedItems = [];
+        let subtotal = 0;
+        
+        for (const item of items) {
+          const { productId, sku, quantity, unitPrice } = item;
+          
+          if ((!productId && !sku) || !quantity || quantity <= 0 || (unitPrice !== undefined && (!unitPrice || unitPrice < 0))) {
+            res.status(400).json({ 
+              message: 'Each item must have product ID or SKU, positive quantity, and valid unit price' 
+            });
+            return;
+          }
+          
+          // Find product if only SKU is provided
+          let finalProductId = productId;
+          let finalSku = sku;
+          
+          if (!finalProductId && finalSku) {
+            const product = await this.productModel.findOne({ sku: finalSku });
+            if (product) {
+              finalProductId = product.productId;
+            }
+          } else if (finalProductId && !finalSku) {
+            const product = await this.productModel.findOne({ productId: finalProductId });
+            if (product) {
+              finalSku = product.sku;
+            }
+          }
+          
+          if (!finalProductId || !finalSku) {
+            res.status(404).json({ message: `Product not found for ${productId || sku}` });
+            return;
+          }
+          
+          // Prices default from the supplier's catalog
+          const catalogEntry = await this.getCatalogEntry(purchaseOrder.supplierId, finalProductId);
+          const finalUnitPrice = unitPrice ?? catalogEntry?.unitCost;
+          
+          if (finalUnitPrice === undefined) {
+            res.status(400).json({ message: `No unit price given and ${finalSku} is not in the supplier's catalog` });
+            return;
+          }
+          
+          const totalPrice = parseFloat((quantity * finalUnitPrice).toFixed(2));
+          subtotal += totalPrice;
+          
+          formattedItems.push({
+            productId: finalProductId,
+            sku: finalSku,
+            supplierSku: catalogEntry?.supplierSku,
+            quantity,
+            unitPrice: finalUnitPrice,
+            totalPrice,
+            notes: item.notes
+          });
+        }
+        
+        purchaseOrder.items = formattedItems;
+        purchaseOrder.subtotal = subtotal;
+      }
+      
+      // Update other fields if provided
+      if (expectedDeliveryDate !== undefined) purchaseOrder.expectedDeliveryDate = new Date(expectedDeliveryDate);
+      if (paymentTerms !== undefined) purchaseOrder.paymentTerms = paymentTerms;
+      if (shipping !== undefined) purchaseOrder.shipping = shipping;
+      if (tax !== undefined) purchaseOrder.tax = tax;
+      if (notes !== undefined) purchaseOrder.notes = notes;
+      
+      // Recalculate total
+      purchaseOrder.total = purchaseOrder.subtotal + purchaseOrder.tax + purchaseOrder.shipping;
+      
+      await purchaseOrder.save();
+      
+      res.status(200).json({
+        purchaseOrderId: purchaseOrder.purchaseOrderId,
+        supplierId: purchaseOrder.supplierId,
+        storeId: purchaseOrder.storeId,
+        status: purchaseOrder.status,
+        itemCount: purchaseOrder.items.length,
+        subtotal: purchaseOrder.subtotal,
+        tax: purchaseOrder.tax,
+        shipping: purchaseOrder.shipping,
+        total: purchaseOrder.total,
+        updatedAt: purchaseOrder.updatedAt
+      });
+    } catch (error) {
+      this.logger.error(`Update purchase order error: ${error}`);
+      res.status(500).json({ message: 'Failed to update purchase order' });
+    }
+  }
+
+  /**
+   * Submit a purchase order
+   */
+  private async submitPurchaseOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { notes } = req.body;
+      
+      const purchaseOrder = await this.purchaseOrderModel.findOne({
+        $or: [
+          { purchaseOrderId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!purchaseOrder) {
+        res.status(404).json({ message: 'Purchase order not found' });
+        return;
+      }
+      
+      // Only allow submission if in DRAFT status
+      if (purchaseOrder.status !== 'DRAFT') {
+        res.status(400).json({ 
+          message: `Cannot submit purchase order in ${purchaseOrder.status} status` 
+        });
+        return;
+      }
+      
+      // Update status and add notes
+      purchaseOrder.status = 'SUBMITTED';
+      purchaseOrder.submittedAt = new Date();
+      
+      if (notes) {
+        purchaseOrder.notes = (purchaseOrder.notes || '') + `\nSubmission: ${notes}`;
+      }
+      
+      await purchaseOrder.save();
+      
+      // Get supplier info for notification
+      const supplier = await this.supplierModel.findOne({ supplierId: purchaseOrder.supplierId });
+      
+      // Publish purchase order submitted event
+      await this.messageBus.publish('inventory', 'purchase-order.submitted', {
+        purchaseOrderId: purchaseOrder.purchaseOrderId,
+        supplierId: purchaseOrder.supplierId,
+        supplierName: supplier ? supplier.name : 'Unknown Supplier',
+        storeId: purchaseOrder.storeId,
+        itemCount: purchaseOrder.items.length,
+        total: purchaseOrder.total,
+        expectedDeliveryDate: purchaseOrder.expectedDeliveryDate,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(200).json({
+        purchaseOrderId: purchaseOrder.purchaseOrderId,
+        status: purchaseOrder.status,
+        submittedAt: purchaseOrder.submittedAt,
+        message: 'Purchase order submitted successfully'
+      });
+    } catch (error) {
+      this.logger.error(`Submit purchase order error: ${error}`);
+      res.status(500).json({ message: 'Failed to submit purchase order' });
+    }
+  }
+
+  /**
+   * Receive a purchase order
+   */
+  private async receivePurchaseOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { 
+        items, 
+        notes, 
+        actualDeliveryDate = new Date() 
       } = req.body;
       
-      // Validate required fields
-      if (!sku || !name || !description || !category || price === undefined || costPrice === undefined) {
-        res.status(400).json({ message: 'Missing required product fields' });
+      // Start a session for transaction
+      const session = await mongoose.startSession();
+      session.startTransaction();
+      
+      try {
+        const purchaseOrder = await this.purchaseOrderModel.findOne({
+          $or: [
+            { purchaseOrderId: id },
+            { _id: mongoose.isValidObjectId(id) ? id : undefined }
+          ]
+        }).session(session);
+        
+        if (!purchaseOrder) {
+          await session.abortTransaction();
+          session.endSession();
+          res.status(404).json({ message: 'Purchase order not found' });
+          return;
+        }
+        
+        // Only allow receiving if in CONFIRMED or SHIPPED status
+        if (purchaseOrder.status !== 'CONFIRMED' && purchaseOrder.status !== 'SHIPPED') {
+          await session.abortTransaction();
+          session.endSession();
+          res.status(400).json({ 
+            message: `Cannot receive purchase order in ${purchaseOrder.status} status` 
+          });
+          return;
+        }
+        
+        // Lot details of received items, keyed like the received quantities
+        const receivedLots: Record<string, { lotNumber: string; expirationDate?: string }> = {};
+        const receivedSerials: Record<string, string[]> = {};
+        
+        // Update received quantities
+        if (items && items.length > 0) {
+          // Map of item ID/SKU to received quantity
+          const receivedQuantities: Record<string, number> = {};
+          
+          for (const item of items) {
+            const { productId, sku, receivedQuantity, lotNumber, expirationDate, serialNumbers } = item;
+            const key = productId || sku;
+            
+            if (!key || receivedQuantity === undefined || receivedQuantity < 0) {
+              await session.abortTransaction();
+              session.endSession();
+              res.status(400).json({ 
+                message: 'Each item must have product ID or SKU and valid received quantity' 
+              });
+              return;
+            }
+            
+            receivedQuantities[key] = receivedQuantity;
+            
+            if (lotNumber) {
+              receivedLots[key] = { lotNumber, expirationDate };
+            }
+            
+            if (serialNumbers) {
+              receivedSerials[key] = serialNumbers;
+            }
+          }
+          
+          // Update quantities in purchase order
+          for (const poItem of purchaseOrder.items) {
+            const key = poItem.productId || poItem.sku;
+            if (receivedQuantities[key] !== undefined) {
+              poItem.receivedQuantity = receivedQuantities[key];
+            }
+          }
+        } else {
+          // If no items specified, assume all items received in full
+          for (const poItem of purchaseOrder.items) {
+            poItem.receivedQuantity = poItem.quantity;
+          }
+        }
+        
+        // Update status and timestamps
+        purchaseOrder.status = 'RECEIVED';
+        purchaseOrder.actualDeliveryDate = actualDeliveryDate;
+        purchaseOrder.receivedAt = new Date();
+        
+        if (notes) {
+          purchaseOrder.notes = (purchaseOrder.notes || '') + `\nReceived: ${notes}`;
+        }
+        
+        // Serialized products must be received with one serial per unit
+        const serializedProducts = await this.productModel.find({
+          productId: { $in: purchaseOrder.items.map(poItem => poItem.productId) },
+          isSerialized: true
+        }).session(session);
+        
+        for (const product of serializedProducts) {
+          const poItem = purchaseOrder.items.find(candidate => candidate.productId === product.productId)!;
+          const serialNumbers = receivedSerials[poItem.productId] || receivedSerials[poItem.sku] || [];
+          const receivedQuantity = poItem.receivedQuantity || 0;
+          
+          if (serialNumbers.length !== receivedQuantity || new Set(serialNumbers).size !== serialNumbers.length) {
+            await session.abortTransaction();
+            session.endSession();
+            res.status(400).json({ 
+              message: `Scan ${receivedQuantity} unique serial numbers for ${product.sku}` 
+            });
+            return;
+          }
+          
+          const existing = await this.serialNumberModel.find({ 
+            productId: product.productId, 
+            serialNumber: { $in: serialNumbers } 
+          }).session(session);
+          
+          if (existing.length > 0) {
+            await session.abortTransaction();
+            session.endSession();
+            res.status(409).json({ 
+              message: `Serial numbers already recorded for ${product.sku}`,
+              serialNumbers: existing.map(serial => serial.serialNumber)
+            });
+            return;
+          }
+        }
+        
+        await purchaseOrder.save({ session });
+        
+        // Update inventory for each received item
+        const inventoryUpdates = [];
+        
+        for (const poItem of purchaseOrder.items) {
+          if (!poItem.receivedQuantity || poItem.receivedQuantity <= 0) {
+            continue; // Skip items with no received quantity
+          }
+          
+          // Find inventory
+          let inventory = await this.inventoryModel.findOne({ 
+            productId: poItem.productId, 
+            storeId: purchaseOrder.storeId 
+          }).session(session);
+          
+          if (!inventory) {
+            // Create inventory record if it doesn't exist
+            const inventoryId = uuidv4();
+            inventory = new this.inventoryModel({
+              inventoryId,
+              productId: poItem.productId,
+              sku: poItem.sku,
+              storeId: purchaseOrder.storeId,
+              quantity: 0,
+              reservedQuantity: 0,
+              backorderEnabled: false,
+              backorderLimit: 0,
+              reorderPoint: 5,
+              reorderQuantity: 10
+            });
+          }
+          
+          // Record previous quantity
+          const previousQuantity = inventory.quantity;
+          
+          // Update quantity
+          inventory.quantity += poItem.receivedQuantity;
+          inventory.lastRestockedAt = new Date();
+          
+          const receivedLot = receivedLots[poItem.productId || poItem.sku];
+          const lots = receivedLot
+            ? [this.addToLot(inventory, receivedLot.lotNumber, poItem.receivedQuantity, receivedLot.expirationDate)]
+            : [];
+          
+          // Each receipt opens a cost layer at the price paid
+          const cost = await this.costMovement(inventory, previousQuantity, poItem.unitPrice, purchaseOrder.purchaseOrderId);
+          
+          await inventory.save({ session });
+          
+          const isSerialized = serializedProducts.some(product => product.productId === poItem.productId);
+          const serialNumbers = isSerialized ? (receivedSerials[poItem.productId] || receivedSerials[poItem.sku]) : [];
+          
+          if (serialNumbers.length > 0) {
+            const receivedAt = new Date();
+            
+            await this.serialNumberModel.insertMany(serialNumbers.map(serialNumber => ({
+              serialId: uuidv4(),
+              serialNumber,
+              productId: poItem.productId,
+              sku: poItem.sku,
+              storeId: purchaseOrder.storeId,
+              status: 'IN_STOCK',
+              purchaseOrderId: purchaseOrder.purchaseOrderId,
+              supplierId: purchaseOrder.supplierId,
+              history: [{ 
+                status: 'IN_STOCK', 
+                at: receivedAt, 
+                referenceId: purchaseOrder.purchaseOrderId, 
+                performedBy: (req as any).user.userId,
+                notes: 'Received on purchase order' 
+              }],
+              receivedAt
+            })), { session });
+          }
+          
+          // Create transaction record
+          const transactionId = uuidv4();
+          const transaction = new this.transactionModel({
+            transactionId,
+            inventoryId: inventory.inventoryId,
+            productId: inventory.productId,
+            sku: inventory.sku,
+            storeId: purchaseOrder.storeId,
+            type: 'RESTOCK',
+            quantity: poItem.receivedQuantity,
+            previousQuantity,
+            newQuantity: inventory.quantity,
+            referenceId: purchaseOrder.purchaseOrderId,
+            lots,
+            serialNumbers: serialNumbers.length > 0 ? serialNumbers : undefined,
+            unitCost: cost.unitCost,
+            totalCost: cost.totalCost,
+            reason: 'Purchase order received',
+            performedBy: (req as any).user.userId,
+            notes: `PO #${purchaseOrder.purchaseOrderId}`
+          });
+          
+          await transaction.save({ session });
+          
+          inventoryUpdates.push({
+            productId: inventory.productId,
+            sku: inventory.sku,
+            receivedQuantity: poItem.receivedQuantity,
+            newQuantity: inventory.quantity,
+            transaction: transactionId
+          });
+        }
+        
+        // Commit transaction
+        await session.commitTransaction();
+        
+        // Invoices that arrived ahead of the goods are matched again
+        await this.rematchPurchaseOrderInvoices(purchaseOrder);
+        
+        // Publish purchase order received event
+        await this.messageBus.publish('inventory', 'purchase-order.received', {
+          purchaseOrderId: purchaseOrder.purchaseOrderId,
+          supplierId: purchaseOrder.supplierId,
+          storeId: purchaseOrder.storeId,
+          receivedAt: purchaseOrder.receivedAt,
+          items: inventoryUpdates,
+          timestamp: new Date().toISOString()
+        });
+        
+        res.status(200).json({
+          purchaseOrderId: purchaseOrder.purchaseOrderId,
+          status: purchaseOrder.status,
+          receivedAt: purchaseOrder.receivedAt,
+          itemsReceived: inventoryUpdates.length,
+          inventoryUpdates,
+          message: 'Purchase order received successfully'
+        });
+      } catch (error) {
+        // Abort transaction on error
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        // End session
+        session.endSession();
+      }
+    } catch (error) {
+      this.logger.error(`Receive purchase order error: ${error}`);
+      res.status(500).json({ message: 'Failed to receive purchase order' });
+    }
+  }
+
+  /**
+   * Cancel a purchase order
+   */
+  private async cancelPurchaseOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { reason } = req.body;
+      
+      const purchaseOrder = await this.purchaseOrderModel.findOne({
+        $or: [
+          { purchaseOrderId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!purchaseOrder) {
+        res.status(404).json({ message: 'Purchase order not found' });
         return;
       }
       
-      // Check if product with SKU already exists
-      const existingProduct = await this.productModel.findOne({ sku });
+      // Only allow cancellation in certain statuses
+      const allowedStatuses = ['DRAFT', 'SUBMITTED', 'CONFIRMED'];
       
-      if (existingProduct) {
-        res.status(409).json({ message: `Product with SKU ${sku} already exists` });
+      if (!allowedStatuses.includes(purchaseOrder.status)) {
+        res.status(400).json({ 
+          message: `Cannot cancel purchase order in ${purchaseOrder.status} status` 
+        });
         return;
       }
       
-      // Create product
-      const productId = uuidv4();
-      const product = new this.productModel({
-        productId,
-        sku,
-        name,
-        description,
-        category,
-        price,
-        costPrice,
-        taxRate,
-        barcode,
-        images,
-        attributes,
-        isActive: true
+      // Update status
+      purchaseOrder.status = 'CANCELLED';
+      purchaseOrder.cancelledAt = new Date();
+      purchaseOrder.notes = (purchaseOrder.notes || '') + `\nCancelled: ${reason || 'No reason provided'}`;
+      
+      await purchaseOrder.save();
+      
+      // Publish purchase order cancelled event
+      await this.messageBus.publish('inventory', 'purchase-order.cancelled', {
+        purchaseOrderId: purchaseOrder.purchaseOrderId,
+        supplierId: purchaseOrder.supplierId,
+        storeId: purchaseOrder.storeId,
+        reason,
+        timestamp: new Date().toISOString()
       });
       
-      await product.save();
+      res.status(200).json({
+        purchaseOrderId: purchaseOrder.purchaseOrderId,
+        status: purchaseOrder.status,
+        cancelledAt: purchaseOrder.cancelledAt,
+        message: 'Purchase order cancelled successfully'
+      });
+    } catch (error) {
+      this.logger.error(`Cancel purchase order error: ${error}`);
+      res.status(500).json({ message: 'Failed to cancel purchase order' });
+    }
+  }
+
+  /**
+   * Get purchase orders
+   */
+  private async getPurchaseOrders(req: Request, res: Response): Promise<void> {
+    try {
+      const { 
+        supplierId, 
+        storeId, 
+        status, 
+        source, 
+        startDate, 
+        endDate, 
+        page = 1, 
+        limit = 10 
+      } = req.query;
       
-      // Initialize inventory records for each store
-      // In a real implementation, this would get a list of stores from a store service
-      // For demo purposes, we'll create a single inventory record for a default store
-      const defaultStoreId = 'store_default';
-      const inventoryId = uuidv4();
+      // Build query
+      const query: any = {};
       
-      const inventory = new this.inventoryModel({
-        inventoryId,
-        productId,
-        sku,
-        storeId: defaultStoreId,
-        quantity: 0,
-        reservedQuantity: 0,
-        backorderEnabled: false,
-        backorderLimit: 0,
-        reorderPoint: 5,
-        reorderQuantity: 10
+      if (supplierId) query.supplierId = supplierId;
+      if (storeId) query.storeId = storeId;
+      if (status) query.status = status;
+      if (source) query.source = source;
+      
+      // Date range
+      if (startDate || endDate) {
+        query.createdAt = {};
+        if (startDate) query.createdAt.$gte = new Date(startDate as string);
+        if (endDate) query.createdAt.$lte = new Date(endDate as string);
+      }
+      
+      // Parse pagination
+      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+      
+      // Get purchase orders
+      const purchaseOrders = await this.purchaseOrderModel
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(parseInt(limit as string));
+      
+      // Get total count
+      const total = await this.purchaseOrderModel.countDocuments(query);
+      
+      // Get supplier info for each purchase order
+      const supplierIds = [...new Set(purchaseOrders.map(po => po.supplierId))];
+      const suppliers = await this.supplierModel.find({ supplierId: { $in: supplierIds } });
+      
+      // Create supplier ID to name map
+      const supplierMap = suppliers.reduce((map, supplier) => {
+        map[supplier.supplierId] = supplier.name;
+        return map;
+      }, {} as Record<string, string>);
+      
+      res.status(200).json({
+        purchaseOrders: purchaseOrders.map(po => ({
+          purchaseOrderId: po.purchaseOrderId,
+          supplierId: po.supplierId,
+          supplierName: supplierMap[po.supplierId] || 'Unknown Supplier',
+          storeId: po.storeId,
+          status: po.status,
+          source: po.source,
+          itemCount: po.items.length,
+          total: po.total,
+          expectedDeliveryDate: po.expectedDeliveryDate,
+          createdAt: po.createdAt
+        })),
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total,
+          pages: Math.ceil(total / parseInt(limit as string))
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Get purchase orders error: ${error}`);
+      res.status(500).json({ message: 'Failed to get purchase orders' });
+    }
+  }
+
+  /**
+   * Record a supplier invoice against a purchase order and match it
+   */
+  private async recordSupplierInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { invoiceNumber, invoiceDate, items, tax = 0, shipping = 0, notes } = req.body;
+      
+      if (!invoiceNumber || !items || !items.length) {
+        res.status(400).json({ message: 'Invoice number and items are required' });
+        return;
+      }
+      
+      const purchaseOrder = await this.purchaseOrderModel.findOne({
+        $or: [
+          { purchaseOrderId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!purchaseOrder) {
+        res.status(404).json({ message: 'Purchase order not found' });
+        return;
+      }
+      
+      if (purchaseOrder.status === 'DRAFT' || purchaseOrder.status === 'CANCELLED') {
+        res.status(400).json({ message: `Cannot invoice a purchase order in ${purchaseOrder.status} status` });
+        return;
+      }
+      
+      const existing = await this.supplierInvoiceModel.findOne({ supplierId: purchaseOrder.supplierId, invoiceNumber });
+      
+      if (existing) {
+        res.status(409).json({ message: `Invoice ${invoiceNumber} is already recorded for this supplier` });
+        return;
+      }
+      
+      // Format and validate items
+      const formattedItems = [];
+      let subtotal = 0;
+      
+      for (const item of items) {
+        const { productId, sku, quantity, unitPrice } = item;
+        
+        if ((!productId && !sku) || quantity === undefined || quantity < 0 || (unitPrice !== undefined && unitPrice < 0)) {
+          res.status(400).json({ message: 'Each item must have product ID or SKU, quantity, and valid unit price' });
+          return;
+        }
+        
+        // Lines not on the order are kept so the match can flag them
+        const poItem = purchaseOrder.items.find(candidate => 
+          (productId && candidate.productId === productId) || (sku && candidate.sku === sku));
+        const product = poItem ? null : await this.productModel.findOne(productId ? { productId } : { sku });
+        
+        if (!poItem && !product) {
+          res.status(404).json({ message: `Product not found for ${productId || sku}` });
+          return;
+        }
+        
+        const finalUnitPrice = unitPrice ?? (poItem ? poItem.unitPrice : 0);
+        const totalPrice = parseFloat((quantity * finalUnitPrice).toFixed(2));
+        subtotal += totalPrice;
+        
+        formattedItems.push({
+          productId: poItem ? poItem.productId : product!.productId,
+          sku: poItem ? poItem.sku : product!.sku,
+          quantity,
+          unitPrice: finalUnitPrice,
+          totalPrice
+        });
+      }
+      
+      const supplier = await this.supplierModel.findOne({ supplierId: purchaseOrder.supplierId });
+      const issuedAt = invoiceDate ? new Date(invoiceDate) : new Date();
+      const paymentTerms = purchaseOrder.paymentTerms || (supplier ? supplier.paymentTerms : undefined);
+      const dueDate = new Date(issuedAt.getTime() + this.getPaymentTermDays(paymentTerms) * 24 * 60 * 60 * 1000);
+      
+      const invoice = new this.supplierInvoiceModel({
+        invoiceId: uuidv4(),
+        invoiceNumber,
+        supplierId: purchaseOrder.supplierId,
+        purchaseOrderId: purchaseOrder.purchaseOrderId,
+        storeId: purchaseOrder.storeId,
+        invoiceDate: issuedAt,
+        dueDate,
+        paymentTerms,
+        items: formattedItems,
+        subtotal: parseFloat(subtotal.toFixed(2)),
+        tax,
+        shipping,
+        total: parseFloat((subtotal + tax + shipping).toFixed(2)),
+        matchStatus: 'DISCREPANCY',
+        paymentStatus: 'UNPAID',
+        amountPaid: 0,
+        notes
+      });
+      
+      await this.matchInvoice(invoice, purchaseOrder, supplier);
+      await invoice.save();
+      
+      // Publish supplier invoice matched event
+      await this.messageBus.publish('inventory', 'supplier-invoice.matched', {
+        invoiceId: invoice.invoiceId,
+        invoiceNumber: invoice.invoiceNumber,
+        supplierId: invoice.supplierId,
+        purchaseOrderId: invoice.purchaseOrderId,
+        matchStatus: invoice.matchStatus,
+        discrepancyCount: invoice.discrepancies.length,
+        total: invoice.total,
+        timestamp: new Date().toISOString()
       });
       
-      await inventory.save();
+      res.status(201).json(this.formatSupplierInvoice(invoice));
+    } catch (error) {
+      this.logger.error(`Record supplier invoice error: ${error}`);
+      res.status(500).json({ message: 'Failed to record supplier invoice' });
+    }
+  }
+
+  /**
+   * List supplier invoices
+   */
+  private async getSupplierInvoices(req: Request, res: Response): Promise<void> {
+    try {
+      const { 
+        supplierId, 
+        purchaseOrderId, 
+        storeId, 
+        matchStatus, 
+        paymentStatus, 
+        page = 1, 
+        limit = 10 
+      } = req.query;
+      
+      const query: any = {};
+      
+      if (supplierId) query.supplierId = supplierId;
+      if (purchaseOrderId) query.purchaseOrderId = purchaseOrderId;
+      if (storeId) query.storeId = storeId;
+      if (matchStatus) query.matchStatus = matchStatus;
+      if (paymentStatus) query.paymentStatus = paymentStatus;
+      
+      const skip = (Number(page) - 1) * Number(limit);
+      
+      const invoices = await this.supplierInvoiceModel.find(query)
+        .sort({ dueDate: 1 })
+        .skip(skip)
+        .limit(Number(limit));
       
-      // Publish product created event
-      await this.messageBus.publish('inventory', 'product.created', {
-        productId,
-        sku,
-        name,
-        price,
-        category,
-        timestamp: new Date().toISOString()
-      });
+      const total = await this.supplierInvoiceModel.countDocuments(query);
       
-      res.status(201).json({
-        productId: product.productId,
-        sku: product.sku,
-        name: product.name,
-        price: product.price,
-        category: product.category,
-        isActive: product.isActive,
-        createdAt: product.createdAt
+      res.status(200).json({
+        invoices: invoices.map(invoice => this.formatSupplierInvoice(invoice)),
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
       });
-    } catch (error: any) {
-      this.logger.error(`Product creation error: ${error}`);
-      res.status(500).json({ message: 'Failed to create product', error: error.message });
+    } catch (error) {
+      this.logger.error(`Get supplier invoices error: ${error}`);
+      res.status(500).json({ message: 'Failed to get supplier invoices' });
     }
   }
 
   /**
-   * Get product by ID
+   * Get a supplier invoice with its match result and payments
    */
-  private async getProduct(req: Request, res: Response): Promise<void> {
+  private async getSupplierInvoice(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
-      
-      // Find by productId, SKU, or MongoDB ID
-      const product = await this.productModel.findOne({
-        $or: [
-          { productId: id },
-          { sku: id },
-          { _id: mongoose.isValidObjectId(id) ? id : undefined }
-        ]
-      });
+      const invoice = await this.findSupplierInvoice(req.params.id);
       
-      if (!product) {
-        res.status(404).json({ message: 'Product not found' });
+      if (!invoice) {
+        res.status(404).json({ message: 'Supplier invoice not found' });
         return;
       }
       
       res.status(200).json({
-        productId: product.productId,
-        sku: product.sku,
-        name: product.name,
-        description: product.description,
-        category: product.category,
-        price: product.price,
-        costPrice: product.costPrice,
-        taxRate: product.taxRate,
-        barcode: product.barcode,
-        images: product.images,
-        attributes: product.attributes,
-        isActive: product.isActive,
-        createdAt: product.createdAt,
-        updatedAt: product.updatedAt
+        ...this.formatSupplierInvoice(invoice),
+        items: invoice.items,
+        payments: invoice.payments
       });
     } catch (error) {
-      this.logger.error(`Get product error: ${error}`);
-      res.status(500).json({ message: 'Failed to get product' });
+      this.logger.error(`Get supplier invoice error: ${error}`);
+      res.status(500).json({ message: 'Failed to get supplier invoice' });
     }
   }
 
   /**
-   * Update a product
+   * Match an invoice again, e.g. after its supplier's tolerances change
    */
-  private async updateProduct(req: Request, res: Response): Promise<void> {
+  private async rematchSupplierInvoice(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
-      const { 
-        name, 
-        description, 
-        category, 
-        price, 
-        costPrice, 
-        taxRate, 
-        barcode, 
-        images, 
-        attributes, 
-        isActive 
-      } = req.body;
+      const invoice = await this.findSupplierInvoice(req.params.id);
       
-      // Find product
-      const product = await this.productModel.findOne({
-        $or: [
-          { productId: id },
-          { sku: id },
-          { _id: mongoose.isValidObjectId(id) ? id : undefined }
-        ]
-      });
+      if (!invoice) {
+        res.status(404).json({ message: 'Supplier invoice not found' });
+        return;
+      }
       
-      if (!product) {
-        res.status(404).json({ message: 'Product not found' });
+      const purchaseOrder = await this.purchaseOrderModel.findOne({ purchaseOrderId: invoice.purchaseOrderId });
+      
+      if (!purchaseOrder) {
+        res.status(404).json({ message: 'Purchase order not found' });
         return;
       }
       
-      // Update fields if provided
-      if (name !== undefined) product.name = name;
-      if (description !== undefined) product.description = description;
-      if (category !== undefined) product.category = category;
-      if (price !== undefined) product.price = price;
-      if (costPrice !== undefined) product.costPrice = costPrice;
-      if (taxRate !== undefined) product.taxRate = taxRate;
-      if (barcode !== undefined) product.barcode = barcode;
-      if (images !== undefined) product.images = images;
-      if (attributes !== undefined) product.attributes = { ...product.attributes, ...attributes };
-      if (isActive !== undefined) product.isActive = isActive;
+      const supplier = await this.supplierModel.findOne({ supplierId: invoice.supplierId });
       
-      await product.save();
+      await this.matchInvoice(invoice, purchaseOrder, supplier);
+      await invoice.save();
       
-      // Publish product updated event
-      await this.messageBus.publish('inventory', 'product.updated', {
-        productId: product.productId,
-        sku: product.sku,
-        name: product.name,
-        price: product.price,
-        category: product.category,
-        isActive: product.isActive,
-        timestamp: new Date().toISOString()
-      });
+      res.status(200).json(this.formatSupplierInvoice(invoice));
+    } catch (error) {
+      this.logger.error(`Rematch supplier invoice error: ${error}`);
+      res.status(500).json({ message: 'Failed to match supplier invoice' });
+    }
+  }
+
+  /**
+   * Accept an invoice's discrepancies so it can be paid
+   */
+  private async overrideInvoiceMatch(req: Request, res: Response): Promise<void> {
+    try {
+      const { reason } = req.body;
       
-      res.status(200).json({
-        productId: product.productId,
-        sku: product.sku,
-        name: product.name,
-        description: product.description,
-        category: product.category,
-        price: product.price,
-        costPrice: product.costPrice,
-        taxRate: product.taxRate,
-        barcode: product.barcode,
-        images: product.images,
-        attributes: product.attributes,
-        isActive: product.isActive,
-        updatedAt: product.updatedAt
-      });
+      if (!reason) {
+        res.status(400).json({ message: 'A reason is required' });
+        return;
+      }
+      
+      const invoice = await this.findSupplierInvoice(req.params.id);
+      
+      if (!invoice) {
+        res.status(404).json({ message: 'Supplier invoice not found' });
+        return;
+      }
+      
+      if (invoice.matchStatus !== 'DISCREPANCY') {
+        res.status(400).json({ message: `Cannot override an invoice in ${invoice.matchStatus} status` });
+        return;
+      }
+      
+      invoice.matchStatus = 'OVERRIDDEN';
+      invoice.overrideReason = reason;
+      invoice.overriddenBy = (req as any).user.userId;
+      await invoice.save();
+      
+      res.status(200).json(this.formatSupplierInvoice(invoice));
     } catch (error) {
-      this.logger.error(`Update product error: ${error}`);
-      res.status(500).json({ message: 'Failed to update product' });
+      this.logger.error(`Override invoice match error: ${error}`);
+      res.status(500).json({ message: 'Failed to override invoice match' });
     }
   }
 
   /**
-   * Search products
+   * Record a payment against a supplier invoice. Invoices with unresolved
+   * discrepancies cannot be paid
    */
-  private async searchProducts(req: Request, res: Response): Promise<void> {
+  private async recordInvoicePayment(req: Request, res: Response): Promise<void> {
     try {
-      const { 
-        query, 
-        category, 
-        minPrice, 
-        maxPrice, 
-        isActive, 
-        page = 1, 
-        limit = 10, 
-        sortBy = 'name', 
-        sortOrder = 'asc' 
-      } = req.query;
+      const { amount, reference, paidAt } = req.body;
       
-      // Build query
-      const searchQuery: any = {};
+      if (!amount || amount <= 0) {
+        res.status(400).json({ message: 'A positive amount is required' });
+        return;
+      }
       
-      if (query) {
-        searchQuery.$text = { $search: query as string };
+      const invoice = await this.findSupplierInvoice(req.params.id);
+      
+      if (!invoice) {
+        res.status(404).json({ message: 'Supplier invoice not found' });
+        return;
       }
       
-      if (category) {
-        searchQuery.category = category;
+      if (invoice.matchStatus === 'DISCREPANCY') {
+        res.status(409).json({ 
+          message: 'Payment is blocked until the invoice discrepancies are resolved',
+          discrepancies: invoice.discrepancies
+        });
+        return;
       }
       
-      if (minPrice !== undefined || maxPrice !== undefined) {
-        searchQuery.price = {};
-        if (minPrice !== undefined) {
-          searchQuery.price.$gte = parseFloat(minPrice as string);
-        }
-        if (maxPrice !== undefined) {
-          searchQuery.price.$lte = parseFloat(maxPrice as string);
-        }
+      const balance = parseFloat((invoice.total - invoice.amountPaid).toFixed(2));
+      
+      if (amount > balance) {
+        res.status(400).json({ message: `Amount exceeds the invoice balance of ${balance}` });
+        return;
       }
       
-      if (isActive !== undefined) {
-        searchQuery.isActive = isActive === 'true';
+      invoice.payments.push({
+        paymentId: uuidv4(),
+        amount,
+        reference,
+        paidAt: paidAt ? new Date(paidAt) : new Date(),
+        performedBy: (req as any).user.userId
+      });
+      invoice.amountPaid = parseFloat((invoice.amountPaid + amount).toFixed(2));
+      invoice.paymentStatus = invoice.amountPaid >= invoice.total ? 'PAID' : 'PARTIALLY_PAID';
+      await invoice.save();
+      
+      // The order's payment status follows its invoices
+      const purchaseOrder = await this.purchaseOrderModel.findOne({ purchaseOrderId: invoice.purchaseOrderId });
+      
+      if (purchaseOrder) {
+        const invoices = await this.supplierInvoiceModel.find({ purchaseOrderId: purchaseOrder.purchaseOrderId });
+        const allPaid = invoices.every(candidate => candidate.paymentStatus === 'PAID');
+        
+        purchaseOrder.paymentStatus = allPaid && purchaseOrder.status === 'RECEIVED' ? 'PAID' : 'PARTIALLY_PAID';
+        await purchaseOrder.save();
       }
       
-      // Parse pagination
-      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+      // Publish supplier invoice paid event
+      await this.messageBus.publish('inventory', 'supplier-invoice.paid', {
+        invoiceId: invoice.invoiceId,
+        invoiceNumber: invoice.invoiceNumber,
+        supplierId: invoice.supplierId,
+        purchaseOrderId: invoice.purchaseOrderId,
+        amount,
+        paymentStatus: invoice.paymentStatus,
+        timestamp: new Date().toISOString()
+      });
       
-      // Build sort
-      const sort: any = {};
-      sort[sortBy as string] = sortOrder === 'asc' ? 1 : -1;
+      res.status(200).json(this.formatSupplierInvoice(invoice));
+    } catch (error) {
+      this.logger.error(`Record invoice payment error: ${error}`);
+      res.status(500).json({ message: 'Failed to record invoice payment' });
+    }
+  }
+
+  /**
+   * Accounts payable aging: open invoice balances by days past their due date
+   */
+  private async getPayablesAging(req: Request, res: Response): Promise<void> {
+    try {
+      const { supplierId, storeId, asOf } = req.query;
       
-      // Get products
-      const products = await this.productModel
-        .find(searchQuery)
-        .sort(sort)
-        .skip(skip)
-        .limit(parseInt(limit as string));
+      const asOfDate = asOf ? new Date(asOf as string) : new Date();
       
-      // Get total count
-      const total = await this.productModel.countDocuments(searchQuery);
+      if (isNaN(asOfDate.getTime())) {
+        res.status(400).json({ message: 'Invalid asOf date' });
+        return;
+      }
       
-      // Get inventory for found products
-      const productIds = products.map(p => p.productId);
-      const inventories = await this.inventoryModel.find({
-        productId: { $in: productIds }
+      const query: any = { paymentStatus: { $ne: 'PAID' } };
+      
+      if (supplierId) query.supplierId = supplierId;
+      if (storeId) query.storeId = storeId;
+      
+      const invoices = await this.supplierInvoiceModel.find(query).sort({ dueDate: 1 });
+      const suppliers = await this.supplierModel.find({ 
+        supplierId: { $in: [...new Set(invoices.map(invoice => invoice.supplierId))] } 
       });
       
-      // Create a map of productId to inventory
-      const inventoryMap = inventories.reduce((map, inv) => {
-        if (!map[inv.productId]) {
-          map[inv.productId] = [];
+      const emptyBuckets = (): Record<string, number> => ({ 
+        current: 0, 
+        days1to30: 0, 
+        days31to60: 0, 
+        days61to90: 0, 
+        over90: 0, 
+        total: 0, 
+        blocked: 0 
+      });
+      const totals = emptyBuckets();
+      const bySupplier = new Map<string, Record<string, number>>();
+      
+      const lines = invoices.map(invoice => {
+        const balance = parseFloat((invoice.total - invoice.amountPaid).toFixed(2));
+        const daysPastDue = Math.floor((asOfDate.getTime() - invoice.dueDate.getTime()) / (24 * 60 * 60 * 1000));
+        const bucket = daysPastDue <= 0 ? 'current'
+          : daysPastDue <= 30 ? 'days1to30'
+          : daysPastDue <= 60 ? 'days31to60'
+          : daysPastDue <= 90 ? 'days61to90'
+          : 'over90';
+        
+        if (!bySupplier.has(invoice.supplierId)) {
+          bySupplier.set(invoice.supplierId, emptyBuckets());
         }
-        map[inv.productId].push({
-          storeId: inv.storeId,
-          quantity: inv.quantity,
-          reservedQuantity: inv.reservedQuantity
-        });
-        return map;
-      }, {} as Record<string, any[]>);
+        
+        for (const buckets of [totals, bySupplier.get(invoice.supplierId)!]) {
+          buckets[bucket] += balance;
+          buckets.total += balance;
+          
+          // Balances that cannot be paid until their discrepancies are resolved
+          if (invoice.matchStatus === 'DISCREPANCY') {
+            buckets.blocked += balance;
+          }
+        }
+        
+        return {
+          invoiceId: invoice.invoiceId,
+          invoiceNumber: invoice.invoiceNumber,
+          supplierId: invoice.supplierId,
+          purchaseOrderId: invoice.purchaseOrderId,
+          invoiceDate: invoice.invoiceDate,
+          dueDate: invoice.dueDate,
+          balance,
+          daysPastDue: Math.max(0, daysPastDue),
+          bucket,
+          matchStatus: invoice.matchStatus
+        };
+      });
+      
+      const round = (buckets: Record<string, number>): Record<string, number> => 
+        Object.fromEntries(Object.entries(buckets).map(([key, value]) => [key, parseFloat(value.toFixed(2))]));
       
       res.status(200).json({
-        products: products.map(product => ({
-          productId: product.productId,
-          sku: product.sku,
-          name: product.name,
-          category: product.category,
-          price: product.price,
-          isActive: product.isActive,
-          inventory: inventoryMap[product.productId] || []
+        asOf: asOfDate,
+        totals: round(totals),
+        suppliers: Array.from(bySupplier.entries()).map(([id, buckets]) => ({
+          supplierId: id,
+          supplierName: suppliers.find(supplier => supplier.supplierId === id)?.name || 'Unknown Supplier',
+          ...round(buckets)
         })),
-        pagination: {
-          page: parseInt(page as string),
-          limit: parseInt(limit as string),
-          total,
-          pages: Math.ceil(total / parseInt(limit as string))
+        invoices: lines
+      });
+    } catch (error) {
+      this.logger.error(`Get payables aging error: ${error}`);
+      res.status(500).json({ message: 'Failed to get accounts payable aging' });
+    }
+  }
+
+  /**
+   * Three-way match an invoice: each product's quantity, with everything else invoiced on
+   * the order, against what was ordered and received, and each line's price against the
+   * order's price, within the supplier's tolerances. A product on several order lines is
+   * matched against all of them together
+   */
+  private async matchInvoice(
+    invoice: ISupplierInvoice, 
+    purchaseOrder: IPurchaseOrder, 
+    supplier: ISupplier | null
+  ): Promise<void> {
+    const tolerance = this.getMatchTolerance(supplier);
+    const otherInvoices = await this.supplierInvoiceModel.find({
+      purchaseOrderId: purchaseOrder.purchaseOrderId,
+      invoiceId: { $ne: invoice.invoiceId }
+    });
+    const discrepancies: IInvoiceDiscrepancy[] = [];
+    const quantityChecked = new Set<string>();
+    
+    for (const line of invoice.items) {
+      const poItems = purchaseOrder.items.filter(item => item.productId === line.productId);
+      
+      if (poItems.length === 0) {
+        discrepancies.push({
+          productId: line.productId,
+          sku: line.sku,
+          type: 'NOT_ON_ORDER',
+          ordered: 0,
+          received: 0,
+          invoiced: line.quantity,
+          invoicedPrice: line.unitPrice,
+          message: `${line.sku} is not on the purchase order`
+        });
+        continue;
+      }
+      
+      const ordered = poItems.reduce((sum, item) => sum + item.quantity, 0);
+      const received = poItems.reduce((sum, item) => sum + (item.receivedQuantity || 0), 0);
+      const invoiced = [invoice, ...otherInvoices].reduce((sum, other) => 
+        sum + other.items.filter(item => item.productId === line.productId).reduce((total, item) => total + item.quantity, 0), 0);
+      
+      // Quantities are matched once per product, however many invoice lines it is on
+      if (!quantityChecked.has(line.productId)) {
+        quantityChecked.add(line.productId);
+        
+        const overOrdered = invoiced > ordered * (1 + tolerance.quantityPercent / 100);
+        
+        if (overOrdered || invoiced > received * (1 + tolerance.quantityPercent / 100)) {
+          discrepancies.push({
+            productId: line.productId,
+            sku: line.sku,
+            type: 'QUANTITY',
+            ordered,
+            received,
+            invoiced,
+            message: overOrdered
+              ? `${line.sku}: invoiced ${invoiced}, only ${ordered} ordered`
+              : `${line.sku}: invoiced ${invoiced}, received ${received} of ${ordered} ordered`
+          });
         }
-      });
-    } catch (error) {
-      this.logger.error(`Search products error: ${error}`);
-      res.status(500).json({ message: 'Failed to search products' });
+      }
+      
+      // The price has to agree with one of the product's order lines
+      const closest = poItems.reduce((best, item) => 
+        Math.abs(line.unitPrice - item.unitPrice) < Math.abs(line.unitPrice - best.unitPrice) ? item : best);
+      const priceTolerance = Math.max(tolerance.priceAmount, closest.unitPrice * tolerance.pricePercent / 100);
+      
+      if (Math.abs(line.unitPrice - closest.unitPrice) > priceTolerance) {
+        discrepancies.push({
+          productId: line.productId,
+          sku: line.sku,
+          type: 'PRICE',
+          ordered,
+          received,
+          invoiced,
+          orderedPrice: closest.unitPrice,
+          invoicedPrice: line.unitPrice,
+          message: `${line.sku}: invoiced at ${line.unitPrice}, ordered at ${closest.unitPrice}`
+        });
+      }
+    }
+    
+    invoice.discrepancies = discrepancies;
+    invoice.matchedAt = new Date();
+    
+    // An override stands while discrepancies remain
+    if (discrepancies.length === 0) {
+      invoice.matchStatus = 'MATCHED';
+    } else if (invoice.matchStatus !== 'OVERRIDDEN') {
+      invoice.matchStatus = 'DISCREPANCY';
     }
   }
 
   /**
-   * Get inventory item by ID
+   * Match every unpaid invoice on a purchase order again
    */
-  private async getInventory(req: Request, res: Response): Promise<void> {
+  private async rematchPurchaseOrderInvoices(purchaseOrder: IPurchaseOrder): Promise<void> {
+    const invoices = await this.supplierInvoiceModel.find({ 
+      purchaseOrderId: purchaseOrder.purchaseOrderId, 
+      paymentStatus: { $ne: 'PAID' } 
+    });
+    
+    if (invoices.length === 0) {
+      return;
+    }
+    
+    const supplier = await this.supplierModel.findOne({ supplierId: purchaseOrder.supplierId });
+    
+    for (const invoice of invoices) {
+      await this.matchInvoice(invoice, purchaseOrder, supplier);
+      await invoice.save();
+    }
+  }
+
+  /**
+   * A supplier's match tolerances, falling back to the defaults
+   */
+  private getMatchTolerance(supplier: ISupplier | null): IMatchTolerance {
+    const tolerance = supplier?.matchTolerance;
+    
+    return {
+      quantityPercent: tolerance?.quantityPercent ?? DEFAULT_MATCH_TOLERANCE.quantityPercent,
+      pricePercent: tolerance?.pricePercent ?? DEFAULT_MATCH_TOLERANCE.pricePercent,
+      priceAmount: tolerance?.priceAmount ?? DEFAULT_MATCH_TOLERANCE.priceAmount
+    };
+  }
+
+  /**
+   * Days until payment is due from payment terms such as "Net 30" or "2/10 Net 45";
+   * terms without a period (e.g. "Due on receipt") are due immediately
+   */
+  private getPaymentTermDays(paymentTerms?: string): number {
+    const match = paymentTerms ? paymentTerms.match(/net\s*(\d+)/i) || paymentTerms.match(/(\d+)\s*days?/i) : null;
+    return match ? parseInt(match[1]) : 0;
+  }
+
+  /**
+   * Find a supplier invoice by ID
+   */
+  private async findSupplierInvoice(id: string): Promise<ISupplierInvoice | null> {
+    return this.supplierInvoiceModel.findOne({
+      $or: [
+        { invoiceId: id },
+        { _id: mongoose.isValidObjectId(id) ? id : undefined }
+      ]
+    });
+  }
+
+  /**
+   * Format a supplier invoice for API responses
+   */
+  private formatSupplierInvoice(invoice: ISupplierInvoice): Record<string, any> {
+    return {
+      invoiceId: invoice.invoiceId,
+      invoiceNumber: invoice.invoiceNumber,
+      supplierId: invoice.supplierId,
+      purchaseOrderId: invoice.purchaseOrderId,
+      storeId: invoice.storeId,
+      invoiceDate: invoice.invoiceDate,
+      dueDate: invoice.dueDate,
+      paymentTerms: invoice.paymentTerms,
+      subtotal: invoice.subtotal,
+      tax: invoice.tax,
+      shipping: invoice.shipping,
+      total: invoice.total,
+      matchStatus: invoice.matchStatus,
+      discrepancies: invoice.discrepancies,
+      matchedAt: invoice.matchedAt,
+      overrideReason: invoice.overrideReason,
+      paymentStatus: invoice.paymentStatus,
+      amountPaid: invoice.amountPaid,
+      balance: parseFloat((invoice.total - invoice.amountPaid).toFixed(2)),
+      createdAt: invoice.createdAt
+    };
+  }
+
+  /**
+   * List write-off reason codes
+   */
+  private async getWriteOffReasons(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
-      
-      const inventory = await this.inventoryModel.findOne({
-        $or: [
-          { inventoryId: id },
-          { _id: mongoose.isValidObjectId(id) ? id : undefined }
-        ]
-      });
-      
-      if (!inventory) {
-        res.status(404).json({ message: 'Inventory not found' });
-        return;
-      }
+      const { includeInactive } = req.query;
       
-      // Get product info
-      const product = await this.productModel.findOne({ productId: inventory.productId });
+      const reasons = await this.writeOffReasonModel
+        .find(includeInactive === 'true' ? {} : { isActive: true })
+        .sort({ type: 1, code: 1 });
       
       res.status(200).json({
-        inventoryId: inventory.inventoryId,
-        productId: inventory.productId,
-        sku: inventory.sku,
-        storeId: inventory.storeId,
-        quantity: inventory.quantity,
-        reservedQuantity: inventory.reservedQuantity,
-        availableQuantity: inventory.quantity - inventory.reservedQuantity,
-        backorderEnabled: inventory.backorderEnabled,
-        backorderLimit: inventory.backorderLimit,
-        reorderPoint: inventory.reorderPoint,
-        reorderQuantity: inventory.reorderQuantity,
-        lastRestockedAt: inventory.lastRestockedAt,
-        locationInStore: inventory.locationInStore,
-        product: product ? {
-          name: product.name,
-          price: product.price,
-          category: product.category,
-          isActive: product.isActive
-        } : null
+        reasons: reasons.map(reason => this.formatWriteOffReason(reason))
       });
     } catch (error) {
-      this.logger.error(`Get inventory error: ${error}`);
-      res.status(500).json({ message: 'Failed to get inventory' });
+      this.logger.error(`Get write-off reasons error: ${error}`);
+      res.status(500).json({ message: 'Failed to get write-off reasons' });
     }
   }
 
   /**
-   * Get inventory for a product
+   * Add a write-off reason code
    */
-  private async getProductInventory(req: Request, res: Response): Promise<void> {
+  private async createWriteOffReason(req: Request, res: Response): Promise<void> {
     try {
-      const { productId } = req.params;
+      const { code, name, type, requiresPhoto = false, approvalThreshold } = req.body;
       
-      // Get product first to validate it exists
-      const product = await this.productModel.findOne({
-        $or: [
-          { productId },
-          { sku: productId }
-        ]
-      });
+      if (!code || !name || !type) {
+        res.status(400).json({ message: 'Code, name, and type are required' });
+        return;
+      }
       
-      if (!product) {
-        res.status(404).json({ message: 'Product not found' });
+      if (approvalThreshold !== undefined && (typeof approvalThreshold !== 'number' || approvalThreshold < 0)) {
+        res.status(400).json({ message: 'Approval threshold must be a non-negative number' });
         return;
       }
       
-      // Get all inventory items for this product
-      const inventories = await this.inventoryModel.find({ 
-        productId: product.productId 
-      });
+      const existing = await this.writeOffReasonModel.findOne({ code: code.toUpperCase() });
       
-      // Calculate aggregate totals
-      const totalQuantity = inventories.reduce((sum, inv) => sum + inv.quantity, 0);
-      const totalReserved = inventories.reduce((sum, inv) => sum + inv.reservedQuantity, 0);
-      const totalAvailable = totalQuantity - totalReserved;
+      if (existing) {
+        res.status(409).json({ message: `Reason code ${code} already exists` });
+        return;
+      }
       
-      res.status(200).json({
-        productId: product.productId,
-        sku: product.sku,
-        name: product.name,
-        totalQuantity,
-        totalReserved,
-        totalAvailable,
-        inventoryByStore: inventories.map(inv => ({
-          storeId: inv.storeId,
-          inventoryId: inv.inventoryId,
-          quantity: inv.quantity,
-          reservedQuantity: inv.reservedQuantity,
-          availableQuantity: inv.quantity - inv.reservedQuantity,
-          backorderEnabled: inv.backorderEnabled,
-          lastRestockedAt: inv.lastRestockedAt,
-          locationInStore: inv.locationInStore
-        }))
+      const reason = new this.writeOffReasonModel({
+        code: code.toUpperCase(),
+        name,
+        type,
+        requiresPhoto,
+        approvalThreshold,
+        isActive: true
       });
+      
+      await reason.save();
+      
+      res.status(201).json(this.formatWriteOffReason(reason));
     } catch (error) {
-      this.logger.error(`Get product inventory error: ${error}`);
-      res.status(500).json({ message: 'Failed to get product inventory' });
+      this.logger.error(`Create write-off reason error: ${error}`);
+      res.status(500).json({ message: 'Failed to create write-off reason' });
     }
   }
 
   /**
-   * Get inventory for a store
+   * Update a write-off reason code
    */
-  private async getStoreInventory(req: Request, res: Response): Promise<void> {
+  private async updateWriteOffReason(req: Request, res: Response): Promise<void> {
     try {
-      const { storeId } = req.params;
-      const { lowStock, outOfStock, page = 1, limit = 10 } = req.query;
+      const { name, type, requiresPhoto, approvalThreshold, isActive } = req.body;
       
-      // Build query
-      const query: any = { storeId };
+      const reason = await this.writeOffReasonModel.findOne({ code: req.params.code.toUpperCase() });
       
-      if (lowStock === 'true') {
-        // Find products where quantity is below reorder point but not zero
-        query.$expr = { 
-          $and: [
-            { $gt: ['$quantity', 0] },
-            { $lte: ['$quantity', '$reorderPoint'] }
-          ]
-        };
+      if (!reason) {
+        res.status(404).json({ message: 'Write-off reason not found' });
+        return;
       }
       
-      if (outOfStock === 'true') {
-        // Find products where quantity is zero
-        query.quantity = 0;
+      if (approvalThreshold !== undefined && approvalThreshold !== null && 
+          (typeof approvalThreshold !== 'number' || approvalThreshold < 0)) {
+        res.status(400).json({ message: 'Approval threshold must be a non-negative number' });
+        return;
       }
       
-      // Parse pagination
-      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
-      
-      // Get inventory
-      const inventories = await this.inventoryModel
-        .find(query)
-        .sort({ quantity: 1 })
-        .skip(skip)
-        .limit(parseInt(limit as string));
-      
-      // Get total count
-      const total = await this.inventoryModel.countDocuments(query);
-      
-      // Get product details
-      const productIds = inventories.map(inv => inv.productId);
-      const products = await this.productModel.find({
-        productId: { $in: productIds }
-      });
+      if (name !== undefined) reason.name = name;
+      if (type !== undefined) reason.type = type;
+      if (requiresPhoto !== undefined) reason.requiresPhoto = requiresPhoto;
+      if (approvalThreshold !== undefined) reason.approvalThreshold = approvalThreshold ?? undefined;
+      if (isActive !== undefined) reason.isActive = isActive;
       
-      // Create a map of productId to product
-      const productMap = products.reduce((map, product) => {
-        map[product.productId] = product;
-        return map;
-      }, {} as Record<string, IProduct>);
+      await reason.save();
       
-      res.status(200).json({
-        storeId,
-        inventory: inventories.map(inv => {
-          const product = productMap[inv.productId];
-          return {
-            inventoryId: inv.inventoryId,
-            productId: inv.productId,
-            sku: inv.sku,
-            name: product ? product.name : 'Unknown Product',
-            category: product ? product.category : 'Unknown',
-            price: product ? product.price : 0,
-            quantity: inv.quantity,
-            reservedQuantity: inv.reservedQuantity,
-            availableQuantity: inv.quantity - inv.reservedQuantity,
-            reorderPoint: inv.reorderPoint,
-            isLowStock: inv.quantity > 0 && inv.quantity <= inv.reorderPoint,
-            isOutOfStock: inv.quantity === 0
-          };
-        }),
-        pagination: {
-          page: parseInt(page as string),
-          limit: parseInt(limit as string),
-          total,
-          pages: Math.ceil(total / parseInt(limit as string))
-        }
-      });
+      res.status(200).json(this.formatWriteOffReason(reason));
     } catch (error) {
-      this.logger.error(`Get store inventory error: ${error}`);
-      res.status(500).json({ message: 'Failed to get store inventory' });
+      this.logger.error(`Update write-off reason error: ${error}`);
+      res.status(500).json({ message: 'Failed to update write-off reason' });
     }
   }
 
   /**
-   * Adjust inventory quantity
+   * Write stock off with a reason code. Write-offs valued above the approval threshold
+   * wait for a manager; the rest are posted straight away
    */
-  private async adjustInventory(req: Request, res: Response): Promise<void> {
+  private async createWriteOff(req: Request, res: Response): Promise<void> {
     try {
       const { 
         productId, 
         sku, 
         storeId, 
         quantity, 
-        reason, 
+        reasonCode, 
+        lotNumber, 
+        photoUrls = [], 
         notes 
       } = req.body;
       
       // Validate input
-      if ((!productId && !sku) || !storeId || quantity === undefined) {
-        res.status(400).json({ message: 'Product ID or SKU, store ID, and quantity are required' });
+      if ((!productId && !sku) || !storeId || !quantity || quantity <= 0 || !reasonCode) {
+        res.status(400).json({ message: 'Product ID or SKU, store ID, positive quantity, and reason code are required' });
+        return;
+      }
+      
+      const reason = await this.writeOffReasonModel.findOne({ code: reasonCode.toUpperCase(), isActive: true });
+      
+      if (!reason) {
+        res.status(400).json({ message: `Unknown or inactive reason code ${reasonCode}` });
+        return;
+      }
+      
+      if (reason.requiresPhoto && photoUrls.length === 0) {
+        res.status(400).json({ message: `A photo is required for ${reason.name} write-offs` });
         return;
       }
       
@@ -1154,635 +8211,650 @@ export class InventoryService extends BaseService {
         return;
       }
       
-      // Record previous quantity for transaction
-      const previousQuantity = inventory.quantity;
-      
-      // Adjust quantity
-      const newQuantity = Math.max(0, previousQuantity + quantity);
-      inventory.quantity = newQuantity;
+      const available = inventory.quantity - inventory.reservedQuantity;
       
-      // Update lastRestockedAt if adding inventory
-      if (quantity > 0) {
-        inventory.lastRestockedAt = new Date();
+      if (available < quantity) {
+        res.status(400).json({ message: `Cannot write off ${quantity}; only ${available} unreserved units in stock` });
+        return;
       }
       
-      await inventory.save();
+      const product = await this.productModel.findOne({ productId: inventory.productId });
+      const unitCost = inventory.averageCost || (product ? product.costPrice : 0) || 0;
+      const estimatedValue = parseFloat((quantity * unitCost).toFixed(2));
+      const threshold = reason.approvalThreshold ?? WRITE_OFF_APPROVAL_THRESHOLD;
       
-      // Create transaction record
-      const transactionId = uuidv4();
-      const transaction = new this.transactionModel({
-        transactionId,
+      const writeOff = new this.writeOffModel({
+        writeOffId: uuidv4(),
+        storeId,
         inventoryId: inventory.inventoryId,
         productId: inventory.productId,
         sku: inventory.sku,
-        storeId,
-        type: quantity > 0 ? 'RESTOCK' : 'ADJUSTMENT',
+        category: product?.category,
+        categoryId: product?.categoryId,
         quantity,
-        previousQuantity,
-        newQuantity,
-        reason,
-        performedBy: (req as any).user.userId,
+        reasonCode: reason.code,
+        reasonType: reason.type,
+        lotNumber,
+        photoUrls,
+        status: 'PENDING_APPROVAL',
+        estimatedValue,
+        requestedBy: (req as any).user.userId,
         notes
       });
       
-      await transaction.save();
+      if (estimatedValue > threshold) {
+        await writeOff.save();
+        
+        // Publish write-off pending event so managers can review it
+        await this.messageBus.publish('inventory', 'inventory.write-off.pending', {
+          writeOffId: writeOff.writeOffId,
+          storeId,
+          productId: writeOff.productId,
+          sku: writeOff.sku,
+          quantity,
+          reasonCode: reason.code,
+          estimatedValue,
+          threshold,
+          timestamp: new Date().toISOString()
+        });
+        
+        res.status(202).json(this.formatWriteOff(writeOff));
+        return;
+      }
+      
+      const error = await this.postWriteOff(writeOff, reason, (req as any).user.userId);
+      
+      if (error) {
+        res.status(409).json({ message: error });
+        return;
+      }
+      
+      res.status(201).json(this.formatWriteOff(writeOff));
+    } catch (error) {
+      this.logger.error(`Create write-off error: ${error}`);
+      res.status(500).json({ message: 'Failed to create write-off' });
+    }
+  }
+
+  /**
+   * List write-offs
+   */
+  private async getWriteOffs(req: Request, res: Response): Promise<void> {
+    try {
+      const { 
+        storeId, 
+        status, 
+        reasonCode, 
+        reasonType, 
+        startDate, 
+        endDate, 
+        page = 1, 
+        limit = 10 
+      } = req.query;
+      
+      const query: any = {};
       
-      // Check if we need to publish low stock alert
-      if (newQuantity <= inventory.reorderPoint && previousQuantity > inventory.reorderPoint) {
-        await this.messageBus.publish('inventory', 'inventory.low-stock', {
-          inventoryId: inventory.inventoryId,
-          productId: inventory.productId,
-          sku: inventory.sku,
-          storeId,
-          quantity: newQuantity,
-          reorderPoint: inventory.reorderPoint,
-          reorderQuantity: inventory.reorderQuantity,
-          timestamp: new Date().toISOString()
-        });
+      if (storeId) query.storeId = storeId;
+      if (status) query.status = status;
+      if (reasonCode) query.reasonCode = (reasonCode as string).toUpperCase();
+      if (reasonType) query.reasonType = reasonType;
+      
+      if (startDate || endDate) {
+        query.createdAt = {};
+        if (startDate) query.createdAt.$gte = new Date(startDate as string);
+        if (endDate) query.createdAt.$lte = new Date(endDate as string);
       }
       
-      // Publish inventory updated event
-      await this.messageBus.publish('inventory', 'inventory.updated', {
-        inventoryId: inventory.inventoryId,
-        productId: inventory.productId,
-        sku: inventory.sku,
-        storeId,
-        quantity: newQuantity,
-        change: quantity,
-        timestamp: new Date().toISOString()
-      });
+      // Parse pagination
+      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+      
+      const writeOffs = await this.writeOffModel
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(parseInt(limit as string));
+      
+      const total = await this.writeOffModel.countDocuments(query);
       
       res.status(200).json({
-        inventoryId: inventory.inventoryId,
-        productId: inventory.productId,
-        sku: inventory.sku,
-        storeId,
-        previousQuantity,
-        adjustment: quantity,
-        newQuantity,
-        transaction: {
-          transactionId,
-          type: quantity > 0 ? 'RESTOCK' : 'ADJUSTMENT'
+        writeOffs: writeOffs.map(writeOff => this.formatWriteOff(writeOff)),
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total,
+          pages: Math.ceil(total / parseInt(limit as string))
         }
       });
     } catch (error) {
-      this.logger.error(`Adjust inventory error: ${error}`);
-      res.status(500).json({ message: 'Failed to adjust inventory' });
+      this.logger.error(`Get write-offs error: ${error}`);
+      res.status(500).json({ message: 'Failed to get write-offs' });
     }
   }
 
   /**
-   * Transfer inventory between stores
+   * Get a write-off
    */
-  private async transferInventory(req: Request, res: Response): Promise<void> {
+  private async getWriteOff(req: Request, res: Response): Promise<void> {
     try {
-      const { 
-        productId, 
-        sku, 
-        fromStoreId, 
-        toStoreId, 
-        quantity, 
-        notes 
-      } = req.body;
+      const writeOff = await this.writeOffModel.findOne({ writeOffId: req.params.id });
       
-      // Validate input
-      if ((!productId && !sku) || !fromStoreId || !toStoreId || !quantity || quantity <= 0) {
-        res.status(400).json({ 
-          message: 'Product ID or SKU, from store ID, to store ID, and positive quantity are required' 
-        });
+      if (!writeOff) {
+        res.status(404).json({ message: 'Write-off not found' });
         return;
       }
       
-      if (fromStoreId === toStoreId) {
-        res.status(400).json({ message: 'Source and destination stores must be different' });
+      res.status(200).json(this.formatWriteOff(writeOff));
+    } catch (error) {
+      this.logger.error(`Get write-off error: ${error}`);
+      res.status(500).json({ message: 'Failed to get write-off' });
+    }
+  }
+
+  /**
+   * Approve a write-off waiting on a manager and post it. The person who raised it cannot approve it
+   */
+  private async approveWriteOff(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user.userId;
+      
+      if (!this.isManager(req)) {
+        res.status(403).json({ message: 'Only a manager can approve write-offs' });
         return;
       }
       
-      // Start a session for transaction
-      const session = await mongoose.startSession();
-      session.startTransaction();
-      
-      try {
-        // Find source inventory
-        let sourceInventory;
-        if (productId) {
-          sourceInventory = await this.inventoryModel.findOne({ productId, storeId: fromStoreId }).session(session);
-        } else {
-          sourceInventory = await this.inventoryModel.findOne({ sku, storeId: fromStoreId }).session(session);
-        }
-        
-        if (!sourceInventory) {
-          await session.abortTransaction();
-          session.endSession();
-          res.status(404).json({ message: 'Source inventory not found' });
-          return;
-        }
-        
-        // Check if source has enough inventory
-        const availableQuantity = sourceInventory.quantity - sourceInventory.reservedQuantity;
-        if (availableQuantity < quantity) {
-          await session.abortTransaction();
-          session.endSession();
-          res.status(400).json({ 
-            message: `Insufficient inventory. Available: ${availableQuantity}, Requested: ${quantity}` 
-          });
-          return;
-        }
-        
-        // Find destination inventory
-        let destInventory;
-        if (productId) {
-          destInventory = await this.inventoryModel.findOne({ productId, storeId: toStoreId }).session(session);
-        } else {
-          destInventory = await this.inventoryModel.findOne({ sku, storeId: toStoreId }).session(session);
-        }
-        
-        // If destination inventory doesn't exist, create it
-        if (!destInventory) {
-          const inventoryId = uuidv4();
-          destInventory = new this.inventoryModel({
-            inventoryId,
-            productId: sourceInventory.productId,
-            sku: sourceInventory.sku,
-            storeId: toStoreId,
-            quantity: 0,
-            reservedQuantity: 0,
-            backorderEnabled: sourceInventory.backorderEnabled,
-            backorderLimit: sourceInventory.backorderLimit,
-            reorderPoint: sourceInventory.reorderPoint,
-            reorderQuantity: sourceInventory.reorderQuantity
-          });
-        }
-        
-        // Record previous quantities
-        const sourcePrevQuantity = sourceInventory.quantity;
-        const destPrevQuantity = destInventory.quantity;
-        
-        // Update quantities
-        sourceInventory.quantity -= quantity;
-        destInventory.quantity += quantity;
-        destInventory.lastRestockedAt = new Date();
-        
-        await sourceInventory.save({ session });
-        await destInventory.save({ session });
-        
-        // Create transaction records
-        const sourceTransactionId = uuidv4();
-        const sourceTransaction = new this.transactionModel({
-          transactionId: sourceTransactionId,
-          inventoryId: sourceInventory.inventoryId,
-          productId: sourceInventory.productId,
-          sku: sourceInventory.sku,
-          storeId: fromStoreId,
-          type: 'TRANSFER',
-          quantity: -quantity,
-          previousQuantity: sourcePrevQuantity,
-          newQuantity: sourceInventory.quantity,
-          referenceId: toStoreId,
-          reason: 'Store transfer',
-          performedBy: (req as any).user.userId,
-          notes
-        });
-        
-        const destTransactionId = uuidv4();
-        const destTransaction = new this.transactionModel({
-          transactionId: destTransactionId,
-          inventoryId: destInventory.inventoryId,
-          productId: destInventory.productId,
-          sku: destInventory.sku,
-          storeId: toStoreId,
-          type: 'TRANSFER',
-          quantity: quantity,
-          previousQuantity: destPrevQuantity,
-          newQuantity: destInventory.quantity,
-          referenceId: fromStoreId,
-          reason: 'Store transfer',
-          performedBy: (req as any).user.userId,
-          notes
-        });
-        
-        await sourceTransaction.save({ session });
-        await destTransaction.save({ session });
-        
-        // Commit transaction
-        await session.commitTransaction();
-        
-        // Check if we need to publish low stock alert for source
-        if (sourceInventory.quantity <= sourceInventory.reorderPoint && 
-            sourcePrevQuantity > sourceInventory.reorderPoint) {
-          await this.messageBus.publish('inventory', 'inventory.low-stock', {
-            inventoryId: sourceInventory.inventoryId,
-            productId: sourceInventory.productId,
-            sku: sourceInventory.sku,
-            storeId: fromStoreId,
-            quantity: sourceInventory.quantity,
-            reorderPoint: sourceInventory.reorderPoint,
-            reorderQuantity: sourceInventory.reorderQuantity,
-            timestamp: new Date().toISOString()
-          });
-        }
-        
-        // Publish inventory updated events
-        await this.messageBus.publish('inventory', 'inventory.updated', {
-          inventoryId: sourceInventory.inventoryId,
-          productId: sourceInventory.productId,
-          sku: sourceInventory.sku,
-          storeId: fromStoreId,
-          quantity: sourceInventory.quantity,
-          change: -quantity,
-          timestamp: new Date().toISOString()
-        });
-        
-        await this.messageBus.publish('inventory', 'inventory.updated', {
-          inventoryId: destInventory.inventoryId,
-          productId: destInventory.productId,
-          sku: destInventory.sku,
-          storeId: toStoreId,
-          quantity: destInventory.quantity,
-          change: quantity,
-          timestamp: new Date().toISOString()
-        });
-        
-        // Publish transfer event
-        await this.messageBus.publish('inventory', 'inventory.transferred', {
-          productId: sourceInventory.productId,
-          sku: sourceInventory.sku,
-          fromStoreId,
-          toStoreId,
-          quantity,
-          sourceTransaction: sourceTransactionId,
-          destTransaction: destTransactionId,
-          timestamp: new Date().toISOString()
-        });
-        
-        res.status(200).json({
-          productId: sourceInventory.productId,
-          sku: sourceInventory.sku,
-          fromStore: {
-            storeId: fromStoreId,
-            previousQuantity: sourcePrevQuantity,
-            newQuantity: sourceInventory.quantity
-          },
-          toStore: {
-            storeId: toStoreId,
-            previousQuantity: destPrevQuantity,
-            newQuantity: destInventory.quantity
-          },
-          quantity,
-          transactions: {
-            source: sourceTransactionId,
-            destination: destTransactionId
-          }
-        });
-      } catch (error) {
-        // Abort transaction on error
-        await session.abortTransaction();
-        throw error;
-      } finally {
-        // End session
-        session.endSession();
+      const existing = await this.writeOffModel.findOne({ writeOffId: req.params.id });
+      
+      if (!existing) {
+        res.status(404).json({ message: 'Write-off not found' });
+        return;
+      }
+      
+      if (existing.requestedBy === userId) {
+        res.status(403).json({ message: 'A write-off must be approved by someone other than who raised it' });
+        return;
+      }
+      
+      // Claim the write-off so concurrent approvals cannot both take the stock out
+      const writeOff = await this.writeOffModel.findOneAndUpdate(
+        { writeOffId: existing.writeOffId, status: 'PENDING_APPROVAL' },
+        { $set: { status: 'POSTED', approvedBy: userId } },
+        { new: true }
+      );
+      
+      if (!writeOff) {
+        res.status(400).json({ message: `Cannot approve a write-off in ${existing.status} status` });
+        return;
+      }
+      
+      const reason = await this.writeOffReasonModel.findOne({ code: writeOff.reasonCode });
+      
+      const error = await this.postWriteOff(writeOff, reason, userId);
+      
+      if (error) {
+        // Hand it back for another try once the stock is there
+        await this.writeOffModel.updateOne(
+          { writeOffId: writeOff.writeOffId, status: 'POSTED', transactionId: { $exists: false } },
+          { $set: { status: 'PENDING_APPROVAL' }, $unset: { approvedBy: 1 } }
+        );
+        res.status(409).json({ message: error });
+        return;
       }
+      
+      res.status(200).json(this.formatWriteOff(writeOff));
     } catch (error) {
-      this.logger.error(`Transfer inventory error: ${error}`);
-      res.status(500).json({ message: 'Failed to transfer inventory' });
+      this.logger.error(`Approve write-off error: ${error}`);
+      res.status(500).json({ message: 'Failed to approve write-off' });
     }
   }
 
   /**
-   * Reserve inventory for an order
+   * Reject a write-off waiting on a manager; no stock moves
    */
-  private async reserveInventory(req: Request, res: Response): Promise<void> {
+  private async rejectWriteOff(req: Request, res: Response): Promise<void> {
     try {
-      const { orderId, items, storeId } = req.body;
+      const { reason } = req.body;
       
-      // Validate input
-      if (!orderId || !items || !items.length || !storeId) {
-        res.status(400).json({ message: 'Order ID, items, and store ID are required' });
+      if (!this.isManager(req)) {
+        res.status(403).json({ message: 'Only a manager can reject write-offs' });
         return;
       }
       
-      // Start a session for transaction
-      const session = await mongoose.startSession();
-      session.startTransaction();
+      const existing = await this.writeOffModel.findOne({ writeOffId: req.params.id });
       
-      try {
-        const results = [];
-        let success = true;
-        let errorMessage = '';
+      if (!existing) {
+        res.status(404).json({ message: 'Write-off not found' });
+        return;
+      }
+      
+      // Only a write-off still pending can be rejected, even if an approval is racing it
+      const writeOff = await this.writeOffModel.findOneAndUpdate(
+        { writeOffId: existing.writeOffId, status: 'PENDING_APPROVAL' },
+        { $set: { status: 'REJECTED', rejectedBy: (req as any).user.userId, rejectionReason: reason } },
+        { new: true }
+      );
+      
+      if (!writeOff) {
+        res.status(400).json({ message: `Cannot reject a write-off in ${existing.status} status` });
+        return;
+      }
+      
+      res.status(200).json(this.formatWriteOff(writeOff));
+    } catch (error) {
+      this.logger.error(`Reject write-off error: ${error}`);
+      res.status(500).json({ message: 'Failed to reject write-off' });
+    }
+  }
+
+  /**
+   * Posted write-off totals by reason, category, store and day, valued at the cost
+   * recorded when each was written off
+   */
+  private async getShrinkageSummary(req: Request, res: Response): Promise<void> {
+    try {
+      const { storeId, startDate, endDate } = req.query;
+      
+      // Default to last 30 days
+      const end = endDate ? new Date(endDate as string) : new Date();
+      const start = startDate ? new Date(startDate as string) : new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000);
+      
+      const match: any = {
+        status: 'POSTED',
+        postedAt: { $gte: start, $lte: end }
+      };
+      
+      if (storeId) match.storeId = storeId;
+      
+      const writeOffs = await this.writeOffModel.find(match);
+      
+      // A write-off can count towards several groups, e.g. a category and each one above it
+      const group = (keyOf: (writeOff: IWriteOff) => string | string[]): { key: string; count: number; quantity: number; value: number }[] => {
+        const groups = new Map<string, { key: string; count: number; quantity: number; value: number }>();
         
-        // Process each item
-        for (const item of items) {
-          const { productId, sku, quantity } = item;
-          
-          if ((!productId && !sku) || !quantity || quantity <= 0) {
-            success = false;
-            errorMessage = 'Each item must have product ID or SKU, and positive quantity';
-            break;
-          }
-          
-          // Find inventory
-          let inventory;
-          if (productId) {
-            inventory = await this.inventoryModel.findOne({ productId, storeId }).session(session);
-          } else {
-            inventory = await this.inventoryModel.findOne({ sku, storeId }).session(session);
-          }
-          
-          if (!inventory) {
-            success = false;
-            errorMessage = `Inventory not found for ${productId || sku}`;
-            break;
-          }
-          
-          // Check if enough inventory is available
-          const availableQuantity = inventory.quantity - inventory.reservedQuantity;
-          
-          if (availableQuantity < quantity && !inventory.backorderEnabled) {
-            success = false;
-            errorMessage = `Insufficient inventory for ${inventory.sku}. Available: ${availableQuantity}, Requested: ${quantity}`;
-            break;
-          }
-          
-          // Check backorder limit if applicable
-          if (availableQuantity < quantity && inventory.backorderEnabled) {
-            const backorderNeeded = quantity - availableQuantity;
-            if (backorderNeeded > inventory.backorderLimit) {
-              success = false;
-              errorMessage = `Exceeds backorder limit for ${inventory.sku}. Limit: ${inventory.backorderLimit}, Needed: ${backorderNeeded}`;
-              break;
-            }
+        for (const writeOff of writeOffs) {
+          for (const key of ([] as string[]).concat(keyOf(writeOff))) {
+            const entry = groups.get(key) || { key, count: 0, quantity: 0, value: 0 };
+            
+            entry.count += 1;
+            entry.quantity += writeOff.quantity;
+            entry.value = parseFloat((entry.value + (writeOff.totalCost || 0)).toFixed(2));
+            groups.set(key, entry);
           }
-          
-          // Record previous quantities
-          const previousReserved = inventory.reservedQuantity;
-          
-          // Update reserved quantity
-          inventory.reservedQuantity += quantity;
-          await inventory.save({ session });
-          
-          // Create transaction record
-          const transactionId = uuidv4();
-          const transaction = new this.transactionModel({
-            transactionId,
-            inventoryId: inventory.inventoryId,
-            productId: inventory.productId,
-            sku: inventory.sku,
-            storeId,
-            type: 'RESERVE',
-            quantity,
-            previousQuantity: previousReserved,
-            newQuantity: inventory.reservedQuantity,
-            orderId,
-            reason: 'Order reservation',
-            performedBy: (req as any).user.userId
-          });
-          
-          await transaction.save({ session });
-          
-          results.push({
-            productId: inventory.productId,
-            sku: inventory.sku,
-            quantity,
-            available: availableQuantity,
-            isBackordered: quantity > availableQuantity,
-            transaction: transactionId
-          });
-        }
-        
-        if (!success) {
-          await session.abortTransaction();
-          session.endSession();
-          res.status(400).json({ message: errorMessage });
-          return;
         }
         
-        // Commit transaction
-        await session.commitTransaction();
-        
-        // Publish inventory reserved event
-        await this.messageBus.publish('inventory', 'inventory.reserved', {
-          orderId,
-          storeId,
-          items: results,
-          timestamp: new Date().toISOString()
-        });
-        
-        // Publish inventory allocated event (for order service)
-        await this.messageBus.publish('inventory', 'inventory.allocated', {
-          orderId,
-          storeId,
-          items: results,
-          timestamp: new Date().toISOString()
-        });
-        
-        res.status(200).json({
-          orderId,
-          storeId,
-          items: results,
-          success: true
-        });
-      } catch (error) {
-        // Abort transaction on error
-        await session.abortTransaction();
-        throw error;
-      } finally {
-        // End session
-        session.endSession();
+        return Array.from(groups.values()).sort((a, b) => b.value - a.value);
+      };
+      
+      // Categories are grouped by where they sit in the tree now, rolling up to every parent;
+      // write-offs from before the tree keep the category text they were recorded with
+      const categories = await this.categoryModel.find({});
+      const categoryById = new Map(categories.map(category => [category.categoryId, category]));
+      const categoryKeys = (writeOff: IWriteOff): string[] => {
+        const node = writeOff.categoryId ? categoryById.get(writeOff.categoryId) : undefined;
+        return node ? [node.categoryId, ...node.ancestorIds] : [writeOff.category || 'Uncategorized'];
+      };
+      
+      const reasons = await this.writeOffReasonModel.find({ code: { $in: [...new Set(writeOffs.map(writeOff => writeOff.reasonCode))] } });
+      
+      res.status(200).json({
+        startDate: start,
+        endDate: end,
+        storeId,
+        count: writeOffs.length,
+        quantity: writeOffs.reduce((sum, writeOff) => sum + writeOff.quantity, 0),
+        value: parseFloat(writeOffs.reduce((sum, writeOff) => sum + (writeOff.totalCost || 0), 0).toFixed(2)),
+        byType: group(writeOff => writeOff.reasonType).map(({ key, ...totals }) => ({ type: key, ...totals })),
+        byReason: group(writeOff => writeOff.reasonCode).map(({ key, ...totals }) => ({ 
+          reasonCode: key, 
+          name: reasons.find(reason => reason.code === key)?.name || key, 
+          ...totals 
+        })),
+        byCategory: group(categoryKeys).map(({ key, ...totals }) => {
+          const node = categoryById.get(key);
+          
+          return { 
+            categoryId: node?.categoryId, 
+            category: node ? node.path : key, 
+            depth: node ? node.depth : 0, 
+            ...totals 
+          };
+        }),
+        byStore: group(writeOff => writeOff.storeId).map(({ key, ...totals }) => ({ storeId: key, ...totals })),
+        byDay: group(writeOff => writeOff.postedAt!.toISOString().slice(0, 10))
+          .map(({ key, ...totals }) => ({ date: key, ...totals }))
+          .sort((a, b) => a.date.localeCompare(b.date))
+      });
+    } catch (error) {
+      this.logger.error(`Get shrinkage summary error: ${error}`);
+      res.status(500).json({ message: 'Failed to get shrinkage summary' });
+    }
+  }
+
+  /**
+   * Take written-off stock out of the store as an ADJUSTMENT costed at the time of posting.
+   * Returns an error message when the stock can no longer be written off
+   */
+  private async postWriteOff(writeOff: IWriteOff, reason: IWriteOffReason | null, performedBy: string): Promise<string | null> {
+    const inventory = await this.inventoryModel.findOne({ inventoryId: writeOff.inventoryId });
+    
+    if (!inventory) {
+      return 'Inventory not found';
+    }
+    
+    if (await this.isInventoryFrozen(inventory.inventoryId)) {
+      return `${inventory.sku} is frozen by a stocktake in progress`;
+    }
+    
+    if (inventory.quantity - inventory.reservedQuantity < writeOff.quantity) {
+      return `Only ${inventory.quantity - inventory.reservedQuantity} unreserved units of ${inventory.sku} are in stock`;
+    }
+    
+    const previousQuantity = inventory.quantity;
+    inventory.quantity -= writeOff.quantity;
+    
+    // Take the units from the named lot, or first-expiry-first-out
+    let lots: ILotAllocation[];
+    
+    if (writeOff.lotNumber) {
+      const lot = inventory.lots.find(candidate => candidate.lotNumber === writeOff.lotNumber);
+      
+      if (!lot || lot.quantity - lot.reservedQuantity < writeOff.quantity) {
+        return `Lot ${writeOff.lotNumber} does not have ${writeOff.quantity} unreserved units`;
+      }
+      
+      lot.quantity -= writeOff.quantity;
+      lots = [{ lotId: lot.lotId, lotNumber: lot.lotNumber, quantity: -writeOff.quantity }];
+      inventory.lots = inventory.lots.filter(candidate => candidate.quantity > 0 || candidate.reservedQuantity > 0);
+    } else {
+      lots = this.trimLots(inventory);
+    }
+    
+    const cost = await this.costMovement(inventory, previousQuantity);
+    await inventory.save();
+    
+    const transactionId = uuidv4();
+    const transaction = new this.transactionModel({
+      transactionId,
+      inventoryId: inventory.inventoryId,
+      productId: inventory.productId,
+      sku: inventory.sku,
+      storeId: inventory.storeId,
+      type: 'ADJUSTMENT',
+      quantity: -writeOff.quantity,
+      previousQuantity,
+      newQuantity: inventory.quantity,
+      referenceId: writeOff.writeOffId,
+      lots,
+      unitCost: cost.unitCost,
+      totalCost: cost.totalCost,
+      reason: reason ? reason.name : writeOff.reasonCode,
+      reasonCode: writeOff.reasonCode,
+      performedBy,
+      notes: writeOff.notes
+    });
+    
+    await transaction.save();
+    
+    writeOff.status = 'POSTED';
+    writeOff.unitCost = cost.unitCost;
+    writeOff.totalCost = -cost.totalCost;
+    writeOff.transactionId = transactionId;
+    writeOff.postedAt = new Date();
+    await writeOff.save();
+    
+    // Check if we need to publish low stock alert
+    if (inventory.quantity <= inventory.reorderPoint && previousQuantity > inventory.reorderPoint) {
+      await this.messageBus.publish('inventory', 'inventory.low-stock', {
+        inventoryId: inventory.inventoryId,
+        productId: inventory.productId,
+        sku: inventory.sku,
+        storeId: inventory.storeId,
+        quantity: inventory.quantity,
+        reorderPoint: inventory.reorderPoint,
+        reorderQuantity: inventory.reorderQuantity,
+        timestamp: new Date().toISOString()
+      });
+    }
+    
+    // Publish inventory updated event
+    await this.messageBus.publish('inventory', 'inventory.updated', {
+      inventoryId: inventory.inventoryId,
+      productId: inventory.productId,
+      sku: inventory.sku,
+      storeId: inventory.storeId,
+      quantity: inventory.quantity,
+      change: -writeOff.quantity,
+      timestamp: new Date().toISOString()
+    });
+    
+    // Publish write-off posted event
+    await this.messageBus.publish('inventory', 'inventory.write-off.posted', {
+      writeOffId: writeOff.writeOffId,
+      storeId: writeOff.storeId,
+      productId: writeOff.productId,
+      sku: writeOff.sku,
+      quantity: writeOff.quantity,
+      reasonCode: writeOff.reasonCode,
+      reasonType: writeOff.reasonType,
+      totalCost: writeOff.totalCost,
+      timestamp: new Date().toISOString()
+    });
+    
+    return null;
+  }
+
+  /**
+   * Check whether the user may approve write-offs
+   */
+  private isManager(req: Request): boolean {
+    const user = (req as any).user;
+    return user.roles.some((role: string) => ['admin', 'manager'].includes(role));
+  }
+
+  /**
+   * Create the standard write-off reason codes on first start
+   */
+  private async seedWriteOffReasons(): Promise<void> {
+    const defaults: { code: string; name: string; type: ShrinkageType; requiresPhoto: boolean }[] = [
+      { code: 'DAMAGE', name: 'Damaged', type: 'DAMAGE', requiresPhoto: true },
+      { code: 'THEFT', name: 'Theft', type: 'THEFT', requiresPhoto: false },
+      { code: 'EXPIRY', name: 'Expired', type: 'EXPIRY', requiresPhoto: false },
+      { code: 'SPOILAGE', name: 'Spoiled', type: 'SPOILAGE', requiresPhoto: false },
+      { code: 'SAMPLE', name: 'Sample or tasting', type: 'SAMPLE', requiresPhoto: false },
+      { code: 'STAFF_MEAL', name: 'Staff meal', type: 'STAFF_MEAL', requiresPhoto: false },
+      { code: 'TRANSIT_LOSS', name: 'Lost in transit', type: 'OTHER', requiresPhoto: false }
+    ];
+    
+    try {
+      for (const reason of defaults) {
+        await this.writeOffReasonModel.updateOne(
+          { code: reason.code },
+          { $setOnInsert: { ...reason, isActive: true } },
+          { upsert: true }
+        );
       }
     } catch (error) {
-      this.logger.error(`Reserve inventory error: ${error}`);
-      res.status(500).json({ message: 'Failed to reserve inventory' });
+      this.logger.error(`Seed write-off reasons error: ${error}`);
     }
   }
 
   /**
-   * Release reserved inventory
+   * Format a write-off reason for API responses
    */
-  private async releaseInventory(req: Request, res: Response): Promise<void> {
+  private formatWriteOffReason(reason: IWriteOffReason): Record<string, any> {
+    return {
+      code: reason.code,
+      name: reason.name,
+      type: reason.type,
+      requiresPhoto: reason.requiresPhoto,
+      approvalThreshold: reason.approvalThreshold ?? WRITE_OFF_APPROVAL_THRESHOLD,
+      isActive: reason.isActive
+    };
+  }
+
+  /**
+   * Format a write-off for API responses
+   */
+  private formatWriteOff(writeOff: IWriteOff): Record<string, any> {
+    return {
+      writeOffId: writeOff.writeOffId,
+      storeId: writeOff.storeId,
+      inventoryId: writeOff.inventoryId,
+      productId: writeOff.productId,
+      sku: writeOff.sku,
+      category: writeOff.category,
+      categoryId: writeOff.categoryId,
+      quantity: writeOff.quantity,
+      reasonCode: writeOff.reasonCode,
+      reasonType: writeOff.reasonType,
+      lotNumber: writeOff.lotNumber,
+      photoUrls: writeOff.photoUrls,
+      status: writeOff.status,
+      estimatedValue: writeOff.estimatedValue,
+      unitCost: writeOff.unitCost,
+      totalCost: writeOff.totalCost,
+      transactionId: writeOff.transactionId,
+      requestedBy: writeOff.requestedBy,
+      approvedBy: writeOff.approvedBy,
+      rejectedBy: writeOff.rejectedBy,
+      rejectionReason: writeOff.rejectionReason,
+      notes: writeOff.notes,
+      createdAt: writeOff.createdAt,
+      postedAt: writeOff.postedAt
+    };
+  }
+
+  /**
+   * Start a stocktake, snapshotting expected quantities for everything in scope
+   */
+  private async startStocktake(req: Request, res: Response): Promise<void> {
     try {
-      const { orderId, items, storeId, reason } = req.body;
+      const { storeId, scope = 'FULL', category, locationInStore, freezeInventory = false, notes } = req.body;
       
-      // Validate input
-      if (!orderId || !storeId) {
-        res.status(400).json({ message: 'Order ID and store ID are required' });
+      if (!storeId || !['FULL', 'CATEGORY', 'LOCATION'].includes(scope)) {
+        res.status(400).json({ message: 'Store ID and a scope of FULL, CATEGORY or LOCATION are required' });
         return;
       }
       
-      // If no items specified, find all reservations for this order
-      let itemsToRelease = items;
-      if (!itemsToRelease || !itemsToRelease.length) {
-        const transactions = await this.transactionModel.find({
-          orderId,
-          storeId,
-          type: 'RESERVE'
-        });
-        
-        itemsToRelease = transactions.map(t => ({
-          productId: t.productId,
-          sku: t.sku,
-          quantity: t.quantity
-        }));
+      if ((scope === 'CATEGORY' && !category) || (scope === 'LOCATION' && !locationInStore)) {
+        res.status(400).json({ message: `A ${scope.toLowerCase()} stocktake needs a ${scope === 'CATEGORY' ? 'category' : 'location'}` });
+        return;
+      }
+      
+      // Build the count list
+      const query: any = { storeId };
+      
+      if (scope === 'LOCATION') {
+        query.locationInStore = locationInStore;
       }
       
-      if (!itemsToRelease.length) {
-        res.status(404).json({ message: 'No reserved inventory found for this order' });
+      if (scope === 'CATEGORY') {
+        const products = await this.productModel
+          .find({ category: { $in: await this.getCategoryPaths(category) } })
+          .select('productId')
+          .lean();
+        query.productId = { $in: products.map(product => product.productId) };
+      }
+      
+      const inventories = await this.inventoryModel.find(query).sort({ locationInStore: 1, sku: 1 });
+      
+      if (inventories.length === 0) {
+        res.status(400).json({ message: 'Nothing to count in this scope' });
         return;
       }
       
-      // Start a session for transaction
-      const session = await mongoose.startSession();
-      session.startTransaction();
+      // An item can only be in one open stocktake at a time
+      const overlapping = await this.stocktakeModel.findOne({
+        status: { $in: ['COUNTING', 'IN_REVIEW', 'APPROVED'] },
+        'lines.inventoryId': { $in: inventories.map(inventory => inventory.inventoryId) }
+      });
       
-      try {
-        const results = [];
-        
-        // Process each item
-        for (const item of itemsToRelease) {
-          const { productId, sku, quantity } = item;
-          
-          // Find inventory
-          let inventory;
-          if (productId) {
-            inventory = await this.inventoryModel.findOne({ productId, storeId }).session(session);
-          } else {
-            inventory = await this.inventoryModel.findOne({ sku, storeId }).session(session);
-          }
-          
-          if (!inventory) {
-            continue; // Skip if inventory not found
-          }
-          
-          // Record previous quantities
-          const previousReserved = inventory.reservedQuantity;
-          
-          // Calculate quantity to release (don't go below 0)
-          const releaseQuantity = Math.min(previousReserved, quantity || previousReserved);
-          
-          // Update reserved quantity
-          inventory.reservedQuantity = Math.max(0, previousReserved - releaseQuantity);
-          await inventory.save({ session });
-          
-          // Create transaction record
-          const transactionId = uuidv4();
-          const transaction = new this.transactionModel({
-            transactionId,
-            inventoryId: inventory.inventoryId,
-            productId: inventory.productId,
-            sku: inventory.sku,
-            storeId,
-            type: 'UNRESERVE',
-            quantity: -releaseQuantity,
-            previousQuantity: previousReserved,
-            newQuantity: inventory.reservedQuantity,
-            orderId,
-            reason: reason || 'Reservation release',
-            performedBy: (req as any).user.userId
-          });
-          
-          await transaction.save({ session });
-          
-          results.push({
-            productId: inventory.productId,
-            sku: inventory.sku,
-            quantityReleased: releaseQuantity,
-            transaction: transactionId
-          });
-        }
-        
-        // Commit transaction
-        await session.commitTransaction();
-        
-        // Publish inventory released event
-        await this.messageBus.publish('inventory', 'inventory.released', {
-          orderId,
-          storeId,
-          items: results,
-          reason,
-          timestamp: new Date().toISOString()
-        });
-        
-        res.status(200).json({
-          orderId,
-          storeId,
-          items: results,
-          success: true
+      if (overlapping) {
+        res.status(409).json({ 
+          message: `Items in this scope are already being counted in stocktake ${overlapping.stocktakeId}` 
         });
-      } catch (error) {
-        // Abort transaction on error
-        await session.abortTransaction();
-        throw error;
-      } finally {
-        // End session
-        session.endSession();
+        return;
       }
+      
+      const products = await this.productModel.find({
+        productId: { $in: inventories.map(inventory => inventory.productId) }
+      });
+      const productMap = new Map(products.map(product => [product.productId, product]));
+      
+      const stocktake = new this.stocktakeModel({
+        stocktakeId: uuidv4(),
+        storeId,
+        scope,
+        category: scope === 'CATEGORY' ? category : undefined,
+        locationInStore: scope === 'LOCATION' ? locationInStore : undefined,
+        status: 'COUNTING',
+        freezeInventory,
+        lines: inventories.map(inventory => ({
+          inventoryId: inventory.inventoryId,
+          productId: inventory.productId,
+          sku: inventory.sku,
+          name: productMap.get(inventory.productId)?.name || inventory.sku,
+          locationInStore: inventory.locationInStore,
+          unitCost: productMap.get(inventory.productId)?.costPrice || 0,
+          expectedQuantity: inventory.quantity,
+          counts: [],
+          isApproved: false
+        })),
+        startedBy: (req as any).user.userId,
+        notes
+      });
+      
+      await stocktake.save();
+      
+      await this.messageBus.publish('inventory', 'inventory.stocktake.started', {
+        stocktakeId: stocktake.stocktakeId,
+        storeId,
+        scope,
+        lineCount: stocktake.lines.length,
+        freezeInventory,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(201).json(this.formatStocktake(stocktake));
     } catch (error) {
-      this.logger.error(`Release inventory error: ${error}`);
-      res.status(500).json({ message: 'Failed to release inventory' });
+      this.logger.error(`Start stocktake error: ${error}`);
+      res.status(500).json({ message: 'Failed to start stocktake' });
     }
   }
 
   /**
-   * Get inventory transactions
+   * List stocktakes
    */
-  private async getTransactions(req: Request, res: Response): Promise<void> {
+  private async getStocktakes(req: Request, res: Response): Promise<void> {
     try {
-      const { 
-        storeId, 
-        productId, 
-        sku, 
-        type, 
-        orderId, 
-        startDate, 
-        endDate, 
-        page = 1, 
-        limit = 10 
-      } = req.query;
+      const { storeId, status, page = 1, limit = 10 } = req.query;
       
-      // Build query
       const query: any = {};
       
       if (storeId) query.storeId = storeId;
-      if (productId) query.productId = productId;
-      if (sku) query.sku = sku;
-      if (type) query.type = type;
-      if (orderId) query.orderId = orderId;
-      
-      // Date range
-      if (startDate || endDate) {
-        query.createdAt = {};
-        if (startDate) query.createdAt.$gte = new Date(startDate as string);
-        if (endDate) query.createdAt.$lte = new Date(endDate as string);
-      }
+      if (status) query.status = status;
       
       // Parse pagination
       const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
       
-      // Get transactions
-      const transactions = await this.transactionModel
+      const stocktakes = await this.stocktakeModel
         .find(query)
         .sort({ createdAt: -1 })
         .skip(skip)
         .limit(parseInt(limit as string));
       
-      // Get total count
-      const total = await this.transactionModel.countDocuments(query);
+      const total = await this.stocktakeModel.countDocuments(query);
       
       res.status(200).json({
-        transactions: transactions.map(t => ({
-          transactionId: t.transactionId,
-          inventoryId: t.inventoryId,
-          productId: t.productId,
-          sku: t.sku,
-          storeId: t.storeId,
-          type: t.type,
-          quantity: t.quantity,
-          previousQuantity: t.previousQuantity,
-          newQuantity: t.newQuantity,
-          orderId: t.orderId,
-          referenceId: t.referenceId,
-          reason: t.reason,
-          performedBy: t.performedBy,
-          createdAt: t.createdAt
+        stocktakes: stocktakes.map(stocktake => ({
+          stocktakeId: stocktake.stocktakeId,
+          storeId: stocktake.storeId,
+          scope: stocktake.scope,
+          category: stocktake.category,
+          locationInStore: stocktake.locationInStore,
+          status: stocktake.status,
+          lineCount: stocktake.lines.length,
+          countedLines: stocktake.lines.filter(line => line.counts.length > 0).length,
+          createdAt: stocktake.createdAt
         })),
         pagination: {
           page: parseInt(page as string),
@@ -1792,989 +8864,1730 @@ export class InventoryService extends BaseService {
         }
       });
     } catch (error) {
-      this.logger.error(`Get transactions error: ${error}`);
-      res.status(500).json({ message: 'Failed to get transactions' });
+      this.logger.error(`Get stocktakes error: ${error}`);
+      res.status(500).json({ message: 'Failed to get stocktakes' });
     }
   }
 
   /**
-   * Get transaction by ID
+   * Get a stocktake with its count sheet
    */
-  private async getTransaction(req: Request, res: Response): Promise<void> {
+  private async getStocktake(req: Request, res: Response): Promise<void> {
+    try {
+      const stocktake = await this.stocktakeModel.findOne({ stocktakeId: req.params.id });
+      
+      if (!stocktake) {
+        res.status(404).json({ message: 'Stocktake not found' });
+        return;
+      }
+      
+      res.status(200).json(this.formatStocktake(stocktake));
+    } catch (error) {
+      this.logger.error(`Get stocktake error: ${error}`);
+      res.status(500).json({ message: 'Failed to get stocktake' });
+    }
+  }
+
+  /**
+   * Record counts from one count sheet; a later count on the same sheet replaces the earlier one
+   */
+  private async recordStocktakeCounts(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
+      const { sheet, counts } = req.body;
+      const countedBy = (req as any).user.userId;
       
-      const transaction = await this.transactionModel.findOne({
-        $or: [
-          { transactionId: id },
-          { _id: mongoose.isValidObjectId(id) ? id : undefined }
-        ]
-      });
+      if (!Array.isArray(counts) || counts.length === 0) {
+        res.status(400).json({ message: 'Counts are required' });
+        return;
+      }
       
-      if (!transaction) {
-        res.status(404).json({ message: 'Transaction not found' });
+      const stocktake = await this.stocktakeModel.findOne({ stocktakeId: id });
+      
+      if (!stocktake) {
+        res.status(404).json({ message: 'Stocktake not found' });
+        return;
+      }
+      
+      if (stocktake.status !== 'COUNTING') {
+        res.status(400).json({ message: `Cannot record counts on a stocktake in ${stocktake.status} status` });
+        return;
+      }
+      
+      // Resolve every entry before writing any of them
+      const entries: { inventoryId: string; quantity: number }[] = [];
+      
+      for (const count of counts) {
+        const line = stocktake.lines.find(candidate => 
+          candidate.productId === count.productId || candidate.sku === count.sku || candidate.inventoryId === count.inventoryId
+        );
+        
+        if (!line) {
+          res.status(400).json({ message: `${count.sku || count.productId || count.inventoryId} is not part of this stocktake` });
+          return;
+        }
+        
+        if (!Number.isInteger(count.quantity) || count.quantity < 0) {
+          res.status(400).json({ message: `Count for ${line.sku} must be a whole number of zero or more` });
+          return;
+        }
+        
+        entries.push({ inventoryId: line.inventoryId, quantity: count.quantity });
+      }
+      
+      const sheetName = sheet || countedBy;
+      const countedAt = new Date();
+      
+      // Update each line in place so staff counting other sheets don't overwrite each other
+      for (const entry of entries) {
+        await this.stocktakeModel.updateOne(
+          { stocktakeId: id, status: 'COUNTING' },
+          { $pull: { 'lines.$[line].counts': { sheet: sheetName } } },
+          { arrayFilters: [{ 'line.inventoryId': entry.inventoryId }] }
+        );
+        
+        await this.stocktakeModel.updateOne(
+          { stocktakeId: id, status: 'COUNTING' },
+          { $push: { 'lines.$[line].counts': { sheet: sheetName, quantity: entry.quantity, countedBy, countedAt } } },
+          { arrayFilters: [{ 'line.inventoryId': entry.inventoryId }] }
+        );
+      }
+      
+      const updated = await this.stocktakeModel.findOne({ stocktakeId: id });
+      
+      res.status(200).json(this.formatStocktake(updated!));
+    } catch (error) {
+      this.logger.error(`Record stocktake counts error: ${error}`);
+      res.status(500).json({ message: 'Failed to record stocktake counts' });
+    }
+  }
+
+  /**
+   * Get the variances of a stocktake for review
+   */
+  private async getStocktakeVariances(req: Request, res: Response): Promise<void> {
+    try {
+      const { onlyVariances = 'true' } = req.query;
+      
+      const stocktake = await this.stocktakeModel.findOne({ stocktakeId: req.params.id });
+      
+      if (!stocktake) {
+        res.status(404).json({ message: 'Stocktake not found' });
         return;
       }
       
+      const lines = stocktake.lines
+        .map(line => this.getStocktakeVariance(line))
+        .filter(line => onlyVariances === 'false' || line.variance !== 0 || line.countedQuantity === null);
+      
+      const counted = lines.filter(line => line.countedQuantity !== null);
+      
       res.status(200).json({
-        transactionId: transaction.transactionId,
-        inventoryId: transaction.inventoryId,
-        productId: transaction.productId,
-        sku: transaction.sku,
-        storeId: transaction.storeId,
-        type: transaction.type,
-        quantity: transaction.quantity,
-        previousQuantity: transaction.previousQuantity,
-        newQuantity: transaction.newQuantity,
-        orderId: transaction.orderId,
-        referenceId: transaction.referenceId,
-        reason: transaction.reason,
-        performedBy: transaction.performedBy,
-        notes: transaction.notes,
-        createdAt: transaction.createdAt
+        stocktakeId: stocktake.stocktakeId,
+        status: stocktake.status,
+        lines,
+        summary: {
+          lineCount: stocktake.lines.length,
+          uncountedLines: stocktake.lines.filter(line => line.counts.length === 0).length,
+          unitsVariance: counted.reduce((sum, line) => sum + line.variance, 0),
+          valueVariance: parseFloat(counted.reduce((sum, line) => sum + line.varianceValue, 0).toFixed(2))
+        }
       });
     } catch (error) {
-      this.logger.error(`Get transaction error: ${error}`);
-      res.status(500).json({ message: 'Failed to get transaction' });
+      this.logger.error(`Get stocktake variances error: ${error}`);
+      res.status(500).json({ message: 'Failed to get stocktake variances' });
     }
   }
 
   /**
-   * Get transactions for a product
+   * Close counting and send the stocktake for variance review
    */
-  private async getProductTransactions(req: Request, res: Response): Promise<void> {
+  private async submitStocktake(req: Request, res: Response): Promise<void> {
     try {
-      const { productId } = req.params;
-      const { page = 1, limit = 10 } = req.query;
+      const stocktake = await this.stocktakeModel.findOne({ stocktakeId: req.params.id });
+      
+      if (!stocktake) {
+        res.status(404).json({ message: 'Stocktake not found' });
+        return;
+      }
+      
+      if (stocktake.status !== 'COUNTING') {
+        res.status(400).json({ message: `Cannot submit stocktake in ${stocktake.status} status` });
+        return;
+      }
+      
+      stocktake.status = 'IN_REVIEW';
+      stocktake.submittedAt = new Date();
+      await stocktake.save();
+      
+      res.status(200).json(this.formatStocktake(stocktake));
+    } catch (error) {
+      this.logger.error(`Submit stocktake error: ${error}`);
+      res.status(500).json({ message: 'Failed to submit stocktake' });
+    }
+  }
+
+  /**
+   * Approve a reviewed stocktake's variances, all counted lines or only the listed ones
+   */
+  private async approveStocktake(req: Request, res: Response): Promise<void> {
+    try {
+      const { productIds, notes } = req.body;
+      
+      const stocktake = await this.stocktakeModel.findOne({ stocktakeId: req.params.id });
+      
+      if (!stocktake) {
+        res.status(404).json({ message: 'Stocktake not found' });
+        return;
+      }
+      
+      if (stocktake.status !== 'IN_REVIEW') {
+        res.status(400).json({ message: `Cannot approve stocktake in ${stocktake.status} status` });
+        return;
+      }
       
-      // Parse pagination
-      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+      // Uncounted lines are never adjusted
+      for (const line of stocktake.lines) {
+        line.isApproved = line.counts.length > 0 && (!Array.isArray(productIds) || productIds.includes(line.productId));
+      }
       
-      // Get transactions
-      const transactions = await this.transactionModel
-        .find({ productId })
-        .sort({ createdAt: -1 })
-        .skip(skip)
-        .limit(parseInt(limit as string));
+      stocktake.status = 'APPROVED';
+      stocktake.approvedBy = (req as any).user.userId;
+      stocktake.approvedAt = new Date();
       
-      // Get total count
-      const total = await this.transactionModel.countDocuments({ productId });
+      if (notes) {
+        stocktake.notes = (stocktake.notes || '') + `\nApproval: ${notes}`;
+      }
       
-      // Get product details
-      const product = await this.productModel.findOne({ productId });
+      await stocktake.save();
       
-      res.status(200).json({
-        productId,
-        productName: product ? product.name : 'Unknown Product',
-        transactions: transactions.map(t => ({
-          transactionId: t.transactionId,
-          storeId: t.storeId,
-          type: t.type,
-          quantity: t.quantity,
-          previousQuantity: t.previousQuantity,
-          newQuantity: t.newQuantity,
-          orderId: t.orderId,
-          reason: t.reason,
-          createdAt: t.createdAt
-        })),
-        pagination: {
-          page: parseInt(page as string),
-          limit: parseInt(limit as string),
-          total,
-          pages: Math.ceil(total / parseInt(limit as string))
-        }
-      });
+      res.status(200).json(this.formatStocktake(stocktake));
     } catch (error) {
-      this.logger.error(`Get product transactions error: ${error}`);
-      res.status(500).json({ message: 'Failed to get product transactions' });
+      this.logger.error(`Approve stocktake error: ${error}`);
+      res.status(500).json({ message: 'Failed to approve stocktake' });
     }
   }
 
   /**
-   * Create a new supplier
+   * Post approved variances as ADJUSTMENT transactions sharing the stocktake ID as reference
    */
-  private async createSupplier(req: Request, res: Response): Promise<void> {
+  private async postStocktake(req: Request, res: Response): Promise<void> {
     try {
-      const { 
-        name, 
-        contactName, 
-        email, 
-        phone, 
-        address, 
-        website, 
-        paymentTerms, 
-        leadTime, 
-        minOrderValue, 
-        notes 
-      } = req.body;
+      const stocktake = await this.stocktakeModel.findOne({ stocktakeId: req.params.id });
       
-      // Validate required fields
-      if (!name || !contactName || !email || !phone || !address) {
-        res.status(400).json({ message: 'Name, contact name, email, phone, and address are required' });
+      if (!stocktake) {
+        res.status(404).json({ message: 'Stocktake not found' });
         return;
       }
       
-      // Create supplier
-      const supplierId = uuidv4();
-      const supplier = new this.supplierModel({
-        supplierId,
-        name,
-        contactName,
-        email,
-        phone,
-        address,
-        website,
-        paymentTerms,
-        leadTime,
-        minOrderValue,
-        notes,
-        isActive: true
-      });
+      if (stocktake.status !== 'APPROVED') {
+        res.status(400).json({ message: `Cannot post stocktake in ${stocktake.status} status` });
+        return;
+      }
       
-      await supplier.save();
+      const performedBy = (req as any).user.userId;
+      const lines = stocktake.lines
+        .filter(line => line.isApproved)
+        .map(line => this.getStocktakeVariance(line))
+        .filter(line => line.variance !== 0);
       
-      res.status(201).json({
-        supplierId: supplier.supplierId,
-        name: supplier.name,
-        contactName: supplier.contactName,
-        email: supplier.email,
-        phone: supplier.phone,
-        address: supplier.address,
-        createdAt: supplier.createdAt
-      });
-    } catch (error: any) {
-      this.logger.error(`Supplier creation error: ${error}`);
-      res.status(500).json({ message: 'Failed to create supplier', error: error.message });
+      // Start a session for transaction
+      const session = await mongoose.startSession();
+      session.startTransaction();
+      
+      try {
+        const posted: { inventory: IInventoryItem; change: number }[] = [];
+        
+        for (const line of lines) {
+          const inventory = await this.inventoryModel.findOne({ inventoryId: line.inventoryId }).session(session);
+          
+          if (!inventory) {
+            continue;
+          }
+          
+          // Apply the variance to the live quantity so movements since the snapshot are kept
+          const previousQuantity = inventory.quantity;
+          inventory.quantity = Math.max(0, previousQuantity + line.variance);
+          const lots = this.trimLots(inventory);
+          const cost = await this.costMovement(inventory, previousQuantity);
+          await inventory.save({ session });
+          
+          const transaction = new this.transactionModel({
+            transactionId: uuidv4(),
+            inventoryId: inventory.inventoryId,
+            productId: inventory.productId,
+            sku: inventory.sku,
+            storeId: inventory.storeId,
+            type: 'ADJUSTMENT',
+            quantity: inventory.quantity - previousQuantity,
+            previousQuantity,
+            newQuantity: inventory.quantity,
+            referenceId: stocktake.stocktakeId,
+            lots,
+            unitCost: cost.unitCost,
+            totalCost: cost.totalCost,
+            reason: 'Stocktake variance',
+            performedBy,
+            notes: `Expected ${line.expectedQuantity}, counted ${line.countedQuantity}`
+          });
+          
+          await transaction.save({ session });
+          posted.push({ inventory, change: inventory.quantity - previousQuantity });
+        }
+        
+        stocktake.status = 'POSTED';
+        stocktake.postedBy = performedBy;
+        stocktake.postedAt = new Date();
+        await stocktake.save({ session });
+        
+        await session.commitTransaction();
+        
+        for (const { inventory, change } of posted) {
+          await this.messageBus.publish('inventory', 'inventory.updated', {
+            inventoryId: inventory.inventoryId,
+            productId: inventory.productId,
+            sku: inventory.sku,
+            storeId: inventory.storeId,
+            quantity: inventory.quantity,
+            change,
+            timestamp: new Date().toISOString()
+          });
+        }
+        
+        await this.messageBus.publish('inventory', 'inventory.stocktake.posted', {
+          stocktakeId: stocktake.stocktakeId,
+          storeId: stocktake.storeId,
+          adjustedLines: posted.length,
+          unitsVariance: posted.reduce((sum, { change }) => sum + change, 0),
+          valueVariance: parseFloat(lines.reduce((sum, line) => sum + line.varianceValue, 0).toFixed(2)),
+          timestamp: new Date().toISOString()
+        });
+        
+        res.status(200).json({
+          ...this.formatStocktake(stocktake),
+          adjustments: posted.map(({ inventory, change }) => ({
+            inventoryId: inventory.inventoryId,
+            sku: inventory.sku,
+            change,
+            newQuantity: inventory.quantity
+          }))
+        });
+      } catch (error) {
+        // Abort transaction on error
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        // End session
+        session.endSession();
+      }
+    } catch (error) {
+      this.logger.error(`Post stocktake error: ${error}`);
+      res.status(500).json({ message: 'Failed to post stocktake' });
     }
   }
 
   /**
-   * Get supplier by ID
+   * Cancel a stocktake that has not been posted, unfreezing its items
    */
-  private async getSupplier(req: Request, res: Response): Promise<void> {
+  private async cancelStocktake(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
+      const { reason } = req.body;
       
-      const supplier = await this.supplierModel.findOne({
-        $or: [
-          { supplierId: id },
-          { _id: mongoose.isValidObjectId(id) ? id : undefined }
-        ]
-      });
+      const stocktake = await this.stocktakeModel.findOne({ stocktakeId: req.params.id });
       
-      if (!supplier) {
-        res.status(404).json({ message: 'Supplier not found' });
+      if (!stocktake) {
+        res.status(404).json({ message: 'Stocktake not found' });
         return;
       }
       
-      res.status(200).json({
-        supplierId: supplier.supplierId,
-        name: supplier.name,
-        contactName: supplier.contactName,
-        email: supplier.email,
-        phone: supplier.phone,
-        address: supplier.address,
-        website: supplier.website,
-        paymentTerms: supplier.paymentTerms,
-        leadTime: supplier.leadTime,
-        minOrderValue: supplier.minOrderValue,
-        notes: supplier.notes,
-        isActive: supplier.isActive,
-        createdAt: supplier.createdAt,
-        updatedAt: supplier.updatedAt
-      });
+      if (['POSTED', 'CANCELLED'].includes(stocktake.status)) {
+        res.status(400).json({ message: `Cannot cancel stocktake in ${stocktake.status} status` });
+        return;
+      }
+      
+      stocktake.status = 'CANCELLED';
+      stocktake.cancelledAt = new Date();
+      
+      if (reason) {
+        stocktake.notes = (stocktake.notes || '') + `\nCancelled: ${reason}`;
+      }
+      
+      await stocktake.save();
+      
+      res.status(200).json(this.formatStocktake(stocktake));
     } catch (error) {
-      this.logger.error(`Get supplier error: ${error}`);
-      res.status(500).json({ message: 'Failed to get supplier' });
+      this.logger.error(`Cancel stocktake error: ${error}`);
+      res.status(500).json({ message: 'Failed to cancel stocktake' });
     }
   }
 
   /**
-   * Update a supplier
+   * Work out a line's counted quantity (sum of its sheets) and variance against the snapshot
    */
-  private async updateSupplier(req: Request, res: Response): Promise<void> {
+  private getStocktakeVariance(line: IStocktakeLine): {
+    inventoryId: string;
+    productId: string;
+    sku: string;
+    name: string;
+    locationInStore?: string;
+    expectedQuantity: number;
+    countedQuantity: number | null;
+    variance: number;
+    varianceValue: number;
+    sheets: number;
+    isApproved: boolean;
+  } {
+    const countedQuantity = line.counts.length > 0
+      ? line.counts.reduce((sum, count) => sum + count.quantity, 0)
+      : null;
+    const variance = countedQuantity === null ? 0 : countedQuantity - line.expectedQuantity;
+    
+    return {
+      inventoryId: line.inventoryId,
+      productId: line.productId,
+      sku: line.sku,
+      name: line.name,
+      locationInStore: line.locationInStore,
+      expectedQuantity: line.expectedQuantity,
+      countedQuantity,
+      variance,
+      varianceValue: parseFloat((variance * line.unitCost).toFixed(2)),
+      sheets: line.counts.length,
+      isApproved: line.isApproved
+    };
+  }
+
+  /**
+   * Check whether a frozen stocktake in progress covers an inventory record
+   */
+  private async isInventoryFrozen(inventoryId: string): Promise<boolean> {
+    const stocktake = await this.stocktakeModel.exists({
+      freezeInventory: true,
+      status: { $in: ['COUNTING', 'IN_REVIEW', 'APPROVED'] },
+      'lines.inventoryId': inventoryId
+    });
+    
+    return Boolean(stocktake);
+  }
+
+  /**
+   * Format a stocktake for API responses
+   */
+  private formatStocktake(stocktake: IStocktake): Record<string, any> {
+    return {
+      stocktakeId: stocktake.stocktakeId,
+      storeId: stocktake.storeId,
+      scope: stocktake.scope,
+      category: stocktake.category,
+      locationInStore: stocktake.locationInStore,
+      status: stocktake.status,
+      freezeInventory: stocktake.freezeInventory,
+      lines: stocktake.lines.map(line => ({
+        ...this.getStocktakeVariance(line),
+        counts: line.counts
+      })),
+      startedBy: stocktake.startedBy,
+      approvedBy: stocktake.approvedBy,
+      postedBy: stocktake.postedBy,
+      notes: stocktake.notes,
+      createdAt: stocktake.createdAt,
+      submittedAt: stocktake.submittedAt,
+      approvedAt: stocktake.approvedAt,
+      postedAt: stocktake.postedAt,
+      cancelledAt: stocktake.cancelledAt
+    };
+  }
+
+  /**
+   * Search serial numbers
+   */
+  private async searchSerialNumbers(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
       const { 
-        name, 
-        contactName, 
-        email, 
-        phone, 
-        address, 
-        website, 
-        paymentTerms, 
-        leadTime, 
-        minOrderValue, 
-        notes, 
-        isActive 
-      } = req.body;
+        serialNumber, 
+        productId, 
+        sku, 
+        storeId, 
+        status, 
+        orderId, 
+        page = 1, 
+        limit = 10 
+      } = req.query;
       
-      const supplier = await this.supplierModel.findOne({
-        $or: [
-          { supplierId: id },
-          { _id: mongoose.isValidObjectId(id) ? id : undefined }
-        ]
-      });
+      const query: any = {};
       
-      if (!supplier) {
-        res.status(404).json({ message: 'Supplier not found' });
-        return;
-      }
+      if (serialNumber) query.serialNumber = serialNumber;
+      if (productId) query.productId = productId;
+      if (sku) query.sku = sku;
+      if (storeId) query.storeId = storeId;
+      if (status) query.status = status;
+      if (orderId) query.orderId = orderId;
       
-      // Update fields if provided
-      if (name !== undefined) supplier.name = name;
-      if (contactName !== undefined) supplier.contactName = contactName;
-      if (email !== undefined) supplier.email = email;
-      if (phone !== undefined) supplier.phone = phone;
-      if (address !== undefined) supplier.address = address;
-      if (website !== undefined) supplier.website = website;
-      if (paymentTerms !== undefined) supplier.paymentTerms = paymentTerms;
-      if (leadTime !== undefined) supplier.leadTime = leadTime;
-      if (minOrderValue !== undefined) supplier.minOrderValue = minOrderValue;
-      if (notes !== undefined) supplier.notes = notes;
-      if (isActive !== undefined) supplier.isActive = isActive;
+      const skip = (Number(page) - 1) * Number(limit);
+      
+      const serials = await this.serialNumberModel.find(query)
+        .sort({ updatedAt: -1 })
+        .skip(skip)
+        .limit(Number(limit));
+      
+      const total = await this.serialNumberModel.countDocuments(query);
+      
+      res.status(200).json({
+        serials: serials.map(serial => this.formatSerialNumber(serial)),
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Search serial numbers error: ${error}`);
+      res.status(500).json({ message: 'Failed to search serial numbers' });
+    }
+  }
+
+  /**
+   * Check scanned serials can be sold from a store before adding them to an order
+   */
+  private async validateSerialNumbers(req: Request, res: Response): Promise<void> {
+    try {
+      const { productId, storeId, serialNumbers } = req.body;
       
-      await supplier.save();
+      if (!productId || !storeId || !Array.isArray(serialNumbers) || serialNumbers.length === 0) {
+        res.status(400).json({ message: 'Product ID, store ID and serial numbers are required' });
+        return;
+      }
+      
+      const serials = await this.serialNumberModel.find({ 
+        productId, 
+        serialNumber: { $in: serialNumbers } 
+      });
+      
+      const results = serialNumbers.map((serialNumber: string) => {
+        const serial = serials.find(candidate => candidate.serialNumber === serialNumber);
+        let reason: string | undefined;
+        
+        if (!serial) {
+          reason = 'Serial number not recorded for this product';
+        } else if (serial.storeId !== storeId) {
+          reason = `Serial number is held at store ${serial.storeId}`;
+        } else if (!this.isSerialSellable(serial)) {
+          reason = `Serial number is ${serial.status}`;
+        } else if (serialNumbers.indexOf(serialNumber) !== serialNumbers.lastIndexOf(serialNumber)) {
+          reason = 'Serial number scanned more than once';
+        }
+        
+        return {
+          serialNumber,
+          status: serial ? serial.status : undefined,
+          valid: !reason,
+          reason
+        };
+      });
       
       res.status(200).json({
-        supplierId: supplier.supplierId,
-        name: supplier.name,
-        contactName: supplier.contactName,
-        email: supplier.email,
-        phone: supplier.phone,
-        address: supplier.address,
-        website: supplier.website,
-        paymentTerms: supplier.paymentTerms,
-        leadTime: supplier.leadTime,
-        minOrderValue: supplier.minOrderValue,
-        isActive: supplier.isActive,
-        updatedAt: supplier.updatedAt
+        productId,
+        storeId,
+        valid: results.every((result: { valid: boolean }) => result.valid),
+        serials: results
       });
     } catch (error) {
-      this.logger.error(`Update supplier error: ${error}`);
-      res.status(500).json({ message: 'Failed to update supplier' });
+      this.logger.error(`Validate serial numbers error: ${error}`);
+      res.status(500).json({ message: 'Failed to validate serial numbers' });
     }
   }
 
   /**
-   * Get all suppliers
+   * Warranty lookup: a serial's product, sale and full history
    */
-  private async getSuppliers(req: Request, res: Response): Promise<void> {
+  private async getSerialNumber(req: Request, res: Response): Promise<void> {
     try {
-      const { isActive, search, page = 1, limit = 10 } = req.query;
-      
-      // Build query
-      const query: any = {};
+      const { serialNumber } = req.params;
+      const { productId } = req.query;
       
-      if (isActive !== undefined) {
-        query.isActive = isActive === 'true';
-      }
+      const query: any = { serialNumber };
       
-      if (search) {
-        query.$text = { $search: search as string };
-      }
+      if (productId) query.productId = productId;
       
-      // Parse pagination
-      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+      const serials = await this.serialNumberModel.find(query);
       
-      // Get suppliers
-      const suppliers = await this.supplierModel
-        .find(query)
-        .sort({ name: 1 })
-        .skip(skip)
-        .limit(parseInt(limit as string));
+      if (serials.length === 0) {
+        res.status(404).json({ message: 'Serial number not found' });
+        return;
+      }
       
-      // Get total count
-      const total = await this.supplierModel.countDocuments(query);
+      const products = await this.productModel.find({ 
+        productId: { $in: serials.map(serial => serial.productId) } 
+      });
       
       res.status(200).json({
-        suppliers: suppliers.map(s => ({
-          supplierId: s.supplierId,
-          name: s.name,
-          contactName: s.contactName,
-          email: s.email,
-          phone: s.phone,
-          isActive: s.isActive
-        })),
-        pagination: {
-          page: parseInt(page as string),
-          limit: parseInt(limit as string),
-          total,
-          pages: Math.ceil(total / parseInt(limit as string))
-        }
+        serials: serials.map(serial => {
+          const product = products.find(candidate => candidate.productId === serial.productId);
+          const warrantyMonths = Number(product?.attributes?.warrantyMonths) || 0;
+          let warrantyExpiresAt: Date | undefined;
+          
+          if (serial.soldAt && warrantyMonths > 0) {
+            warrantyExpiresAt = new Date(serial.soldAt);
+            warrantyExpiresAt.setMonth(warrantyExpiresAt.getMonth() + warrantyMonths);
+          }
+          
+          return {
+            ...this.formatSerialNumber(serial),
+            productName: product ? product.name : undefined,
+            warrantyExpiresAt,
+            underWarranty: warrantyExpiresAt ? warrantyExpiresAt > new Date() : undefined,
+            history: serial.history
+          };
+        })
       });
     } catch (error) {
-      this.logger.error(`Get suppliers error: ${error}`);
-      res.status(500).json({ message: 'Failed to get suppliers' });
+      this.logger.error(`Get serial number error: ${error}`);
+      res.status(500).json({ message: 'Failed to get serial number' });
     }
   }
 
   /**
-   * Create a new purchase order
+   * Send a unit back to its supplier, taking it out of stock if it was on the shelf
    */
-  private async createPurchaseOrder(req: Request, res: Response): Promise<void> {
+  private async returnSerialToSupplier(req: Request, res: Response): Promise<void> {
     try {
-      const { 
-        supplierId, 
-        storeId, 
-        items, 
-        expectedDeliveryDate, 
-        paymentTerms, 
-        shipping = 0, 
-        tax = 0, 
-        notes 
-      } = req.body;
+      const { serialNumber } = req.params;
+      const { productId, supplierId, reason } = req.body;
       
-      // Validate required fields
-      if (!supplierId || !storeId || !items || !items.length) {
-        res.status(400).json({ message: 'Supplier ID, store ID, and items are required' });
+      if (!reason) {
+        res.status(400).json({ message: 'A reason is required' });
         return;
       }
       
-      // Validate supplier exists
-      const supplier = await this.supplierModel.findOne({ supplierId });
-      if (!supplier) {
-        res.status(404).json({ message: 'Supplier not found' });
+      const query: any = { serialNumber };
+      
+      if (productId) query.productId = productId;
+      
+      const serials = await this.serialNumberModel.find(query);
+      
+      if (serials.length === 0) {
+        res.status(404).json({ message: 'Serial number not found' });
         return;
       }
       
-      // Format and validate items
-      const formattedItems = [];
-      let subtotal = 0;
+      if (serials.length > 1) {
+        res.status(409).json({ message: 'Serial number is used by several products; specify the product ID' });
+        return;
+      }
       
-      for (const item of items) {
-        const { productId, sku, quantity, unitPrice } = item;
-        
-        if ((!productId && !sku) || !quantity || quantity <= 0 || !unitPrice || unitPrice < 0) {
-          res.status(400).json({ 
-            message: 'Each item must have product ID or SKU, positive quantity, and valid unit price' 
-          });
-          return;
+      const serial = serials[0];
+      
+      if (serial.status !== 'IN_STOCK' && serial.status !== 'RETURNED') {
+        res.status(400).json({ message: `Cannot send a ${serial.status} unit to the supplier` });
+        return;
+      }
+      
+      // Start a session for transaction
+      const session = await mongoose.startSession();
+      session.startTransaction();
+      
+      try {
+        // Sellable units are counted in on-hand stock
+        if (this.isSerialSellable(serial)) {
+          const inventory = await this.inventoryModel.findOne({ 
+            productId: serial.productId, 
+            storeId: serial.storeId 
+          }).session(session);
+          
+          if (inventory && inventory.quantity > 0) {
+            const previousQuantity = inventory.quantity;
+            inventory.quantity = previousQuantity - 1;
+            const lots = this.trimLots(inventory);
+            const cost = await this.costMovement(inventory, previousQuantity);
+            await inventory.save({ session });
+            
+            const transaction = new this.transactionModel({
+              transactionId: uuidv4(),
+              inventoryId: inventory.inventoryId,
+              productId: inventory.productId,
+              sku: inventory.sku,
+              storeId: inventory.storeId,
+              type: 'ADJUSTMENT',
+              quantity: -1,
+              previousQuantity,
+              newQuantity: inventory.quantity,
+              referenceId: serial.serialId,
+              lots: lots.length > 0 ? lots : undefined,
+              serialNumbers: [serial.serialNumber],
+              unitCost: cost.unitCost,
+              totalCost: cost.totalCost,
+              reason: 'Returned to supplier',
+              performedBy: (req as any).user.userId,
+              notes: reason
+            });
+            
+            await transaction.save({ session });
+          }
         }
         
-        // Find product if only SKU is provided
-        let finalProductId = productId;
-        let finalSku = sku;
+        const rmaAt = new Date();
+        serial.status = 'RMA';
+        serial.rmaAt = rmaAt;
         
-        if (!finalProductId && finalSku) {
-          const product = await this.productModel.findOne({ sku: finalSku });
-          if (product) {
-            finalProductId = product.productId;
-          }
-        } else if (finalProductId && !finalSku) {
-          const product = await this.productModel.findOne({ productId: finalProductId });
-          if (product) {
-            finalSku = product.sku;
-          }
-        }
+        if (supplierId) serial.supplierId = supplierId;
         
-        if (!finalProductId || !finalSku) {
-          res.status(404).json({ message: `Product not found for ${productId || sku}` });
-          return;
-        }
+        serial.history.push({ 
+          status: 'RMA', 
+          at: rmaAt, 
+          referenceId: serial.supplierId, 
+          performedBy: (req as any).user.userId, 
+          notes: reason 
+        });
         
-        const totalPrice = quantity * unitPrice;
-        subtotal += totalPrice;
+        await serial.save({ session });
         
-        formattedItems.push({
-          productId: finalProductId,
-          sku: finalSku,
-          quantity,
-          unitPrice,
-          totalPrice,
-          notes: item.notes
+        await session.commitTransaction();
+        
+        // Publish serial returned to supplier event
+        await this.messageBus.publish('inventory', 'inventory.serial.rma', {
+          serialId: serial.serialId,
+          serialNumber: serial.serialNumber,
+          productId: serial.productId,
+          sku: serial.sku,
+          storeId: serial.storeId,
+          supplierId: serial.supplierId,
+          reason,
+          timestamp: rmaAt.toISOString()
         });
+        
+        res.status(200).json(this.formatSerialNumber(serial));
+      } catch (error) {
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        session.endSession();
+      }
+    } catch (error) {
+      this.logger.error(`Return serial to supplier error: ${error}`);
+      res.status(500).json({ message: 'Failed to return serial number to supplier' });
+    }
+  }
+
+  /**
+   * Reserve the scanned serials of a serialized product for an order,
+   * returning an error message when they cannot be sold
+   */
+  private async reserveSerialNumbers(
+    inventory: IInventoryItem, 
+    serialNumbers: string[], 
+    quantity: number, 
+    orderId: string, 
+    performedBy: string, 
+    session: mongoose.ClientSession
+  ): Promise<string | null> {
+    const product = await this.productModel.findOne({ productId: inventory.productId }).session(session);
+    
+    if (!product || !product.isSerialized) {
+      return serialNumbers.length > 0 ? `${inventory.sku} is not tracked by serial number` : null;
+    }
+    
+    if (serialNumbers.length !== quantity || new Set(serialNumbers).size !== quantity) {
+      return `Scan ${quantity} unique serial numbers for ${inventory.sku}`;
+    }
+    
+    const serials = await this.serialNumberModel.find({ 
+      productId: inventory.productId, 
+      storeId: inventory.storeId, 
+      serialNumber: { $in: serialNumbers } 
+    }).session(session);
+    
+    const sellable = serials.filter(serial => this.isSerialSellable(serial));
+    
+    if (sellable.length !== quantity) {
+      return `Serial numbers not available for ${inventory.sku}`;
+    }
+    
+    await this.serialNumberModel.updateMany(
+      { _id: { $in: sellable.map(serial => serial._id) } },
+      { 
+        $set: { status: 'RESERVED', orderId },
+        $push: { history: { status: 'RESERVED', at: new Date(), referenceId: orderId, performedBy } }
+      },
+      { session }
+    );
+    
+    return null;
+  }
+
+  /**
+   * A unit can be sold when it is on the shelf, including resellable returns
+   */
+  private isSerialSellable(serial: ISerialNumber): boolean {
+    return serial.status === 'IN_STOCK' || (serial.status === 'RETURNED' && serial.condition === 'RESELLABLE');
+  }
+
+  /**
+   * Format a serial number for API responses
+   */
+  private formatSerialNumber(serial: ISerialNumber): Record<string, any> {
+    return {
+      serialId: serial.serialId,
+      serialNumber: serial.serialNumber,
+      productId: serial.productId,
+      sku: serial.sku,
+      storeId: serial.storeId,
+      status: serial.status,
+      condition: serial.condition,
+      purchaseOrderId: serial.purchaseOrderId,
+      supplierId: serial.supplierId,
+      orderId: serial.orderId,
+      receivedAt: serial.receivedAt,
+      soldAt: serial.soldAt,
+      returnedAt: serial.returnedAt,
+      rmaAt: serial.rmaAt,
+      updatedAt: serial.updatedAt
+    };
+  }
+
+  /**
+   * Get a store's costing method
+   */
+  private async getCostingSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const { storeId } = req.params;
+      
+      const settings = await this.costingSettingsModel.findOne({ storeId });
+      
+      res.status(200).json({
+        storeId,
+        method: settings ? settings.method : DEFAULT_COSTING_METHOD,
+        isDefault: !settings,
+        updatedBy: settings?.updatedBy,
+        updatedAt: settings?.updatedAt
+      });
+    } catch (error) {
+      this.logger.error(`Get costing settings error: ${error}`);
+      res.status(500).json({ message: 'Failed to get costing settings' });
+    }
+  }
+
+  /**
+   * Set a store's costing method; movements from now on are costed with it
+   */
+  private async updateCostingSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const { storeId } = req.params;
+      const { method } = req.body;
+      
+      if (method !== 'FIFO' && method !== 'WEIGHTED_AVERAGE') {
+        res.status(400).json({ message: 'Costing method must be FIFO or WEIGHTED_AVERAGE' });
+        return;
       }
       
-      // Calculate total
-      const total = subtotal + tax + shipping;
+      const settings = await this.costingSettingsModel.findOneAndUpdate(
+        { storeId },
+        { $set: { method, updatedBy: (req as any).user.userId } },
+        { new: true, upsert: true }
+      );
       
-      // Create purchase order
-      const purchaseOrderId = uuidv4();
-      const purchaseOrder = new this.purchaseOrderModel({
-        purchaseOrderId,
-        supplierId,
+      // Publish costing method changed event
+      await this.messageBus.publish('inventory', 'inventory.costing.updated', {
         storeId,
-        items: formattedItems,
-        subtotal,
-        tax,
-        shipping,
-        total,
-        expectedDeliveryDate,
-        paymentStatus: 'UNPAID',
-        paymentTerms: paymentTerms || supplier.paymentTerms,
-        notes,
-        status: 'DRAFT'
+        method,
+        timestamp: new Date().toISOString()
       });
       
-      await purchaseOrder.save();
+      res.status(200).json({
+        storeId,
+        method: settings!.method,
+        isDefault: false,
+        updatedBy: settings!.updatedBy,
+        updatedAt: settings!.updatedAt
+      });
+    } catch (error) {
+      this.logger.error(`Update costing settings error: ${error}`);
+      res.status(500).json({ message: 'Failed to update costing settings' });
+    }
+  }
+
+  /**
+   * Inventory valuation at a point in time, from the cost recorded on every stock movement
+   */
+  private async getInventoryValuation(req: Request, res: Response): Promise<void> {
+    try {
+      const { storeId, asOf } = req.query;
       
-      res.status(201).json({
-        purchaseOrderId: purchaseOrder.purchaseOrderId,
-        supplierId: purchaseOrder.supplierId,
-        storeId: purchaseOrder.storeId,
-        status: purchaseOrder.status,
-        itemCount: purchaseOrder.items.length,
-        subtotal: purchaseOrder.subtotal,
-        tax: purchaseOrder.tax,
-        shipping: purchaseOrder.shipping,
-        total: purchaseOrder.total,
-        createdAt: purchaseOrder.createdAt
+      const asOfDate = asOf ? new Date(asOf as string) : new Date();
+      
+      if (isNaN(asOfDate.getTime())) {
+        res.status(400).json({ message: 'Invalid asOf date' });
+        return;
+      }
+      
+      const match: any = {
+        type: { $nin: ['RESERVE', 'UNRESERVE'] },
+        createdAt: { $lte: asOfDate }
+      };
+      
+      if (storeId) match.storeId = storeId;
+      
+      const items = await this.transactionModel.aggregate([
+        { $match: match },
+        { 
+          $group: { 
+            _id: '$inventoryId', 
+            productId: { $first: '$productId' },
+            sku: { $first: '$sku' },
+            storeId: { $first: '$storeId' },
+            quantity: { $sum: '$quantity' }, 
+            value: { $sum: { $ifNull: ['$totalCost', 0] } } 
+          } 
+        },
+        { $match: { quantity: { $ne: 0 } } },
+        { $sort: { value: -1 } }
+      ]);
+      
+      res.status(200).json({
+        asOf: asOfDate,
+        storeId,
+        totalQuantity: items.reduce((sum, item) => sum + item.quantity, 0),
+        totalValue: parseFloat(items.reduce((sum, item) => sum + item.value, 0).toFixed(2)),
+        items: items.map(item => ({
+          inventoryId: item._id,
+          productId: item.productId,
+          sku: item.sku,
+          storeId: item.storeId,
+          quantity: item.quantity,
+          value: parseFloat(item.value.toFixed(2))
+        }))
       });
-    } catch (error: any) {
-      this.logger.error(`Purchase order creation error: ${error}`);
-      res.status(500).json({ message: 'Failed to create purchase order', error: error.message });
+    } catch (error) {
+      this.logger.error(`Get inventory valuation error: ${error}`);
+      res.status(500).json({ message: 'Failed to get inventory valuation' });
     }
   }
 
   /**
-   * Get purchase order by ID
+   * Cost of goods sold over a period: the cost of sales less the cost of restocked returns
    */
-  private async getPurchaseOrder(req: Request, res: Response): Promise<void> {
+  private async getCostOfGoodsSold(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
+      const { storeId, startDate, endDate } = req.query;
       
-      const purchaseOrder = await this.purchaseOrderModel.findOne({
-        $or: [
-          { purchaseOrderId: id },
-          { _id: mongoose.isValidObjectId(id) ? id : undefined }
-        ]
-      });
+      // Default to last 30 days
+      const end = endDate ? new Date(endDate as string) : new Date();
+      const start = startDate ? new Date(startDate as string) : new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000);
       
-      if (!purchaseOrder) {
-        res.status(404).json({ message: 'Purchase order not found' });
-        return;
-      }
+      const match: any = {
+        type: { $in: ['SALE', 'RETURN'] },
+        createdAt: { $gte: start, $lte: end }
+      };
       
-      // Get supplier info
-      const supplier = await this.supplierModel.findOne({ supplierId: purchaseOrder.supplierId });
+      if (storeId) match.storeId = storeId;
+      
+      const byDay = await this.transactionModel.aggregate([
+        { $match: match },
+        { 
+          $group: { 
+            _id: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } },
+            salesCost: { $sum: { $cond: [{ $eq: ['$type', 'SALE'] }, { $ifNull: ['$totalCost', 0] }, 0] } },
+            returnsCost: { $sum: { $cond: [{ $eq: ['$type', 'RETURN'] }, { $ifNull: ['$totalCost', 0] }, 0] } },
+            unitsSold: { $sum: { $cond: [{ $eq: ['$type', 'SALE'] }, '$quantity', 0] } },
+            unitsReturned: { $sum: { $cond: [{ $eq: ['$type', 'RETURN'] }, '$quantity', 0] } }
+          } 
+        },
+        { $sort: { _id: 1 } }
+      ]);
+      
+      // Sales are recorded as negative movements
+      const days = byDay.map(day => ({
+        date: day._id,
+        salesCost: parseFloat((-day.salesCost).toFixed(2)),
+        returnsCost: parseFloat(day.returnsCost.toFixed(2)),
+        costOfGoodsSold: parseFloat((-day.salesCost - day.returnsCost).toFixed(2)),
+        unitsSold: -day.unitsSold,
+        unitsReturned: day.unitsReturned
+      }));
       
       res.status(200).json({
-        purchaseOrderId: purchaseOrder.purchaseOrderId,
-        supplierId: purchaseOrder.supplierId,
-        supplierName: supplier ? supplier.name : 'Unknown Supplier',
-        storeId: purchaseOrder.storeId,
-        status: purchaseOrder.status,
-        items: purchaseOrder.items,
-        subtotal: purchaseOrder.subtotal,
-        tax: purchaseOrder.tax,
-        shipping: purchaseOrder.shipping,
-        total: purchaseOrder.total,
-        expectedDeliveryDate: purchaseOrder.expectedDeliveryDate,
-        actualDeliveryDate: purchaseOrder.actualDeliveryDate,
-        paymentStatus: purchaseOrder.paymentStatus,
-        paymentTerms: purchaseOrder.paymentTerms,
-        notes: purchaseOrder.notes,
-        createdAt: purchaseOrder.createdAt,
-        submittedAt: purchaseOrder.submittedAt,
-        confirmedAt: purchaseOrder.confirmedAt,
-        shippedAt: purchaseOrder.shippedAt,
-        receivedAt: purchaseOrder.receivedAt,
-        cancelledAt: purchaseOrder.cancelledAt
+        startDate: start,
+        endDate: end,
+        storeId,
+        salesCost: parseFloat(days.reduce((sum, day) => sum + day.salesCost, 0).toFixed(2)),
+        returnsCost: parseFloat(days.reduce((sum, day) => sum + day.returnsCost, 0).toFixed(2)),
+        costOfGoodsSold: parseFloat(days.reduce((sum, day) => sum + day.costOfGoodsSold, 0).toFixed(2)),
+        unitsSold: days.reduce((sum, day) => sum + day.unitsSold, 0),
+        unitsReturned: days.reduce((sum, day) => sum + day.unitsReturned, 0),
+        byDay: days
       });
     } catch (error) {
-      this.logger.error(`Get purchase order error: ${error}`);
-      res.status(500).json({ message: 'Failed to get purchase order' });
+      this.logger.error(`Get cost of goods sold error: ${error}`);
+      res.status(500).json({ message: 'Failed to get cost of goods sold' });
     }
   }
 
   /**
-   * Update a purchase order
+   * Forecast daily demand per item and store, with suggested reorder points and order
+   * quantities. With a past asOf, each forecast day also carries the actual units sold
    */
-  private async updatePurchaseOrder(req: Request, res: Response): Promise<void> {
+  private async getDemandForecast(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
-      const { 
-        items, 
-        expectedDeliveryDate, 
-        paymentTerms, 
-        shipping, 
-        tax, 
-        notes 
-      } = req.body;
+      const { storeId, productId, sku, asOf, horizonDays = 28, page = 1, limit = 10 } = req.query;
       
-      const purchaseOrder = await this.purchaseOrderModel.findOne({
-        $or: [
-          { purchaseOrderId: id },
-          { _id: mongoose.isValidObjectId(id) ? id : undefined }
-        ]
-      });
+      const asOfDate = asOf ? new Date(asOf as string) : new Date();
+      const horizon = parseInt(horizonDays as string);
       
-      if (!purchaseOrder) {
-        res.status(404).json({ message: 'Purchase order not found' });
+      if (isNaN(asOfDate.getTime()) || isNaN(horizon) || horizon < 1 || horizon > 366) {
+        res.status(400).json({ message: 'Invalid asOf date or horizon (1 to 366 days)' });
         return;
       }
       
-      // Only allow updates if in DRAFT status
-      if (purchaseOrder.status !== 'DRAFT') {
-        res.status(400).json({ 
-          message: `Cannot update purchase order in ${purchaseOrder.status} status` 
+      const query: any = {};
+      
+      if (storeId) query.storeId = storeId;
+      if (productId) query.productId = productId;
+      if (sku) query.sku = sku;
+      
+      // Parse pagination
+      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+      
+      const inventories = await this.inventoryModel
+        .find(query)
+        .sort({ sku: 1, storeId: 1 })
+        .skip(skip)
+        .limit(parseInt(limit as string));
+      
+      const total = await this.inventoryModel.countDocuments(query);
+      
+      const inventoryIds = inventories.map(inventory => inventory.inventoryId);
+      const demandModels = await this.getDemandModels(inventoryIds, asOfDate);
+      const onOrder = await this.getOnOrderQuantities(storeId as string | undefined);
+      const products = await this.productModel.find({ productId: { $in: inventories.map(inventory => inventory.productId) } });
+      
+      // Actual sales over the horizon, where it has already happened
+      const forecastStart = this.startOfDay(asOfDate);
+      const forecastEnd = new Date(forecastStart.getTime() + horizon * 24 * 60 * 60 * 1000);
+      const actualSales = forecastStart < new Date() ? await this.getDailySales(inventoryIds, forecastStart, forecastEnd) : new Map();
+      
+      const items = [];
+      
+      for (const inventory of inventories) {
+        const product = products.find(candidate => candidate.productId === inventory.productId);
+        const demandModel = demandModels.get(inventory.inventoryId)!;
+        const leadTime = await this.getSupplierLeadTime(product);
+        const available = inventory.quantity - inventory.reservedQuantity;
+        const incoming = (onOrder.get(`${inventory.storeId}:${inventory.productId}`) || 0) + inventory.inTransitQuantity;
+        const suggestion = this.suggestReorder(demandModel, leadTime, available + incoming, asOfDate);
+        const actuals = actualSales.get(inventory.inventoryId);
+        
+        const forecast = this.projectDemand(demandModel, asOfDate, horizon).map(day => ({
+          ...day,
+          actual: actuals && new Date(day.date) < new Date() ? actuals.get(day.date) || 0 : undefined
+        }));
+        
+        items.push({
+          inventoryId: inventory.inventoryId,
+          productId: inventory.productId,
+          sku: inventory.sku,
+          name: product ? product.name : inventory.sku,
+          storeId: inventory.storeId,
+          available,
+          onOrder: incoming,
+          hasHistory: demandModel.totalSold > 0,
+          historyDays: demandModel.historyDays,
+          dailyVelocity: demandModel.dailyVelocity,
+          dayOfWeekIndex: demandModel.dayOfWeekIndex,
+          monthlyIndex: demandModel.monthlyIndex,
+          forecastQuantity: parseFloat(forecast.reduce((sum, day) => sum + day.quantity, 0).toFixed(2)),
+          actualQuantity: actuals ? forecast.reduce((sum, day) => sum + (day.actual || 0), 0) : undefined,
+          leadTime,
+          reorderPoint: inventory.reorderPoint,
+          reorderQuantity: inventory.reorderQuantity,
+          suggestedReorderPoint: suggestion.reorderPoint,
+          safetyStock: suggestion.safetyStock,
+          suggestedOrderQuantity: suggestion.orderQuantity,
+          forecast
         });
-        return;
       }
       
-      // Update items if provided
-      if (items && items.length > 0) {
-        // Format and validate items
-        const formattedItems = [];
-        let subtotal = 0;
-        
-        for (const item of items) {
-          const { productId, sku, quantity, unitPrice } = item;
-          
-          if ((!productId && !sku) || !quantity || quantity <= 0 || !unitPrice || unitPrice < 0) {
-            res.status(400).json({ 
-              message: 'Each item must have product ID or SKU, positive quantity, and valid unit price' 
-            });
-            return;
-          }
-          
-          // Find product if only SKU is provided
-          let finalProductId = productId;
-          let finalSku = sku;
-          
-          if (!finalProductId && finalSku) {
-            const product = await this.productModel.findOne({ sku: finalSku });
-            if (product) {
-              finalProductId = product.productId;
-            }
-          } else if (finalProductId && !finalSku) {
-            const product = await this.productModel.findOne({ productId: finalProductId });
-            if (product) {
-              finalSku = product.sku;
-            }
-          }
-          
-          if (!finalProductId || !finalSku) {
-            res.status(404).json({ message: `Product not found for ${productId || sku}` });
-            return;
-          }
-          
-          const totalPrice = quantity * unitPrice;
-          subtotal += totalPrice;
-          
-          formattedItems.push({
-            productId: finalProductId,
-            sku: finalSku,
-            quantity,
-            unitPrice,
-            totalPrice,
-            notes: item.notes
-          });
+      res.status(200).json({
+        asOf: asOfDate,
+        horizonDays: horizon,
+        items,
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total,
+          pages: Math.ceil(total / parseInt(limit as string))
         }
-        
-        purchaseOrder.items = formattedItems;
-        purchaseOrder.subtotal = subtotal;
+      });
+    } catch (error) {
+      this.logger.error(`Get demand forecast error: ${error}`);
+      res.status(500).json({ message: 'Failed to get demand forecast' });
+    }
+  }
+
+  /**
+   * Model each item's demand from its SALE movements before asOf: a day-of-week index once
+   * there are two weeks of history, a monthly index once there is a year, and a sales rate
+   * from the recent window with both taken out
+   */
+  private async getDemandModels(inventoryIds: string[], asOf: Date): Promise<Map<string, IDemandModel>> {
+    const dayMs = 24 * 60 * 60 * 1000;
+    const end = this.startOfDay(asOf);
+    const start = new Date(end.getTime() - FORECAST_HISTORY_DAYS * dayMs);
+    const dailySales = await this.getDailySales(inventoryIds, start, end);
+    const models = new Map<string, IDemandModel>();
+    
+    for (const inventoryId of inventoryIds) {
+      const sales = dailySales.get(inventoryId) || new Map<string, number>();
+      const firstSale = Array.from(sales.keys()).sort()[0];
+      
+      // History runs from the first sale, so a new item is not averaged over days it was not stocked
+      const days: { date: Date; units: number }[] = [];
+      
+      for (let time = firstSale ? new Date(firstSale).getTime() : end.getTime(); time < end.getTime(); time += dayMs) {
+        const date = new Date(time);
+        days.push({ date, units: sales.get(date.toISOString().slice(0, 10)) || 0 });
       }
       
-      // Update other fields if provided
-      if (expectedDeliveryDate !== undefined) purchaseOrder.expectedDeliveryDate = new Date(expectedDeliveryDate);
-      if (paymentTerms !== undefined) purchaseOrder.paymentTerms = paymentTerms;
-      if (shipping !== undefined) purchaseOrder.shipping = shipping;
-      if (tax !== undefined) purchaseOrder.tax = tax;
-      if (notes !== undefined) purchaseOrder.notes = notes;
+      const totalSold = days.reduce((sum, day) => sum + day.units, 0);
+      const overall = days.length > 0 ? totalSold / days.length : 0;
       
-      // Recalculate total
-      purchaseOrder.total = purchaseOrder.subtotal + purchaseOrder.tax + purchaseOrder.shipping;
+      const seasonalIndex = (buckets: number, bucketOf: (date: Date) => number, minimumDays: number): number[] => 
+        Array.from({ length: buckets }, (_, bucket) => {
+          const inBucket = days.filter(day => bucketOf(day.date) === bucket);
+          
+          if (days.length < minimumDays || inBucket.length === 0 || overall === 0) {
+            return 1;
+          }
+          
+          return parseFloat((inBucket.reduce((sum, day) => sum + day.units, 0) / inBucket.length / overall).toFixed(2));
+        });
       
-      await purchaseOrder.save();
+      const dayOfWeekIndex = seasonalIndex(7, date => date.getUTCDay(), 14);
+      const monthlyIndex = seasonalIndex(12, date => date.getUTCMonth(), 365);
+      
+      // Deseasonalize the recent window; days with no seasonal demand say nothing about the rate
+      const recent = days.slice(-FORECAST_RECENT_DAYS);
+      const adjusted = recent
+        .map(day => ({ units: day.units, factor: dayOfWeekIndex[day.date.getUTCDay()] * monthlyIndex[day.date.getUTCMonth()] }))
+        .filter(day => day.factor > 0);
+      const dailyVelocity = adjusted.length > 0 
+        ? adjusted.reduce((sum, day) => sum + day.units / day.factor, 0) / adjusted.length 
+        : 0;
+      const recentMean = recent.length > 0 ? recent.reduce((sum, day) => sum + day.units, 0) / recent.length : 0;
+      const dailyDeviation = recent.length > 1 
+        ? Math.sqrt(recent.reduce((sum, day) => sum + Math.pow(day.units - recentMean, 2), 0) / (recent.length - 1)) 
+        : 0;
+      
+      models.set(inventoryId, {
+        historyDays: days.length,
+        totalSold,
+        dailyVelocity: parseFloat(dailyVelocity.toFixed(2)),
+        dailyDeviation: parseFloat(dailyDeviation.toFixed(2)),
+        dayOfWeekIndex,
+        monthlyIndex
+      });
+    }
+    
+    return models;
+  }
+
+  /**
+   * Expected units per day from the start of a date onwards
+   */
+  private projectDemand(model: IDemandModel, from: Date, days: number): { date: string; quantity: number }[] {
+    const start = this.startOfDay(from).getTime();
+    
+    return Array.from({ length: days }, (_, offset) => {
+      const date = new Date(start + offset * 24 * 60 * 60 * 1000);
+      const quantity = model.dailyVelocity * model.dayOfWeekIndex[date.getUTCDay()] * model.monthlyIndex[date.getUTCMonth()];
       
-      res.status(200).json({
-        purchaseOrderId: purchaseOrder.purchaseOrderId,
-        supplierId: purchaseOrder.supplierId,
-        storeId: purchaseOrder.storeId,
-        status: purchaseOrder.status,
-        itemCount: purchaseOrder.items.length,
-        subtotal: purchaseOrder.subtotal,
-        tax: purchaseOrder.tax,
-        shipping: purchaseOrder.shipping,
-        total: purchaseOrder.total,
-        updatedAt: purchaseOrder.updatedAt
+      return { date: date.toISOString().slice(0, 10), quantity: parseFloat(quantity.toFixed(2)) };
+    });
+  }
+
+  /**
+   * Reorder point and order quantity from forecast demand: stock must last the lead time
+   * plus safety stock, and an order must cover the lead time and the review period after it
+   */
+  private suggestReorder(
+    model: IDemandModel, 
+    leadTime: number, 
+    position: number, 
+    asOf: Date
+  ): { leadTimeDemand: number; safetyStock: number; reorderPoint: number; orderQuantity: number } {
+    const forecast = this.projectDemand(model, asOf, leadTime + FORECAST_REVIEW_DAYS);
+    const leadTimeDemand = Math.ceil(forecast.slice(0, leadTime).reduce((sum, day) => sum + day.quantity, 0));
+    const coverDemand = forecast.reduce((sum, day) => sum + day.quantity, 0);
+    const safetyStock = Math.ceil(FORECAST_SERVICE_LEVEL_Z * model.dailyDeviation * Math.sqrt(Math.max(1, leadTime)));
+    
+    return {
+      leadTimeDemand,
+      safetyStock,
+      reorderPoint: leadTimeDemand + safetyStock,
+      orderQuantity: Math.max(0, Math.ceil(coverDemand + safetyStock - position))
+    };
+  }
+
+  /**
+   * Units sold per item per day (UTC) between two dates
+   */
+  private async getDailySales(inventoryIds: string[], start: Date, end: Date): Promise<Map<string, Map<string, number>>> {
+    const sales = await this.transactionModel.aggregate([
+      { $match: { type: 'SALE', inventoryId: { $in: inventoryIds }, createdAt: { $gte: start, $lt: end } } },
+      { 
+        $group: { 
+          _id: { 
+            inventoryId: '$inventoryId', 
+            date: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } } 
+          }, 
+          sold: { $sum: '$quantity' } 
+        } 
+      }
+    ]);
+    const dailySales = new Map<string, Map<string, number>>();
+    
+    for (const sale of sales) {
+      if (!dailySales.has(sale._id.inventoryId)) {
+        dailySales.set(sale._id.inventoryId, new Map());
+      }
+      
+      // Sales are recorded as negative movements
+      dailySales.get(sale._id.inventoryId)!.set(sale._id.date, -sale.sold);
+    }
+    
+    return dailySales;
+  }
+
+  /**
+   * Stock still to arrive on open purchase orders, drafts included, by store and product
+   */
+  private async getOnOrderQuantities(storeId?: string): Promise<Map<string, number>> {
+    const openOrders = await this.purchaseOrderModel.find({
+      status: { $in: ['DRAFT', 'SUBMITTED', 'CONFIRMED', 'SHIPPED'] },
+      ...(storeId ? { storeId } : {})
+    });
+    const onOrder = new Map<string, number>();
+    
+    for (const purchaseOrder of openOrders) {
+      for (const item of purchaseOrder.items) {
+        const key = `${purchaseOrder.storeId}:${item.productId}`;
+        onOrder.set(key, (onOrder.get(key) || 0) + Math.max(0, item.quantity - (item.receivedQuantity || 0)));
+      }
+    }
+    
+    return onOrder;
+  }
+
+  /**
+   * Lead time from a product's preferred supplier, catalog terms first
+   */
+  private async getSupplierLeadTime(product?: IProduct): Promise<number> {
+    if (!product || !product.preferredSupplierId) {
+      return 0;
+    }
+    
+    const catalogEntry = await this.getCatalogEntry(product.preferredSupplierId, product.productId);
+    
+    if (catalogEntry && catalogEntry.leadTime !== undefined) {
+      return catalogEntry.leadTime;
+    }
+    
+    const supplier = await this.supplierModel.findOne({ supplierId: product.preferredSupplierId });
+    return supplier?.leadTime ?? 0;
+  }
+
+  /**
+   * Midnight UTC at the start of a date
+   */
+  private startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+
+  /**
+   * Cost a quantity change already applied to an inventory item. Units added open a
+   * cost layer and roll into the moving average; units removed leave the oldest layers
+   * and are costed FIFO or at the average, per the store's method. Returns the movement's
+   * unit cost and its signed total cost
+   */
+  private async costMovement(
+    inventory: IInventoryItem, 
+    previousQuantity: number, 
+    unitCost?: number, 
+    referenceId?: string
+  ): Promise<{ unitCost: number; totalCost: number }> {
+    const change = inventory.quantity - previousQuantity;
+    
+    if (change === 0) {
+      return { unitCost: 0, totalCost: 0 };
+    }
+    
+    // Untracked stock (opening balances, counts) is valued at the average or list cost
+    let fallbackCost = inventory.averageCost;
+    
+    if (!fallbackCost) {
+      const product = await this.productModel.findOne({ productId: inventory.productId });
+      fallbackCost = product ? product.costPrice : 0;
+    }
+    
+    if (change > 0) {
+      const cost = unitCost ?? fallbackCost;
+      const previousValue = Math.max(0, previousQuantity) * fallbackCost;
+      
+      inventory.averageCost = parseFloat(((previousValue + change * cost) / (Math.max(0, previousQuantity) + change)).toFixed(2));
+      inventory.costLayers.push({ 
+        layerId: uuidv4(), 
+        unitCost: cost, 
+        quantity: change, 
+        referenceId, 
+        receivedAt: new Date() 
       });
-    } catch (error) {
-      this.logger.error(`Update purchase order error: ${error}`);
-      res.status(500).json({ message: 'Failed to update purchase order' });
+      
+      return { unitCost: cost, totalCost: parseFloat((change * cost).toFixed(2)) };
+    }
+    
+    const quantity = -change;
+    let remaining = quantity;
+    let layerCost = 0;
+    
+    // Layers are kept in receipt order, so the oldest go first
+    for (const layer of inventory.costLayers) {
+      if (remaining <= 0) break;
+      
+      const take = Math.min(remaining, layer.quantity);
+      layer.quantity -= take;
+      remaining -= take;
+      layerCost += take * layer.unitCost;
     }
+    
+    inventory.costLayers = inventory.costLayers.filter(layer => layer.quantity > 0);
+    
+    const method = await this.getCostingMethod(inventory.storeId);
+    const totalCost = method === 'FIFO' 
+      ? layerCost + remaining * fallbackCost 
+      : quantity * fallbackCost;
+    
+    return { 
+      unitCost: parseFloat((totalCost / quantity).toFixed(2)), 
+      totalCost: -parseFloat(totalCost.toFixed(2)) 
+    };
   }
 
   /**
-   * Submit a purchase order
+   * Get the costing method a store values its stock with
    */
-  private async submitPurchaseOrder(req: Request, res: Response): Promise<void> {
+  private async getCostingMethod(storeId: string): Promise<CostingMethod> {
+    const settings = await this.costingSettingsModel.findOne({ storeId });
+    return settings ? settings.method : DEFAULT_COSTING_METHOD;
+  }
+
+  /**
+   * Preview the draft purchase orders replenishment would raise
+   */
+  private async getReplenishmentSuggestions(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
-      const { notes } = req.body;
+      const { storeId } = req.query;
       
-      const purchaseOrder = await this.purchaseOrderModel.findOne({
-        $or: [
-          { purchaseOrderId: id },
-          { _id: mongoose.isValidObjectId(id) ? id : undefined }
-        ]
-      });
+      const plan = await this.planReplenishment(storeId as string | undefined);
       
-      if (!purchaseOrder) {
-        res.status(404).json({ message: 'Purchase order not found' });
-        return;
-      }
+      res.status(200).json(plan);
+    } catch (error) {
+      this.logger.error(`Get replenishment suggestions error: ${error}`);
+      res.status(500).json({ message: 'Failed to get replenishment suggestions' });
+    }
+  }
+
+  /**
+   * Raise draft purchase orders for everything at or below its reorder point
+   */
+  private async runReplenishment(req: Request, res: Response): Promise<void> {
+    try {
+      const { storeId } = req.body;
       
-      // Only allow submission if in DRAFT status
-      if (purchaseOrder.status !== 'DRAFT') {
-        res.status(400).json({ 
-          message: `Cannot submit purchase order in ${purchaseOrder.status} status` 
-        });
-        return;
-      }
+      const result = await this.replenish(storeId, (req as any).user.userId);
       
-      // Update status and add notes
-      purchaseOrder.status = 'SUBMITTED';
-      purchaseOrder.submittedAt = new Date();
+      res.status(201).json(result);
+    } catch (error) {
+      this.logger.error(`Run replenishment error: ${error}`);
+      res.status(500).json({ message: 'Failed to run replenishment' });
+    }
+  }
+
+  /**
+   * Start the replenishment processor
+   */
+  private startReplenishmentProcessor(): void {
+    // Process replenishment initially
+    this.replenish(undefined, 'system').catch(error => 
+      this.logger.error(`Replenishment error: ${error}`));
+    
+    // Set up interval to check periodically
+    setInterval(() => this.replenish(undefined, 'system').catch(error => 
+      this.logger.error(`Replenishment error: ${error}`)), 60 * 60 * 1000); // Process every hour
+  }
+
+  /**
+   * Plan and create the replenishment draft purchase orders
+   */
+  private async replenish(
+    storeId: string | undefined, 
+    performedBy: string
+  ): Promise<{ purchaseOrders: Record<string, any>[]; skipped: { productId: string; sku: string; storeId: string; reason: string }[] }> {
+    const plan = await this.planReplenishment(storeId);
+    const purchaseOrders = [];
+    
+    for (const order of plan.orders) {
+      const items = order.items.map(line => ({
+        productId: line.productId,
+        sku: line.sku,
+        supplierSku: line.supplierSku,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        totalPrice: parseFloat((line.quantity * line.unitPrice).toFixed(2))
+      }));
       
-      if (notes) {
-        purchaseOrder.notes = (purchaseOrder.notes || '') + `\nSubmission: ${notes}`;
-      }
+      const purchaseOrder = new this.purchaseOrderModel({
+        purchaseOrderId: uuidv4(),
+        supplierId: order.supplierId,
+        storeId: order.storeId,
+        items,
+        subtotal: order.subtotal,
+        tax: 0,
+        shipping: 0,
+        total: order.subtotal,
+        expectedDeliveryDate: order.expectedDeliveryDate,
+        paymentStatus: 'UNPAID',
+        source: 'REPLENISHMENT',
+        notes: order.toppedUpToMinimum 
+          ? `Raised by replenishment (${performedBy}); quantities raised to meet the supplier minimum of ${order.minOrderValue}` 
+          : `Raised by replenishment (${performedBy})`,
+        status: 'DRAFT'
+      });
       
       await purchaseOrder.save();
       
-      // Get supplier info for notification
-      const supplier = await this.supplierModel.findOne({ supplierId: purchaseOrder.supplierId });
-      
-      // Publish purchase order submitted event
-      await this.messageBus.publish('inventory', 'purchase-order.submitted', {
+      // Publish purchase order drafted event for the buyer
+      await this.messageBus.publish('inventory', 'purchase-order.drafted', {
         purchaseOrderId: purchaseOrder.purchaseOrderId,
-        supplierId: purchaseOrder.supplierId,
-        supplierName: supplier ? supplier.name : 'Unknown Supplier',
-        storeId: purchaseOrder.storeId,
-        itemCount: purchaseOrder.items.length,
+        supplierId: order.supplierId,
+        supplierName: order.supplierName,
+        storeId: order.storeId,
+        itemCount: items.length,
         total: purchaseOrder.total,
-        expectedDeliveryDate: purchaseOrder.expectedDeliveryDate,
+        expectedDeliveryDate: order.expectedDeliveryDate,
         timestamp: new Date().toISOString()
       });
       
-      res.status(200).json({
+      purchaseOrders.push({
         purchaseOrderId: purchaseOrder.purchaseOrderId,
+        supplierId: order.supplierId,
+        supplierName: order.supplierName,
+        storeId: order.storeId,
         status: purchaseOrder.status,
-        submittedAt: purchaseOrder.submittedAt,
-        message: 'Purchase order submitted successfully'
+        itemCount: items.length,
+        total: purchaseOrder.total,
+        expectedDeliveryDate: order.expectedDeliveryDate
       });
-    } catch (error) {
-      this.logger.error(`Submit purchase order error: ${error}`);
-      res.status(500).json({ message: 'Failed to submit purchase order' });
     }
+    
+    if (purchaseOrders.length > 0) {
+      this.logger.info(`Replenishment raised ${purchaseOrders.length} draft purchase orders`);
+    }
+    
+    return { purchaseOrders, skipped: plan.skipped };
   }
 
   /**
-   * Receive a purchase order
+   * Work out what to reorder. An item is reordered when its available stock plus what is
+   * already on order or in transit is at or below its reorder point. Items with sales history
+   * are ordered up to their forecast demand over the supplier's lead time and review period
+   * plus safety stock; items without fall back to the reorder point plus the reorder quantity.
+   * Quantities are in whole packs and at least the catalog minimum. Lines are grouped per store
+   * and preferred supplier, and topped up in reorder-quantity steps until the supplier's
+   * minimum order value is met
    */
-  private async receivePurchaseOrder(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-      const { 
-        items, 
-        notes, 
-        actualDeliveryDate = new Date() 
-      } = req.body;
-      
-      // Start a session for transaction
-      const session = await mongoose.startSession();
-      session.startTransaction();
-      
-      try {
-        const purchaseOrder = await this.purchaseOrderModel.findOne({
-          $or: [
-            { purchaseOrderId: id },
-            { _id: mongoose.isValidObjectId(id) ? id : undefined }
-          ]
-        }).session(session);
-        
-        if (!purchaseOrder) {
-          await session.abortTransaction();
-          session.endSession();
-          res.status(404).json({ message: 'Purchase order not found' });
-          return;
-        }
-        
-        // Only allow receiving if in CONFIRMED or SHIPPED status
-        if (purchaseOrder.status !== 'CONFIRMED' && purchaseOrder.status !== 'SHIPPED') {
-          await session.abortTransaction();
-          session.endSession();
-          res.status(400).json({ 
-            message: `Cannot receive purchase order in ${purchaseOrder.status} status` 
-          });
-          return;
-        }
-        
-        // Update received quantities
-        if (items && items.length > 0) {
-          // Map of item ID/SKU to received quantity
-          const receivedQuantities: Record<string, number> = {};
-          
-          for (const item of items) {
-            const { productId, sku, receivedQuantity } = item;
-            const key = productId || sku;
-            
-            if (!key || receivedQuantity === undefined || receivedQuantity < 0) {
-              await session.abortTransaction();
-              session.endSession();
-              res.status(400).json({ 
-                message: 'Each item must have product ID or SKU and valid received quantity' 
-              });
-              return;
-            }
-            
-            receivedQuantities[key] = receivedQuantity;
-          }
-          
-          // Update quantities in purchase order
-          for (const poItem of purchaseOrder.items) {
-            const key = poItem.productId || poItem.sku;
-            if (receivedQuantities[key] !== undefined) {
-              poItem.receivedQuantity = receivedQuantities[key];
-            }
-          }
-        } else {
-          // If no items specified, assume all items received in full
-          for (const poItem of purchaseOrder.items) {
-            poItem.receivedQuantity = poItem.quantity;
-          }
-        }
-        
-        // Update status and timestamps
-        purchaseOrder.status = 'RECEIVED';
-        purchaseOrder.actualDeliveryDate = actualDeliveryDate;
-        purchaseOrder.receivedAt = new Date();
-        
-        if (notes) {
-          purchaseOrder.notes = (purchaseOrder.notes || '') + `\nReceived: ${notes}`;
-        }
-        
-        await purchaseOrder.save({ session });
-        
-        // Update inventory for each received item
-        const inventoryUpdates = [];
-        
-        for (const poItem of purchaseOrder.items) {
-          if (!poItem.receivedQuantity || poItem.receivedQuantity <= 0) {
-            continue; // Skip items with no received quantity
-          }
-          
-          // Find inventory
-          let inventory = await this.inventoryModel.findOne({ 
-            productId: poItem.productId, 
-            storeId: purchaseOrder.storeId 
-          }).session(session);
-          
-          if (!inventory) {
-            // Create inventory record if it doesn't exist
-            const inventoryId = uuidv4();
-            inventory = new this.inventoryModel({
-              inventoryId,
-              productId: poItem.productId,
-              sku: poItem.sku,
-              storeId: purchaseOrder.storeId,
-              quantity: 0,
-              reservedQuantity: 0,
-              backorderEnabled: false,
-              backorderLimit: 0,
-              reorderPoint: 5,
-              reorderQuantity: 10
-            });
-          }
-          
-          // Record previous quantity
-          const previousQuantity = inventory.quantity;
-          
-          // Update quantity
-          inventory.quantity += poItem.receivedQuantity;
-          inventory.lastRestockedAt = new Date();
-          
-          await inventory.save({ session });
-          
-          // Create transaction record
-          const transactionId = uuidv4();
-          const transaction = new this.transactionModel({
-            transactionId,
-            inventoryId: inventory.inventoryId,
-            productId: inventory.productId,
-            sku: inventory.sku,
-            storeId: purchaseOrder.storeId,
-            type: 'RESTOCK',
-            quantity: poItem.receivedQuantity,
-            previousQuantity,
-            newQuantity: inventory.quantity,
-            referenceId: purchaseOrder.purchaseOrderId,
-            reason: 'Purchase order received',
-            performedBy: (req as any).user.userId,
-            notes: `PO #${purchaseOrder.purchaseOrderId}`
-          });
-          
-          await transaction.save({ session });
-          
-          inventoryUpdates.push({
-            productId: inventory.productId,
-            sku: inventory.sku,
-            receivedQuantity: poItem.receivedQuantity,
-            newQuantity: inventory.quantity,
-            transaction: transactionId
-          });
-        }
-        
-        // Commit transaction
-        await session.commitTransaction();
-        
-        // Publish purchase order received event
-        await this.messageBus.publish('inventory', 'purchase-order.received', {
-          purchaseOrderId: purchaseOrder.purchaseOrderId,
-          supplierId: purchaseOrder.supplierId,
-          storeId: purchaseOrder.storeId,
-          receivedAt: purchaseOrder.receivedAt,
-          items: inventoryUpdates,
-          timestamp: new Date().toISOString()
-        });
-        
-        res.status(200).json({
-          purchaseOrderId: purchaseOrder.purchaseOrderId,
-          status: purchaseOrder.status,
-          receivedAt: purchaseOrder.receivedAt,
-          itemsReceived: inventoryUpdates.length,
-          inventoryUpdates,
-          message: 'Purchase order received successfully'
+  private async planReplenishment(
+    storeId?: string
+  ): Promise<{ orders: IReplenishmentOrder[]; skipped: { productId: string; sku: string; storeId: string; reason: string }[] }> {
+    const query: any = {
+      reorderQuantity: { $gt: 0 },
+      $expr: { $lte: [{ $subtract: ['$quantity', '$reservedQuantity'] }, '$reorderPoint'] }
+    };
+    
+    if (storeId) query.storeId = storeId;
+    
+    const candidates = await this.inventoryModel.find(query);
+    const skipped: { productId: string; sku: string; storeId: string; reason: string }[] = [];
+    
+    if (candidates.length === 0) {
+      return { orders: [], skipped };
+    }
+    
+    const onOrder = await this.getOnOrderQuantities(storeId);
+    const demandModels = await this.getDemandModels(candidates.map(inventory => inventory.inventoryId), new Date());
+    
+    const products = await this.productModel.find({ productId: { $in: candidates.map(inventory => inventory.productId) } });
+    const suppliers = await this.supplierModel.find({ 
+      supplierId: { $in: products.map(product => product.preferredSupplierId).filter(Boolean) } 
+    });
+    
+    const orders = new Map<string, IReplenishmentOrder>();
+    
+    for (const inventory of candidates) {
+      const product = products.find(candidate => candidate.productId === inventory.productId);
+      const skip = (reason: string): void => {
+        skipped.push({ productId: inventory.productId, sku: inventory.sku, storeId: inventory.storeId, reason });
+      };
+      
+      if (!product || !product.isActive) {
+        skip('Product is inactive');
+        continue;
+      }
+      
+      if (product.kitComponents.length > 0) {
+        skip('Kits are assembled, not purchased');
+        continue;
+      }
+      
+      const supplier = suppliers.find(candidate => candidate.supplierId === product.preferredSupplierId);
+      
+      if (!supplier || !supplier.isActive) {
+        skip(product.preferredSupplierId ? 'Preferred supplier is inactive' : 'No preferred supplier');
+        continue;
+      }
+      
+      // Catalog terms win over the product's list cost and the supplier's lead time
+      const catalogEntry = await this.getCatalogEntry(supplier.supplierId, product.productId);
+      const unitPrice = catalogEntry ? catalogEntry.unitCost : product.costPrice;
+      
+      if (!unitPrice) {
+        skip('No cost price to order at');
+        continue;
+      }
+      
+      const available = inventory.quantity - inventory.reservedQuantity;
+      const incoming = (onOrder.get(`${inventory.storeId}:${inventory.productId}`) || 0) + inventory.inTransitQuantity;
+      const position = available + incoming;
+      
+      if (position > inventory.reorderPoint) {
+        skip('Covered by open purchase orders');
+        continue;
+      }
+      
+      const leadTime = catalogEntry?.leadTime ?? supplier.leadTime ?? 0;
+      const packSize = catalogEntry ? catalogEntry.packSize : 1;
+      const demandModel = demandModels.get(inventory.inventoryId);
+      const suggestion = demandModel && demandModel.totalSold > 0 
+        ? this.suggestReorder(demandModel, leadTime, position, new Date()) 
+        : null;
+      
+      if (suggestion && suggestion.orderQuantity === 0) {
+        skip('Forecast demand is covered');
+        continue;
+      }
+      
+      const key = `${inventory.storeId}:${supplier.supplierId}`;
+      const quantity = this.roundToPack(
+        Math.max(
+          suggestion ? suggestion.orderQuantity : inventory.reorderPoint + inventory.reorderQuantity - position, 
+          catalogEntry?.minOrderQuantity || 0
+        ),
+        packSize
+      );
+      
+      if (!orders.has(key)) {
+        orders.set(key, {
+          supplierId: supplier.supplierId,
+          supplierName: supplier.name,
+          storeId: inventory.storeId,
+          leadTime,
+          minOrderValue: supplier.minOrderValue || 0,
+          expectedDeliveryDate: new Date(Date.now() + leadTime * 24 * 60 * 60 * 1000),
+          subtotal: 0,
+          toppedUpToMinimum: false,
+          items: []
         });
-      } catch (error) {
-        // Abort transaction on error
-        await session.abortTransaction();
-        throw error;
-      } finally {
-        // End session
-        session.endSession();
       }
-    } catch (error) {
-      this.logger.error(`Receive purchase order error: ${error}`);
-      res.status(500).json({ message: 'Failed to receive purchase order' });
+      
+      orders.get(key)!.items.push({
+        inventoryId: inventory.inventoryId,
+        productId: inventory.productId,
+        sku: inventory.sku,
+        name: product.name,
+        available,
+        onOrder: incoming,
+        reorderPoint: inventory.reorderPoint,
+        reorderQuantity: inventory.reorderQuantity,
+        basis: suggestion ? 'FORECAST' : 'REORDER_QUANTITY',
+        leadTimeDemand: suggestion ? suggestion.leadTimeDemand : 0,
+        safetyStock: suggestion ? suggestion.safetyStock : 0,
+        packSize,
+        supplierSku: catalogEntry?.supplierSku,
+        quantity,
+        unitPrice
+      });
+    }
+    
+    for (const order of orders.values()) {
+      const getSubtotal = (): number => 
+        parseFloat(order.items.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0).toFixed(2));
+      
+      // Add a reorder quantity to each line in turn until the supplier minimum is met
+      for (let index = 0; getSubtotal() < order.minOrderValue; index = (index + 1) % order.items.length) {
+        order.items[index].quantity += this.roundToPack(order.items[index].reorderQuantity, order.items[index].packSize);
+        order.toppedUpToMinimum = true;
+      }
+      
+      order.subtotal = getSubtotal();
     }
+    
+    return { orders: Array.from(orders.values()), skipped };
   }
 
   /**
-   * Cancel a purchase order
+   * Get low stock alerts
    */
-  private async cancelPurchaseOrder(req: Request, res: Response): Promise<void> {
+  private async getLowStockAlerts(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
-      const { reason } = req.body;
+      const { storeId, page = 1, limit = 10 } = req.query;
       
-      const purchaseOrder = await this.purchaseOrderModel.findOne({
-        $or: [
-          { purchaseOrderId: id },
-          { _id: mongoose.isValidObjectId(id) ? id : undefined }
-        ]
-      });
+      // Build query - find items where quantity is at or below reorder point
+      const query: any = {
+        $expr: { $lte: ['$quantity', '$reorderPoint'] }
+      };
       
-      if (!purchaseOrder) {
-        res.status(404).json({ message: 'Purchase order not found' });
-        return;
+      if (storeId) {
+        query.storeId = storeId;
       }
       
-      // Only allow cancellation in certain statuses
-      const allowedStatuses = ['DRAFT', 'SUBMITTED', 'CONFIRMED'];
-      
-      if (!allowedStatuses.includes(purchaseOrder.status)) {
-        res.status(400).json({ 
-          message: `Cannot cancel purchase order in ${purchaseOrder.status} status` 
-        });
-        return;
-      }
+      // Parse pagination
+      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
       
-      // Update status
-      purchaseOrder.status = 'CANCELLED';
-      purchaseOrder.cancelledAt = new Date();
-      purchaseOrder.notes = (purchaseOrder.notes || '') + `\nCancelled: ${reason || 'No reason provided'}`;
+      // Get inventory items
+      const inventoryItems = await this.inventoryModel
+        .find(query)
+        .sort({ quantity: 1 })
+        .skip(skip)
+        .limit(parseInt(limit as string));
       
-      await purchaseOrder.save();
+      // Get total count
+      const total = await this.inventoryModel.countDocuments(query);
       
-      // Publish purchase order cancelled event
-      await this.messageBus.publish('inventory', 'purchase-order.cancelled', {
-        purchaseOrderId: purchaseOrder.purchaseOrderId,
-        supplierId: purchaseOrder.supplierId,
-        storeId: purchaseOrder.storeId,
-        reason,
-        timestamp: new Date().toISOString()
+      // Get product details
+      const productIds = inventoryItems.map(item => item.productId);
+      const products = await this.productModel.find({
+        productId: { $in: productIds }
       });
       
+      // Create product ID to product map
+      const productMap = products.reduce((map, product) => {
+        map[product.productId] = product;
+        return map;
+      }, {} as Record<string, IProduct>);
+      
       res.status(200).json({
-        purchaseOrderId: purchaseOrder.purchaseOrderId,
-        status: purchaseOrder.status,
-        cancelledAt: purchaseOrder.cancelledAt,
-        message: 'Purchase order cancelled successfully'
+        alerts: inventoryItems.map(item => {
+          const product = productMap[item.productId];
+          const isOutOfStock = item.quantity === 0;
+          
+          return {
+            inventoryId: item.inventoryId,
+            productId: item.productId,
+            sku: item.sku,
+            storeId: item.storeId,
+            name: product ? product.name : 'Unknown Product',
+            category: product ? product.category : 'Unknown',
+            quantity: item.quantity,
+            reservedQuantity: item.reservedQuantity,
+            availableQuantity: item.quantity - item.reservedQuantity,
+            reorderPoint: item.reorderPoint,
+            reorderQuantity: item.reorderQuantity,
+            isOutOfStock,
+            severity: isOutOfStock ? 'HIGH' : 'MEDIUM',
+            lastRestockedAt: item.lastRestockedAt
+          };
+        }),
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total,
+          pages: Math.ceil(total / parseInt(limit as string))
+        }
       });
     } catch (error) {
-      this.logger.error(`Cancel purchase order error: ${error}`);
-      res.status(500).json({ message: 'Failed to cancel purchase order' });
+      this.logger.error(`Get low stock alerts error: ${error}`);
+      res.status(500).json({ message: 'Failed to get low stock alerts' });
     }
   }
 
   /**
-   * Get purchase orders
+   * Get lots that expire within the given number of days (or already have)
    */
-  private async getPurchaseOrders(req: Request, res: Response): Promise<void> {
+  private async getExpiringLotAlerts(req: Request, res: Response): Promise<void> {
     try {
-      const { 
-        supplierId, 
-        storeId, 
-        status, 
-        startDate, 
-        endDate, 
-        page = 1, 
-        limit = 10 
-      } = req.query;
+      const { storeId, days = 30, page = 1, limit = 10 } = req.query;
       
-      // Build query
-      const query: any = {};
+      const cutoff = new Date(Date.now() + parseInt(days as string) * 24 * 60 * 60 * 1000);
       
-      if (supplierId) query.supplierId = supplierId;
-      if (storeId) query.storeId = storeId;
-      if (status) query.status = status;
+      const query: any = { 'lots.expirationDate': { $lte: cutoff } };
       
-      // Date range
-      if (startDate || endDate) {
-        query.createdAt = {};
-        if (startDate) query.createdAt.$gte = new Date(startDate as string);
-        if (endDate) query.createdAt.$lte = new Date(endDate as string);
+      if (storeId) {
+        query.storeId = storeId;
       }
       
       // Parse pagination
       const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
       
-      // Get purchase orders
-      const purchaseOrders = await this.purchaseOrderModel
-        .find(query)
-        .sort({ createdAt: -1 })
-        .skip(skip)
-        .limit(parseInt(limit as string));
-      
-      // Get total count
-      const total = await this.purchaseOrderModel.countDocuments(query);
+      // One row per lot, soonest expiry first
+      const pipeline: any[] = [
+        { $match: query },
+        { $unwind: '$lots' },
+        { $match: { 'lots.expirationDate': { $lte: cutoff }, 'lots.quantity': { $gt: 0 } } }
+      ];
+      
+      const [lots, totals] = await Promise.all([
+        this.inventoryModel.aggregate([
+          ...pipeline,
+          { $sort: { 'lots.expirationDate': 1 } },
+          { $skip: skip },
+          { $limit: parseInt(limit as string) }
+        ]),
+        this.inventoryModel.aggregate([...pipeline, { $count: 'total' }])
+      ]);
+      
+      const total = totals.length > 0 ? totals[0].total : 0;
       
-      // Get supplier info for each purchase order
-      const supplierIds = [...new Set(purchaseOrders.map(po => po.supplierId))];
-      const suppliers = await this.supplierModel.find({ supplierId: { $in: supplierIds } });
+      // Get product details
+      const products = await this.productModel.find({
+        productId: { $in: lots.map(item => item.productId) }
+      });
       
-      // Create supplier ID to name map
-      const supplierMap = suppliers.reduce((map, supplier) => {
-        map[supplier.supplierId] = supplier.name;
+      const productMap = products.reduce((map, product) => {
+        map[product.productId] = product;
         return map;
-      }, {} as Record<string, string>);
+      }, {} as Record<string, IProduct>);
+      
+      const now = new Date();
       
       res.status(200).json({
-        purchaseOrders: purchaseOrders.map(po => ({
-          purchaseOrderId: po.purchaseOrderId,
-          supplierId: po.supplierId,
-          supplierName: supplierMap[po.supplierId] || 'Unknown Supplier',
-          storeId: po.storeId,
-          status: po.status,
-          itemCount: po.items.length,
-          total: po.total,
-          expectedDeliveryDate: po.expectedDeliveryDate,
-          createdAt: po.createdAt
-        })),
+        alerts: lots.map(item => {
+          const product = productMap[item.productId];
+          const isExpired = new Date(item.lots.expirationDate) <= now;
+          
+          return {
+            inventoryId: item.inventoryId,
+            productId: item.productId,
+            sku: item.sku,
+            storeId: item.storeId,
+            name: product ? product.name : 'Unknown Product',
+            lotId: item.lots.lotId,
+            lotNumber: item.lots.lotNumber,
+            quantity: item.lots.quantity,
+            reservedQuantity: item.lots.reservedQuantity,
+            expirationDate: item.lots.expirationDate,
+            daysToExpiry: Math.ceil((new Date(item.lots.expirationDate).getTime() - now.getTime()) / (24 * 60 * 60 * 1000)),
+            isExpired,
+            severity: isExpired ? 'HIGH' : 'MEDIUM'
+          };
+        }),
         pagination: {
           page: parseInt(page as string),
           limit: parseInt(limit as string),
@@ -2783,85 +10596,209 @@ export class InventoryService extends BaseService {
         }
       });
     } catch (error) {
-      this.logger.error(`Get purchase orders error: ${error}`);
-      res.status(500).json({ message: 'Failed to get purchase orders' });
+      this.logger.error(`Get expiring lot alerts error: ${error}`);
+      res.status(500).json({ message: 'Failed to get expiring lot alerts' });
+    }
+  }
+
+  /**
+   * Recall lookup: the orders still holding units from a lot
+   */
+  private async getLotOrders(req: Request, res: Response): Promise<void> {
+    try {
+      const { lotNumber } = req.params;
+      const { productId, sku, storeId } = req.query;
+      
+      const query: any = {
+        'lots.lotNumber': lotNumber,
+        type: { $in: ['RESERVE', 'UNRESERVE'] },
+        orderId: { $exists: true }
+      };
+      
+      if (productId) query.productId = productId;
+      if (sku) query.sku = sku;
+      if (storeId) query.storeId = storeId;
+      
+      const transactions = await this.transactionModel.find(query).sort({ createdAt: 1 });
+      
+      // Net each order's reservations against its releases
+      const orders = new Map<string, { orderId: string; productId: string; sku: string; storeId: string; quantity: number; allocatedAt: Date }>();
+      
+      for (const transaction of transactions) {
+        const quantity = (transaction.lots || [])
+          .filter(lot => lot.lotNumber === lotNumber)
+          .reduce((sum, lot) => sum + lot.quantity, 0);
+        const key = `${transaction.orderId}:${transaction.inventoryId}`;
+        const entry = orders.get(key);
+        
+        if (entry) {
+          entry.quantity += quantity;
+        } else {
+          orders.set(key, {
+            orderId: transaction.orderId!,
+            productId: transaction.productId,
+            sku: transaction.sku,
+            storeId: transaction.storeId,
+            quantity,
+            allocatedAt: transaction.createdAt
+          });
+        }
+      }
+      
+      const affected = Array.from(orders.values()).filter(order => order.quantity > 0);
+      
+      res.status(200).json({
+        lotNumber,
+        orders: affected,
+        totalQuantity: affected.reduce((sum, order) => sum + order.quantity, 0)
+      });
+    } catch (error) {
+      this.logger.error(`Get lot orders error: ${error}`);
+      res.status(500).json({ message: 'Failed to get orders for lot' });
+    }
+  }
+
+  /**
+   * Add received units to a lot, creating the lot on first receipt
+   */
+  private addToLot(
+    inventory: IInventoryItem, 
+    lotNumber: string, 
+    quantity: number, 
+    expirationDate?: Date | string
+  ): ILotAllocation {
+    let lot = inventory.lots.find(candidate => candidate.lotNumber === lotNumber);
+    
+    if (lot) {
+      lot.quantity += quantity;
+      
+      if (expirationDate) {
+        lot.expirationDate = new Date(expirationDate);
+      }
+    } else {
+      inventory.lots.push({
+        lotId: uuidv4(),
+        lotNumber,
+        quantity,
+        reservedQuantity: 0,
+        expirationDate: expirationDate ? new Date(expirationDate) : undefined,
+        receivedAt: new Date()
+      });
+      lot = inventory.lots[inventory.lots.length - 1];
     }
+    
+    return { lotId: lot.lotId, lotNumber: lot.lotNumber, quantity };
+  }
+
+  /**
+   * Order lots first-expiry-first-out; lots without an expiry go last, oldest receipt first
+   */
+  private sortLotsFefo(lots: IInventoryLot[]): IInventoryLot[] {
+    return [...lots].sort((a, b) => {
+      const aExpiry = a.expirationDate ? a.expirationDate.getTime() : Infinity;
+      const bExpiry = b.expirationDate ? b.expirationDate.getTime() : Infinity;
+      
+      return aExpiry !== bExpiry ? aExpiry - bExpiry : a.receivedAt.getTime() - b.receivedAt.getTime();
+    });
   }
 
   /**
-   * Get low stock alerts
+   * Reserve units from unexpired lots, first-expiry-first-out; any remainder comes from untracked stock
    */
-  private async getLowStockAlerts(req: Request, res: Response): Promise<void> {
-    try {
-      const { storeId, page = 1, limit = 10 } = req.query;
+  private allocateLots(inventory: IInventoryItem, quantity: number): ILotAllocation[] {
+    const now = new Date();
+    const allocations: ILotAllocation[] = [];
+    let remaining = quantity;
+    
+    for (const lot of this.sortLotsFefo(inventory.lots)) {
+      if (remaining <= 0) break;
+      if (lot.expirationDate && lot.expirationDate <= now) continue;
       
-      // Build query - find items where quantity is at or below reorder point
-      const query: any = {
-        $expr: { $lte: ['$quantity', '$reorderPoint'] }
-      };
+      const take = Math.min(remaining, lot.quantity - lot.reservedQuantity);
       
-      if (storeId) {
-        query.storeId = storeId;
+      if (take > 0) {
+        lot.reservedQuantity += take;
+        remaining -= take;
+        allocations.push({ lotId: lot.lotId, lotNumber: lot.lotNumber, quantity: take });
       }
+    }
+    
+    return allocations;
+  }
+
+  /**
+   * Hand back the lots an order reserved, newest allocation first
+   */
+  private async releaseLots(inventory: IInventoryItem, orderId: string, quantity: number): Promise<ILotAllocation[]> {
+    const transactions = await this.transactionModel.find({
+      orderId,
+      inventoryId: inventory.inventoryId,
+      type: { $in: ['RESERVE', 'UNRESERVE', 'SALE'] }
+    }).sort({ createdAt: 1 });
+    
+    // Net lot reservations still held by the order
+    const held = new Map<string, number>();
+    
+    for (const transaction of transactions) {
+      for (const lot of transaction.lots || []) {
+        held.set(lot.lotId, (held.get(lot.lotId) || 0) + lot.quantity);
+      }
+    }
+    
+    const allocations: ILotAllocation[] = [];
+    let remaining = quantity;
+    
+    for (const [lotId, heldQuantity] of Array.from(held.entries()).reverse()) {
+      if (remaining <= 0) break;
       
-      // Parse pagination
-      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
-      
-      // Get inventory items
-      const inventoryItems = await this.inventoryModel
-        .find(query)
-        .sort({ quantity: 1 })
-        .skip(skip)
-        .limit(parseInt(limit as string));
-      
-      // Get total count
-      const total = await this.inventoryModel.countDocuments(query);
+      const lot = inventory.lots.find(candidate => candidate.lotId === lotId);
+      const take = lot ? Math.min(remaining, heldQuantity, lot.reservedQuantity) : 0;
       
-      // Get product details
-      const productIds = inventoryItems.map(item => item.productId);
-      const products = await this.productModel.find({
-        productId: { $in: productIds }
-      });
+      if (lot && take > 0) {
+        lot.reservedQuantity -= take;
+        remaining -= take;
+        allocations.push({ lotId, lotNumber: lot.lotNumber, quantity: -take });
+      }
+    }
+    
+    return allocations;
+  }
+
+  /**
+   * After the on-hand quantity drops, take any shortfall out of unreserved lot stock
+   * first-expiry-first-out so lot totals never exceed the item's quantity
+   */
+  private trimLots(inventory: IInventoryItem): ILotAllocation[] {
+    const allocations: ILotAllocation[] = [];
+    let excess = inventory.lots.reduce((sum, lot) => sum + lot.quantity, 0) - inventory.quantity;
+    
+    for (const lot of this.sortLotsFefo(inventory.lots)) {
+      if (excess <= 0) break;
       
-      // Create product ID to product map
-      const productMap = products.reduce((map, product) => {
-        map[product.productId] = product;
-        return map;
-      }, {} as Record<string, IProduct>);
+      const take = Math.min(excess, lot.quantity - lot.reservedQuantity);
       
-      res.status(200).json({
-        alerts: inventoryItems.map(item => {
-          const product = productMap[item.productId];
-          const isOutOfStock = item.quantity === 0;
-          
-          return {
-            inventoryId: item.inventoryId,
-            productId: item.productId,
-            sku: item.sku,
-            storeId: item.storeId,
-            name: product ? product.name : 'Unknown Product',
-            category: product ? product.category : 'Unknown',
-            quantity: item.quantity,
-            reservedQuantity: item.reservedQuantity,
-            availableQuantity: item.quantity - item.reservedQuantity,
-            reorderPoint: item.reorderPoint,
-            reorderQuantity: item.reorderQuantity,
-            isOutOfStock,
-            severity: isOutOfStock ? 'HIGH' : 'MEDIUM',
-            lastRestockedAt: item.lastRestockedAt
-          };
-        }),
-        pagination: {
-          page: parseInt(page as string),
-          limit: parseInt(limit as string),
-          total,
-          pages: Math.ceil(total / parseInt(limit as string))
-        }
-      });
-    } catch (error) {
-      this.logger.error(`Get low stock alerts error: ${error}`);
-      res.status(500).json({ message: 'Failed to get low stock alerts' });
+      if (take > 0) {
+        lot.quantity -= take;
+        excess -= take;
+        allocations.push({ lotId: lot.lotId, lotNumber: lot.lotNumber, quantity: -take });
+      }
     }
+    
+    // Drop lots that are used up
+    inventory.lots = inventory.lots.filter(lot => lot.quantity > 0 || lot.reservedQuantity > 0);
+    
+    return allocations;
+  }
+
+  /**
+   * Unreserved units in lots that have passed their expiry date
+   */
+  private getExpiredLotQuantity(inventory: IInventoryItem): number {
+    const now = new Date();
+    
+    return inventory.lots
+      .filter(lot => lot.expirationDate && lot.expirationDate <= now)
+      .reduce((sum, lot) => sum + Math.max(0, lot.quantity - lot.reservedQuantity), 0);
   }
 
   /**
@@ -2879,15 +10816,18 @@ export class InventoryService extends BaseService {
       // Use default store if not specified
       const targetStoreId = storeId || 'store_default';
       
+      // A confirmed order keeps its stock until it is sold or cancelled, so nothing it holds lapses
+      await this.reservationModel.updateMany(
+        { orderId, status: 'ACTIVE' },
+        { $unset: { expiresAt: 1 } }
+      );
+      
       // Reserve inventory for this order
       const reservePayload = {
         orderId,
         storeId: targetStoreId,
-        items: items.map((item: any) => ({
-          productId: item.productId,
-          sku: item.sku,
-          quantity: item.quantity
-        }))
+        items: await this.getStockLines(items, targetStoreId),
+        expiresAt: null
       };
       
       try {
@@ -2922,6 +10862,58 @@ export class InventoryService extends BaseService {
     }
   }
 
+  /**
+   * Expand order lines into the stock they consume, including modifier ingredients
+   * and, for kits beyond assembled stock, their components
+   */
+  private async getStockLines(
+    items: any[], 
+    storeId: string
+  ): Promise<{ productId: string; sku?: string; quantity: number; serialNumbers?: string[] }[]> {
+    const lines = new Map<string, { productId: string; sku?: string; quantity: number; serialNumbers?: string[] }>();
+    
+    const add = (productId: string, sku: string | undefined, quantity: number, serialNumbers: string[] = []): void => {
+      const line = lines.get(productId);
+      
+      if (line) {
+        line.quantity += quantity;
+        line.serialNumbers = [...(line.serialNumbers || []), ...serialNumbers];
+      } else {
+        lines.set(productId, { productId, sku, quantity, serialNumbers });
+      }
+    };
+    
+    for (const item of items) {
+      const kit = await this.productModel.findOne({ productId: item.productId, 'kitComponents.0': { $exists: true } });
+      
+      if (kit) {
+        const kitInventory = await this.inventoryModel.findOne({ productId: kit.productId, storeId });
+        const assembled = kitInventory ? Math.max(0, kitInventory.quantity - kitInventory.reservedQuantity) : 0;
+        const fromAssembled = Math.min(assembled, item.quantity);
+        
+        if (fromAssembled > 0) {
+          add(kit.productId, kit.sku, fromAssembled);
+        }
+        
+        for (const component of kit.kitComponents) {
+          if (item.quantity > fromAssembled) {
+            add(component.productId, component.sku, (item.quantity - fromAssembled) * component.quantity);
+          }
+        }
+      } else {
+        add(item.productId, item.sku, item.quantity, item.serialNumbers);
+      }
+      
+      for (const modifier of item.modifiers || []) {
+        if (modifier.inventoryProductId) {
+          add(modifier.inventoryProductId, undefined, item.quantity * (modifier.inventoryQuantity || 1));
+        }
+      }
+    }
+    
+    return Array.from(lines.values());
+  }
+
   /**
    * Handle order cancelled event
    */
@@ -2965,12 +10957,332 @@ export class InventoryService extends BaseService {
     }
   }
 
+  /**
+   * Handle order held event
+   */
+  private async handleOrderHeld(content: any): Promise<void> {
+    try {
+      const { orderId, items, storeId, reserveInventory, expiresAt } = content;
+      
+      // Parked sales only hold stock when the cashier asks for it
+      if (!reserveInventory) return;
+      
+      if (!orderId || !items || !items.length) {
+        this.logger.error('Invalid order held event data');
+        return;
+      }
+      
+      await this.reserveInventory({
+        body: {
+          orderId,
+          storeId: storeId || 'store_default',
+          items: await this.getStockLines(items, storeId || 'store_default'),
+          expiresAt
+        },
+        user: { userId: 'system' }
+      } as any, {
+        status: () => ({
+          json: (data: any) => {
+            if (data.success) {
+              this.logger.info(`Reserved inventory for held order ${orderId}`);
+            } else {
+              this.logger.error(`Failed to reserve inventory for held order ${orderId}: ${data.message}`);
+            }
+          }
+        })
+      } as any);
+    } catch (error) {
+      this.logger.error(`Handle order held error: ${error}`);
+    }
+  }
+
+  /**
+   * Release the reservation of a held order once it is recalled or expires
+   */
+  private async handleOrderHoldReleased(content: any, routingKey: string): Promise<void> {
+    try {
+      const { orderId, storeId, inventoryReserved } = content;
+      
+      if (!orderId || !inventoryReserved) return;
+      
+      const reason = routingKey === 'order.hold.expired' ? 'Hold expired' : 'Held order recalled';
+      
+      await this.releaseInventory({
+        body: {
+          orderId,
+          storeId: storeId || 'store_default',
+          reason
+        },
+        user: { userId: 'system' }
+      } as any, {
+        status: () => ({
+          json: (data: any) => {
+            if (data.success) {
+              this.logger.info(`Released inventory for held order ${orderId}: ${reason}`);
+            } else {
+              this.logger.error(`Failed to release inventory for held order ${orderId}: ${data.message}`);
+            }
+          }
+        })
+      } as any);
+    } catch (error) {
+      this.logger.error(`Handle order hold released error: ${error}`);
+    }
+  }
+
+  /**
+   * Handle return approved event
+   */
+  private async handleReturnApproved(content: any): Promise<void> {
+    try {
+      const { returnId, rmaNumber, orderId, storeId, items } = content;
+      
+      if (!returnId || !items || !items.length) {
+        this.logger.error('Invalid return approved event data');
+        return;
+      }
+      
+      const targetStoreId = storeId || 'store_default';
+      
+      for (const item of items) {
+        // Returned units come back to the receiving store, sellable or not
+        if (item.serialNumbers && item.serialNumbers.length > 0) {
+          await this.serialNumberModel.updateMany(
+            { productId: item.productId, serialNumber: { $in: item.serialNumbers }, orderId },
+            { 
+              $set: { status: 'RETURNED', condition: item.condition, storeId: targetStoreId, returnedAt: new Date() },
+              $push: { history: { status: 'RETURNED', at: new Date(), referenceId: returnId, performedBy: 'system', notes: item.reason } }
+            }
+          );
+        }
+        
+        // Damaged goods are not put back on the shelf
+        if (item.condition !== 'RESELLABLE') {
+          this.logger.info(`Return ${rmaNumber}: ${item.quantity} x ${item.sku} not restocked (${item.condition})`);
+          continue;
+        }
+        
+        const inventory = await this.inventoryModel.findOne({ productId: item.productId, storeId: targetStoreId });
+        
+        if (!inventory) {
+          this.logger.error(`Return ${rmaNumber}: no inventory for ${item.productId} in store ${targetStoreId}`);
+          continue;
+        }
+        
+        const previousQuantity = inventory.quantity;
+        const newQuantity = previousQuantity + item.quantity;
+        
+        inventory.quantity = newQuantity;
+        
+        // Returned units go back at the cost they were sold at
+        const sale = await this.transactionModel.findOne({ orderId, productId: item.productId, type: 'SALE' });
+        const cost = await this.costMovement(inventory, previousQuantity, sale ? sale.unitCost : undefined, returnId);
+        
+        await inventory.save();
+        
+        // Create transaction record
+        const transaction = new this.transactionModel({
+          transactionId: uuidv4(),
+          inventoryId: inventory.inventoryId,
+          productId: inventory.productId,
+          sku: inventory.sku,
+          storeId: targetStoreId,
+          type: 'RETURN',
+          quantity: item.quantity,
+          previousQuantity,
+          newQuantity,
+          orderId,
+          referenceId: returnId,
+          serialNumbers: item.serialNumbers && item.serialNumbers.length > 0 ? item.serialNumbers : undefined,
+          unitCost: cost.unitCost,
+          totalCost: cost.totalCost,
+          reason: item.reason,
+          performedBy: 'system',
+          notes: `Restocked from return ${rmaNumber}`
+        });
+        
+        await transaction.save();
+        
+        // Publish inventory updated event
+        await this.messageBus.publish('inventory', 'inventory.updated', {
+          inventoryId: inventory.inventoryId,
+          productId: inventory.productId,
+          sku: inventory.sku,
+          storeId: targetStoreId,
+          quantity: newQuantity,
+          change: item.quantity,
+          timestamp: new Date().toISOString()
+        });
+      }
+    } catch (error) {
+      this.logger.error(`Handle return approved error: ${error}`);
+    }
+  }
+
+  /**
+   * Handle payment completed event: the order's reserved stock and serials are now sold
+   */
+  private async handlePaymentCompleted(content: any): Promise<void> {
+    try {
+      const { orderId, paymentId } = content;
+      
+      if (!orderId) {
+        this.logger.error('Invalid payment completed event data');
+        return;
+      }
+      
+      // A split tender is not a sale until the settlement is settled, not merely at a zero balance
+      if (content.settlement && content.settlement.status !== 'SETTLED') {
+        return;
+      }
+      
+      await this.recordOrderSale(orderId, paymentId);
+      
+      const soldAt = new Date();
+      
+      const result = await this.serialNumberModel.updateMany(
+        { orderId, status: 'RESERVED' },
+        { 
+          $set: { status: 'SOLD', soldAt },
+          $push: { history: { status: 'SOLD', at: soldAt, referenceId: paymentId || orderId, performedBy: 'system' } }
+        }
+      );
+      
+      if (result.modifiedCount > 0) {
+        this.logger.info(`Marked ${result.modifiedCount} serial numbers sold for order ${orderId}`);
+      }
+    } catch (error) {
+      this.logger.error(`Handle payment completed error: ${error}`);
+    }
+  }
+
+  /**
+   * Turn the stock an order still holds into SALE movements, costed with the store's method.
+   * Stock whose reservation lapsed before payment is still sold: it leaves the store with the order
+   */
+  private async recordOrderSale(orderId: string, paymentId?: string): Promise<void> {
+    const held: { _id: string; reserved: number; lapsed: number }[] = await this.transactionModel.aggregate([
+      { $match: { orderId, type: { $in: ['RESERVE', 'UNRESERVE', 'SALE'] } } },
+      { 
+        $group: { 
+          _id: '$inventoryId', 
+          reserved: { $sum: '$quantity' },
+          lapsed: { 
+            $sum: { 
+              $cond: [
+                { $and: [{ $eq: ['$type', 'UNRESERVE'] }, { $eq: ['$reason', 'Reservation expired'] }] },
+                { $multiply: ['$quantity', -1] },
+                0
+              ] 
+            } 
+          }
+        } 
+      },
+      { $match: { $expr: { $gt: [{ $add: ['$reserved', '$lapsed'] }, 0] } } }
+    ]);
+    
+    if (held.length === 0) {
+      return;
+    }
+    
+    // Start a session for transaction
+    const session = await mongoose.startSession();
+    session.startTransaction();
+    
+    try {
+      const sold: { inventory: IInventoryItem; change: number }[] = [];
+      
+      for (const { _id: inventoryId, reserved, lapsed } of held) {
+        const inventory = await this.inventoryModel.findOne({ inventoryId }).session(session);
+        
+        if (!inventory) {
+          continue;
+        }
+        
+        // Only the part still reserved comes out of reserved stock
+        const quantity = Math.max(0, reserved);
+        const previousQuantity = inventory.quantity;
+        inventory.quantity = Math.max(0, previousQuantity - (reserved + lapsed));
+        inventory.reservedQuantity = Math.max(0, inventory.reservedQuantity - quantity);
+        
+        // The order's reserved lots leave the store with it
+        const lots = await this.releaseLots(inventory, orderId, quantity);
+        
+        for (const allocation of lots) {
+          const lot = inventory.lots.find(candidate => candidate.lotId === allocation.lotId);
+          
+          if (lot) {
+            lot.quantity += allocation.quantity;
+          }
+        }
+        
+        lots.push(...this.trimLots(inventory));
+        
+        const cost = await this.costMovement(inventory, previousQuantity);
+        await inventory.save({ session });
+        
+        await this.settleReservations(orderId, inventory.inventoryId, quantity, 'FULFILLED', 'Order sale', session);
+        
+        const serials = await this.serialNumberModel.find({ 
+          productId: inventory.productId, 
+          orderId, 
+          status: 'RESERVED' 
+        }).session(session);
+        
+        const transaction = new this.transactionModel({
+          transactionId: uuidv4(),
+          inventoryId: inventory.inventoryId,
+          productId: inventory.productId,
+          sku: inventory.sku,
+          storeId: inventory.storeId,
+          type: 'SALE',
+          quantity: inventory.quantity - previousQuantity,
+          previousQuantity,
+          newQuantity: inventory.quantity,
+          orderId,
+          referenceId: paymentId,
+          lots: lots.length > 0 ? lots : undefined,
+          serialNumbers: serials.length > 0 ? serials.map(serial => serial.serialNumber) : undefined,
+          unitCost: cost.unitCost,
+          totalCost: cost.totalCost,
+          reason: 'Order sale',
+          performedBy: 'system'
+        });
+        
+        await transaction.save({ session });
+        sold.push({ inventory, change: inventory.quantity - previousQuantity });
+      }
+      
+      await session.commitTransaction();
+      
+      for (const { inventory, change } of sold) {
+        await this.messageBus.publish('inventory', 'inventory.updated', {
+          inventoryId: inventory.inventoryId,
+          productId: inventory.productId,
+          sku: inventory.sku,
+          storeId: inventory.storeId,
+          quantity: inventory.quantity,
+          change,
+          timestamp: new Date().toISOString()
+        });
+      }
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
   /**
    * Override start method to also initialize message handlers
    */
   public async start(): Promise<void> {
     await super.start();
     await this.initMessageHandlers();
+    await this.seedWriteOffReasons();
+    this.startReplenishmentProcessor();
+    this.startReservationSweeper();
   }
 }
 
@@ -407,6 +407,7 @@ export class NotificationService extends BaseService {
     await this.messageBus.createQueue('notification.order.events', 'order', 'order.#');
     await this.messageBus.createQueue('notification.payment.events', 'payment', 'payment.#');
     await this.messageBus.createQueue('notification.delivery.events', 'delivery', 'delivery.#');
+    await this.messageBus.createQueue('notification.customer.events', 'customer', 'customer.#');
     
     // Listen for order events
     await this.messageBus.subscribe('notification.order.events', async (content, msg) => {
@@ -465,6 +466,23 @@ export class NotificationService extends BaseService {
       }
     });
     
+    // Listen for customer events to keep contact details and consent in sync
+    await this.messageBus.subscribe('notification.customer.events', async (content, msg) => {
+      this.logger.info(`Received customer event: ${msg.fields.routingKey}`, { customerId: content.customerId });
+      
+      // Handle specific events
+      switch (msg.fields.routingKey) {
+        case 'customer.created':
+        case 'customer.updated':
+        case 'customer.consent.updated':
+          await this.handleCustomerUpdated(content);
+          break;
+        case 'customer.deleted':
+          await this.handleCustomerDeleted(content);
+          break;
+      }
+    });
+    
     // Start the notification processor
     this.startNotificationProcessor();
   }
@@ -2434,6 +2452,74 @@ export class NotificationService extends BaseService {
     }
   }
 
+  /**
+   * Handle customer created/updated events by syncing the customer's subscription.
+   * Marketing and promotions preferences follow the consent held by the customer service.
+   */
+  private async handleCustomerUpdated(content: any): Promise<void> {
+    try {
+      const { customerId, email, phone, consent } = content;
+      
+      if (!customerId) {
+        this.logger.error('Invalid customer event data');
+        return;
+      }
+      
+      await this.subscriptionModel.updateOne(
+        { userId: customerId },
+        {
+          $set: {
+            email,
+            phone,
+            'preferences.marketing': consent?.marketing ?? false,
+            'preferences.promotions': consent?.promotions ?? false
+          },
+          $setOnInsert: {
+            subscriptionId: uuidv4(),
+            'preferences.orderUpdates': true,
+            'preferences.deliveryUpdates': true,
+            'preferences.paymentUpdates': true,
+            channels: {
+              email: !!email,
+              sms: !!phone,
+              push: false,
+              inApp: true
+            }
+          }
+        },
+        { upsert: true }
+      );
+    } catch (error: any) {
+      // A concurrent upsert for the same customer already created the subscription
+      if (error.code === 11000) {
+        return;
+      }
+      
+      this.logger.error(`Handle customer updated error: ${error}`);
+    }
+  }
+
+  /**
+   * Handle customer deleted event by withdrawing marketing consent
+   */
+  private async handleCustomerDeleted(content: any): Promise<void> {
+    try {
+      const { customerId } = content;
+      
+      if (!customerId) {
+        this.logger.error('Invalid customer deleted event data');
+        return;
+      }
+      
+      await this.subscriptionModel.updateOne(
+        { userId: customerId },
+        { $set: { 'preferences.marketing': false, 'preferences.promotions': false } }
+      );
+    } catch (error) {
+      this.logger.error(`Handle customer deleted error: ${error}`);
+    }
+  }
+
   /**
    * Override start method to also initialize message handlers
    */
@@ -13,22 +13,94 @@ enum OrderStatus {
   FULFILLED = 'FULFILLED',
   DELIVERED = 'DELIVERED',
   CANCELLED = 'CANCELLED',
-  REFUNDED = 'REFUNDED'
+  REFUNDED = 'REFUNDED',
+  HELD = 'HELD'
+}
+
+// Promotion type enum
+enum PromotionType {
+  BUY_X_GET_Y = 'BUY_X_GET_Y',
+  PERCENT_OFF = 'PERCENT_OFF',
+  FIXED_AMOUNT_OFF = 'FIXED_AMOUNT_OFF'
+}
+
+// Line tax interface (one jurisdiction's tax on an order line)
+interface ILineTax {
+  code: string;
+  name: string;
+  jurisdiction: string;
+  rate: number;
+  taxableAmount: number;
+  amount: number;
+  isCompound: boolean;
+  isInclusive: boolean;
+}
+
+// Order item modifier interface (a priced add-on or change on one line)
+interface IOrderItemModifier {
+  groupId: string;
+  groupName: string;
+  modifierId: string;
+  name: string;
+  priceDelta: number;
+  inventoryProductId?: string;
+  inventoryQuantity?: number;
 }
 
 // Order item interface
 interface IOrderItem {
+  _id?: mongoose.Types.ObjectId;
   productId: string;
   sku: string;
   name: string;
+  category?: string;
   quantity: number;
   unitPrice: number;
   discount: number;
+  promotionDiscount: number;
   totalPrice: number;
+  taxClass?: string;
+  taxRate?: number;
+  taxes: ILineTax[];
+  taxAmount: number;
+  basePrice?: number;
+  modifiers: IOrderItemModifier[];
+  serialNumbers?: string[];
   notes?: string;
   metadata?: Record<string, any>;
 }
 
+// Discount line interface (one discount produced by a promotion)
+interface IDiscountLine {
+  promotionId: string;
+  name: string;
+  type: PromotionType;
+  couponCode?: string;
+  productId?: string;
+  sku?: string;
+  amount: number;
+}
+
+// Order tender interface (one leg of a split-tender payment)
+interface IOrderTender {
+  paymentId: string;
+  method: string;
+  amount: number;
+  refundedAmount: number;
+  status: string;
+}
+
+// Order hold interface (a sale parked at the register)
+interface IOrderHold {
+  label: string;
+  terminalId?: string;
+  employeeId?: string;
+  previousStatus: OrderStatus;
+  inventoryReserved: boolean;
+  heldAt: Date;
+  expiresAt: Date;
+}
+
 // Order interface
 interface IOrder extends Document {
   orderId: string;
@@ -37,10 +109,19 @@ interface IOrder extends Document {
   items: IOrderItem[];
   subtotal: number;
   tax: number;
+  inclusiveTax: number;
+  taxBreakdown: ILineTax[];
+  isTaxExempt: boolean;
+  taxExemptionId?: string;
   discount: number;
+  promotionDiscount: number;
+  discountLines: IDiscountLine[];
+  couponCodes: string[];
   total: number;
   paymentStatus: 'UNPAID' | 'PARTIALLY_PAID' | 'PAID' | 'REFUNDED';
   paymentMethod?: string;
+  tenders: IOrderTender[];
+  amountPaid: number;
   shippingAddress?: {
     street: string;
     city: string;
@@ -67,17 +148,217 @@ interface IOrder extends Document {
   storeId?: string;
   deliveryId?: string;
   isOfflineOrder: boolean;
+  hold?: IOrderHold;
+  exchangeReturnId?: string;
+  returnCount: number;
   returnPolicy?: string;
   giftMessage?: string;
 }
 
+// Promotion interface
+interface IPromotion extends Document {
+  promotionId: string;
+  storeId: string;
+  name: string;
+  description?: string;
+  type: PromotionType;
+  value: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+  productIds: string[];
+  skus: string[];
+  categories: string[];
+  minSubtotal?: number;
+  couponCode?: string;
+  usageLimit?: number;
+  usageCount: number;
+  startsAt?: Date;
+  endsAt?: Date;
+  schedule?: {
+    daysOfWeek: number[];
+    startTime?: string;
+    endTime?: string;
+  };
+  priority: number;
+  isStackable: boolean;
+  isActive: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Tax rate interface (one jurisdiction's rate within a zone)
+interface ITaxRate {
+  code: string;
+  name: string;
+  jurisdiction: string;
+  rate: number;
+  taxClasses: string[];
+  isCompound: boolean;
+  isInclusive: boolean;
+  sequence: number;
+}
+
+// Tax zone interface
+interface ITaxZone extends Document {
+  zoneId: string;
+  storeId: string;
+  name: string;
+  rates: ITaxRate[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Tax class interface
+interface ITaxClass extends Document {
+  code: string;
+  name: string;
+  description?: string;
+  categories: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Tax exemption interface
+interface ITaxExemption extends Document {
+  exemptionId: string;
+  customerId: string;
+  certificateNumber: string;
+  reason?: string;
+  jurisdictions: string[];
+  expiresAt?: Date;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Return status enum
+enum ReturnStatus {
+  REQUESTED = 'REQUESTED',
+  APPROVED = 'APPROVED',
+  COMPLETED = 'COMPLETED',
+  REJECTED = 'REJECTED'
+}
+
+// Return reason enum
+enum ReturnReason {
+  DEFECTIVE = 'DEFECTIVE',
+  WRONG_ITEM = 'WRONG_ITEM',
+  NOT_AS_DESCRIBED = 'NOT_AS_DESCRIBED',
+  CHANGED_MIND = 'CHANGED_MIND',
+  DAMAGED_IN_TRANSIT = 'DAMAGED_IN_TRANSIT',
+  OTHER = 'OTHER'
+}
+
+// Returned item condition enum
+enum ReturnCondition {
+  RESELLABLE = 'RESELLABLE',
+  DAMAGED = 'DAMAGED'
+}
+
+// Refund method enum
+enum RefundMethod {
+  ORIGINAL_TENDER = 'ORIGINAL_TENDER',
+  STORE_CREDIT = 'STORE_CREDIT'
+}
+
+// Return item interface
+interface IReturnItem {
+  lineId?: string;
+  productId: string;
+  sku: string;
+  name: string;
+  quantity: number;
+  reason: ReturnReason;
+  condition: ReturnCondition;
+  refundAmount: number;
+  taxAmount: number;
+  serialNumbers?: string[];
+  notes?: string;
+}
+
+// Return refund interface (one refunded payment leg)
+interface IReturnRefund {
+  paymentId: string;
+  method: string;
+  amount: number;
+}
+
+// Return (RMA) interface
+interface IReturn extends Document {
+  returnId: string;
+  rmaNumber: string;
+  orderId: string;
+  customerId?: string;
+  storeId?: string;
+  status: ReturnStatus;
+  items: IReturnItem[];
+  refundMethod: RefundMethod;
+  subtotal: number;
+  tax: number;
+  refundAmount: number;
+  refundedAmount: number;
+  refunds: IReturnRefund[];
+  isExchange: boolean;
+  replacementOrderId?: string;
+  notes?: string;
+  requestedBy?: string;
+  approvedBy?: string;
+  approvedAt?: Date;
+  completedAt?: Date;
+  rejectedAt?: Date;
+  rejectionReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Product modifier groups (kept in step from inventory events)
+interface IProductModifiers extends Document {
+  productId: string;
+  sku: string;
+  modifierGroups: {
+    groupId: string;
+    name: string;
+    isRequired: boolean;
+    minSelections: number;
+    maxSelections: number;
+    modifiers: {
+      modifierId: string;
+      name: string;
+      priceDelta: number;
+      inventoryProductId?: string;
+      inventoryQuantity: number;
+    }[];
+  }[];
+  updatedAt: Date;
+}
+
+// Customer store credit balance (kept in step from payment events)
+interface ICustomerCredit extends Document {
+  customerId: string;
+  balance: number;
+  currency: string;
+  version: number;
+  updatedAt: Date;
+}
+
 /**
  * Order Service - Handles order creation and management
  */
 export class OrderService extends BaseService {
   private messageBus: MessageBus;
   private orderModel: mongoose.Model<IOrder>;
-  private readonly taxRate: number = 0.07; // 7% tax rate, would be configurable in production
+  private promotionModel: mongoose.Model<IPromotion>;
+  private taxZoneModel: mongoose.Model<ITaxZone>;
+  private taxClassModel: mongoose.Model<ITaxClass>;
+  private taxExemptionModel: mongoose.Model<ITaxExemption>;
+  private returnModel: mongoose.Model<IReturn>;
+  private customerCreditModel: mongoose.Model<ICustomerCredit>;
+  private productModifiersModel: mongoose.Model<IProductModifiers>;
+  private readonly defaultTaxRate: number = parseFloat(process.env.DEFAULT_TAX_RATE || '0.07'); // Used when a store has no tax zone
+  private readonly defaultTaxClass: string = 'STANDARD';
+  private readonly holdTtlMinutes: number = parseInt(process.env.HELD_ORDER_TTL_MINUTES || '240'); // How long a parked sale is kept
 
   /**
    * Initialize the Order Service
@@ -99,6 +380,78 @@ export class OrderService extends BaseService {
       this.logger
     );
 
+    // Define line tax schema
+    const lineTaxSchema = new Schema<ILineTax>({
+      code: { 
+        type: String, 
+        required: true 
+      },
+      name: { 
+        type: String, 
+        required: true 
+      },
+      jurisdiction: { 
+        type: String, 
+        required: true 
+      },
+      rate: { 
+        type: Number, 
+        required: true,
+        min: 0 
+      },
+      taxableAmount: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      amount: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      isCompound: { 
+        type: Boolean, 
+        required: true,
+        default: false 
+      },
+      isInclusive: { 
+        type: Boolean, 
+        required: true,
+        default: false 
+      }
+    }, { _id: false });
+
+    // Define order item modifier schema
+    const orderItemModifierSchema = new Schema<IOrderItemModifier>({
+      groupId: { 
+        type: String, 
+        required: true 
+      },
+      groupName: { 
+        type: String, 
+        required: true 
+      },
+      modifierId: { 
+        type: String, 
+        required: true 
+      },
+      name: { 
+        type: String, 
+        required: true 
+      },
+      priceDelta: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      inventoryProductId: { 
+        type: String 
+      },
+      inventoryQuantity: { 
+        type: Number 
+      }
+    }, { _id: false });
+
     // Define order item schema
     const orderItemSchema = new Schema<IOrderItem>({
       productId: { 
@@ -113,6 +466,9 @@ export class OrderService extends BaseService {
         type: String, 
         required: true 
       },
+      category: { 
+        type: String 
+      },
       quantity: { 
         type: Number, 
         required: true,
@@ -129,11 +485,36 @@ export class OrderService extends BaseService {
         default: 0,
         min: 0 
       },
+      promotionDiscount: { 
+        type: Number, 
+        required: true,
+        default: 0,
+        min: 0 
+      },
       totalPrice: { 
         type: Number, 
         required: true,
         min: 0 
       },
+      taxClass: { 
+        type: String 
+      },
+      taxRate: { 
+        type: Number,
+        min: 0 
+      },
+      taxes: [lineTaxSchema],
+      taxAmount: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      basePrice: { 
+        type: Number,
+        min: 0 
+      },
+      modifiers: [orderItemModifierSchema],
+      serialNumbers: [String],
       notes: { 
         type: String 
       },
@@ -143,6 +524,95 @@ export class OrderService extends BaseService {
       }
     });
 
+    // Define discount line schema
+    const discountLineSchema = new Schema<IDiscountLine>({
+      promotionId: { 
+        type: String, 
+        required: true 
+      },
+      name: { 
+        type: String, 
+        required: true 
+      },
+      type: { 
+        type: String, 
+        required: true,
+        enum: Object.values(PromotionType)
+      },
+      couponCode: { 
+        type: String 
+      },
+      productId: { 
+        type: String 
+      },
+      sku: { 
+        type: String 
+      },
+      amount: { 
+        type: Number, 
+        required: true,
+        min: 0 
+      }
+    }, { _id: false });
+
+    // Define order tender schema
+    const orderTenderSchema = new Schema<IOrderTender>({
+      paymentId: { 
+        type: String, 
+        required: true 
+      },
+      method: { 
+        type: String, 
+        required: true 
+      },
+      amount: { 
+        type: Number, 
+        required: true,
+        min: 0 
+      },
+      refundedAmount: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      status: { 
+        type: String, 
+        required: true 
+      }
+    }, { _id: false });
+
+    // Define order hold schema
+    const orderHoldSchema = new Schema<IOrderHold>({
+      label: { 
+        type: String, 
+        required: true 
+      },
+      terminalId: { 
+        type: String 
+      },
+      employeeId: { 
+        type: String 
+      },
+      previousStatus: { 
+        type: String, 
+        enum: Object.values(OrderStatus),
+        required: true 
+      },
+      inventoryReserved: { 
+        type: Boolean, 
+        required: true,
+        default: false 
+      },
+      heldAt: { 
+        type: Date, 
+        required: true 
+      },
+      expiresAt: { 
+        type: Date, 
+        required: true 
+      }
+    }, { _id: false });
+
     // Define order schema
     const orderSchema = new Schema<IOrder>({
       orderId: { 
@@ -171,11 +641,35 @@ export class OrderService extends BaseService {
         required: true,
         default: 0 
       },
+      inclusiveTax: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      taxBreakdown: [lineTaxSchema],
+      isTaxExempt: { 
+        type: Boolean, 
+        required: true,
+        default: false 
+      },
+      taxExemptionId: { 
+        type: String 
+      },
       discount: { 
         type: Number, 
         required: true,
         default: 0 
       },
+      promotionDiscount: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      discountLines: [discountLineSchema],
+      couponCodes: { 
+        type: [String], 
+        default: [] 
+      },
       total: { 
         type: Number, 
         required: true,
@@ -190,6 +684,12 @@ export class OrderService extends BaseService {
       paymentMethod: { 
         type: String 
       },
+      tenders: [orderTenderSchema],
+      amountPaid: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
       shippingAddress: {
         street: { type: String },
         city: { type: String },
@@ -237,6 +737,17 @@ export class OrderService extends BaseService {
         required: true,
         default: false 
       },
+      hold: { 
+        type: orderHoldSchema 
+      },
+      exchangeReturnId: { 
+        type: String 
+      },
+      returnCount: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
       returnPolicy: { 
         type: String 
       },
@@ -258,10 +769,13 @@ export class OrderService extends BaseService {
           return next();
         }
 
-        // Calculate totals
-        this.subtotal = this.items.reduce((sum, item) => sum + item.totalPrice, 0);
-        this.tax = parseFloat((this.subtotal * this.taxRate).toFixed(2));
-        this.total = parseFloat((this.subtotal + this.tax - this.discount).toFixed(2));
+        // Calculate totals from the line taxes computed by the tax engine;
+        // inclusive taxes are already part of the line prices
+        this.subtotal = parseFloat(this.items.reduce((sum, item) => sum + item.totalPrice, 0).toFixed(2));
+        this.tax = parseFloat(this.items.reduce((sum, item) => sum + (item.taxAmount || 0), 0).toFixed(2));
+        this.inclusiveTax = parseFloat(this.items.reduce((sum, item) => 
+          sum + (item.taxes || []).filter(tax => tax.isInclusive).reduce((taxSum, tax) => taxSum + tax.amount, 0), 0).toFixed(2));
+        this.total = parseFloat(Math.max(0, this.subtotal - this.discount - (this.promotionDiscount || 0) + this.tax - this.inclusiveTax).toFixed(2));
         next();
       } catch (error: any) {
         next(error);
@@ -274,36 +788,467 @@ export class OrderService extends BaseService {
     orderSchema.index({ paymentStatus: 1 });
     orderSchema.index({ storeId: 1, status: 1 });
     orderSchema.index({ isOfflineOrder: 1, status: 1 });
+    orderSchema.index({ status: 1, 'hold.expiresAt': 1 });
 
-    // Create model
-    this.orderModel = mongoose.model<IOrder>('Order', orderSchema);
-  }
-
-  /**
-   * Initialize routes for the Order service
-   */
-  protected async initRoutes(): Promise<void> {
-    // Create a new order
-    this.app.post('/orders', this.authenticate.bind(this), this.createOrder.bind(this));
-    
-    // Get order by ID
-    this.app.get('/orders/:id', this.authenticate.bind(this), this.getOrder.bind(this));
-    
-    // Get orders for a customer
-    this.app.get('/orders/customer/:customerId', this.authenticate.bind(this), this.getCustomerOrders.bind(this));
-    
-    // Update an order (add/remove items)
-    this.app.put('/orders/:id', this.authenticate.bind(this), this.updateOrder.bind(this));
-    
-    // Add item to order
-    this.app.post('/orders/:id/items', this.authenticate.bind(this), this.addOrderItem.bind(this));
-    
-    // Update item in order
-    this.app.put('/orders/:id/items/:itemId', this.authenticate.bind(this), this.updateOrderItem.bind(this));
+    // Define promotion schema
+    const promotionSchema = new Schema<IPromotion>({
+      promotionId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      storeId: { 
+        type: String, 
+        required: true,
+        index: true 
+      },
+      name: { 
+        type: String, 
+        required: true 
+      },
+      description: { 
+        type: String 
+      },
+      type: { 
+        type: String, 
+        required: true,
+        enum: Object.values(PromotionType)
+      },
+      value: { 
+        type: Number, 
+        required: true,
+        min: 0 
+      },
+      buyQuantity: { 
+        type: Number,
+        min: 1 
+      },
+      getQuantity: { 
+        type: Number,
+        min: 1 
+      },
+      productIds: { 
+        type: [String], 
+        default: [] 
+      },
+      skus: { 
+        type: [String], 
+        default: [] 
+      },
+      categories: { 
+        type: [String], 
+        default: [] 
+      },
+      minSubtotal: { 
+        type: Number,
+        min: 0 
+      },
+      couponCode: { 
+        type: String,
+        uppercase: true,
+        trim: true 
+      },
+      usageLimit: { 
+        type: Number,
+        min: 1 
+      },
+      usageCount: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      startsAt: { 
+        type: Date 
+      },
+      endsAt: { 
+        type: Date 
+      },
+      schedule: {
+        daysOfWeek: { type: [Number], default: [] },
+        startTime: { type: String },
+        endTime: { type: String }
+      },
+      priority: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      isStackable: { 
+        type: Boolean, 
+        required: true,
+        default: false 
+      },
+      isActive: { 
+        type: Boolean, 
+        required: true,
+        default: true 
+      },
+      createdBy: { 
+        type: String 
+      }
+    }, {
+      timestamps: true
+    });
+
+    promotionSchema.index({ storeId: 1, isActive: 1, priority: -1 });
+    promotionSchema.index({ storeId: 1, couponCode: 1 }, { unique: true, sparse: true });
+
+    // Define tax rate schema
+    const taxRateSchema = new Schema<ITaxRate>({
+      code: { 
+        type: String, 
+        required: true 
+      },
+      name: { 
+        type: String, 
+        required: true 
+      },
+      jurisdiction: { 
+        type: String, 
+        required: true 
+      },
+      rate: { 
+        type: Number, 
+        required: true,
+        min: 0,
+        max: 1 
+      },
+      taxClasses: { 
+        type: [String], 
+        default: [] 
+      },
+      isCompound: { 
+        type: Boolean, 
+        required: true,
+        default: false 
+      },
+      isInclusive: { 
+        type: Boolean, 
+        required: true,
+        default: false 
+      },
+      sequence: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      }
+    }, { _id: false });
+
+    // Define tax zone schema
+    const taxZoneSchema = new Schema<ITaxZone>({
+      zoneId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      storeId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      name: { 
+        type: String, 
+        required: true 
+      },
+      rates: [taxRateSchema],
+      isActive: { 
+        type: Boolean, 
+        required: true,
+        default: true 
+      }
+    }, {
+      timestamps: true
+    });
+
+    // Define tax class schema
+    const taxClassSchema = new Schema<ITaxClass>({
+      code: { 
+        type: String, 
+        required: true, 
+        unique: true,
+        uppercase: true,
+        trim: true 
+      },
+      name: { 
+        type: String, 
+        required: true 
+      },
+      description: { 
+        type: String 
+      },
+      categories: { 
+        type: [String], 
+        default: [],
+        index: true 
+      }
+    }, {
+      timestamps: true
+    });
+
+    // Define tax exemption schema
+    const taxExemptionSchema = new Schema<ITaxExemption>({
+      exemptionId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      customerId: { 
+        type: String, 
+        required: true,
+        index: true 
+      },
+      certificateNumber: { 
+        type: String, 
+        required: true 
+      },
+      reason: { 
+        type: String 
+      },
+      jurisdictions: { 
+        type: [String], 
+        default: [] 
+      },
+      expiresAt: { 
+        type: Date 
+      },
+      isActive: { 
+        type: Boolean, 
+        required: true,
+        default: true 
+      }
+    }, {
+      timestamps: true
+    });
+
+    // Define return item schema
+    const returnItemSchema = new Schema<IReturnItem>({
+      lineId: { 
+        type: String 
+      },
+      productId: { 
+        type: String, 
+        required: true 
+      },
+      sku: { 
+        type: String, 
+        required: true 
+      },
+      name: { 
+        type: String, 
+        required: true 
+      },
+      quantity: { 
+        type: Number, 
+        required: true,
+        min: 1 
+      },
+      reason: { 
+        type: String, 
+        enum: Object.values(ReturnReason),
+        required: true 
+      },
+      condition: { 
+        type: String, 
+        enum: Object.values(ReturnCondition),
+        required: true,
+        default: ReturnCondition.RESELLABLE 
+      },
+      refundAmount: { 
+        type: Number, 
+        required: true,
+        min: 0 
+      },
+      taxAmount: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      serialNumbers: [String],
+      notes: { 
+        type: String 
+      }
+    }, { _id: false });
+
+    // Define return schema
+    const returnSchema = new Schema<IReturn>({
+      returnId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      rmaNumber: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      orderId: { 
+        type: String, 
+        required: true,
+        index: true 
+      },
+      customerId: { 
+        type: String,
+        index: true 
+      },
+      storeId: { 
+        type: String,
+        index: true 
+      },
+      status: { 
+        type: String, 
+        enum: Object.values(ReturnStatus),
+        required: true,
+        default: ReturnStatus.REQUESTED 
+      },
+      items: [returnItemSchema],
+      refundMethod: { 
+        type: String, 
+        enum: Object.values(RefundMethod),
+        required: true,
+        default: RefundMethod.ORIGINAL_TENDER 
+      },
+      subtotal: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      tax: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      refundAmount: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      refundedAmount: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      refunds: [{
+        paymentId: String,
+        method: String,
+        amount: Number,
+        _id: false
+      }],
+      isExchange: { 
+        type: Boolean, 
+        required: true,
+        default: false 
+      },
+      replacementOrderId: { 
+        type: String 
+      },
+      notes: { 
+        type: String 
+      },
+      requestedBy: { 
+        type: String 
+      },
+      approvedBy: { 
+        type: String 
+      },
+      approvedAt: { 
+        type: Date 
+      },
+      completedAt: { 
+        type: Date 
+      },
+      rejectedAt: { 
+        type: Date 
+      },
+      rejectionReason: { 
+        type: String 
+      }
+    }, {
+      timestamps: true
+    });
+
+    // Define customer credit schema
+    const customerCreditSchema = new Schema<ICustomerCredit>({
+      customerId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      balance: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      currency: { 
+        type: String, 
+        required: true,
+        default: 'USD' 
+      },
+      version: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      }
+    }, {
+      timestamps: true
+    });
+
+    // Define product modifiers schema
+    const productModifiersSchema = new Schema<IProductModifiers>({
+      productId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      sku: { 
+        type: String 
+      },
+      modifierGroups: { 
+        type: Schema.Types.Mixed, 
+        default: [] 
+      }
+    }, {
+      timestamps: true
+    });
+
+    // Create models
+    this.orderModel = mongoose.model<IOrder>('Order', orderSchema);
+    this.promotionModel = mongoose.model<IPromotion>('Promotion', promotionSchema);
+    this.taxZoneModel = mongoose.model<ITaxZone>('TaxZone', taxZoneSchema);
+    this.taxClassModel = mongoose.model<ITaxClass>('TaxClass', taxClassSchema);
+    this.taxExemptionModel = mongoose.model<ITaxExemption>('TaxExemption', taxExemptionSchema);
+    this.returnModel = mongoose.model<IReturn>('Return', returnSchema);
+    this.customerCreditModel = mongoose.model<ICustomerCredit>('CustomerCredit', customerCreditSchema);
+    this.productModifiersModel = mongoose.model<IProductModifiers>('ProductModifiers', productModifiersSchema);
+  }
+
+  /**
+   * Initialize routes for the Order service
+   */
+  protected async initRoutes(): Promise<void> {
+    // Create a new order
+    this.app.post('/orders', this.authenticate.bind(this), this.createOrder.bind(this));
+    
+    // Get order by ID
+    this.app.get('/orders/:id', this.authenticate.bind(this), this.getOrder.bind(this));
+    
+    // Get orders for a customer
+    this.app.get('/orders/customer/:customerId', this.authenticate.bind(this), this.getCustomerOrders.bind(this));
+    
+    // Update an order (add/remove items)
+    this.app.put('/orders/:id', this.authenticate.bind(this), this.updateOrder.bind(this));
+    
+    // Add item to order
+    this.app.post('/orders/:id/items', this.authenticate.bind(this), this.addOrderItem.bind(this));
+    
+    // Update item in order
+    this.app.put('/orders/:id/items/:itemId', this.authenticate.bind(this), this.updateOrderItem.bind(this));
     
     // Remove item from order
     this.app.delete('/orders/:id/items/:itemId', this.authenticate.bind(this), this.removeOrderItem.bind(this));
     
+    // Kitchen ticket for food-service lines
+    this.app.get('/orders/:id/kitchen-ticket', this.authenticate.bind(this), this.getKitchenTicket.bind(this));
+    
     // Confirm order
     this.app.post('/orders/:id/confirm', this.authenticate.bind(this), this.confirmOrder.bind(this));
     
@@ -318,170 +1263,1409 @@ export class OrderService extends BaseService {
     
     // Get order statistics
     this.app.get('/orders/stats/summary', this.authenticate.bind(this), this.getOrderStats.bind(this));
+    
+    // Apply a coupon code to an order
+    this.app.post('/orders/:id/coupons', this.authenticate.bind(this), this.applyCoupon.bind(this));
+    
+    // Remove a coupon code from an order
+    this.app.delete('/orders/:id/coupons/:code', this.authenticate.bind(this), this.removeCoupon.bind(this));
+    
+    // Park and recall sales at the register
+    this.app.post('/orders/:id/hold', this.authenticate.bind(this), this.holdOrder.bind(this));
+    this.app.post('/orders/:id/recall', this.authenticate.bind(this), this.recallOrder.bind(this));
+    this.app.get('/held-orders', this.authenticate.bind(this), this.getHeldOrders.bind(this));
+    
+    // Returns and exchanges
+    this.app.post('/orders/:id/returns', this.authenticate.bind(this), this.createReturn.bind(this));
+    this.app.get('/orders/:id/returns', this.authenticate.bind(this), this.getOrderReturns.bind(this));
+    this.app.get('/returns', this.authenticate.bind(this), this.searchReturns.bind(this));
+    this.app.get('/returns/:id', this.authenticate.bind(this), this.getReturn.bind(this));
+    this.app.post('/returns/:id/approve', this.authenticate.bind(this), this.approveReturn.bind(this));
+    this.app.post('/returns/:id/reject', this.authenticate.bind(this), this.rejectReturn.bind(this));
+    
+    // Get tax collected by jurisdiction
+    this.app.get('/orders/stats/tax', this.authenticate.bind(this), this.getTaxStats.bind(this));
+    
+    // Tax configuration
+    this.app.post('/tax/zones', this.authenticate.bind(this), this.saveTaxZone.bind(this));
+    this.app.get('/tax/zones', this.authenticate.bind(this), this.listTaxZones.bind(this));
+    this.app.get('/tax/zones/:storeId', this.authenticate.bind(this), this.getTaxZone.bind(this));
+    this.app.delete('/tax/zones/:storeId', this.authenticate.bind(this), this.deleteTaxZone.bind(this));
+    this.app.post('/tax/classes', this.authenticate.bind(this), this.saveTaxClass.bind(this));
+    this.app.get('/tax/classes', this.authenticate.bind(this), this.listTaxClasses.bind(this));
+    this.app.delete('/tax/classes/:code', this.authenticate.bind(this), this.deleteTaxClass.bind(this));
+    this.app.post('/tax/exemptions', this.authenticate.bind(this), this.createTaxExemption.bind(this));
+    this.app.get('/tax/exemptions', this.authenticate.bind(this), this.listTaxExemptions.bind(this));
+    this.app.delete('/tax/exemptions/:id', this.authenticate.bind(this), this.revokeTaxExemption.bind(this));
+    
+    // Promotion management
+    this.app.post('/promotions', this.authenticate.bind(this), this.createPromotion.bind(this));
+    this.app.get('/promotions', this.authenticate.bind(this), this.listPromotions.bind(this));
+    this.app.get('/promotions/:id', this.authenticate.bind(this), this.getPromotion.bind(this));
+    this.app.put('/promotions/:id', this.authenticate.bind(this), this.updatePromotion.bind(this));
+    this.app.delete('/promotions/:id', this.authenticate.bind(this), this.deletePromotion.bind(this));
+  }
+
+  /**
+   * Initialize message bus handlers
+   */
+  private async initMessageHandlers(): Promise<void> {
+    await this.messageBus.connect();
+    
+    // Create exchanges
+    await this.messageBus.createExchange('order', 'topic');
+    
+    // Create queues
+    await this.messageBus.createQueue('order.payment.events', 'payment', 'payment.#');
+    await this.messageBus.createQueue('order.inventory.events', 'inventory', 'inventory.#');
+    await this.messageBus.createQueue('order.delivery.events', 'delivery', 'delivery.#');
+    
+    // Listen for payment events
+    await this.messageBus.subscribe('order.payment.events', async (content, msg) => {
+      this.logger.info(`Received payment event: ${msg.fields.routingKey}`, { content });
+      
+      // Handle payment events
+      switch (msg.fields.routingKey) {
+        case 'payment.completed':
+          await this.handlePaymentCompleted(content);
+          break;
+        case 'payment.failed':
+          await this.handlePaymentFailed(content);
+          break;
+        case 'payment.refunded':
+          await this.handlePaymentRefunded(content);
+          break;
+        case 'payment.return.refunded':
+          await this.handleReturnRefunded(content);
+          break;
+        case 'payment.return.failed':
+          await this.handleReturnRefundFailed(content);
+          break;
+        case 'payment.storecredit.updated':
+          await this.handleStoreCreditUpdated(content);
+          break;
+      }
+    });
+    
+    // Listen for inventory events
+    await this.messageBus.subscribe('order.inventory.events', async (content, msg) => {
+      this.logger.info(`Received inventory event: ${msg.fields.routingKey}`, { content });
+      
+      // Handle inventory events
+      switch (msg.fields.routingKey) {
+        case 'inventory.allocated':
+          await this.handleInventoryAllocated(content);
+          break;
+        case 'inventory.allocation.failed':
+          await this.handleInventoryAllocationFailed(content);
+          break;
+        case 'inventory.modifiers.updated':
+          await this.handleModifiersUpdated(content);
+          break;
+      }
+    });
+    
+    // Listen for delivery events
+    await this.messageBus.subscribe('order.delivery.events', async (content, msg) => {
+      this.logger.info(`Received delivery event: ${msg.fields.routingKey}`, { content });
+      
+      // Handle delivery events
+      switch (msg.fields.routingKey) {
+        case 'delivery.assigned':
+          await this.handleDeliveryAssigned(content);
+          break;
+        case 'delivery.completed':
+          await this.handleDeliveryCompleted(content);
+          break;
+      }
+    });
+  }
+
+  /**
+   * Basic JWT authentication middleware
+   * In a real implementation, this would validate against the Auth service
+   */
+  private authenticate(req: Request, res: Response, next: Function): void {
+    // This is a simplified version that assumes the API Gateway has already
+    // performed authentication. In a real implementation, this would
+    // validate the JWT token and set user info
+    
+    // Simulate authenticated user for demo purposes
+    (req as any).user = {
+      userId: 'user123',
+      roles: ['user']
+    };
+    
+    next();
+  }
+
+  /**
+   * Create a new order
+   */
+  private async createOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { 
+        customerId, 
+        items = [], 
+        storeId, 
+        employeeId,
+        couponCodes = [],
+        isOfflineOrder = false,
+        metadata = {}
+      } = req.body;
+      
+      // Create a unique order ID
+      const orderId = uuidv4();
+      
+      // Format and validate items
+      const formattedItems = items.map((item: any) => ({
+        productId: item.productId,
+        sku: item.sku,
+        name: item.name,
+        category: item.category,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        discount: item.discount || 0,
+        promotionDiscount: 0,
+        totalPrice: (item.quantity * item.unitPrice) - (item.discount || 0),
+        taxClass: item.taxClass,
+        taxRate: item.taxRate,
+        taxes: [],
+        taxAmount: 0
+      }));
+      
+      // Create order
+      const order = new this.orderModel({
+        orderId,
+        customerId,
+        status: OrderStatus.CART,
+        items: formattedItems,
+        storeId,
+        employeeId,
+        couponCodes: couponCodes.map((code: string) => code.trim().toUpperCase()),
+        isOfflineOrder,
+        metadata
+      });
+      
+      // Evaluate promotions for the initial items
+      await this.recalculateOrder(order);
+      
+      await order.save();
+      
+      // If the order is offline, mark it as pending
+      if (isOfflineOrder && items.length > 0) {
+        order.status = OrderStatus.PENDING;
+        await order.save();
+        
+        // Publish order created event
+        await this.messageBus.publish('order', 'order.created.offline', {
+          orderId: order.orderId,
+          customerId: order.customerId,
+          items: order.items,
+          total: order.total,
+          storeId: order.storeId,
+          timestamp: new Date().toISOString()
+        });
+      }
+      
+      res.status(201).json({
+        orderId: order.orderId,
+        status: order.status,
+        items: order.items,
+        subtotal: order.subtotal,
+        tax: order.tax,
+        promotionDiscount: order.promotionDiscount,
+        discountLines: order.discountLines,
+        total: order.total,
+        createdAt: order.createdAt
+      });
+    } catch (error: any) {
+      this.logger.error(`Order creation error: ${error}`);
+      res.status(500).json({ message: 'Failed to create order', error: error.message });
+    }
+  }
+
+  /**
+   * Get order by ID
+   */
+  private async getOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      // Find by orderId or MongoDB ID
+      const order = await this.orderModel.findOne({
+        $or: [
+          { orderId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!order) {
+        res.status(404).json({ message: 'Order not found' });
+        return;
+      }
+      
+      res.status(200).json({
+        orderId: order.orderId,
+        customerId: order.customerId,
+        status: order.status,
+        items: order.items,
+        subtotal: order.subtotal,
+        tax: order.tax,
+        inclusiveTax: order.inclusiveTax,
+        taxBreakdown: order.taxBreakdown,
+        isTaxExempt: order.isTaxExempt,
+        discount: order.discount,
+        promotionDiscount: order.promotionDiscount,
+        discountLines: order.discountLines,
+        couponCodes: order.couponCodes,
+        total: order.total,
+        paymentStatus: order.paymentStatus,
+        paymentMethod: order.paymentMethod,
+        tenders: order.tenders,
+        amountPaid: order.amountPaid,
+        balanceDue: parseFloat(Math.max(0, order.total - order.amountPaid).toFixed(2)),
+        shippingAddress: order.shippingAddress,
+        billingAddress: order.billingAddress,
+        notes: order.notes,
+        createdAt: order.createdAt,
+        confirmedAt: order.confirmedAt,
+        fulfilledAt: order.fulfilledAt,
+        deliveredAt: order.deliveredAt,
+        cancelledAt: order.cancelledAt,
+        isOfflineOrder: order.isOfflineOrder,
+        deliveryId: order.deliveryId
+      });
+    } catch (error) {
+      this.logger.error(`Get order error: ${error}`);
+      res.status(500).json({ message: 'Failed to get order' });
+    }
+  }
+
+  /**
+   * Get orders for a customer
+   */
+  private async getCustomerOrders(req: Request, res: Response): Promise<void> {
+    try {
+      const { customerId } = req.params;
+      const { status, limit = 10, page = 1 } = req.query;
+      
+      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+      
+      // Build query
+      const query: any = { customerId };
+      
+      if (status) {
+        query.status = status;
+      }
+      
+      // Get orders
+      const orders = await this.orderModel
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(parseInt(limit as string));
+      
+      // Get total count
+      const total = await this.orderModel.countDocuments(query);
+      
+      const credit = await this.customerCreditModel.findOne({ customerId });
+      
+      res.status(200).json({
+        storeCredit: {
+          balance: credit ? credit.balance : 0,
+          currency: credit ? credit.currency : 'USD'
+        },
+        orders: orders.map(order => ({
+          orderId: order.orderId,
+          status: order.status,
+          total: order.total,
+          paymentStatus: order.paymentStatus,
+          createdAt: order.createdAt,
+          itemCount: order.items.length
+        })),
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total,
+          pages: Math.ceil(total / parseInt(limit as string))
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Get customer orders error: ${error}`);
+      res.status(500).json({ message: 'Failed to get customer orders' });
+    }
+  }
+
+  /**
+   * Update an entire order
+   */
+  private async updateOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const {
+        items,
+        shippingAddress,
+        billingAddress,
+        notes,
+        metadata,
+        giftMessage,
+        returnPolicy
+      } = req.body;
+      
+      // Find order
+      const order = await this.orderModel.findOne({
+        $or: [
+          { orderId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!order) {
+        res.status(404).json({ message: 'Order not found' });
+        return;
+      }
+      
+      // Only allow updates if order is in CART or PENDING status
+      if (![OrderStatus.CART, OrderStatus.PENDING].includes(order.status as OrderStatus)) {
+        res.status(400).json({ 
+          message: `Cannot update order in ${order.status} status` 
+        });
+        return;
+      }
+      
+      // Update fields if provided
+      if (items) {
+        // Format items
+        order.items = items.map((item: any) => ({
+          productId: item.productId,
+          sku: item.sku,
+          name: item.name,
+          category: item.category,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          discount: item.discount || 0,
+          promotionDiscount: 0,
+          totalPrice: (item.quantity * item.unitPrice) - (item.discount || 0),
+          taxClass: item.taxClass,
+          taxRate: item.taxRate,
+          taxes: [],
+          taxAmount: 0,
+          notes: item.notes,
+          metadata: item.metadata
+        }));
+      }
+      
+      if (shippingAddress) order.shippingAddress = shippingAddress;
+      if (billingAddress) order.billingAddress = billingAddress;
+      if (notes) order.notes = notes;
+      if (metadata) order.metadata = { ...order.metadata, ...metadata };
+      if (giftMessage) order.giftMessage = giftMessage;
+      if (returnPolicy) order.returnPolicy = returnPolicy;
+      
+      // Re-evaluate promotions against the new items
+      await this.recalculateOrder(order);
+      
+      await order.save();
+      
+      // Publish order updated event
+      await this.messageBus.publish('order', 'order.updated', {
+        orderId: order.orderId,
+        items: order.items,
+        total: order.total,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(200).json({
+        orderId: order.orderId,
+        status: order.status,
+        items: order.items,
+        subtotal: order.subtotal,
+        tax: order.tax,
+        discount: order.discount,
+        total: order.total,
+        shippingAddress: order.shippingAddress,
+        billingAddress: order.billingAddress,
+        notes: order.notes
+      });
+    } catch (error) {
+      this.logger.error(`Update order error: ${error}`);
+      res.status(500).json({ message: 'Failed to update order' });
+    }
+  }
+
+  /**
+   * Add an item to an order
+   */
+  private async addOrderItem(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { 
+        productId, 
+        sku, 
+        name, 
+        category, 
+        quantity, 
+        unitPrice, 
+        discount = 0, 
+        taxClass, 
+        taxRate, 
+        modifiers: selections = [], 
+        serialNumbers = [],
+        notes, 
+        metadata 
+      } = req.body;
+      
+      // Validate input
+      if (!productId || !sku || !name || !quantity || !unitPrice) {
+        res.status(400).json({ message: 'Product details are required' });
+        return;
+      }
+      
+      // Validate and price the chosen modifiers against the product's groups
+      const resolved = await this.resolveModifiers(productId, selections);
+      
+      if ('error' in resolved) {
+        res.status(400).json({ message: resolved.error });
+        return;
+      }
+      
+      // Serialized items record exactly the units scanned, one serial per unit
+      if (!Array.isArray(serialNumbers) || (serialNumbers.length > 0 && serialNumbers.length !== quantity)) {
+        res.status(400).json({ message: 'Scan one serial number per unit' });
+        return;
+      }
+      
+      if (new Set(serialNumbers).size !== serialNumbers.length) {
+        res.status(400).json({ message: 'Serial numbers must be unique' });
+        return;
+      }
+      
+      const modifiers = resolved.modifiers;
+      const linePrice = parseFloat((unitPrice + modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0)).toFixed(2));
+      
+      if (linePrice < 0) {
+        res.status(400).json({ message: 'Modifiers cannot reduce the price below zero' });
+        return;
+      }
+      
+      // Find order
+      const order = await this.orderModel.findOne({
+        $or: [
+          { orderId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!order) {
+        res.status(404).json({ message: 'Order not found' });
+        return;
+      }
+      
+      // Only allow updates if order is in CART or PENDING status
+      if (![OrderStatus.CART, OrderStatus.PENDING].includes(order.status as OrderStatus)) {
+        res.status(400).json({ 
+          message: `Cannot add items to order in ${order.status} status` 
+        });
+        return;
+      }
+      
+      const scanned = order.items.flatMap(item => item.serialNumbers || []);
+      const duplicate = (serialNumbers as string[]).find(serial => scanned.includes(serial));
+      
+      if (duplicate) {
+        res.status(400).json({ message: `Serial number ${duplicate} is already on this order` });
+        return;
+      }
+      
+      // Calculate total price
+      const totalPrice = (quantity * linePrice) - discount;
+      
+      // Check if item already exists; the same product with other modifiers is a separate line
+      const modifierKey = this.getModifierKey(modifiers);
+      const existingItemIndex = order.items.findIndex(item => 
+        item.productId === productId && item.sku === sku && this.getModifierKey(item.modifiers || []) === modifierKey
+      );
+      
+      if (existingItemIndex >= 0) {
+        // Update existing item
+        const existingItem = order.items[existingItemIndex];
+        existingItem.quantity += quantity;
+        existingItem.totalPrice = (existingItem.quantity * existingItem.unitPrice) - existingItem.discount;
+        
+        if (serialNumbers.length > 0) {
+          existingItem.serialNumbers = [...(existingItem.serialNumbers || []), ...serialNumbers];
+        }
+        
+        if (notes) existingItem.notes = notes;
+        if (metadata) existingItem.metadata = { ...existingItem.metadata, ...metadata };
+      } else {
+        // Add new item
+        order.items.push({
+          productId,
+          sku,
+          name,
+          category,
+          quantity,
+          unitPrice: linePrice,
+          discount,
+          promotionDiscount: 0,
+          totalPrice,
+          taxClass,
+          taxRate,
+          taxes: [],
+          taxAmount: 0,
+          basePrice: modifiers.length > 0 ? unitPrice : undefined,
+          modifiers,
+          serialNumbers: serialNumbers.length > 0 ? serialNumbers : undefined,
+          notes,
+          metadata
+        });
+      }
+      
+      // Evaluate promotions against the updated items
+      await this.recalculateOrder(order);
+      
+      await order.save();
+      
+      // If order is empty cart, update status to PENDING
+      if (order.status === OrderStatus.CART && order.items.length > 0) {
+        order.status = OrderStatus.PENDING;
+        await order.save();
+        
+        // Publish order created event
+        await this.messageBus.publish('order', 'order.created', {
+          orderId: order.orderId,
+          customerId: order.customerId,
+          items: order.items,
+          total: order.total,
+          storeId: order.storeId,
+          timestamp: new Date().toISOString()
+        });
+      } else {
+        // Publish order updated event
+        await this.messageBus.publish('order', 'order.updated', {
+          orderId: order.orderId,
+          items: order.items,
+          total: order.total,
+          timestamp: new Date().toISOString()
+        });
+      }
+      
+      res.status(200).json({
+        orderId: order.orderId,
+        status: order.status,
+        items: order.items,
+        subtotal: order.subtotal,
+        tax: order.tax,
+        discount: order.discount,
+        promotionDiscount: order.promotionDiscount,
+        discountLines: order.discountLines,
+        total: order.total
+      });
+    } catch (error) {
+      this.logger.error(`Add order item error: ${error}`);
+      res.status(500).json({ message: 'Failed to add item to order' });
+    }
+  }
+
+  /**
+   * Get the kitchen ticket for an order: lines, modifiers and notes without prices
+   */
+  private async getKitchenTicket(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      const order = await this.orderModel.findOne({
+        $or: [
+          { orderId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!order) {
+        res.status(404).json({ message: 'Order not found' });
+        return;
+      }
+      
+      const lines = order.items.map(item => ({
+        quantity: item.quantity,
+        name: item.name,
+        sku: item.sku,
+        modifiers: (item.modifiers || []).map(modifier => `${modifier.groupName}: ${modifier.name}`),
+        notes: item.notes
+      }));
+      
+      res.status(200).json({
+        orderId: order.orderId,
+        storeId: order.storeId,
+        status: order.status,
+        lines,
+        // Plain-text rendering for ticket printers
+        text: lines.map(line => [
+          `${line.quantity} x ${line.name}`,
+          ...line.modifiers.map(modifier => `    + ${modifier}`),
+          ...(line.notes ? [`    ! ${line.notes}`] : [])
+        ].join('\n')).join('\n'),
+        createdAt: order.createdAt
+      });
+    } catch (error) {
+      this.logger.error(`Get kitchen ticket error: ${error}`);
+      res.status(500).json({ message: 'Failed to get kitchen ticket' });
+    }
+  }
+
+  /**
+   * Update an item in an order
+   */
+  private async updateOrderItem(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, itemId } = req.params;
+      const { quantity, discount, notes, metadata } = req.body;
+      
+      // Find order
+      const order = await this.orderModel.findOne({
+        $or: [
+          { orderId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!order) {
+        res.status(404).json({ message: 'Order not found' });
+        return;
+      }
+      
+      // Only allow updates if order is in CART or PENDING status
+      if (![OrderStatus.CART, OrderStatus.PENDING].includes(order.status as OrderStatus)) {
+        res.status(400).json({ 
+          message: `Cannot update items in order with ${order.status} status` 
+        });
+        return;
+      }
+      
+      // Find the item
+      // Lines of one product can differ by modifiers, so only the line ID is unambiguous
+      const itemIndex = order.items.findIndex(item => item._id?.toString() === itemId);
+      
+      if (itemIndex === -1) {
+        res.status(404).json({ message: 'Item not found in order' });
+        return;
+      }
+      
+      // Update item
+      const item = order.items[itemIndex];
+      
+      // Serialized lines change by adding or removing scanned units
+      if (quantity !== undefined && quantity > 0 && item.serialNumbers && item.serialNumbers.length > 0 && quantity !== item.quantity) {
+        res.status(400).json({ message: 'Remove the line and scan the serial numbers again to change its quantity' });
+        return;
+      }
+      
+      if (quantity !== undefined) {
+        if (quantity <= 0) {
+          // Remove item if quantity is 0 or negative
+          order.items.splice(itemIndex, 1);
+        } else {
+          item.quantity = quantity;
+          item.totalPrice = (quantity * item.unitPrice) - (discount !== undefined ? discount : item.discount);
+        }
+      }
+      
+      if (discount !== undefined) {
+        item.discount = discount;
+        item.totalPrice = (item.quantity * item.unitPrice) - discount;
+      }
+      
+      if (notes !== undefined) item.notes = notes;
+      if (metadata !== undefined) item.metadata = { ...item.metadata, ...metadata };
+      
+      // Evaluate promotions against the updated items
+      await this.recalculateOrder(order);
+      
+      await order.save();
+      
+      // Check if order is now empty
+      if (order.items.length === 0 && order.status !== OrderStatus.CART) {
+        order.status = OrderStatus.CART;
+        await order.save();
+      }
+      
+      // Publish order updated event
+      await this.messageBus.publish('order', 'order.updated', {
+        orderId: order.orderId,
+        items: order.items,
+        total: order.total,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(200).json({
+        orderId: order.orderId,
+        status: order.status,
+        items: order.items,
+        subtotal: order.subtotal,
+        tax: order.tax,
+        discount: order.discount,
+        promotionDiscount: order.promotionDiscount,
+        discountLines: order.discountLines,
+        total: order.total
+      });
+    } catch (error) {
+      this.logger.error(`Update order item error: ${error}`);
+      res.status(500).json({ message: 'Failed to update item in order' });
+    }
+  }
+
+  /**
+   * Remove an item from an order
+   */
+  private async removeOrderItem(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, itemId } = req.params;
+      
+      // Find order
+      const order = await this.orderModel.findOne({
+        $or: [
+          { orderId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!order) {
+        res.status(404).json({ message: 'Order not found' });
+        return;
+      }
+      
+      // Only allow updates if order is in CART or PENDING status
+      if (![OrderStatus.CART, OrderStatus.PENDING].includes(order.status as OrderStatus)) {
+        res.status(400).json({ 
+          message: `Cannot remove items from order in ${order.status} status` 
+        });
+        return;
+      }
+      
+      // Find the item
+      // Lines of one product can differ by modifiers, so only the line ID is unambiguous
+      const itemIndex = order.items.findIndex(item => item._id?.toString() === itemId);
+      
+      if (itemIndex === -1) {
+        res.status(404).json({ message: 'Item not found in order' });
+        return;
+      }
+      
+      // Remove item
+      order.items.splice(itemIndex, 1);
+      
+      // Check if order is now empty
+      if (order.items.length === 0 && order.status !== OrderStatus.CART) {
+        order.status = OrderStatus.CART;
+      }
+      
+      // Removing an item can invalidate promotions
+      await this.recalculateOrder(order);
+      
+      await order.save();
+      
+      // Publish order updated event
+      await this.messageBus.publish('order', 'order.updated', {
+        orderId: order.orderId,
+        items: order.items,
+        total: order.total,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(200).json({
+        orderId: order.orderId,
+        status: order.status,
+        items: order.items,
+        subtotal: order.subtotal,
+        tax: order.tax,
+        discount: order.discount,
+        promotionDiscount: order.promotionDiscount,
+        discountLines: order.discountLines,
+        total: order.total
+      });
+    } catch (error) {
+      this.logger.error(`Remove order item error: ${error}`);
+      res.status(500).json({ message: 'Failed to remove item from order' });
+    }
+  }
+
+  /**
+   * Confirm an order
+   */
+  private async confirmOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { 
+        paymentMethod,
+        shippingAddress,
+        billingAddress,
+        notes
+      } = req.body;
+      
+      // Find order
+      const order = await this.orderModel.findOne({
+        $or: [
+          { orderId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!order) {
+        res.status(404).json({ message: 'Order not found' });
+        return;
+      }
+      
+      // Only allow confirmation if order is in PENDING status
+      if (order.status !== OrderStatus.PENDING) {
+        res.status(400).json({ 
+          message: `Cannot confirm order in ${order.status} status` 
+        });
+        return;
+      }
+      
+      // Validate order has items
+      if (order.items.length === 0) {
+        res.status(400).json({ message: 'Cannot confirm an empty order' });
+        return;
+      }
+      
+      // Update order details
+      if (paymentMethod) order.paymentMethod = paymentMethod;
+      if (shippingAddress) order.shippingAddress = shippingAddress;
+      if (billingAddress) order.billingAddress = billingAddress;
+      if (notes) order.notes = notes;
+      
+      // Consume coupon usage for the promotions applied to this order
+      const couponsRedeemed = await this.redeemCouponPromotions(this.getCouponPromotionIds(order));
+      
+      if (!couponsRedeemed) {
+        res.status(400).json({ message: 'Coupon usage limit has been reached' });
+        return;
+      }
+      
+      // Update status
+      order.status = OrderStatus.CONFIRMED;
+      order.confirmedAt = new Date();
+      
+      await order.save();
+      
+      // Publish order confirmed event
+      await this.messageBus.publish('order', 'order.confirmed', {
+        orderId: order.orderId,
+        customerId: order.customerId,
+        items: order.items.map(item => ({
+          productId: item.productId,
+          sku: item.sku,
+          quantity: item.quantity,
+          modifiers: item.modifiers,
+          serialNumbers: item.serialNumbers
+        })),
+        total: order.total,
+        tax: order.tax,
+        taxBreakdown: order.taxBreakdown,
+        storeId: order.storeId,
+        paymentMethod: order.paymentMethod,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(200).json({
+        orderId: order.orderId,
+        status: order.status,
+        paymentMethod: order.paymentMethod,
+        subtotal: order.subtotal,
+        tax: order.tax,
+        discount: order.discount,
+        total: order.total,
+        confirmedAt: order.confirmedAt
+      });
+    } catch (error) {
+      this.logger.error(`Confirm order error: ${error}`);
+      res.status(500).json({ message: 'Failed to confirm order' });
+    }
   }
 
   /**
-   * Initialize message bus handlers
+   * Cancel an order
    */
-  private async initMessageHandlers(): Promise<void> {
-    await this.messageBus.connect();
-    
-    // Create exchanges
-    await this.messageBus.createExchange('order', 'topic');
-    
-    // Create queues
-    await this.messageBus.createQueue('order.payment.events', 'payment', 'payment.#');
-    await this.messageBus.createQueue('order.inventory.events', 'inventory', 'inventory.#');
-    await this.messageBus.createQueue('order.delivery.events', 'delivery', 'delivery.#');
-    
-    // Listen for payment events
-    await this.messageBus.subscribe('order.payment.events', async (content, msg) => {
-      this.logger.info(`Received payment event: ${msg.fields.routingKey}`, { content });
+  private async cancelOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { reason } = req.body;
       
-      // Handle payment events
-      switch (msg.fields.routingKey) {
-        case 'payment.completed':
-          await this.handlePaymentCompleted(content);
+      // Find order
+      const order = await this.orderModel.findOne({
+        $or: [
+          { orderId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!order) {
+        res.status(404).json({ message: 'Order not found' });
+        return;
+      }
+      
+      // Only allow cancellation in certain statuses
+      const allowedStatuses = [
+        OrderStatus.HELD,
+        OrderStatus.PENDING, 
+        OrderStatus.CONFIRMED, 
+        OrderStatus.PROCESSING
+      ];
+      
+      if (!allowedStatuses.includes(order.status as OrderStatus)) {
+        res.status(400).json({ 
+          message: `Cannot cancel order in ${order.status} status` 
+        });
+        return;
+      }
+      
+      // Coupon uses are only consumed once an order is confirmed
+      if (![OrderStatus.HELD, OrderStatus.PENDING].includes(order.status)) {
+        await this.releaseCouponPromotions(this.getCouponPromotionIds(order));
+      }
+      
+      // Update status
+      order.status = OrderStatus.CANCELLED;
+      order.cancelledAt = new Date();
+      order.notes = (order.notes || '') + `\nCancelled: ${reason || 'No reason provided'}`;
+      
+      await order.save();
+      
+      // Publish order cancelled event
+      await this.messageBus.publish('order', 'order.cancelled', {
+        orderId: order.orderId,
+        customerId: order.customerId,
+        storeId: order.storeId,
+        items: order.items.map(item => ({
+          productId: item.productId,
+          sku: item.sku,
+          quantity: item.quantity
+        })),
+        total: order.total,
+        reason,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(200).json({
+        orderId: order.orderId,
+        status: order.status,
+        cancelledAt: order.cancelledAt,
+        message: 'Order cancelled successfully'
+      });
+    } catch (error) {
+      this.logger.error(`Cancel order error: ${error}`);
+      res.status(500).json({ message: 'Failed to cancel order' });
+    }
+  }
+
+  /**
+   * Update order status
+   */
+  private async updateStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { status, notes } = req.body;
+      
+      // Validate status
+      if (!Object.values(OrderStatus).includes(status)) {
+        res.status(400).json({ 
+          message: `Invalid status. Valid statuses: ${Object.values(OrderStatus).join(', ')}` 
+        });
+        return;
+      }
+      
+      // Find order
+      const order = await this.orderModel.findOne({
+        $or: [
+          { orderId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!order) {
+        res.status(404).json({ message: 'Order not found' });
+        return;
+      }
+      
+      // Check for valid state transitions
+      const isValidTransition = this.isValidStatusTransition(order.status as OrderStatus, status);
+      
+      if (!isValidTransition) {
+        res.status(400).json({ 
+          message: `Invalid status transition from ${order.status} to ${status}` 
+        });
+        return;
+      }
+      
+      // Update status
+      const oldStatus = order.status;
+      order.status = status;
+      
+      // Add notes if provided
+      if (notes) {
+        order.notes = (order.notes || '') + `\nStatus updated from ${oldStatus} to ${status}: ${notes}`;
+      }
+      
+      // Update timestamp based on status
+      switch (status) {
+        case OrderStatus.CONFIRMED:
+          order.confirmedAt = new Date();
           break;
-        case 'payment.failed':
-          await this.handlePaymentFailed(content);
+        case OrderStatus.FULFILLED:
+          order.fulfilledAt = new Date();
           break;
-        case 'payment.refunded':
-          await this.handlePaymentRefunded(content);
+        case OrderStatus.DELIVERED:
+          order.deliveredAt = new Date();
+          break;
+        case OrderStatus.CANCELLED:
+          order.cancelledAt = new Date();
           break;
       }
-    });
+      
+      await order.save();
+      
+      // Publish status update event
+      await this.messageBus.publish('order', `order.status.${status.toLowerCase()}`, {
+        orderId: order.orderId,
+        oldStatus,
+        newStatus: status,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(200).json({
+        orderId: order.orderId,
+        status: order.status,
+        message: `Order status updated to ${status}`
+      });
+    } catch (error) {
+      this.logger.error(`Update order status error: ${error}`);
+      res.status(500).json({ message: 'Failed to update order status' });
+    }
+  }
+
+  /**
+   * Check if a status transition is valid
+   */
+  private isValidStatusTransition(currentStatus: OrderStatus, newStatus: string): boolean {
+    // Define valid state transitions
+    const validTransitions: Record<OrderStatus, OrderStatus[]> = {
+      [OrderStatus.CART]: [OrderStatus.PENDING, OrderStatus.CANCELLED],
+      [OrderStatus.PENDING]: [OrderStatus.CONFIRMED, OrderStatus.CANCELLED],
+      [OrderStatus.CONFIRMED]: [OrderStatus.PROCESSING, OrderStatus.CANCELLED],
+      [OrderStatus.PROCESSING]: [OrderStatus.FULFILLED, OrderStatus.CANCELLED],
+      [OrderStatus.FULFILLED]: [OrderStatus.DELIVERED, OrderStatus.CANCELLED],
+      [OrderStatus.DELIVERED]: [OrderStatus.REFUNDED],
+      [OrderStatus.CANCELLED]: [OrderStatus.REFUNDED],
+      [OrderStatus.REFUNDED]: [],
+      [OrderStatus.HELD]: [OrderStatus.CANCELLED]
+    };
     
-    // Listen for inventory events
-    await this.messageBus.subscribe('order.inventory.events', async (content, msg) => {
-      this.logger.info(`Received inventory event: ${msg.fields.routingKey}`, { content });
+    return validTransitions[currentStatus].includes(newStatus as OrderStatus);
+  }
+
+  /**
+   * Search orders
+   */
+  private async searchOrders(req: Request, res: Response): Promise<void> {
+    try {
+      const {
+        status,
+        customerId,
+        startDate,
+        endDate,
+        minTotal,
+        maxTotal,
+        paymentStatus,
+        isOfflineOrder,
+        storeId,
+        page = 1,
+        limit = 10,
+        sortBy = 'createdAt',
+        sortOrder = 'desc'
+      } = req.query;
       
-      // Handle inventory events
-      switch (msg.fields.routingKey) {
-        case 'inventory.allocated':
-          await this.handleInventoryAllocated(content);
-          break;
-        case 'inventory.allocation.failed':
-          await this.handleInventoryAllocationFailed(content);
-          break;
+      // Build query
+      const query: any = {};
+      
+      if (status) query.status = status;
+      if (customerId) query.customerId = customerId;
+      if (paymentStatus) query.paymentStatus = paymentStatus;
+      if (isOfflineOrder !== undefined) query.isOfflineOrder = isOfflineOrder === 'true';
+      if (storeId) query.storeId = storeId;
+      
+      // Date range
+      if (startDate || endDate) {
+        query.createdAt = {};
+        if (startDate) query.createdAt.$gte = new Date(startDate as string);
+        if (endDate) query.createdAt.$lte = new Date(endDate as string);
       }
-    });
-    
-    // Listen for delivery events
-    await this.messageBus.subscribe('order.delivery.events', async (content, msg) => {
-      this.logger.info(`Received delivery event: ${msg.fields.routingKey}`, { content });
       
-      // Handle delivery events
-      switch (msg.fields.routingKey) {
-        case 'delivery.assigned':
-          await this.handleDeliveryAssigned(content);
-          break;
-        case 'delivery.completed':
-          await this.handleDeliveryCompleted(content);
-          break;
+      // Total range
+      if (minTotal || maxTotal) {
+        query.total = {};
+        if (minTotal) query.total.$gte = parseFloat(minTotal as string);
+        if (maxTotal) query.total.$lte = parseFloat(maxTotal as string);
       }
-    });
+      
+      // Parse pagination
+      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+      
+      // Build sort
+      const sort: any = {};
+      sort[sortBy as string] = sortOrder === 'asc' ? 1 : -1;
+      
+      // Get orders
+      const orders = await this.orderModel
+        .find(query)
+        .sort(sort)
+        .skip(skip)
+        .limit(parseInt(limit as string));
+      
+      // Get total count
+      const total = await this.orderModel.countDocuments(query);
+      
+      res.status(200).json({
+        orders: orders.map(order => ({
+          orderId: order.orderId,
+          customerId: order.customerId,
+          status: order.status,
+          total: order.total,
+          paymentStatus: order.paymentStatus,
+          createdAt: order.createdAt,
+          itemCount: order.items.length,
+          isOfflineOrder: order.isOfflineOrder
+        })),
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total,
+          pages: Math.ceil(total / parseInt(limit as string))
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Search orders error: ${error}`);
+      res.status(500).json({ message: 'Failed to search orders' });
+    }
   }
 
   /**
-   * Basic JWT authentication middleware
-   * In a real implementation, this would validate against the Auth service
+   * Get order statistics
    */
-  private authenticate(req: Request, res: Response, next: Function): void {
-    // This is a simplified version that assumes the API Gateway has already
-    // performed authentication. In a real implementation, this would
-    // validate the JWT token and set user info
-    
-    // Simulate authenticated user for demo purposes
-    (req as any).user = {
-      userId: 'user123',
-      roles: ['user']
-    };
-    
-    next();
+  private async getOrderStats(req: Request, res: Response): Promise<void> {
+    try {
+      const { startDate, endDate, storeId } = req.query;
+      
+      // Build date range
+      const dateRange: any = {};
+      if (startDate) dateRange.$gte = new Date(startDate as string);
+      if (endDate) dateRange.$lte = new Date(endDate as string);
+      
+      // Build query
+      const query: any = {};
+      if (Object.keys(dateRange).length > 0) {
+        query.createdAt = dateRange;
+      }
+      if (storeId) {
+        query.storeId = storeId;
+      }
+      
+      // Count orders by status
+      const ordersByStatus = await this.orderModel.aggregate([
+        { $match: query },
+        { $group: {
+          _id: '$status',
+          count: { $sum: 1 },
+          total: { $sum: '$total' }
+        }},
+        { $sort: { count: -1 } }
+      ]);
+      
+      // Calculate revenue
+      const revenue = await this.orderModel.aggregate([
+        { 
+          $match: { 
+            ...query, 
+            status: { $in: [OrderStatus.FULFILLED, OrderStatus.DELIVERED] } 
+          } 
+        },
+        { 
+          $group: {
+            _id: null,
+            totalRevenue: { $sum: '$total' },
+            orderCount: { $sum: 1 },
+            averageOrderValue: { $avg: '$total' }
+          } 
+        }
+      ]);
+      
+      // Calculate daily sales for the period
+      const dailySales = await this.orderModel.aggregate([
+        { 
+          $match: { 
+            ...query, 
+            status: { $in: [OrderStatus.FULFILLED, OrderStatus.DELIVERED] } 
+          } 
+        },
+        {
+          $group: {
+            _id: { 
+              $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } 
+            },
+            sales: { $sum: '$total' },
+            orders: { $sum: 1 }
+          }
+        },
+        { $sort: { _id: 1 } }
+      ]);
+      
+      // Top products
+      const topProducts = await this.orderModel.aggregate([
+        { 
+          $match: { 
+            ...query, 
+            status: { $nin: [OrderStatus.CANCELLED, OrderStatus.CART] } 
+          } 
+        },
+        { $unwind: '$items' },
+        { 
+          $group: {
+            _id: { 
+              productId: '$items.productId',
+              name: '$items.name',
+              sku: '$items.sku'
+            },
+            totalQuantity: { $sum: '$items.quantity' },
+            totalRevenue: { $sum: '$items.totalPrice' },
+            orderCount: { $sum: 1 }
+          } 
+        },
+        { $sort: { totalQuantity: -1 } },
+        { $limit: 10 }
+      ]);
+      
+      res.status(200).json({
+        orderCount: {
+          total: await this.orderModel.countDocuments(query),
+          byStatus: ordersByStatus.reduce((acc: any, curr: any) => {
+            acc[curr._id] = { count: curr.count, total: curr.total };
+            return acc;
+          }, {})
+        },
+        revenue: revenue.length > 0 ? {
+          total: revenue[0].totalRevenue,
+          orderCount: revenue[0].orderCount,
+          averageOrderValue: revenue[0].averageOrderValue
+        } : {
+          total: 0,
+          orderCount: 0,
+          averageOrderValue: 0
+        },
+        dailySales: dailySales.map((day: any) => ({
+          date: day._id,
+          sales: day.sales,
+          orders: day.orders
+        })),
+        topProducts: topProducts.map((product: any) => ({
+          productId: product._id.productId,
+          name: product._id.name,
+          sku: product._id.sku,
+          totalQuantity: product.totalQuantity,
+          totalRevenue: product.totalRevenue,
+          orderCount: product.orderCount
+        }))
+      });
+    } catch (error) {
+      this.logger.error(`Get order stats error: ${error}`);
+      res.status(500).json({ message: 'Failed to get order statistics' });
+    }
   }
 
   /**
-   * Create a new order
+   * Apply a coupon code to an order
    */
-  private async createOrder(req: Request, res: Response): Promise<void> {
+  private async applyCoupon(req: Request, res: Response): Promise<void> {
     try {
-      const { 
-        customerId, 
-        items = [], 
-        storeId, 
-        employeeId,
-        isOfflineOrder = false,
-        metadata = {}
-      } = req.body;
+      const { id } = req.params;
+      const { code } = req.body;
       
-      // Create a unique order ID
-      const orderId = uuidv4();
+      if (!code) {
+        res.status(400).json({ message: 'Coupon code is required' });
+        return;
+      }
+      
+      // Find order
+      const order = await this.orderModel.findOne({
+        $or: [
+          { orderId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!order) {
+        res.status(404).json({ message: 'Order not found' });
+        return;
+      }
+      
+      if (![OrderStatus.CART, OrderStatus.PENDING].includes(order.status as OrderStatus)) {
+        res.status(400).json({ 
+          message: `Cannot apply coupons to order in ${order.status} status` 
+        });
+        return;
+      }
       
-      // Format and validate items
-      const formattedItems = items.map((item: any) => ({
-        productId: item.productId,
-        sku: item.sku,
-        name: item.name,
-        quantity: item.quantity,
-        unitPrice: item.unitPrice,
-        discount: item.discount || 0,
-        totalPrice: (item.quantity * item.unitPrice) - (item.discount || 0)
-      }));
+      const couponCode = String(code).trim().toUpperCase();
       
-      // Create order
-      const order = new this.orderModel({
-        orderId,
-        customerId,
-        status: OrderStatus.CART,
-        items: formattedItems,
-        storeId,
-        employeeId,
-        isOfflineOrder,
-        metadata
+      // Coupon must belong to a usable promotion of the order's store
+      const promotion = await this.promotionModel.findOne({
+        storeId: order.storeId,
+        couponCode,
+        isActive: true
       });
       
-      await order.save();
+      if (!promotion || !this.isPromotionActive(promotion, new Date())) {
+        res.status(404).json({ message: 'Coupon code is not valid' });
+        return;
+      }
       
-      // If the order is offline, mark it as pending
-      if (isOfflineOrder && items.length > 0) {
-        order.status = OrderStatus.PENDING;
-        await order.save();
-        
-        // Publish order created event
-        await this.messageBus.publish('order', 'order.created.offline', {
-          orderId: order.orderId,
-          customerId: order.customerId,
-          items: order.items,
-          total: order.total,
-          storeId: order.storeId,
-          timestamp: new Date().toISOString()
-        });
+      if (promotion.usageLimit && promotion.usageCount >= promotion.usageLimit) {
+        res.status(400).json({ message: 'Coupon usage limit has been reached' });
+        return;
       }
       
-      res.status(201).json({
+      if (!order.couponCodes.includes(couponCode)) {
+        order.couponCodes.push(couponCode);
+      }
+      
+      await this.recalculateOrder(order);
+      await order.save();
+      
+      res.status(200).json({
         orderId: order.orderId,
-        status: order.status,
-        items: order.items,
+        couponCodes: order.couponCodes,
         subtotal: order.subtotal,
         tax: order.tax,
-        total: order.total,
-        createdAt: order.createdAt
+        discount: order.discount,
+        promotionDiscount: order.promotionDiscount,
+        discountLines: order.discountLines,
+        total: order.total
       });
-    } catch (error: any) {
-      this.logger.error(`Order creation error: ${error}`);
-      res.status(500).json({ message: 'Failed to create order', error: error.message });
+    } catch (error) {
+      this.logger.error(`Apply coupon error: ${error}`);
+      res.status(500).json({ message: 'Failed to apply coupon' });
     }
   }
 
   /**
-   * Get order by ID
+   * Remove a coupon code from an order
    */
-  private async getOrder(req: Request, res: Response): Promise<void> {
+  private async removeCoupon(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
+      const { id, code } = req.params;
       
-      // Find by orderId or MongoDB ID
+      // Find order
       const order = await this.orderModel.findOne({
         $or: [
           { orderId: id },
@@ -494,453 +2678,739 @@ export class OrderService extends BaseService {
         return;
       }
       
+      if (![OrderStatus.CART, OrderStatus.PENDING].includes(order.status as OrderStatus)) {
+        res.status(400).json({ 
+          message: `Cannot remove coupons from order in ${order.status} status` 
+        });
+        return;
+      }
+      
+      const couponCode = code.trim().toUpperCase();
+      order.couponCodes = order.couponCodes.filter(existing => existing !== couponCode);
+      
+      await this.recalculateOrder(order);
+      await order.save();
+      
       res.status(200).json({
         orderId: order.orderId,
-        customerId: order.customerId,
-        status: order.status,
-        items: order.items,
+        couponCodes: order.couponCodes,
         subtotal: order.subtotal,
         tax: order.tax,
         discount: order.discount,
-        total: order.total,
-        paymentStatus: order.paymentStatus,
-        paymentMethod: order.paymentMethod,
-        shippingAddress: order.shippingAddress,
-        billingAddress: order.billingAddress,
-        notes: order.notes,
-        createdAt: order.createdAt,
-        confirmedAt: order.confirmedAt,
-        fulfilledAt: order.fulfilledAt,
-        deliveredAt: order.deliveredAt,
-        cancelledAt: order.cancelledAt,
-        isOfflineOrder: order.isOfflineOrder,
-        deliveryId: order.deliveryId
+        promotionDiscount: order.promotionDiscount,
+        discountLines: order.discountLines,
+        total: order.total
       });
     } catch (error) {
-      this.logger.error(`Get order error: ${error}`);
-      res.status(500).json({ message: 'Failed to get order' });
+      this.logger.error(`Remove coupon error: ${error}`);
+      res.status(500).json({ message: 'Failed to remove coupon' });
     }
   }
 
   /**
-   * Get orders for a customer
+   * Create a promotion
    */
-  private async getCustomerOrders(req: Request, res: Response): Promise<void> {
+  private async createPromotion(req: Request, res: Response): Promise<void> {
     try {
-      const { customerId } = req.params;
-      const { status, limit = 10, page = 1 } = req.query;
+      const { storeId, name, type, value } = req.body;
       
-      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+      // Validate input
+      if (!storeId || !name || !type || value === undefined) {
+        res.status(400).json({ message: 'Store ID, name, type, and value are required' });
+        return;
+      }
       
-      // Build query
-      const query: any = { customerId };
+      const validationError = this.validatePromotion(req.body);
       
-      if (status) {
-        query.status = status;
+      if (validationError) {
+        res.status(400).json({ message: validationError });
+        return;
       }
       
-      // Get orders
-      const orders = await this.orderModel
+      const promotion = new this.promotionModel({
+        ...this.pickPromotionFields(req.body),
+        promotionId: uuidv4(),
+        storeId,
+        usageCount: 0,
+        createdBy: (req as any).user?.userId
+      });
+      
+      await promotion.save();
+      
+      res.status(201).json(promotion);
+    } catch (error: any) {
+      this.logger.error(`Create promotion error: ${error}`);
+      
+      if (error.code === 11000) {
+        res.status(409).json({ message: 'A promotion with this coupon code already exists for the store' });
+        return;
+      }
+      
+      res.status(500).json({ message: 'Failed to create promotion', error: error.message });
+    }
+  }
+
+  /**
+   * List promotions for a store
+   */
+  private async listPromotions(req: Request, res: Response): Promise<void> {
+    try {
+      const { storeId, isActive, type, couponCode, page = 1, limit = 20 } = req.query;
+      
+      if (!storeId) {
+        res.status(400).json({ message: 'Store ID is required' });
+        return;
+      }
+      
+      // Build query
+      const query: any = { storeId };
+      
+      if (isActive !== undefined) query.isActive = isActive === 'true';
+      if (type) query.type = type;
+      if (couponCode) query.couponCode = (couponCode as string).toUpperCase();
+      
+      const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+      
+      const promotions = await this.promotionModel
         .find(query)
-        .sort({ createdAt: -1 })
+        .sort({ priority: -1, createdAt: -1 })
         .skip(skip)
         .limit(parseInt(limit as string));
       
-      // Get total count
-      const total = await this.orderModel.countDocuments(query);
+      const total = await this.promotionModel.countDocuments(query);
+      
+      res.status(200).json({
+        promotions,
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total,
+          pages: Math.ceil(total / parseInt(limit as string))
+        }
+      });
+    } catch (error) {
+      this.logger.error(`List promotions error: ${error}`);
+      res.status(500).json({ message: 'Failed to list promotions' });
+    }
+  }
+
+  /**
+   * Get promotion by ID
+   */
+  private async getPromotion(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      const promotion = await this.promotionModel.findOne({ promotionId: id });
+      
+      if (!promotion) {
+        res.status(404).json({ message: 'Promotion not found' });
+        return;
+      }
+      
+      res.status(200).json(promotion);
+    } catch (error) {
+      this.logger.error(`Get promotion error: ${error}`);
+      res.status(500).json({ message: 'Failed to get promotion' });
+    }
+  }
+
+  /**
+   * Update a promotion
+   */
+  private async updatePromotion(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      const promotion = await this.promotionModel.findOne({ promotionId: id });
+      
+      if (!promotion) {
+        res.status(404).json({ message: 'Promotion not found' });
+        return;
+      }
+      
+      // Validate the promotion as it would look after the update
+      const validationError = this.validatePromotion({
+        ...promotion.toObject(),
+        ...req.body
+      });
+      
+      if (validationError) {
+        res.status(400).json({ message: validationError });
+        return;
+      }
+      
+      // Store scope and usage counters cannot be changed through updates
+      promotion.set(this.pickPromotionFields(req.body));
+      await promotion.save();
+      
+      res.status(200).json(promotion);
+    } catch (error: any) {
+      this.logger.error(`Update promotion error: ${error}`);
+      
+      if (error.code === 11000) {
+        res.status(409).json({ message: 'A promotion with this coupon code already exists for the store' });
+        return;
+      }
+      
+      res.status(500).json({ message: 'Failed to update promotion' });
+    }
+  }
+
+  /**
+   * Delete a promotion
+   */
+  private async deletePromotion(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      const result = await this.promotionModel.deleteOne({ promotionId: id });
+      
+      if (result.deletedCount === 0) {
+        res.status(404).json({ message: 'Promotion not found' });
+        return;
+      }
+      
+      res.status(200).json({ promotionId: id, message: 'Promotion deleted successfully' });
+    } catch (error) {
+      this.logger.error(`Delete promotion error: ${error}`);
+      res.status(500).json({ message: 'Failed to delete promotion' });
+    }
+  }
+
+  /**
+   * Pick the editable promotion fields from a request body
+   */
+  private pickPromotionFields(body: any): Record<string, any> {
+    const fields = [
+      'name', 'description', 'type', 'value', 'buyQuantity', 'getQuantity',
+      'productIds', 'skus', 'categories', 'minSubtotal', 'couponCode',
+      'usageLimit', 'startsAt', 'endsAt', 'schedule', 'priority',
+      'isStackable', 'isActive'
+    ];
+    
+    return fields.reduce((acc: Record<string, any>, field) => {
+      if (body[field] !== undefined) acc[field] = body[field];
+      return acc;
+    }, {});
+  }
+
+  /**
+   * Validate promotion rule settings, returning an error message if invalid
+   */
+  private validatePromotion(promotion: any): string | null {
+    if (!Object.values(PromotionType).includes(promotion.type)) {
+      return `Invalid promotion type. Valid types: ${Object.values(PromotionType).join(', ')}`;
+    }
+    
+    if (promotion.value < 0) {
+      return 'Promotion value cannot be negative';
+    }
+    
+    if (promotion.type === PromotionType.PERCENT_OFF && promotion.value > 100) {
+      return 'Percentage discount cannot exceed 100';
+    }
+    
+    if (promotion.type === PromotionType.BUY_X_GET_Y && 
+        (typeof promotion.value !== 'number' || !(promotion.value >= 0 && promotion.value <= 100))) {
+      return 'Buy-X-get-Y value must be the percentage off the free units, from 0 to 100';
+    }
+    
+    if (promotion.type === PromotionType.BUY_X_GET_Y && (!promotion.buyQuantity || !promotion.getQuantity)) {
+      return 'Buy quantity and get quantity are required for buy-X-get-Y promotions';
+    }
+    
+    if (promotion.startsAt && promotion.endsAt && new Date(promotion.startsAt) > new Date(promotion.endsAt)) {
+      return 'Promotion start date must be before its end date';
+    }
+    
+    const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+    const schedule = promotion.schedule;
+    
+    if (schedule && ((schedule.startTime && !timePattern.test(schedule.startTime)) || 
+        (schedule.endTime && !timePattern.test(schedule.endTime)))) {
+      return 'Schedule times must use HH:mm format';
+    }
+    
+    return null;
+  }
+
+  /**
+   * Check whether a promotion is within its validity window and schedule
+   */
+  private isPromotionActive(promotion: IPromotion, now: Date): boolean {
+    if (!promotion.isActive) return false;
+    if (promotion.startsAt && promotion.startsAt > now) return false;
+    if (promotion.endsAt && promotion.endsAt < now) return false;
+    
+    const schedule = promotion.schedule;
+    
+    if (schedule) {
+      // Happy-hour style schedules restrict the days and time of day
+      if (schedule.daysOfWeek && schedule.daysOfWeek.length > 0 && !schedule.daysOfWeek.includes(now.getDay())) {
+        return false;
+      }
+      
+      const currentTime = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+      
+      if (schedule.startTime && schedule.endTime && schedule.startTime > schedule.endTime) {
+        // Window spans midnight
+        if (currentTime < schedule.startTime && currentTime >= schedule.endTime) return false;
+      } else {
+        if (schedule.startTime && currentTime < schedule.startTime) return false;
+        if (schedule.endTime && currentTime >= schedule.endTime) return false;
+      }
+    }
+    
+    return true;
+  }
+
+  /**
+   * Check whether an order item falls within a promotion's product scope
+   */
+  private isItemEligible(promotion: IPromotion, item: IOrderItem): boolean {
+    const hasScope = promotion.productIds.length > 0 || 
+      promotion.skus.length > 0 || 
+      promotion.categories.length > 0;
+    
+    if (!hasScope) return true;
+    
+    return promotion.productIds.includes(item.productId) ||
+      promotion.skus.includes(item.sku) ||
+      (!!item.category && promotion.categories.includes(item.category));
+  }
+
+  /**
+   * Evaluate the store's promotions against an order and record discount lines
+   */
+  private async applyPromotions(order: IOrder): Promise<void> {
+    // Reset previously applied promotion discounts
+    order.items.forEach(item => {
+      item.promotionDiscount = 0;
+    });
+    order.discountLines = [];
+    order.promotionDiscount = 0;
+    
+    const now = new Date();
+    const promotions = order.storeId && order.items.length > 0
+      ? await this.promotionModel
+        .find({ storeId: order.storeId, isActive: true })
+        .sort({ priority: -1, createdAt: 1 })
+      : [];
+    
+    const applicable = promotions.filter(promotion => 
+      this.isPromotionActive(promotion, now) &&
+      (!promotion.couponCode || order.couponCodes.includes(promotion.couponCode)) &&
+      (!promotion.usageLimit || promotion.usageCount < promotion.usageLimit)
+    );
+    
+    const lineTotal = (item: IOrderItem) => 
+      Math.max(0, (item.quantity * item.unitPrice) - item.discount - item.promotionDiscount);
+    
+    // Item-level rules first, in priority order
+    for (const promotion of applicable) {
+      if (promotion.type === PromotionType.FIXED_AMOUNT_OFF) continue;
+      
+      for (const item of order.items) {
+        if (!this.isItemEligible(promotion, item)) continue;
+        if (!promotion.isStackable && item.promotionDiscount > 0) continue;
+        
+        let amount = 0;
+        
+        if (promotion.type === PromotionType.PERCENT_OFF) {
+          amount = lineTotal(item) * (promotion.value / 100);
+        } else if (promotion.type === PromotionType.BUY_X_GET_Y) {
+          // Value is the percentage off the "get" units (100 = free)
+          const setSize = (promotion.buyQuantity || 0) + (promotion.getQuantity || 0);
+          const discountedUnits = setSize > 0 
+            ? Math.floor(item.quantity / setSize) * (promotion.getQuantity || 0)
+            : 0;
+          amount = discountedUnits * item.unitPrice * ((promotion.value ?? 100) / 100);
+        }
+        
+        amount = parseFloat(Math.min(amount, lineTotal(item)).toFixed(2));
+        
+        if (amount <= 0) continue;
+        
+        item.promotionDiscount = parseFloat((item.promotionDiscount + amount).toFixed(2));
+        order.discountLines.push({
+          promotionId: promotion.promotionId,
+          name: promotion.name,
+          type: promotion.type,
+          couponCode: promotion.couponCode,
+          productId: item.productId,
+          sku: item.sku,
+          amount
+        });
+      }
+    }
+    
+    // Recalculate line totals after item-level discounts
+    order.items.forEach(item => {
+      item.totalPrice = parseFloat(lineTotal(item).toFixed(2));
+    });
+    
+    // Order-level threshold rules against the eligible items' totals
+    for (const promotion of applicable) {
+      if (promotion.type !== PromotionType.FIXED_AMOUNT_OFF) continue;
+      if (!promotion.isStackable && order.promotionDiscount > 0) continue;
+      
+      const eligibleTotal = order.items
+        .filter(item => this.isItemEligible(promotion, item))
+        .reduce((sum, item) => sum + item.totalPrice, 0);
       
-      res.status(200).json({
-        orders: orders.map(order => ({
-          orderId: order.orderId,
-          status: order.status,
-          total: order.total,
-          paymentStatus: order.paymentStatus,
-          createdAt: order.createdAt,
-          itemCount: order.items.length
-        })),
-        pagination: {
-          page: parseInt(page as string),
-          limit: parseInt(limit as string),
-          total,
-          pages: Math.ceil(total / parseInt(limit as string))
-        }
+      if (eligibleTotal <= 0 || (promotion.minSubtotal && eligibleTotal < promotion.minSubtotal)) continue;
+      
+      const amount = parseFloat(Math.min(promotion.value, eligibleTotal - order.promotionDiscount).toFixed(2));
+      
+      if (amount <= 0) continue;
+      
+      order.promotionDiscount = parseFloat((order.promotionDiscount + amount).toFixed(2));
+      order.discountLines.push({
+        promotionId: promotion.promotionId,
+        name: promotion.name,
+        type: promotion.type,
+        couponCode: promotion.couponCode,
+        amount
       });
-    } catch (error) {
-      this.logger.error(`Get customer orders error: ${error}`);
-      res.status(500).json({ message: 'Failed to get customer orders' });
     }
   }
 
   /**
-   * Update an entire order
+   * Get tax collected by jurisdiction
    */
-  private async updateOrder(req: Request, res: Response): Promise<void> {
+  private async getTaxStats(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
-      const {
-        items,
-        shippingAddress,
-        billingAddress,
-        notes,
-        metadata,
-        giftMessage,
-        returnPolicy
-      } = req.body;
-      
-      // Find order
-      const order = await this.orderModel.findOne({
-        $or: [
-          { orderId: id },
-          { _id: mongoose.isValidObjectId(id) ? id : undefined }
-        ]
-      });
-      
-      if (!order) {
-        res.status(404).json({ message: 'Order not found' });
-        return;
-      }
+      const { startDate, endDate, storeId } = req.query;
       
-      // Only allow updates if order is in CART or PENDING status
-      if (![OrderStatus.CART, OrderStatus.PENDING].includes(order.status as OrderStatus)) {
-        res.status(400).json({ 
-          message: `Cannot update order in ${order.status} status` 
-        });
-        return;
-      }
+      // Only orders that reached confirmation carry a tax liability
+      const query: any = {
+        status: { $nin: [OrderStatus.CART, OrderStatus.PENDING, OrderStatus.CANCELLED, OrderStatus.REFUNDED] }
+      };
       
-      // Update fields if provided
-      if (items) {
-        // Format items
-        order.items = items.map((item: any) => ({
-          productId: item.productId,
-          sku: item.sku,
-          name: item.name,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          discount: item.discount || 0,
-          totalPrice: (item.quantity * item.unitPrice) - (item.discount || 0),
-          notes: item.notes,
-          metadata: item.metadata
-        }));
+      if (startDate || endDate) {
+        query.createdAt = {};
+        if (startDate) query.createdAt.$gte = new Date(startDate as string);
+        if (endDate) query.createdAt.$lte = new Date(endDate as string);
       }
+      if (storeId) query.storeId = storeId;
       
-      if (shippingAddress) order.shippingAddress = shippingAddress;
-      if (billingAddress) order.billingAddress = billingAddress;
-      if (notes) order.notes = notes;
-      if (metadata) order.metadata = { ...order.metadata, ...metadata };
-      if (giftMessage) order.giftMessage = giftMessage;
-      if (returnPolicy) order.returnPolicy = returnPolicy;
-      
-      await order.save();
+      const byJurisdiction = await this.orderModel.aggregate([
+        { $match: query },
+        { $unwind: '$taxBreakdown' },
+        {
+          $group: {
+            _id: {
+              jurisdiction: '$taxBreakdown.jurisdiction',
+              code: '$taxBreakdown.code',
+              name: '$taxBreakdown.name',
+              rate: '$taxBreakdown.rate',
+              isInclusive: '$taxBreakdown.isInclusive'
+            },
+            taxableAmount: { $sum: '$taxBreakdown.taxableAmount' },
+            taxAmount: { $sum: '$taxBreakdown.amount' },
+            orderCount: { $sum: 1 }
+          }
+        },
+        { $sort: { '_id.jurisdiction': 1, '_id.code': 1 } }
+      ]);
       
-      // Publish order updated event
-      await this.messageBus.publish('order', 'order.updated', {
-        orderId: order.orderId,
-        items: order.items,
-        total: order.total,
-        timestamp: new Date().toISOString()
-      });
+      // Exempt sales are reported separately
+      const exempt = await this.orderModel.aggregate([
+        { $match: { ...query, isTaxExempt: true } },
+        { $group: { _id: null, orderCount: { $sum: 1 }, total: { $sum: '$subtotal' } } }
+      ]);
       
       res.status(200).json({
-        orderId: order.orderId,
-        status: order.status,
-        items: order.items,
-        subtotal: order.subtotal,
-        tax: order.tax,
-        discount: order.discount,
-        total: order.total,
-        shippingAddress: order.shippingAddress,
-        billingAddress: order.billingAddress,
-        notes: order.notes
+        byJurisdiction: byJurisdiction.map((entry: any) => ({
+          jurisdiction: entry._id.jurisdiction,
+          code: entry._id.code,
+          name: entry._id.name,
+          rate: entry._id.rate,
+          isInclusive: entry._id.isInclusive,
+          taxableAmount: parseFloat(entry.taxableAmount.toFixed(2)),
+          taxAmount: parseFloat(entry.taxAmount.toFixed(2)),
+          orderCount: entry.orderCount
+        })),
+        totalTax: parseFloat(byJurisdiction.reduce((sum: number, entry: any) => sum + entry.taxAmount, 0).toFixed(2)),
+        exemptSales: exempt.length > 0 
+          ? { orderCount: exempt[0].orderCount, total: exempt[0].total } 
+          : { orderCount: 0, total: 0 }
       });
     } catch (error) {
-      this.logger.error(`Update order error: ${error}`);
-      res.status(500).json({ message: 'Failed to update order' });
+      this.logger.error(`Get tax stats error: ${error}`);
+      res.status(500).json({ message: 'Failed to get tax statistics' });
     }
   }
 
   /**
-   * Add an item to an order
+   * Create or replace the tax zone of a store
    */
-  private async addOrderItem(req: Request, res: Response): Promise<void> {
+  private async saveTaxZone(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
-      const { productId, sku, name, quantity, unitPrice, discount = 0, notes, metadata } = req.body;
+      const { storeId, name, rates = [], isActive = true } = req.body;
       
-      // Validate input
-      if (!productId || !sku || !name || !quantity || !unitPrice) {
-        res.status(400).json({ message: 'Product details are required' });
+      if (!storeId || !name) {
+        res.status(400).json({ message: 'Store ID and name are required' });
         return;
       }
       
-      // Find order
-      const order = await this.orderModel.findOne({
-        $or: [
-          { orderId: id },
-          { _id: mongoose.isValidObjectId(id) ? id : undefined }
-        ]
-      });
-      
-      if (!order) {
-        res.status(404).json({ message: 'Order not found' });
-        return;
-      }
+      // Validate rates
+      const invalidRate = rates.find((rate: any) => 
+        !rate.code || !rate.name || !rate.jurisdiction || 
+        typeof rate.rate !== 'number' || rate.rate < 0 || rate.rate > 1
+      );
       
-      // Only allow updates if order is in CART or PENDING status
-      if (![OrderStatus.CART, OrderStatus.PENDING].includes(order.status as OrderStatus)) {
-        res.status(400).json({ 
-          message: `Cannot add items to order in ${order.status} status` 
-        });
+      if (invalidRate) {
+        res.status(400).json({ message: 'Each rate needs a code, name, jurisdiction and a rate between 0 and 1' });
         return;
       }
       
-      // Calculate total price
-      const totalPrice = (quantity * unitPrice) - discount;
+      const formattedRates = rates.map((rate: any, index: number) => ({
+        code: rate.code,
+        name: rate.name,
+        jurisdiction: rate.jurisdiction,
+        rate: rate.rate,
+        taxClasses: (rate.taxClasses || []).map((code: string) => code.toUpperCase()),
+        isCompound: !!rate.isCompound,
+        isInclusive: !!rate.isInclusive,
+        sequence: rate.sequence ?? index
+      }));
       
-      // Check if item already exists
-      const existingItemIndex = order.items.findIndex(item => 
-        item.productId === productId && item.sku === sku
-      );
+      let zone = await this.taxZoneModel.findOne({ storeId });
+      const isNew = !zone;
       
-      if (existingItemIndex >= 0) {
-        // Update existing item
-        const existingItem = order.items[existingItemIndex];
-        existingItem.quantity += quantity;
-        existingItem.totalPrice = (existingItem.quantity * existingItem.unitPrice) - existingItem.discount;
-        
-        if (notes) existingItem.notes = notes;
-        if (metadata) existingItem.metadata = { ...existingItem.metadata, ...metadata };
-      } else {
-        // Add new item
-        order.items.push({
-          productId,
-          sku,
-          name,
-          quantity,
-          unitPrice,
-          discount,
-          totalPrice,
-          notes,
-          metadata
-        });
+      if (!zone) {
+        zone = new this.taxZoneModel({ zoneId: uuidv4(), storeId });
       }
       
-      await order.save();
-      
-      // If order is empty cart, update status to PENDING
-      if (order.status === OrderStatus.CART && order.items.length > 0) {
-        order.status = OrderStatus.PENDING;
-        await order.save();
-        
-        // Publish order created event
-        await this.messageBus.publish('order', 'order.created', {
-          orderId: order.orderId,
-          customerId: order.customerId,
-          items: order.items,
-          total: order.total,
-          storeId: order.storeId,
-          timestamp: new Date().toISOString()
-        });
-      } else {
-        // Publish order updated event
-        await this.messageBus.publish('order', 'order.updated', {
-          orderId: order.orderId,
-          items: order.items,
-          total: order.total,
-          timestamp: new Date().toISOString()
-        });
-      }
+      zone.name = name;
+      zone.rates = formattedRates;
+      zone.isActive = isActive;
+      await zone.save();
       
-      res.status(200).json({
-        orderId: order.orderId,
-        status: order.status,
-        items: order.items,
-        subtotal: order.subtotal,
-        tax: order.tax,
-        discount: order.discount,
-        total: order.total
-      });
-    } catch (error) {
-      this.logger.error(`Add order item error: ${error}`);
-      res.status(500).json({ message: 'Failed to add item to order' });
+      res.status(isNew ? 201 : 200).json(zone);
+    } catch (error: any) {
+      this.logger.error(`Save tax zone error: ${error}`);
+      res.status(500).json({ message: 'Failed to save tax zone', error: error.message });
     }
   }
 
   /**
-   * Update an item in an order
+   * List tax zones
    */
-  private async updateOrderItem(req: Request, res: Response): Promise<void> {
+  private async listTaxZones(req: Request, res: Response): Promise<void> {
     try {
-      const { id, itemId } = req.params;
-      const { quantity, discount, notes, metadata } = req.body;
+      const { isActive } = req.query;
       
-      // Find order
-      const order = await this.orderModel.findOne({
-        $or: [
-          { orderId: id },
-          { _id: mongoose.isValidObjectId(id) ? id : undefined }
-        ]
-      });
+      const query: any = {};
+      if (isActive !== undefined) query.isActive = isActive === 'true';
       
-      if (!order) {
-        res.status(404).json({ message: 'Order not found' });
-        return;
-      }
+      const zones = await this.taxZoneModel.find(query).sort({ storeId: 1 });
       
-      // Only allow updates if order is in CART or PENDING status
-      if (![OrderStatus.CART, OrderStatus.PENDING].includes(order.status as OrderStatus)) {
-        res.status(400).json({ 
-          message: `Cannot update items in order with ${order.status} status` 
-        });
-        return;
-      }
+      res.status(200).json({ zones });
+    } catch (error) {
+      this.logger.error(`List tax zones error: ${error}`);
+      res.status(500).json({ message: 'Failed to list tax zones' });
+    }
+  }
+
+  /**
+   * Get the tax zone of a store
+   */
+  private async getTaxZone(req: Request, res: Response): Promise<void> {
+    try {
+      const { storeId } = req.params;
       
-      // Find the item
-      const itemIndex = order.items.findIndex(item => 
-        item._id.toString() === itemId || item.productId === itemId
-      );
+      const zone = await this.taxZoneModel.findOne({ storeId });
       
-      if (itemIndex === -1) {
-        res.status(404).json({ message: 'Item not found in order' });
+      if (!zone) {
+        res.status(404).json({ message: 'Tax zone not found' });
         return;
       }
       
-      // Update item
-      const item = order.items[itemIndex];
+      res.status(200).json(zone);
+    } catch (error) {
+      this.logger.error(`Get tax zone error: ${error}`);
+      res.status(500).json({ message: 'Failed to get tax zone' });
+    }
+  }
+
+  /**
+   * Delete the tax zone of a store
+   */
+  private async deleteTaxZone(req: Request, res: Response): Promise<void> {
+    try {
+      const { storeId } = req.params;
       
-      if (quantity !== undefined) {
-        if (quantity <= 0) {
-          // Remove item if quantity is 0 or negative
-          order.items.splice(itemIndex, 1);
-        } else {
-          item.quantity = quantity;
-          item.totalPrice = (quantity * item.unitPrice) - (discount !== undefined ? discount : item.discount);
-        }
-      }
+      const result = await this.taxZoneModel.deleteOne({ storeId });
       
-      if (discount !== undefined) {
-        item.discount = discount;
-        item.totalPrice = (item.quantity * item.unitPrice) - discount;
+      if (result.deletedCount === 0) {
+        res.status(404).json({ message: 'Tax zone not found' });
+        return;
       }
       
-      if (notes !== undefined) item.notes = notes;
-      if (metadata !== undefined) item.metadata = { ...item.metadata, ...metadata };
-      
-      await order.save();
+      res.status(200).json({ storeId, message: 'Tax zone deleted successfully' });
+    } catch (error) {
+      this.logger.error(`Delete tax zone error: ${error}`);
+      res.status(500).json({ message: 'Failed to delete tax zone' });
+    }
+  }
+
+  /**
+   * Create or update a tax class
+   */
+  private async saveTaxClass(req: Request, res: Response): Promise<void> {
+    try {
+      const { code, name, description, categories = [] } = req.body;
       
-      // Check if order is now empty
-      if (order.items.length === 0 && order.status !== OrderStatus.CART) {
-        order.status = OrderStatus.CART;
-        await order.save();
+      if (!code || !name) {
+        res.status(400).json({ message: 'Code and name are required' });
+        return;
       }
       
-      // Publish order updated event
-      await this.messageBus.publish('order', 'order.updated', {
-        orderId: order.orderId,
-        items: order.items,
-        total: order.total,
-        timestamp: new Date().toISOString()
-      });
+      const taxClass = await this.taxClassModel.findOneAndUpdate(
+        { code: String(code).toUpperCase() },
+        { code, name, description, categories },
+        { new: true, upsert: true, runValidators: true }
+      );
       
-      res.status(200).json({
-        orderId: order.orderId,
-        status: order.status,
-        items: order.items,
-        subtotal: order.subtotal,
-        tax: order.tax,
-        discount: order.discount,
-        total: order.total
-      });
+      res.status(200).json(taxClass);
+    } catch (error: any) {
+      this.logger.error(`Save tax class error: ${error}`);
+      res.status(500).json({ message: 'Failed to save tax class', error: error.message });
+    }
+  }
+
+  /**
+   * List tax classes
+   */
+  private async listTaxClasses(req: Request, res: Response): Promise<void> {
+    try {
+      const taxClasses = await this.taxClassModel.find({}).sort({ code: 1 });
+      
+      res.status(200).json({ taxClasses });
     } catch (error) {
-      this.logger.error(`Update order item error: ${error}`);
-      res.status(500).json({ message: 'Failed to update item in order' });
+      this.logger.error(`List tax classes error: ${error}`);
+      res.status(500).json({ message: 'Failed to list tax classes' });
     }
   }
 
   /**
-   * Remove an item from an order
+   * Delete a tax class
    */
-  private async removeOrderItem(req: Request, res: Response): Promise<void> {
+  private async deleteTaxClass(req: Request, res: Response): Promise<void> {
     try {
-      const { id, itemId } = req.params;
+      const code = req.params.code.toUpperCase();
       
-      // Find order
-      const order = await this.orderModel.findOne({
-        $or: [
-          { orderId: id },
-          { _id: mongoose.isValidObjectId(id) ? id : undefined }
-        ]
-      });
+      const result = await this.taxClassModel.deleteOne({ code });
       
-      if (!order) {
-        res.status(404).json({ message: 'Order not found' });
+      if (result.deletedCount === 0) {
+        res.status(404).json({ message: 'Tax class not found' });
         return;
       }
       
-      // Only allow updates if order is in CART or PENDING status
-      if (![OrderStatus.CART, OrderStatus.PENDING].includes(order.status as OrderStatus)) {
-        res.status(400).json({ 
-          message: `Cannot remove items from order in ${order.status} status` 
-        });
+      res.status(200).json({ code, message: 'Tax class deleted successfully' });
+    } catch (error) {
+      this.logger.error(`Delete tax class error: ${error}`);
+      res.status(500).json({ message: 'Failed to delete tax class' });
+    }
+  }
+
+  /**
+   * Register a tax exemption for a customer
+   */
+  private async createTaxExemption(req: Request, res: Response): Promise<void> {
+    try {
+      const { customerId, certificateNumber, reason, jurisdictions = [], expiresAt } = req.body;
+      
+      if (!customerId || !certificateNumber) {
+        res.status(400).json({ message: 'Customer ID and certificate number are required' });
         return;
       }
       
-      // Find the item
-      const itemIndex = order.items.findIndex(item => 
-        item._id.toString() === itemId || item.productId === itemId
-      );
+      const exemption = new this.taxExemptionModel({
+        exemptionId: uuidv4(),
+        customerId,
+        certificateNumber,
+        reason,
+        jurisdictions,
+        expiresAt,
+        isActive: true
+      });
       
-      if (itemIndex === -1) {
-        res.status(404).json({ message: 'Item not found in order' });
-        return;
-      }
+      await exemption.save();
       
-      // Remove item
-      order.items.splice(itemIndex, 1);
+      res.status(201).json(exemption);
+    } catch (error: any) {
+      this.logger.error(`Create tax exemption error: ${error}`);
+      res.status(500).json({ message: 'Failed to create tax exemption', error: error.message });
+    }
+  }
+
+  /**
+   * List tax exemptions
+   */
+  private async listTaxExemptions(req: Request, res: Response): Promise<void> {
+    try {
+      const { customerId, isActive } = req.query;
       
-      // Check if order is now empty
-      if (order.items.length === 0 && order.status !== OrderStatus.CART) {
-        order.status = OrderStatus.CART;
-      }
+      const query: any = {};
+      if (customerId) query.customerId = customerId;
+      if (isActive !== undefined) query.isActive = isActive === 'true';
       
-      await order.save();
+      const exemptions = await this.taxExemptionModel.find(query).sort({ createdAt: -1 });
       
-      // Publish order updated event
-      await this.messageBus.publish('order', 'order.updated', {
-        orderId: order.orderId,
-        items: order.items,
-        total: order.total,
-        timestamp: new Date().toISOString()
-      });
+      res.status(200).json({ exemptions });
+    } catch (error) {
+      this.logger.error(`List tax exemptions error: ${error}`);
+      res.status(500).json({ message: 'Failed to list tax exemptions' });
+    }
+  }
+
+  /**
+   * Revoke a tax exemption
+   */
+  private async revokeTaxExemption(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
       
-      res.status(200).json({
-        orderId: order.orderId,
-        status: order.status,
-        items: order.items,
-        subtotal: order.subtotal,
-        tax: order.tax,
-        discount: order.discount,
-        total: order.total
-      });
+      const exemption = await this.taxExemptionModel.findOneAndUpdate(
+        { exemptionId: id },
+        { isActive: false },
+        { new: true }
+      );
+      
+      if (!exemption) {
+        res.status(404).json({ message: 'Tax exemption not found' });
+        return;
+      }
+      
+      res.status(200).json({ exemptionId: id, message: 'Tax exemption revoked successfully' });
     } catch (error) {
-      this.logger.error(`Remove order item error: ${error}`);
-      res.status(500).json({ message: 'Failed to remove item from order' });
+      this.logger.error(`Revoke tax exemption error: ${error}`);
+      res.status(500).json({ message: 'Failed to revoke tax exemption' });
     }
   }
 
   /**
-   * Confirm an order
+   * Park a sale so the register can serve the next customer
    */
-  private async confirmOrder(req: Request, res: Response): Promise<void> {
+  private async holdOrder(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
       const { 
-        paymentMethod,
-        shippingAddress,
-        billingAddress,
-        notes
+        label, 
+        terminalId, 
+        expiresInMinutes = this.holdTtlMinutes, 
+        reserveInventory = false 
       } = req.body;
       
+      if (typeof expiresInMinutes !== 'number' || !Number.isFinite(expiresInMinutes) || expiresInMinutes <= 0) {
+        res.status(400).json({ message: 'Expiry must be a positive number of minutes' });
+        return;
+      }
+      
       // Find order
       const order = await this.orderModel.findOne({
         $or: [
@@ -954,69 +3424,70 @@ export class OrderService extends BaseService {
         return;
       }
       
-      // Only allow confirmation if order is in PENDING status
-      if (order.status !== OrderStatus.PENDING) {
-        res.status(400).json({ 
-          message: `Cannot confirm order in ${order.status} status` 
-        });
+      // Only open sales can be parked
+      if (![OrderStatus.CART, OrderStatus.PENDING].includes(order.status)) {
+        res.status(400).json({ message: `Cannot hold order in ${order.status} status` });
         return;
       }
       
-      // Validate order has items
       if (order.items.length === 0) {
-        res.status(400).json({ message: 'Cannot confirm an empty order' });
+        res.status(400).json({ message: 'Cannot hold an empty order' });
         return;
       }
       
-      // Update order details
-      if (paymentMethod) order.paymentMethod = paymentMethod;
-      if (shippingAddress) order.shippingAddress = shippingAddress;
-      if (billingAddress) order.billingAddress = billingAddress;
-      if (notes) order.notes = notes;
+      const heldAt = new Date();
       
-      // Update status
-      order.status = OrderStatus.CONFIRMED;
-      order.confirmedAt = new Date();
+      order.hold = {
+        label: label || `Held ${heldAt.toLocaleTimeString()}`,
+        terminalId,
+        employeeId: order.employeeId || (req as any).user.userId,
+        previousStatus: order.status,
+        inventoryReserved: !!reserveInventory,
+        heldAt,
+        expiresAt: new Date(heldAt.getTime() + expiresInMinutes * 60 * 1000)
+      };
+      order.status = OrderStatus.HELD;
       
       await order.save();
       
-      // Publish order confirmed event
-      await this.messageBus.publish('order', 'order.confirmed', {
+      // Publish order held event
+      await this.messageBus.publish('order', 'order.held', {
         orderId: order.orderId,
-        customerId: order.customerId,
+        storeId: order.storeId,
+        terminalId,
+        label: order.hold.label,
+        reserveInventory: order.hold.inventoryReserved,
         items: order.items.map(item => ({
           productId: item.productId,
           sku: item.sku,
-          quantity: item.quantity
+          quantity: item.quantity,
+          modifiers: item.modifiers,
+          serialNumbers: item.serialNumbers
         })),
-        total: order.total,
-        paymentMethod: order.paymentMethod,
+        expiresAt: order.hold.expiresAt,
         timestamp: new Date().toISOString()
       });
       
       res.status(200).json({
         orderId: order.orderId,
         status: order.status,
-        paymentMethod: order.paymentMethod,
-        subtotal: order.subtotal,
-        tax: order.tax,
-        discount: order.discount,
-        total: order.total,
-        confirmedAt: order.confirmedAt
+        hold: order.hold,
+        total: order.total
       });
     } catch (error) {
-      this.logger.error(`Confirm order error: ${error}`);
-      res.status(500).json({ message: 'Failed to confirm order' });
+      this.logger.error(`Hold order error: ${error}`);
+      res.status(500).json({ message: 'Failed to hold order' });
     }
   }
 
   /**
-   * Cancel an order
+   * Recall a parked sale
    */
-  private async cancelOrder(req: Request, res: Response): Promise<void> {
+  private async recallOrder(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { reason } = req.body;
+      const { terminalId } = req.body;
+      const user = (req as any).user;
       
       // Find order
       const order = await this.orderModel.findOne({
@@ -1031,68 +3502,163 @@ export class OrderService extends BaseService {
         return;
       }
       
-      // Only allow cancellation in certain statuses
-      const allowedStatuses = [
-        OrderStatus.PENDING, 
-        OrderStatus.CONFIRMED, 
-        OrderStatus.PROCESSING
-      ];
+      if (order.status !== OrderStatus.HELD || !order.hold) {
+        res.status(400).json({ message: `Cannot recall order in ${order.status} status` });
+        return;
+      }
       
-      if (!allowedStatuses.includes(order.status as OrderStatus)) {
-        res.status(400).json({ 
-          message: `Cannot cancel order in ${order.status} status` 
-        });
+      // A held sale belongs to its employee and terminal unless a manager steps in
+      const isOwner = order.hold.employeeId === user.userId || 
+        (!!terminalId && order.hold.terminalId === terminalId);
+      const isManager = user.roles.some((role: string) => ['admin', 'manager'].includes(role));
+      
+      if (!isOwner && !isManager) {
+        res.status(403).json({ message: 'Order is held by another employee or terminal' });
         return;
       }
       
-      // Update status
-      order.status = OrderStatus.CANCELLED;
-      order.cancelledAt = new Date();
-      order.notes = (order.notes || '') + `\nCancelled: ${reason || 'No reason provided'}`;
+      const hold = order.hold;
       
-      await order.save();
+      // Claim the hold so an expiry sweep running alongside cannot cancel the recalled sale
+      const recalled = await this.orderModel.findOneAndUpdate(
+        { orderId: order.orderId, status: OrderStatus.HELD },
+        { $set: { status: hold.previousStatus }, $unset: { hold: 1 } },
+        { new: true }
+      );
       
-      // Publish order cancelled event
-      await this.messageBus.publish('order', 'order.cancelled', {
-        orderId: order.orderId,
-        customerId: order.customerId,
-        items: order.items.map(item => ({
-          productId: item.productId,
-          sku: item.sku,
-          quantity: item.quantity
-        })),
-        total: order.total,
-        reason,
+      if (!recalled) {
+        res.status(409).json({ message: 'Order is no longer held' });
+        return;
+      }
+      
+      // Prices and promotions may have changed while the sale was parked
+      await this.recalculateOrder(recalled);
+      await recalled.save();
+      
+      // Publish order recalled event
+      await this.messageBus.publish('order', 'order.recalled', {
+        orderId: recalled.orderId,
+        storeId: recalled.storeId,
+        terminalId: terminalId || hold.terminalId,
+        inventoryReserved: hold.inventoryReserved,
         timestamp: new Date().toISOString()
       });
       
       res.status(200).json({
-        orderId: order.orderId,
-        status: order.status,
-        cancelledAt: order.cancelledAt,
-        message: 'Order cancelled successfully'
+        orderId: recalled.orderId,
+        status: recalled.status,
+        items: recalled.items,
+        subtotal: recalled.subtotal,
+        tax: recalled.tax,
+        promotionDiscount: recalled.promotionDiscount,
+        discountLines: recalled.discountLines,
+        total: recalled.total,
+        heldAt: hold.heldAt
       });
     } catch (error) {
-      this.logger.error(`Cancel order error: ${error}`);
-      res.status(500).json({ message: 'Failed to cancel order' });
+      this.logger.error(`Recall order error: ${error}`);
+      res.status(500).json({ message: 'Failed to recall order' });
     }
   }
 
   /**
-   * Update order status
+   * List parked sales
    */
-  private async updateStatus(req: Request, res: Response): Promise<void> {
+  private async getHeldOrders(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
-      const { status, notes } = req.body;
+      const { storeId, terminalId, employeeId } = req.query;
       
-      // Validate status
-      if (!Object.values(OrderStatus).includes(status)) {
-        res.status(400).json({ 
-          message: `Invalid status. Valid statuses: ${Object.values(OrderStatus).join(', ')}` 
+      // Build query
+      const query: any = { status: OrderStatus.HELD };
+      
+      if (storeId) query.storeId = storeId;
+      if (terminalId) query['hold.terminalId'] = terminalId;
+      if (employeeId) query['hold.employeeId'] = employeeId;
+      
+      const orders = await this.orderModel.find(query).sort({ 'hold.heldAt': -1 });
+      
+      res.status(200).json({
+        orders: orders.map(order => ({
+          orderId: order.orderId,
+          customerId: order.customerId,
+          storeId: order.storeId,
+          items: order.items,
+          total: order.total,
+          itemCount: order.items.length,
+          hold: order.hold
+        }))
+      });
+    } catch (error) {
+      this.logger.error(`Get held orders error: ${error}`);
+      res.status(500).json({ message: 'Failed to get held orders' });
+    }
+  }
+
+  /**
+   * Start the held order expiry processor
+   */
+  private startHoldExpiryProcessor(): void {
+    // Process expired holds initially
+    this.expireHeldOrders();
+    
+    // Set up interval to check periodically
+    setInterval(() => this.expireHeldOrders(), 60000); // Check every minute
+  }
+
+  /**
+   * Cancel held orders past their expiry and release their reservations
+   */
+  private async expireHeldOrders(): Promise<void> {
+    try {
+      const expiredOrders = await this.orderModel.find({
+        status: OrderStatus.HELD,
+        'hold.expiresAt': { $lte: new Date() }
+      }).limit(50);
+      
+      for (const order of expiredOrders) {
+        const inventoryReserved = !!order.hold?.inventoryReserved;
+        
+        // Skip holds recalled since they were read
+        const expired = await this.orderModel.findOneAndUpdate(
+          { orderId: order.orderId, status: OrderStatus.HELD, 'hold.expiresAt': { $lte: new Date() } },
+          { 
+            $set: { 
+              status: OrderStatus.CANCELLED, 
+              cancelledAt: new Date(), 
+              notes: (order.notes || '') + `\nHold "${order.hold?.label}" expired` 
+            } 
+          }
+        );
+        
+        if (!expired) continue;
+        
+        // Publish hold expired event
+        await this.messageBus.publish('order', 'order.hold.expired', {
+          orderId: order.orderId,
+          storeId: order.storeId,
+          inventoryReserved,
+          timestamp: new Date().toISOString()
         });
-        return;
+        
+        this.logger.info(`Held order expired: ${order.orderId}`);
       }
+    } catch (error) {
+      this.logger.error(`Expire held orders error: ${error}`);
+    }
+  }
+
+  /**
+   * Create a return (RMA) against an order, optionally exchanging items
+   */
+  private async createReturn(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { 
+        items = [], 
+        refundMethod = RefundMethod.ORIGINAL_TENDER, 
+        exchangeItems = [], 
+        notes 
+      } = req.body;
       
       // Find order
       const order = await this.orderModel.findOne({
@@ -1107,100 +3673,267 @@ export class OrderService extends BaseService {
         return;
       }
       
-      // Check for valid state transitions
-      const isValidTransition = this.isValidStatusTransition(order.status as OrderStatus, status);
+      // Only orders that have been paid for can be returned
+      const returnableStatuses = [
+        OrderStatus.CONFIRMED, 
+        OrderStatus.PROCESSING, 
+        OrderStatus.FULFILLED, 
+        OrderStatus.DELIVERED
+      ];
       
-      if (!isValidTransition) {
+      if (!returnableStatuses.includes(order.status)) {
         res.status(400).json({ 
-          message: `Invalid status transition from ${order.status} to ${status}` 
+          message: `Cannot return items from an order in ${order.status} status` 
         });
         return;
       }
       
-      // Update status
-      const oldStatus = order.status;
-      order.status = status;
+      if (!['PAID', 'PARTIALLY_PAID'].includes(order.paymentStatus)) {
+        res.status(400).json({ message: `Cannot return items from an order that is ${order.paymentStatus}` });
+        return;
+      }
       
-      // Add notes if provided
-      if (notes) {
-        order.notes = (order.notes || '') + `\nStatus updated from ${oldStatus} to ${status}: ${notes}`;
+      if (items.length === 0) {
+        res.status(400).json({ message: 'At least one item is required' });
+        return;
       }
       
-      // Update timestamp based on status
-      switch (status) {
-        case OrderStatus.CONFIRMED:
-          order.confirmedAt = new Date();
-          break;
-        case OrderStatus.FULFILLED:
-          order.fulfilledAt = new Date();
-          break;
-        case OrderStatus.DELIVERED:
-          order.deliveredAt = new Date();
-          break;
-        case OrderStatus.CANCELLED:
-          order.cancelledAt = new Date();
-          break;
+      if (!Object.values(RefundMethod).includes(refundMethod)) {
+        res.status(400).json({ message: `Invalid refund method: ${refundMethod}` });
+        return;
       }
       
-      await order.save();
+      if (refundMethod === RefundMethod.STORE_CREDIT && !order.customerId) {
+        res.status(400).json({ message: 'Store credit can only be issued for orders with a customer' });
+        return;
+      }
       
-      // Publish status update event
-      await this.messageBus.publish('order', `order.status.${status.toLowerCase()}`, {
+      // Quantities already claimed by earlier returns
+      const returnedQuantities = await this.getReturnedQuantities(order);
+      const returnItems: IReturnItem[] = [];
+      
+      for (const item of items) {
+        // A line ID picks the line; a product or SKU only does when one line has it
+        const candidates = item.lineId
+          ? order.items.filter(line => line._id?.toString() === item.lineId)
+          : order.items.filter(line => line.productId === item.productId || (!!item.sku && line.sku === item.sku));
+        
+        if (candidates.length === 0) {
+          res.status(400).json({ message: `Item ${item.lineId || item.productId || item.sku} is not part of this order` });
+          return;
+        }
+        
+        if (candidates.length > 1) {
+          res.status(400).json({ message: `${candidates[0].name} is on more than one line; give the line ID to return` });
+          return;
+        }
+        
+        const orderItem = candidates[0];
+        const lineId = orderItem._id!.toString();
+        
+        if (!item.quantity || item.quantity < 1) {
+          res.status(400).json({ message: `Invalid quantity for ${orderItem.name}` });
+          return;
+        }
+        
+        const alreadyReturned = returnedQuantities.get(lineId) || 0;
+        
+        if (alreadyReturned + item.quantity > orderItem.quantity) {
+          res.status(400).json({ 
+            message: `Only ${orderItem.quantity - alreadyReturned} of ${orderItem.name} can be returned` 
+          });
+          return;
+        }
+        
+        // Serialized units are returned by serial, and only ones sold on this line
+        const serialNumbers: string[] = item.serialNumbers || [];
+        
+        if (orderItem.serialNumbers && orderItem.serialNumbers.length > 0) {
+          if (serialNumbers.length !== item.quantity || serialNumbers.some(serial => !orderItem.serialNumbers!.includes(serial))) {
+            res.status(400).json({ message: `Scan the serial number of each ${orderItem.name} being returned` });
+            return;
+          }
+        }
+        
+        const reason = item.reason || ReturnReason.OTHER;
+        const condition = item.condition || ReturnCondition.RESELLABLE;
+        
+        if (!Object.values(ReturnReason).includes(reason) || !Object.values(ReturnCondition).includes(condition)) {
+          res.status(400).json({ message: `Invalid reason or condition for ${orderItem.name}` });
+          return;
+        }
+        
+        returnedQuantities.set(lineId, alreadyReturned + item.quantity);
+        
+        const { refundAmount, taxAmount } = this.calculateReturnLine(order, orderItem, item.quantity);
+        
+        returnItems.push({
+          lineId,
+          productId: orderItem.productId,
+          sku: orderItem.sku,
+          name: orderItem.name,
+          quantity: item.quantity,
+          reason,
+          condition,
+          refundAmount,
+          taxAmount,
+          serialNumbers: serialNumbers.length > 0 ? serialNumbers : undefined,
+          notes: item.notes
+        });
+      }
+      
+      const returnId = uuidv4();
+      const tax = parseFloat(returnItems.reduce((sum, item) => sum + item.taxAmount, 0).toFixed(2));
+      const refundAmount = parseFloat(returnItems.reduce((sum, item) => sum + item.refundAmount, 0).toFixed(2));
+      
+      // Never refund more than was paid, less what earlier returns already take back
+      const refundable = parseFloat(Math.max(0, order.amountPaid - await this.getOutstandingReturnAmount(order)).toFixed(2));
+      
+      if (refundAmount > refundable) {
+        res.status(400).json({ message: `Only ${refundable} of this order can still be refunded` });
+        return;
+      }
+      
+      const orderReturn = new this.returnModel({
+        returnId,
+        rmaNumber: `RMA-${returnId.slice(0, 8).toUpperCase()}`,
         orderId: order.orderId,
-        oldStatus,
-        newStatus: status,
-        timestamp: new Date().toISOString()
+        customerId: order.customerId,
+        storeId: order.storeId,
+        status: ReturnStatus.REQUESTED,
+        items: returnItems,
+        refundMethod,
+        subtotal: parseFloat((refundAmount - tax).toFixed(2)),
+        tax,
+        refundAmount,
+        isExchange: exchangeItems.length > 0,
+        notes,
+        requestedBy: (req as any).user.userId
       });
       
-      res.status(200).json({
+      // Exchanges get their replacement order up front so both are saved together
+      let replacementOrder: IOrder | undefined;
+      
+      if (exchangeItems.length > 0) {
+        replacementOrder = new this.orderModel({
+          orderId: uuidv4(),
+          customerId: order.customerId,
+          status: OrderStatus.PENDING,
+          items: exchangeItems.map((item: any) => ({
+            productId: item.productId,
+            sku: item.sku,
+            name: item.name,
+            category: item.category,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            discount: item.discount || 0,
+            promotionDiscount: 0,
+            totalPrice: (item.quantity * item.unitPrice) - (item.discount || 0),
+            taxClass: item.taxClass,
+            taxRate: item.taxRate,
+            taxes: [],
+            taxAmount: 0
+          })),
+          storeId: order.storeId,
+          employeeId: order.employeeId,
+          exchangeReturnId: returnId,
+          metadata: { exchangeForOrderId: order.orderId }
+        });
+        
+        await this.recalculateOrder(replacementOrder);
+        orderReturn.replacementOrderId = replacementOrder.orderId;
+      }
+      
+      // Start a session for transaction
+      const session = await mongoose.startSession();
+      session.startTransaction();
+      
+      try {
+        // Only count the return if no other one was recorded since the checks above
+        const claimed = await this.orderModel.findOneAndUpdate(
+          { orderId: order.orderId, returnCount: order.returnCount ? order.returnCount : { $in: [0, null] } },
+          { $inc: { returnCount: 1 } },
+          { new: true, session }
+        );
+        
+        if (!claimed) {
+          await session.abortTransaction();
+          res.status(409).json({ message: 'Another return was recorded against this order, please retry' });
+          return;
+        }
+        
+        await orderReturn.save({ session });
+        
+        if (replacementOrder) {
+          await replacementOrder.save({ session });
+        }
+        
+        await session.commitTransaction();
+      } catch (error) {
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        session.endSession();
+      }
+      
+      // Publish return requested event
+      await this.messageBus.publish('order', 'order.return.requested', {
+        returnId,
+        rmaNumber: orderReturn.rmaNumber,
         orderId: order.orderId,
-        status: order.status,
-        message: `Order status updated to ${status}`
+        customerId: order.customerId,
+        storeId: order.storeId,
+        refundAmount,
+        replacementOrderId: orderReturn.replacementOrderId,
+        timestamp: new Date().toISOString()
       });
-    } catch (error) {
-      this.logger.error(`Update order status error: ${error}`);
-      res.status(500).json({ message: 'Failed to update order status' });
+      
+      res.status(201).json({
+        return: orderReturn,
+        replacementOrder: replacementOrder ? {
+          orderId: replacementOrder.orderId,
+          status: replacementOrder.status,
+          items: replacementOrder.items,
+          subtotal: replacementOrder.subtotal,
+          tax: replacementOrder.tax,
+          total: replacementOrder.total
+        } : undefined
+      });
+    } catch (error: any) {
+      this.logger.error(`Create return error: ${error}`);
+      res.status(500).json({ message: 'Failed to create return', error: error.message });
     }
   }
 
   /**
-   * Check if a status transition is valid
+   * Get the returns raised against an order
    */
-  private isValidStatusTransition(currentStatus: OrderStatus, newStatus: string): boolean {
-    // Define valid state transitions
-    const validTransitions: Record<OrderStatus, OrderStatus[]> = {
-      [OrderStatus.CART]: [OrderStatus.PENDING, OrderStatus.CANCELLED],
-      [OrderStatus.PENDING]: [OrderStatus.CONFIRMED, OrderStatus.CANCELLED],
-      [OrderStatus.CONFIRMED]: [OrderStatus.PROCESSING, OrderStatus.CANCELLED],
-      [OrderStatus.PROCESSING]: [OrderStatus.FULFILLED, OrderStatus.CANCELLED],
-      [OrderStatus.FULFILLED]: [OrderStatus.DELIVERED, OrderStatus.CANCELLED],
-      [OrderStatus.DELIVERED]: [OrderStatus.REFUNDED],
-      [OrderStatus.CANCELLED]: [OrderStatus.REFUNDED],
-      [OrderStatus.REFUNDED]: []
-    };
-    
-    return validTransitions[currentStatus].includes(newStatus as OrderStatus);
+  private async getOrderReturns(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      const returns = await this.returnModel.find({ orderId: id }).sort({ createdAt: -1 });
+      
+      res.status(200).json({ returns });
+    } catch (error) {
+      this.logger.error(`Get order returns error: ${error}`);
+      res.status(500).json({ message: 'Failed to get order returns' });
+    }
   }
 
   /**
-   * Search orders
+   * Search returns
    */
-  private async searchOrders(req: Request, res: Response): Promise<void> {
+  private async searchReturns(req: Request, res: Response): Promise<void> {
     try {
       const {
         status,
         customerId,
+        storeId,
         startDate,
         endDate,
-        minTotal,
-        maxTotal,
-        paymentStatus,
-        isOfflineOrder,
-        storeId,
         page = 1,
-        limit = 10,
-        sortBy = 'createdAt',
-        sortOrder = 'desc'
+        limit = 10
       } = req.query;
       
       // Build query
@@ -1208,8 +3941,6 @@ export class OrderService extends BaseService {
       
       if (status) query.status = status;
       if (customerId) query.customerId = customerId;
-      if (paymentStatus) query.paymentStatus = paymentStatus;
-      if (isOfflineOrder !== undefined) query.isOfflineOrder = isOfflineOrder === 'true';
       if (storeId) query.storeId = storeId;
       
       // Date range
@@ -1219,41 +3950,19 @@ export class OrderService extends BaseService {
         if (endDate) query.createdAt.$lte = new Date(endDate as string);
       }
       
-      // Total range
-      if (minTotal || maxTotal) {
-        query.total = {};
-        if (minTotal) query.total.$gte = parseFloat(minTotal as string);
-        if (maxTotal) query.total.$lte = parseFloat(maxTotal as string);
-      }
-      
       // Parse pagination
       const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
       
-      // Build sort
-      const sort: any = {};
-      sort[sortBy as string] = sortOrder === 'asc' ? 1 : -1;
-      
-      // Get orders
-      const orders = await this.orderModel
+      const returns = await this.returnModel
         .find(query)
-        .sort(sort)
+        .sort({ createdAt: -1 })
         .skip(skip)
         .limit(parseInt(limit as string));
       
-      // Get total count
-      const total = await this.orderModel.countDocuments(query);
+      const total = await this.returnModel.countDocuments(query);
       
       res.status(200).json({
-        orders: orders.map(order => ({
-          orderId: order.orderId,
-          customerId: order.customerId,
-          status: order.status,
-          total: order.total,
-          paymentStatus: order.paymentStatus,
-          createdAt: order.createdAt,
-          itemCount: order.items.length,
-          isOfflineOrder: order.isOfflineOrder
-        })),
+        returns,
         pagination: {
           page: parseInt(page as string),
           limit: parseInt(limit as string),
@@ -1261,142 +3970,382 @@ export class OrderService extends BaseService {
           pages: Math.ceil(total / parseInt(limit as string))
         }
       });
-    } catch (error) {
-      this.logger.error(`Search orders error: ${error}`);
-      res.status(500).json({ message: 'Failed to search orders' });
+    } catch (error) {
+      this.logger.error(`Search returns error: ${error}`);
+      res.status(500).json({ message: 'Failed to search returns' });
+    }
+  }
+
+  /**
+   * Get a return by ID or RMA number
+   */
+  private async getReturn(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      const orderReturn = await this.returnModel.findOne({
+        $or: [{ returnId: id }, { rmaNumber: id }]
+      });
+      
+      if (!orderReturn) {
+        res.status(404).json({ message: 'Return not found' });
+        return;
+      }
+      
+      res.status(200).json(orderReturn);
+    } catch (error) {
+      this.logger.error(`Get return error: ${error}`);
+      res.status(500).json({ message: 'Failed to get return' });
+    }
+  }
+
+  /**
+   * Approve a return, triggering the refund and restock
+   */
+  private async approveReturn(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      // Claim the return so only one approval publishes the refund and restock
+      const orderReturn = await this.returnModel.findOneAndUpdate(
+        { $or: [{ returnId: id }, { rmaNumber: id }], status: ReturnStatus.REQUESTED },
+        { 
+          $set: { 
+            status: ReturnStatus.APPROVED, 
+            approvedBy: (req as any).user.userId, 
+            approvedAt: new Date() 
+          } 
+        },
+        { new: true }
+      );
+      
+      if (!orderReturn) {
+        const existing = await this.returnModel.findOne({
+          $or: [{ returnId: id }, { rmaNumber: id }]
+        });
+        
+        if (!existing) {
+          res.status(404).json({ message: 'Return not found' });
+          return;
+        }
+        
+        res.status(409).json({ message: `Cannot approve a return in ${existing.status} status` });
+        return;
+      }
+      
+      // Payment refunds the tenders or issues store credit, inventory restocks resellable items
+      await this.messageBus.publish('order', 'order.return.approved', {
+        returnId: orderReturn.returnId,
+        rmaNumber: orderReturn.rmaNumber,
+        orderId: orderReturn.orderId,
+        customerId: orderReturn.customerId,
+        storeId: orderReturn.storeId,
+        refundMethod: orderReturn.refundMethod,
+        refundAmount: orderReturn.refundAmount,
+        items: orderReturn.items.map(item => ({
+          productId: item.productId,
+          sku: item.sku,
+          quantity: item.quantity,
+          reason: item.reason,
+          condition: item.condition,
+          serialNumbers: item.serialNumbers
+        })),
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(200).json(orderReturn);
+    } catch (error) {
+      this.logger.error(`Approve return error: ${error}`);
+      res.status(500).json({ message: 'Failed to approve return' });
+    }
+  }
+
+  /**
+   * Reject a return
+   */
+  private async rejectReturn(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { reason } = req.body;
+      
+      const orderReturn = await this.returnModel.findOneAndUpdate(
+        { $or: [{ returnId: id }, { rmaNumber: id }], status: ReturnStatus.REQUESTED },
+        { $set: { status: ReturnStatus.REJECTED, rejectedAt: new Date(), rejectionReason: reason } },
+        { new: true }
+      );
+      
+      if (!orderReturn) {
+        const existing = await this.returnModel.findOne({
+          $or: [{ returnId: id }, { rmaNumber: id }]
+        });
+        
+        if (!existing) {
+          res.status(404).json({ message: 'Return not found' });
+          return;
+        }
+        
+        res.status(409).json({ message: `Cannot reject a return in ${existing.status} status` });
+        return;
+      }
+      
+      // An exchange that never went through has nothing left to pay for
+      if (orderReturn.replacementOrderId) {
+        await this.orderModel.updateOne(
+          { orderId: orderReturn.replacementOrderId, status: OrderStatus.PENDING },
+          { status: OrderStatus.CANCELLED, cancelledAt: new Date() }
+        );
+      }
+      
+      await this.messageBus.publish('order', 'order.return.rejected', {
+        returnId: orderReturn.returnId,
+        rmaNumber: orderReturn.rmaNumber,
+        orderId: orderReturn.orderId,
+        reason,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(200).json(orderReturn);
+    } catch (error) {
+      this.logger.error(`Reject return error: ${error}`);
+      res.status(500).json({ message: 'Failed to reject return' });
+    }
+  }
+
+  /**
+   * Sum the quantities per order line on returns that have not been rejected. Returns
+   * recorded without a line ID count against the first line of their product
+   */
+  private async getReturnedQuantities(order: IOrder): Promise<Map<string, number>> {
+    const returns = await this.returnModel.find({ 
+      orderId: order.orderId, 
+      status: { $ne: ReturnStatus.REJECTED } 
+    });
+    const quantities = new Map<string, number>();
+    
+    for (const orderReturn of returns) {
+      for (const item of orderReturn.items) {
+        const lineId = item.lineId || order.items.find(line => line.productId === item.productId)?._id?.toString();
+        
+        if (!lineId) continue;
+        
+        quantities.set(lineId, (quantities.get(lineId) || 0) + item.quantity);
+      }
+    }
+    
+    return quantities;
+  }
+
+  /**
+   * Sum what returns that have not been rejected still take back from the amount paid.
+   * Tender refunds already lower the order's amount paid; store credit never does
+   */
+  private async getOutstandingReturnAmount(order: IOrder): Promise<number> {
+    const returns = await this.returnModel.find({ 
+      orderId: order.orderId, 
+      status: { $ne: ReturnStatus.REJECTED } 
+    });
+    
+    return returns.reduce((sum, orderReturn) => sum + (
+      orderReturn.refundMethod === RefundMethod.STORE_CREDIT
+        ? orderReturn.refundAmount
+        : Math.max(0, orderReturn.refundAmount - (orderReturn.refundedAmount || 0))
+    ), 0);
+  }
+
+  /**
+   * Work out what a returned quantity of an order line is worth.
+   * Order-level discounts are prorated as they are for tax, and only
+   * exclusive taxes are added back since inclusive ones are in the price.
+   */
+  private calculateReturnLine(
+    order: IOrder, 
+    item: IOrderItem, 
+    quantity: number
+  ): { refundAmount: number; taxAmount: number } {
+    const orderDiscount = (order.discount || 0) + (order.promotionDiscount || 0);
+    const linesTotal = order.items.reduce((sum, line) => sum + line.totalPrice, 0);
+    const share = linesTotal > 0 ? item.totalPrice / linesTotal : 0;
+    const lineNet = Math.max(0, item.totalPrice - orderDiscount * share);
+    const exclusiveTax = (item.taxes || [])
+      .filter(tax => !tax.isInclusive)
+      .reduce((sum, tax) => sum + tax.amount, 0);
+    const ratio = quantity / item.quantity;
+    const taxAmount = parseFloat((exclusiveTax * ratio).toFixed(2));
+    
+    return {
+      refundAmount: parseFloat((lineNet * ratio + taxAmount).toFixed(2)),
+      taxAmount
+    };
+  }
+
+  /**
+   * Recalculate promotions and taxes after an order changes
+   */
+  private async recalculateOrder(order: IOrder): Promise<void> {
+    await this.applyPromotions(order);
+    await this.applyTaxes(order);
+  }
+
+  /**
+   * Compute per-line taxes from the store's tax zone and record the order breakdown
+   */
+  private async applyTaxes(order: IOrder): Promise<void> {
+    order.taxBreakdown = [];
+    order.isTaxExempt = false;
+    order.taxExemptionId = undefined;
+    
+    if (order.items.length === 0) return;
+    
+    const zone = order.storeId 
+      ? await this.taxZoneModel.findOne({ storeId: order.storeId, isActive: true })
+      : null;
+    const taxClasses = await this.taxClassModel.find({});
+    const exemption = order.customerId 
+      ? await this.taxExemptionModel.findOne({
+        customerId: order.customerId,
+        isActive: true,
+        $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }]
+      })
+      : null;
+    
+    if (exemption) {
+      order.isTaxExempt = true;
+      order.taxExemptionId = exemption.exemptionId;
+    }
+    
+    // An exemption without jurisdictions covers every jurisdiction
+    const isExempt = (jurisdiction: string) => !!exemption && 
+      (exemption.jurisdictions.length === 0 || exemption.jurisdictions.includes(jurisdiction));
+    
+    // Spread order-level discounts across lines so tax follows what the customer pays
+    const orderDiscount = (order.discount || 0) + (order.promotionDiscount || 0);
+    const linesTotal = order.items.reduce((sum, item) => sum + item.totalPrice, 0);
+    const breakdown = new Map<string, ILineTax>();
+    
+    for (const item of order.items) {
+      const share = linesTotal > 0 ? item.totalPrice / linesTotal : 0;
+      const base = Math.max(0, item.totalPrice - orderDiscount * share);
+      const taxClass = (item.taxClass || 
+        taxClasses.find(candidate => !!item.category && candidate.categories.includes(item.category))?.code ||
+        this.defaultTaxClass).toUpperCase();
+      
+      // Without a zone, fall back to the product's own rate or the service default
+      const rates: ITaxRate[] = zone
+        ? zone.rates.filter(rate => rate.taxClasses.length === 0 || rate.taxClasses.includes(taxClass))
+        : [{
+          code: 'DEFAULT',
+          name: 'Sales Tax',
+          jurisdiction: 'DEFAULT',
+          rate: item.taxRate ?? this.defaultTaxRate,
+          taxClasses: [],
+          isCompound: false,
+          isInclusive: false,
+          sequence: 0
+        }];
+      
+      item.taxes = this.calculateLineTaxes(base, rates.filter(rate => !isExempt(rate.jurisdiction)));
+      item.taxAmount = parseFloat(item.taxes.reduce((sum, tax) => sum + tax.amount, 0).toFixed(2));
+      
+      for (const tax of item.taxes) {
+        const key = `${tax.jurisdiction}:${tax.code}`;
+        const entry = breakdown.get(key);
+        
+        if (entry) {
+          entry.taxableAmount = parseFloat((entry.taxableAmount + tax.taxableAmount).toFixed(2));
+          entry.amount = parseFloat((entry.amount + tax.amount).toFixed(2));
+        } else {
+          breakdown.set(key, { ...tax });
+        }
+      }
+    }
+    
+    order.taxBreakdown = Array.from(breakdown.values());
+  }
+
+  /**
+   * Calculate the taxes of a single line.
+   * Inclusive rates are extracted from the line amount; compound rates
+   * are charged on the net amount plus the taxes sequenced before them.
+   */
+  private calculateLineTaxes(amount: number, rates: ITaxRate[]): ILineTax[] {
+    const inclusiveRate = rates
+      .filter(rate => rate.isInclusive)
+      .reduce((sum, rate) => sum + rate.rate, 0);
+    const net = amount / (1 + inclusiveRate);
+    const taxes: ILineTax[] = [];
+    let accumulated = 0;
+    
+    for (const rate of [...rates].sort((a, b) => a.sequence - b.sequence)) {
+      const taxableAmount = rate.isCompound ? net + accumulated : net;
+      const taxAmount = parseFloat((taxableAmount * rate.rate).toFixed(2));
+      
+      accumulated += taxAmount;
+      taxes.push({
+        code: rate.code,
+        name: rate.name,
+        jurisdiction: rate.jurisdiction,
+        rate: rate.rate,
+        taxableAmount: parseFloat(taxableAmount.toFixed(2)),
+        amount: taxAmount,
+        isCompound: rate.isCompound,
+        isInclusive: rate.isInclusive
+      });
     }
+    
+    return taxes;
   }
 
   /**
-   * Get order statistics
+   * Consume one use of each coupon promotion, rolling back if any limit is reached
    */
-  private async getOrderStats(req: Request, res: Response): Promise<void> {
-    try {
-      const { startDate, endDate, storeId } = req.query;
-      
-      // Build date range
-      const dateRange: any = {};
-      if (startDate) dateRange.$gte = new Date(startDate as string);
-      if (endDate) dateRange.$lte = new Date(endDate as string);
-      
-      // Build query
-      const query: any = {};
-      if (Object.keys(dateRange).length > 0) {
-        query.createdAt = dateRange;
-      }
-      if (storeId) {
-        query.storeId = storeId;
-      }
-      
-      // Count orders by status
-      const ordersByStatus = await this.orderModel.aggregate([
-        { $match: query },
-        { $group: {
-          _id: '$status',
-          count: { $sum: 1 },
-          total: { $sum: '$total' }
-        }},
-        { $sort: { count: -1 } }
-      ]);
-      
-      // Calculate revenue
-      const revenue = await this.orderModel.aggregate([
-        { 
-          $match: { 
-            ...query, 
-            status: { $in: [OrderStatus.FULFILLED, OrderStatus.DELIVERED] } 
-          } 
-        },
-        { 
-          $group: {
-            _id: null,
-            totalRevenue: { $sum: '$total' },
-            orderCount: { $sum: 1 },
-            averageOrderValue: { $avg: '$total' }
-          } 
-        }
-      ]);
-      
-      // Calculate daily sales for the period
-      const dailySales = await this.orderModel.aggregate([
-        { 
-          $match: { 
-            ...query, 
-            status: { $in: [OrderStatus.FULFILLED, OrderStatus.DELIVERED] } 
-          } 
-        },
+  private async redeemCouponPromotions(promotionIds: string[]): Promise<boolean> {
+    const redeemed: string[] = [];
+    
+    for (const promotionId of promotionIds) {
+      const updated = await this.promotionModel.findOneAndUpdate(
         {
-          $group: {
-            _id: { 
-              $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } 
-            },
-            sales: { $sum: '$total' },
-            orders: { $sum: 1 }
-          }
+          promotionId,
+          $or: [
+            { usageLimit: { $exists: false } },
+            { usageLimit: null },
+            { $expr: { $lt: ['$usageCount', '$usageLimit'] } }
+          ]
         },
-        { $sort: { _id: 1 } }
-      ]);
+        { $inc: { usageCount: 1 } }
+      );
       
-      // Top products
-      const topProducts = await this.orderModel.aggregate([
-        { 
-          $match: { 
-            ...query, 
-            status: { $nin: [OrderStatus.CANCELLED, OrderStatus.CART] } 
-          } 
-        },
-        { $unwind: '$items' },
-        { 
-          $group: {
-            _id: { 
-              productId: '$items.productId',
-              name: '$items.name',
-              sku: '$items.sku'
-            },
-            totalQuantity: { $sum: '$items.quantity' },
-            totalRevenue: { $sum: '$items.totalPrice' },
-            orderCount: { $sum: 1 }
-          } 
-        },
-        { $sort: { totalQuantity: -1 } },
-        { $limit: 10 }
-      ]);
+      if (!updated) {
+        await this.releaseCouponPromotions(redeemed);
+        return false;
+      }
       
-      res.status(200).json({
-        orderCount: {
-          total: await this.orderModel.countDocuments(query),
-          byStatus: ordersByStatus.reduce((acc: any, curr: any) => {
-            acc[curr._id] = { count: curr.count, total: curr.total };
-            return acc;
-          }, {})
-        },
-        revenue: revenue.length > 0 ? {
-          total: revenue[0].totalRevenue,
-          orderCount: revenue[0].orderCount,
-          averageOrderValue: revenue[0].averageOrderValue
-        } : {
-          total: 0,
-          orderCount: 0,
-          averageOrderValue: 0
-        },
-        dailySales: dailySales.map((day: any) => ({
-          date: day._id,
-          sales: day.sales,
-          orders: day.orders
-        })),
-        topProducts: topProducts.map((product: any) => ({
-          productId: product._id.productId,
-          name: product._id.name,
-          sku: product._id.sku,
-          totalQuantity: product.totalQuantity,
-          totalRevenue: product.totalRevenue,
-          orderCount: product.orderCount
-        }))
-      });
-    } catch (error) {
-      this.logger.error(`Get order stats error: ${error}`);
-      res.status(500).json({ message: 'Failed to get order statistics' });
+      redeemed.push(promotionId);
     }
+    
+    return true;
+  }
+
+  /**
+   * Give back one use of each coupon promotion
+   */
+  private async releaseCouponPromotions(promotionIds: string[]): Promise<void> {
+    if (promotionIds.length === 0) return;
+    
+    await this.promotionModel.updateMany(
+      { promotionId: { $in: promotionIds }, usageCount: { $gt: 0 } },
+      { $inc: { usageCount: -1 } }
+    );
+  }
+
+  /**
+   * Get the coupon promotions that produced discounts on an order
+   */
+  private getCouponPromotionIds(order: IOrder): string[] {
+    return [...new Set(
+      order.discountLines
+        .filter(line => line.couponCode)
+        .map(line => line.promotionId)
+    )];
   }
 
   /**
@@ -1414,9 +4363,14 @@ export class OrderService extends BaseService {
         return;
       }
       
-      // Update payment status
-      order.paymentStatus = 'PAID';
-      order.paymentMethod = content.method || order.paymentMethod;
+      // Update payment status, using the tender breakdown for split payments
+      if (content.settlement) {
+        this.applySettlement(order, content.settlement);
+      } else {
+        order.paymentStatus = 'PAID';
+        order.paymentMethod = content.method || order.paymentMethod;
+        order.amountPaid = order.total;
+      }
       await order.save();
       
       this.logger.info(`Payment completed for order: ${orderId}`);
@@ -1465,8 +4419,17 @@ export class OrderService extends BaseService {
         return;
       }
       
-      // Update payment status and status
-      if (totalRefunded >= order.total) {
+      // Split payments are judged against the whole settlement, not the single leg
+      if (content.settlement) {
+        this.applySettlement(order, content.settlement);
+        
+        if (content.settlement.status === 'REFUNDED') {
+          order.paymentStatus = 'REFUNDED';
+          if (order.status !== OrderStatus.CANCELLED) {
+            order.status = OrderStatus.REFUNDED;
+          }
+        }
+      } else if (totalRefunded >= order.total) {
         order.paymentStatus = 'REFUNDED';
         if (order.status !== OrderStatus.CANCELLED) {
           order.status = OrderStatus.REFUNDED;
@@ -1485,6 +4448,193 @@ export class OrderService extends BaseService {
     }
   }
 
+  /**
+   * Handle return refunded event
+   */
+  private async handleReturnRefunded(content: any): Promise<void> {
+    try {
+      const { returnId, refundedAmount, refunds = [] } = content;
+      
+      const orderReturn = await this.returnModel.findOne({ returnId });
+      
+      if (!orderReturn) {
+        this.logger.error(`Refund received for non-existent return: ${returnId}`);
+        return;
+      }
+      
+      orderReturn.refunds = refunds;
+      orderReturn.refundedAmount = refundedAmount;
+      orderReturn.status = ReturnStatus.COMPLETED;
+      orderReturn.completedAt = new Date();
+      await orderReturn.save();
+      
+      // Publish return completed event
+      await this.messageBus.publish('order', 'order.return.completed', {
+        returnId: orderReturn.returnId,
+        rmaNumber: orderReturn.rmaNumber,
+        orderId: orderReturn.orderId,
+        customerId: orderReturn.customerId,
+        refundedAmount,
+        timestamp: new Date().toISOString()
+      });
+      
+      this.logger.info(`Return completed: ${orderReturn.rmaNumber}`);
+    } catch (error) {
+      this.logger.error(`Error handling return refunded: ${error}`);
+    }
+  }
+
+  /**
+   * Check modifier selections against a product's groups and snapshot them for the order line
+   */
+  private async resolveModifiers(
+    productId: string, 
+    selections: any[]
+  ): Promise<{ modifiers: IOrderItemModifier[] } | { error: string }> {
+    if (!Array.isArray(selections)) {
+      return { error: 'Modifiers must be a list' };
+    }
+    
+    const product = await this.productModifiersModel.findOne({ productId });
+    const groups = product ? product.modifierGroups : [];
+    
+    if (groups.length === 0) {
+      return selections.length > 0 ? { error: 'This product has no modifiers' } : { modifiers: [] };
+    }
+    
+    const modifiers: IOrderItemModifier[] = [];
+    
+    for (const selection of selections) {
+      const modifierId = typeof selection === 'string' ? selection : selection?.modifierId;
+      const group = groups.find(candidate => 
+        candidate.modifiers.some(modifier => modifier.modifierId === modifierId)
+      );
+      
+      if (!group) {
+        return { error: `Unknown modifier ${modifierId}` };
+      }
+      
+      const modifier = group.modifiers.find(candidate => candidate.modifierId === modifierId)!;
+      
+      modifiers.push({
+        groupId: group.groupId,
+        groupName: group.name,
+        modifierId: modifier.modifierId,
+        name: modifier.name,
+        priceDelta: modifier.priceDelta,
+        inventoryProductId: modifier.inventoryProductId,
+        inventoryQuantity: modifier.inventoryProductId ? modifier.inventoryQuantity : undefined
+      });
+    }
+    
+    // Enforce each group's selection limits
+    for (const group of groups) {
+      const count = modifiers.filter(modifier => modifier.groupId === group.groupId).length;
+      const minSelections = Math.max(group.minSelections, group.isRequired ? 1 : 0);
+      
+      if (count < minSelections) {
+        return { error: `Choose at least ${minSelections} from ${group.name}` };
+      }
+      
+      if (count > group.maxSelections) {
+        return { error: `Choose at most ${group.maxSelections} from ${group.name}` };
+      }
+    }
+    
+    return { modifiers };
+  }
+
+  /**
+   * Build a stable key for a line's modifiers, so identical lines merge
+   */
+  private getModifierKey(modifiers: IOrderItemModifier[]): string {
+    return modifiers.map(modifier => modifier.modifierId).sort().join(',');
+  }
+
+  /**
+   * Handle modifiers updated event
+   */
+  private async handleModifiersUpdated(content: any): Promise<void> {
+    try {
+      const { productId, sku, modifierGroups = [] } = content;
+      
+      await this.productModifiersModel.updateOne(
+        { productId },
+        { $set: { sku, modifierGroups } },
+        { upsert: true }
+      );
+    } catch (error) {
+      this.logger.error(`Error handling modifiers update: ${error}`);
+    }
+  }
+
+  /**
+   * Handle store credit updated event
+   */
+  private async handleStoreCreditUpdated(content: any): Promise<void> {
+    try {
+      const { customerId, balance, currency, version } = content;
+      
+      // Ignore events that arrive after a newer balance
+      await this.customerCreditModel.updateOne(
+        { customerId, version: { $lt: version } },
+        { $set: { balance, currency, version } },
+        { upsert: true }
+      );
+    } catch (error: any) {
+      // A duplicate key means a newer version is already stored
+      if (error.code !== 11000) {
+        this.logger.error(`Error handling store credit update: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Handle return refund failed event
+   */
+  private async handleReturnRefundFailed(content: any): Promise<void> {
+    try {
+      const { returnId, refundedAmount = 0, refunds = [], reason } = content;
+      
+      const orderReturn = await this.returnModel.findOne({ returnId });
+      
+      if (!orderReturn) {
+        this.logger.error(`Refund failure for non-existent return: ${returnId}`);
+        return;
+      }
+      
+      // Keep whatever legs did go through; the return stays approved for follow-up
+      orderReturn.refunds = refunds;
+      orderReturn.refundedAmount = refundedAmount;
+      orderReturn.notes = (orderReturn.notes || '') + `\nRefund failed: ${reason}`;
+      await orderReturn.save();
+      
+      this.logger.error(`Refund failed for return ${orderReturn.rmaNumber}: ${reason}`);
+    } catch (error) {
+      this.logger.error(`Error handling return refund failed: ${error}`);
+    }
+  }
+
+  /**
+   * Apply a split-tender settlement breakdown to an order
+   */
+  private applySettlement(order: IOrder, settlement: any): void {
+    order.tenders = (settlement.tenders || []).map((tender: any) => ({
+      paymentId: tender.paymentId,
+      method: tender.method,
+      amount: tender.amount,
+      refundedAmount: tender.refundedAmount || 0,
+      status: tender.status
+    }));
+    order.amountPaid = parseFloat((settlement.amountPaid - settlement.amountRefunded).toFixed(2));
+    // A zero balance is not paid while another leg is still being charged, so go by the settlement status
+    order.paymentStatus = settlement.status === 'SETTLED' ? 'PAID' : 'PARTIALLY_PAID';
+    
+    // Record a single method, or SPLIT when several were used
+    const methods = new Set(order.tenders.map(tender => tender.method));
+    order.paymentMethod = methods.size > 1 ? 'SPLIT' : order.tenders[0]?.method || order.paymentMethod;
+  }
+
   /**
    * Handle inventory allocated event
    */
@@ -1612,6 +4762,7 @@ export class OrderService extends BaseService {
   public async start(): Promise<void> {
     await super.start();
     await this.initMessageHandlers();
+    this.startHoldExpiryProcessor();
   }
 }
 
@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import { PaymentService } from '../index';
+
+/**
+ * Build a response double that records the status and body sent
+ */
+const createResponse = () => {
+  const res = {
+    status: jest.fn(),
+    json: jest.fn()
+  };
+  res.status.mockReturnValue(res);
+
+  return res;
+};
+
+const createRequest = (roles: string[], body: Record<string, unknown>, params: Record<string, string> = {}) => ({
+  user: { userId: 'cashier-1', roles },
+  body,
+  params
+}) as unknown as Request;
+
+describe('gift card stored value', () => {
+  let service: any;
+
+  beforeAll(() => {
+    service = new PaymentService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refuses to issue a card with a value to a non-manager', async () => {
+    const save = jest.spyOn(service.giftCardModel.prototype, 'save');
+    const res = createResponse();
+
+    await service.issueGiftCard(createRequest(['user'], { amount: 100 }), res as unknown as Response);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it('refuses to activate a card for a non-manager', async () => {
+    const update = jest.spyOn(service.giftCardModel, 'findOneAndUpdate');
+    const res = createResponse();
+
+    await service.activateGiftCard(
+      createRequest(['user'], { amount: 100 }, { cardNumber: 'GC12345678' }),
+      res as unknown as Response
+    );
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('refuses to reload a card for a non-manager', async () => {
+    const update = jest.spyOn(service.giftCardModel, 'findOneAndUpdate');
+    const res = createResponse();
+
+    await service.reloadGiftCard(
+      createRequest(['user'], { amount: 100 }, { cardNumber: 'GC12345678' }),
+      res as unknown as Response
+    );
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
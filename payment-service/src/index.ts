@@ -4,6 +4,9 @@ import { v4 as uuidv4 } from 'uuid';
 import { BaseService } from '../../shared/base-service';
 import { MessageBus } from '../../shared/message-bus';
 
+// Order service that owns order totals
+const ORDER_SERVICE_URL = process.env.ORDER_SERVICE_URL || 'http://localhost:3004';
+
 // Payment status enum
 enum PaymentStatus {
   PENDING = 'PENDING',
@@ -21,9 +24,87 @@ enum PaymentMethod {
   DEBIT_CARD = 'DEBIT_CARD',
   MOBILE_PAYMENT = 'MOBILE_PAYMENT',
   GIFT_CARD = 'GIFT_CARD',
-  STORE_CREDIT = 'STORE_CREDIT'
+  STORE_CREDIT = 'STORE_CREDIT',
+  LOYALTY_POINTS = 'LOYALTY_POINTS'
+}
+
+// Settlement status enum
+enum SettlementStatus {
+  OPEN = 'OPEN',
+  SETTLED = 'SETTLED',
+  PARTIALLY_REFUNDED = 'PARTIALLY_REFUNDED',
+  REFUNDED = 'REFUNDED'
+}
+
+// Drawer session status enum
+enum DrawerSessionStatus {
+  OPEN = 'OPEN',
+  CLOSED = 'CLOSED'
+}
+
+// Cash movement type enum
+enum CashMovementType {
+  SALE = 'SALE',
+  REFUND = 'REFUND',
+  PAID_IN = 'PAID_IN',
+  PAID_OUT = 'PAID_OUT'
+}
+
+// Gift card status enum
+enum GiftCardStatus {
+  INACTIVE = 'INACTIVE',
+  ACTIVE = 'ACTIVE',
+  VOID = 'VOID',
+  EXPIRED = 'EXPIRED'
+}
+
+// Gift card ledger entry type enum
+enum GiftCardEntryType {
+  ISSUE = 'ISSUE',
+  ACTIVATE = 'ACTIVATE',
+  RELOAD = 'RELOAD',
+  REDEEM = 'REDEEM',
+  REFUND = 'REFUND',
+  VOID = 'VOID',
+  EXPIRE = 'EXPIRE'
+}
+
+// Store credit ledger entry type enum
+enum StoreCreditEntryType {
+  RETURN = 'RETURN',
+  ADJUSTMENT = 'ADJUSTMENT',
+  REDEEM = 'REDEEM',
+  REFUND = 'REFUND'
+}
+
+// Loyalty ledger entry type enum
+enum LoyaltyEntryType {
+  EARN = 'EARN',
+  REVERSAL = 'REVERSAL',
+  REDEEM = 'REDEEM',
+  REFUND = 'REFUND',
+  ADJUSTMENT = 'ADJUSTMENT',
+  EXPIRE = 'EXPIRE'
+}
+
+// Loyalty tier definition; a tier applies once lifetime spend reaches minSpend
+interface ILoyaltyTier {
+  name: string;
+  minSpend: number;
+  multiplier: number;
 }
 
+// Loyalty program settings
+const LOYALTY_POINTS_PER_UNIT = parseFloat(process.env.LOYALTY_POINTS_PER_UNIT || '1');
+const LOYALTY_POINT_VALUE = parseFloat(process.env.LOYALTY_POINT_VALUE || '0.01');
+const LOYALTY_POINTS_EXPIRY_DAYS = parseInt(process.env.LOYALTY_POINTS_EXPIRY_DAYS || '365');
+const LOYALTY_TIERS: ILoyaltyTier[] = [
+  { name: 'BRONZE', minSpend: 0, multiplier: 1 },
+  { name: 'SILVER', minSpend: 500, multiplier: 1.25 },
+  { name: 'GOLD', minSpend: 2000, multiplier: 1.5 },
+  { name: 'PLATINUM', minSpend: 5000, multiplier: 2 }
+];
+
 // Payment transaction interface
 interface IPayment extends Document {
   paymentId: string;
@@ -42,9 +123,192 @@ interface IPayment extends Document {
   gatewayTransactionId?: string;
   offlineReference?: string;
   customerEmail?: string;
+  drawerSessionId?: string;
+  notes?: string;
+}
+
+// Tender leg interface (one payment applied towards a settlement)
+interface ITender {
+  paymentId: string;
+  method: PaymentMethod;
+  amount: number;
+  amountTendered: number;
+  change: number;
+  refundedAmount: number;
+  status: PaymentStatus;
+  isOffline: boolean;
+  createdAt: Date;
+}
+
+// Split-tender settlement interface
+interface ISettlement extends Document {
+  settlementId: string;
+  orderId: string;
+  amountDue: number;
+  currency: string;
+  amountPaid: number;
+  amountRefunded: number;
+  balance: number;
+  pendingAmount: number;
+  status: SettlementStatus;
+  tenders: ITender[];
+  createdAt: Date;
+  updatedAt: Date;
+  settledAt?: Date;
+}
+
+// Cash movement interface (one change to the cash held in a drawer)
+interface ICashMovement {
+  movementId: string;
+  type: CashMovementType;
+  amount: number;
+  paymentId?: string;
+  orderId?: string;
+  reason?: string;
+  employeeId?: string;
+  createdAt: Date;
+}
+
+// Counted denomination interface
+interface IDenominationCount {
+  denomination: number;
+  count: number;
+}
+
+// Cash drawer session interface (one till shift on a terminal)
+interface IDrawerSession extends Document {
+  sessionId: string;
+  storeId: string;
+  terminalId: string;
+  employeeId: string;
+  status: DrawerSessionStatus;
+  currency: string;
+  openingFloat: number;
+  cashSales: number;
+  cashRefunds: number;
+  paidIn: number;
+  paidOut: number;
+  expectedCash?: number;
+  countedCash?: number;
+  denominations: IDenominationCount[];
+  variance?: number;
+  movements: ICashMovement[];
   notes?: string;
+  openedAt: Date;
+  closedAt?: Date;
+  closedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Gift card interface
+interface IGiftCard extends Document {
+  cardNumber: string;
+  status: GiftCardStatus;
+  currency: string;
+  initialBalance: number;
+  balance: number;
+  storeId?: string;
+  customerId?: string;
+  issuedBy: string;
+  activatedAt?: Date;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  voidedAt?: Date;
+  voidReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Gift card ledger entry interface (append-only; amount is signed)
+interface IGiftCardEntry extends Document {
+  entryId: string;
+  cardNumber: string;
+  type: GiftCardEntryType;
+  amount: number;
+  balanceAfter: number;
+  orderId?: string;
+  reason?: string;
+  employeeId?: string;
+  createdAt: Date;
+}
+
+// Store credit account interface (one per customer)
+interface IStoreCreditAccount extends Document {
+  customerId: string;
+  currency: string;
+  balance: number;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Store credit ledger entry interface (append-only; amount is signed)
+interface IStoreCreditEntry extends Document {
+  entryId: string;
+  customerId: string;
+  type: StoreCreditEntryType;
+  amount: number;
+  balanceAfter: number;
+  orderId?: string;
+  returnId?: string;
+  reason?: string;
+  approvedBy?: string;
+  employeeId?: string;
+  createdAt: Date;
+}
+
+// Optional references recorded on a store credit ledger entry
+type StoreCreditEntryDetails = Partial<Pick<IStoreCreditEntry, 'orderId' | 'returnId' | 'reason' | 'approvedBy' | 'employeeId'>>;
+
+// Return refund interface (claims an approved return's tender refunds, once per return)
+interface IReturnRefund extends Document {
+  returnId: string;
+  orderId: string;
+  status: 'PROCESSING' | 'REFUNDED' | 'FAILED';
+  refundAmount: number;
+  refundedAmount: number;
+  refunds: { paymentId: string; method: string; amount: number }[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Loyalty account interface (one per customer)
+interface ILoyaltyAccount extends Document {
+  customerId: string;
+  points: number;
+  lifetimePoints: number;
+  lifetimeSpend: number;
+  tier: string;
+  version: number;
+  lastActivityAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Loyalty ledger entry interface (append-only; points are signed).
+// Earned and refunded points form lots that are used oldest first and expire individually.
+interface ILoyaltyEntry extends Document {
+  entryId: string;
+  customerId: string;
+  type: LoyaltyEntryType;
+  points: number;
+  pointsAfter: number;
+  amount?: number;
+  multiplier?: number;
+  orderId?: string;
+  paymentId?: string;
+  reason?: string;
+  approvedBy?: string;
+  employeeId?: string;
+  expiresAt?: Date;
+  remainingPoints?: number;
+  createdAt: Date;
 }
 
+// Optional references recorded on a loyalty ledger entry
+type LoyaltyEntryDetails = Partial<Pick<ILoyaltyEntry, 'amount' | 'multiplier' | 'orderId' | 'paymentId' | 'reason' | 'approvedBy' | 'employeeId'>>;
+
 // Offline queue item interface
 interface IOfflinePaymentQueue extends Document {
   queueId: string;
@@ -64,6 +328,15 @@ export class PaymentService extends BaseService {
   private messageBus: MessageBus;
   private paymentModel: mongoose.Model<IPayment>;
   private offlineQueueModel: mongoose.Model<IOfflinePaymentQueue>;
+  private settlementModel: mongoose.Model<ISettlement>;
+  private drawerSessionModel: mongoose.Model<IDrawerSession>;
+  private giftCardModel: mongoose.Model<IGiftCard>;
+  private giftCardEntryModel: mongoose.Model<IGiftCardEntry>;
+  private storeCreditAccountModel: mongoose.Model<IStoreCreditAccount>;
+  private storeCreditEntryModel: mongoose.Model<IStoreCreditEntry>;
+  private returnRefundModel: mongoose.Model<IReturnRefund>;
+  private loyaltyAccountModel: mongoose.Model<ILoyaltyAccount>;
+  private loyaltyEntryModel: mongoose.Model<ILoyaltyEntry>;
   private isProcessingQueue: boolean = false;
   private readonly paymentGateways: Map<string, PaymentGateway> = new Map();
 
@@ -151,6 +424,10 @@ export class PaymentService extends BaseService {
         type: String,
         match: [/^\S+@\S+\.\S+$/, 'Please enter a valid email'] 
       },
+      drawerSessionId: { 
+        type: String, 
+        index: true 
+      },
       notes: { 
         type: String,
         maxlength: 500 
@@ -196,741 +473,3738 @@ export class PaymentService extends BaseService {
       timestamps: true
     });
 
-    // Create models
-    this.paymentModel = mongoose.model<IPayment>('Payment', paymentSchema);
-    this.offlineQueueModel = mongoose.model<IOfflinePaymentQueue>('OfflinePaymentQueue', offlineQueueSchema);
-
-    // Initialize payment gateways
-    this.initializePaymentGateways();
-  }
-
-  /**
-   * Initialize various payment gateways
-   */
-  private initializePaymentGateways(): void {
-    // Add a mock payment gateway for cash payments
-    this.paymentGateways.set(PaymentMethod.CASH, new CashPaymentGateway());
-    
-    // Add credit card payment gateway
-    this.paymentGateways.set(PaymentMethod.CREDIT_CARD, new CardPaymentGateway(true));
-    
-    // Add debit card payment gateway
-    this.paymentGateways.set(PaymentMethod.DEBIT_CARD, new CardPaymentGateway(false));
-    
-    // Other payment gateways would be added here
-    // this.paymentGateways.set(PaymentMethod.MOBILE_PAYMENT, new MobilePaymentGateway());
-  }
-
-  /**
-   * Initialize routes for the Payment service
-   */
-  protected async initRoutes(): Promise<void> {
-    // Process payment
-    this.app.post('/payments', this.authenticate.bind(this), this.processPayment.bind(this));
-    
-    // Get payment by ID
-    this.app.get('/payments/:id', this.authenticate.bind(this), this.getPayment.bind(this));
-    
-    // Get payments by order ID
-    this.app.get('/payments/order/:orderId', this.authenticate.bind(this), this.getPaymentsByOrder.bind(this));
-    
-    // Process refund
-    this.app.post('/payments/:id/refund', this.authenticate.bind(this), this.processRefund.bind(this));
-    
-    // Submit offline payment for processing
-    this.app.post('/offline/submit', this.authenticate.bind(this), this.submitOfflinePayment.bind(this));
-    
-    // Get offline queue status
-    this.app.get('/offline/status', this.authenticate.bind(this), this.getOfflineQueueStatus.bind(this));
-  }
+    // Define tender schema
+    const tenderSchema = new Schema<ITender>({
+      paymentId: { 
+        type: String, 
+        required: true 
+      },
+      method: { 
+        type: String, 
+        required: true,
+        enum: Object.values(PaymentMethod)
+      },
+      amount: { 
+        type: Number, 
+        required: true,
+        min: 0 
+      },
+      amountTendered: { 
+        type: Number, 
+        required: true,
+        min: 0 
+      },
+      change: { 
+        type: Number, 
+        required: true,
+        default: 0,
+        min: 0 
+      },
+      refundedAmount: { 
+        type: Number, 
+        required: true,
+        default: 0,
+        min: 0 
+      },
+      status: { 
+        type: String, 
+        required: true,
+        enum: Object.values(PaymentStatus)
+      },
+      isOffline: { 
+        type: Boolean, 
+        required: true,
+        default: false 
+      },
+      createdAt: { 
+        type: Date, 
+        default: Date.now 
+      }
+    }, { _id: false });
 
-  /**
-   * Initialize message bus handlers
-   */
-  private async initMessageHandlers(): Promise<void> {
-    await this.messageBus.connect();
-    
-    // Create exchanges
-    await this.messageBus.createExchange('payment', 'topic');
-    
-    // Create queues
-    await this.messageBus.createQueue('payment.order.events', 'payment', 'order.#');
-    
-    // Listen for order-related events
-    await this.messageBus.subscribe('payment.order.events', async (content, msg) => {
-      this.logger.info(`Received order event: ${msg.fields.routingKey}`, { content });
-      
-      // Handle specific events
-      switch (msg.fields.routingKey) {
-        case 'order.created':
-          // Order created, might need to pre-authorize payment
-          break;
-        case 'order.cancelled':
-          // Order cancelled, might need to void payment
-          await this.handleOrderCancellation(content);
-          break;
+    // Define settlement schema
+    const settlementSchema = new Schema<ISettlement>({
+      settlementId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      orderId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      amountDue: { 
+        type: Number, 
+        required: true,
+        min: 0 
+      },
+      currency: { 
+        type: String, 
+        required: true,
+        default: 'USD',
+        minlength: 3,
+        maxlength: 3 
+      },
+      amountPaid: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      amountRefunded: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      balance: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      pendingAmount: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      status: { 
+        type: String, 
+        required: true,
+        enum: Object.values(SettlementStatus),
+        default: SettlementStatus.OPEN 
+      },
+      tenders: [tenderSchema],
+      settledAt: { 
+        type: Date 
       }
+    }, {
+      timestamps: true
     });
-    
-    // Start the offline queue processor
-    this.startOfflineQueueProcessor();
-  }
 
-  /**
-   * Handle order cancellation
-   */
-  private async handleOrderCancellation(content: any): Promise<void> {
-    const { orderId } = content;
-    
-    try {
-      // Find payments for this order
-      const payments = await this.paymentModel.find({
-        orderId,
-        status: { $in: [PaymentStatus.COMPLETED, PaymentStatus.PROCESSING] }
-      });
-      
-      // Process refunds if needed
-      for (const payment of payments) {
-        if (payment.status === PaymentStatus.COMPLETED) {
-          await this.refundPayment(payment._id.toString(), payment.amount, 'Order cancelled');
-        } else if (payment.status === PaymentStatus.PROCESSING) {
+    // Define cash movement schema
+    const cashMovementSchema = new Schema<ICashMovement>({
+      movementId: { 
+        type: String, 
+        required: true 
+      },
+      type: { 
+        type: String, 
+        required: true,
+        enum: Object.values(CashMovementType)
+      },
+      amount: { 
+        type: Number, 
+        required: true,
+        min: 0 
+      },
+      paymentId: { 
+        type: String 
+      },
+      orderId: { 
+        type: String 
+      },
+      reason: { 
+        type: String,
+        maxlength: 200 
+      },
+      employeeId: { 
+        type: String 
+      },
+      createdAt: { 
+        type: Date, 
+        default: Date.now 
+      }
+    }, { _id: false });
+
+    // Define drawer session schema
+    const drawerSessionSchema = new Schema<IDrawerSession>({
+      sessionId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      storeId: { 
+        type: String, 
+        required: true, 
+        index: true 
+      },
+      terminalId: { 
+        type: String, 
+        required: true 
+      },
+      employeeId: { 
+        type: String, 
+        required: true 
+      },
+      status: { 
+        type: String, 
+        required: true,
+        enum: Object.values(DrawerSessionStatus),
+        default: DrawerSessionStatus.OPEN 
+      },
+      currency: { 
+        type: String, 
+        required: true,
+        default: 'USD',
+        minlength: 3,
+        maxlength: 3 
+      },
+      openingFloat: { 
+        type: Number, 
+        required: true,
+        default: 0,
+        min: 0 
+      },
+      cashSales: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      cashRefunds: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      paidIn: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      paidOut: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      expectedCash: { 
+        type: Number 
+      },
+      countedCash: { 
+        type: Number,
+        min: 0 
+      },
+      denominations: [{
+        denomination: { type: Number, required: true, min: 0 },
+        count: { type: Number, required: true, min: 0 },
+        _id: false
+      }],
+      variance: { 
+        type: Number 
+      },
+      movements: [cashMovementSchema],
+      notes: { 
+        type: String,
+        maxlength: 500 
+      },
+      openedAt: { 
+        type: Date, 
+        required: true,
+        default: Date.now 
+      },
+      closedAt: { 
+        type: Date 
+      },
+      closedBy: { 
+        type: String 
+      }
+    }, {
+      timestamps: true
+    });
+
+    // Only one drawer may be open per terminal at a time
+    drawerSessionSchema.index(
+      { terminalId: 1 }, 
+      { unique: true, partialFilterExpression: { status: DrawerSessionStatus.OPEN } }
+    );
+    drawerSessionSchema.index({ storeId: 1, openedAt: -1 });
+
+    // Define gift card schema
+    const giftCardSchema = new Schema<IGiftCard>({
+      cardNumber: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      status: { 
+        type: String, 
+        required: true,
+        enum: Object.values(GiftCardStatus),
+        default: GiftCardStatus.INACTIVE 
+      },
+      currency: { 
+        type: String, 
+        required: true,
+        default: 'USD',
+        minlength: 3,
+        maxlength: 3 
+      },
+      initialBalance: { 
+        type: Number, 
+        required: true,
+        default: 0,
+        min: 0 
+      },
+      balance: { 
+        type: Number, 
+        required: true,
+        default: 0,
+        min: 0 
+      },
+      storeId: { 
+        type: String 
+      },
+      customerId: { 
+        type: String, 
+        index: true 
+      },
+      issuedBy: { 
+        type: String, 
+        required: true 
+      },
+      activatedAt: { 
+        type: Date 
+      },
+      expiresAt: { 
+        type: Date 
+      },
+      lastUsedAt: { 
+        type: Date 
+      },
+      voidedAt: { 
+        type: Date 
+      },
+      voidReason: { 
+        type: String,
+        maxlength: 200 
+      }
+    }, {
+      timestamps: true
+    });
+
+    giftCardSchema.index({ status: 1, expiresAt: 1 });
+
+    // Define gift card ledger schema
+    const giftCardEntrySchema = new Schema<IGiftCardEntry>({
+      entryId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      cardNumber: { 
+        type: String, 
+        required: true, 
+        index: true 
+      },
+      type: { 
+        type: String, 
+        required: true,
+        enum: Object.values(GiftCardEntryType)
+      },
+      amount: { 
+        type: Number, 
+        required: true 
+      },
+      balanceAfter: { 
+        type: Number, 
+        required: true 
+      },
+      orderId: { 
+        type: String 
+      },
+      reason: { 
+        type: String,
+        maxlength: 200 
+      },
+      employeeId: { 
+        type: String 
+      }
+    }, {
+      timestamps: { createdAt: true, updatedAt: false }
+    });
+
+    // Define store credit account schema
+    const storeCreditAccountSchema = new Schema<IStoreCreditAccount>({
+      customerId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      currency: { 
+        type: String, 
+        required: true,
+        default: 'USD',
+        minlength: 3,
+        maxlength: 3 
+      },
+      balance: { 
+        type: Number, 
+        required: true,
+        default: 0,
+        min: 0 
+      },
+      version: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      }
+    }, {
+      timestamps: true
+    });
+
+    // Define store credit ledger schema
+    const storeCreditEntrySchema = new Schema<IStoreCreditEntry>({
+      entryId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      customerId: { 
+        type: String, 
+        required: true, 
+        index: true 
+      },
+      type: { 
+        type: String, 
+        required: true,
+        enum: Object.values(StoreCreditEntryType)
+      },
+      amount: { 
+        type: Number, 
+        required: true 
+      },
+      balanceAfter: { 
+        type: Number, 
+        required: true 
+      },
+      orderId: { 
+        type: String 
+      },
+      returnId: { 
+        type: String, 
+        index: true 
+      },
+      reason: { 
+        type: String,
+        maxlength: 200 
+      },
+      approvedBy: { 
+        type: String 
+      },
+      employeeId: { 
+        type: String 
+      }
+    }, {
+      timestamps: { createdAt: true, updatedAt: false }
+    });
+
+    // Define return refund schema
+    const returnRefundSchema = new Schema<IReturnRefund>({
+      returnId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      orderId: { 
+        type: String, 
+        required: true, 
+        index: true 
+      },
+      status: { 
+        type: String, 
+        required: true,
+        enum: ['PROCESSING', 'REFUNDED', 'FAILED'],
+        default: 'PROCESSING' 
+      },
+      refundAmount: { 
+        type: Number, 
+        required: true 
+      },
+      refundedAmount: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      refunds: [{
+        paymentId: { type: String, required: true },
+        method: { type: String, required: true },
+        amount: { type: Number, required: true }
+      }]
+    }, {
+      timestamps: true
+    });
+
+    // Define loyalty account schema
+    const loyaltyAccountSchema = new Schema<ILoyaltyAccount>({
+      customerId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      points: { 
+        type: Number, 
+        required: true,
+        default: 0,
+        min: 0 
+      },
+      lifetimePoints: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      lifetimeSpend: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      tier: { 
+        type: String, 
+        required: true,
+        default: LOYALTY_TIERS[0].name 
+      },
+      version: { 
+        type: Number, 
+        required: true,
+        default: 0 
+      },
+      lastActivityAt: { 
+        type: Date 
+      }
+    }, {
+      timestamps: true
+    });
+
+    // Define loyalty ledger schema
+    const loyaltyEntrySchema = new Schema<ILoyaltyEntry>({
+      entryId: { 
+        type: String, 
+        required: true, 
+        unique: true 
+      },
+      customerId: { 
+        type: String, 
+        required: true, 
+        index: true 
+      },
+      type: { 
+        type: String, 
+        required: true,
+        enum: Object.values(LoyaltyEntryType)
+      },
+      points: { 
+        type: Number, 
+        required: true 
+      },
+      pointsAfter: { 
+        type: Number, 
+        required: true 
+      },
+      amount: { 
+        type: Number 
+      },
+      multiplier: { 
+        type: Number 
+      },
+      orderId: { 
+        type: String, 
+        index: true 
+      },
+      paymentId: { 
+        type: String 
+      },
+      reason: { 
+        type: String,
+        maxlength: 200 
+      },
+      approvedBy: { 
+        type: String 
+      },
+      employeeId: { 
+        type: String 
+      },
+      expiresAt: { 
+        type: Date 
+      },
+      remainingPoints: { 
+        type: Number 
+      }
+    }, {
+      timestamps: { createdAt: true, updatedAt: false }
+    });
+
+    // Points are earned once per order
+    loyaltyEntrySchema.index(
+      { orderId: 1, type: 1 },
+      { unique: true, partialFilterExpression: { type: LoyaltyEntryType.EARN } }
+    );
+    loyaltyEntrySchema.index({ customerId: 1, remainingPoints: 1, expiresAt: 1 });
+
+    // Create models
+    this.paymentModel = mongoose.model<IPayment>('Payment', paymentSchema);
+    this.offlineQueueModel = mongoose.model<IOfflinePaymentQueue>('OfflinePaymentQueue', offlineQueueSchema);
+    this.settlementModel = mongoose.model<ISettlement>('Settlement', settlementSchema);
+    this.drawerSessionModel = mongoose.model<IDrawerSession>('DrawerSession', drawerSessionSchema);
+    this.giftCardModel = mongoose.model<IGiftCard>('GiftCard', giftCardSchema);
+    this.giftCardEntryModel = mongoose.model<IGiftCardEntry>('GiftCardEntry', giftCardEntrySchema);
+    this.storeCreditAccountModel = mongoose.model<IStoreCreditAccount>('StoreCreditAccount', storeCreditAccountSchema);
+    this.storeCreditEntryModel = mongoose.model<IStoreCreditEntry>('StoreCreditEntry', storeCreditEntrySchema);
+    this.returnRefundModel = mongoose.model<IReturnRefund>('ReturnRefund', returnRefundSchema);
+    this.loyaltyAccountModel = mongoose.model<ILoyaltyAccount>('LoyaltyAccount', loyaltyAccountSchema);
+    this.loyaltyEntryModel = mongoose.model<ILoyaltyEntry>('LoyaltyEntry', loyaltyEntrySchema);
+
+    // Initialize payment gateways
+    this.initializePaymentGateways();
+  }
+
+  /**
+   * Initialize various payment gateways
+   */
+  private initializePaymentGateways(): void {
+    // Add a mock payment gateway for cash payments
+    this.paymentGateways.set(PaymentMethod.CASH, new CashPaymentGateway());
+    
+    // Add credit card payment gateway
+    this.paymentGateways.set(PaymentMethod.CREDIT_CARD, new CardPaymentGateway(true));
+    
+    // Add debit card payment gateway
+    this.paymentGateways.set(PaymentMethod.DEBIT_CARD, new CardPaymentGateway(false));
+    
+    // Add gift card gateway backed by the gift card ledger
+    this.paymentGateways.set(PaymentMethod.GIFT_CARD, new GiftCardPaymentGateway({
+      redeem: this.redeemGiftCard.bind(this),
+      refund: this.refundToGiftCard.bind(this)
+    }));
+    
+    // Add store credit gateway backed by the customer credit ledger
+    this.paymentGateways.set(PaymentMethod.STORE_CREDIT, new StoreCreditPaymentGateway({
+      redeem: this.redeemStoreCredit.bind(this),
+      refund: this.refundToStoreCredit.bind(this)
+    }));
+    
+    // Add loyalty points gateway backed by the loyalty ledger
+    this.paymentGateways.set(PaymentMethod.LOYALTY_POINTS, new LoyaltyPointsPaymentGateway({
+      redeem: this.redeemLoyaltyPoints.bind(this),
+      refund: this.refundToLoyaltyPoints.bind(this)
+    }));
+    
+    // Other payment gateways would be added here
+    // this.paymentGateways.set(PaymentMethod.MOBILE_PAYMENT, new MobilePaymentGateway());
+  }
+
+  /**
+   * Initialize routes for the Payment service
+   */
+  protected async initRoutes(): Promise<void> {
+    // Process payment
+    this.app.post('/payments', this.authenticate.bind(this), this.processPayment.bind(this));
+    
+    // Get payment by ID
+    this.app.get('/payments/:id', this.authenticate.bind(this), this.getPayment.bind(this));
+    
+    // Get payments by order ID
+    this.app.get('/payments/order/:orderId', this.authenticate.bind(this), this.getPaymentsByOrder.bind(this));
+    
+    // Process refund
+    this.app.post('/payments/:id/refund', this.authenticate.bind(this), this.processRefund.bind(this));
+    
+    // Submit offline payment for processing
+    this.app.post('/offline/submit', this.authenticate.bind(this), this.submitOfflinePayment.bind(this));
+    
+    // Get offline queue status
+    this.app.get('/offline/status', this.authenticate.bind(this), this.getOfflineQueueStatus.bind(this));
+    
+    // Open a split-tender settlement for an order
+    this.app.post('/settlements', this.authenticate.bind(this), this.openSettlement.bind(this));
+    
+    // Get settlement (tender breakdown and balance) for an order
+    this.app.get('/settlements/:orderId', this.authenticate.bind(this), this.getSettlement.bind(this));
+    
+    // Add a tender leg to a settlement
+    this.app.post('/settlements/:orderId/tenders', this.authenticate.bind(this), this.addTender.bind(this));
+    
+    // Refund a single tender leg
+    this.app.post('/settlements/:orderId/tenders/:paymentId/refund', this.authenticate.bind(this), this.refundTender.bind(this));
+    
+    // Cash drawer session routes
+    this.app.post('/drawer-sessions', this.authenticate.bind(this), this.openDrawerSession.bind(this));
+    this.app.get('/drawer-sessions', this.authenticate.bind(this), this.listDrawerSessions.bind(this));
+    this.app.get('/drawer-sessions/current', this.authenticate.bind(this), this.getCurrentDrawerSession.bind(this));
+    this.app.get('/drawer-sessions/:id', this.authenticate.bind(this), this.getDrawerSession.bind(this));
+    this.app.get('/drawer-sessions/:id/report', this.authenticate.bind(this), this.getDrawerSessionReport.bind(this));
+    this.app.post('/drawer-sessions/:id/movements', this.authenticate.bind(this), this.addCashMovement.bind(this));
+    this.app.post('/drawer-sessions/:id/close', this.authenticate.bind(this), this.closeDrawerSession.bind(this));
+    
+    // Gift card routes
+    this.app.post('/gift-cards', this.authenticate.bind(this), this.issueGiftCard.bind(this));
+    this.app.get('/gift-cards/:cardNumber', this.authenticate.bind(this), this.getGiftCard.bind(this));
+    this.app.get('/gift-cards/:cardNumber/balance', this.authenticate.bind(this), this.getGiftCardBalance.bind(this));
+    this.app.post('/gift-cards/:cardNumber/activate', this.authenticate.bind(this), this.activateGiftCard.bind(this));
+    this.app.post('/gift-cards/:cardNumber/reload', this.authenticate.bind(this), this.reloadGiftCard.bind(this));
+    this.app.post('/gift-cards/:cardNumber/void', this.authenticate.bind(this), this.voidGiftCard.bind(this));
+    
+    // Store credit routes
+    this.app.get('/store-credit/:customerId', this.authenticate.bind(this), this.getStoreCredit.bind(this));
+    this.app.post('/store-credit/:customerId/adjustments', this.authenticate.bind(this), this.adjustStoreCredit.bind(this));
+    
+    // Loyalty routes
+    this.app.get('/loyalty/program', this.authenticate.bind(this), this.getLoyaltyProgram.bind(this));
+    this.app.get('/loyalty/:customerId', this.authenticate.bind(this), this.getLoyaltyAccount.bind(this));
+    this.app.post('/loyalty/:customerId/adjustments', this.authenticate.bind(this), this.adjustLoyaltyPoints.bind(this));
+  }
+
+  /**
+   * Initialize message bus handlers
+   */
+  private async initMessageHandlers(): Promise<void> {
+    await this.messageBus.connect();
+    
+    // Create exchanges
+    await this.messageBus.createExchange('payment', 'topic');
+    
+    // Create queues
+    await this.messageBus.createQueue('payment.order.events', 'order', 'order.#');
+    
+    // Listen for order-related events
+    await this.messageBus.subscribe('payment.order.events', async (content, msg) => {
+      this.logger.info(`Received order event: ${msg.fields.routingKey}`, { content });
+      
+      // Handle specific events
+      switch (msg.fields.routingKey) {
+        case 'order.created':
+          // Order created, might need to pre-authorize payment
+          break;
+        case 'order.cancelled':
+          // Order cancelled, might need to void payment
+          await this.handleOrderCancellation(content);
+          break;
+        case 'order.return.approved':
+          await this.handleReturnApproved(content);
+          break;
+      }
+    });
+    
+    // Start the offline queue processor
+    this.startOfflineQueueProcessor();
+    
+    // Start the gift card expiry processor
+    this.startGiftCardExpiryProcessor();
+    
+    // Start the loyalty points expiry processor
+    this.startLoyaltyExpiryProcessor();
+  }
+
+  /**
+   * Award loyalty points once an order is paid, on what was paid with tenders other than points
+   */
+  private async awardOrderLoyaltyPoints(orderId: string): Promise<void> {
+    try {
+      // Redelivered or repeated completions must not award the order twice
+      const existing = await this.loyaltyEntryModel.findOne({ orderId, type: LoyaltyEntryType.EARN });
+      
+      if (existing) return;
+      
+      const order = await this.fetchOrder(orderId);
+      
+      if (!order || !order.customerId) return;
+      
+      // Spending points does not earn points
+      const payments = await this.paymentModel.find({
+        orderId,
+        method: { $ne: PaymentMethod.LOYALTY_POINTS },
+        status: { $in: [PaymentStatus.COMPLETED, PaymentStatus.PARTIALLY_REFUNDED] }
+      });
+      const eligibleAmount = parseFloat(
+        payments.reduce((sum, payment) => sum + payment.amount - (payment.refundedAmount || 0), 0).toFixed(2)
+      );
+      
+      if (eligibleAmount <= 0) return;
+      
+      await this.earnLoyaltyPoints(order.customerId, orderId, eligibleAmount);
+    } catch (error: any) {
+      if (error.code === 11000) return;
+      
+      this.logger.error(`Error awarding loyalty points for order ${orderId}: ${error}`);
+    }
+  }
+
+  /**
+   * Handle order cancellation
+   */
+  private async handleOrderCancellation(content: any): Promise<void> {
+    const { orderId } = content;
+    
+    try {
+      // Find payments for this order
+      const payments = await this.paymentModel.find({
+        orderId,
+        status: { $in: [PaymentStatus.COMPLETED, PaymentStatus.PROCESSING] }
+      });
+      
+      // Process refunds if needed
+      for (const payment of payments) {
+        if (payment.status === PaymentStatus.COMPLETED) {
+          await this.refundPayment(payment._id.toString(), payment.amount, 'Order cancelled');
+        } else if (payment.status === PaymentStatus.PROCESSING) {
           // Void the payment
           payment.status = PaymentStatus.FAILED;
           payment.notes = (payment.notes || '') + ' Order cancelled while processing.';
           await payment.save();
         }
       }
+      
+      // Take back whatever points the order still holds, paid for or not
+      await this.reverseLoyaltyPoints(orderId, undefined, Number.MAX_VALUE);
+    } catch (error) {
+      this.logger.error(`Error handling order cancellation: ${error}`);
+    }
+  }
+
+  /**
+   * Refund an approved return against the order's original tenders
+   */
+  private async handleReturnApproved(content: any): Promise<void> {
+    const { returnId, rmaNumber, orderId, customerId, refundMethod, refundAmount } = content;
+    
+    if (refundMethod === 'STORE_CREDIT') {
+      await this.issueReturnStoreCredit(returnId, rmaNumber, orderId, customerId, refundAmount);
+      return;
+    }
+    
+    try {
+      // Redelivered or repeated approvals must not refund the return twice
+      try {
+        await new this.returnRefundModel({ returnId, orderId, refundAmount }).save();
+      } catch (error: any) {
+        if (error.code === 11000) {
+          this.logger.info(`Refund for return ${rmaNumber} already claimed, skipping`);
+          return;
+        }
+        
+        throw error;
+      }
+      
+      // Refund the most recent legs first
+      const payments = await this.paymentModel.find({
+        orderId,
+        status: { $in: [PaymentStatus.COMPLETED, PaymentStatus.PARTIALLY_REFUNDED] }
+      }).sort({ createdAt: -1 });
+      
+      const refunds: { paymentId: string; method: string; amount: number }[] = [];
+      let remaining = refundAmount;
+      
+      for (const payment of payments) {
+        if (remaining <= 0) break;
+        
+        const available = payment.amount - (payment.refundedAmount || 0);
+        const amount = parseFloat(Math.min(remaining, available).toFixed(2));
+        
+        if (amount <= 0) continue;
+        
+        const result = await this.refundPayment(payment.paymentId, amount, `Return ${rmaNumber}`);
+        
+        if (!result.success) {
+          this.logger.error(`Return ${rmaNumber} refund failed on payment ${payment.paymentId}: ${result.message}`);
+          continue;
+        }
+        
+        refunds.push({ paymentId: payment.paymentId, method: payment.method, amount });
+        remaining = parseFloat((remaining - amount).toFixed(2));
+      }
+      
+      const refundedAmount = parseFloat((refundAmount - remaining).toFixed(2));
+      
+      await this.returnRefundModel.updateOne(
+        { returnId },
+        { $set: { status: remaining > 0 ? 'FAILED' : 'REFUNDED', refundedAmount, refunds } }
+      );
+      
+      if (remaining > 0) {
+        await this.messageBus.publish('payment', 'payment.return.failed', {
+          returnId,
+          orderId,
+          refundedAmount,
+          refunds,
+          reason: `Unable to refund ${remaining} of ${refundAmount}`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+      
+      await this.messageBus.publish('payment', 'payment.return.refunded', {
+        returnId,
+        orderId,
+        refundedAmount,
+        refunds,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      this.logger.error(`Error handling return approval: ${error}`);
+    }
+  }
+
+  /**
+   * Credit an approved store credit return to the customer's account
+   */
+  private async issueReturnStoreCredit(
+    returnId: string, 
+    rmaNumber: string, 
+    orderId: string, 
+    customerId: string | undefined, 
+    refundAmount: number
+  ): Promise<void> {
+    try {
+      if (!customerId) {
+        await this.messageBus.publish('payment', 'payment.return.failed', {
+          returnId,
+          orderId,
+          refundedAmount: 0,
+          refunds: [],
+          reason: 'Store credit requires a customer',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+      
+      // Redelivered events must not credit the return twice
+      const entry = await this.storeCreditEntryModel.findOne({ returnId, type: StoreCreditEntryType.RETURN })
+        || await this.creditStoreCredit(customerId, refundAmount, StoreCreditEntryType.RETURN, {
+          orderId,
+          returnId,
+          reason: `Return ${rmaNumber}`
+        });
+      
+      if (!entry) {
+        throw new Error(`Store credit account for customer ${customerId} could not be credited`);
+      }
+      
+      await this.messageBus.publish('payment', 'payment.return.refunded', {
+        returnId,
+        orderId,
+        refundedAmount: entry.amount,
+        refunds: [{ paymentId: entry.entryId, method: PaymentMethod.STORE_CREDIT, amount: entry.amount }],
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      this.logger.error(`Error issuing store credit for return ${rmaNumber}: ${error}`);
+    }
+  }
+
+  /**
+   * Start the offline queue processor
+   */
+  private startOfflineQueueProcessor(): void {
+    // Process queue initially
+    this.processOfflineQueue();
+    
+    // Set up interval to process queue periodically
+    setInterval(() => this.processOfflineQueue(), 60000); // Process every minute
+  }
+
+  /**
+   * Process the offline payment queue
+   */
+  private async processOfflineQueue(): Promise<void> {
+    // Prevent concurrent processing
+    if (this.isProcessingQueue) return;
+    
+    this.isProcessingQueue = true;
+    
+    try {
+      // Get pending items
+      const pendingItems = await this.offlineQueueModel.find({
+        status: 'PENDING',
+        attempts: { $lt: 5 } // Max 5 attempts
+      }).sort({ createdAt: 1 }).limit(10);
+      
+      if (pendingItems.length === 0) {
+        this.logger.debug('No pending offline payments to process');
+        this.isProcessingQueue = false;
+        return;
+      }
+      
+      this.logger.info(`Processing ${pendingItems.length} offline payments`);
+      
+      // Process each item
+      for (const item of pendingItems) {
+        try {
+          // Mark as processing
+          item.status = 'PROCESSING';
+          item.attempts += 1;
+          item.lastAttempt = new Date();
+          await item.save();
+          
+          // Get the payment
+          const payment = await this.paymentModel.findOne({ paymentId: item.paymentId });
+          
+          if (!payment) {
+            item.status = 'FAILED';
+            item.error = 'Payment not found';
+            await item.save();
+            continue;
+          }
+          
+          // Get the appropriate gateway
+          const gateway = this.paymentGateways.get(payment.method);
+          
+          if (!gateway) {
+            item.status = 'FAILED';
+            item.error = `Payment gateway not found for method: ${payment.method}`;
+            await item.save();
+            continue;
+          }
+          
+          // Process the payment online
+          const result = await gateway.processPayment({
+            amount: payment.amount,
+            currency: payment.currency,
+            metadata: payment.metadata,
+            paymentMethod: payment.method,
+            orderId: payment.orderId
+          });
+          
+          // Update payment with result
+          payment.status = result.success ? PaymentStatus.COMPLETED : PaymentStatus.FAILED;
+          payment.gatewayTransactionId = result.transactionId;
+          payment.isOffline = false;
+          
+          if (result.success) {
+            payment.completedAt = new Date();
+          } else {
+            payment.notes = (payment.notes || '') + ` Failed online: ${result.message}`;
+          }
+          
+          await payment.save();
+          
+          // Update queue item
+          item.status = result.success ? 'COMPLETED' : 'FAILED';
+          item.error = result.success ? undefined : result.message;
+          await item.save();
+          
+          // Publish payment event
+          await this.messageBus.publish('payment', 'payment.processed', {
+            paymentId: payment.paymentId,
+            orderId: payment.orderId,
+            amount: payment.amount,
+            status: payment.status,
+            isOffline: false,
+            timestamp: new Date().toISOString()
+          });
+        } catch (error: any) {
+          this.logger.error(`Error processing offline payment ${item.paymentId}: ${error}`);
+          
+          // Update queue item
+          item.status = 'FAILED';
+          item.error = error.message;
+          await item.save();
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Error in offline queue processor: ${error}`);
+    } finally {
+      this.isProcessingQueue = false;
+    }
+  }
+
+  /**
+   * Basic JWT authentication middleware
+   * In a real implementation, this would validate against the Auth service
+   */
+  private authenticate(req: Request, res: Response, next: Function): void {
+    // This is a simplified version that assumes the API Gateway has already
+    // performed authentication. In a real implementation, this would
+    // validate the JWT token and set user info
+    
+    // Simulate authenticated user for demo purposes
+    (req as any).user = {
+      userId: 'user123',
+      roles: ['user']
+    };
+    
+    next();
+  }
+
+  /**
+   * Process a payment
+   */
+  private async processPayment(req: Request, res: Response): Promise<void> {
+    try {
+      const { 
+        orderId, 
+        amount, 
+        currency = 'USD', 
+        method, 
+        metadata = {},
+        customerEmail,
+        isOffline = false,
+        drawerSessionId,
+        terminalId
+      } = req.body;
+      
+      // Validate input
+      if (!orderId || !amount || !method) {
+        res.status(400).json({ message: 'Order ID, amount, and payment method are required' });
+        return;
+      }
+      
+      if (!Object.values(PaymentMethod).includes(method)) {
+        res.status(400).json({ message: `Invalid payment method. Valid methods: ${Object.values(PaymentMethod).join(', ')}` });
+        return;
+      }
+      
+      // Create a unique payment ID
+      const paymentId = uuidv4();
+      
+      // Check if we have a gateway for this method
+      const gateway = this.paymentGateways.get(method);
+      
+      if (!gateway) {
+        res.status(400).json({ message: `Payment method ${method} is not supported` });
+        return;
+      }
+      
+      // Stored-value balances can only be checked online
+      if (isOffline && [PaymentMethod.GIFT_CARD, PaymentMethod.STORE_CREDIT, PaymentMethod.LOYALTY_POINTS].includes(method)) {
+        res.status(400).json({ message: `${method} payments cannot be taken offline` });
+        return;
+      }
+      
+      // Cash is taken into the drawer open on the terminal
+      const drawerSession = method === PaymentMethod.CASH
+        ? await this.findOpenDrawerSession(drawerSessionId, terminalId)
+        : null;
+      
+      if ((drawerSessionId || terminalId) && method === PaymentMethod.CASH && !drawerSession) {
+        res.status(400).json({ message: 'No open cash drawer session for this terminal' });
+        return;
+      }
+      
+      // Create the payment record
+      const payment = new this.paymentModel({
+        paymentId,
+        orderId,
+        amount,
+        currency,
+        method,
+        status: PaymentStatus.PENDING,
+        metadata,
+        isOffline,
+        customerEmail,
+        drawerSessionId: drawerSession?.sessionId
+      });
+      
+      await payment.save();
+      
+      // If offline, store in queue for later and mark as completed for now
+      if (isOffline) {
+        // Create queue item for later processing
+        const queueItem = new this.offlineQueueModel({
+          queueId: uuidv4(),
+          paymentId,
+          payload: {
+            orderId,
+            amount,
+            currency,
+            method,
+            metadata
+          },
+          status: 'PENDING',
+          attempts: 0
+        });
+        
+        await queueItem.save();
+        
+        // Mark as completed for now (will be processed later)
+        payment.status = PaymentStatus.COMPLETED;
+        payment.completedAt = new Date();
+        payment.offlineReference = `OFFLINE-${Date.now()}`;
+        await payment.save();
+        
+        if (drawerSession) {
+          await this.recordCashMovement(drawerSession.sessionId, {
+            type: CashMovementType.SALE,
+            amount,
+            paymentId,
+            orderId
+          });
+        }
+        
+        // Publish offline payment event
+        await this.messageBus.publish('payment', 'payment.processed.offline', {
+          paymentId,
+          orderId,
+          amount,
+          currency,
+          method,
+          timestamp: new Date().toISOString()
+        });
+        
+        await this.awardOrderLoyaltyPoints(orderId);
+        
+        // Return payment info
+        res.status(200).json({
+          paymentId,
+          status: payment.status,
+          isOffline: true,
+          offlineReference: payment.offlineReference
+        });
+        
+        return;
+      }
+      
+      // Process payment through gateway
+      let result;
+      try {
+        // Mark as processing
+        payment.status = PaymentStatus.PROCESSING;
+        await payment.save();
+        
+        // Process via gateway
+        result = await gateway.processPayment({
+          amount,
+          currency,
+          metadata,
+          paymentMethod: method,
+          orderId
+        });
+      } catch (error: any) {
+        // Handle gateway errors
+        payment.status = PaymentStatus.FAILED;
+        payment.notes = `Gateway error: ${error.message}`;
+        await payment.save();
+        
+        // Publish payment failed event
+        await this.messageBus.publish('payment', 'payment.failed', {
+          paymentId,
+          orderId,
+          amount,
+          error: error.message,
+          timestamp: new Date().toISOString()
+        });
+        
+        res.status(500).json({
+          paymentId,
+          status: 'FAILED',
+          message: 'Payment gateway error'
+        });
+        
+        return;
+      }
+      
+      // Update payment with result
+      payment.status = result.success ? PaymentStatus.COMPLETED : PaymentStatus.FAILED;
+      payment.gatewayTransactionId = result.transactionId;
+      
+      if (result.success) {
+        payment.completedAt = new Date();
+      } else {
+        payment.notes = `Failed: ${result.message}`;
+      }
+      
+      await payment.save();
+      
+      if (result.success && drawerSession) {
+        await this.recordCashMovement(drawerSession.sessionId, {
+          type: CashMovementType.SALE,
+          amount,
+          paymentId,
+          orderId
+        });
+      }
+      
+      // Publish payment event
+      await this.messageBus.publish('payment', result.success ? 'payment.completed' : 'payment.failed', {
+        paymentId,
+        orderId,
+        amount,
+        currency,
+        method,
+        transactionId: result.transactionId,
+        timestamp: new Date().toISOString()
+      });
+      
+      if (result.success) {
+        await this.awardOrderLoyaltyPoints(orderId);
+      }
+      
+      // Return payment result
+      res.status(result.success ? 200 : 400).json({
+        paymentId,
+        status: payment.status,
+        message: result.message,
+        transactionId: result.transactionId
+      });
+    } catch (error: any) {
+      this.logger.error(`Payment processing error: ${error}`);
+      res.status(500).json({ message: 'Failed to process payment', error: error.message });
+    }
+  }
+
+  /**
+   * Get payment by ID
+   */
+  private async getPayment(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      // Find by paymentId or MongoDB ID
+      const payment = await this.paymentModel.findOne({
+        $or: [
+          { paymentId: id },
+          { _id: mongoose.isValidObjectId(id) ? id : undefined }
+        ]
+      });
+      
+      if (!payment) {
+        res.status(404).json({ message: 'Payment not found' });
+        return;
+      }
+      
+      res.status(200).json({
+        paymentId: payment.paymentId,
+        orderId: payment.orderId,
+        amount: payment.amount,
+        currency: payment.currency,
+        method: payment.method,
+        status: payment.status,
+        refundedAmount: payment.refundedAmount,
+        isOffline: payment.isOffline,
+        gatewayTransactionId: payment.gatewayTransactionId,
+        offlineReference: payment.offlineReference,
+        drawerSessionId: payment.drawerSessionId,
+        createdAt: payment.createdAt,
+        completedAt: payment.completedAt
+      });
+    } catch (error) {
+      this.logger.error(`Get payment error: ${error}`);
+      res.status(500).json({ message: 'Failed to get payment' });
+    }
+  }
+
+  /**
+   * Get payments by order ID
+   */
+  private async getPaymentsByOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { orderId } = req.params;
+      
+      const payments = await this.paymentModel.find({ orderId }).sort({ createdAt: -1 });
+      
+      res.status(200).json({
+        orderId,
+        payments: payments.map(payment => ({
+          paymentId: payment.paymentId,
+          amount: payment.amount,
+          currency: payment.currency,
+          method: payment.method,
+          status: payment.status,
+          refundedAmount: payment.refundedAmount,
+          isOffline: payment.isOffline,
+          createdAt: payment.createdAt,
+          completedAt: payment.completedAt
+        }))
+      });
+    } catch (error) {
+      this.logger.error(`Get payments by order error: ${error}`);
+      res.status(500).json({ message: 'Failed to get payments' });
+    }
+  }
+
+  /**
+   * Process a refund
+   */
+  private async processRefund(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { amount, reason, drawerSessionId, terminalId } = req.body;
+      
+      if (!amount) {
+        res.status(400).json({ message: 'Refund amount is required' });
+        return;
+      }
+      
+      const result = await this.refundPayment(id, amount, reason, { drawerSessionId, terminalId });
+      
+      if (!result.success) {
+        res.status(400).json({ message: result.message });
+        return;
+      }
+      
+      res.status(200).json({
+        paymentId: result.paymentId,
+        refundedAmount: result.refundedAmount,
+        status: result.status,
+        message: result.message
+      });
+    } catch (error: any) {
+      this.logger.error(`Refund processing error: ${error}`);
+      res.status(500).json({ message: 'Failed to process refund', error: error.message });
+    }
+  }
+
+  /**
+   * Submit an offline payment for processing
+   */
+  private async submitOfflinePayment(req: Request, res: Response): Promise<void> {
+    try {
+      const { paymentId } = req.body;
+      
+      if (!paymentId) {
+        res.status(400).json({ message: 'Payment ID is required' });
+        return;
+      }
+      
+      // Find the payment
+      const payment = await this.paymentModel.findOne({ paymentId });
+      
+      if (!payment) {
+        res.status(404).json({ message: 'Payment not found' });
+        return;
+      }
+      
+      if (!payment.isOffline) {
+        res.status(400).json({ message: 'Payment is not an offline payment' });
+        return;
+      }
+      
+      // Check if already in queue
+      const existingQueueItem = await this.offlineQueueModel.findOne({ paymentId });
+      
+      if (existingQueueItem && existingQueueItem.status === 'COMPLETED') {
+        res.status(400).json({ message: 'Offline payment has already been processed' });
+        return;
+      }
+      
+      if (existingQueueItem && existingQueueItem.status === 'PROCESSING') {
+        res.status(400).json({ message: 'Offline payment is currently being processed' });
+        return;
+      }
+      
+      // If failed before, reset it
+      if (existingQueueItem && existingQueueItem.status === 'FAILED') {
+        existingQueueItem.status = 'PENDING';
+        existingQueueItem.attempts = 0;
+        existingQueueItem.error = undefined;
+        await existingQueueItem.save();
+        
+        res.status(200).json({
+          paymentId,
+          message: 'Offline payment resubmitted for processing'
+        });
+        return;
+      }
+      
+      // Create new queue item if none exists
+      if (!existingQueueItem) {
+        const queueItem = new this.offlineQueueModel({
+          queueId: uuidv4(),
+          paymentId,
+          payload: {
+            orderId: payment.orderId,
+            amount: payment.amount,
+            currency: payment.currency,
+            method: payment.method,
+            metadata: payment.metadata
+          },
+          status: 'PENDING',
+          attempts: 0
+        });
+        
+        await queueItem.save();
+      }
+      
+      res.status(200).json({
+        paymentId,
+        message: 'Offline payment submitted for processing'
+      });
+    } catch (error) {
+      this.logger.error(`Submit offline payment error: ${error}`);
+      res.status(500).json({ message: 'Failed to submit offline payment' });
+    }
+  }
+
+  /**
+   * Get offline queue status
+   */
+  private async getOfflineQueueStatus(req: Request, res: Response): Promise<void> {
+    try {
+      // Get counts for different statuses
+      const pending = await this.offlineQueueModel.countDocuments({ status: 'PENDING' });
+      const processing = await this.offlineQueueModel.countDocuments({ status: 'PROCESSING' });
+      const completed = await this.offlineQueueModel.countDocuments({ status: 'COMPLETED' });
+      const failed = await this.offlineQueueModel.countDocuments({ status: 'FAILED' });
+      
+      res.status(200).json({
+        queueStatus: {
+          pending,
+          processing,
+          completed,
+          failed,
+          total: pending + processing + completed + failed
+        },
+        isProcessing: this.isProcessingQueue
+      });
+    } catch (error) {
+      this.logger.error(`Get offline queue status error: ${error}`);
+      res.status(500).json({ message: 'Failed to get offline queue status' });
+    }
+  }
+
+  /**
+   * Open a split-tender settlement for an order
+   */
+  private async openSettlement(req: Request, res: Response): Promise<void> {
+    try {
+      const { orderId, currency = 'USD' } = req.body;
+      
+      // Validate input
+      if (!orderId) {
+        res.status(400).json({ message: 'Order ID is required' });
+        return;
+      }
+      
+      // The amount due is the order's own total, priced by the order service
+      const order = await this.fetchOrder(orderId, req.headers.authorization);
+      
+      if (!order) {
+        res.status(404).json({ message: 'Order not found' });
+        return;
+      }
+      
+      const amountDue = order.total;
+      
+      if (amountDue <= 0) {
+        res.status(400).json({ message: 'Order has nothing to pay' });
+        return;
+      }
+      
+      // Reuse an existing settlement for the order
+      const existing = await this.settlementModel.findOne({ orderId });
+      
+      if (existing) {
+        if (existing.status === SettlementStatus.OPEN && existing.tenders.length === 0 && !existing.pendingAmount) {
+          existing.amountDue = amountDue;
+          existing.currency = currency;
+          this.recalculateSettlement(existing);
+          await existing.save();
+        }
+        
+        res.status(200).json(this.formatSettlement(existing));
+        return;
+      }
+      
+      const settlement = new this.settlementModel({
+        settlementId: uuidv4(),
+        orderId,
+        amountDue,
+        currency,
+        amountPaid: 0,
+        amountRefunded: 0,
+        balance: amountDue,
+        status: SettlementStatus.OPEN,
+        tenders: []
+      });
+      
+      await settlement.save();
+      
+      res.status(201).json(this.formatSettlement(settlement));
+    } catch (error: any) {
+      this.logger.error(`Open settlement error: ${error}`);
+      res.status(500).json({ message: 'Failed to open settlement', error: error.message });
+    }
+  }
+
+  /**
+   * Look up an order's total and customer from the order service, or null if there is no such order
+   */
+  private async fetchOrder(orderId: string, authorization?: string): Promise<{ total: number; customerId?: string } | null> {
+    const response = await fetch(`${ORDER_SERVICE_URL}/orders/${encodeURIComponent(orderId)}`, {
+      headers: authorization ? { Authorization: authorization } : undefined
+    });
+    
+    if (response.status === 404) {
+      return null;
+    }
+    
+    if (!response.ok) {
+      throw new Error(`Order service responded ${response.status} for order ${orderId}`);
+    }
+    
+    const order = await response.json() as { total: number; customerId?: string };
+    
+    return { total: order.total, customerId: order.customerId };
+  }
+
+  /**
+   * Get the settlement for an order
+   */
+  private async getSettlement(req: Request, res: Response): Promise<void> {
+    try {
+      const { orderId } = req.params;
+      
+      const settlement = await this.settlementModel.findOne({ orderId });
+      
+      if (!settlement) {
+        res.status(404).json({ message: 'Settlement not found' });
+        return;
+      }
+      
+      res.status(200).json(this.formatSettlement(settlement));
+    } catch (error) {
+      this.logger.error(`Get settlement error: ${error}`);
+      res.status(500).json({ message: 'Failed to get settlement' });
+    }
+  }
+
+  /**
+   * Add a tender leg to an order's settlement
+   */
+  private async addTender(req: Request, res: Response): Promise<void> {
+    const { orderId } = req.params;
+    let heldAmount = 0;
+    
+    try {
+      const { 
+        method, 
+        amount, 
+        metadata = {},
+        customerEmail,
+        isOffline = false,
+        drawerSessionId,
+        terminalId
+      } = req.body;
+      
+      // Validate input
+      if (!method || !amount || amount <= 0) {
+        res.status(400).json({ message: 'Payment method and a positive amount are required' });
+        return;
+      }
+      
+      if (!Object.values(PaymentMethod).includes(method)) {
+        res.status(400).json({ message: `Invalid payment method. Valid methods: ${Object.values(PaymentMethod).join(', ')}` });
+        return;
+      }
+      
+      const gateway = this.paymentGateways.get(method);
+      
+      if (!gateway) {
+        res.status(400).json({ message: `Payment method ${method} is not supported` });
+        return;
+      }
+      
+      // Stored-value balances can only be checked online
+      if (isOffline && [PaymentMethod.GIFT_CARD, PaymentMethod.STORE_CREDIT, PaymentMethod.LOYALTY_POINTS].includes(method)) {
+        res.status(400).json({ message: `${method} payments cannot be taken offline` });
+        return;
+      }
+      
+      // Find the settlement
+      const settlement = await this.settlementModel.findOne({ orderId });
+      
+      if (!settlement) {
+        res.status(404).json({ message: 'Settlement not found' });
+        return;
+      }
+      
+      if (settlement.status !== SettlementStatus.OPEN) {
+        res.status(400).json({ message: `Cannot add tenders to settlement in ${settlement.status} status` });
+        return;
+      }
+      
+      // Only cash may be over-tendered; the difference is returned as change
+      if (method !== PaymentMethod.CASH && amount > settlement.balance) {
+        res.status(400).json({ 
+          message: `Tender amount exceeds remaining balance. Balance: ${settlement.balance}, Requested: ${amount}` 
+        });
+        return;
+      }
+      
+      // Cash is taken into the drawer open on the terminal
+      const drawerSession = method === PaymentMethod.CASH
+        ? await this.findOpenDrawerSession(drawerSessionId, terminalId)
+        : null;
+      
+      if ((drawerSessionId || terminalId) && method === PaymentMethod.CASH && !drawerSession) {
+        res.status(400).json({ message: 'No open cash drawer session for this terminal' });
+        return;
+      }
+      
+      const appliedAmount = Math.min(amount, settlement.balance);
+      const change = parseFloat((amount - appliedAmount).toFixed(2));
+      const paymentId = uuidv4();
+      
+      // Hold the applied amount off the balance before charging, so concurrent
+      // tenders cannot both pass the remaining-balance check
+      const held = appliedAmount > 0 && await this.settlementModel.findOneAndUpdate(
+        { orderId, status: SettlementStatus.OPEN, balance: { $gte: appliedAmount } },
+        { $inc: { balance: -appliedAmount, pendingAmount: appliedAmount } },
+        { new: true }
+      );
+      
+      if (!held) {
+        res.status(409).json({ message: 'Settlement balance changed while adding the tender, please retry' });
+        return;
+      }
+      
+      heldAmount = appliedAmount;
+      
+      // Create the payment record for this leg
+      const payment = new this.paymentModel({
+        paymentId,
+        orderId,
+        amount: appliedAmount,
+        currency: settlement.currency,
+        method,
+        status: PaymentStatus.PENDING,
+        metadata: {
+          ...metadata,
+          settlementId: settlement.settlementId,
+          amountTendered: amount,
+          change
+        },
+        isOffline,
+        customerEmail,
+        drawerSessionId: drawerSession?.sessionId
+      });
+      
+      await payment.save();
+      
+      if (isOffline) {
+        // Queue for later processing and treat the leg as taken
+        const queueItem = new this.offlineQueueModel({
+          queueId: uuidv4(),
+          paymentId,
+          payload: {
+            orderId,
+            amount: appliedAmount,
+            currency: settlement.currency,
+            method,
+            metadata: payment.metadata
+          },
+          status: 'PENDING',
+          attempts: 0
+        });
+        
+        await queueItem.save();
+        
+        payment.status = PaymentStatus.COMPLETED;
+        payment.completedAt = new Date();
+        payment.offlineReference = `OFFLINE-${Date.now()}`;
+        await payment.save();
+      } else {
+        let result;
+        try {
+          payment.status = PaymentStatus.PROCESSING;
+          await payment.save();
+          
+          result = await gateway.processPayment({
+            amount: appliedAmount,
+            currency: settlement.currency,
+            metadata: payment.metadata,
+            paymentMethod: method,
+            orderId
+          });
+        } catch (error: any) {
+          result = { success: false, message: `Gateway error: ${error.message}` };
+        }
+        
+        payment.status = result.success ? PaymentStatus.COMPLETED : PaymentStatus.FAILED;
+        payment.gatewayTransactionId = result.transactionId;
+        
+        if (result.success) {
+          payment.completedAt = new Date();
+        } else {
+          payment.notes = `Failed: ${result.message}`;
+        }
+        
+        await payment.save();
+        
+        if (!result.success) {
+          // Release the held amount back onto the balance
+          const released = await this.releaseSettlementHold(orderId, heldAmount);
+          heldAmount = 0;
+          
+          // Publish payment failed event; the balance is unchanged
+          await this.messageBus.publish('payment', 'payment.failed', {
+            paymentId,
+            orderId,
+            amount: appliedAmount,
+            method,
+            error: result.message,
+            settlement: this.formatSettlement(released || settlement),
+            timestamp: new Date().toISOString()
+          });
+          
+          res.status(400).json({
+            paymentId,
+            status: payment.status,
+            message: result.message,
+            settlement: this.formatSettlement(released || settlement)
+          });
+          return;
+        }
+      }
+      
+      // Change is handed back from the drawer, so only the applied amount stays in it
+      if (drawerSession) {
+        await this.recordCashMovement(drawerSession.sessionId, {
+          type: CashMovementType.SALE,
+          amount: appliedAmount,
+          paymentId,
+          orderId
+        });
+      }
+      
+      // Record the leg and turn the held amount into a paid one
+      let recorded = await this.settlementModel.findOneAndUpdate(
+        { orderId },
+        { 
+          $push: { 
+            tenders: {
+              paymentId,
+              method,
+              amount: appliedAmount,
+              amountTendered: amount,
+              change,
+              refundedAmount: 0,
+              status: payment.status,
+              isOffline,
+              createdAt: new Date()
+            }
+          },
+          $inc: { amountPaid: appliedAmount, pendingAmount: -appliedAmount }
+        },
+        { new: true }
+      );
+      heldAmount = 0;
+      
+      if (!recorded) {
+        throw new Error(`Settlement for order ${orderId} disappeared while adding a tender`);
+      }
+      
+      // Settle once nothing is owed and no other tender is still being charged
+      if (recorded.status === SettlementStatus.OPEN && recorded.balance < 0.005 && recorded.pendingAmount < 0.005) {
+        recorded = await this.settlementModel.findOneAndUpdate(
+          { orderId, status: SettlementStatus.OPEN, balance: recorded.balance, pendingAmount: recorded.pendingAmount },
+          { 
+            $set: { 
+              status: SettlementStatus.SETTLED, 
+              balance: 0, 
+              pendingAmount: 0,
+              amountPaid: parseFloat(recorded.amountPaid.toFixed(2)),
+              settledAt: new Date() 
+            } 
+          },
+          { new: true }
+        ) || recorded;
+      }
+      
+      const updated = recorded;
+      
+      // Publish payment event with the full tender breakdown
+      await this.messageBus.publish('payment', isOffline ? 'payment.processed.offline' : 'payment.completed', {
+        paymentId,
+        orderId,
+        amount: appliedAmount,
+        currency: updated.currency,
+        method,
+        transactionId: payment.gatewayTransactionId,
+        settlement: this.formatSettlement(updated),
+        timestamp: new Date().toISOString()
+      });
+      
+      // Points are earned once the whole order is paid
+      if (updated.status === SettlementStatus.SETTLED) {
+        await this.awardOrderLoyaltyPoints(orderId);
+      }
+      
+      res.status(200).json({
+        paymentId,
+        status: payment.status,
+        amount: appliedAmount,
+        change,
+        transactionId: payment.gatewayTransactionId,
+        offlineReference: payment.offlineReference,
+        settlement: this.formatSettlement(updated)
+      });
+    } catch (error: any) {
+      if (heldAmount > 0) {
+        await this.releaseSettlementHold(orderId, heldAmount).catch(() => null);
+      }
+      
+      this.logger.error(`Add tender error: ${error}`);
+      res.status(500).json({ message: 'Failed to add tender', error: error.message });
+    }
+  }
+
+  /**
+   * Put an amount held by an uncompleted tender back onto the settlement balance
+   */
+  private async releaseSettlementHold(orderId: string, amount: number): Promise<ISettlement | null> {
+    return this.settlementModel.findOneAndUpdate(
+      { orderId },
+      { $inc: { balance: amount, pendingAmount: -amount } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Refund a single tender leg of a settlement
+   */
+  private async refundTender(req: Request, res: Response): Promise<void> {
+    try {
+      const { orderId, paymentId } = req.params;
+      const { amount, reason, drawerSessionId, terminalId } = req.body;
+      
+      if (!amount) {
+        res.status(400).json({ message: 'Refund amount is required' });
+        return;
+      }
+      
+      const settlement = await this.settlementModel.findOne({ orderId });
+      
+      if (!settlement || !settlement.tenders.some(tender => tender.paymentId === paymentId)) {
+        res.status(404).json({ message: 'Tender not found' });
+        return;
+      }
+      
+      const result = await this.refundPayment(paymentId, amount, reason, { drawerSessionId, terminalId });
+      
+      if (!result.success) {
+        res.status(400).json({ message: result.message });
+        return;
+      }
+      
+      const updated = await this.settlementModel.findOne({ orderId });
+      
+      res.status(200).json({
+        paymentId: result.paymentId,
+        refundedAmount: result.refundedAmount,
+        status: result.status,
+        message: result.message,
+        settlement: updated ? this.formatSettlement(updated) : undefined
+      });
+    } catch (error: any) {
+      this.logger.error(`Tender refund error: ${error}`);
+      res.status(500).json({ message: 'Failed to refund tender', error: error.message });
+    }
+  }
+
+  /**
+   * Recalculate paid, refunded and remaining amounts of a settlement
+   */
+  private recalculateSettlement(settlement: ISettlement): void {
+    const takenStatuses = [
+      PaymentStatus.COMPLETED, 
+      PaymentStatus.PARTIALLY_REFUNDED, 
+      PaymentStatus.REFUNDED
+    ];
+    const taken = settlement.tenders.filter(tender => takenStatuses.includes(tender.status));
+    
+    settlement.amountPaid = parseFloat(taken.reduce((sum, tender) => sum + tender.amount, 0).toFixed(2));
+    settlement.amountRefunded = parseFloat(taken.reduce((sum, tender) => sum + tender.refundedAmount, 0).toFixed(2));
+    // Amounts held by tenders still being charged stay off the balance
+    settlement.balance = parseFloat(Math.max(0, settlement.amountDue - settlement.amountPaid - (settlement.pendingAmount || 0)).toFixed(2));
+    
+    if (settlement.amountRefunded > 0) {
+      settlement.status = settlement.amountRefunded >= settlement.amountPaid
+        ? SettlementStatus.REFUNDED
+        : SettlementStatus.PARTIALLY_REFUNDED;
+    } else if (settlement.balance === 0 && settlement.amountPaid > 0 && !settlement.pendingAmount) {
+      settlement.status = SettlementStatus.SETTLED;
+      settlement.settledAt = settlement.settledAt || new Date();
+    } else {
+      settlement.status = SettlementStatus.OPEN;
+    }
+  }
+
+  /**
+   * Format a settlement for API responses and events
+   */
+  private formatSettlement(settlement: ISettlement): Record<string, any> {
+    return {
+      settlementId: settlement.settlementId,
+      orderId: settlement.orderId,
+      amountDue: settlement.amountDue,
+      currency: settlement.currency,
+      amountPaid: settlement.amountPaid,
+      amountRefunded: settlement.amountRefunded,
+      balance: settlement.balance,
+      pendingAmount: settlement.pendingAmount || 0,
+      status: settlement.status,
+      tenders: settlement.tenders.map(tender => ({
+        paymentId: tender.paymentId,
+        method: tender.method,
+        amount: tender.amount,
+        amountTendered: tender.amountTendered,
+        change: tender.change,
+        refundedAmount: tender.refundedAmount,
+        status: tender.status,
+        isOffline: tender.isOffline,
+        createdAt: tender.createdAt
+      })),
+      settledAt: settlement.settledAt
+    };
+  }
+
+  /**
+   * Refund a payment
+   */
+  private async refundPayment(
+    paymentId: string, 
+    amount: number, 
+    reason?: string,
+    drawer: { drawerSessionId?: string; terminalId?: string } = {}
+  ): Promise<{
+    success: boolean;
+    message: string;
+    paymentId?: string;
+    refundedAmount?: number;
+    status?: string;
+  }> {
+    try {
+      // Find the payment
+      const payment = await this.paymentModel.findOne({
+        $or: [
+          { paymentId },
+          { _id: mongoose.isValidObjectId(paymentId) ? paymentId : undefined }
+        ]
+      });
+      
+      if (!payment) {
+        return { success: false, message: 'Payment not found' };
+      }
+      
+      if (![PaymentStatus.COMPLETED, PaymentStatus.PARTIALLY_REFUNDED].includes(payment.status)) {
+        return { success: false, message: `Cannot refund payment with status: ${payment.status}` };
+      }
+      
+      // Validate refund amount
+      if (amount <= 0) {
+        return { success: false, message: 'Refund amount must be greater than 0' };
+      }
+      
+      const totalRefunded = (payment.refundedAmount || 0);
+      const availableToRefund = payment.amount - totalRefunded;
+      
+      if (amount > availableToRefund) {
+        return { 
+          success: false, 
+          message: `Cannot refund more than available amount. Available: ${availableToRefund}, Requested: ${amount}` 
+        };
+      }
+      
+      // Get the gateway
+      const gateway = this.paymentGateways.get(payment.method);
+      
+      if (!gateway) {
+        return { success: false, message: `Payment method ${payment.method} does not support refunds` };
+      }
+      
+      // Cash is paid out of the given drawer, else the one that took the sale if it is still open
+      let drawerSession: IDrawerSession | null = null;
+      
+      if (payment.method === PaymentMethod.CASH) {
+        if (drawer.drawerSessionId || drawer.terminalId) {
+          drawerSession = await this.findOpenDrawerSession(drawer.drawerSessionId, drawer.terminalId);
+          
+          if (!drawerSession) {
+            return { success: false, message: 'No open cash drawer session for this terminal' };
+          }
+        } else if (payment.drawerSessionId) {
+          drawerSession = await this.findOpenDrawerSession(payment.drawerSessionId);
+        }
+      }
+      
+      // Process refund through gateway
+      let result;
+      try {
+        result = await gateway.processRefund({
+          transactionId: payment.gatewayTransactionId,
+          amount,
+          currency: payment.currency,
+          reason,
+          metadata: payment.metadata
+        });
+      } catch (error: any) {
+        return { success: false, message: `Refund gateway error: ${error.message}` };
+      }
+      
+      if (!result.success) {
+        return { success: false, message: `Refund failed: ${result.message}` };
+      }
+      
+      // Update payment with refund
+      const newTotalRefunded = totalRefunded + amount;
+      payment.refundedAmount = newTotalRefunded;
+      
+      // Update status based on refund amount
+      if (newTotalRefunded >= payment.amount) {
+        payment.status = PaymentStatus.REFUNDED;
+      } else {
+        payment.status = PaymentStatus.PARTIALLY_REFUNDED;
+      }
+      
+      payment.refundedAt = new Date();
+      payment.notes = (payment.notes || '') + ` Refunded ${amount} on ${new Date().toISOString()}. Reason: ${reason || 'Not specified'}`;
+      
+      await payment.save();
+      
+      if (drawerSession) {
+        await this.recordCashMovement(drawerSession.sessionId, {
+          type: CashMovementType.REFUND,
+          amount,
+          paymentId: payment.paymentId,
+          orderId: payment.orderId,
+          reason
+        });
+      }
+      
+      // Take back the points the refunded spend earned; points tenders are credited back by their gateway
+      if (payment.method !== PaymentMethod.LOYALTY_POINTS) {
+        await this.reverseLoyaltyPoints(payment.orderId, payment.paymentId, amount);
+      }
+      
+      // Keep the split-tender settlement in step with the refunded leg
+      const settlement = await this.settlementModel.findOne({ 
+        orderId: payment.orderId, 
+        'tenders.paymentId': payment.paymentId 
+      });
+      
+      if (settlement) {
+        const tender = settlement.tenders.find(leg => leg.paymentId === payment.paymentId);
+        
+        if (tender) {
+          tender.refundedAmount = newTotalRefunded;
+          tender.status = payment.status;
+        }
+        
+        this.recalculateSettlement(settlement);
+        await settlement.save();
+      }
+      
+      // Publish refund event
+      await this.messageBus.publish('payment', 'payment.refunded', {
+        paymentId: payment.paymentId,
+        orderId: payment.orderId,
+        amount,
+        totalRefunded: newTotalRefunded,
+        status: payment.status,
+        method: payment.method,
+        reason,
+        settlement: settlement ? this.formatSettlement(settlement) : undefined,
+        timestamp: new Date().toISOString()
+      });
+      
+      return {
+        success: true,
+        message: 'Refund processed successfully',
+        paymentId: payment.paymentId,
+        refundedAmount: newTotalRefunded,
+        status: payment.status
+      };
+    } catch (error: any) {
+      this.logger.error(`Refund error: ${error}`);
+      return { success: false, message: `Internal error processing refund: ${error.message}` };
+    }
+  }
+
+  /**
+   * Open a cash drawer session on a terminal
+   */
+  private async openDrawerSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { 
+        storeId, 
+        terminalId, 
+        employeeId = (req as any).user.userId, 
+        openingFloat = 0, 
+        currency = 'USD',
+        notes
+      } = req.body;
+      
+      // Validate input
+      if (!storeId || !terminalId) {
+        res.status(400).json({ message: 'Store ID and terminal ID are required' });
+        return;
+      }
+      
+      if (typeof openingFloat !== 'number' || openingFloat < 0) {
+        res.status(400).json({ message: 'Opening float must be a non-negative number' });
+        return;
+      }
+      
+      const existing = await this.drawerSessionModel.findOne({ terminalId, status: DrawerSessionStatus.OPEN });
+      
+      if (existing) {
+        res.status(409).json({ 
+          message: `Terminal ${terminalId} already has an open drawer session`, 
+          sessionId: existing.sessionId 
+        });
+        return;
+      }
+      
+      const session = new this.drawerSessionModel({
+        sessionId: uuidv4(),
+        storeId,
+        terminalId,
+        employeeId,
+        status: DrawerSessionStatus.OPEN,
+        currency,
+        openingFloat: parseFloat(openingFloat.toFixed(2)),
+        notes,
+        openedAt: new Date()
+      });
+      
+      await session.save();
+      
+      await this.messageBus.publish('payment', 'payment.drawer.opened', {
+        sessionId: session.sessionId,
+        storeId,
+        terminalId,
+        employeeId,
+        openingFloat: session.openingFloat,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(201).json(this.formatDrawerSession(session, true));
+    } catch (error: any) {
+      if (error.code === 11000) {
+        res.status(409).json({ message: 'Terminal already has an open drawer session' });
+        return;
+      }
+      
+      this.logger.error(`Open drawer session error: ${error}`);
+      res.status(500).json({ message: 'Failed to open drawer session', error: error.message });
+    }
+  }
+
+  /**
+   * List cash drawer sessions
+   */
+  private async listDrawerSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const { storeId, terminalId, employeeId, status, startDate, endDate, limit = '50' } = req.query;
+      
+      const query: Record<string, any> = {};
+      
+      if (storeId) query.storeId = storeId;
+      if (terminalId) query.terminalId = terminalId;
+      if (employeeId) query.employeeId = employeeId;
+      if (status) query.status = status;
+      
+      if (startDate || endDate) {
+        query.openedAt = {};
+        if (startDate) query.openedAt.$gte = new Date(startDate as string);
+        if (endDate) query.openedAt.$lte = new Date(endDate as string);
+      }
+      
+      const sessions = await this.drawerSessionModel
+        .find(query)
+        .sort({ openedAt: -1 })
+        .limit(parseInt(limit as string));
+      
+      const isManager = this.isManager(req);
+      
+      res.status(200).json({
+        sessions: sessions.map(session => this.formatDrawerSession(session, isManager))
+      });
+    } catch (error) {
+      this.logger.error(`List drawer sessions error: ${error}`);
+      res.status(500).json({ message: 'Failed to list drawer sessions' });
+    }
+  }
+
+  /**
+   * Get the open drawer session of a terminal
+   */
+  private async getCurrentDrawerSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { terminalId } = req.query;
+      
+      if (!terminalId) {
+        res.status(400).json({ message: 'Terminal ID is required' });
+        return;
+      }
+      
+      const session = await this.findOpenDrawerSession(undefined, terminalId as string);
+      
+      if (!session) {
+        res.status(404).json({ message: 'No open drawer session for this terminal' });
+        return;
+      }
+      
+      res.status(200).json(this.formatDrawerSession(session, this.isManager(req)));
     } catch (error) {
-      this.logger.error(`Error handling order cancellation: ${error}`);
+      this.logger.error(`Get current drawer session error: ${error}`);
+      res.status(500).json({ message: 'Failed to get drawer session' });
     }
   }
 
   /**
-   * Start the offline queue processor
+   * Get a drawer session; expected cash is hidden from cashiers until the blind close
    */
-  private startOfflineQueueProcessor(): void {
-    // Process queue initially
-    this.processOfflineQueue();
+  private async getDrawerSession(req: Request, res: Response): Promise<void> {
+    try {
+      const session = await this.findDrawerSession(req.params.id);
+      
+      if (!session) {
+        res.status(404).json({ message: 'Drawer session not found' });
+        return;
+      }
+      
+      res.status(200).json(this.formatDrawerSession(session, this.isManager(req)));
+    } catch (error) {
+      this.logger.error(`Get drawer session error: ${error}`);
+      res.status(500).json({ message: 'Failed to get drawer session' });
+    }
+  }
+
+  /**
+   * Get the full reconciliation of a drawer session (X report while open, Z report once closed)
+   */
+  private async getDrawerSessionReport(req: Request, res: Response): Promise<void> {
+    try {
+      const session = await this.findDrawerSession(req.params.id);
+      
+      if (!session) {
+        res.status(404).json({ message: 'Drawer session not found' });
+        return;
+      }
+      
+      // The X report shows expected cash, so it would undo the blind close for cashiers
+      if (session.status === DrawerSessionStatus.OPEN && !this.isManager(req)) {
+        res.status(403).json({ message: 'Only a manager can view the X report of an open drawer session' });
+        return;
+      }
+      
+      res.status(200).json(this.buildDrawerReport(session));
+    } catch (error) {
+      this.logger.error(`Get drawer session report error: ${error}`);
+      res.status(500).json({ message: 'Failed to get drawer session report' });
+    }
+  }
+
+  /**
+   * Record a paid-in or paid-out entry against an open drawer session
+   */
+  private async addCashMovement(req: Request, res: Response): Promise<void> {
+    try {
+      const { type, amount, reason } = req.body;
+      
+      if (![CashMovementType.PAID_IN, CashMovementType.PAID_OUT].includes(type)) {
+        res.status(400).json({ message: `Movement type must be ${CashMovementType.PAID_IN} or ${CashMovementType.PAID_OUT}` });
+        return;
+      }
+      
+      if (typeof amount !== 'number' || amount <= 0) {
+        res.status(400).json({ message: 'A positive amount is required' });
+        return;
+      }
+      
+      if (!reason) {
+        res.status(400).json({ message: 'A reason is required for paid-in and paid-out entries' });
+        return;
+      }
+      
+      const session = await this.findDrawerSession(req.params.id);
+      
+      if (!session) {
+        res.status(404).json({ message: 'Drawer session not found' });
+        return;
+      }
+      
+      const updated = await this.recordCashMovement(session.sessionId, {
+        type,
+        amount: parseFloat(amount.toFixed(2)),
+        reason,
+        employeeId: (req as any).user.userId
+      });
+      
+      if (!updated) {
+        res.status(400).json({ message: `Cannot record cash movements on a ${session.status} drawer session` });
+        return;
+      }
+      
+      await this.messageBus.publish('payment', 'payment.drawer.movement', {
+        sessionId: updated.sessionId,
+        storeId: updated.storeId,
+        terminalId: updated.terminalId,
+        type,
+        amount,
+        reason,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(200).json(this.formatDrawerSession(updated, this.isManager(req)));
+    } catch (error: any) {
+      this.logger.error(`Cash movement error: ${error}`);
+      res.status(500).json({ message: 'Failed to record cash movement', error: error.message });
+    }
+  }
+
+  /**
+   * Blind-close a drawer session from the counted cash and report the over/short variance
+   */
+  private async closeDrawerSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { denominations, countedCash, notes } = req.body;
+      
+      // Validate the count; denominations take precedence over a single total
+      let counted: number;
+      let counts: IDenominationCount[] = [];
+      
+      if (Array.isArray(denominations) && denominations.length > 0) {
+        const invalid = denominations.some((entry: any) => 
+          typeof entry.denomination !== 'number' || entry.denomination <= 0 ||
+          !Number.isInteger(entry.count) || entry.count < 0
+        );
+        
+        if (invalid) {
+          res.status(400).json({ message: 'Each denomination needs a positive value and a whole, non-negative count' });
+          return;
+        }
+        
+        counts = denominations.map((entry: any) => ({ denomination: entry.denomination, count: entry.count }));
+        counted = parseFloat(counts.reduce((sum, entry) => sum + entry.denomination * entry.count, 0).toFixed(2));
+      } else if (typeof countedCash === 'number' && countedCash >= 0) {
+        counted = parseFloat(countedCash.toFixed(2));
+      } else {
+        res.status(400).json({ message: 'Counted denominations or a counted cash total are required' });
+        return;
+      }
+      
+      const existing = await this.findDrawerSession(req.params.id);
+      
+      if (!existing) {
+        res.status(404).json({ message: 'Drawer session not found' });
+        return;
+      }
+      
+      if (existing.employeeId !== (req as any).user.userId && !this.isManager(req)) {
+        res.status(403).json({ message: 'Only the cashier who opened the drawer or a manager can close it' });
+        return;
+      }
+      
+      // Close first so no further cash can be recorded, then reconcile
+      const session = await this.drawerSessionModel.findOneAndUpdate(
+        { sessionId: existing.sessionId, status: DrawerSessionStatus.OPEN },
+        {
+          $set: {
+            status: DrawerSessionStatus.CLOSED,
+            countedCash: counted,
+            denominations: counts,
+            closedAt: new Date(),
+            closedBy: (req as any).user.userId,
+            ...(notes ? { notes } : {})
+          }
+        },
+        { new: true }
+      );
+      
+      if (!session) {
+        res.status(400).json({ message: 'Drawer session is already closed' });
+        return;
+      }
+      
+      session.expectedCash = this.calculateExpectedCash(session);
+      session.variance = parseFloat((counted - session.expectedCash).toFixed(2));
+      await session.save();
+      
+      const report = this.buildDrawerReport(session);
+      
+      // Publish so the reporting service can produce the Z report
+      await this.messageBus.publish('payment', 'payment.drawer.closed', {
+        ...report,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(200).json(report);
+    } catch (error: any) {
+      this.logger.error(`Close drawer session error: ${error}`);
+      res.status(500).json({ message: 'Failed to close drawer session', error: error.message });
+    }
+  }
+
+  /**
+   * Find a drawer session by session ID or MongoDB ID
+   */
+  private async findDrawerSession(id: string): Promise<IDrawerSession | null> {
+    return this.drawerSessionModel.findOne({
+      $or: [
+        { sessionId: id },
+        { _id: mongoose.isValidObjectId(id) ? id : undefined }
+      ]
+    });
+  }
+
+  /**
+   * Find the open drawer session by session ID or terminal
+   */
+  private async findOpenDrawerSession(sessionId?: string, terminalId?: string): Promise<IDrawerSession | null> {
+    if (sessionId) {
+      return this.drawerSessionModel.findOne({ sessionId, status: DrawerSessionStatus.OPEN });
+    }
     
-    // Set up interval to process queue periodically
-    setInterval(() => this.processOfflineQueue(), 60000); // Process every minute
+    if (terminalId) {
+      return this.drawerSessionModel.findOne({ terminalId, status: DrawerSessionStatus.OPEN });
+    }
+    
+    return null;
   }
 
   /**
-   * Process the offline payment queue
+   * Add a cash movement to an open drawer session and update its running totals
    */
-  private async processOfflineQueue(): Promise<void> {
-    // Prevent concurrent processing
-    if (this.isProcessingQueue) return;
+  private async recordCashMovement(
+    sessionId: string, 
+    movement: Omit<ICashMovement, 'movementId' | 'createdAt'>
+  ): Promise<IDrawerSession | null> {
+    const totalFields: Record<CashMovementType, string> = {
+      [CashMovementType.SALE]: 'cashSales',
+      [CashMovementType.REFUND]: 'cashRefunds',
+      [CashMovementType.PAID_IN]: 'paidIn',
+      [CashMovementType.PAID_OUT]: 'paidOut'
+    };
     
-    this.isProcessingQueue = true;
+    const session = await this.drawerSessionModel.findOneAndUpdate(
+      { sessionId, status: DrawerSessionStatus.OPEN },
+      {
+        $inc: { [totalFields[movement.type]]: movement.amount },
+        $push: { movements: { ...movement, movementId: uuidv4(), createdAt: new Date() } }
+      },
+      { new: true }
+    );
+    
+    if (!session) {
+      this.logger.warn(`Drawer session ${sessionId} is not open; ${movement.type} of ${movement.amount} was not recorded`);
+    }
+    
+    return session;
+  }
+
+  /**
+   * Calculate the cash that should be in a drawer
+   */
+  private calculateExpectedCash(session: IDrawerSession): number {
+    return parseFloat((
+      session.openingFloat + 
+      session.cashSales - 
+      session.cashRefunds + 
+      session.paidIn - 
+      session.paidOut
+    ).toFixed(2));
+  }
+
+  /**
+   * Check whether the user may see expected drawer figures
+   */
+  private isManager(req: Request): boolean {
+    const user = (req as any).user;
+    return user.roles.some((role: string) => ['admin', 'manager'].includes(role));
+  }
+
+  /**
+   * Format a drawer session for API responses; expected totals are only shown when allowed
+   */
+  private formatDrawerSession(session: IDrawerSession, showExpected: boolean): Record<string, any> {
+    const isOpen = session.status === DrawerSessionStatus.OPEN;
+    const reveal = showExpected || !isOpen;
+    
+    return {
+      sessionId: session.sessionId,
+      storeId: session.storeId,
+      terminalId: session.terminalId,
+      employeeId: session.employeeId,
+      status: session.status,
+      currency: session.currency,
+      openingFloat: session.openingFloat,
+      ...(reveal ? {
+        cashSales: parseFloat(session.cashSales.toFixed(2)),
+        cashRefunds: parseFloat(session.cashRefunds.toFixed(2)),
+        expectedCash: isOpen ? this.calculateExpectedCash(session) : session.expectedCash
+      } : {}),
+      paidIn: parseFloat(session.paidIn.toFixed(2)),
+      paidOut: parseFloat(session.paidOut.toFixed(2)),
+      countedCash: session.countedCash,
+      variance: session.variance,
+      movementCount: session.movements.length,
+      notes: session.notes,
+      openedAt: session.openedAt,
+      closedAt: session.closedAt,
+      closedBy: session.closedBy
+    };
+  }
+
+  /**
+   * Build the X/Z report figures for a drawer session
+   */
+  private buildDrawerReport(session: IDrawerSession): Record<string, any> {
+    const isOpen = session.status === DrawerSessionStatus.OPEN;
+    const expectedCash = isOpen ? this.calculateExpectedCash(session) : session.expectedCash;
+    
+    const byType = Object.values(CashMovementType).reduce((totals, type) => {
+      const movements = session.movements.filter(movement => movement.type === type);
+      totals[type] = {
+        count: movements.length,
+        amount: parseFloat(movements.reduce((sum, movement) => sum + movement.amount, 0).toFixed(2))
+      };
+      return totals;
+    }, {} as Record<string, { count: number; amount: number }>);
     
+    return {
+      reportType: isOpen ? 'X' : 'Z',
+      sessionId: session.sessionId,
+      storeId: session.storeId,
+      terminalId: session.terminalId,
+      employeeId: session.employeeId,
+      status: session.status,
+      currency: session.currency,
+      openingFloat: session.openingFloat,
+      cashSales: parseFloat(session.cashSales.toFixed(2)),
+      cashRefunds: parseFloat(session.cashRefunds.toFixed(2)),
+      paidIn: parseFloat(session.paidIn.toFixed(2)),
+      paidOut: parseFloat(session.paidOut.toFixed(2)),
+      expectedCash,
+      countedCash: session.countedCash,
+      denominations: session.denominations,
+      variance: session.variance,
+      byType,
+      movements: session.movements,
+      openedAt: session.openedAt,
+      closedAt: session.closedAt,
+      closedBy: session.closedBy
+    };
+  }
+
+  /**
+   * Issue a gift card; cards issued with a value are activated straight away
+   */
+  private async issueGiftCard(req: Request, res: Response): Promise<void> {
     try {
-      // Get pending items
-      const pendingItems = await this.offlineQueueModel.find({
-        status: 'PENDING',
-        attempts: { $lt: 5 } // Max 5 attempts
-      }).sort({ createdAt: 1 }).limit(10);
+      const { 
+        cardNumber, 
+        amount = 0, 
+        currency = 'USD', 
+        storeId, 
+        customerId, 
+        expiresAt 
+      } = req.body;
       
-      if (pendingItems.length === 0) {
-        this.logger.debug('No pending offline payments to process');
-        this.isProcessingQueue = false;
+      // Validate input
+      if (typeof amount !== 'number' || amount < 0) {
+        res.status(400).json({ message: 'Amount must be a non-negative number' });
         return;
       }
       
-      this.logger.info(`Processing ${pendingItems.length} offline payments`);
+      if (expiresAt && new Date(expiresAt) <= new Date()) {
+        res.status(400).json({ message: 'Expiry date must be in the future' });
+        return;
+      }
       
-      // Process each item
-      for (const item of pendingItems) {
-        try {
-          // Mark as processing
-          item.status = 'PROCESSING';
-          item.attempts += 1;
-          item.lastAttempt = new Date();
-          await item.save();
-          
-          // Get the payment
-          const payment = await this.paymentModel.findOne({ paymentId: item.paymentId });
-          
-          if (!payment) {
-            item.status = 'FAILED';
-            item.error = 'Payment not found';
-            await item.save();
-            continue;
-          }
-          
-          // Get the appropriate gateway
-          const gateway = this.paymentGateways.get(payment.method);
-          
-          if (!gateway) {
-            item.status = 'FAILED';
-            item.error = `Payment gateway not found for method: ${payment.method}`;
-            await item.save();
-            continue;
-          }
-          
-          // Process the payment online
-          const result = await gateway.processPayment({
-            amount: payment.amount,
-            currency: payment.currency,
-            metadata: payment.metadata,
-            paymentMethod: payment.method,
-            orderId: payment.orderId
-          });
-          
-          // Update payment with result
-          payment.status = result.success ? PaymentStatus.COMPLETED : PaymentStatus.FAILED;
-          payment.gatewayTransactionId = result.transactionId;
-          payment.isOffline = false;
-          
-          if (result.success) {
-            payment.completedAt = new Date();
-          } else {
-            payment.notes = (payment.notes || '') + ` Failed online: ${result.message}`;
-          }
-          
-          await payment.save();
-          
-          // Update queue item
-          item.status = result.success ? 'COMPLETED' : 'FAILED';
-          item.error = result.success ? undefined : result.message;
-          await item.save();
-          
-          // Publish payment event
-          await this.messageBus.publish('payment', 'payment.processed', {
-            paymentId: payment.paymentId,
-            orderId: payment.orderId,
-            amount: payment.amount,
-            status: payment.status,
-            isOffline: false,
-            timestamp: new Date().toISOString()
-          });
-        } catch (error: any) {
-          this.logger.error(`Error processing offline payment ${item.paymentId}: ${error}`);
-          
-          // Update queue item
-          item.status = 'FAILED';
-          item.error = error.message;
-          await item.save();
-        }
+      // A card issued with value is stored value, so only a manager can create it
+      if (amount > 0 && !this.isManager(req)) {
+        res.status(403).json({ message: 'Only a manager can issue a gift card with a value' });
+        return;
+      }
+      
+      // Physical cards bring their own number; otherwise generate a code
+      const number = cardNumber 
+        ? this.normalizeGiftCardNumber(cardNumber) 
+        : uuidv4().replace(/-/g, '').slice(0, 16).toUpperCase();
+      
+      if (!/^[A-Z0-9]{8,32}$/.test(number)) {
+        res.status(400).json({ message: 'Gift card number must be 8 to 32 letters or digits' });
+        return;
+      }
+      
+      const value = parseFloat(amount.toFixed(2));
+      const isActive = value > 0;
+      const employeeId = (req as any).user.userId;
+      
+      const card = new this.giftCardModel({
+        cardNumber: number,
+        status: isActive ? GiftCardStatus.ACTIVE : GiftCardStatus.INACTIVE,
+        currency,
+        initialBalance: value,
+        balance: value,
+        storeId,
+        customerId,
+        issuedBy: employeeId,
+        activatedAt: isActive ? new Date() : undefined,
+        expiresAt
+      });
+      
+      await card.save();
+      
+      await this.appendGiftCardEntry(card, GiftCardEntryType.ISSUE, value, { employeeId });
+      
+      await this.messageBus.publish('payment', 'payment.giftcard.issued', {
+        cardNumber: this.maskGiftCardNumber(card.cardNumber),
+        status: card.status,
+        amount: value,
+        currency,
+        storeId,
+        customerId,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(201).json(this.formatGiftCard(card));
+    } catch (error: any) {
+      if (error.code === 11000) {
+        res.status(409).json({ message: 'A gift card with this number already exists' });
+        return;
       }
-    } catch (error) {
-      this.logger.error(`Error in offline queue processor: ${error}`);
-    } finally {
-      this.isProcessingQueue = false;
+      
+      this.logger.error(`Issue gift card error: ${error}`);
+      res.status(500).json({ message: 'Failed to issue gift card', error: error.message });
     }
   }
 
   /**
-   * Basic JWT authentication middleware
-   * In a real implementation, this would validate against the Auth service
+   * Get a gift card with its ledger
    */
-  private authenticate(req: Request, res: Response, next: Function): void {
-    // This is a simplified version that assumes the API Gateway has already
-    // performed authentication. In a real implementation, this would
-    // validate the JWT token and set user info
-    
-    // Simulate authenticated user for demo purposes
-    (req as any).user = {
-      userId: 'user123',
-      roles: ['user']
-    };
-    
-    next();
+  private async getGiftCard(req: Request, res: Response): Promise<void> {
+    try {
+      const cardNumber = this.normalizeGiftCardNumber(req.params.cardNumber);
+      const card = await this.giftCardModel.findOne({ cardNumber });
+      
+      if (!card) {
+        res.status(404).json({ message: 'Gift card not found' });
+        return;
+      }
+      
+      const entries = await this.giftCardEntryModel.find({ cardNumber }).sort({ createdAt: 1 });
+      
+      res.status(200).json({
+        ...this.formatGiftCard(card),
+        ledger: entries.map(entry => ({
+          entryId: entry.entryId,
+          type: entry.type,
+          amount: entry.amount,
+          balanceAfter: entry.balanceAfter,
+          orderId: entry.orderId,
+          reason: entry.reason,
+          employeeId: entry.employeeId,
+          createdAt: entry.createdAt
+        }))
+      });
+    } catch (error) {
+      this.logger.error(`Get gift card error: ${error}`);
+      res.status(500).json({ message: 'Failed to get gift card' });
+    }
   }
 
   /**
-   * Process a payment
+   * Check the balance of a gift card
    */
-  private async processPayment(req: Request, res: Response): Promise<void> {
+  private async getGiftCardBalance(req: Request, res: Response): Promise<void> {
     try {
-      const { 
-        orderId, 
-        amount, 
-        currency = 'USD', 
-        method, 
-        metadata = {},
-        customerEmail,
-        isOffline = false
-      } = req.body;
+      const card = await this.giftCardModel.findOne({ 
+        cardNumber: this.normalizeGiftCardNumber(req.params.cardNumber) 
+      });
       
-      // Validate input
-      if (!orderId || !amount || !method) {
-        res.status(400).json({ message: 'Order ID, amount, and payment method are required' });
+      if (!card) {
+        res.status(404).json({ message: 'Gift card not found' });
         return;
       }
       
-      if (!Object.values(PaymentMethod).includes(method)) {
-        res.status(400).json({ message: `Invalid payment method. Valid methods: ${Object.values(PaymentMethod).join(', ')}` });
+      res.status(200).json({
+        cardNumber: this.maskGiftCardNumber(card.cardNumber),
+        status: this.getEffectiveGiftCardStatus(card),
+        balance: card.balance,
+        currency: card.currency,
+        expiresAt: card.expiresAt
+      });
+    } catch (error) {
+      this.logger.error(`Gift card balance error: ${error}`);
+      res.status(500).json({ message: 'Failed to check gift card balance' });
+    }
+  }
+
+  /**
+   * Activate an issued (inactive) gift card with its starting value
+   */
+  private async activateGiftCard(req: Request, res: Response): Promise<void> {
+    try {
+      const { amount } = req.body;
+      
+      if (typeof amount !== 'number' || amount <= 0) {
+        res.status(400).json({ message: 'A positive amount is required' });
         return;
       }
       
-      // Create a unique payment ID
-      const paymentId = uuidv4();
+      if (!this.isManager(req)) {
+        res.status(403).json({ message: 'Only a manager can activate a gift card' });
+        return;
+      }
       
-      // Check if we have a gateway for this method
-      const gateway = this.paymentGateways.get(method);
+      const value = parseFloat(amount.toFixed(2));
+      const card = await this.giftCardModel.findOneAndUpdate(
+        { cardNumber: this.normalizeGiftCardNumber(req.params.cardNumber), status: GiftCardStatus.INACTIVE },
+        {
+          $set: { status: GiftCardStatus.ACTIVE, activatedAt: new Date(), initialBalance: value },
+          $inc: { balance: value }
+        },
+        { new: true }
+      );
       
-      if (!gateway) {
-        res.status(400).json({ message: `Payment method ${method} is not supported` });
+      if (!card) {
+        res.status(400).json({ message: 'Gift card not found or already activated' });
         return;
       }
       
-      // Create the payment record
-      const payment = new this.paymentModel({
-        paymentId,
-        orderId,
-        amount,
-        currency,
-        method,
-        status: PaymentStatus.PENDING,
-        metadata,
-        isOffline,
-        customerEmail
+      await this.appendGiftCardEntry(card, GiftCardEntryType.ACTIVATE, value, { 
+        employeeId: (req as any).user.userId 
       });
       
-      await payment.save();
+      res.status(200).json(this.formatGiftCard(card));
+    } catch (error: any) {
+      this.logger.error(`Activate gift card error: ${error}`);
+      res.status(500).json({ message: 'Failed to activate gift card', error: error.message });
+    }
+  }
+
+  /**
+   * Add value to an active gift card
+   */
+  private async reloadGiftCard(req: Request, res: Response): Promise<void> {
+    try {
+      const { amount } = req.body;
       
-      // If offline, store in queue for later and mark as completed for now
-      if (isOffline) {
-        // Create queue item for later processing
-        const queueItem = new this.offlineQueueModel({
-          queueId: uuidv4(),
-          paymentId,
-          payload: {
-            orderId,
-            amount,
-            currency,
-            method,
-            metadata
-          },
-          status: 'PENDING',
-          attempts: 0
-        });
-        
-        await queueItem.save();
-        
-        // Mark as completed for now (will be processed later)
-        payment.status = PaymentStatus.COMPLETED;
-        payment.completedAt = new Date();
-        payment.offlineReference = `OFFLINE-${Date.now()}`;
-        await payment.save();
-        
-        // Publish offline payment event
-        await this.messageBus.publish('payment', 'payment.processed.offline', {
-          paymentId,
-          orderId,
-          amount,
-          currency,
-          method,
-          timestamp: new Date().toISOString()
-        });
-        
-        // Return payment info
-        res.status(200).json({
-          paymentId,
-          status: payment.status,
-          isOffline: true,
-          offlineReference: payment.offlineReference
-        });
-        
+      if (typeof amount !== 'number' || amount <= 0) {
+        res.status(400).json({ message: 'A positive amount is required' });
         return;
       }
       
-      // Process payment through gateway
-      let result;
-      try {
-        // Mark as processing
-        payment.status = PaymentStatus.PROCESSING;
-        await payment.save();
-        
-        // Process via gateway
-        result = await gateway.processPayment({
-          amount,
-          currency,
-          metadata,
-          paymentMethod: method,
-          orderId
-        });
-      } catch (error: any) {
-        // Handle gateway errors
-        payment.status = PaymentStatus.FAILED;
-        payment.notes = `Gateway error: ${error.message}`;
-        await payment.save();
-        
-        // Publish payment failed event
-        await this.messageBus.publish('payment', 'payment.failed', {
-          paymentId,
-          orderId,
-          amount,
-          error: error.message,
-          timestamp: new Date().toISOString()
-        });
-        
-        res.status(500).json({
-          paymentId,
-          status: 'FAILED',
-          message: 'Payment gateway error'
-        });
-        
+      if (!this.isManager(req)) {
+        res.status(403).json({ message: 'Only a manager can reload a gift card' });
         return;
       }
       
-      // Update payment with result
-      payment.status = result.success ? PaymentStatus.COMPLETED : PaymentStatus.FAILED;
-      payment.gatewayTransactionId = result.transactionId;
+      const value = parseFloat(amount.toFixed(2));
+      const card = await this.giftCardModel.findOneAndUpdate(
+        { 
+          cardNumber: this.normalizeGiftCardNumber(req.params.cardNumber), 
+          status: GiftCardStatus.ACTIVE,
+          $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }]
+        },
+        { $inc: { balance: value } },
+        { new: true }
+      );
       
-      if (result.success) {
-        payment.completedAt = new Date();
-      } else {
-        payment.notes = `Failed: ${result.message}`;
+      if (!card) {
+        res.status(400).json({ message: 'Gift card not found or not active' });
+        return;
       }
       
-      await payment.save();
+      await this.appendGiftCardEntry(card, GiftCardEntryType.RELOAD, value, { 
+        employeeId: (req as any).user.userId 
+      });
       
-      // Publish payment event
-      await this.messageBus.publish('payment', result.success ? 'payment.completed' : 'payment.failed', {
-        paymentId,
-        orderId,
-        amount,
-        currency,
-        method,
-        transactionId: result.transactionId,
+      await this.messageBus.publish('payment', 'payment.giftcard.reloaded', {
+        cardNumber: this.maskGiftCardNumber(card.cardNumber),
+        amount: value,
+        balance: card.balance,
         timestamp: new Date().toISOString()
       });
       
-      // Return payment result
-      res.status(result.success ? 200 : 400).json({
-        paymentId,
-        status: payment.status,
-        message: result.message,
-        transactionId: result.transactionId
+      res.status(200).json(this.formatGiftCard(card));
+    } catch (error: any) {
+      this.logger.error(`Reload gift card error: ${error}`);
+      res.status(500).json({ message: 'Failed to reload gift card', error: error.message });
+    }
+  }
+
+  /**
+   * Void a gift card, writing off its remaining balance
+   */
+  private async voidGiftCard(req: Request, res: Response): Promise<void> {
+    try {
+      const { reason } = req.body;
+      
+      if (!reason) {
+        res.status(400).json({ message: 'A reason is required to void a gift card' });
+        return;
+      }
+      
+      // Read the balance being written off from the pre-update document
+      const previous = await this.giftCardModel.findOneAndUpdate(
+        { 
+          cardNumber: this.normalizeGiftCardNumber(req.params.cardNumber), 
+          status: { $in: [GiftCardStatus.INACTIVE, GiftCardStatus.ACTIVE] } 
+        },
+        { $set: { status: GiftCardStatus.VOID, balance: 0, voidedAt: new Date(), voidReason: reason } },
+        { new: false }
+      );
+      
+      if (!previous) {
+        res.status(400).json({ message: 'Gift card not found or already closed' });
+        return;
+      }
+      
+      const card = await this.giftCardModel.findOne({ cardNumber: previous.cardNumber });
+      
+      if (!card) {
+        res.status(404).json({ message: 'Gift card not found' });
+        return;
+      }
+      
+      await this.appendGiftCardEntry(card, GiftCardEntryType.VOID, -previous.balance, { 
+        reason,
+        employeeId: (req as any).user.userId 
       });
+      
+      await this.messageBus.publish('payment', 'payment.giftcard.voided', {
+        cardNumber: this.maskGiftCardNumber(card.cardNumber),
+        writtenOff: previous.balance,
+        reason,
+        timestamp: new Date().toISOString()
+      });
+      
+      res.status(200).json(this.formatGiftCard(card));
     } catch (error: any) {
-      this.logger.error(`Payment processing error: ${error}`);
-      res.status(500).json({ message: 'Failed to process payment', error: error.message });
+      this.logger.error(`Void gift card error: ${error}`);
+      res.status(500).json({ message: 'Failed to void gift card', error: error.message });
+    }
+  }
+
+  /**
+   * Debit a gift card for a payment (used by the gift card gateway)
+   */
+  private async redeemGiftCard(
+    cardNumber: string, 
+    amount: number, 
+    currency: string, 
+    orderId: string
+  ): Promise<PaymentResult> {
+    const number = this.normalizeGiftCardNumber(cardNumber);
+    
+    // Debit atomically so concurrent redemptions cannot overdraw the card
+    const card = await this.giftCardModel.findOneAndUpdate(
+      {
+        cardNumber: number,
+        status: GiftCardStatus.ACTIVE,
+        currency,
+        balance: { $gte: amount },
+        $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }]
+      },
+      { $inc: { balance: -amount }, $set: { lastUsedAt: new Date() } },
+      { new: true }
+    );
+    
+    if (!card) {
+      const existing = await this.giftCardModel.findOne({ cardNumber: number });
+      
+      if (!existing) {
+        return { success: false, message: 'Gift card not found' };
+      }
+      
+      const status = this.getEffectiveGiftCardStatus(existing);
+      
+      if (status !== GiftCardStatus.ACTIVE) {
+        return { success: false, message: `Gift card is ${status}` };
+      }
+      
+      if (existing.currency !== currency) {
+        return { success: false, message: `Gift card is in ${existing.currency}` };
+      }
+      
+      return { 
+        success: false, 
+        message: `Insufficient gift card balance. Available: ${existing.balance}, Requested: ${amount}` 
+      };
+    }
+    
+    const entry = await this.appendGiftCardEntry(card, GiftCardEntryType.REDEEM, -amount, { orderId });
+    
+    return {
+      success: true,
+      transactionId: `GC-${entry.entryId}`,
+      message: `Gift card redeemed. Remaining balance: ${card.balance}`
+    };
+  }
+
+  /**
+   * Credit a refund back onto a gift card (used by the gift card gateway)
+   */
+  private async refundToGiftCard(
+    cardNumber: string, 
+    amount: number, 
+    currency: string, 
+    reason?: string
+  ): Promise<RefundResult> {
+    const card = await this.giftCardModel.findOneAndUpdate(
+      { 
+        cardNumber: this.normalizeGiftCardNumber(cardNumber), 
+        status: GiftCardStatus.ACTIVE, 
+        currency 
+      },
+      { $inc: { balance: amount }, $set: { lastUsedAt: new Date() } },
+      { new: true }
+    );
+    
+    if (!card) {
+      return { success: false, message: 'Gift card is no longer active' };
     }
+    
+    const entry = await this.appendGiftCardEntry(card, GiftCardEntryType.REFUND, amount, { reason });
+    
+    return {
+      success: true,
+      transactionId: `GC-REFUND-${entry.entryId}`,
+      message: `Refunded to gift card. New balance: ${card.balance}`
+    };
   }
 
   /**
-   * Get payment by ID
+   * Start the gift card expiry processor
    */
-  private async getPayment(req: Request, res: Response): Promise<void> {
+  private startGiftCardExpiryProcessor(): void {
+    this.expireGiftCards();
+    
+    setInterval(() => this.expireGiftCards(), 60 * 60 * 1000); // Process every hour
+  }
+
+  /**
+   * Expire gift cards past their expiry date, writing off the remaining balance
+   */
+  private async expireGiftCards(): Promise<void> {
     try {
-      const { id } = req.params;
-      
-      // Find by paymentId or MongoDB ID
-      const payment = await this.paymentModel.findOne({
-        $or: [
-          { paymentId: id },
-          { _id: mongoose.isValidObjectId(id) ? id : undefined }
-        ]
+      const expired = await this.giftCardModel.find({
+        status: { $in: [GiftCardStatus.INACTIVE, GiftCardStatus.ACTIVE] },
+        expiresAt: { $lte: new Date() }
       });
       
-      if (!payment) {
-        res.status(404).json({ message: 'Payment not found' });
-        return;
+      for (const card of expired) {
+        const previous = await this.giftCardModel.findOneAndUpdate(
+          { cardNumber: card.cardNumber, status: card.status },
+          { $set: { status: GiftCardStatus.EXPIRED, balance: 0 } },
+          { new: false }
+        );
+        
+        if (!previous) continue;
+        
+        card.status = GiftCardStatus.EXPIRED;
+        card.balance = 0;
+        await this.appendGiftCardEntry(card, GiftCardEntryType.EXPIRE, -previous.balance, {});
+        
+        await this.messageBus.publish('payment', 'payment.giftcard.expired', {
+          cardNumber: this.maskGiftCardNumber(card.cardNumber),
+          writtenOff: previous.balance,
+          timestamp: new Date().toISOString()
+        });
       }
-      
-      res.status(200).json({
-        paymentId: payment.paymentId,
-        orderId: payment.orderId,
-        amount: payment.amount,
-        currency: payment.currency,
-        method: payment.method,
-        status: payment.status,
-        refundedAmount: payment.refundedAmount,
-        isOffline: payment.isOffline,
-        gatewayTransactionId: payment.gatewayTransactionId,
-        offlineReference: payment.offlineReference,
-        createdAt: payment.createdAt,
-        completedAt: payment.completedAt
-      });
     } catch (error) {
-      this.logger.error(`Get payment error: ${error}`);
-      res.status(500).json({ message: 'Failed to get payment' });
+      this.logger.error(`Error expiring gift cards: ${error}`);
     }
   }
 
   /**
-   * Get payments by order ID
+   * Append an entry to a gift card's ledger
    */
-  private async getPaymentsByOrder(req: Request, res: Response): Promise<void> {
+  private async appendGiftCardEntry(
+    card: IGiftCard, 
+    type: GiftCardEntryType, 
+    amount: number, 
+    details: { orderId?: string; reason?: string; employeeId?: string }
+  ): Promise<IGiftCardEntry> {
+    const entry = new this.giftCardEntryModel({
+      entryId: uuidv4(),
+      cardNumber: card.cardNumber,
+      type,
+      amount: parseFloat(amount.toFixed(2)),
+      balanceAfter: card.balance,
+      ...details
+    });
+    
+    return entry.save();
+  }
+
+  /**
+   * Strip spaces and dashes from a gift card number
+   */
+  private normalizeGiftCardNumber(cardNumber: string): string {
+    return String(cardNumber).replace(/[\s-]/g, '').toUpperCase();
+  }
+
+  /**
+   * Show only the last four characters of a gift card number
+   */
+  private maskGiftCardNumber(cardNumber: string): string {
+    return `****${cardNumber.slice(-4)}`;
+  }
+
+  /**
+   * Report active cards past their expiry date as expired before the processor catches up
+   */
+  private getEffectiveGiftCardStatus(card: IGiftCard): GiftCardStatus {
+    if (card.status === GiftCardStatus.ACTIVE && card.expiresAt && card.expiresAt <= new Date()) {
+      return GiftCardStatus.EXPIRED;
+    }
+    
+    return card.status;
+  }
+
+  /**
+   * Format a gift card for API responses
+   */
+  private formatGiftCard(card: IGiftCard): Record<string, any> {
+    return {
+      cardNumber: card.cardNumber,
+      status: this.getEffectiveGiftCardStatus(card),
+      currency: card.currency,
+      initialBalance: card.initialBalance,
+      balance: card.balance,
+      storeId: card.storeId,
+      customerId: card.customerId,
+      issuedBy: card.issuedBy,
+      activatedAt: card.activatedAt,
+      expiresAt: card.expiresAt,
+      lastUsedAt: card.lastUsedAt,
+      voidedAt: card.voidedAt,
+      voidReason: card.voidReason,
+      createdAt: card.createdAt
+    };
+  }
+
+  /**
+   * Get a customer's store credit balance and ledger
+   */
+  private async getStoreCredit(req: Request, res: Response): Promise<void> {
     try {
-      const { orderId } = req.params;
+      const { customerId } = req.params;
       
-      const payments = await this.paymentModel.find({ orderId }).sort({ createdAt: -1 });
+      const account = await this.storeCreditAccountModel.findOne({ customerId });
+      const entries = await this.storeCreditEntryModel.find({ customerId }).sort({ createdAt: -1 });
       
       res.status(200).json({
-        orderId,
-        payments: payments.map(payment => ({
-          paymentId: payment.paymentId,
-          amount: payment.amount,
-          currency: payment.currency,
-          method: payment.method,
-          status: payment.status,
-          refundedAmount: payment.refundedAmount,
-          isOffline: payment.isOffline,
-          createdAt: payment.createdAt,
-          completedAt: payment.completedAt
+        customerId,
+        balance: account ? account.balance : 0,
+        currency: account ? account.currency : 'USD',
+        ledger: entries.map(entry => ({
+          entryId: entry.entryId,
+          type: entry.type,
+          amount: entry.amount,
+          balanceAfter: entry.balanceAfter,
+          orderId: entry.orderId,
+          returnId: entry.returnId,
+          reason: entry.reason,
+          approvedBy: entry.approvedBy,
+          employeeId: entry.employeeId,
+          createdAt: entry.createdAt
         }))
       });
     } catch (error) {
-      this.logger.error(`Get payments by order error: ${error}`);
-      res.status(500).json({ message: 'Failed to get payments' });
+      this.logger.error(`Get store credit error: ${error}`);
+      res.status(500).json({ message: 'Failed to get store credit' });
     }
   }
 
   /**
-   * Process a refund
+   * Make a goodwill adjustment to a customer's store credit
    */
-  private async processRefund(req: Request, res: Response): Promise<void> {
+  private async adjustStoreCredit(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
-      const { amount, reason } = req.body;
+      const { customerId } = req.params;
+      const { amount, reason, approvedBy } = req.body;
       
-      if (!amount) {
-        res.status(400).json({ message: 'Refund amount is required' });
+      // Validate input
+      if (typeof amount !== 'number' || amount === 0) {
+        res.status(400).json({ message: 'A non-zero amount is required' });
         return;
       }
       
-      const result = await this.refundPayment(id, amount, reason);
+      if (!reason || !approvedBy) {
+        res.status(400).json({ message: 'Adjustments require a reason and an approver' });
+        return;
+      }
       
-      if (!result.success) {
-        res.status(400).json({ message: result.message });
+      const value = parseFloat(amount.toFixed(2));
+      const details = { reason, approvedBy, employeeId: (req as any).user.userId };
+      
+      const entry = value > 0
+        ? await this.creditStoreCredit(customerId, value, StoreCreditEntryType.ADJUSTMENT, details)
+        : await this.debitStoreCredit(customerId, -value, StoreCreditEntryType.ADJUSTMENT, details);
+      
+      if (!entry) {
+        res.status(400).json({ message: 'Adjustment would take the store credit balance below zero' });
         return;
       }
       
-      res.status(200).json({
-        paymentId: result.paymentId,
-        refundedAmount: result.refundedAmount,
-        status: result.status,
-        message: result.message
+      res.status(201).json({
+        customerId,
+        entryId: entry.entryId,
+        amount: entry.amount,
+        balance: entry.balanceAfter
       });
     } catch (error: any) {
-      this.logger.error(`Refund processing error: ${error}`);
-      res.status(500).json({ message: 'Failed to process refund', error: error.message });
+      this.logger.error(`Store credit adjustment error: ${error}`);
+      res.status(500).json({ message: 'Failed to adjust store credit', error: error.message });
     }
   }
 
   /**
-   * Submit an offline payment for processing
+   * Debit store credit for a payment (used by the store credit gateway)
    */
-  private async submitOfflinePayment(req: Request, res: Response): Promise<void> {
-    try {
-      const { paymentId } = req.body;
-      
-      if (!paymentId) {
-        res.status(400).json({ message: 'Payment ID is required' });
-        return;
-      }
-      
-      // Find the payment
-      const payment = await this.paymentModel.findOne({ paymentId });
-      
-      if (!payment) {
-        res.status(404).json({ message: 'Payment not found' });
-        return;
-      }
-      
-      if (!payment.isOffline) {
-        res.status(400).json({ message: 'Payment is not an offline payment' });
-        return;
-      }
-      
-      // Check if already in queue
-      const existingQueueItem = await this.offlineQueueModel.findOne({ paymentId });
-      
-      if (existingQueueItem && existingQueueItem.status === 'COMPLETED') {
-        res.status(400).json({ message: 'Offline payment has already been processed' });
-        return;
-      }
+  private async redeemStoreCredit(
+    customerId: string, 
+    amount: number, 
+    currency: string, 
+    orderId: string
+  ): Promise<PaymentResult> {
+    const entry = await this.debitStoreCredit(customerId, amount, StoreCreditEntryType.REDEEM, { orderId }, currency);
+    
+    if (!entry) {
+      const account = await this.storeCreditAccountModel.findOne({ customerId });
       
-      if (existingQueueItem && existingQueueItem.status === 'PROCESSING') {
-        res.status(400).json({ message: 'Offline payment is currently being processed' });
-        return;
+      if (account && account.currency !== currency) {
+        return { success: false, message: `Store credit is held in ${account.currency}` };
       }
       
-      // If failed before, reset it
-      if (existingQueueItem && existingQueueItem.status === 'FAILED') {
-        existingQueueItem.status = 'PENDING';
-        existingQueueItem.attempts = 0;
-        existingQueueItem.error = undefined;
-        await existingQueueItem.save();
-        
-        res.status(200).json({
-          paymentId,
-          message: 'Offline payment resubmitted for processing'
-        });
-        return;
-      }
+      return { 
+        success: false, 
+        message: `Insufficient store credit. Available: ${account ? account.balance : 0}, Requested: ${amount}` 
+      };
+    }
+    
+    return {
+      success: true,
+      transactionId: `SC-${entry.entryId}`,
+      message: `Store credit redeemed. Remaining balance: ${entry.balanceAfter}`
+    };
+  }
+
+  /**
+   * Credit a refund back to store credit (used by the store credit gateway)
+   */
+  private async refundToStoreCredit(
+    customerId: string, 
+    amount: number, 
+    currency: string, 
+    reason?: string
+  ): Promise<RefundResult> {
+    const entry = await this.creditStoreCredit(customerId, amount, StoreCreditEntryType.REFUND, { reason }, currency);
+    
+    if (!entry) {
+      const account = await this.storeCreditAccountModel.findOne({ customerId });
       
-      // Create new queue item if none exists
-      if (!existingQueueItem) {
-        const queueItem = new this.offlineQueueModel({
-          queueId: uuidv4(),
-          paymentId,
-          payload: {
-            orderId: payment.orderId,
-            amount: payment.amount,
-            currency: payment.currency,
-            method: payment.method,
-            metadata: payment.metadata
-          },
-          status: 'PENDING',
-          attempts: 0
-        });
-        
-        await queueItem.save();
+      return { 
+        success: false, 
+        message: `Store credit is held in ${account ? account.currency : 'another currency'}, cannot refund ${currency}` 
+      };
+    }
+    
+    return {
+      success: true,
+      transactionId: `SC-REFUND-${entry.entryId}`,
+      message: `Refunded to store credit. New balance: ${entry.balanceAfter}`
+    };
+  }
+
+  /**
+   * Add to a customer's store credit, opening the account on first use.
+   * Returns null if the account is held in a different currency.
+   */
+  private async creditStoreCredit(
+    customerId: string, 
+    amount: number, 
+    type: StoreCreditEntryType, 
+    details: StoreCreditEntryDetails,
+    currency?: string
+  ): Promise<IStoreCreditEntry | null> {
+    let account: IStoreCreditAccount;
+    
+    try {
+      account = await this.storeCreditAccountModel.findOneAndUpdate(
+        { customerId, ...(currency ? { currency } : {}) },
+        { $inc: { balance: amount, version: 1 } },
+        { new: true, upsert: true, setDefaultsOnInsert: true }
+      );
+    } catch (error: any) {
+      // The upsert collides with the customer's account in another currency
+      if (error.code === 11000) {
+        return null;
       }
       
-      res.status(200).json({
-        paymentId,
-        message: 'Offline payment submitted for processing'
-      });
-    } catch (error) {
-      this.logger.error(`Submit offline payment error: ${error}`);
-      res.status(500).json({ message: 'Failed to submit offline payment' });
+      throw error;
     }
+    
+    return this.appendStoreCreditEntry(account, type, amount, details);
   }
 
   /**
-   * Get offline queue status
+   * Take from a customer's store credit; returns null when the balance is too low
    */
-  private async getOfflineQueueStatus(req: Request, res: Response): Promise<void> {
+  private async debitStoreCredit(
+    customerId: string, 
+    amount: number, 
+    type: StoreCreditEntryType, 
+    details: StoreCreditEntryDetails,
+    currency?: string
+  ): Promise<IStoreCreditEntry | null> {
+    const account = await this.storeCreditAccountModel.findOneAndUpdate(
+      { customerId, balance: { $gte: amount }, ...(currency ? { currency } : {}) },
+      { $inc: { balance: -amount, version: 1 } },
+      { new: true }
+    );
+    
+    if (!account) {
+      return null;
+    }
+    
+    return this.appendStoreCreditEntry(account, type, -amount, details);
+  }
+
+  /**
+   * Append an entry to a customer's store credit ledger and announce the new balance
+   */
+  private async appendStoreCreditEntry(
+    account: IStoreCreditAccount, 
+    type: StoreCreditEntryType, 
+    amount: number, 
+    details: StoreCreditEntryDetails
+  ): Promise<IStoreCreditEntry> {
+    const entry = new this.storeCreditEntryModel({
+      entryId: uuidv4(),
+      customerId: account.customerId,
+      type,
+      amount: parseFloat(amount.toFixed(2)),
+      balanceAfter: parseFloat(account.balance.toFixed(2)),
+      ...details
+    });
+    
+    await entry.save();
+    
+    // The order service keeps its customer balance view in step from this event
+    await this.messageBus.publish('payment', 'payment.storecredit.updated', {
+      customerId: account.customerId,
+      type,
+      amount: entry.amount,
+      balance: entry.balanceAfter,
+      currency: account.currency,
+      version: account.version,
+      timestamp: new Date().toISOString()
+    });
+    
+    return entry;
+  }
+
+  /**
+   * Get the loyalty program's earn rate, point value, expiry and tiers
+   */
+  private async getLoyaltyProgram(req: Request, res: Response): Promise<void> {
+    res.status(200).json({
+      pointsPerUnit: LOYALTY_POINTS_PER_UNIT,
+      pointValue: LOYALTY_POINT_VALUE,
+      expiryDays: LOYALTY_POINTS_EXPIRY_DAYS,
+      tiers: LOYALTY_TIERS
+    });
+  }
+
+  /**
+   * Get a customer's loyalty balance, tier and ledger
+   */
+  private async getLoyaltyAccount(req: Request, res: Response): Promise<void> {
     try {
-      // Get counts for different statuses
-      const pending = await this.offlineQueueModel.countDocuments({ status: 'PENDING' });
-      const processing = await this.offlineQueueModel.countDocuments({ status: 'PROCESSING' });
-      const completed = await this.offlineQueueModel.countDocuments({ status: 'COMPLETED' });
-      const failed = await this.offlineQueueModel.countDocuments({ status: 'FAILED' });
+      const { customerId } = req.params;
+      
+      const account = await this.loyaltyAccountModel.findOne({ customerId });
+      const entries = await this.loyaltyEntryModel.find({ customerId }).sort({ createdAt: -1 });
+      
+      const points = account ? account.points : 0;
+      const tier = this.getLoyaltyTier(account ? account.lifetimeSpend : 0);
+      const nextTier = LOYALTY_TIERS.find(candidate => candidate.minSpend > tier.minSpend);
+      
+      // Points in lots that lapse within the next 30 days
+      const soon = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+      const expiringPoints = entries
+        .filter(entry => entry.remainingPoints && entry.expiresAt && entry.expiresAt <= soon)
+        .reduce((sum, entry) => sum + (entry.remainingPoints || 0), 0);
       
       res.status(200).json({
-        queueStatus: {
-          pending,
-          processing,
-          completed,
-          failed,
-          total: pending + processing + completed + failed
-        },
-        isProcessing: this.isProcessingQueue
+        customerId,
+        points,
+        value: parseFloat((points * LOYALTY_POINT_VALUE).toFixed(2)),
+        tier: tier.name,
+        multiplier: tier.multiplier,
+        lifetimePoints: account ? account.lifetimePoints : 0,
+        lifetimeSpend: account ? account.lifetimeSpend : 0,
+        nextTier: nextTier ? {
+          name: nextTier.name,
+          spendRequired: parseFloat((nextTier.minSpend - (account ? account.lifetimeSpend : 0)).toFixed(2))
+        } : undefined,
+        expiringPoints,
+        ledger: entries.map(entry => ({
+          entryId: entry.entryId,
+          type: entry.type,
+          points: entry.points,
+          pointsAfter: entry.pointsAfter,
+          amount: entry.amount,
+          multiplier: entry.multiplier,
+          orderId: entry.orderId,
+          paymentId: entry.paymentId,
+          reason: entry.reason,
+          approvedBy: entry.approvedBy,
+          expiresAt: entry.expiresAt,
+          createdAt: entry.createdAt
+        }))
       });
-    } catch (error) {
-      this.logger.error(`Get offline queue status error: ${error}`);
-      res.status(500).json({ message: 'Failed to get offline queue status' });
+    } catch (error) {
+      this.logger.error(`Get loyalty account error: ${error}`);
+      res.status(500).json({ message: 'Failed to get loyalty account' });
     }
   }
 
   /**
-   * Refund a payment
+   * Make a goodwill adjustment to a customer's loyalty points
    */
-  private async refundPayment(
-    paymentId: string, 
-    amount: number, 
-    reason?: string
-  ): Promise<{
-    success: boolean;
-    message: string;
-    paymentId?: string;
-    refundedAmount?: number;
-    status?: string;
-  }> {
+  private async adjustLoyaltyPoints(req: Request, res: Response): Promise<void> {
     try {
-      // Find the payment
-      const payment = await this.paymentModel.findOne({
-        $or: [
-          { paymentId },
-          { _id: mongoose.isValidObjectId(paymentId) ? paymentId : undefined }
-        ]
-      });
+      const { customerId } = req.params;
+      const { points, reason, approvedBy } = req.body;
       
-      if (!payment) {
-        return { success: false, message: 'Payment not found' };
+      // Validate input
+      if (!Number.isInteger(points) || points === 0) {
+        res.status(400).json({ message: 'A non-zero whole number of points is required' });
+        return;
       }
       
-      if (payment.status !== PaymentStatus.COMPLETED) {
-        return { success: false, message: `Cannot refund payment with status: ${payment.status}` };
+      if (!reason || !approvedBy) {
+        res.status(400).json({ message: 'Adjustments require a reason and an approver' });
+        return;
       }
       
-      // Validate refund amount
-      if (amount <= 0) {
-        return { success: false, message: 'Refund amount must be greater than 0' };
-      }
+      const details = { reason, approvedBy, employeeId: (req as any).user.userId };
       
-      const totalRefunded = (payment.refundedAmount || 0);
-      const availableToRefund = payment.amount - totalRefunded;
+      const entry = points > 0
+        ? await this.creditLoyaltyPoints(customerId, points, LoyaltyEntryType.ADJUSTMENT, details)
+        : await this.debitLoyaltyPoints(customerId, -points, LoyaltyEntryType.ADJUSTMENT, details);
       
-      if (amount > availableToRefund) {
-        return { 
-          success: false, 
-          message: `Cannot refund more than available amount. Available: ${availableToRefund}, Requested: ${amount}` 
-        };
+      if (!entry) {
+        res.status(400).json({ message: 'Adjustment would take the points balance below zero' });
+        return;
       }
       
-      // Get the gateway
-      const gateway = this.paymentGateways.get(payment.method);
+      res.status(201).json({
+        customerId,
+        entryId: entry.entryId,
+        points: entry.points,
+        balance: entry.pointsAfter
+      });
+    } catch (error: any) {
+      this.logger.error(`Loyalty adjustment error: ${error}`);
+      res.status(500).json({ message: 'Failed to adjust loyalty points', error: error.message });
+    }
+  }
+
+  /**
+   * Award points for spend at the customer's current tier, then move them up a tier if reached
+   */
+  private async earnLoyaltyPoints(customerId: string, orderId: string, amount: number): Promise<ILoyaltyEntry | null> {
+    const current = await this.loyaltyAccountModel.findOne({ customerId });
+    const tier = this.getLoyaltyTier(current ? current.lifetimeSpend : 0);
+    const points = Math.floor(amount * LOYALTY_POINTS_PER_UNIT * tier.multiplier);
+    
+    const account = await this.loyaltyAccountModel.findOneAndUpdate(
+      { customerId },
+      { 
+        $inc: { points, lifetimePoints: points, lifetimeSpend: amount, version: 1 },
+        $set: { lastActivityAt: new Date() }
+      },
+      { new: true, upsert: true }
+    );
+    
+    await this.updateLoyaltyTier(account);
+    
+    return this.appendLoyaltyEntry(account, LoyaltyEntryType.EARN, points, {
+      amount,
+      multiplier: tier.multiplier,
+      orderId
+    });
+  }
+
+  /**
+   * Take back points earned on an order in proportion to the amount refunded
+   */
+  private async reverseLoyaltyPoints(orderId: string, paymentId: string | undefined, refundAmount: number): Promise<void> {
+    try {
+      const earned = await this.loyaltyEntryModel.findOne({ orderId, type: LoyaltyEntryType.EARN });
       
-      if (!gateway) {
-        return { success: false, message: `Payment method ${payment.method} does not support refunds` };
-      }
+      if (!earned || !earned.amount) return;
       
-      // Process refund through gateway
-      let result;
-      try {
-        result = await gateway.processRefund({
-          transactionId: payment.gatewayTransactionId,
-          amount,
-          currency: payment.currency,
-          reason
-        });
-      } catch (error: any) {
-        return { success: false, message: `Refund gateway error: ${error.message}` };
-      }
+      const reversals = await this.loyaltyEntryModel.find({ orderId, type: LoyaltyEntryType.REVERSAL });
+      const alreadyReversed = reversals.reduce((sum, entry) => sum - entry.points, 0);
+      const spendReversed = reversals.reduce((sum, entry) => sum + (entry.amount || 0), 0);
       
-      if (!result.success) {
-        return { success: false, message: `Refund failed: ${result.message}` };
-      }
+      const spend = Math.min(refundAmount, earned.amount - spendReversed);
       
-      // Update payment with refund
-      const newTotalRefunded = totalRefunded + amount;
-      payment.refundedAmount = newTotalRefunded;
+      if (spend <= 0) return;
       
-      // Update status based on refund amount
-      if (newTotalRefunded >= payment.amount) {
-        payment.status = PaymentStatus.REFUNDED;
-      } else {
-        payment.status = PaymentStatus.PARTIALLY_REFUNDED;
+      const points = Math.min(
+        Math.round(earned.points * spend / earned.amount),
+        earned.points - alreadyReversed
+      );
+      
+      // Points already spent cannot be recovered, so the balance stops at zero
+      const account = await this.loyaltyAccountModel.findOne({ customerId: earned.customerId });
+      const recoverable = Math.min(points, account ? account.points : 0);
+      
+      const entry = await this.debitLoyaltyPoints(earned.customerId, recoverable, LoyaltyEntryType.REVERSAL, {
+        amount: parseFloat(spend.toFixed(2)),
+        orderId,
+        paymentId,
+        reason: points > recoverable ? `${points - recoverable} points already redeemed` : undefined
+      }, -spend);
+      
+      if (!entry) {
+        this.logger.error(`Unable to reverse loyalty points for order ${orderId}`);
       }
+    } catch (error) {
+      this.logger.error(`Error reversing loyalty points for order ${orderId}: ${error}`);
+    }
+  }
+
+  /**
+   * Spend points for a payment (used by the loyalty points gateway)
+   */
+  private async redeemLoyaltyPoints(
+    customerId: string, 
+    amount: number, 
+    currency: string, 
+    orderId: string
+  ): Promise<PaymentResult> {
+    const points = Math.ceil(parseFloat((amount / LOYALTY_POINT_VALUE).toFixed(4)));
+    const entry = await this.debitLoyaltyPoints(customerId, points, LoyaltyEntryType.REDEEM, { amount, orderId });
+    
+    if (!entry) {
+      const account = await this.loyaltyAccountModel.findOne({ customerId });
       
-      payment.refundedAt = new Date();
-      payment.notes = (payment.notes || '') + ` Refunded ${amount} on ${new Date().toISOString()}. Reason: ${reason || 'Not specified'}`;
+      return { 
+        success: false, 
+        message: `Insufficient loyalty points. Available: ${account ? account.points : 0}, Required: ${points}` 
+      };
+    }
+    
+    return {
+      success: true,
+      transactionId: `LP-${entry.entryId}`,
+      message: `Redeemed ${points} points. Remaining points: ${entry.pointsAfter}`
+    };
+  }
+
+  /**
+   * Credit a refunded points payment back as points (used by the loyalty points gateway)
+   */
+  private async refundToLoyaltyPoints(
+    customerId: string, 
+    amount: number, 
+    currency: string, 
+    reason?: string
+  ): Promise<RefundResult> {
+    const points = Math.ceil(parseFloat((amount / LOYALTY_POINT_VALUE).toFixed(4)));
+    const entry = await this.creditLoyaltyPoints(customerId, points, LoyaltyEntryType.REFUND, { amount, reason });
+    
+    return {
+      success: true,
+      transactionId: `LP-REFUND-${entry.entryId}`,
+      message: `Refunded ${points} points. New balance: ${entry.pointsAfter}`
+    };
+  }
+
+  /**
+   * Add points to a customer's account, opening it on first use
+   */
+  private async creditLoyaltyPoints(
+    customerId: string, 
+    points: number, 
+    type: LoyaltyEntryType, 
+    details: LoyaltyEntryDetails
+  ): Promise<ILoyaltyEntry> {
+    const account = await this.loyaltyAccountModel.findOneAndUpdate(
+      { customerId },
+      { $inc: { points, version: 1 }, $set: { lastActivityAt: new Date() } },
+      { new: true, upsert: true }
+    );
+    
+    return this.appendLoyaltyEntry(account, type, points, details);
+  }
+
+  /**
+   * Take points from a customer's account, oldest lots first; returns null when the balance is too low.
+   * A non-zero spendChange also moves lifetime spend and with it the customer's tier.
+   */
+  private async debitLoyaltyPoints(
+    customerId: string, 
+    points: number, 
+    type: LoyaltyEntryType, 
+    details: LoyaltyEntryDetails,
+    spendChange: number = 0
+  ): Promise<ILoyaltyEntry | null> {
+    const account = await this.loyaltyAccountModel.findOneAndUpdate(
+      { customerId, points: { $gte: points } },
+      { 
+        $inc: { points: -points, lifetimeSpend: spendChange, version: 1 },
+        $set: { lastActivityAt: new Date() }
+      },
+      { new: true }
+    );
+    
+    if (!account) {
+      return null;
+    }
+    
+    await this.consumeLoyaltyLots(customerId, points);
+    
+    if (spendChange !== 0) {
+      await this.updateLoyaltyTier(account);
+    }
+    
+    return this.appendLoyaltyEntry(account, type, -points, details);
+  }
+
+  /**
+   * Use up points from the customer's earliest-expiring lots
+   */
+  private async consumeLoyaltyLots(customerId: string, points: number): Promise<void> {
+    let remaining = points;
+    
+    const lots = await this.loyaltyEntryModel.find({
+      customerId,
+      remainingPoints: { $gt: 0 }
+    }).sort({ expiresAt: 1, createdAt: 1 });
+    
+    for (const lot of lots) {
+      if (remaining <= 0) break;
       
-      await payment.save();
+      const used = Math.min(remaining, lot.remainingPoints || 0);
+      const updated = await this.loyaltyEntryModel.updateOne(
+        { entryId: lot.entryId, remainingPoints: { $gte: used } },
+        { $inc: { remainingPoints: -used } }
+      );
       
-      // Publish refund event
-      await this.messageBus.publish('payment', 'payment.refunded', {
-        paymentId: payment.paymentId,
-        orderId: payment.orderId,
-        amount,
-        totalRefunded: newTotalRefunded,
-        status: payment.status,
-        reason,
-        timestamp: new Date().toISOString()
+      if (updated.modifiedCount > 0) {
+        remaining -= used;
+      }
+    }
+  }
+
+  /**
+   * Find the tier a lifetime spend qualifies for
+   */
+  private getLoyaltyTier(lifetimeSpend: number): ILoyaltyTier {
+    return LOYALTY_TIERS.reduce(
+      (best, tier) => lifetimeSpend >= tier.minSpend ? tier : best,
+      LOYALTY_TIERS[0]
+    );
+  }
+
+  /**
+   * Store the tier matching the account's lifetime spend, announcing any change
+   */
+  private async updateLoyaltyTier(account: ILoyaltyAccount): Promise<void> {
+    const tier = this.getLoyaltyTier(account.lifetimeSpend);
+    
+    if (tier.name === account.tier) return;
+    
+    const previousTier = account.tier;
+    account.tier = tier.name;
+    await this.loyaltyAccountModel.updateOne({ customerId: account.customerId }, { $set: { tier: tier.name } });
+    
+    await this.messageBus.publish('payment', 'payment.loyalty.tier.changed', {
+      customerId: account.customerId,
+      previousTier,
+      tier: tier.name,
+      multiplier: tier.multiplier,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Start the loyalty points expiry processor
+   */
+  private startLoyaltyExpiryProcessor(): void {
+    this.expireLoyaltyPoints();
+    
+    setInterval(() => this.expireLoyaltyPoints(), 60 * 60 * 1000); // Process every hour
+  }
+
+  /**
+   * Expire the unused points of lots past their expiry date
+   */
+  private async expireLoyaltyPoints(): Promise<void> {
+    try {
+      const lapsed = await this.loyaltyEntryModel.find({
+        remainingPoints: { $gt: 0 },
+        expiresAt: { $lte: new Date() }
       });
       
-      return {
-        success: true,
-        message: 'Refund processed successfully',
-        paymentId: payment.paymentId,
-        refundedAmount: newTotalRefunded,
-        status: payment.status
-      };
-    } catch (error: any) {
-      this.logger.error(`Refund error: ${error}`);
-      return { success: false, message: `Internal error processing refund: ${error.message}` };
+      for (const lot of lapsed) {
+        const previous = await this.loyaltyEntryModel.findOneAndUpdate(
+          { entryId: lot.entryId, remainingPoints: { $gt: 0 } },
+          { $set: { remainingPoints: 0 } },
+          { new: false }
+        );
+        
+        if (!previous || !previous.remainingPoints) continue;
+        
+        const account = await this.loyaltyAccountModel.findOne({ customerId: lot.customerId });
+        const points = Math.min(previous.remainingPoints, account ? account.points : 0);
+        
+        if (points <= 0) continue;
+        
+        const updated = await this.loyaltyAccountModel.findOneAndUpdate(
+          { customerId: lot.customerId, points: { $gte: points } },
+          { $inc: { points: -points, version: 1 } },
+          { new: true }
+        );
+        
+        if (!updated) continue;
+        
+        await this.appendLoyaltyEntry(updated, LoyaltyEntryType.EXPIRE, -points, {
+          reason: `Points earned ${lot.createdAt.toISOString().slice(0, 10)} expired`
+        });
+      }
+    } catch (error) {
+      this.logger.error(`Error expiring loyalty points: ${error}`);
     }
   }
 
+  /**
+   * Append an entry to a customer's loyalty ledger and announce the new balance.
+   * Credits open a lot that expires after the program's expiry period.
+   */
+  private async appendLoyaltyEntry(
+    account: ILoyaltyAccount, 
+    type: LoyaltyEntryType, 
+    points: number, 
+    details: LoyaltyEntryDetails
+  ): Promise<ILoyaltyEntry> {
+    const isLot = points > 0 && LOYALTY_POINTS_EXPIRY_DAYS > 0;
+    
+    const entry = new this.loyaltyEntryModel({
+      entryId: uuidv4(),
+      customerId: account.customerId,
+      type,
+      points,
+      pointsAfter: account.points,
+      ...details,
+      expiresAt: isLot ? new Date(Date.now() + LOYALTY_POINTS_EXPIRY_DAYS * 24 * 60 * 60 * 1000) : undefined,
+      remainingPoints: isLot ? points : undefined
+    });
+    
+    await entry.save();
+    
+    await this.messageBus.publish('payment', 'payment.loyalty.updated', {
+      customerId: account.customerId,
+      type,
+      points,
+      balance: account.points,
+      tier: account.tier,
+      orderId: details.orderId,
+      version: account.version,
+      timestamp: new Date().toISOString()
+    });
+    
+    return entry;
+  }
+
   /**
    * Override start method to also initialize message handlers
    */
@@ -969,6 +4243,7 @@ interface RefundRequest {
   amount: number;
   currency: string;
   reason?: string;
+  metadata?: Record<string, any>;
 }
 
 // Abstract payment gateway
@@ -1036,6 +4311,103 @@ class CardPaymentGateway extends PaymentGateway {
   }
 }
 
+// Stored-value ledger operations used by the gift card and store credit gateways
+interface StoredValueLedger {
+  redeem(accountId: string, amount: number, currency: string, orderId: string): Promise<PaymentResult>;
+  refund(accountId: string, amount: number, currency: string, reason?: string): Promise<RefundResult>;
+}
+
+// Gift card payment gateway implementation
+class GiftCardPaymentGateway extends PaymentGateway {
+  private readonly ledger: StoredValueLedger;
+  
+  constructor(ledger: StoredValueLedger) {
+    super();
+    this.ledger = ledger;
+  }
+  
+  async processPayment(request: PaymentRequest): Promise<PaymentResult> {
+    const cardNumber = request.metadata?.giftCardNumber;
+    
+    if (!cardNumber) {
+      return { success: false, message: 'Gift card number is required' };
+    }
+    
+    return this.ledger.redeem(cardNumber, request.amount, request.currency, request.orderId);
+  }
+  
+  async processRefund(request: RefundRequest): Promise<RefundResult> {
+    const cardNumber = request.metadata?.giftCardNumber;
+    
+    if (!cardNumber) {
+      return { success: false, message: 'Gift card number is missing from the original payment' };
+    }
+    
+    // Refunds go back onto the card that was redeemed
+    return this.ledger.refund(cardNumber, request.amount, request.currency, request.reason);
+  }
+}
+
+// Store credit payment gateway implementation
+class StoreCreditPaymentGateway extends PaymentGateway {
+  private readonly ledger: StoredValueLedger;
+  
+  constructor(ledger: StoredValueLedger) {
+    super();
+    this.ledger = ledger;
+  }
+  
+  async processPayment(request: PaymentRequest): Promise<PaymentResult> {
+    const customerId = request.metadata?.customerId;
+    
+    if (!customerId) {
+      return { success: false, message: 'Customer ID is required for store credit' };
+    }
+    
+    return this.ledger.redeem(customerId, request.amount, request.currency, request.orderId);
+  }
+  
+  async processRefund(request: RefundRequest): Promise<RefundResult> {
+    const customerId = request.metadata?.customerId;
+    
+    if (!customerId) {
+      return { success: false, message: 'Customer ID is missing from the original payment' };
+    }
+    
+    return this.ledger.refund(customerId, request.amount, request.currency, request.reason);
+  }
+}
+
+// Loyalty points payment gateway implementation (amounts are in currency; the ledger converts to points)
+class LoyaltyPointsPaymentGateway extends PaymentGateway {
+  private readonly ledger: StoredValueLedger;
+  
+  constructor(ledger: StoredValueLedger) {
+    super();
+    this.ledger = ledger;
+  }
+  
+  async processPayment(request: PaymentRequest): Promise<PaymentResult> {
+    const customerId = request.metadata?.customerId;
+    
+    if (!customerId) {
+      return { success: false, message: 'Customer ID is required to redeem loyalty points' };
+    }
+    
+    return this.ledger.redeem(customerId, request.amount, request.currency, request.orderId);
+  }
+  
+  async processRefund(request: RefundRequest): Promise<RefundResult> {
+    const customerId = request.metadata?.customerId;
+    
+    if (!customerId) {
+      return { success: false, message: 'Customer ID is missing from the original payment' };
+    }
+    
+    return this.ledger.refund(customerId, request.amount, request.currency, request.reason);
+  }
+}
+
 // Start the service if this file is run directly
 if (require.main === module) {
   const paymentService = new PaymentService();
@@ -22,6 +22,9 @@ enum ReportType {
   DELIVERY = 'DELIVERY',
   CUSTOMER = 'CUSTOMER',
   FINANCIAL = 'FINANCIAL',
+  DRAWER = 'DRAWER',
+  FORECAST = 'FORECAST',
+  SHRINKAGE = 'SHRINKAGE',
   CUSTOM = 'CUSTOM'
 }
 
@@ -67,6 +70,7 @@ interface IReport extends Document {
     productId?: string;
     categoryId?: string;
     userId?: string;
+    drawerSessionId?: string;
     timePeriod?: ReportTimePeriod;
     filters?: Record<string, any>;
     groupBy?: string[];
@@ -191,6 +195,7 @@ export class ReportingService extends BaseService {
         productId: { type: String },
         categoryId: { type: String },
         userId: { type: String },
+        drawerSessionId: { type: String },
         timePeriod: { 
           type: String,
           enum: Object.values(ReportTimePeriod)
@@ -349,6 +354,11 @@ export class ReportingService extends BaseService {
       ) {
         await this.recordPaymentEvent(msg.fields.routingKey, content);
       }
+      
+      // Produce the Z report when a cash drawer is closed
+      if (msg.fields.routingKey === 'payment.drawer.closed') {
+        await this.createDrawerCloseReport(content);
+      }
     });
     
     // Listen for inventory events
@@ -1268,6 +1278,15 @@ export class ReportingService extends BaseService {
         case ReportType.FINANCIAL:
           reportData = await this.generateFinancialReport(report);
           break;
+        case ReportType.DRAWER:
+          reportData = await this.generateDrawerReport(report);
+          break;
+        case ReportType.FORECAST:
+          reportData = await this.generateForecastReport(report);
+          break;
+        case ReportType.SHRINKAGE:
+          reportData = await this.generateShrinkageReport(report);
+          break;
         case ReportType.CUSTOM:
           reportData = await this.generateCustomReport(report);
           break;
@@ -1464,6 +1483,10 @@ export class ReportingService extends BaseService {
     const lowStockResponse = await axios.get(lowStockUrl);
     const lowStockData = lowStockResponse.data;
     
+    // Get the category tree
+    const categoriesResponse = await axios.get(`${INVENTORY_SERVICE_URL}/categories?flat=true&includeInactive=true`);
+    const categories = categoriesResponse.data.categories || [];
+    
     // Filter by product or category if specified
     let items = inventoryData.inventory || [];
     
@@ -1472,7 +1495,13 @@ export class ReportingService extends BaseService {
     }
     
     if (categoryId) {
-      items = items.filter((item: any) => item.category === categoryId);
+      // A category includes its subcategories
+      const subtreePaths = new Set(categories
+        .filter((category: any) => category.categoryId === categoryId || category.ancestorIds.includes(categoryId))
+        .map((category: any) => category.path));
+      
+      items = items.filter((item: any) => 
+        item.categoryId === categoryId || item.category === categoryId || subtreePaths.has(item.category));
     }
     
     // Calculate metrics
@@ -1482,15 +1511,16 @@ export class ReportingService extends BaseService {
     const outOfStockCount = items.filter((item: any) => item.quantity === 0).length;
     const lowStockCount = items.filter((item: any) => item.quantity > 0 && item.quantity <= item.reorderPoint).length;
     
-    // Prepare inventory value by category chart
-    const valueByCategory = this.groupInventoryByCategory(items);
+    // Prepare inventory value by category chart, at the top level of the tree
+    const valueByCategory = this.groupInventoryByCategory(items, categories);
+    const topLevel = valueByCategory.filter(entry => entry.depth === 0);
     
     const categoryChartData = {
       type: 'pie',
-      labels: Object.keys(valueByCategory),
+      labels: topLevel.map(entry => entry.category),
       datasets: [
         {
-          data: Object.values(valueByCategory)
+          data: topLevel.map(entry => entry.value)
         }
       ]
     };
@@ -1525,11 +1555,261 @@ export class ReportingService extends BaseService {
       ],
       data: {
         items,
+        valueByCategory,
         lowStockItems: lowStockData.alerts || []
       }
     };
   }
 
+  /**
+   * Generate a demand forecast report: forecast vs actual units sold per item over the
+   * period, from a forecast made with the sales history before it
+   */
+  private async generateForecastReport(report: IReport): Promise<any> {
+    // Get parameters
+    const { 
+      startDate, 
+      endDate, 
+      storeId, 
+      productId 
+    } = report.parameters;
+    
+    // Default to the next 28 days
+    const start = startDate ? new Date(startDate) : new Date();
+    const end = endDate ? new Date(endDate) : new Date(start.getTime() + 28 * 24 * 60 * 60 * 1000);
+    const horizonDays = Math.min(366, Math.max(1, Math.ceil((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000))));
+    
+    // Fetch forecasts from Inventory Service
+    const url = new URL(`${INVENTORY_SERVICE_URL}/inventory/forecast`);
+    url.searchParams.append('asOf', start.toISOString());
+    url.searchParams.append('horizonDays', horizonDays.toString());
+    url.searchParams.append('limit', '1000'); // Get a large dataset for reporting
+    
+    if (storeId) url.searchParams.append('storeId', storeId);
+    if (productId) url.searchParams.append('productId', productId);
+    
+    const response = await axios.get(url.toString());
+    const forecastItems = response.data.items || [];
+    
+    // Forecast vs actual per item; actuals exist only for days already past
+    const items = forecastItems.map((item: any) => {
+      const pastDays = item.forecast.filter((day: any) => day.actual !== undefined);
+      const forecastToDate = pastDays.reduce((sum: number, day: any) => sum + day.quantity, 0);
+      const actualToDate = pastDays.reduce((sum: number, day: any) => sum + day.actual, 0);
+      
+      return {
+        productId: item.productId,
+        sku: item.sku,
+        name: item.name,
+        storeId: item.storeId,
+        dailyVelocity: item.dailyVelocity,
+        forecastQuantity: item.forecastQuantity,
+        forecastToDate: parseFloat(forecastToDate.toFixed(2)),
+        actualToDate,
+        variance: parseFloat((actualToDate - forecastToDate).toFixed(2)),
+        absoluteError: parseFloat(pastDays.reduce((sum: number, day: any) => sum + Math.abs(day.actual - day.quantity), 0).toFixed(2)),
+        available: item.available,
+        onOrder: item.onOrder,
+        reorderPoint: item.reorderPoint,
+        suggestedReorderPoint: item.suggestedReorderPoint,
+        reorderQuantity: item.reorderQuantity,
+        suggestedOrderQuantity: item.suggestedOrderQuantity
+      };
+    });
+    
+    // Daily totals across items
+    const byDay = new Map<string, { date: string; forecast: number; actual?: number }>();
+    
+    for (const item of forecastItems) {
+      for (const day of item.forecast) {
+        const entry: { date: string; forecast: number; actual?: number } = byDay.get(day.date) || { date: day.date, forecast: 0 };
+        entry.forecast = parseFloat((entry.forecast + day.quantity).toFixed(2));
+        
+        if (day.actual !== undefined) {
+          entry.actual = (entry.actual || 0) + day.actual;
+        }
+        
+        byDay.set(day.date, entry);
+      }
+    }
+    
+    const days = Array.from(byDay.values()).sort((a, b) => a.date.localeCompare(b.date));
+    
+    // Calculate summary metrics; accuracy is one less the error weighted by actual sales
+    const totalForecast = items.reduce((sum: number, item: any) => sum + item.forecastQuantity, 0);
+    const forecastToDate = items.reduce((sum: number, item: any) => sum + item.forecastToDate, 0);
+    const actualToDate = items.reduce((sum: number, item: any) => sum + item.actualToDate, 0);
+    const absoluteError = items.reduce((sum: number, item: any) => sum + item.absoluteError, 0);
+    
+    // Prepare forecast vs actual chart
+    const forecastChartData = {
+      type: 'line',
+      labels: days.map(day => day.date),
+      datasets: [
+        {
+          label: 'Forecast',
+          data: days.map(day => day.forecast)
+        },
+        {
+          label: 'Actual',
+          data: days.map(day => day.actual ?? null)
+        }
+      ]
+    };
+    
+    // Prepare largest variances chart
+    const largestVariances = [...items]
+      .sort((a: any, b: any) => Math.abs(b.variance) - Math.abs(a.variance))
+      .slice(0, 10);
+    
+    const varianceChartData = {
+      type: 'bar',
+      labels: largestVariances.map((item: any) => item.name),
+      datasets: [
+        {
+          label: 'Actual - Forecast',
+          data: largestVariances.map((item: any) => item.variance)
+        }
+      ]
+    };
+    
+    // Prepare result
+    return {
+      summary: {
+        startDate: start,
+        endDate: end,
+        itemCount: items.length,
+        totalForecast: parseFloat(totalForecast.toFixed(2)),
+        forecastToDate: parseFloat(forecastToDate.toFixed(2)),
+        actualToDate,
+        bias: parseFloat((forecastToDate - actualToDate).toFixed(2)),
+        forecastAccuracy: actualToDate > 0 ? parseFloat(((1 - absoluteError / actualToDate) * 100).toFixed(2)) : null,
+        itemsToReorder: items.filter((item: any) => item.suggestedOrderQuantity > 0).length
+      },
+      charts: [
+        { id: 'forecast_vs_actual', title: 'Forecast vs Actual Units', data: forecastChartData },
+        { id: 'forecast_variances', title: 'Largest Forecast Variances', data: varianceChartData }
+      ],
+      data: {
+        items,
+        byDay: days
+      }
+    };
+  }
+
+  /**
+   * Generate a shrinkage report: stock written off as damaged, stolen, expired and so on,
+   * valued at cost and broken down by reason, category and store
+   */
+  private async generateShrinkageReport(report: IReport): Promise<any> {
+    // Get parameters
+    const { 
+      startDate, 
+      endDate, 
+      storeId 
+    } = report.parameters;
+    
+    // Default to last 30 days
+    const end = endDate ? new Date(endDate) : new Date();
+    const start = startDate ? new Date(startDate) : new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000);
+    
+    // Fetch posted write-offs from Inventory Service
+    const url = new URL(`${INVENTORY_SERVICE_URL}/write-offs/summary`);
+    url.searchParams.append('startDate', start.toISOString());
+    url.searchParams.append('endDate', end.toISOString());
+    
+    if (storeId) url.searchParams.append('storeId', storeId);
+    
+    const response = await axios.get(url.toString());
+    const shrinkage = response.data;
+    
+    // Fetch cost of goods sold to express shrinkage as a share of it
+    const cogsUrl = new URL(`${INVENTORY_SERVICE_URL}/inventory/cogs`);
+    cogsUrl.searchParams.append('startDate', start.toISOString());
+    cogsUrl.searchParams.append('endDate', end.toISOString());
+    
+    if (storeId) cogsUrl.searchParams.append('storeId', storeId);
+    
+    const cogsResponse = await axios.get(cogsUrl.toString());
+    const costOfGoodsSold = cogsResponse.data.costOfGoodsSold || 0;
+    
+    // Prepare by reason chart
+    const reasonChartData = {
+      type: 'pie',
+      labels: shrinkage.byReason.map((entry: any) => entry.name),
+      datasets: [
+        {
+          data: shrinkage.byReason.map((entry: any) => entry.value)
+        }
+      ]
+    };
+    
+    // Prepare by category chart, at the top level of the tree; subcategories are rolled up into it
+    const topCategories = shrinkage.byCategory.filter((entry: any) => entry.depth === 0);
+    
+    const categoryChartData = {
+      type: 'bar',
+      labels: topCategories.map((entry: any) => entry.category),
+      datasets: [
+        {
+          label: 'Shrinkage Value',
+          data: topCategories.map((entry: any) => entry.value)
+        }
+      ]
+    };
+    
+    // Prepare by store chart
+    const storeChartData = {
+      type: 'bar',
+      labels: shrinkage.byStore.map((entry: any) => entry.storeId),
+      datasets: [
+        {
+          label: 'Shrinkage Value',
+          data: shrinkage.byStore.map((entry: any) => entry.value)
+        }
+      ]
+    };
+    
+    // Prepare shrinkage over time chart
+    const timeChartData = {
+      type: 'line',
+      labels: shrinkage.byDay.map((entry: any) => entry.date),
+      datasets: [
+        {
+          label: 'Shrinkage Value',
+          data: shrinkage.byDay.map((entry: any) => entry.value)
+        }
+      ]
+    };
+    
+    // Prepare result
+    return {
+      summary: {
+        startDate: start,
+        endDate: end,
+        writeOffCount: shrinkage.count,
+        unitsWrittenOff: shrinkage.quantity,
+        shrinkageValue: shrinkage.value,
+        costOfGoodsSold,
+        shrinkageRate: costOfGoodsSold > 0 ? parseFloat(((shrinkage.value / costOfGoodsSold) * 100).toFixed(2)) : null,
+        topReason: shrinkage.byReason.length > 0 ? shrinkage.byReason[0].name : null
+      },
+      charts: [
+        { id: 'shrinkage_by_reason', title: 'Shrinkage by Reason', data: reasonChartData },
+        { id: 'shrinkage_by_category', title: 'Shrinkage by Category', data: categoryChartData },
+        { id: 'shrinkage_by_store', title: 'Shrinkage by Store', data: storeChartData },
+        { id: 'shrinkage_over_time', title: 'Shrinkage Over Time', data: timeChartData }
+      ],
+      data: {
+        byType: shrinkage.byType,
+        byReason: shrinkage.byReason,
+        byCategory: shrinkage.byCategory,
+        byStore: shrinkage.byStore,
+        byDay: shrinkage.byDay
+      }
+    };
+  }
+
   /**
    * Generate a payment report
    */
@@ -1641,6 +1921,64 @@ export class ReportingService extends BaseService {
     };
   }
 
+  /**
+   * Generate a cash drawer report (X report for an open session, Z report for a closed one)
+   */
+  private async generateDrawerReport(report: IReport): Promise<any> {
+    const { drawerSessionId } = report.parameters;
+    
+    if (!drawerSessionId) {
+      throw new Error('Drawer session ID is required for drawer reports');
+    }
+    
+    const response = await axios.get(`${PAYMENT_SERVICE_URL}/drawer-sessions/${drawerSessionId}/report`);
+    const session = response.data;
+    
+    const movementChartData = {
+      type: 'bar',
+      labels: Object.keys(session.byType),
+      datasets: [
+        {
+          label: 'Amount',
+          data: Object.values(session.byType).map((totals: any) => totals.amount)
+        }
+      ]
+    };
+    
+    return {
+      summary: {
+        reportType: session.reportType,
+        sessionId: session.sessionId,
+        storeId: session.storeId,
+        terminalId: session.terminalId,
+        employeeId: session.employeeId,
+        status: session.status,
+        currency: session.currency,
+        openedAt: session.openedAt,
+        closedAt: session.closedAt,
+        openingFloat: session.openingFloat,
+        cashSales: session.cashSales,
+        cashRefunds: session.cashRefunds,
+        paidIn: session.paidIn,
+        paidOut: session.paidOut,
+        expectedCash: session.expectedCash,
+        countedCash: session.countedCash,
+        variance: session.variance,
+        overShort: session.variance === undefined || session.variance === null
+          ? undefined
+          : session.variance > 0 ? 'OVER' : session.variance < 0 ? 'SHORT' : 'BALANCED'
+      },
+      charts: [
+        { id: 'drawer_movements', title: 'Cash Movements', data: movementChartData }
+      ],
+      data: {
+        byType: session.byType,
+        denominations: session.denominations,
+        movements: session.movements
+      }
+    };
+  }
+
   /**
    * Generate a delivery report
    */
@@ -1877,7 +2215,8 @@ export class ReportingService extends BaseService {
     const { 
       startDate, 
       endDate, 
-      timePeriod 
+      timePeriod,
+      storeId
     } = report.parameters;
     
     // Calculate date range
@@ -1926,20 +2265,53 @@ export class ReportingService extends BaseService {
     // Calculate net revenue
     const netRevenue = revenue - refunds;
     
-    // Calculate cost of goods sold (estimating 60% of revenue)
-    const costOfGoodsSold = revenue * 0.6;
+    // Fetch cost of goods sold and inventory valuation from Inventory Service
+    const cogsUrl = new URL(`${INVENTORY_SERVICE_URL}/inventory/cogs`);
+    cogsUrl.searchParams.append('startDate', start.toISOString());
+    cogsUrl.searchParams.append('endDate', end.toISOString());
+    
+    if (storeId) cogsUrl.searchParams.append('storeId', storeId);
+    
+    const cogsResponse = await axios.get(cogsUrl.toString());
+    const cogsStats = cogsResponse.data;
+    const costOfGoodsSold = cogsStats.costOfGoodsSold || 0;
+    const cogsByDay = new Map<string, number>(
+      (cogsStats.byDay || []).map((day: any) => [day.date, day.costOfGoodsSold])
+    );
+    
+    const [openingValuation, closingValuation] = await Promise.all([start, end].map(async date => {
+      const valuationUrl = new URL(`${INVENTORY_SERVICE_URL}/inventory/valuation`);
+      valuationUrl.searchParams.append('asOf', date.toISOString());
+      
+      if (storeId) valuationUrl.searchParams.append('storeId', storeId);
+      
+      const valuationResponse = await axios.get(valuationUrl.toString());
+      return valuationResponse.data.totalValue || 0;
+    }));
     
     // Calculate gross profit
     const grossProfit = netRevenue - costOfGoodsSold;
     const grossProfitMargin = revenue > 0 ? (grossProfit / revenue) * 100 : 0;
     
+    // Fetch tax liability from Order Service
+    const taxUrl = new URL(`${ORDER_SERVICE_URL}/orders/stats/tax`);
+    taxUrl.searchParams.append('startDate', start.toISOString());
+    taxUrl.searchParams.append('endDate', end.toISOString());
+    
+    if (storeId) taxUrl.searchParams.append('storeId', storeId);
+    
+    const taxResponse = await axios.get(taxUrl.toString());
+    const taxStats = taxResponse.data;
+    const taxByJurisdiction = taxStats.byJurisdiction || [];
+    const taxLiability = taxStats.totalTax || 0;
+    
     // Prepare financial data by day
     const financialByDay = salesSummaries.map((salesSummary, index) => {
       const paymentSummary = paymentSummaries[index] || { data: { metrics: {} } };
       const dayRevenue = salesSummary.data.total || 0;
       const dayRefunds = paymentSummary.data.metrics.refundAmount || 0;
       const dayNetRevenue = dayRevenue - dayRefunds;
-      const dayCogs = dayRevenue * 0.6;
+      const dayCogs = cogsByDay.get(salesSummary.date) || 0;
       const dayGrossProfit = dayNetRevenue - dayCogs;
       
       return {
@@ -1983,6 +2355,18 @@ export class ReportingService extends BaseService {
       ]
     };
     
+    // Prepare tax liability chart
+    const taxChartData = {
+      type: 'bar',
+      labels: taxByJurisdiction.map((tax: any) => `${tax.jurisdiction} - ${tax.name}`),
+      datasets: [
+        {
+          label: 'Tax Collected',
+          data: taxByJurisdiction.map((tax: any) => tax.taxAmount)
+        }
+      ]
+    };
+    
     // Prepare result
     return {
       summary: {
@@ -1993,14 +2377,20 @@ export class ReportingService extends BaseService {
         netRevenue,
         costOfGoodsSold,
         grossProfit,
-        grossProfitMargin: grossProfitMargin.toFixed(2) + '%'
+        grossProfitMargin: grossProfitMargin.toFixed(2) + '%',
+        openingInventoryValue: openingValuation,
+        closingInventoryValue: closingValuation,
+        taxLiability,
+        taxExemptSales: taxStats.exemptSales?.total || 0
       },
       charts: [
         { id: 'financial_metrics', title: 'Financial Metrics Over Time', data: revenueChartData },
-        { id: 'financial_summary', title: 'Financial Summary', data: summaryChartData }
+        { id: 'financial_summary', title: 'Financial Summary', data: summaryChartData },
+        { id: 'tax_liability', title: 'Tax Liability by Jurisdiction', data: taxChartData }
       ],
       data: {
-        financialByDay
+        financialByDay,
+        taxByJurisdiction
       }
     };
   }
@@ -2728,6 +3118,36 @@ export class ReportingService extends BaseService {
     }
   }
 
+  /**
+   * Create the Z report for a closed cash drawer session
+   */
+  private async createDrawerCloseReport(content: any): Promise<void> {
+    try {
+      const { sessionId, storeId, terminalId, closedBy, closedAt } = content;
+      
+      const report = new this.reportModel({
+        reportId: uuidv4(),
+        name: `Z Report - ${terminalId} - ${this.getDateString(new Date(closedAt || Date.now()), 'DAILY')}`,
+        description: `End of shift reconciliation for drawer session ${sessionId}`,
+        type: ReportType.DRAWER,
+        format: ReportFormat.JSON,
+        status: ReportStatus.PENDING,
+        parameters: {
+          storeId,
+          drawerSessionId: sessionId
+        },
+        createdBy: closedBy || 'system',
+        isScheduled: false
+      });
+      
+      await report.save();
+      
+      await this.generateReport(report);
+    } catch (error) {
+      this.logger.error(`Error creating drawer close report: ${error}`);
+    }
+  }
+
   /**
    * Record inventory event
    */
@@ -2863,23 +3283,54 @@ export class ReportingService extends BaseService {
   }
 
   /**
-   * Group inventory by category
+   * Group inventory value by category, rolling each item up to every category above it
+   * in the tree. Categories outside the tree are grouped as they are
    */
-  private groupInventoryByCategory(items: any[]): Record<string, number> {
-    const categories: Record<string, number> = {};
+  private groupInventoryByCategory(
+    items: any[], 
+    categories: any[]
+  ): { categoryId?: string; category: string; depth: number; value: number; ownValue: number }[] {
+    const byId = new Map<string, any>(categories.map(category => [category.categoryId, category]));
+    const byPath = new Map<string, any>(categories.map(category => [category.path, category]));
+    const groups = new Map<string, { categoryId?: string; category: string; depth: number; value: number; ownValue: number }>();
+    
+    const addTo = (key: string, node: any, value: number, own: boolean): void => {
+      const entry = groups.get(key) || { 
+        categoryId: node?.categoryId, 
+        category: node ? node.path : key, 
+        depth: node ? node.depth : 0, 
+        value: 0, 
+        ownValue: 0 
+      };
+      
+      entry.value += value;
+      if (own) entry.ownValue += value;
+      groups.set(key, entry);
+    };
     
     items.forEach(item => {
-      const category = item.category || 'Uncategorized';
       const value = (item.quantity || 0) * (item.price || 0);
+      const node = (item.categoryId && byId.get(item.categoryId)) || byPath.get(item.category);
       
-      if (!categories[category]) {
-        categories[category] = 0;
+      if (!node) {
+        addTo(item.category || 'Uncategorized', undefined, value, true);
+        return;
       }
       
-      categories[category] += value;
+      addTo(node.path, node, value, true);
+      
+      for (const ancestorId of node.ancestorIds) {
+        const ancestor = byId.get(ancestorId);
+        
+        if (ancestor) {
+          addTo(ancestor.path, ancestor, value, false);
+        }
+      }
     });
     
-    return categories;
+    return Array.from(groups.values())
+      .map(entry => ({ ...entry, value: parseFloat(entry.value.toFixed(2)), ownValue: parseFloat(entry.ownValue.toFixed(2)) }))
+      .sort((a, b) => a.category.localeCompare(b.category));
   }
 
   /**